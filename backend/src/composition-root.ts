@@ -4,6 +4,7 @@ import { TypesenseJobService } from "@shared/infrastructure/typesense.service/ty
 import { TypesenseUserProfileService } from "@shared/infrastructure/typesense.service/typesense-user-profile.service";
 import { TypesenseProfileService } from "@shared/infrastructure/typesense.service/typesense-profile.service";
 import { TypesenseEmployerService } from "@shared/infrastructure/typesense.service/typesense-employer.service";
+import { createGeocoder } from "@shared/infrastructure/geocoder/create-geocoder";
 import { BullMqEventBus } from "@shared/events";
 
 // Module composition roots
@@ -17,6 +18,9 @@ import {
 import { createJobBoardModule } from "@/modules/job-board";
 import { createApplicationsModule } from "@/modules/applications";
 import { createInvitationsModule } from "@/modules/invitations";
+import { createInterviewsModule } from "@/modules/interviews";
+import { createMessagingModule } from "@/modules/messaging";
+import { createBackOfficeModule } from "@/modules/back-office";
 
 // Concrete repositories — only the central composition root instantiates these
 import { JobBoardRepository } from "@/modules/job-board";
@@ -24,11 +28,14 @@ import { JobInsightsRepository } from "@/modules/job-board";
 import {
   ApplicationsRepository,
   SavedJobRepository,
+  HiringPipelineRepository,
+  ScorecardRepository,
 } from "@/modules/applications";
 import { OrganizationsRepository } from "@/modules/organizations";
 import {
   PreferenceRepository,
   ProfileRepository,
+  WorkAreaRepository,
 } from "@/modules/user-profile";
 
 // Cross-module adapters
@@ -37,17 +44,23 @@ import {
   OrganizationsToJobBoardAdapter,
   OrganizationsToApplicationsAdapter,
   OrganizationsToInvitationsAdapter,
+  OrganizationsToMessagingAdapter,
   IdentityToNotificationsAdapter,
   IdentityToApplicationsAdapter,
   IdentityToInvitationsAdapter,
   IdentityToJobBoardAdapter,
   ApplicationsToJobBoardAdapter,
+  ApplicationsToInterviewsAdapter,
   JobBoardToApplicationsAdapter,
+  JobBoardToOrganizationsAdapter,
+  JobBoardToNotificationsAdapter,
+  JobBoardToBackOfficeAdapter,
   ProfileToJobBoardAdapter,
   ProfileToRecommendationAdapter,
   FileMetadataUpdateAdapter,
   JobBoardToSharedInsightsAdapter,
   IdentityToProfileWriteAdapter,
+  ProfileToOrganizationsAdapter,
   ProfileToOrganizationsIntentSyncAdapter,
   OrganizationsToIdentityAdapter,
 } from "@shared/adapters";
@@ -68,6 +81,9 @@ import type { JobBoardModule } from "@/modules/job-board";
 import type { ApplicationsModule } from "@/modules/applications";
 import type { OrganizationsModule } from "@/modules/organizations";
 import type { InvitationsModule } from "@/modules/invitations";
+import type { InterviewsModule } from "@/modules/interviews";
+import type { MessagingModule } from "@/modules/messaging";
+import type { BackOfficeModule } from "@/modules/back-office";
 import type { ModuleWorkers } from "@shared/types/module-workers";
 
 import logger from "@shared/logger";
@@ -92,16 +108,36 @@ export type CompositionRoot = {
     | "guards"
   >;
   notifications: Pick<NotificationsModule, "controller">;
-  jobBoard: Pick<JobBoardModule, "controller" | "guards">;
+  jobBoard: Pick<
+    JobBoardModule,
+    "controller" | "moderationController" | "guards"
+  >;
   applications: Pick<
     ApplicationsModule,
-    "controller" | "savedJobController" | "guards"
+    | "controller"
+    | "savedJobController"
+    | "hiringPipelineController"
+    | "scorecardController"
+    | "bulkActionsController"
+    | "guards"
   >;
   organizations: Pick<
     OrganizationsModule,
-    "controller" | "candidateSearchController" | "guards"
+    | "controller"
+    | "candidateSearchController"
+    | "candidateProfileController"
+    | "auditEventsController"
+    | "membersController"
+    | "permissionsController"
+    | "entitlementsController"
+    | "verificationController"
+    | "profileController"
+    | "guards"
   >;
   invitations: Pick<InvitationsModule, "controller" | "guards">;
+  interviews: Pick<InterviewsModule, "controller">;
+  messaging: Pick<MessagingModule, "controller">;
+  backOffice: Pick<BackOfficeModule, "controller">;
   workers: {
     initializeAll(): void;
     scheduleAllJobs(): Promise<void>;
@@ -120,7 +156,8 @@ export type CompositionRoot = {
  * 2. Repositories for cross-dependent modules (job-board ↔ applications)
  * 3. Leaf modules (organizations, identity)
  * 4. Cross-module adapters (using repos/services from steps 2-3)
- * 5. Remaining modules (user-profile, notifications, job-board, applications, invitations)
+ * 5. Remaining modules (user-profile, job-board, notifications, applications, invitations, interviews,
+ *    messaging, back-office)
  * 6. Auth dependency injection
  * 7. Shared workers (file-upload, domain-event, temp-file-cleanup)
  */
@@ -133,6 +170,7 @@ export function createCompositionRoot(): CompositionRoot {
   const typesenseUserProfileService = new TypesenseUserProfileService();
   const typesenseProfileService = new TypesenseProfileService();
   const typesenseEmployerService = new TypesenseEmployerService();
+  const geocoder = createGeocoder();
 
   // ─── 2. Concrete Repositories ───────────────────────────────────────
   // All repositories are created here and injected into modules.
@@ -143,9 +181,12 @@ export function createCompositionRoot(): CompositionRoot {
   const jobInsightsRepository = new JobInsightsRepository();
   const applicationsRepository = new ApplicationsRepository();
   const savedJobRepository = new SavedJobRepository();
+  const hiringPipelineRepository = new HiringPipelineRepository();
+  const scorecardRepository = new ScorecardRepository();
   const organizationsRepository = new OrganizationsRepository();
   const profileRepository = new ProfileRepository();
   const preferenceRepository = new PreferenceRepository();
+  const workAreaRepository = new WorkAreaRepository();
 
   // EmailService depends on email preferences — satisfied by NotificationsRepository
   const emailService = new EmailService(notificationsRepository);
@@ -192,6 +233,16 @@ export function createCompositionRoot(): CompositionRoot {
     jobBoardRepository,
   );
 
+  // Applications → Interviews (stages that allow interviews)
+  const applicationsToInterviewsAdapter = new ApplicationsToInterviewsAdapter(
+    hiringPipelineRepository,
+  );
+
+  // Job-board → Organizations (posting counts for plan limits)
+  const jobBoardToOrganizationsAdapter = new JobBoardToOrganizationsAdapter(
+    jobBoardRepository,
+  );
+
   // Shared worker adapters
   const fileMetadataUpdateAdapter = new FileMetadataUpdateAdapter();
   const jobBoardToSharedInsightsAdapter = new JobBoardToSharedInsightsAdapter(
@@ -206,12 +257,16 @@ export function createCompositionRoot(): CompositionRoot {
     identity.repository,
   );
 
-  // Organizations module (needs intent sync adapter)
+  // Organizations module (needs intent sync and job posting usage adapters)
   const organizations = createOrganizationsModule({
     intentSync: intentSyncAdapter,
+    jobPostingUsage: jobBoardToOrganizationsAdapter,
+    candidateProfileQuery: new ProfileToOrganizationsAdapter(profileRepository),
+    outreachJobQuery: jobBoardToOrganizationsAdapter,
     organizationsRepository,
     typesenseEmployerService,
     typesenseProfileService,
+    geocoder,
   });
 
   // Organizations → other modules (adapters using module's repo + service)
@@ -221,6 +276,7 @@ export function createCompositionRoot(): CompositionRoot {
   );
   const orgsToJobBoardAdapter = new OrganizationsToJobBoardAdapter(
     organizations.repository,
+    organizations.entitlementsService,
   );
   const orgsToApplicationsAdapter = new OrganizationsToApplicationsAdapter(
     organizations.repository,
@@ -228,6 +284,9 @@ export function createCompositionRoot(): CompositionRoot {
   const orgsToInvitationsAdapter = new OrganizationsToInvitationsAdapter(
     organizations.repository,
   );
+  const orgsToMessagingAdapter = new OrganizationsToMessagingAdapter(
+    organizations.repository,
+  );
 
   // User-profile module (needs orgs adapters)
   const userProfile = createUserProfileModule({
@@ -236,6 +295,7 @@ export function createCompositionRoot(): CompositionRoot {
     identityWrite: identityToProfileWriteAdapter,
     typesenseUserProfileService,
     typesenseProfileService,
+    geocoder,
     profileRepository,
   });
 
@@ -248,26 +308,38 @@ export function createCompositionRoot(): CompositionRoot {
   const profileToRecommendationAdapter = new ProfileToRecommendationAdapter(
     profileRepository,
     preferenceRepository,
+    workAreaRepository,
+    geocoder,
   );
 
-  const notifications = createNotificationsModule({
-    emailService,
-    userActivityQuery: identityToNotificationsAdapter,
-    typesenseService,
-    notificationsRepository,
-  });
-
   const jobBoard = createJobBoardModule({
     typesenseService,
+    typesenseProfileService,
+    geocoder,
+    eventBus,
     applicationStatusQuery: applicationsToJobBoardAdapter,
     savedJobsStatusQuery: profileToJobBoardAdapter,
     orgMembershipForJob: orgsToJobBoardAdapter,
+    jobPostingEntitlements: orgsToJobBoardAdapter,
     userContactQuery: identityToJobBoardAdapter,
     userRecommendationProfile: profileToRecommendationAdapter,
     jobBoardRepository,
     jobInsightsRepository,
   });
 
+  // Job-board → Notifications (recommendations for the weekly digest)
+  const jobBoardToNotificationsAdapter = new JobBoardToNotificationsAdapter(
+    jobBoard.recommendationService,
+  );
+
+  const notifications = createNotificationsModule({
+    emailService,
+    userActivityQuery: identityToNotificationsAdapter,
+    typesenseService,
+    notificationsRepository,
+    jobRecommendationQuery: jobBoardToNotificationsAdapter,
+  });
+
   const applications = createApplicationsModule({
     jobDetailsQuery: jobBoardToApplicationsAdapter,
     orgMembershipQuery: orgsToApplicationsAdapter,
@@ -275,6 +347,8 @@ export function createCompositionRoot(): CompositionRoot {
     eventBus,
     applicationsRepository,
     savedJobRepository,
+    hiringPipelineRepository,
+    scorecardRepository,
   });
 
   const invitations = createInvitationsModule({
@@ -283,6 +357,24 @@ export function createCompositionRoot(): CompositionRoot {
     emailService,
   });
 
+  const interviews = createInterviewsModule({
+    eventBus,
+    interviewStageQuery: applicationsToInterviewsAdapter,
+  });
+
+  const messaging = createMessagingModule({
+    hiringTeamQuery: orgsToMessagingAdapter,
+  });
+
+  // Job-board → Back office (search follows organization suspensions)
+  const jobBoardToBackOfficeAdapter = new JobBoardToBackOfficeAdapter(
+    jobBoard.service,
+  );
+
+  const backOffice = createBackOfficeModule({
+    organizationJobsIndex: jobBoardToBackOfficeAdapter,
+  });
+
   // ─── 6. Auth Dependency Injection ──────────────────────────────────
   // Inject dependencies into the auth module (Better-Auth hooks)
 
@@ -301,6 +393,7 @@ export function createCompositionRoot(): CompositionRoot {
   const domainEventWorker = createDomainEventWorker({
     applicationInsights: jobBoardToSharedInsightsAdapter,
     notificationsRepository: notifications.repository,
+    savedJobNotifications: applications.savedJobService,
   });
   const tempFileCleanupWorker = createTempFileCleanupWorker();
 
@@ -311,6 +404,8 @@ export function createCompositionRoot(): CompositionRoot {
     notifications.workers,
     invitations.workers,
     organizations.workers,
+    interviews.workers,
+    applications.workers,
     fileUploadWorker,
     domainEventWorker,
     tempFileCleanupWorker,
@@ -330,6 +425,9 @@ export function createCompositionRoot(): CompositionRoot {
     applications,
     organizations,
     invitations,
+    interviews,
+    messaging,
+    backOffice,
 
     // Worker orchestrator
     workers: {
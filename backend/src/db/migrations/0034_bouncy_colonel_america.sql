@@ -0,0 +1,69 @@
+CREATE TABLE `hiring_pipeline_stages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`pipeline_id` int NOT NULL,
+	`key` varchar(50) NOT NULL,
+	`label` varchar(100) NOT NULL,
+	`position` int NOT NULL,
+	`is_terminal` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `hiring_pipeline_stages_id` PRIMARY KEY(`id`),
+	CONSTRAINT `hiring_pipeline_stages_pipeline_key_unique` UNIQUE(`pipeline_id`,`key`)
+);
+--> statement-breakpoint
+CREATE TABLE `hiring_pipeline_transitions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`pipeline_id` int NOT NULL,
+	`from_stage_key` varchar(50) NOT NULL,
+	`to_stage_key` varchar(50) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `hiring_pipeline_transitions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `hiring_pipeline_transitions_unique` UNIQUE(`pipeline_id`,`from_stage_key`,`to_stage_key`)
+);
+--> statement-breakpoint
+CREATE TABLE `hiring_pipelines` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organization_id` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `hiring_pipelines_id` PRIMARY KEY(`id`),
+	CONSTRAINT `hiring_pipelines_organization_unique` UNIQUE(`organization_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_applications` MODIFY COLUMN `status` varchar(50) NOT NULL DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `hiring_pipeline_stages` ADD CONSTRAINT `hiring_pipeline_stages_pipeline_id_hiring_pipelines_id_fk` FOREIGN KEY (`pipeline_id`) REFERENCES `hiring_pipelines`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hiring_pipeline_transitions` ADD CONSTRAINT `hiring_pipeline_transitions_pipeline_id_hiring_pipelines_id_fk` FOREIGN KEY (`pipeline_id`) REFERENCES `hiring_pipelines`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `hiring_pipelines` ADD CONSTRAINT `hiring_pipelines_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `hiring_pipeline_stages_pipeline_idx` ON `hiring_pipeline_stages` (`pipeline_id`);--> statement-breakpoint
+CREATE INDEX `hiring_pipeline_transitions_pipeline_idx` ON `hiring_pipeline_transitions` (`pipeline_id`);--> statement-breakpoint
+-- Backfill: give every existing organization the default hiring pipeline, which mirrors the former status enum.
+INSERT INTO `hiring_pipelines` (`organization_id`, `name`) SELECT `id`, 'Default pipeline' FROM `organizations`;--> statement-breakpoint
+INSERT INTO `hiring_pipeline_stages` (`pipeline_id`, `key`, `label`, `position`, `is_terminal`)
+SELECT p.`id`, s.`key`, s.`label`, s.`position`, s.`is_terminal`
+FROM `hiring_pipelines` p
+CROSS JOIN (
+	SELECT 'pending' AS `key`, 'Submitted' AS `label`, 0 AS `position`, false AS `is_terminal`
+	UNION ALL SELECT 'reviewed', 'Under Review', 1, false
+	UNION ALL SELECT 'shortlisted', 'Shortlisted', 2, false
+	UNION ALL SELECT 'interviewing', 'Interview Scheduled', 3, false
+	UNION ALL SELECT 'rejected', 'Not Selected', 4, true
+	UNION ALL SELECT 'hired', 'Offer Extended / Hired', 5, true
+	UNION ALL SELECT 'withdrawn', 'Withdrawn', 6, true
+) s;--> statement-breakpoint
+INSERT INTO `hiring_pipeline_transitions` (`pipeline_id`, `from_stage_key`, `to_stage_key`)
+SELECT p.`id`, t.`from_stage_key`, t.`to_stage_key`
+FROM `hiring_pipelines` p
+CROSS JOIN (
+	SELECT 'pending' AS `from_stage_key`, 'reviewed' AS `to_stage_key`
+	UNION ALL SELECT 'pending', 'withdrawn'
+	UNION ALL SELECT 'reviewed', 'shortlisted'
+	UNION ALL SELECT 'reviewed', 'rejected'
+	UNION ALL SELECT 'reviewed', 'withdrawn'
+	UNION ALL SELECT 'shortlisted', 'interviewing'
+	UNION ALL SELECT 'shortlisted', 'rejected'
+	UNION ALL SELECT 'shortlisted', 'withdrawn'
+	UNION ALL SELECT 'interviewing', 'hired'
+	UNION ALL SELECT 'interviewing', 'rejected'
+	UNION ALL SELECT 'interviewing', 'withdrawn'
+) t;
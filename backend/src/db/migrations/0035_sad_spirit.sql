@@ -0,0 +1,20 @@
+CREATE TABLE `application_status_history` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`from_status` varchar(50),
+	`to_status` varchar(50) NOT NULL,
+	`changed_by` int,
+	`reason` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `application_status_history_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `application_status_history` ADD CONSTRAINT `fk_status_history_application` FOREIGN KEY (`application_id`) REFERENCES `job_applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `application_status_history` ADD CONSTRAINT `fk_status_history_user` FOREIGN KEY (`changed_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `status_history_application_idx` ON `application_status_history` (`application_id`,`created_at`);--> statement-breakpoint
+-- Backfill: seed each existing application's timeline with its submission and, when it has moved on, its current status.
+INSERT INTO `application_status_history` (`application_id`, `from_status`, `to_status`, `changed_by`, `created_at`)
+SELECT `id`, NULL, 'pending', `applicant_id`, `applied_at` FROM `job_applications`;--> statement-breakpoint
+INSERT INTO `application_status_history` (`application_id`, `from_status`, `to_status`, `changed_by`, `reason`, `created_at`)
+SELECT `id`, 'pending', `status`, NULL, 'Recorded before status history was tracked', `updated_at`
+FROM `job_applications` WHERE `status` <> 'pending';
@@ -0,0 +1,48 @@
+CREATE TABLE `interview_interviewers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`interview_id` int NOT NULL,
+	`member_id` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `interview_interviewers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `interview_interviewers_unique` UNIQUE(`interview_id`,`member_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `interview_slots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`interview_id` int NOT NULL,
+	`starts_at` timestamp NOT NULL,
+	`ends_at` timestamp NOT NULL,
+	`is_selected` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `interview_slots_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `interviews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`organization_id` int NOT NULL,
+	`status` enum('proposed','scheduled','cancelled') NOT NULL DEFAULT 'proposed',
+	`location_type` enum('in_person','video','phone') NOT NULL DEFAULT 'video',
+	`location` varchar(255),
+	`meeting_url` varchar(500),
+	`notes` text,
+	`scheduled_start` timestamp,
+	`scheduled_end` timestamp,
+	`sequence` int NOT NULL DEFAULT 0,
+	`created_by` int,
+	`cancellation_reason` text,
+	`cancelled_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `interviews_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `interview_interviewers` ADD CONSTRAINT `interview_interviewers_interview_id_interviews_id_fk` FOREIGN KEY (`interview_id`) REFERENCES `interviews`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interview_interviewers` ADD CONSTRAINT `interview_interviewers_member_id_organization_members_id_fk` FOREIGN KEY (`member_id`) REFERENCES `organization_members`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interview_slots` ADD CONSTRAINT `interview_slots_interview_id_interviews_id_fk` FOREIGN KEY (`interview_id`) REFERENCES `interviews`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interviews` ADD CONSTRAINT `interviews_application_id_job_applications_id_fk` FOREIGN KEY (`application_id`) REFERENCES `job_applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interviews` ADD CONSTRAINT `interviews_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `interviews` ADD CONSTRAINT `interviews_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `interview_slots_interview_idx` ON `interview_slots` (`interview_id`);--> statement-breakpoint
+CREATE INDEX `interviews_application_idx` ON `interviews` (`application_id`);--> statement-breakpoint
+CREATE INDEX `interviews_organization_start_idx` ON `interviews` (`organization_id`,`scheduled_start`);
\ No newline at end of file
@@ -0,0 +1,52 @@
+CREATE TABLE `application_scorecards` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`reviewer_id` int NOT NULL,
+	`assigned_by` int,
+	`recommendation` enum('strong_no','no','yes','strong_yes'),
+	`comments` text,
+	`submitted_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `application_scorecards_id` PRIMARY KEY(`id`),
+	CONSTRAINT `application_scorecards_reviewer_unique` UNIQUE(`application_id`,`reviewer_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `scorecard_competencies` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`template_id` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`description` varchar(500),
+	`position` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `scorecard_competencies_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `scorecard_ratings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`scorecard_id` int NOT NULL,
+	`competency_id` int NOT NULL,
+	`rating` int NOT NULL,
+	CONSTRAINT `scorecard_ratings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `scorecard_ratings_competency_unique` UNIQUE(`scorecard_id`,`competency_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `scorecard_templates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`rating_scale_max` int NOT NULL DEFAULT 5,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `scorecard_templates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `scorecard_templates_job_unique` UNIQUE(`job_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `application_scorecards` ADD CONSTRAINT `application_scorecards_application_id_job_applications_id_fk` FOREIGN KEY (`application_id`) REFERENCES `job_applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `application_scorecards` ADD CONSTRAINT `application_scorecards_reviewer_id_organization_members_id_fk` FOREIGN KEY (`reviewer_id`) REFERENCES `organization_members`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `application_scorecards` ADD CONSTRAINT `application_scorecards_assigned_by_users_id_fk` FOREIGN KEY (`assigned_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `scorecard_competencies` ADD CONSTRAINT `scorecard_competencies_template_id_scorecard_templates_id_fk` FOREIGN KEY (`template_id`) REFERENCES `scorecard_templates`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `scorecard_ratings` ADD CONSTRAINT `scorecard_ratings_scorecard_id_application_scorecards_id_fk` FOREIGN KEY (`scorecard_id`) REFERENCES `application_scorecards`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `scorecard_ratings` ADD CONSTRAINT `scorecard_ratings_competency_id_scorecard_competencies_id_fk` FOREIGN KEY (`competency_id`) REFERENCES `scorecard_competencies`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `scorecard_templates` ADD CONSTRAINT `scorecard_templates_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `application_scorecards_application_idx` ON `application_scorecards` (`application_id`);--> statement-breakpoint
+CREATE INDEX `scorecard_competencies_template_idx` ON `scorecard_competencies` (`template_id`);
\ No newline at end of file
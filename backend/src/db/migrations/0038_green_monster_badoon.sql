@@ -0,0 +1,31 @@
+CREATE TABLE `application_screening_answers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`question_id` int NOT NULL,
+	`answer` text NOT NULL,
+	`knockout_triggered` enum('reject','flag'),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `application_screening_answers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `screening_answers_application_question_unique` UNIQUE(`application_id`,`question_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `job_screening_questions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`question` varchar(500) NOT NULL,
+	`type` enum('yes_no','multiple_choice','numeric','text') NOT NULL,
+	`options` json,
+	`is_required` boolean NOT NULL DEFAULT false,
+	`knockout` json,
+	`position` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `job_screening_questions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_applications` ADD `screening_status` enum('passed','flagged','rejected');--> statement-breakpoint
+ALTER TABLE `application_screening_answers` ADD CONSTRAINT `application_screening_answers_application_id_job_applications_id_fk` FOREIGN KEY (`application_id`) REFERENCES `job_applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `application_screening_answers` ADD CONSTRAINT `application_screening_answers_question_id_job_screening_questions_id_fk` FOREIGN KEY (`question_id`) REFERENCES `job_screening_questions`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_screening_questions` ADD CONSTRAINT `job_screening_questions_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `screening_answers_question_idx` ON `application_screening_answers` (`question_id`);--> statement-breakpoint
+CREATE INDEX `screening_questions_job_idx` ON `job_screening_questions` (`job_id`);
\ No newline at end of file
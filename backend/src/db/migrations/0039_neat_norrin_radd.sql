@@ -0,0 +1,12 @@
+CREATE TABLE `application_tags` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`tag` varchar(50) NOT NULL,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `application_tags_id` PRIMARY KEY(`id`),
+	CONSTRAINT `application_tags_application_tag_unique` UNIQUE(`application_id`,`tag`)
+);
+--> statement-breakpoint
+ALTER TABLE `application_tags` ADD CONSTRAINT `fk_application_tag_application` FOREIGN KEY (`application_id`) REFERENCES `job_applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `application_tags` ADD CONSTRAINT `fk_application_tag_user` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
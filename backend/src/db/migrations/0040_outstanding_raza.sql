@@ -0,0 +1,19 @@
+CREATE TABLE `audit_events` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`actor_id` varchar(64),
+	`actor_ip` varchar(45),
+	`actor_user_agent` varchar(500),
+	`resource_type` varchar(50) NOT NULL,
+	`resource_id` varchar(64),
+	`organization_id` int,
+	`action` varchar(255) NOT NULL,
+	`outcome` enum('success','failure') NOT NULL,
+	`failure_reason` text,
+	`metadata` json,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audit_events_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `audit_events_organization_created_idx` ON `audit_events` (`organization_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `audit_events_created_idx` ON `audit_events` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `organization_role_permissions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organization_id` int NOT NULL,
+	`role` enum('admin','recruiter','member') NOT NULL,
+	`permissions` json NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `organization_role_permissions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `organization_role_permissions_org_role_unique` UNIQUE(`organization_id`,`role`)
+);
+--> statement-breakpoint
+ALTER TABLE `organization_role_permissions` ADD CONSTRAINT `organization_role_permissions_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `job_details` ADD `is_featured` boolean DEFAULT false NOT NULL;
\ No newline at end of file
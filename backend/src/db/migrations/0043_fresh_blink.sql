@@ -0,0 +1,29 @@
+CREATE TABLE `job_daily_activity` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`organization_id` int NOT NULL,
+	`day` date NOT NULL,
+	`saves` int NOT NULL DEFAULT 0,
+	`apply_starts` int NOT NULL DEFAULT 0,
+	`applications` int NOT NULL DEFAULT 0,
+	CONSTRAINT `job_daily_activity_id` PRIMARY KEY(`id`),
+	CONSTRAINT `job_daily_activity_job_day_unique` UNIQUE(`job_id`,`day`)
+);
+--> statement-breakpoint
+CREATE TABLE `job_daily_views` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`organization_id` int NOT NULL,
+	`day` date NOT NULL,
+	`viewer_key` varchar(64) NOT NULL,
+	`views` int NOT NULL DEFAULT 1,
+	CONSTRAINT `job_daily_views_id` PRIMARY KEY(`id`),
+	CONSTRAINT `job_daily_views_job_day_viewer_unique` UNIQUE(`job_id`,`day`,`viewer_key`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_daily_activity` ADD CONSTRAINT `job_daily_activity_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_daily_activity` ADD CONSTRAINT `job_daily_activity_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_daily_views` ADD CONSTRAINT `job_daily_views_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_daily_views` ADD CONSTRAINT `job_daily_views_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `job_daily_activity_org_day_idx` ON `job_daily_activity` (`organization_id`,`day`);--> statement-breakpoint
+CREATE INDEX `job_daily_views_org_day_idx` ON `job_daily_views` (`organization_id`,`day`);
\ No newline at end of file
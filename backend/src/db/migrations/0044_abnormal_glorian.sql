@@ -0,0 +1,22 @@
+CREATE TABLE `job_work_areas` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`work_area_id` int NOT NULL,
+	CONSTRAINT `job_work_areas_id` PRIMARY KEY(`id`),
+	CONSTRAINT `unq_job_work_area` UNIQUE(`job_id`,`work_area_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_alerts` DROP CONSTRAINT `job_alerts_check_search_query_or_filters`;--> statement-breakpoint
+ALTER TABLE `job_alerts` ADD `work_areas` json;--> statement-breakpoint
+ALTER TABLE `job_work_areas` ADD CONSTRAINT `job_work_areas_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_work_areas` ADD CONSTRAINT `job_work_areas_work_area_id_work_areas_id_fk` FOREIGN KEY (`work_area_id`) REFERENCES `work_areas`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `job_work_areas_work_area_idx` ON `job_work_areas` (`work_area_id`);--> statement-breakpoint
+ALTER TABLE `job_alerts` ADD CONSTRAINT `job_alerts_check_search_query_or_filters` CHECK ((
+            JSON_LENGTH(`job_alerts`.`job_type`) > 0 OR
+            JSON_LENGTH(`job_alerts`.`skills`) > 0 OR
+            JSON_LENGTH(`job_alerts`.`work_areas`) > 0 OR
+            JSON_LENGTH(`job_alerts`.`experience_level`) > 0 OR
+            `job_alerts`.`city` IS NOT NULL OR
+            `job_alerts`.`state` IS NOT NULL OR
+            (`job_alerts`.`search_query` IS NOT NULL AND CHAR_LENGTH(TRIM(`job_alerts`.`search_query`)) > 0)
+          ));
\ No newline at end of file
@@ -0,0 +1,14 @@
+ALTER TABLE `job_alerts` DROP CONSTRAINT `job_alerts_check_search_query_or_filters`;--> statement-breakpoint
+ALTER TABLE `job_alerts` ADD `latitude` double;--> statement-breakpoint
+ALTER TABLE `job_alerts` ADD `longitude` double;--> statement-breakpoint
+ALTER TABLE `job_alerts` ADD `radius_miles` int;--> statement-breakpoint
+ALTER TABLE `job_alerts` ADD CONSTRAINT `job_alerts_check_search_query_or_filters` CHECK ((
+            JSON_LENGTH(`job_alerts`.`job_type`) > 0 OR
+            JSON_LENGTH(`job_alerts`.`skills`) > 0 OR
+            JSON_LENGTH(`job_alerts`.`work_areas`) > 0 OR
+            JSON_LENGTH(`job_alerts`.`experience_level`) > 0 OR
+            `job_alerts`.`city` IS NOT NULL OR
+            `job_alerts`.`state` IS NOT NULL OR
+            `job_alerts`.`radius_miles` IS NOT NULL OR
+            (`job_alerts`.`search_query` IS NOT NULL AND CHAR_LENGTH(TRIM(`job_alerts`.`search_query`)) > 0)
+          ));
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `job_details` ADD `compensation_min` int;--> statement-breakpoint
+ALTER TABLE `job_details` ADD `compensation_max` int;--> statement-breakpoint
+ALTER TABLE `job_details` ADD `compensation_currency` varchar(3);--> statement-breakpoint
+ALTER TABLE `job_details` ADD `pay_period` enum('hourly','monthly','yearly');--> statement-breakpoint
+ALTER TABLE `job_details` ADD `support_raised_by_candidate` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `job_details` ADD `monthly_support_target` int;--> statement-breakpoint
+ALTER TABLE `job_details` ADD CONSTRAINT `job_details_check_compensation_range` CHECK (`job_details`.`compensation_min` IS NULL OR `job_details`.`compensation_max` IS NULL OR `job_details`.`compensation_min` <= `job_details`.`compensation_max`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `job_details` ADD `status` enum('draft','scheduled','published','paused','closed','expired') DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE `job_details` ADD `publish_at` timestamp;--> statement-breakpoint
+CREATE INDEX `job_status_publish_at_idx` ON `job_details` (`status`,`publish_at`);--> statement-breakpoint
+UPDATE `job_details` SET `status` = 'closed' WHERE `is_active` = false;
\ No newline at end of file
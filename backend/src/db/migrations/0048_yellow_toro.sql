@@ -0,0 +1 @@
+ALTER TABLE `saved_jobs` ADD `deadline_reminder_sent_at` timestamp;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `newsletters` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`subject` varchar(255) NOT NULL,
+	`body` text NOT NULL,
+	`segment` enum('all','seekers','employers') NOT NULL,
+	`status` enum('draft','sending','sent') NOT NULL DEFAULT 'draft',
+	`recipient_count` int NOT NULL DEFAULT 0,
+	`sent_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `newsletters_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_newsletters_status` ON `newsletters` (`status`);
\ No newline at end of file
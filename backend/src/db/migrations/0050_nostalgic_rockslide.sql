@@ -0,0 +1,13 @@
+CREATE TABLE `job_candidate_matches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`match_score` float NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `job_candidate_matches_id` PRIMARY KEY(`id`),
+	CONSTRAINT `job_candidate_matches_job_user_unique` UNIQUE(`job_id`,`user_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_candidate_matches` ADD CONSTRAINT `job_candidate_matches_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_candidate_matches` ADD CONSTRAINT `job_candidate_matches_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `job_candidate_matches_job_id_idx` ON `job_candidate_matches` (`job_id`);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `candidate_outreach` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organization_id` int NOT NULL,
+	`candidate_id` int NOT NULL,
+	`job_id` int NOT NULL,
+	`sent_by` int,
+	`message` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `candidate_outreach_id` PRIMARY KEY(`id`),
+	CONSTRAINT `candidate_outreach_job_candidate_unique` UNIQUE(`job_id`,`candidate_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `candidate_outreach` ADD CONSTRAINT `candidate_outreach_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `candidate_outreach` ADD CONSTRAINT `candidate_outreach_candidate_id_users_id_fk` FOREIGN KEY (`candidate_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `candidate_outreach` ADD CONSTRAINT `candidate_outreach_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `candidate_outreach` ADD CONSTRAINT `candidate_outreach_sent_by_users_id_fk` FOREIGN KEY (`sent_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `idx_candidate_outreach_org` ON `candidate_outreach` (`organization_id`);--> statement-breakpoint
+CREATE INDEX `idx_candidate_outreach_candidate` ON `candidate_outreach` (`candidate_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `platform_role` enum('user','staff') DEFAULT 'user' NOT NULL;
\ No newline at end of file
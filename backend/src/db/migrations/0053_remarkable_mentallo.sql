@@ -0,0 +1,48 @@
+CREATE TABLE `job_hold_rules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`rule` enum('new_organization','keywords','external_payment') NOT NULL,
+	`enabled` boolean NOT NULL,
+	`settings` json NOT NULL,
+	`updated_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `job_hold_rules_id` PRIMARY KEY(`id`),
+	CONSTRAINT `job_hold_rules_rule_unique` UNIQUE(`rule`)
+);
+--> statement-breakpoint
+CREATE TABLE `job_moderation_reviews` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`trigger` enum('auto_hold','report') NOT NULL,
+	`hold_reasons` json NOT NULL,
+	`status` enum('pending','approved','removed') NOT NULL DEFAULT 'pending',
+	`warning_count` int NOT NULL DEFAULT 0,
+	`decided_by` int,
+	`decision_note` text,
+	`decided_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `job_moderation_reviews_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `job_reports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`job_id` int NOT NULL,
+	`reporter_id` int NOT NULL,
+	`reason` enum('scam','inappropriate','discriminatory','misleading','duplicate','other') NOT NULL,
+	`details` text,
+	`status` enum('open','resolved') NOT NULL DEFAULT 'open',
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `job_reports_id` PRIMARY KEY(`id`),
+	CONSTRAINT `job_reports_job_reporter_unique` UNIQUE(`job_id`,`reporter_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_details` MODIFY COLUMN `status` enum('draft','scheduled','published','paused','closed','expired','pending_review','removed') NOT NULL DEFAULT 'published';--> statement-breakpoint
+ALTER TABLE `job_hold_rules` ADD CONSTRAINT `job_hold_rules_updated_by_users_id_fk` FOREIGN KEY (`updated_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_moderation_reviews` ADD CONSTRAINT `job_moderation_reviews_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_moderation_reviews` ADD CONSTRAINT `job_moderation_reviews_decided_by_users_id_fk` FOREIGN KEY (`decided_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_reports` ADD CONSTRAINT `job_reports_job_id_job_details_id_fk` FOREIGN KEY (`job_id`) REFERENCES `job_details`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `job_reports` ADD CONSTRAINT `job_reports_reporter_id_users_id_fk` FOREIGN KEY (`reporter_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `job_moderation_reviews_status_idx` ON `job_moderation_reviews` (`status`,`created_at`);--> statement-breakpoint
+CREATE INDEX `job_moderation_reviews_job_id_idx` ON `job_moderation_reviews` (`job_id`);--> statement-breakpoint
+CREATE INDEX `job_reports_job_status_idx` ON `job_reports` (`job_id`,`status`);
\ No newline at end of file
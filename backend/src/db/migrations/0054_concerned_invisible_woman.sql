@@ -0,0 +1,24 @@
+CREATE TABLE `organization_verification_requests` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organization_id` int NOT NULL,
+	`submitted_by` int,
+	`status` enum('pending','approved','rejected') NOT NULL DEFAULT 'pending',
+	`note` text,
+	`nonprofit_registration_url` varchar(500),
+	`ein_letter_url` varchar(500),
+	`file_metadata` json,
+	`decided_by` int,
+	`decision_note` text,
+	`decided_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `organization_verification_requests_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `organizations` ADD `is_verified` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `organizations` ADD `verified_at` timestamp;--> statement-breakpoint
+ALTER TABLE `organization_verification_requests` ADD CONSTRAINT `organization_verification_requests_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `organization_verification_requests` ADD CONSTRAINT `organization_verification_requests_submitted_by_users_id_fk` FOREIGN KEY (`submitted_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `organization_verification_requests` ADD CONSTRAINT `organization_verification_requests_decided_by_users_id_fk` FOREIGN KEY (`decided_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `org_verification_requests_status_idx` ON `organization_verification_requests` (`status`,`created_at`);--> statement-breakpoint
+CREATE INDEX `org_verification_requests_org_idx` ON `organization_verification_requests` (`organization_id`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `organization_followers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organization_id` int NOT NULL,
+	`user_id` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `organization_followers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `organization_follower_unique` UNIQUE(`organization_id`,`user_id`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_details` ADD `followers_notified_at` timestamp;--> statement-breakpoint
+ALTER TABLE `organization_followers` ADD CONSTRAINT `organization_followers_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `organization_followers` ADD CONSTRAINT `organization_followers_user_id_users_id_fk` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `organization_followers_user_idx` ON `organization_followers` (`user_id`);
\ No newline at end of file
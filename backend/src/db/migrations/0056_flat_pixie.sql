@@ -0,0 +1,30 @@
+CREATE TABLE `application_messages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`application_id` int NOT NULL,
+	`sender_id` int,
+	`sender_role` enum('applicant','organization') NOT NULL,
+	`body` text NOT NULL,
+	`file_metadata` json,
+	`read_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `application_messages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `messaging_blocks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organization_id` int NOT NULL,
+	`applicant_id` int NOT NULL,
+	`blocked_by` enum('applicant','organization') NOT NULL,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `messaging_blocks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `messaging_block_unique` UNIQUE(`organization_id`,`applicant_id`,`blocked_by`)
+);
+--> statement-breakpoint
+ALTER TABLE `application_messages` ADD CONSTRAINT `application_messages_application_id_job_applications_id_fk` FOREIGN KEY (`application_id`) REFERENCES `job_applications`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `application_messages` ADD CONSTRAINT `application_messages_sender_id_users_id_fk` FOREIGN KEY (`sender_id`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messaging_blocks` ADD CONSTRAINT `messaging_blocks_organization_id_organizations_id_fk` FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messaging_blocks` ADD CONSTRAINT `messaging_blocks_applicant_id_users_id_fk` FOREIGN KEY (`applicant_id`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `messaging_blocks` ADD CONSTRAINT `messaging_blocks_created_by_users_id_fk` FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `application_messages_application_created_idx` ON `application_messages` (`application_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `messaging_blocks_applicant_idx` ON `messaging_blocks` (`applicant_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `hiring_pipeline_stages` ADD `allows_interviews` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE `hiring_pipeline_stages` SET `allows_interviews` = true WHERE `key` = 'interviewing';
\ No newline at end of file
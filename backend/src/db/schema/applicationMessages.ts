@@ -0,0 +1,114 @@
+import {
+  mysqlTable,
+  text,
+  timestamp,
+  int,
+  json,
+  mysqlEnum,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { jobApplications } from "./jobsDetails";
+import { organizations } from "./organizations";
+import { user } from "./users";
+import type { FileMetadata } from "@/validations/file.validation";
+
+/**
+ * Application messages table schema. Each job application has a single thread
+ * between the organization's hiring team and the applicant. A message is read
+ * once the other side opens the thread.
+ */
+export const applicationMessages = mysqlTable(
+  "application_messages",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    applicationId: int("application_id")
+      .references(() => jobApplications.id, { onDelete: "cascade" })
+      .notNull(),
+    senderId: int("sender_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    senderRole: mysqlEnum("sender_role", [
+      "applicant",
+      "organization",
+    ]).notNull(),
+    body: text("body").notNull(),
+    // Filled in by the file upload worker once attachments are stored
+    fileMetadata: json("file_metadata").$type<FileMetadata[]>(),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("application_messages_application_created_idx").on(
+      table.applicationId,
+      table.createdAt,
+    ),
+  ],
+);
+
+/**
+ * Messaging blocks table schema. Either side can block the other: an applicant
+ * blocks an organization, or an organization blocks an applicant. No messages
+ * can be sent between them while any block exists.
+ */
+export const messagingBlocks = mysqlTable(
+  "messaging_blocks",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    applicantId: int("applicant_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    blockedBy: mysqlEnum("blocked_by", ["applicant", "organization"]).notNull(),
+    createdBy: int("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("messaging_block_unique").on(
+      table.organizationId,
+      table.applicantId,
+      table.blockedBy,
+    ),
+    index("messaging_blocks_applicant_idx").on(table.applicantId),
+  ],
+);
+
+// Relations
+/**
+ * Relations for the application messages table, defining relationships with the application and the sender.
+ */
+export const applicationMessagesRelations = relations(
+  applicationMessages,
+  ({ one }) => ({
+    application: one(jobApplications, {
+      fields: [applicationMessages.applicationId],
+      references: [jobApplications.id],
+    }),
+    sender: one(user, {
+      fields: [applicationMessages.senderId],
+      references: [user.id],
+    }),
+  }),
+);
+
+/**
+ * Relations for the messaging blocks table, defining relationships with the organization and the applicant.
+ */
+export const messagingBlocksRelations = relations(
+  messagingBlocks,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [messagingBlocks.organizationId],
+      references: [organizations.id],
+    }),
+    applicant: one(user, {
+      fields: [messagingBlocks.applicantId],
+      references: [user.id],
+    }),
+  }),
+);
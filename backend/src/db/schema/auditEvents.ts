@@ -0,0 +1,45 @@
+import {
+  mysqlTable,
+  varchar,
+  text,
+  timestamp,
+  int,
+  json,
+  mysqlEnum,
+  index,
+} from "drizzle-orm/mysql-core";
+
+/**
+ * Audit events table schema. Rows are written by the database audit adapter
+ * and removed by the retention worker once they are older than the
+ * configured retention period.
+ *
+ * Actor, resource and organization columns deliberately have no foreign keys:
+ * the trail must survive the deletion of the users and records it describes.
+ */
+export const auditEvents = mysqlTable(
+  "audit_events",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    name: varchar("name", { length: 100 }).notNull(),
+    actorId: varchar("actor_id", { length: 64 }),
+    actorIp: varchar("actor_ip", { length: 45 }),
+    actorUserAgent: varchar("actor_user_agent", { length: 500 }),
+    resourceType: varchar("resource_type", { length: 50 }).notNull(),
+    resourceId: varchar("resource_id", { length: 64 }),
+    // Organization that owns the resource, used to scope the org audit log
+    organizationId: int("organization_id"),
+    action: varchar("action", { length: 255 }).notNull(),
+    outcome: mysqlEnum("outcome", ["success", "failure"]).notNull(),
+    failureReason: text("failure_reason"),
+    metadata: json("metadata").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("audit_events_organization_created_idx").on(
+      table.organizationId,
+      table.createdAt,
+    ),
+    index("audit_events_created_idx").on(table.createdAt),
+  ],
+);
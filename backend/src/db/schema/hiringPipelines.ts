@@ -0,0 +1,127 @@
+import {
+  mysqlTable,
+  varchar,
+  timestamp,
+  boolean,
+  int,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { organizations } from "./organizations";
+
+/**
+ * Hiring pipelines table schema. Each organization owns exactly one pipeline
+ * describing the stages an application moves through.
+ */
+export const hiringPipelines = mysqlTable(
+  "hiring_pipelines",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    unique("hiring_pipelines_organization_unique").on(table.organizationId),
+  ],
+);
+
+/**
+ * Hiring pipeline stages table schema. The stage `key` is the value stored in
+ * `job_applications.status`, so keys must be stable once applications use them.
+ */
+export const hiringPipelineStages = mysqlTable(
+  "hiring_pipeline_stages",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    pipelineId: int("pipeline_id")
+      .references(() => hiringPipelines.id, { onDelete: "cascade" })
+      .notNull(),
+    key: varchar("key", { length: 50 }).notNull(),
+    label: varchar("label", { length: 100 }).notNull(),
+    position: int("position").notNull(),
+    isTerminal: boolean("is_terminal").default(false).notNull(),
+    // Interviews can only be arranged for applications in such a stage
+    allowsInterviews: boolean("allows_interviews").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("hiring_pipeline_stages_pipeline_idx").on(table.pipelineId),
+    unique("hiring_pipeline_stages_pipeline_key_unique").on(
+      table.pipelineId,
+      table.key,
+    ),
+  ],
+);
+
+/**
+ * Hiring pipeline transitions table schema listing the allowed moves between
+ * stages of a pipeline, referenced by stage key.
+ */
+export const hiringPipelineTransitions = mysqlTable(
+  "hiring_pipeline_transitions",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    pipelineId: int("pipeline_id")
+      .references(() => hiringPipelines.id, { onDelete: "cascade" })
+      .notNull(),
+    fromStageKey: varchar("from_stage_key", { length: 50 }).notNull(),
+    toStageKey: varchar("to_stage_key", { length: 50 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("hiring_pipeline_transitions_pipeline_idx").on(table.pipelineId),
+    unique("hiring_pipeline_transitions_unique").on(
+      table.pipelineId,
+      table.fromStageKey,
+      table.toStageKey,
+    ),
+  ],
+);
+
+// Relations
+/**
+ * Relations for the hiring pipelines table, defining relationships with organizations, stages and transitions.
+ */
+export const hiringPipelinesRelations = relations(
+  hiringPipelines,
+  ({ one, many }) => ({
+    organization: one(organizations, {
+      fields: [hiringPipelines.organizationId],
+      references: [organizations.id],
+    }),
+    stages: many(hiringPipelineStages),
+    transitions: many(hiringPipelineTransitions),
+  }),
+);
+
+/**
+ * Relations for the hiring pipeline stages table, defining relationship with the owning pipeline.
+ */
+export const hiringPipelineStagesRelations = relations(
+  hiringPipelineStages,
+  ({ one }) => ({
+    pipeline: one(hiringPipelines, {
+      fields: [hiringPipelineStages.pipelineId],
+      references: [hiringPipelines.id],
+    }),
+  }),
+);
+
+/**
+ * Relations for the hiring pipeline transitions table, defining relationship with the owning pipeline.
+ */
+export const hiringPipelineTransitionsRelations = relations(
+  hiringPipelineTransitions,
+  ({ one }) => ({
+    pipeline: one(hiringPipelines, {
+      fields: [hiringPipelineTransitions.pipelineId],
+      references: [hiringPipelines.id],
+    }),
+  }),
+);
@@ -9,3 +9,15 @@ export * from "./subscriptions";
 export * from "./jobAlerts";
 export * from "./jobPreferences";
 export * from "./workAreas";
+export * from "./hiringPipelines";
+export * from "./interviews";
+export * from "./scorecards";
+export * from "./screeningQuestions";
+export * from "./auditEvents";
+export * from "./organizationPermissions";
+export * from "./jobAnalytics";
+export * from "./newsletters";
+export * from "./jobModeration";
+export * from "./organizationVerifications";
+export * from "./organizationFollowers";
+export * from "./applicationMessages";
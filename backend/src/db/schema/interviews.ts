@@ -0,0 +1,151 @@
+import {
+  mysqlTable,
+  varchar,
+  text,
+  timestamp,
+  boolean,
+  int,
+  mysqlEnum,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { jobApplications } from "./jobsDetails";
+import { organizationMembers, organizations } from "./organizations";
+import { user } from "./users";
+
+/**
+ * Interviews table schema. An interview starts out with time slots proposed
+ * by the employer and becomes scheduled once the candidate selects one.
+ */
+export const interviews = mysqlTable(
+  "interviews",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    applicationId: int("application_id")
+      .references(() => jobApplications.id, { onDelete: "cascade" })
+      .notNull(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    status: mysqlEnum("status", ["proposed", "scheduled", "cancelled"])
+      .default("proposed")
+      .notNull(),
+    locationType: mysqlEnum("location_type", ["in_person", "video", "phone"])
+      .default("video")
+      .notNull(),
+    location: varchar("location", { length: 255 }),
+    meetingUrl: varchar("meeting_url", { length: 500 }),
+    notes: text("notes"),
+    scheduledStart: timestamp("scheduled_start"),
+    scheduledEnd: timestamp("scheduled_end"),
+    // iCalendar SEQUENCE, bumped on every change so calendar clients replace
+    // the event they already hold instead of adding a new one
+    sequence: int("sequence").default(0).notNull(),
+    createdBy: int("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    cancellationReason: text("cancellation_reason"),
+    cancelledAt: timestamp("cancelled_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("interviews_application_idx").on(table.applicationId),
+    index("interviews_organization_start_idx").on(
+      table.organizationId,
+      table.scheduledStart,
+    ),
+  ],
+);
+
+/**
+ * Interview slots table schema holding the time slots proposed to the
+ * candidate. The slot the candidate picks is flagged as selected.
+ */
+export const interviewSlots = mysqlTable(
+  "interview_slots",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    interviewId: int("interview_id")
+      .references(() => interviews.id, { onDelete: "cascade" })
+      .notNull(),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    isSelected: boolean("is_selected").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("interview_slots_interview_idx").on(table.interviewId)],
+);
+
+/**
+ * Interview interviewers table schema assigning organization members to an
+ * interview.
+ */
+export const interviewInterviewers = mysqlTable(
+  "interview_interviewers",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    interviewId: int("interview_id")
+      .references(() => interviews.id, { onDelete: "cascade" })
+      .notNull(),
+    memberId: int("member_id")
+      .references(() => organizationMembers.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("interview_interviewers_unique").on(
+      table.interviewId,
+      table.memberId,
+    ),
+  ],
+);
+
+// Relations
+/**
+ * Relations for the interviews table, defining relationships with the application, organization, slots and interviewers.
+ */
+export const interviewsRelations = relations(interviews, ({ one, many }) => ({
+  application: one(jobApplications, {
+    fields: [interviews.applicationId],
+    references: [jobApplications.id],
+  }),
+  organization: one(organizations, {
+    fields: [interviews.organizationId],
+    references: [organizations.id],
+  }),
+  creator: one(user, {
+    fields: [interviews.createdBy],
+    references: [user.id],
+  }),
+  slots: many(interviewSlots),
+  interviewers: many(interviewInterviewers),
+}));
+
+/**
+ * Relations for the interview slots table, defining relationship with the interview.
+ */
+export const interviewSlotsRelations = relations(interviewSlots, ({ one }) => ({
+  interview: one(interviews, {
+    fields: [interviewSlots.interviewId],
+    references: [interviews.id],
+  }),
+}));
+
+/**
+ * Relations for the interview interviewers table, defining relationships with the interview and organization member.
+ */
+export const interviewInterviewersRelations = relations(
+  interviewInterviewers,
+  ({ one }) => ({
+    interview: one(interviews, {
+      fields: [interviewInterviewers.interviewId],
+      references: [interviews.id],
+    }),
+    member: one(organizationMembers, {
+      fields: [interviewInterviewers.memberId],
+      references: [organizationMembers.id],
+    }),
+  }),
+);
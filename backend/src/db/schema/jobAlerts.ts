@@ -9,6 +9,7 @@ import {
   index,
   json,
   float,
+  double,
   check,
 } from "drizzle-orm/mysql-core";
 import { relations, sql } from "drizzle-orm";
@@ -28,9 +29,15 @@ export const jobAlerts = mysqlTable(
     description: text("description").notNull(),
     state: varchar("state", { length: 255 }),
     city: varchar("city", { length: 255 }),
+    // Radius search: matches jobs within `radiusMiles` of the centre point
+    latitude: double("latitude"),
+    longitude: double("longitude"),
+    radiusMiles: int("radius_miles"),
     searchQuery: text("search_query"),
     jobType: json("job_type").$type<JobTypes[]>(),
     skills: json("skills").$type<string[]>(),
+    // Work area names, matched against the jobs' work areas
+    workAreas: json("work_areas").$type<string[]>(),
     experienceLevel: json("experience_level").$type<string[]>(),
     isActive: boolean("is_active").notNull().default(true),
     isPaused: boolean("is_paused").notNull().default(false),
@@ -53,9 +60,11 @@ export const jobAlerts = mysqlTable(
       sql`(
             ${sql.raw("JSON_LENGTH")}(${table.jobType}) > 0 OR
             ${sql.raw("JSON_LENGTH")}(${table.skills}) > 0 OR
+            ${sql.raw("JSON_LENGTH")}(${table.workAreas}) > 0 OR
             ${sql.raw("JSON_LENGTH")}(${table.experienceLevel}) > 0 OR
             ${table.city} IS NOT NULL OR
             ${table.state} IS NOT NULL OR
+            ${table.radiusMiles} IS NOT NULL OR
             (${table.searchQuery} IS NOT NULL AND CHAR_LENGTH(TRIM(${table.searchQuery})) > 0)
           )`,
     ),
@@ -0,0 +1,90 @@
+import {
+  mysqlTable,
+  int,
+  date,
+  varchar,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { jobsDetails } from "./jobsDetails";
+import { organizations } from "./organizations";
+
+/**
+ * Daily job views per viewer. One row per job, UTC day and viewer, so a day's
+ * views are the sum of `views` and its unique viewers the number of rows.
+ * `viewerKey` is `user:<id>` for signed-in viewers, otherwise a hash of the
+ * request's IP and user agent.
+ */
+export const jobDailyViews = mysqlTable(
+  "job_daily_views",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    jobId: int("job_id")
+      .references(() => jobsDetails.id, { onDelete: "cascade" })
+      .notNull(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    day: date("day", { mode: "string" }).notNull(),
+    viewerKey: varchar("viewer_key", { length: 64 }).notNull(),
+    views: int("views").default(1).notNull(),
+  },
+  (table) => [
+    unique("job_daily_views_job_day_viewer_unique").on(
+      table.jobId,
+      table.day,
+      table.viewerKey,
+    ),
+    index("job_daily_views_org_day_idx").on(table.organizationId, table.day),
+  ],
+);
+
+/**
+ * Daily job activity counters: saves, application starts and submitted
+ * applications per job and UTC day.
+ */
+export const jobDailyActivity = mysqlTable(
+  "job_daily_activity",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    jobId: int("job_id")
+      .references(() => jobsDetails.id, { onDelete: "cascade" })
+      .notNull(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    day: date("day", { mode: "string" }).notNull(),
+    saves: int("saves").default(0).notNull(),
+    applyStarts: int("apply_starts").default(0).notNull(),
+    applications: int("applications").default(0).notNull(),
+  },
+  (table) => [
+    unique("job_daily_activity_job_day_unique").on(table.jobId, table.day),
+    index("job_daily_activity_org_day_idx").on(table.organizationId, table.day),
+  ],
+);
+
+// Relations
+/**
+ * Relations for the daily job views table, defining relationship with the job.
+ */
+export const jobDailyViewsRelations = relations(jobDailyViews, ({ one }) => ({
+  job: one(jobsDetails, {
+    fields: [jobDailyViews.jobId],
+    references: [jobsDetails.id],
+  }),
+}));
+
+/**
+ * Relations for the daily job activity table, defining relationship with the job.
+ */
+export const jobDailyActivityRelations = relations(
+  jobDailyActivity,
+  ({ one }) => ({
+    job: one(jobsDetails, {
+      fields: [jobDailyActivity.jobId],
+      references: [jobsDetails.id],
+    }),
+  }),
+);
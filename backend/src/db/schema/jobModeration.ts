@@ -0,0 +1,130 @@
+import {
+  mysqlTable,
+  mysqlEnum,
+  json,
+  text,
+  timestamp,
+  int,
+  boolean,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { user } from "./users";
+import { jobsDetails } from "./jobsDetails";
+import {
+  JOB_HOLD_RULES,
+  JOB_REPORT_REASONS,
+  type JobHoldReason,
+  type JobHoldRuleSettings,
+} from "@shared/constants/job-moderation";
+
+/**
+ * Reports of scam or inappropriate job postings filed by seekers. A user
+ * reports a job at most once; reports are resolved together with the
+ * moderation review they opened.
+ */
+export const jobReports = mysqlTable(
+  "job_reports",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    jobId: int("job_id")
+      .references(() => jobsDetails.id, { onDelete: "cascade" })
+      .notNull(),
+    reporterId: int("reporter_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    reason: mysqlEnum("reason", JOB_REPORT_REASONS).notNull(),
+    details: text("details"),
+    status: mysqlEnum("status", ["open", "resolved"]).default("open").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("job_reports_job_status_idx").on(table.jobId, table.status),
+    unique("job_reports_job_reporter_unique").on(table.jobId, table.reporterId),
+  ],
+);
+
+/**
+ * The moderation queue. A review opens when a job trips an auto-hold rule
+ * or is first reported, and stays pending until platform staff approve or
+ * remove the job. A job has at most one pending review.
+ */
+export const jobModerationReviews = mysqlTable(
+  "job_moderation_reviews",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    jobId: int("job_id")
+      .references(() => jobsDetails.id, { onDelete: "cascade" })
+      .notNull(),
+    trigger: mysqlEnum("trigger", ["auto_hold", "report"]).notNull(),
+    // Auto-hold rules the job tripped; empty for reported jobs
+    holdReasons: json("hold_reasons").$type<JobHoldReason[]>().notNull(),
+    status: mysqlEnum("status", ["pending", "approved", "removed"])
+      .default("pending")
+      .notNull(),
+    // Warnings sent to the organization while the review was open
+    warningCount: int("warning_count").default(0).notNull(),
+    decidedBy: int("decided_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    decisionNote: text("decision_note"),
+    decidedAt: timestamp("decided_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("job_moderation_reviews_status_idx").on(
+      table.status,
+      table.createdAt,
+    ),
+    index("job_moderation_reviews_job_id_idx").on(table.jobId),
+  ],
+);
+
+/**
+ * Auto-hold rule configuration set by platform staff. A row replaces the
+ * default configuration of one rule; rules without a row use the defaults
+ * in `DEFAULT_JOB_HOLD_RULES`.
+ */
+export const jobHoldRules = mysqlTable("job_hold_rules", {
+  id: int("id").primaryKey().autoincrement(),
+  rule: mysqlEnum("rule", JOB_HOLD_RULES).notNull().unique(),
+  enabled: boolean("enabled").notNull(),
+  settings: json("settings")
+    .$type<JobHoldRuleSettings[keyof JobHoldRuleSettings]>()
+    .notNull(),
+  updatedBy: int("updated_by").references(() => user.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+// Relations
+/**
+ * Relations for the job reports table, defining relationships with the job and the reporter.
+ */
+export const jobReportsRelations = relations(jobReports, ({ one }) => ({
+  job: one(jobsDetails, {
+    fields: [jobReports.jobId],
+    references: [jobsDetails.id],
+  }),
+  reporter: one(user, {
+    fields: [jobReports.reporterId],
+    references: [user.id],
+  }),
+}));
+
+/**
+ * Relations for the job moderation reviews table, defining relationship with the job.
+ */
+export const jobModerationReviewsRelations = relations(
+  jobModerationReviews,
+  ({ one }) => ({
+    job: one(jobsDetails, {
+      fields: [jobModerationReviews.jobId],
+      references: [jobsDetails.id],
+    }),
+  }),
+);
@@ -11,12 +11,19 @@ import {
   foreignKey,
   unique,
   json,
+  float,
 } from "drizzle-orm/mysql-core";
 import { relations, sql } from "drizzle-orm";
 import { user, userSkills } from "./users";
 import { organizations } from "./organizations";
 import type { FileMetadata } from "@/validations/file.validation";
+import { JOB_STATUSES } from "@shared/constants/job-status";
 import { jobAlertMatches } from "@/db/schema/jobAlerts";
+import { jobWorkAreas } from "@/db/schema/workAreas";
+import {
+  applicationScreeningAnswers,
+  jobScreeningQuestions,
+} from "@/db/schema/screeningQuestions";
 
 /**
  * Jobs details table schema defining the structure for storing job postings.
@@ -44,9 +51,29 @@ export const jobsDetails = mysqlTable(
       "volunteer",
       "stipend",
     ]).notNull(),
+    // Optional pay range, in whole units of `compensationCurrency` per `payPeriod`
+    compensationMin: int("compensation_min"),
+    compensationMax: int("compensation_max"),
+    compensationCurrency: varchar("compensation_currency", { length: 3 }),
+    payPeriod: mysqlEnum("pay_period", ["hourly", "monthly", "yearly"]),
+    // Missionary roles: whether the candidate raises their own support, and
+    // the monthly amount they are expected to raise
+    supportRaisedByCandidate: boolean("support_raised_by_candidate")
+      .default(false)
+      .notNull(),
+    monthlySupportTarget: int("monthly_support_target"),
     isRemote: boolean("is_remote").default(false).notNull(),
+    status: mysqlEnum("status", JOB_STATUSES).default("published").notNull(),
+    // Mirrors `status === "published"`; kept for listings and search filters
     isActive: boolean("is_active").default(true).notNull(),
+    // When a `scheduled` job goes live
+    publishAt: timestamp("publish_at"),
+    // Featured listings are a paid entitlement; see subscription plans
+    isFeatured: boolean("is_featured").default(false).notNull(),
     applicationDeadline: timestamp("application_deadline"),
+    // Set once the organization's followers were told about the job, so a
+    // job paused and published again is not announced twice
+    followersNotifiedAt: timestamp("followers_notified_at"),
     experience: varchar("experience", { length: 255 }),
     employerId: int("employer_id").notNull(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -61,8 +88,13 @@ export const jobsDetails = mysqlTable(
     index("is_remote_idx").on(table.isRemote),
     index("experience_idx").on(table.experience),
     index("is_active_idx").on(table.isActive),
+    index("job_status_publish_at_idx").on(table.status, table.publishAt),
     index("deadline_idx").on(table.applicationDeadline),
     index("created_at_idx").on(table.createdAt),
+    check(
+      "job_details_check_compensation_range",
+      sql`${table.compensationMin} IS NULL OR ${table.compensationMax} IS NULL OR ${table.compensationMin} <= ${table.compensationMax}`,
+    ),
     foreignKey({
       columns: [table.employerId],
       foreignColumns: [organizations.id],
@@ -80,23 +112,20 @@ export const jobApplications = mysqlTable(
     id: int("id").primaryKey().autoincrement(),
     jobId: int("job_id").notNull(),
     applicantId: int("applicant_id").notNull(),
-    status: mysqlEnum("status", [
-      "pending",
-      "reviewed",
-      "shortlisted",
-      "interviewing",
-      "rejected",
-      "hired",
-      "withdrawn",
-    ])
-      .default("pending")
-      .notNull(),
+    // Stage key from the employer's hiring pipeline (see hiringPipelines.ts)
+    status: varchar("status", { length: 50 }).default("pending").notNull(),
     coverLetter: text("cover_letter"),
     coverLetterUrl: varchar("cover_letter_url", { length: 500 }),
     resumeUrl: varchar("resume_url", { length: 500 }),
     appliedAt: timestamp("applied_at").defaultNow().notNull(),
     reviewedAt: timestamp("reviewed_at"),
     notes: text("notes"),
+    // Outcome of the job's screening questions; null when the job had none
+    screeningStatus: mysqlEnum("screening_status", [
+      "passed",
+      "flagged",
+      "rejected",
+    ]),
     fileMetadata: json("file_metadata").$type<FileMetadata[]>(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
@@ -152,6 +181,74 @@ export const applicationNotes = mysqlTable(
   ],
 );
 
+/**
+ * Application status history table schema. Append-only log of every status
+ * transition of a job application, written in the same transaction as the
+ * status change itself.
+ */
+export const applicationStatusHistory = mysqlTable(
+  "application_status_history",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    applicationId: int("application_id").notNull(),
+    // Null for the initial submission entry
+    fromStatus: varchar("from_status", { length: 50 }),
+    toStatus: varchar("to_status", { length: 50 }).notNull(),
+    // Null when the actor's account no longer exists
+    changedBy: int("changed_by"),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("status_history_application_idx").on(
+      table.applicationId,
+      table.createdAt,
+    ),
+    foreignKey({
+      columns: [table.applicationId],
+      foreignColumns: [jobApplications.id],
+      name: "fk_status_history_application",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.changedBy],
+      foreignColumns: [user.id],
+      name: "fk_status_history_user",
+    }).onDelete("set null"),
+  ],
+);
+
+/**
+ * Application tags table schema. Free-form labels recruiters attach to
+ * applications, unique per application.
+ */
+export const applicationTags = mysqlTable(
+  "application_tags",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    applicationId: int("application_id").notNull(),
+    tag: varchar("tag", { length: 50 }).notNull(),
+    // Null when the creator's account no longer exists
+    createdBy: int("created_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("application_tags_application_tag_unique").on(
+      table.applicationId,
+      table.tag,
+    ),
+    foreignKey({
+      columns: [table.applicationId],
+      foreignColumns: [jobApplications.id],
+      name: "fk_application_tag_application",
+    }).onDelete("cascade"),
+    foreignKey({
+      columns: [table.createdBy],
+      foreignColumns: [user.id],
+      name: "fk_application_tag_user",
+    }).onDelete("set null"),
+  ],
+);
+
 /**
  * Job insights table schema defining the structure for storing job statistics like views and applications.
  */
@@ -230,6 +327,9 @@ export const savedJobs = mysqlTable(
       .references(() => jobsDetails.id, { onDelete: "cascade" })
       .notNull(),
     savedAt: timestamp("created_at").defaultNow().notNull(),
+    // Set once the saver has been reminded of the application deadline;
+    // cleared when the deadline moves
+    deadlineReminderSentAt: timestamp("deadline_reminder_sent_at"),
   },
   (table) => [
     index("user_idx").on(table.userId),
@@ -238,9 +338,37 @@ export const savedJobs = mysqlTable(
   ],
 );
 
+/**
+ * Candidates shortlisted for a job when it went live, best match first.
+ * Recruiters are emailed the shortlist once; a job with rows here is not
+ * matched again.
+ */
+export const jobCandidateMatches = mysqlTable(
+  "job_candidate_matches",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    jobId: int("job_id")
+      .references(() => jobsDetails.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: int("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    // Share of the job's skills and work areas the candidate covers
+    matchScore: float("match_score").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("job_candidate_matches_job_id_idx").on(table.jobId),
+    unique("job_candidate_matches_job_user_unique").on(
+      table.jobId,
+      table.userId,
+    ),
+  ],
+);
+
 // Relations
 /**
- * Relations for the jobsDetails table, defining relationships with employer, applications, insights, and skills.
+ * Relations for the jobsDetails table, defining relationships with employer, applications, insights, skills, work areas, and screening questions.
  */
 export const jobsRelations = relations(jobsDetails, ({ one, many }) => ({
   employer: one(organizations, {
@@ -253,11 +381,13 @@ export const jobsRelations = relations(jobsDetails, ({ one, many }) => ({
     references: [jobInsights.job],
   }),
   skills: many(jobSkills),
+  workAreas: many(jobWorkAreas),
   jobMatches: many(jobAlertMatches),
+  screeningQuestions: many(jobScreeningQuestions),
 }));
 
 /**
- * Relations for the jobApplications table, defining relationships with job, applicant, and notes.
+ * Relations for the jobApplications table, defining relationships with job, applicant, notes, status history, screening answers, and tags.
  */
 export const jobApplicationsRelations = relations(
   jobApplications,
@@ -271,6 +401,9 @@ export const jobApplicationsRelations = relations(
       references: [user.id],
     }),
     notes: many(applicationNotes),
+    statusHistory: many(applicationStatusHistory),
+    screeningAnswers: many(applicationScreeningAnswers),
+    tags: many(applicationTags),
   }),
 );
 
@@ -291,6 +424,40 @@ export const applicationNotesRelations = relations(
   }),
 );
 
+/**
+ * Relations for the applicationStatusHistory table, defining relationships with application and actor.
+ */
+export const applicationStatusHistoryRelations = relations(
+  applicationStatusHistory,
+  ({ one }) => ({
+    application: one(jobApplications, {
+      fields: [applicationStatusHistory.applicationId],
+      references: [jobApplications.id],
+    }),
+    actor: one(user, {
+      fields: [applicationStatusHistory.changedBy],
+      references: [user.id],
+    }),
+  }),
+);
+
+/**
+ * Relations for the applicationTags table, defining relationships with application and creator.
+ */
+export const applicationTagsRelations = relations(
+  applicationTags,
+  ({ one }) => ({
+    application: one(jobApplications, {
+      fields: [applicationTags.applicationId],
+      references: [jobApplications.id],
+    }),
+    creator: one(user, {
+      fields: [applicationTags.createdBy],
+      references: [user.id],
+    }),
+  }),
+);
+
 /**
  * Relations for the jobInsights table, defining relationships with job and organization.
  */
@@ -340,3 +507,20 @@ export const savedJobsRelations = relations(savedJobs, ({ one }) => ({
     references: [jobsDetails.id],
   }),
 }));
+
+/**
+ * Relations for the jobCandidateMatches table, defining relationships with job and candidate.
+ */
+export const jobCandidateMatchesRelations = relations(
+  jobCandidateMatches,
+  ({ one }) => ({
+    job: one(jobsDetails, {
+      fields: [jobCandidateMatches.jobId],
+      references: [jobsDetails.id],
+    }),
+    user: one(user, {
+      fields: [jobCandidateMatches.userId],
+      references: [user.id],
+    }),
+  }),
+);
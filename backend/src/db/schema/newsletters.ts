@@ -0,0 +1,37 @@
+import {
+  mysqlTable,
+  varchar,
+  text,
+  timestamp,
+  int,
+  mysqlEnum,
+  index,
+} from "drizzle-orm/mysql-core";
+
+/** Who a newsletter goes to, by the intent chosen at onboarding. */
+export const NEWSLETTER_SEGMENTS = ["all", "seekers", "employers"] as const;
+
+export type NewsletterSegment = (typeof NEWSLETTER_SEGMENTS)[number];
+
+/**
+ * Newsletters authored by platform staff. The body is trusted HTML; the
+ * newsletter worker fans it out to every user in the segment who kept the
+ * monthly newsletter preference on.
+ */
+export const newsletters = mysqlTable(
+  "newsletters",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    subject: varchar("subject", { length: 255 }).notNull(),
+    body: text("body").notNull(),
+    segment: mysqlEnum("segment", NEWSLETTER_SEGMENTS).notNull(),
+    status: mysqlEnum("status", ["draft", "sending", "sent"])
+      .default("draft")
+      .notNull(),
+    recipientCount: int("recipient_count").default(0).notNull(),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [index("idx_newsletters_status").on(table.status)],
+);
@@ -0,0 +1,53 @@
+import {
+  mysqlTable,
+  timestamp,
+  int,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { user } from "./users";
+import { organizations } from "./organizations";
+
+/**
+ * Job seekers following an organization. Followers are emailed when the
+ * organization publishes a new job, subject to their email preferences.
+ */
+export const organizationFollowers = mysqlTable(
+  "organization_followers",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: int("user_id")
+      .references(() => user.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("organization_follower_unique").on(
+      table.organizationId,
+      table.userId,
+    ),
+    index("organization_followers_user_idx").on(table.userId),
+  ],
+);
+
+// Relations
+/**
+ * Relations for the organization followers table, defining relationships with the organization and the follower.
+ */
+export const organizationFollowersRelations = relations(
+  organizationFollowers,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationFollowers.organizationId],
+      references: [organizations.id],
+    }),
+    user: one(user, {
+      fields: [organizationFollowers.userId],
+      references: [user.id],
+    }),
+  }),
+);
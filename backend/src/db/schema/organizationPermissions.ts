@@ -0,0 +1,52 @@
+import {
+  mysqlTable,
+  mysqlEnum,
+  json,
+  timestamp,
+  int,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { organizations } from "./organizations";
+import type { OrganizationPermission } from "@shared/constants/organization-permissions";
+
+/**
+ * Organization role permissions table schema. A row replaces the default
+ * permissions of one role in one organization; roles without a row use the
+ * defaults. The owner role is never stored.
+ */
+export const organizationRolePermissions = mysqlTable(
+  "organization_role_permissions",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    role: mysqlEnum("role", ["admin", "recruiter", "member"]).notNull(),
+    permissions: json("permissions")
+      .$type<OrganizationPermission[]>()
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    unique("organization_role_permissions_org_role_unique").on(
+      table.organizationId,
+      table.role,
+    ),
+  ],
+);
+
+// Relations
+/**
+ * Relations for the organization role permissions table, defining relationship with the organization.
+ */
+export const organizationRolePermissionsRelations = relations(
+  organizationRolePermissions,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationRolePermissions.organizationId],
+      references: [organizations.id],
+    }),
+  }),
+);
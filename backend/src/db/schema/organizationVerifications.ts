@@ -0,0 +1,74 @@
+import {
+  mysqlTable,
+  mysqlEnum,
+  json,
+  text,
+  timestamp,
+  int,
+  varchar,
+  index,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { user } from "./users";
+import { organizations } from "./organizations";
+import type { FileMetadata } from "@/validations/file.validation";
+
+/**
+ * Verification requests submitted by organization owners. Supporting
+ * documents are uploaded asynchronously by the file upload worker, which
+ * fills the document URLs after the request is created. An organization has
+ * at most one pending request; approving it marks the organization verified.
+ */
+export const organizationVerificationRequests = mysqlTable(
+  "organization_verification_requests",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    organizationId: int("organization_id")
+      .references(() => organizations.id, { onDelete: "cascade" })
+      .notNull(),
+    submittedBy: int("submitted_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    status: mysqlEnum("status", ["pending", "approved", "rejected"])
+      .default("pending")
+      .notNull(),
+    note: text("note"),
+    nonprofitRegistrationUrl: varchar("nonprofit_registration_url", {
+      length: 500,
+    }),
+    einLetterUrl: varchar("ein_letter_url", { length: 500 }),
+    fileMetadata: json("file_metadata").$type<FileMetadata[]>(),
+    decidedBy: int("decided_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    decisionNote: text("decision_note"),
+    decidedAt: timestamp("decided_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("org_verification_requests_status_idx").on(
+      table.status,
+      table.createdAt,
+    ),
+    index("org_verification_requests_org_idx").on(table.organizationId),
+  ],
+);
+
+// Relations
+/**
+ * Relations for the organization verification requests table, defining relationships with the organization and the submitter.
+ */
+export const organizationVerificationRequestsRelations = relations(
+  organizationVerificationRequests,
+  ({ one }) => ({
+    organization: one(organizations, {
+      fields: [organizationVerificationRequests.organizationId],
+      references: [organizations.id],
+    }),
+    submitter: one(user, {
+      fields: [organizationVerificationRequests.submittedBy],
+      references: [user.id],
+    }),
+  }),
+);
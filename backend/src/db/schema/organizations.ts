@@ -55,6 +55,9 @@ export const organizations = mysqlTable(
       .default("active")
       .notNull(),
     fileMetadata: json("file_metadata").$type<FileMetadata[]>(),
+    // Set when platform staff approve a verification request
+    isVerified: boolean("is_verified").default(false).notNull(),
+    verifiedAt: timestamp("verified_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
   },
@@ -144,6 +147,39 @@ export const organizationInvitations = mysqlTable(
   ],
 );
 
+/**
+ * Candidates an organization invited to apply to one of its jobs, found
+ * through candidate search. A candidate is invited to a given job once.
+ */
+export const candidateOutreach = mysqlTable(
+  "candidate_outreach",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    organizationId: int("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    candidateId: int("candidate_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    jobId: int("job_id")
+      .notNull()
+      .references(() => jobsDetails.id, { onDelete: "cascade" }),
+    sentBy: int("sent_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    message: text("message"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_candidate_outreach_org").on(table.organizationId),
+    index("idx_candidate_outreach_candidate").on(table.candidateId),
+    unique("candidate_outreach_job_candidate_unique").on(
+      table.jobId,
+      table.candidateId,
+    ),
+  ],
+);
+
 /**
  * Relations for the organizationMembers table, defining relationships with user and organization.
  */
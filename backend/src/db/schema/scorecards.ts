@@ -0,0 +1,164 @@
+import {
+  mysqlTable,
+  varchar,
+  text,
+  timestamp,
+  int,
+  mysqlEnum,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { jobApplications, jobsDetails } from "./jobsDetails";
+import { organizationMembers } from "./organizations";
+import { user } from "./users";
+
+/**
+ * Scorecard templates table schema. Each job has at most one template listing
+ * the competencies reviewers rate candidates on.
+ */
+export const scorecardTemplates = mysqlTable(
+  "scorecard_templates",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    jobId: int("job_id")
+      .references(() => jobsDetails.id, { onDelete: "cascade" })
+      .notNull(),
+    // Ratings run from 1 to this value
+    ratingScaleMax: int("rating_scale_max").default(5).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [unique("scorecard_templates_job_unique").on(table.jobId)],
+);
+
+/**
+ * Scorecard competencies table schema, one row per competency of a template.
+ */
+export const scorecardCompetencies = mysqlTable(
+  "scorecard_competencies",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    templateId: int("template_id")
+      .references(() => scorecardTemplates.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: varchar("description", { length: 500 }),
+    position: int("position").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("scorecard_competencies_template_idx").on(table.templateId),
+  ],
+);
+
+/**
+ * Application scorecards table schema. A row is created when a member is
+ * assigned to review an application and is filled in when they submit.
+ */
+export const applicationScorecards = mysqlTable(
+  "application_scorecards",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    applicationId: int("application_id")
+      .references(() => jobApplications.id, { onDelete: "cascade" })
+      .notNull(),
+    reviewerId: int("reviewer_id")
+      .references(() => organizationMembers.id, { onDelete: "cascade" })
+      .notNull(),
+    assignedBy: int("assigned_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    recommendation: mysqlEnum("recommendation", [
+      "strong_no",
+      "no",
+      "yes",
+      "strong_yes",
+    ]),
+    comments: text("comments"),
+    submittedAt: timestamp("submitted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    index("application_scorecards_application_idx").on(table.applicationId),
+    unique("application_scorecards_reviewer_unique").on(
+      table.applicationId,
+      table.reviewerId,
+    ),
+  ],
+);
+
+/**
+ * Scorecard ratings table schema holding one rating per competency of a
+ * submitted scorecard.
+ */
+export const scorecardRatings = mysqlTable(
+  "scorecard_ratings",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    scorecardId: int("scorecard_id")
+      .references(() => applicationScorecards.id, { onDelete: "cascade" })
+      .notNull(),
+    competencyId: int("competency_id")
+      .references(() => scorecardCompetencies.id, { onDelete: "cascade" })
+      .notNull(),
+    rating: int("rating").notNull(),
+  },
+  (table) => [
+    unique("scorecard_ratings_competency_unique").on(
+      table.scorecardId,
+      table.competencyId,
+    ),
+  ],
+);
+
+export const scorecardTemplatesRelations = relations(
+  scorecardTemplates,
+  ({ one, many }) => ({
+    job: one(jobsDetails, {
+      fields: [scorecardTemplates.jobId],
+      references: [jobsDetails.id],
+    }),
+    competencies: many(scorecardCompetencies),
+  }),
+);
+
+export const scorecardCompetenciesRelations = relations(
+  scorecardCompetencies,
+  ({ one }) => ({
+    template: one(scorecardTemplates, {
+      fields: [scorecardCompetencies.templateId],
+      references: [scorecardTemplates.id],
+    }),
+  }),
+);
+
+export const applicationScorecardsRelations = relations(
+  applicationScorecards,
+  ({ one, many }) => ({
+    application: one(jobApplications, {
+      fields: [applicationScorecards.applicationId],
+      references: [jobApplications.id],
+    }),
+    reviewer: one(organizationMembers, {
+      fields: [applicationScorecards.reviewerId],
+      references: [organizationMembers.id],
+    }),
+    ratings: many(scorecardRatings),
+  }),
+);
+
+export const scorecardRatingsRelations = relations(
+  scorecardRatings,
+  ({ one }) => ({
+    scorecard: one(applicationScorecards, {
+      fields: [scorecardRatings.scorecardId],
+      references: [applicationScorecards.id],
+    }),
+    competency: one(scorecardCompetencies, {
+      fields: [scorecardRatings.competencyId],
+      references: [scorecardCompetencies.id],
+    }),
+  }),
+);
@@ -0,0 +1,113 @@
+import {
+  mysqlTable,
+  varchar,
+  text,
+  timestamp,
+  boolean,
+  int,
+  json,
+  mysqlEnum,
+  index,
+  unique,
+} from "drizzle-orm/mysql-core";
+import { relations } from "drizzle-orm";
+import { jobApplications, jobsDetails } from "./jobsDetails";
+
+/**
+ * Knockout rule of a screening question. Answers outside the rule trigger the
+ * action: `reject` auto-rejects the application, `flag` marks it for review.
+ * Only the fields matching the question type are set.
+ */
+export type ScreeningKnockoutRule = {
+  action: "reject" | "flag";
+  // yes_no questions
+  expectedAnswer?: boolean;
+  // multiple_choice questions
+  acceptedOptions?: string[];
+  // numeric questions
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Job screening questions table schema. Questions are asked to candidates
+ * when applying and are ordered by position.
+ */
+export const jobScreeningQuestions = mysqlTable(
+  "job_screening_questions",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    jobId: int("job_id")
+      .references(() => jobsDetails.id, { onDelete: "cascade" })
+      .notNull(),
+    question: varchar("question", { length: 500 }).notNull(),
+    type: mysqlEnum("type", [
+      "yes_no",
+      "multiple_choice",
+      "numeric",
+      "text",
+    ]).notNull(),
+    // Choices of multiple_choice questions
+    options: json("options").$type<string[]>(),
+    isRequired: boolean("is_required").default(false).notNull(),
+    knockout: json("knockout").$type<ScreeningKnockoutRule>(),
+    position: int("position").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [index("screening_questions_job_idx").on(table.jobId)],
+);
+
+/**
+ * Application screening answers table schema. Answers are stored as text:
+ * "yes"/"no" for yes_no questions, the chosen option, the number or the
+ * free text answer.
+ */
+export const applicationScreeningAnswers = mysqlTable(
+  "application_screening_answers",
+  {
+    id: int("id").primaryKey().autoincrement(),
+    applicationId: int("application_id")
+      .references(() => jobApplications.id, { onDelete: "cascade" })
+      .notNull(),
+    questionId: int("question_id")
+      .references(() => jobScreeningQuestions.id, { onDelete: "cascade" })
+      .notNull(),
+    answer: text("answer").notNull(),
+    // Knockout action the answer triggered, if any
+    knockoutTriggered: mysqlEnum("knockout_triggered", ["reject", "flag"]),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("screening_answers_question_idx").on(table.questionId),
+    unique("screening_answers_application_question_unique").on(
+      table.applicationId,
+      table.questionId,
+    ),
+  ],
+);
+
+export const jobScreeningQuestionsRelations = relations(
+  jobScreeningQuestions,
+  ({ one, many }) => ({
+    job: one(jobsDetails, {
+      fields: [jobScreeningQuestions.jobId],
+      references: [jobsDetails.id],
+    }),
+    answers: many(applicationScreeningAnswers),
+  }),
+);
+
+export const applicationScreeningAnswersRelations = relations(
+  applicationScreeningAnswers,
+  ({ one }) => ({
+    application: one(jobApplications, {
+      fields: [applicationScreeningAnswers.applicationId],
+      references: [jobApplications.id],
+    }),
+    question: one(jobScreeningQuestions, {
+      fields: [applicationScreeningAnswers.questionId],
+      references: [jobScreeningQuestions.id],
+    }),
+  }),
+);
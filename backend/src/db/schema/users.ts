@@ -49,6 +49,10 @@ export const user = mysqlTable(
     onboardingStatus: mysqlEnum("onboarding_status", ["completed", "pending"])
       .default("pending")
       .notNull(),
+    // Platform staff run the back office; unrelated to organization roles
+    platformRole: mysqlEnum("platform_role", ["user", "staff"])
+      .default("user")
+      .notNull(),
   },
   (table) => [
     index("idx_users_status").on(table.status),
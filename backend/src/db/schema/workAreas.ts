@@ -4,9 +4,11 @@ import {
   int,
   varchar,
   unique,
+  index,
 } from "drizzle-orm/mysql-core";
 import { relations } from "drizzle-orm";
 import { jobPreferences } from "@/db/schema/jobPreferences";
+import { jobsDetails } from "@/db/schema/jobsDetails";
 
 export const workAreas = mysqlTable("work_areas", {
   id: int("id").autoincrement().primaryKey(),
@@ -30,8 +32,30 @@ export const jobPreferenceWorkAreas = mysqlTable(
   ],
 );
 
+/**
+ * Work areas a job posting belongs to, matched against seekers' preferred
+ * work areas in search, recommendations and job alerts.
+ */
+export const jobWorkAreas = mysqlTable(
+  "job_work_areas",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    jobId: int("job_id")
+      .notNull()
+      .references(() => jobsDetails.id, { onDelete: "cascade" }),
+    workAreaId: int("work_area_id")
+      .notNull()
+      .references(() => workAreas.id, { onDelete: "cascade" }),
+  },
+  (t) => [
+    unique("unq_job_work_area").on(t.jobId, t.workAreaId),
+    index("job_work_areas_work_area_idx").on(t.workAreaId),
+  ],
+);
+
 export const workAreaRelations = relations(workAreas, ({ many }) => ({
   jobPreferenceWorkAreas: many(jobPreferenceWorkAreas),
+  jobWorkAreas: many(jobWorkAreas),
 }));
 
 export const jobPreferenceWorkAreaRelations = relations(
@@ -47,3 +71,14 @@ export const jobPreferenceWorkAreaRelations = relations(
     }),
   }),
 );
+
+export const jobWorkAreaRelations = relations(jobWorkAreas, ({ one }) => ({
+  job: one(jobsDetails, {
+    fields: [jobWorkAreas.jobId],
+    references: [jobsDetails.id],
+  }),
+  workArea: one(workAreas, {
+    fields: [jobWorkAreas.workAreaId],
+    references: [workAreas.id],
+  }),
+}));
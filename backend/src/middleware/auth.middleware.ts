@@ -44,6 +44,7 @@ export class AuthMiddleware {
           onboardingStatus: session.user.onboardingStatus as
             | "pending"
             | "completed",
+          platformRole: session.user.platformRole as "user" | "staff",
         };
         req.userId = parseInt(session.user.id);
       }
@@ -96,6 +97,7 @@ export class AuthMiddleware {
         onboardingStatus: session.user.onboardingStatus as
           | "pending"
           | "completed",
+        platformRole: session.user.platformRole as "user" | "staff",
       };
       req.userId = parseInt(session.user.id);
 
@@ -108,9 +108,18 @@ export const uploadMiddleware = {
   // Organization logo upload (single image)
   organizationLogo: uploadSingle("logo"),
 
+  // Organization verification documents (either or both)
+  organizationVerification: uploadFields([
+    { name: "nonprofitRegistration", maxCount: 1 },
+    { name: "einLetter", maxCount: 1 },
+  ]),
+
   // Job application attachments (multiple files)
   applicationAttachments: uploadArray("attachments", 5),
 
+  // Application message attachments (multiple files)
+  messageAttachments: uploadArray("attachments", 5),
+
   // Job application with resume and optional cover letter
   jobApplication: uploadFields([
     { name: "resume", maxCount: 1 },
@@ -3,13 +3,22 @@ import type { JobDetailsQueryPort } from "./ports/job-details-query.port";
 import type { OrgMembershipQueryPort } from "./ports/org-membership-query.port";
 import type { ApplicantQueryPort } from "./ports/applicant-query.port";
 import type { ApplicationsRepositoryPort } from "./ports/applications-repository.port";
+import type { HiringPipelineRepositoryPort } from "./ports/hiring-pipeline-repository.port";
+import type { ScorecardRepositoryPort } from "./ports/scorecard-repository.port";
 
 import { ApplicationsService } from "./services/applications.service";
 import { ApplicationsController } from "./controllers/applications.controller";
 import { SavedJobService } from "./services/saved-job.service";
 import { SavedJobController } from "./controllers/saved-job.controller";
+import { HiringPipelineService } from "./services/hiring-pipeline.service";
+import { HiringPipelineController } from "./controllers/hiring-pipeline.controller";
+import { ScorecardService } from "./services/scorecard.service";
+import { ScorecardController } from "./controllers/scorecard.controller";
+import { ApplicationBulkActionsService } from "./services/application-bulk-actions.service";
+import { ApplicationBulkActionsController } from "./controllers/application-bulk-actions.controller";
 import { createApplicationsGuards } from "./guards/applications.guards";
 import type { SavedJobRepositoryPort } from "./ports/saved-job-repository.port";
+import { createSavedJobReminderWorker } from "./workers/saved-job-reminder.worker";
 
 interface ApplicationsModuleDeps {
   jobDetailsQuery: JobDetailsQueryPort;
@@ -18,6 +27,8 @@ interface ApplicationsModuleDeps {
   eventBus: EventBusPort;
   applicationsRepository: ApplicationsRepositoryPort;
   savedJobRepository: SavedJobRepositoryPort;
+  hiringPipelineRepository: HiringPipelineRepositoryPort;
+  scorecardRepository: ScorecardRepositoryPort;
 }
 
 /**
@@ -29,23 +40,61 @@ interface ApplicationsModuleDeps {
 export function createApplicationsModule(deps: ApplicationsModuleDeps) {
   const repository = deps.applicationsRepository;
 
+  const hiringPipelineService = new HiringPipelineService(
+    deps.hiringPipelineRepository,
+  );
+  const hiringPipelineController = new HiringPipelineController(
+    hiringPipelineService,
+  );
+
+  const scorecardService = new ScorecardService(
+    deps.scorecardRepository,
+    repository,
+  );
+  const scorecardController = new ScorecardController(scorecardService);
+
+  const bulkActionsService = new ApplicationBulkActionsService(
+    repository,
+    deps.scorecardRepository,
+    hiringPipelineService,
+  );
+  const bulkActionsController = new ApplicationBulkActionsController(
+    bulkActionsService,
+  );
+
   const service = new ApplicationsService(
     repository,
     deps.jobDetailsQuery,
     deps.orgMembershipQuery,
     deps.applicantQuery,
     deps.eventBus,
+    hiringPipelineService,
   );
-  const controller = new ApplicationsController(service);
+  const controller = new ApplicationsController(service, scorecardService);
 
-  const savedJobService = new SavedJobService(deps.savedJobRepository);
+  const savedJobService = new SavedJobService(
+    deps.savedJobRepository,
+    deps.eventBus,
+  );
   const savedJobController = new SavedJobController(savedJobService);
+  const workers = createSavedJobReminderWorker({ savedJobService });
 
   const guards = createApplicationsGuards({
     applicationsRepository: repository,
+    jobDetailsQuery: deps.jobDetailsQuery,
   });
 
-  return { controller, savedJobController, guards, repository };
+  return {
+    controller,
+    savedJobController,
+    hiringPipelineController,
+    scorecardController,
+    bulkActionsController,
+    guards,
+    repository,
+    savedJobService,
+    workers,
+  };
 }
 
 export type ApplicationsModule = ReturnType<typeof createApplicationsModule>;
@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import { auditService } from "@shared/audit";
+import type { ApplicationBulkActionsServicePort } from "../ports/application-bulk-actions-service.port";
+import type {
+  BulkApplicationActionsResult,
+  BulkApplicationActionsSchema,
+} from "@/validations/applicationBulkActions.validation";
+import type { ApiResponse, EmptyBody } from "@shared/types";
+
+export class ApplicationBulkActionsController extends BaseController {
+  constructor(private bulkActionsService: ApplicationBulkActionsServicePort) {
+    super();
+  }
+
+  runBulkActions = async (
+    req: Request<
+      BulkApplicationActionsSchema["params"],
+      EmptyBody,
+      BulkApplicationActionsSchema["body"]
+    >,
+    res: Response<ApiResponse<BulkApplicationActionsResult>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const jobId = parseInt(req.params.jobId);
+
+    const result = await this.bulkActionsService.runBulkActions(
+      organizationId,
+      jobId,
+      req.userId!,
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      // One record per application, so each shows up in its own audit trail
+      for (const outcome of result.value.results) {
+        auditService.emit({
+          name: "application.bulk_updated",
+          actor: {
+            id: req.userId,
+            ip: req.ip,
+            userAgent: req.headers["user-agent"],
+          },
+          resource: {
+            type: "application",
+            id: outcome.applicationId,
+            organizationId,
+          },
+          action: "ran bulk application actions",
+          outcome: outcome.success ? "success" : "failure",
+          failureReason: outcome.error ?? undefined,
+          metadata: {
+            organizationId,
+            jobId,
+            actions: req.body.actions.map((action) => action.type),
+            status: outcome.status,
+            failedAction: outcome.failedAction,
+          },
+        });
+      }
+      return this.sendSuccess<BulkApplicationActionsResult>(
+        res,
+        result.value,
+        "Bulk application actions completed",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -2,28 +2,35 @@ import { Request, Response } from "express";
 import { BaseController } from "@shared/base/base.controller";
 import { auditService } from "@shared/audit";
 import type { ApplicationsServicePort } from "@/modules/applications";
-import type {
-  GetJobSchema,
-  UpdateJobApplication,
-} from "@/validations/job.validation";
+import type { ScorecardServicePort } from "../ports/scorecard-service.port";
+import type { GetJobSchema } from "@/validations/job.validation";
 import type {
   ApplicationQueryParams,
+  ApplicantTimelineEntry,
+  ApplicationTimelineEntry,
   ApplyForJobSchema,
   GetJobApplicationSchema,
   JobApplicationWithNotes,
+  UpdateApplicationStatusSchema,
+  WithdrawApplicationSchema,
 } from "@/validations/jobApplications.validation";
+import { screeningAnswersInputSchema } from "@/validations/screeningQuestion.validation";
 import type {
   CreateJobApplicationNoteInputSchema,
+  GetJobApplicationsForOrganizationSchema,
   GetOrganizationSchema,
   JobApplicationManagementSchema,
-  JobApplicationsManagementSchema,
   OrganizationJobApplicationsResponse,
   UpdateJobStatusInputSchema,
 } from "@/validations/organization.validation";
+import type { OrganizationJobApplicationDetail } from "@/validations/scorecard.validation";
 import type { ApiResponse, EmptyBody } from "@shared/types";
 
 export class ApplicationsController extends BaseController {
-  constructor(private applicationsService: ApplicationsServicePort) {
+  constructor(
+    private applicationsService: ApplicationsServicePort,
+    private scorecardService: ScorecardServicePort,
+  ) {
     super();
   }
 
@@ -43,8 +50,16 @@ export class ApplicationsController extends BaseController {
     const resumeFile = files?.resume?.[0];
     const coverLetterFile = files?.coverLetter?.[0];
 
+    // validate() does not write the parsed body back, so multipart requests
+    // still carry the answers as the raw JSON string
+    const screeningAnswers =
+      req.body.screeningAnswers === undefined
+        ? undefined
+        : screeningAnswersInputSchema.parse(req.body.screeningAnswers);
+
     const applicationData = {
       ...req.body,
+      screeningAnswers,
       resume: resumeFile,
       coverLetterFile,
       jobId,
@@ -152,23 +167,22 @@ export class ApplicationsController extends BaseController {
 
   updateApplicationStatus = async (
     req: Request<
-      GetJobApplicationSchema["params"],
+      UpdateApplicationStatusSchema["params"],
       EmptyBody,
-      UpdateJobApplication
+      UpdateApplicationStatusSchema["body"]
     >,
-    res: Response,
+    res: Response<ApiResponse<OrganizationJobApplicationsResponse>>,
   ) => {
     const applicationId = Number(req.params.applicationId);
-    const payload = req.body;
 
     const result = await this.applicationsService.updateApplicationStatus(
       applicationId,
-      payload,
+      { status: req.body.status, reason: req.body.reason },
       req.userId!,
     );
 
     if (result.isSuccess) {
-      return this.sendSuccess(
+      return this.sendSuccess<OrganizationJobApplicationsResponse>(
         res,
         result.value,
         "Application status updated successfully",
@@ -183,7 +197,11 @@ export class ApplicationsController extends BaseController {
   };
 
   withdrawApplication = async (
-    req: Request<GetJobApplicationSchema["params"]>,
+    req: Request<
+      WithdrawApplicationSchema["params"],
+      EmptyBody,
+      WithdrawApplicationSchema["body"]
+    >,
     res: Response,
   ) => {
     const applicationId = Number(req.params.applicationId);
@@ -191,6 +209,7 @@ export class ApplicationsController extends BaseController {
     const result = await this.applicationsService.withdrawApplication(
       applicationId,
       req.userId!,
+      req.body?.reason,
     );
 
     if (result.isSuccess) {
@@ -219,11 +238,38 @@ export class ApplicationsController extends BaseController {
     }
   };
 
+  getApplicationTimeline = async (
+    req: Request<GetJobApplicationSchema["params"]>,
+    res: Response<ApiResponse<ApplicantTimelineEntry[]>>,
+  ) => {
+    const applicationId = Number(req.params.applicationId);
+
+    const result =
+      await this.applicationsService.getApplicationTimelineForApplicant(
+        applicationId,
+        req.userId!,
+      );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicantTimelineEntry[]>(
+        res,
+        result.value,
+        "Application timeline retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(
+        res,
+        result.error,
+        "Failed to retrieve application timeline",
+      );
+    }
+  };
+
   // ─── Employer/Organization-scoped application methods ─────────────
 
   getJobApplicationForOrganization = async (
     req: Request<JobApplicationManagementSchema["params"]>,
-    res: Response<ApiResponse<OrganizationJobApplicationsResponse>>,
+    res: Response<ApiResponse<OrganizationJobApplicationDetail>>,
   ) => {
     const organizationId = parseInt(req.params.organizationId);
     const applicationId = parseInt(req.params.applicationId);
@@ -236,14 +282,25 @@ export class ApplicationsController extends BaseController {
         applicationId,
       );
 
-    if (application.isSuccess) {
-      return this.sendSuccess<OrganizationJobApplicationsResponse>(
+    if (application.isFailure) {
+      return this.handleControllerError(res, application.error);
+    }
+
+    const scorecardSummary = await this.scorecardService.getSummary(
+      organizationId,
+      jobId,
+      applicationId,
+      req.userId!,
+    );
+
+    if (scorecardSummary.isSuccess) {
+      return this.sendSuccess<OrganizationJobApplicationDetail>(
         res,
-        application.value,
+        { ...application.value, scorecardSummary: scorecardSummary.value },
         "Job application retrieved successfully",
       );
     } else {
-      return this.handleControllerError(res, application.error);
+      return this.handleControllerError(res, scorecardSummary.error);
     }
   };
 
@@ -265,6 +322,8 @@ export class ApplicationsController extends BaseController {
         jobId,
         applicationId,
         req.body.status,
+        req.userId!,
+        req.body.reason,
       );
 
     if (application.isSuccess) {
@@ -278,6 +337,32 @@ export class ApplicationsController extends BaseController {
     }
   };
 
+  getOrgJobApplicationTimeline = async (
+    req: Request<JobApplicationManagementSchema["params"]>,
+    res: Response<ApiResponse<ApplicationTimelineEntry[]>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const applicationId = parseInt(req.params.applicationId);
+    const jobId = parseInt(req.params.jobId);
+
+    const timeline =
+      await this.applicationsService.getApplicationTimelineForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+    if (timeline.isSuccess) {
+      return this.sendSuccess<ApplicationTimelineEntry[]>(
+        res,
+        timeline.value,
+        "Application timeline retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, timeline.error);
+    }
+  };
+
   attachNoteToJobApplication = async (
     req: Request<
       JobApplicationManagementSchema["params"],
@@ -336,16 +421,33 @@ export class ApplicationsController extends BaseController {
   };
 
   getJobApplicationsForOrganization = async (
-    req: Request<JobApplicationsManagementSchema["params"]>,
+    req: Request<
+      GetJobApplicationsForOrganizationSchema["params"],
+      EmptyBody,
+      EmptyBody,
+      Partial<GetJobApplicationsForOrganizationSchema["query"]>
+    >,
     res: Response,
   ) => {
     const organizationId = parseInt(req.params.organizationId);
     const jobId = parseInt(req.params.jobId);
+    const { screeningStatus, questionId, answer, sortByQuestionId, order } =
+      req.query;
 
+    // Query values arrive as strings; the validation middleware doesn't coerce
     const applications =
       await this.applicationsService.getJobApplicationsForOrganization(
         organizationId,
         jobId,
+        {
+          screeningStatus,
+          questionId: questionId ? Number(questionId) : undefined,
+          answer,
+          sortByQuestionId: sortByQuestionId
+            ? Number(sortByQuestionId)
+            : undefined,
+          order,
+        },
       );
 
     if (applications.isSuccess) {
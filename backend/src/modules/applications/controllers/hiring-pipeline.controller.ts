@@ -0,0 +1,60 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import type { HiringPipelineServicePort } from "../ports/hiring-pipeline-service.port";
+import type {
+  GetHiringPipelineSchema,
+  HiringPipeline,
+  UpdateHiringPipelineSchema,
+} from "@/validations/hiringPipeline.validation";
+import type { ApiResponse, EmptyBody } from "@shared/types";
+
+export class HiringPipelineController extends BaseController {
+  constructor(private hiringPipelineService: HiringPipelineServicePort) {
+    super();
+  }
+
+  getPipeline = async (
+    req: Request<GetHiringPipelineSchema["params"]>,
+    res: Response<ApiResponse<HiringPipeline>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result = await this.hiringPipelineService.getPipeline(organizationId);
+
+    if (result.isSuccess) {
+      return this.sendSuccess<HiringPipeline>(
+        res,
+        result.value,
+        "Hiring pipeline retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  updatePipeline = async (
+    req: Request<
+      UpdateHiringPipelineSchema["params"],
+      EmptyBody,
+      UpdateHiringPipelineSchema["body"]
+    >,
+    res: Response<ApiResponse<HiringPipeline>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result = await this.hiringPipelineService.updatePipeline(
+      organizationId,
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<HiringPipeline>(
+        res,
+        result.value,
+        "Hiring pipeline updated successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -73,6 +73,7 @@ export class SavedJobController extends BaseController {
     const result = await this.savedJobService.saveJobForCurrentUser(
       userId,
       jobId,
+      req.correlationId,
     );
 
     if (result.isSuccess) {
@@ -0,0 +1,140 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import type { ScorecardServicePort } from "../ports/scorecard-service.port";
+import type {
+  ApplicationScorecard,
+  AssignScorecardReviewersSchema,
+  GetScorecardTemplateSchema,
+  ScorecardTemplate,
+  SubmitScorecardSchema,
+  UpdateScorecardTemplateSchema,
+} from "@/validations/scorecard.validation";
+import type { JobApplicationManagementSchema } from "@/validations/organization.validation";
+import type { ApiResponse, EmptyBody } from "@shared/types";
+
+export class ScorecardController extends BaseController {
+  constructor(private scorecardService: ScorecardServicePort) {
+    super();
+  }
+
+  getTemplate = async (
+    req: Request<GetScorecardTemplateSchema["params"]>,
+    res: Response<ApiResponse<ScorecardTemplate>>,
+  ) => {
+    const result = await this.scorecardService.getTemplate(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ScorecardTemplate>(
+        res,
+        result.value,
+        "Scorecard template retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  updateTemplate = async (
+    req: Request<
+      UpdateScorecardTemplateSchema["params"],
+      EmptyBody,
+      UpdateScorecardTemplateSchema["body"]
+    >,
+    res: Response<ApiResponse<ScorecardTemplate>>,
+  ) => {
+    const result = await this.scorecardService.updateTemplate(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ScorecardTemplate>(
+        res,
+        result.value,
+        "Scorecard template updated successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  assignReviewers = async (
+    req: Request<
+      AssignScorecardReviewersSchema["params"],
+      EmptyBody,
+      AssignScorecardReviewersSchema["body"]
+    >,
+    res: Response<ApiResponse<ApplicationScorecard[]>>,
+  ) => {
+    const result = await this.scorecardService.assignReviewers(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+      req.userId!,
+      req.body.memberIds,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicationScorecard[]>(
+        res,
+        result.value,
+        "Scorecard reviewers assigned successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getScorecards = async (
+    req: Request<JobApplicationManagementSchema["params"]>,
+    res: Response<ApiResponse<ApplicationScorecard[]>>,
+  ) => {
+    const result = await this.scorecardService.getScorecards(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicationScorecard[]>(
+        res,
+        result.value,
+        "Scorecards retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  submitScorecard = async (
+    req: Request<
+      SubmitScorecardSchema["params"],
+      EmptyBody,
+      SubmitScorecardSchema["body"]
+    >,
+    res: Response<ApiResponse<ApplicationScorecard>>,
+  ) => {
+    const result = await this.scorecardService.submitScorecard(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+      req.userId!,
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicationScorecard>(
+        res,
+        result.value,
+        "Scorecard submitted successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
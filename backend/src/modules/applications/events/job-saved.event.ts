@@ -0,0 +1,19 @@
+import { DomainEventType } from "@shared/events";
+import type { DomainEvent } from "@shared/events";
+
+export interface JobSavedPayload {
+  jobId: number;
+  userId: number;
+}
+
+export function createJobSavedEvent(
+  payload: JobSavedPayload,
+  correlationId?: string,
+): DomainEvent<JobSavedPayload> {
+  return {
+    eventType: DomainEventType.JOB_SAVED,
+    payload,
+    occurredAt: new Date().toISOString(),
+    correlationId,
+  };
+}
@@ -1,17 +1,111 @@
 import type { RequestHandler } from "express";
 
 import type { ApplicationsRepositoryPort } from "@/modules/applications/ports/applications-repository.port";
+import type { JobDetailsQueryPort } from "@/modules/applications/ports/job-details-query.port";
 import type { GetJobApplicationSchema } from "@/validations/jobApplications.validation";
+import type { GetJobSchema } from "@/validations/job.validation";
 import logger from "@shared/logger";
 
 /**
  * Creates applications authorization guards.
- * Handles application ownership verification.
+ * Handles application ownership verification and resolves the organization
+ * behind employer routes whose path carries no organization id.
  */
 export function createApplicationsGuards(deps: {
   applicationsRepository: ApplicationsRepositoryPort;
+  jobDetailsQuery: Pick<JobDetailsQueryPort, "getJobWithEmployerId">;
 }) {
-  const { applicationsRepository } = deps;
+  const { applicationsRepository, jobDetailsQuery } = deps;
+
+  /**
+   * Sets req.organizationId to the organization that posted the job, so
+   * requirePermission checks the caller's role there rather than in
+   * whichever organization they happen to belong to.
+   * Requires req.params.jobId.
+   */
+  const resolveJobOrganization: RequestHandler<GetJobSchema["params"]> = async (
+    req,
+    res,
+    next,
+  ) => {
+    try {
+      const jobId = Number(req.params.jobId);
+      if (isNaN(jobId)) {
+        return res.status(400).json({
+          success: false,
+          status: "error",
+          error: "BAD_REQUEST",
+          message: "Invalid job ID",
+        });
+      }
+
+      const job = await jobDetailsQuery.getJobWithEmployerId(jobId);
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          status: "error",
+          error: "NOT_FOUND",
+          message: `Job with Id: ${jobId} not found`,
+        });
+      }
+
+      req.organizationId = job.employerId;
+
+      return next();
+    } catch (error) {
+      logger.error(error);
+      return res.status(500).json({
+        success: false,
+        status: "error",
+        error: "INTERNAL_SERVER_ERROR",
+        message: "Error resolving the job's organization",
+      });
+    }
+  };
+
+  /**
+   * Sets req.organizationId to the organization whose job the application
+   * was made to, for requirePermission to check the caller's role there.
+   * Requires req.params.applicationId.
+   */
+  const resolveApplicationOrganization: RequestHandler<
+    GetJobApplicationSchema["params"]
+  > = async (req, res, next) => {
+    try {
+      const applicationId = Number(req.params.applicationId);
+      if (isNaN(applicationId)) {
+        return res.status(400).json({
+          success: false,
+          status: "error",
+          error: "BAD_REQUEST",
+          message: "Invalid application ID",
+        });
+      }
+
+      const application =
+        await applicationsRepository.findApplicationById(applicationId);
+      if (!application) {
+        return res.status(404).json({
+          success: false,
+          status: "error",
+          error: "NOT_FOUND",
+          message: "Application not found",
+        });
+      }
+
+      req.organizationId = application.job.employerId;
+
+      return next();
+    } catch (error) {
+      logger.error(error);
+      return res.status(500).json({
+        success: false,
+        status: "error",
+        error: "INTERNAL_SERVER_ERROR",
+        message: "Error resolving the application's organization",
+      });
+    }
+  };
 
   /**
    * Ensures the authenticated user owns the specified job application.
@@ -67,6 +161,8 @@ export function createApplicationsGuards(deps: {
 
   return {
     ensureApplicationOwnership,
+    resolveJobOrganization,
+    resolveApplicationOrganization,
   };
 }
 
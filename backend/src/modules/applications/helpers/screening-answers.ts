@@ -0,0 +1,168 @@
+import { fail, ok, type Result } from "@shared/result";
+import { ValidationError } from "@shared/errors";
+import { SecurityUtils } from "@shared/utils/security";
+import type {
+  ScreeningAnswerInput,
+  ScreeningQuestion,
+  ScreeningQuestionType,
+  ScreeningStatus,
+} from "@/validations/screeningQuestion.validation";
+
+export interface ScreeningAnswerRecord {
+  questionId: number;
+  answer: string;
+  knockoutTriggered: "reject" | "flag" | null;
+}
+
+export interface ScreeningEvaluation {
+  // Null when the job has no screening questions
+  status: ScreeningStatus | null;
+  answers: ScreeningAnswerRecord[];
+}
+
+/**
+ * Validates a candidate's answers against the job's screening questions and
+ * applies the knockout rules. Answers are normalised to the text stored in
+ * `application_screening_answers`.
+ */
+export function evaluateScreeningAnswers(
+  questions: ScreeningQuestion[],
+  answers: ScreeningAnswerInput[],
+): Result<ScreeningEvaluation, ValidationError> {
+  const errors: { questionId: number; message: string }[] = [];
+  const questionsById = new Map(questions.map((q) => [q.id, q]));
+
+  for (const answer of answers) {
+    if (!questionsById.has(answer.questionId)) {
+      errors.push({
+        questionId: answer.questionId,
+        message: "Question does not belong to this job",
+      });
+    }
+  }
+
+  const records: ScreeningAnswerRecord[] = [];
+
+  for (const question of questions) {
+    const value = answers.find((a) => a.questionId === question.id)?.answer;
+
+    if (value === undefined || value === "") {
+      if (question.isRequired) {
+        errors.push({ questionId: question.id, message: "Answer is required" });
+      }
+      continue;
+    }
+
+    const stored = normaliseAnswer(question, value);
+    if (stored === null) {
+      errors.push({
+        questionId: question.id,
+        message: invalidAnswerMessage(question),
+      });
+      continue;
+    }
+
+    records.push({
+      questionId: question.id,
+      answer: stored,
+      knockoutTriggered: isKnockedOut(question, value)
+        ? question.knockout!.action
+        : null,
+    });
+  }
+
+  if (errors.length > 0) {
+    return fail(
+      new ValidationError("Invalid screening answers", { answers: errors }),
+    );
+  }
+
+  let status: ScreeningStatus | null = null;
+  if (questions.length > 0) {
+    const triggered = records.map((r) => r.knockoutTriggered);
+    status = triggered.includes("reject")
+      ? "rejected"
+      : triggered.includes("flag")
+        ? "flagged"
+        : "passed";
+  }
+
+  return ok({ status, answers: records });
+}
+
+/**
+ * Converts a stored answer back into the value the candidate submitted.
+ */
+export function toScreeningAnswerValue(
+  type: ScreeningQuestionType,
+  stored: string,
+): boolean | number | string {
+  switch (type) {
+    case "yes_no":
+      return stored === "yes";
+    case "numeric":
+      return Number(stored);
+    default:
+      return stored;
+  }
+}
+
+function normaliseAnswer(
+  question: ScreeningQuestion,
+  value: ScreeningAnswerInput["answer"],
+): string | null {
+  switch (question.type) {
+    case "yes_no":
+      return typeof value === "boolean" ? (value ? "yes" : "no") : null;
+    case "multiple_choice":
+      return typeof value === "string" && question.options?.includes(value)
+        ? value
+        : null;
+    case "numeric":
+      return typeof value === "number" && Number.isFinite(value)
+        ? String(value)
+        : null;
+    case "text":
+      return typeof value === "string"
+        ? SecurityUtils.sanitizeInput(value)
+        : null;
+  }
+}
+
+function invalidAnswerMessage(question: ScreeningQuestion) {
+  switch (question.type) {
+    case "yes_no":
+      return "Answer must be true or false";
+    case "multiple_choice":
+      return "Answer must be one of the question's options";
+    case "numeric":
+      return "Answer must be a number";
+    case "text":
+      return "Answer must be text";
+  }
+}
+
+function isKnockedOut(
+  question: ScreeningQuestion,
+  value: ScreeningAnswerInput["answer"],
+): boolean {
+  const rule = question.knockout;
+  if (!rule) return false;
+
+  switch (question.type) {
+    case "yes_no":
+      return rule.expectedAnswer !== undefined && value !== rule.expectedAnswer;
+    case "multiple_choice":
+      return (
+        !!rule.acceptedOptions &&
+        !rule.acceptedOptions.includes(value as string)
+      );
+    case "numeric":
+      return (
+        (rule.min !== undefined && (value as number) < rule.min) ||
+        (rule.max !== undefined && (value as number) > rule.max)
+      );
+    case "text":
+      return false;
+  }
+}
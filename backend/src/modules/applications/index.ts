@@ -3,6 +3,8 @@ export type { ApplicationsModule } from "./composition-root";
 // Concrete export — used by composition-root.ts (circular dep resolution)
 export { ApplicationsRepository } from "./repositories/applications.repository";
 export { createOrgApplicationsRoutes } from "./routes/org-applications.routes";
+export { createHiringPipelineRoutes } from "./routes/hiring-pipeline.routes";
+export { createScorecardRoutes } from "./routes/scorecard.routes";
 export type { ApplicationsServicePort } from "./ports/applications-service.port";
 export type { ApplicationsRepositoryPort } from "./ports/applications-repository.port";
 export type { JobDetailsQueryPort } from "./ports/job-details-query.port";
@@ -14,7 +16,17 @@ export { createApplicationsRoutes } from "./routes/applications.routes";
 export { createSavedJobRoutes } from "./routes/saved-job.routes";
 export { SavedJobRepository } from "./repositories/saved-job.repository";
 export type { SavedJobRepositoryPort } from "./ports/saved-job-repository.port";
+export type { SavedJobServicePort } from "./ports/saved-job-service.port";
 export type { ApplicationSubmittedPayload } from "./events/application-submitted.event";
 export { createApplicationSubmittedEvent } from "./events/application-submitted.event";
 export type { ApplicationWithdrawnPayload } from "./events/application-withdrawn.event";
 export { createApplicationWithdrawnEvent } from "./events/application-withdrawn.event";
+export type { JobSavedPayload } from "./events/job-saved.event";
+export { createJobSavedEvent } from "./events/job-saved.event";
+export { HiringPipelineRepository } from "./repositories/hiring-pipeline.repository";
+export type { HiringPipelineRepositoryPort } from "./ports/hiring-pipeline-repository.port";
+export type { HiringPipelineServicePort } from "./ports/hiring-pipeline-service.port";
+export { ScorecardRepository } from "./repositories/scorecard.repository";
+export type { ScorecardRepositoryPort } from "./ports/scorecard-repository.port";
+export type { ScorecardServicePort } from "./ports/scorecard-service.port";
+export type { ApplicationBulkActionsServicePort } from "./ports/application-bulk-actions-service.port";
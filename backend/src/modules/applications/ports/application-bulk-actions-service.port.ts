@@ -0,0 +1,15 @@
+import type { Result } from "@shared/result";
+import type { AppError } from "@shared/errors";
+import type {
+  BulkApplicationActionsInput,
+  BulkApplicationActionsResult,
+} from "@/validations/applicationBulkActions.validation";
+
+export interface ApplicationBulkActionsServicePort {
+  runBulkActions(
+    organizationId: number,
+    jobId: number,
+    actorId: number,
+    input: BulkApplicationActionsInput,
+  ): Promise<Result<BulkApplicationActionsResult, AppError>>;
+}
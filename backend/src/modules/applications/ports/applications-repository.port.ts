@@ -1,10 +1,8 @@
-import type {
-  NewJobApplication,
-  UpdateJobApplication,
-} from "@/validations/job.validation";
+import type { NewJobApplication } from "@/validations/job.validation";
 import type {
   ApplicationsByJobInterface,
   ApplicationsByUserInterface,
+  ApplicationStatusHistoryRecord,
   JobApplication,
   JobApplicationWithNotes,
 } from "@/validations/jobApplications.validation";
@@ -14,10 +12,35 @@ import type {
   JobApplicationsForOrganizationInterface,
   ApplicationsForOrganizationInterface,
 } from "@/validations/organization.validation";
+import type { ScreeningStatus } from "@/validations/screeningQuestion.validation";
+import type { ScreeningAnswerRecord } from "../helpers/screening-answers";
+
+/**
+ * Filters and ordering of a job's application list. Answers are matched
+ * against their stored text; numeric answers are sorted as numbers.
+ */
+export interface JobApplicationsListOptions {
+  screeningStatus?: ScreeningStatus;
+  answer?: { questionId: number; value: string };
+  sortByAnswer?: { questionId: number; numeric: boolean };
+  order?: "asc" | "desc";
+}
+
+/**
+ * Application loaded for a bulk action, with what is needed to notify the
+ * applicant.
+ */
+export interface BulkActionApplication {
+  id: number;
+  status: string;
+  jobTitle: string;
+  applicant: { id: number; email: string; fullName: string };
+}
 
 export interface ApplicationsRepositoryPort {
   createApplication(
     applicationData: NewJobApplication,
+    screening?: { answers: ScreeningAnswerRecord[]; statusReason?: string },
   ): Promise<number | undefined>;
 
   findApplicationsByJob(
@@ -31,22 +54,26 @@ export interface ApplicationsRepositoryPort {
     options?: {
       page?: number;
       limit?: number;
-      status?:
-        | "pending"
-        | "reviewed"
-        | "shortlisted"
-        | "interviewing"
-        | "rejected"
-        | "hired"
-        | "withdrawn";
+      status?: string;
     },
   ): Promise<ApplicationsByUserInterface>;
 
-  updateApplicationStatus(
+  /**
+   * Moves the application from `fromStatus` to `status`, failing with a
+   * ConflictError if its status changed since the caller read it.
+   */
+  withdrawApplication(
     applicationId: number,
-    updateData: UpdateJobApplication,
+    fromStatus: string,
+    status: string,
+    actorId: number,
+    reason?: string,
   ): Promise<boolean>;
 
+  findStatusHistory(
+    applicationId: number,
+  ): Promise<ApplicationStatusHistoryRecord[]>;
+
   findApplicationById(applicationId: number): Promise<JobApplication | null>;
 
   hasUserAppliedToJob(userId: number, jobId: number): Promise<boolean>;
@@ -61,18 +88,18 @@ export interface ApplicationsRepositoryPort {
     applicationId: number,
   ): Promise<OrganizationJobApplicationsResponse>;
 
+  /**
+   * Moves the application from `fromStatus` to `status`, failing with a
+   * ConflictError if its status changed since the caller read it.
+   */
   updateOrgJobApplicationStatus(
     organizationId: number,
     jobId: number,
     applicationId: number,
-    status:
-      | "pending"
-      | "reviewed"
-      | "shortlisted"
-      | "interviewing"
-      | "rejected"
-      | "hired"
-      | "withdrawn",
+    fromStatus: string,
+    status: string,
+    actorId: number,
+    reason?: string,
   ): Promise<OrganizationJobApplicationsResponse>;
 
   createJobApplicationNote(
@@ -85,9 +112,22 @@ export interface ApplicationsRepositoryPort {
     applicationId: number,
   ): Promise<{ note: string; createdAt: Date }[]>;
 
+  findJobApplicationsForBulkAction(
+    organizationId: number,
+    jobId: number,
+    applicationIds: number[],
+  ): Promise<BulkActionApplication[]>;
+
+  addApplicationTag(
+    applicationId: number,
+    tag: string,
+    createdBy: number,
+  ): Promise<void>;
+
   getJobApplicationsForOrganization(
     organizationId: number,
     jobId: number,
+    options?: JobApplicationsListOptions,
   ): Promise<JobApplicationsForOrganizationInterface[]>;
 
   getApplicationsForOrganization(
@@ -1,27 +1,30 @@
 import type { Result } from "@shared/result";
 import type { AppError } from "@shared/errors";
-import type {
-  NewJobApplication,
-  UpdateJobApplication,
-} from "@/validations/job.validation";
+import type { NewJobApplication } from "@/validations/job.validation";
 import type {
   ApplicationQueryParams,
   ApplicationsByJobInterface,
   ApplicationsByUserInterface,
+  ApplicantTimelineEntry,
+  ApplicationTimelineEntry,
   JobApplicationWithNotes,
+  UpdateApplicationStatusInput,
 } from "@/validations/jobApplications.validation";
 import type {
   OrganizationJobApplicationsResponse,
   CreateJobApplicationNoteInputSchema,
   JobApplicationsForOrganizationInterface,
+  JobApplicationsForOrganizationQuery,
   ApplicationsForOrganizationInterface,
 } from "@/validations/organization.validation";
+import type { ScreeningAnswerInput } from "@/validations/screeningQuestion.validation";
 
 export interface ApplicationsServicePort {
   applyForJob(
     applicationData: NewJobApplication & {
       resume?: Express.Multer.File;
       coverLetterFile?: Express.Multer.File;
+      screeningAnswers?: ScreeningAnswerInput[];
     },
     correlationId: string,
   ): Promise<Result<{ applicationId: number; message: string }, Error>>;
@@ -39,15 +42,21 @@ export interface ApplicationsServicePort {
 
   updateApplicationStatus(
     applicationId: number,
-    data: UpdateJobApplication,
+    data: UpdateApplicationStatusInput,
     requesterId: number,
-  ): Promise<Result<{ message: string }, Error>>;
+  ): Promise<Result<OrganizationJobApplicationsResponse, Error>>;
 
   withdrawApplication(
     applicationId: number,
     userId: number,
+    reason?: string,
   ): Promise<Result<{ message: string }, Error>>;
 
+  getApplicationTimelineForApplicant(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<ApplicantTimelineEntry[], AppError>>;
+
   deleteJobApplicationsByUserId(userId: number): Promise<Result<null, Error>>;
 
   // ─── Employer/Organization-scoped application methods ─────────────
@@ -62,16 +71,17 @@ export interface ApplicationsServicePort {
     organizationId: number,
     jobId: number,
     applicationId: number,
-    status:
-      | "pending"
-      | "reviewed"
-      | "shortlisted"
-      | "interviewing"
-      | "rejected"
-      | "hired"
-      | "withdrawn",
+    status: string,
+    actorId: number,
+    reason?: string,
   ): Promise<Result<OrganizationJobApplicationsResponse, Error>>;
 
+  getApplicationTimelineForOrganization(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<ApplicationTimelineEntry[], AppError>>;
+
   createJobApplicationNote(
     applicationId: number,
     userId: number,
@@ -87,6 +97,7 @@ export interface ApplicationsServicePort {
   getJobApplicationsForOrganization(
     organizationId: number,
     jobId: number,
+    query?: Partial<JobApplicationsForOrganizationQuery>,
   ): Promise<Result<JobApplicationsForOrganizationInterface[], Error>>;
 
   getApplicationsForOrganization(
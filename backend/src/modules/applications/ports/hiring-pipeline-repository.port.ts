@@ -0,0 +1,15 @@
+import type {
+  HiringPipeline,
+  UpdateHiringPipelineInput,
+} from "@/validations/hiringPipeline.validation";
+
+export interface HiringPipelineRepositoryPort {
+  findByOrganizationId(organizationId: number): Promise<HiringPipeline | null>;
+
+  upsertForOrganization(
+    organizationId: number,
+    data: UpdateHiringPipelineInput,
+  ): Promise<HiringPipeline>;
+
+  findStatusesInUse(organizationId: number): Promise<string[]>;
+}
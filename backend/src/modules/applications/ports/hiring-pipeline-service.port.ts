@@ -0,0 +1,17 @@
+import type { Result } from "@shared/result";
+import type { AppError } from "@shared/errors";
+import type {
+  HiringPipeline,
+  UpdateHiringPipelineInput,
+} from "@/validations/hiringPipeline.validation";
+
+export interface HiringPipelineServicePort {
+  getPipeline(
+    organizationId: number,
+  ): Promise<Result<HiringPipeline, AppError>>;
+
+  updatePipeline(
+    organizationId: number,
+    data: UpdateHiringPipelineInput,
+  ): Promise<Result<HiringPipeline, AppError>>;
+}
@@ -1,3 +1,5 @@
+import type { ScreeningQuestion } from "@/validations/screeningQuestion.validation";
+
 // Internal DTOs — NOT exported from barrel file.
 // Consumers infer these types from the port's method signatures.
 
@@ -18,7 +20,8 @@ interface JobWithEmployerId {
 /**
  * Port for querying job details from the applications module's perspective.
  * The applications module needs job data for validation (is job active?),
- * authorization (who owns the job?), and display (job title in emails).
+ * authorization (who owns the job?), display (job title in emails), and
+ * screening (which questions must candidates answer?).
  *
  * Implemented by an adapter in src/shared/adapters/.
  */
@@ -26,4 +29,5 @@ export interface JobDetailsQueryPort {
   getJobForApplication(jobId: number): Promise<JobForApplication | null>;
   getJobWithEmployerId(jobId: number): Promise<JobWithEmployerId | null>;
   doesJobExist(jobId: number): Promise<boolean>;
+  getScreeningQuestions(jobId: number): Promise<ScreeningQuestion[]>;
 }
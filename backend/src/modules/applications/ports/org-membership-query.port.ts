@@ -2,7 +2,8 @@
  * Port for querying organization membership from the applications module's
  * perspective. The applications module needs to verify that a requester
  * belongs to the organization that posted a job before allowing access
- * to applications.
+ * to applications, and that the organization has not been suspended before
+ * taking new ones.
  *
  * Implemented by an adapter in src/shared/adapters/.
  */
@@ -11,4 +12,6 @@ export interface OrgMembershipQueryPort {
     contactId: number,
     organizationId: number,
   ): Promise<{ id: number } | null>;
+
+  isOrganizationSuspended(organizationId: number): Promise<boolean>;
 }
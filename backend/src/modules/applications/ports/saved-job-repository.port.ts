@@ -1,6 +1,17 @@
 import type { SavedJobs } from "@/validations/user.validation";
 import type { PaginationMeta } from "@shared/types";
 
+/** A candidate who saved a job, with what is needed to email them about it. */
+export interface JobSaver {
+  savedJobId: number;
+  userId: number;
+  email: string;
+  fullName: string;
+  jobId: number;
+  jobTitle: string;
+  applicationDeadline: Date | null;
+}
+
 export interface SavedJobRepositoryPort {
   getSavedJobsForUser(
     userId: number,
@@ -15,4 +26,14 @@ export interface SavedJobRepositoryPort {
     userId: number,
     jobId: number,
   ): Promise<{ success: boolean }>;
+  /** Active candidates who saved the job. */
+  findSaversOfJob(jobId: number): Promise<JobSaver[]>;
+  /**
+   * Saves of published jobs whose deadline falls in (now, until] and whose
+   * saver has not been reminded yet.
+   */
+  findSaversDueDeadlineReminder(now: Date, until: Date): Promise<JobSaver[]>;
+  markDeadlineRemindersSent(savedJobIds: number[]): Promise<void>;
+  /** Lets savers be reminded again, e.g. after the deadline moved. */
+  clearDeadlineReminders(jobId: number): Promise<void>;
 }
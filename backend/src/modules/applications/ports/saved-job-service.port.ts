@@ -15,6 +15,7 @@ export interface SavedJobServicePort {
   saveJobForCurrentUser(
     userId: number,
     jobId: number,
+    correlationId?: string,
   ): Promise<Result<{ success: boolean }, AppError>>;
 
   isJobSavedByUser(
@@ -26,4 +27,22 @@ export interface SavedJobServicePort {
     userId: number,
     jobId: number,
   ): Promise<Result<{ success: boolean }, AppError>>;
+
+  /**
+   * Emails the job's savers that it changed materially. Clears sent deadline
+   * reminders when the deadline is among the changes.
+   */
+  notifySaversOfJobUpdate(
+    jobId: number,
+    changedFields: string[],
+  ): Promise<Result<number, AppError>>;
+
+  /** Emails the job's savers that it stopped taking applications. */
+  notifySaversOfJobClosure(jobId: number): Promise<Result<number, AppError>>;
+
+  /**
+   * Reminds savers of published jobs whose deadline is at most three days
+   * away, once per save. Resolves to the number of reminders queued.
+   */
+  sendDeadlineReminders(now?: Date): Promise<Result<number, AppError>>;
 }
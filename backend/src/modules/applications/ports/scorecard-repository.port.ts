@@ -0,0 +1,73 @@
+import type {
+  ScorecardRecommendation,
+  ScorecardTemplate,
+  SubmitScorecardInput,
+  UpdateScorecardTemplateInput,
+} from "@/validations/scorecard.validation";
+
+/**
+ * A reviewer's scorecard as stored, including ratings regardless of who is
+ * looking at it. Visibility rules are applied by the service.
+ */
+export interface ScorecardRecord {
+  id: number;
+  reviewer: { memberId: number; userId: number; fullName: string };
+  recommendation: ScorecardRecommendation | null;
+  comments: string | null;
+  ratings: { competencyId: number; rating: number }[];
+  submittedAt: Date | null;
+}
+
+export interface ScorecardRepositoryPort {
+  jobBelongsToOrganization(
+    jobId: number,
+    organizationId: number,
+  ): Promise<boolean>;
+
+  findTemplateByJobId(jobId: number): Promise<ScorecardTemplate | null>;
+
+  upsertTemplate(
+    jobId: number,
+    data: UpdateScorecardTemplateInput,
+  ): Promise<ScorecardTemplate>;
+
+  /**
+   * Whether any scorecard for an application to the job has been submitted.
+   */
+  hasSubmittedScorecards(jobId: number): Promise<boolean>;
+
+  findScorecardsByApplicationId(
+    applicationId: number,
+  ): Promise<ScorecardRecord[]>;
+
+  /**
+   * Returns the IDs of the organization's active members among the given IDs.
+   */
+  findActiveMemberIds(
+    organizationId: number,
+    memberIds: number[],
+  ): Promise<number[]>;
+
+  findMemberIdForUser(
+    organizationId: number,
+    userId: number,
+  ): Promise<number | null>;
+
+  /**
+   * Creates pending scorecards for the reviewers who are not assigned yet.
+   */
+  assignReviewers(
+    applicationId: number,
+    memberIds: number[],
+    assignedBy: number,
+  ): Promise<ScorecardRecord[]>;
+
+  /**
+   * Stores the reviewer's ratings, recommendation and comments. Returns null,
+   * leaving the scorecard untouched, when it was already submitted.
+   */
+  submitScorecard(
+    scorecardId: number,
+    data: SubmitScorecardInput,
+  ): Promise<ScorecardRecord | null>;
+}
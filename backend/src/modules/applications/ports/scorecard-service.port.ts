@@ -0,0 +1,52 @@
+import type { Result } from "@shared/result";
+import type { AppError } from "@shared/errors";
+import type {
+  ApplicationScorecard,
+  ScorecardSummary,
+  ScorecardTemplate,
+  SubmitScorecardInput,
+  UpdateScorecardTemplateInput,
+} from "@/validations/scorecard.validation";
+
+export interface ScorecardServicePort {
+  getTemplate(
+    organizationId: number,
+    jobId: number,
+  ): Promise<Result<ScorecardTemplate, AppError>>;
+
+  updateTemplate(
+    organizationId: number,
+    jobId: number,
+    data: UpdateScorecardTemplateInput,
+  ): Promise<Result<ScorecardTemplate, AppError>>;
+
+  assignReviewers(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    actorId: number,
+    memberIds: number[],
+  ): Promise<Result<ApplicationScorecard[], AppError>>;
+
+  getScorecards(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    viewerId: number,
+  ): Promise<Result<ApplicationScorecard[], AppError>>;
+
+  submitScorecard(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    viewerId: number,
+    data: SubmitScorecardInput,
+  ): Promise<Result<ApplicationScorecard, AppError>>;
+
+  getSummary(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    viewerId: number,
+  ): Promise<Result<ScorecardSummary, AppError>>;
+}
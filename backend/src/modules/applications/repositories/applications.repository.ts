@@ -1,7 +1,21 @@
-import { and, count, desc, eq, inArray, SQL } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  exists,
+  inArray,
+  sql,
+  SQL,
+} from "drizzle-orm";
 import {
   applicationNotes,
+  applicationScreeningAnswers,
+  applicationStatusHistory,
+  applicationTags,
   jobApplications,
+  jobScreeningQuestions,
   jobsDetails,
   organizations,
   user,
@@ -9,24 +23,66 @@ import {
 import { db } from "@shared/db/connection";
 import { calculatePagination, countRecords } from "@shared/db/utils";
 import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
-import { DatabaseError, NotFoundError } from "@shared/errors";
-import type {
-  NewJobApplication,
-  UpdateJobApplication,
-} from "@/validations/job.validation";
+import { ConflictError, DatabaseError, NotFoundError } from "@shared/errors";
+import { INITIAL_APPLICATION_STATUS } from "@shared/constants/hiring-pipeline";
+import type { NewJobApplication } from "@/validations/job.validation";
 import type { NewJobApplicationNote } from "@/validations/organization.validation";
+import type { ApplicationScreeningAnswer } from "@/validations/screeningQuestion.validation";
 import type { ApplicationsRepositoryPort } from "@/modules/applications";
-import { Application } from "@/validations/jobApplications.validation";
+import type { JobApplicationsListOptions } from "../ports/applications-repository.port";
+import {
+  toScreeningAnswerValue,
+  type ScreeningAnswerRecord,
+} from "../helpers/screening-answers";
+
+type DbOrTx = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export class ApplicationsRepository implements ApplicationsRepositoryPort {
-  async createApplication(applicationData: NewJobApplication) {
+  async createApplication(
+    applicationData: NewJobApplication,
+    screening?: { answers: ScreeningAnswerRecord[]; statusReason?: string },
+  ) {
     const result = await withDbErrorHandling(async () => {
-      const [applicationId] = await db
-        .insert(jobApplications)
-        .values(applicationData)
-        .$returningId();
+      return await db.transaction(async (tx) => {
+        const [applicationId] = await tx
+          .insert(jobApplications)
+          .values(applicationData)
+          .$returningId();
+
+        if (applicationId) {
+          const status = applicationData.status ?? INITIAL_APPLICATION_STATUS;
+
+          await tx.insert(applicationStatusHistory).values({
+            applicationId: applicationId.id,
+            fromStatus: null,
+            toStatus: INITIAL_APPLICATION_STATUS,
+            changedBy: applicationData.applicantId,
+          });
+
+          // Applications moved on at submission (e.g. rejected by a screening
+          // knockout rule) record the automatic transition without an actor
+          if (status !== INITIAL_APPLICATION_STATUS) {
+            await tx.insert(applicationStatusHistory).values({
+              applicationId: applicationId.id,
+              fromStatus: INITIAL_APPLICATION_STATUS,
+              toStatus: status,
+              changedBy: null,
+              reason: screening?.statusReason ?? null,
+            });
+          }
+
+          if (screening && screening.answers.length > 0) {
+            await tx.insert(applicationScreeningAnswers).values(
+              screening.answers.map((answer) => ({
+                applicationId: applicationId.id,
+                ...answer,
+              })),
+            );
+          }
+        }
 
-      return applicationId;
+        return applicationId;
+      });
     });
     return result?.id;
   }
@@ -42,9 +98,7 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
       eq(jobApplications.jobId, jobId),
     ];
     if (status) {
-      whereConditions.push(
-        eq(jobApplications.status, status as Application["status"]),
-      );
+      whereConditions.push(eq(jobApplications.status, status));
     }
 
     const where = and(
@@ -82,14 +136,7 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
     options: {
       page?: number;
       limit?: number;
-      status?:
-        | "pending"
-        | "reviewed"
-        | "shortlisted"
-        | "interviewing"
-        | "rejected"
-        | "hired"
-        | "withdrawn";
+      status?: string;
     } = {},
   ) {
     const { page = 1, limit = 10, status } = options;
@@ -99,19 +146,7 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
       eq(jobApplications.applicantId, userId),
     ];
     if (status) {
-      whereConditions.push(
-        eq(
-          jobApplications.status,
-          status as
-            | "pending"
-            | "reviewed"
-            | "shortlisted"
-            | "interviewing"
-            | "rejected"
-            | "hired"
-            | "withdrawn",
-        ),
-      );
+      whereConditions.push(eq(jobApplications.status, status));
     }
 
     if (appliedJobIds && appliedJobIds.length > 0) {
@@ -157,19 +192,74 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
     return { items, pagination };
   }
 
-  async updateApplicationStatus(
+  withdrawApplication(
     applicationId: number,
-    updateData: UpdateJobApplication,
+    fromStatus: string,
+    status: string,
+    actorId: number,
+    reason?: string,
   ) {
-    const [result] = await withDbErrorHandling(
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        const [current] = await tx
+          .select({ status: jobApplications.status })
+          .from(jobApplications)
+          .where(eq(jobApplications.id, applicationId));
+
+        if (!current) {
+          return false;
+        }
+
+        const [result] = await tx
+          .update(jobApplications)
+          .set({ status })
+          .where(
+            and(
+              eq(jobApplications.id, applicationId),
+              eq(jobApplications.status, fromStatus),
+            ),
+          );
+
+        if (result.affectedRows === 0) {
+          throw new ConflictError(
+            "The application's status changed while it was being withdrawn",
+          );
+        }
+
+        await tx.insert(applicationStatusHistory).values({
+          applicationId,
+          fromStatus,
+          toStatus: status,
+          changedBy: actorId,
+          reason: reason ?? null,
+        });
+
+        return true;
+      });
+    });
+  }
+
+  findStatusHistory(applicationId: number) {
+    return withDbErrorHandling(
       async () =>
         await db
-          .update(jobApplications)
-          .set(updateData)
-          .where(eq(jobApplications.id, applicationId)),
+          .select({
+            id: applicationStatusHistory.id,
+            fromStatus: applicationStatusHistory.fromStatus,
+            toStatus: applicationStatusHistory.toStatus,
+            reason: applicationStatusHistory.reason,
+            createdAt: applicationStatusHistory.createdAt,
+            changedBy: applicationStatusHistory.changedBy,
+            actorName: user.fullName,
+          })
+          .from(applicationStatusHistory)
+          .leftJoin(user, eq(user.id, applicationStatusHistory.changedBy))
+          .where(eq(applicationStatusHistory.applicationId, applicationId))
+          .orderBy(
+            asc(applicationStatusHistory.createdAt),
+            asc(applicationStatusHistory.id),
+          ),
     );
-
-    return result.affectedRows > 0;
   }
 
   async findApplicationById(applicationId: number) {
@@ -239,8 +329,78 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
 
   // ─── Employer/Organization-scoped application methods ─────────────
 
+  private async fetchScreeningAnswers(
+    dbOrTx: DbOrTx,
+    applicationIds: number[],
+  ): Promise<Map<number, ApplicationScreeningAnswer[]>> {
+    const answersByApplication = new Map<
+      number,
+      ApplicationScreeningAnswer[]
+    >();
+
+    if (applicationIds.length === 0) {
+      return answersByApplication;
+    }
+
+    const rows = await dbOrTx
+      .select({
+        applicationId: applicationScreeningAnswers.applicationId,
+        questionId: applicationScreeningAnswers.questionId,
+        question: jobScreeningQuestions.question,
+        type: jobScreeningQuestions.type,
+        answer: applicationScreeningAnswers.answer,
+        knockoutTriggered: applicationScreeningAnswers.knockoutTriggered,
+      })
+      .from(applicationScreeningAnswers)
+      .innerJoin(
+        jobScreeningQuestions,
+        eq(jobScreeningQuestions.id, applicationScreeningAnswers.questionId),
+      )
+      .where(inArray(applicationScreeningAnswers.applicationId, applicationIds))
+      .orderBy(asc(jobScreeningQuestions.position));
+
+    for (const { applicationId, answer, ...row } of rows) {
+      const answers = answersByApplication.get(applicationId) ?? [];
+      answers.push({
+        ...row,
+        answer: toScreeningAnswerValue(row.type, answer),
+      });
+      answersByApplication.set(applicationId, answers);
+    }
+
+    return answersByApplication;
+  }
+
+  private async fetchTags(
+    dbOrTx: DbOrTx,
+    applicationIds: number[],
+  ): Promise<Map<number, string[]>> {
+    const tagsByApplication = new Map<number, string[]>();
+
+    if (applicationIds.length === 0) {
+      return tagsByApplication;
+    }
+
+    const rows = await dbOrTx
+      .select({
+        applicationId: applicationTags.applicationId,
+        tag: applicationTags.tag,
+      })
+      .from(applicationTags)
+      .where(inArray(applicationTags.applicationId, applicationIds))
+      .orderBy(asc(applicationTags.tag));
+
+    for (const { applicationId, tag } of rows) {
+      const tags = tagsByApplication.get(applicationId) ?? [];
+      tags.push(tag);
+      tagsByApplication.set(applicationId, tags);
+    }
+
+    return tagsByApplication;
+  }
+
   private async getJobApplicationWithDetails(
-    dbOrTx: typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0],
+    dbOrTx: DbOrTx,
     organizationId: number,
     jobId: number,
     applicationId: number,
@@ -267,6 +427,7 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
         experience: jobsDetails.experience,
         organizationId: organizations.id,
         organizationName: organizations.name,
+        screeningStatus: jobApplications.screeningStatus,
       })
       .from(jobApplications)
       .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
@@ -279,7 +440,18 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
         ),
       );
 
-    return application;
+    if (!application) {
+      return undefined;
+    }
+
+    const answers = await this.fetchScreeningAnswers(dbOrTx, [application.id]);
+    const tags = await this.fetchTags(dbOrTx, [application.id]);
+
+    return {
+      ...application,
+      screeningAnswers: answers.get(application.id) ?? [],
+      tags: tags.get(application.id) ?? [],
+    };
   }
 
   private async fetchJobApplication(
@@ -291,6 +463,7 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
     return await tx
       .select({
         id: jobApplications.id,
+        status: jobApplications.status,
       })
       .from(jobApplications)
       .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
@@ -330,14 +503,10 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
     organizationId: number,
     jobId: number,
     applicationId: number,
-    status:
-      | "pending"
-      | "reviewed"
-      | "shortlisted"
-      | "interviewing"
-      | "rejected"
-      | "hired"
-      | "withdrawn",
+    fromStatus: string,
+    status: string,
+    actorId: number,
+    reason?: string,
   ) {
     return withDbErrorHandling(async () => {
       return await db.transaction(async (tx) => {
@@ -352,15 +521,32 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
           throw new NotFoundError("jobApplications", applicationId);
         }
 
+        // Only moves the application on from the status the caller checked
+        // the transition against; a concurrent change wins
         const [result] = await tx
           .update(jobApplications)
           .set({ status })
-          .where(eq(jobApplications.id, applicationId));
+          .where(
+            and(
+              eq(jobApplications.id, applicationId),
+              eq(jobApplications.status, fromStatus),
+            ),
+          );
 
         if (result.affectedRows === 0) {
-          throw new DatabaseError("Failed to update job application status");
+          throw new ConflictError(
+            "The application's status changed while it was being updated",
+          );
         }
 
+        await tx.insert(applicationStatusHistory).values({
+          applicationId,
+          fromStatus,
+          toStatus: status,
+          changedBy: actorId,
+          reason: reason ?? null,
+        });
+
         const updatedApp = await this.getJobApplicationWithDetails(
           tx,
           organizationId,
@@ -470,7 +656,57 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
     });
   }
 
-  getJobApplicationsForOrganization(organizationId: number, jobId: number) {
+  findJobApplicationsForBulkAction(
+    organizationId: number,
+    jobId: number,
+    applicationIds: number[],
+  ) {
+    return withDbErrorHandling(async () => {
+      return await db
+        .select({
+          id: jobApplications.id,
+          status: jobApplications.status,
+          jobTitle: jobsDetails.title,
+          applicant: {
+            id: user.id,
+            email: user.email,
+            fullName: user.fullName,
+          },
+        })
+        .from(jobApplications)
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
+        .innerJoin(user, eq(user.id, jobApplications.applicantId))
+        .where(
+          and(
+            inArray(jobApplications.id, applicationIds),
+            eq(jobApplications.jobId, jobId),
+            eq(jobsDetails.employerId, organizationId),
+          ),
+        );
+    });
+  }
+
+  async addApplicationTag(
+    applicationId: number,
+    tag: string,
+    createdBy: number,
+  ): Promise<void> {
+    return withDbErrorHandling(async () => {
+      // Adding a tag the application already has is a no-op
+      await db
+        .insert(applicationTags)
+        .values({ applicationId, tag, createdBy })
+        .onDuplicateKeyUpdate({
+          set: { tag: sql`${applicationTags.tag}` },
+        });
+    });
+  }
+
+  getJobApplicationsForOrganization(
+    organizationId: number,
+    jobId: number,
+    options: JobApplicationsListOptions = {},
+  ) {
     return withDbErrorHandling(async () => {
       return await db.transaction(async (tx) => {
         const org = await tx
@@ -498,25 +734,86 @@ export class ApplicationsRepository implements ApplicationsRepositoryPort {
           return [];
         }
 
-        return tx.query.jobApplications.findMany({
-          where: eq(jobApplications.jobId, jobId),
-          columns: {
-            status: true,
-            coverLetter: true,
-            resumeUrl: true,
-            appliedAt: true,
-            reviewedAt: true,
-          },
-          with: {
+        const conditions: SQL[] = [eq(jobApplications.jobId, jobId)];
+
+        if (options.screeningStatus) {
+          conditions.push(
+            eq(jobApplications.screeningStatus, options.screeningStatus),
+          );
+        }
+
+        if (options.answer) {
+          conditions.push(
+            exists(
+              tx
+                .select({ id: applicationScreeningAnswers.id })
+                .from(applicationScreeningAnswers)
+                .where(
+                  and(
+                    eq(
+                      applicationScreeningAnswers.applicationId,
+                      jobApplications.id,
+                    ),
+                    eq(
+                      applicationScreeningAnswers.questionId,
+                      options.answer.questionId,
+                    ),
+                    eq(
+                      applicationScreeningAnswers.answer,
+                      options.answer.value,
+                    ),
+                  ),
+                ),
+            ),
+          );
+        }
+
+        const direction = options.order === "asc" ? asc : desc;
+        const orderBy: SQL[] = [];
+
+        if (options.sortByAnswer) {
+          const answer = sql`(select ${applicationScreeningAnswers.answer} from ${applicationScreeningAnswers} where ${applicationScreeningAnswers.applicationId} = ${jobApplications.id} and ${applicationScreeningAnswers.questionId} = ${options.sortByAnswer.questionId} limit 1)`;
+          orderBy.push(
+            direction(
+              options.sortByAnswer.numeric
+                ? sql`cast(${answer} as decimal(20, 4))`
+                : answer,
+            ),
+          );
+        }
+        orderBy.push(direction(jobApplications.appliedAt));
+
+        const applications = await tx
+          .select({
+            id: jobApplications.id,
+            status: jobApplications.status,
+            coverLetter: jobApplications.coverLetter,
+            resumeUrl: jobApplications.resumeUrl,
+            appliedAt: jobApplications.appliedAt,
+            reviewedAt: jobApplications.reviewedAt,
+            screeningStatus: jobApplications.screeningStatus,
             applicant: {
-              columns: {
-                id: true,
-                fullName: true,
-                email: true,
-              },
+              id: user.id,
+              fullName: user.fullName,
+              email: user.email,
             },
-          },
-        });
+          })
+          .from(jobApplications)
+          .innerJoin(user, eq(user.id, jobApplications.applicantId))
+          .where(and(...conditions))
+          .orderBy(...orderBy);
+
+        const applicationIds = applications.map(
+          (application) => application.id,
+        );
+        const answers = await this.fetchScreeningAnswers(tx, applicationIds);
+        const tags = await this.fetchTags(tx, applicationIds);
+
+        return applications.map((application) => ({
+          ...application,
+          screeningAnswers: answers.get(application.id) ?? [],
+          tags: tags.get(application.id) ?? [],
+        }));
       });
     });
   }
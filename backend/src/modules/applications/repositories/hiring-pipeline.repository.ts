@@ -0,0 +1,145 @@
+import { asc, eq } from "drizzle-orm";
+import {
+  hiringPipelines,
+  hiringPipelineStages,
+  hiringPipelineTransitions,
+  jobApplications,
+  jobsDetails,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { DatabaseError } from "@shared/errors";
+import type { HiringPipelineRepositoryPort } from "../ports/hiring-pipeline-repository.port";
+import type {
+  HiringPipeline,
+  UpdateHiringPipelineInput,
+} from "@/validations/hiringPipeline.validation";
+
+export class HiringPipelineRepository implements HiringPipelineRepositoryPort {
+  private async fetchPipeline(
+    dbOrTx: typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0],
+    organizationId: number,
+  ): Promise<HiringPipeline | null> {
+    const pipeline = await dbOrTx.query.hiringPipelines.findFirst({
+      where: eq(hiringPipelines.organizationId, organizationId),
+      with: {
+        stages: {
+          columns: {
+            key: true,
+            label: true,
+            position: true,
+            isTerminal: true,
+            allowsInterviews: true,
+          },
+          orderBy: [asc(hiringPipelineStages.position)],
+        },
+        transitions: {
+          columns: { fromStageKey: true, toStageKey: true },
+        },
+      },
+    });
+
+    if (!pipeline) {
+      return null;
+    }
+
+    return {
+      id: pipeline.id,
+      organizationId: pipeline.organizationId,
+      name: pipeline.name,
+      stages: pipeline.stages,
+      transitions: pipeline.transitions.map((t) => ({
+        from: t.fromStageKey,
+        to: t.toStageKey,
+      })),
+    };
+  }
+
+  async findByOrganizationId(organizationId: number) {
+    return withDbErrorHandling(
+      async () => await this.fetchPipeline(db, organizationId),
+    );
+  }
+
+  async upsertForOrganization(
+    organizationId: number,
+    data: UpdateHiringPipelineInput,
+  ) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select({ id: hiringPipelines.id })
+          .from(hiringPipelines)
+          .where(eq(hiringPipelines.organizationId, organizationId))
+          .limit(1);
+
+        let pipelineId: number;
+
+        if (existing) {
+          pipelineId = existing.id;
+          await tx
+            .update(hiringPipelines)
+            .set({ name: data.name })
+            .where(eq(hiringPipelines.id, pipelineId));
+          await tx
+            .delete(hiringPipelineTransitions)
+            .where(eq(hiringPipelineTransitions.pipelineId, pipelineId));
+          await tx
+            .delete(hiringPipelineStages)
+            .where(eq(hiringPipelineStages.pipelineId, pipelineId));
+        } else {
+          const [inserted] = await tx
+            .insert(hiringPipelines)
+            .values({ organizationId, name: data.name })
+            .$returningId();
+
+          if (!inserted) {
+            throw new DatabaseError("Failed to create hiring pipeline");
+          }
+          pipelineId = inserted.id;
+        }
+
+        await tx.insert(hiringPipelineStages).values(
+          data.stages.map((stage, position) => ({
+            pipelineId,
+            key: stage.key,
+            label: stage.label,
+            position,
+            isTerminal: stage.isTerminal,
+            allowsInterviews: stage.allowsInterviews,
+          })),
+        );
+
+        if (data.transitions.length > 0) {
+          await tx.insert(hiringPipelineTransitions).values(
+            data.transitions.map((transition) => ({
+              pipelineId,
+              fromStageKey: transition.from,
+              toStageKey: transition.to,
+            })),
+          );
+        }
+
+        const pipeline = await this.fetchPipeline(tx, organizationId);
+
+        if (!pipeline) {
+          throw new DatabaseError("Failed to retrieve updated hiring pipeline");
+        }
+
+        return pipeline;
+      });
+    });
+  }
+
+  async findStatusesInUse(organizationId: number) {
+    return withDbErrorHandling(async () => {
+      const rows = await db
+        .selectDistinct({ status: jobApplications.status })
+        .from(jobApplications)
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
+        .where(eq(jobsDetails.employerId, organizationId));
+
+      return rows.map((row) => row.status);
+    });
+  }
+}
@@ -1,9 +1,32 @@
-import { and, count, desc, eq, inArray, sql } from "drizzle-orm";
-import { jobsDetails, savedJobs } from "@/db/schema";
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNull,
+  lte,
+  sql,
+} from "drizzle-orm";
+import { jobsDetails, savedJobs, user } from "@/db/schema";
 import { db } from "@shared/db/connection";
 import { DatabaseError, NotFoundError } from "@shared/errors";
 import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
-import type { SavedJobRepositoryPort } from "../ports/saved-job-repository.port";
+import type {
+  JobSaver,
+  SavedJobRepositoryPort,
+} from "../ports/saved-job-repository.port";
+
+const jobSaverColumns = {
+  savedJobId: savedJobs.id,
+  userId: user.id,
+  email: user.email,
+  fullName: user.fullName,
+  jobId: jobsDetails.id,
+  jobTitle: jobsDetails.title,
+  applicationDeadline: jobsDetails.applicationDeadline,
+};
 
 export class SavedJobRepository implements SavedJobRepositoryPort {
   async getSavedJobsForUser(userId: number, page: number, limit: number) {
@@ -30,6 +53,7 @@ export class SavedJobRepository implements SavedJobRepositoryPort {
               compensationType: true,
               isRemote: true,
               isActive: true,
+              status: true,
               applicationDeadline: true,
             },
             with: {
@@ -46,13 +70,18 @@ export class SavedJobRepository implements SavedJobRepositoryPort {
         },
       });
 
-      const response = userSavedJobs.map((savedJob) => ({
-        ...savedJob,
-        isClosed: savedJob.job.applicationDeadline
+      // Jobs that stop taking applications stay in the list, flagged, so
+      // the candidate sees what happened to them
+      const response = userSavedJobs.map((savedJob) => {
+        const deadlinePassed = savedJob.job.applicationDeadline
           ? new Date(savedJob.job.applicationDeadline) < new Date()
-          : false,
-        isExpired: !savedJob.job.isActive,
-      }));
+          : false;
+        return {
+          ...savedJob,
+          isClosed: savedJob.job.status !== "published" || deadlinePassed,
+          isExpired: savedJob.job.status === "expired" || deadlinePassed,
+        };
+      });
 
       const [totalResult] = await db
         .select({ total: count() })
@@ -174,4 +203,59 @@ export class SavedJobRepository implements SavedJobRepositoryPort {
       return { success: true };
     });
   }
+
+  async findSaversOfJob(jobId: number): Promise<JobSaver[]> {
+    return withDbErrorHandling(async () => {
+      return await db
+        .select(jobSaverColumns)
+        .from(savedJobs)
+        .innerJoin(user, eq(savedJobs.userId, user.id))
+        .innerJoin(jobsDetails, eq(savedJobs.jobId, jobsDetails.id))
+        .where(and(eq(savedJobs.jobId, jobId), eq(user.status, "active")));
+    });
+  }
+
+  async findSaversDueDeadlineReminder(
+    now: Date,
+    until: Date,
+  ): Promise<JobSaver[]> {
+    return withDbErrorHandling(async () => {
+      return await db
+        .select(jobSaverColumns)
+        .from(savedJobs)
+        .innerJoin(user, eq(savedJobs.userId, user.id))
+        .innerJoin(jobsDetails, eq(savedJobs.jobId, jobsDetails.id))
+        .where(
+          and(
+            eq(jobsDetails.status, "published"),
+            gt(jobsDetails.applicationDeadline, now),
+            lte(jobsDetails.applicationDeadline, until),
+            isNull(savedJobs.deadlineReminderSentAt),
+            eq(user.status, "active"),
+          ),
+        );
+    });
+  }
+
+  async markDeadlineRemindersSent(savedJobIds: number[]): Promise<void> {
+    if (savedJobIds.length === 0) {
+      return;
+    }
+
+    return withDbErrorHandling(async () => {
+      await db
+        .update(savedJobs)
+        .set({ deadlineReminderSentAt: new Date() })
+        .where(inArray(savedJobs.id, savedJobIds));
+    });
+  }
+
+  async clearDeadlineReminders(jobId: number): Promise<void> {
+    return withDbErrorHandling(async () => {
+      await db
+        .update(savedJobs)
+        .set({ deadlineReminderSentAt: null })
+        .where(eq(savedJobs.jobId, jobId));
+    });
+  }
 }
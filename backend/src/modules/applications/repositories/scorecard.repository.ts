@@ -0,0 +1,301 @@
+import {
+  and,
+  asc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  applicationScorecards,
+  jobApplications,
+  jobsDetails,
+  organizationMembers,
+  scorecardCompetencies,
+  scorecardRatings,
+  scorecardTemplates,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { DatabaseError } from "@shared/errors";
+import type {
+  ScorecardRecord,
+  ScorecardRepositoryPort,
+} from "../ports/scorecard-repository.port";
+import type {
+  ScorecardTemplate,
+  SubmitScorecardInput,
+  UpdateScorecardTemplateInput,
+} from "@/validations/scorecard.validation";
+
+type DbOrTx = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class ScorecardRepository implements ScorecardRepositoryPort {
+  private async fetchTemplate(
+    dbOrTx: DbOrTx,
+    jobId: number,
+  ): Promise<ScorecardTemplate | null> {
+    const template = await dbOrTx.query.scorecardTemplates.findFirst({
+      where: eq(scorecardTemplates.jobId, jobId),
+      columns: { id: true, jobId: true, ratingScaleMax: true },
+      with: {
+        competencies: {
+          columns: { id: true, name: true, description: true, position: true },
+          orderBy: [asc(scorecardCompetencies.position)],
+        },
+      },
+    });
+
+    return template ?? null;
+  }
+
+  private async fetchScorecards(
+    dbOrTx: DbOrTx,
+    where: SQL,
+  ): Promise<ScorecardRecord[]> {
+    const rows = await dbOrTx.query.applicationScorecards.findMany({
+      where,
+      orderBy: [asc(applicationScorecards.id)],
+      with: {
+        reviewer: {
+          columns: { id: true, userId: true },
+          with: { user: { columns: { fullName: true } } },
+        },
+        ratings: { columns: { competencyId: true, rating: true } },
+      },
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      reviewer: {
+        memberId: row.reviewer.id,
+        userId: row.reviewer.userId,
+        fullName: row.reviewer.user.fullName,
+      },
+      recommendation: row.recommendation,
+      comments: row.comments,
+      ratings: row.ratings,
+      submittedAt: row.submittedAt,
+    }));
+  }
+
+  async jobBelongsToOrganization(jobId: number, organizationId: number) {
+    return withDbErrorHandling(async () => {
+      const [job] = await db
+        .select({ id: jobsDetails.id })
+        .from(jobsDetails)
+        .where(
+          and(
+            eq(jobsDetails.id, jobId),
+            eq(jobsDetails.employerId, organizationId),
+          ),
+        )
+        .limit(1);
+
+      return !!job;
+    });
+  }
+
+  async findTemplateByJobId(jobId: number) {
+    return withDbErrorHandling(async () => await this.fetchTemplate(db, jobId));
+  }
+
+  async upsertTemplate(jobId: number, data: UpdateScorecardTemplateInput) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select({ id: scorecardTemplates.id })
+          .from(scorecardTemplates)
+          .where(eq(scorecardTemplates.jobId, jobId))
+          .limit(1);
+
+        let templateId: number;
+
+        if (existing) {
+          templateId = existing.id;
+          await tx
+            .update(scorecardTemplates)
+            .set({ ratingScaleMax: data.ratingScaleMax })
+            .where(eq(scorecardTemplates.id, templateId));
+          await tx
+            .delete(scorecardCompetencies)
+            .where(eq(scorecardCompetencies.templateId, templateId));
+        } else {
+          const [inserted] = await tx
+            .insert(scorecardTemplates)
+            .values({ jobId, ratingScaleMax: data.ratingScaleMax })
+            .$returningId();
+
+          if (!inserted) {
+            throw new DatabaseError("Failed to create scorecard template");
+          }
+          templateId = inserted.id;
+        }
+
+        await tx.insert(scorecardCompetencies).values(
+          data.competencies.map((competency, position) => ({
+            templateId,
+            name: competency.name,
+            description: competency.description ?? null,
+            position,
+          })),
+        );
+
+        const template = await this.fetchTemplate(tx, jobId);
+
+        if (!template) {
+          throw new DatabaseError(
+            "Failed to retrieve updated scorecard template",
+          );
+        }
+
+        return template;
+      });
+    });
+  }
+
+  async hasSubmittedScorecards(jobId: number) {
+    return withDbErrorHandling(async () => {
+      const [row] = await db
+        .select({ id: applicationScorecards.id })
+        .from(applicationScorecards)
+        .innerJoin(
+          jobApplications,
+          eq(jobApplications.id, applicationScorecards.applicationId),
+        )
+        .where(
+          and(
+            eq(jobApplications.jobId, jobId),
+            isNotNull(applicationScorecards.submittedAt),
+          ),
+        )
+        .limit(1);
+
+      return !!row;
+    });
+  }
+
+  async findScorecardsByApplicationId(applicationId: number) {
+    return withDbErrorHandling(
+      async () =>
+        await this.fetchScorecards(
+          db,
+          eq(applicationScorecards.applicationId, applicationId),
+        ),
+    );
+  }
+
+  async findActiveMemberIds(organizationId: number, memberIds: number[]) {
+    if (memberIds.length === 0) {
+      return [];
+    }
+
+    return withDbErrorHandling(async () => {
+      const rows = await db
+        .select({ id: organizationMembers.id })
+        .from(organizationMembers)
+        .where(
+          and(
+            eq(organizationMembers.organizationId, organizationId),
+            eq(organizationMembers.isActive, true),
+            inArray(organizationMembers.id, memberIds),
+          ),
+        );
+
+      return rows.map((row) => row.id);
+    });
+  }
+
+  async findMemberIdForUser(organizationId: number, userId: number) {
+    return withDbErrorHandling(async () => {
+      const [member] = await db
+        .select({ id: organizationMembers.id })
+        .from(organizationMembers)
+        .where(
+          and(
+            eq(organizationMembers.organizationId, organizationId),
+            eq(organizationMembers.userId, userId),
+            eq(organizationMembers.isActive, true),
+          ),
+        )
+        .limit(1);
+
+      return member?.id ?? null;
+    });
+  }
+
+  async assignReviewers(
+    applicationId: number,
+    memberIds: number[],
+    assignedBy: number,
+  ) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        // Reviewers who are already assigned keep their scorecard untouched
+        await tx
+          .insert(applicationScorecards)
+          .values(
+            memberIds.map((reviewerId) => ({
+              applicationId,
+              reviewerId,
+              assignedBy,
+            })),
+          )
+          .onDuplicateKeyUpdate({
+            set: { reviewerId: sql`${applicationScorecards.reviewerId}` },
+          });
+
+        return await this.fetchScorecards(
+          tx,
+          eq(applicationScorecards.applicationId, applicationId),
+        );
+      });
+    });
+  }
+
+  async submitScorecard(scorecardId: number, data: SubmitScorecardInput) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        const [result] = await tx
+          .update(applicationScorecards)
+          .set({
+            recommendation: data.recommendation,
+            comments: data.comments ?? null,
+            submittedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(applicationScorecards.id, scorecardId),
+              isNull(applicationScorecards.submittedAt),
+            ),
+          );
+
+        // Submitted in the meantime; its ratings stay as they were
+        if (result.affectedRows === 0) {
+          return null;
+        }
+
+        await tx.insert(scorecardRatings).values(
+          data.ratings.map((rating) => ({
+            scorecardId,
+            competencyId: rating.competencyId,
+            rating: rating.rating,
+          })),
+        );
+
+        const [scorecard] = await this.fetchScorecards(
+          tx,
+          eq(applicationScorecards.id, scorecardId),
+        );
+
+        if (!scorecard) {
+          throw new DatabaseError("Failed to retrieve submitted scorecard");
+        }
+
+        return scorecard;
+      });
+    });
+  }
+}
@@ -9,12 +9,14 @@ import {
   applyForJobSchema,
   updateApplicationStatusSchema,
   getJobApplicationSchema,
+  withdrawApplicationSchema,
 } from "@/validations/jobApplications.validation";
 import {
   cacheMiddleware,
   invalidateCacheMiddleware,
 } from "@/middleware/cache.middleware";
 import { cacheKeys } from "@shared/infrastructure/cache-keys";
+import { REJECTED_APPLICATION_STATUS } from "@shared/constants/hiring-pipeline";
 import { uploadMiddleware } from "@/middleware/multer.middleware";
 
 export function createApplicationsRoutes({
@@ -26,7 +28,7 @@ export function createApplicationsRoutes({
 }: {
   authenticate: RequestHandler;
   profileGuards: Pick<ProfileGuards, "requireUserRole">;
-  orgGuards: Pick<OrganizationsGuards, "requireJobPostingRole">;
+  orgGuards: Pick<OrganizationsGuards, "requirePermission">;
   appGuards: ApplicationsGuards;
   controller: ApplicationsController;
 }): Router {
@@ -43,6 +45,16 @@ export function createApplicationsRoutes({
     controller.getUserApplications,
   );
 
+  // GET /jobs/me/applications/:applicationId/timeline
+  router.get(
+    "/me/applications/:applicationId/timeline",
+    authenticate,
+    profileGuards.requireUserRole,
+    validate(getJobApplicationSchema),
+    cacheMiddleware({ ttl: 300 }),
+    controller.getApplicationTimeline,
+  );
+
   // POST /jobs/:jobId/apply
   router.post(
     "/:jobId/apply",
@@ -57,19 +69,24 @@ export function createApplicationsRoutes({
   router.patch(
     "/applications/:applicationId/withdraw",
     authenticate,
-    validate(getJobApplicationSchema),
+    validate(withdrawApplicationSchema),
     profileGuards.requireUserRole,
     appGuards.ensureApplicationOwnership,
+    // The withdrawal shows up in the applicant's list and timeline as well as
+    // the employer's views, whose org/job ids are not part of this path.
+    invalidateCacheMiddleware(() => cacheKeys.seekerApplications),
+    invalidateCacheMiddleware(() => cacheKeys.organizations),
     controller.withdrawApplication,
   );
 
-  // Employer routes (require authentication + job posting role)
+  // Employer routes (require authentication + an applications permission)
 
   // GET /jobs/:jobId/applications
   router.get(
     "/:jobId/applications",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    appGuards.resolveJobOrganization,
+    orgGuards.requirePermission("applications.view"),
     validate(getJobSchema),
     cacheMiddleware({ ttl: 300 }),
     controller.getJobApplications,
@@ -79,7 +96,11 @@ export function createApplicationsRoutes({
   router.patch(
     "/applications/:applicationId/status",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    appGuards.resolveApplicationOrganization,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.requirePermission("applications.reject", {
+      when: (req) => req.body?.status === REJECTED_APPLICATION_STATUS,
+    }),
     validate(updateApplicationStatusSchema),
     invalidateCacheMiddleware(() => cacheKeys.seekerApplications),
     // This route's path has no :jobId/:organizationId, so the org-scoped
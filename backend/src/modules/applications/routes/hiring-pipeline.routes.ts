@@ -0,0 +1,57 @@
+import { Router, type RequestHandler } from "express";
+import type { HiringPipelineController } from "../controllers/hiring-pipeline.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import {
+  cacheMiddleware,
+  invalidateCacheMiddleware,
+} from "@/middleware/cache.middleware";
+import { cacheKeys } from "@shared/infrastructure/cache-keys";
+import {
+  getHiringPipelineSchema,
+  updateHiringPipelineSchema,
+} from "@/validations/hiringPipeline.validation";
+
+/**
+ * Creates routes for managing an organization's hiring pipeline.
+ * These routes are mounted under /api/organizations. Any member can read the
+ * pipeline; changing it requires the pipeline.manage permission.
+ */
+export function createHiringPipelineRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    "requirePermission" | "ensureIsOrganizationMember"
+  >;
+  controller: HiringPipelineController;
+}): Router {
+  const router = Router();
+
+  // GET /:organizationId/hiring-pipeline
+  router.get(
+    "/:organizationId/hiring-pipeline",
+    authenticate,
+    orgGuards.ensureIsOrganizationMember,
+    validate(getHiringPipelineSchema),
+    cacheMiddleware({ ttl: 300 }),
+    controller.getPipeline,
+  );
+
+  // PUT /:organizationId/hiring-pipeline
+  router.put(
+    "/:organizationId/hiring-pipeline",
+    authenticate,
+    orgGuards.requirePermission("pipeline.manage"),
+    validate(updateHiringPipelineSchema),
+    invalidateCacheMiddleware((req) =>
+      cacheKeys.orgHiringPipeline(String(req.params.organizationId)),
+    ),
+    controller.updatePipeline,
+  );
+
+  return router;
+}
@@ -1,5 +1,6 @@
 import { Router, type RequestHandler } from "express";
 import type { ApplicationsController } from "../controllers/applications.controller";
+import type { ApplicationBulkActionsController } from "../controllers/application-bulk-actions.controller";
 import type { OrganizationsGuards } from "@/modules/organizations";
 import validate from "@/middleware/validation.middleware";
 import {
@@ -7,31 +8,38 @@ import {
   invalidateCacheMiddleware,
 } from "@/middleware/cache.middleware";
 import { cacheKeys } from "@shared/infrastructure/cache-keys";
+import { REJECTED_APPLICATION_STATUS } from "@shared/constants/hiring-pipeline";
 import { auditRead } from "@/middleware/audit-read.middleware";
 import {
   jobApplicationManagementSchema,
-  jobApplicationsManagementSchema,
+  getJobApplicationsForOrganizationSchema,
   getOrganizationSchema,
   updateJobStatusInputSchema,
   createJobApplicationNoteSchema,
 } from "@/validations/organization.validation";
+import {
+  bulkActionsRejectApplications,
+  bulkApplicationActionsSchema,
+} from "@/validations/applicationBulkActions.validation";
 
 /**
  * Creates routes for employer/organization-scoped application management.
  * These routes are mounted under /api/organizations and handle the employer
- * view of job applications (viewing, status updates, notes).
+ * view of job applications (viewing, status updates, bulk actions, notes).
  */
 export function createOrgApplicationsRoutes({
   authenticate,
   orgGuards,
   controller,
+  bulkActionsController,
 }: {
   authenticate: RequestHandler;
   orgGuards: Pick<
     OrganizationsGuards,
-    "requireJobPostingRole" | "ensureIsOrganizationMember"
+    "requirePermission" | "ensureIsOrganizationMember"
   >;
   controller: ApplicationsController;
+  bulkActionsController: ApplicationBulkActionsController;
 }): Router {
   const router = Router();
 
@@ -39,22 +47,47 @@ export function createOrgApplicationsRoutes({
   router.get(
     "/:organizationId/jobs/:jobId/applications",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("applications.view"),
     orgGuards.ensureIsOrganizationMember,
-    validate(jobApplicationsManagementSchema),
+    validate(getJobApplicationsForOrganizationSchema),
     cacheMiddleware({ ttl: 300 }),
     controller.getJobApplicationsForOrganization,
   );
 
+  // POST /:organizationId/jobs/:jobId/applications/bulk
+  router.post(
+    "/:organizationId/jobs/:jobId/applications/bulk",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.requirePermission("applications.reject", {
+      when: (req) => bulkActionsRejectApplications(req.body),
+    }),
+    orgGuards.ensureIsOrganizationMember,
+    validate(bulkApplicationActionsSchema),
+    // Same invalidation as a single status change, which bulk actions include
+    invalidateCacheMiddleware(() => cacheKeys.seekerApplications),
+    invalidateCacheMiddleware((req) =>
+      cacheKeys.orgJobApplications(
+        String(req.params.organizationId),
+        String(req.params.jobId),
+      ),
+    ),
+    invalidateCacheMiddleware((req) =>
+      cacheKeys.orgApplications(String(req.params.organizationId)),
+    ),
+    bulkActionsController.runBulkActions,
+  );
+
   // GET /:organizationId/jobs/:jobId/applications/:applicationId
   router.get(
     "/:organizationId/jobs/:jobId/applications/:applicationId",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("applications.view"),
     orgGuards.ensureIsOrganizationMember,
     auditRead("read.application.by_employer", (req) => ({
       type: "application",
       id: String(req.params.applicationId),
+      organizationId: Number(req.params.organizationId),
     })),
     validate(jobApplicationManagementSchema),
     cacheMiddleware({ ttl: 300 }),
@@ -65,7 +98,10 @@ export function createOrgApplicationsRoutes({
   router.patch(
     "/:organizationId/jobs/:jobId/applications/:applicationId/status",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.requirePermission("applications.reject", {
+      when: (req) => req.body?.status === REJECTED_APPLICATION_STATUS,
+    }),
     orgGuards.ensureIsOrganizationMember,
     validate(updateJobStatusInputSchema),
     // A status change is reflected in BOTH the applicant's seeker list and
@@ -85,11 +121,27 @@ export function createOrgApplicationsRoutes({
     controller.updateOrgJobApplicationStatus,
   );
 
+  // GET /:organizationId/jobs/:jobId/applications/:applicationId/timeline
+  router.get(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/timeline",
+    authenticate,
+    orgGuards.requirePermission("applications.view"),
+    orgGuards.ensureIsOrganizationMember,
+    auditRead("read.application.by_employer", (req) => ({
+      type: "application",
+      id: String(req.params.applicationId),
+      organizationId: Number(req.params.organizationId),
+    })),
+    validate(jobApplicationManagementSchema),
+    cacheMiddleware({ ttl: 300 }),
+    controller.getOrgJobApplicationTimeline,
+  );
+
   // POST /:organizationId/jobs/:jobId/applications/:applicationId/notes
   router.post(
     "/:organizationId/jobs/:jobId/applications/:applicationId/notes",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("applications.manage"),
     orgGuards.ensureIsOrganizationMember,
     validate(createJobApplicationNoteSchema),
     controller.attachNoteToJobApplication,
@@ -99,7 +151,7 @@ export function createOrgApplicationsRoutes({
   router.get(
     "/:organizationId/jobs/:jobId/applications/:applicationId/notes",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("applications.view"),
     orgGuards.ensureIsOrganizationMember,
     validate(jobApplicationManagementSchema),
     cacheMiddleware({ ttl: 300 }),
@@ -110,7 +162,7 @@ export function createOrgApplicationsRoutes({
   router.get(
     "/:organizationId/applications",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("applications.view"),
     orgGuards.ensureIsOrganizationMember,
     validate(getOrganizationSchema),
     cacheMiddleware({ ttl: 300 }),
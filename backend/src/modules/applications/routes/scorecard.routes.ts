@@ -0,0 +1,106 @@
+import { Router, type RequestHandler } from "express";
+import type { ScorecardController } from "../controllers/scorecard.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import {
+  cacheMiddleware,
+  invalidateCacheMiddleware,
+} from "@/middleware/cache.middleware";
+import { cacheKeys } from "@shared/infrastructure/cache-keys";
+import {
+  assignScorecardReviewersSchema,
+  getApplicationScorecardsSchema,
+  getScorecardTemplateSchema,
+  submitScorecardSchema,
+  updateScorecardTemplateSchema,
+} from "@/validations/scorecard.validation";
+
+/**
+ * Creates routes for job scorecard templates and application scorecards.
+ * These routes are mounted under /api/organizations. Members who can post
+ * jobs manage templates and assign reviewers; any member assigned to an
+ * application can read and submit scorecards.
+ */
+export function createScorecardRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    "requirePermission" | "ensureIsOrganizationMember"
+  >;
+  controller: ScorecardController;
+}): Router {
+  const router = Router();
+
+  // Scorecards are nested under the org's application keys, which also
+  // cover the application detail carrying the scorecard summary.
+  const invalidateApplicationCaches = invalidateCacheMiddleware((req) =>
+    cacheKeys.orgJobApplications(
+      String(req.params.organizationId),
+      String(req.params.jobId),
+    ),
+  );
+
+  // GET /:organizationId/jobs/:jobId/scorecard-template
+  router.get(
+    "/:organizationId/jobs/:jobId/scorecard-template",
+    authenticate,
+    orgGuards.ensureIsOrganizationMember,
+    validate(getScorecardTemplateSchema),
+    cacheMiddleware({ ttl: 300 }),
+    controller.getTemplate,
+  );
+
+  // PUT /:organizationId/jobs/:jobId/scorecard-template
+  router.put(
+    "/:organizationId/jobs/:jobId/scorecard-template",
+    authenticate,
+    orgGuards.requirePermission("jobs.update"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(updateScorecardTemplateSchema),
+    invalidateCacheMiddleware((req) =>
+      cacheKeys.orgJobScorecardTemplate(
+        String(req.params.organizationId),
+        String(req.params.jobId),
+      ),
+    ),
+    invalidateApplicationCaches,
+    controller.updateTemplate,
+  );
+
+  // POST /:organizationId/jobs/:jobId/applications/:applicationId/scorecards/reviewers
+  router.post(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/scorecards/reviewers",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(assignScorecardReviewersSchema),
+    invalidateApplicationCaches,
+    controller.assignReviewers,
+  );
+
+  // GET /:organizationId/jobs/:jobId/applications/:applicationId/scorecards
+  router.get(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/scorecards",
+    authenticate,
+    orgGuards.ensureIsOrganizationMember,
+    validate(getApplicationScorecardsSchema),
+    cacheMiddleware({ ttl: 300 }),
+    controller.getScorecards,
+  );
+
+  // PUT /:organizationId/jobs/:jobId/applications/:applicationId/scorecards/me
+  router.put(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/scorecards/me",
+    authenticate,
+    orgGuards.ensureIsOrganizationMember,
+    validate(submitScorecardSchema),
+    invalidateApplicationCaches,
+    controller.submitScorecard,
+  );
+
+  return router;
+}
@@ -0,0 +1,252 @@
+import { fail, ok } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import { AppError, DatabaseError, ValidationError } from "@shared/errors";
+import logger from "@shared/logger";
+import { statusRegressionGuard } from "@/utils/update-status-guard";
+import { getApplicationStatusLabel } from "@shared/utils/application-status";
+import {
+  REJECTED_APPLICATION_STATUS,
+  type HiringPipelineDefinition,
+} from "@shared/constants/hiring-pipeline";
+import { REJECTION_MESSAGE_TEMPLATES } from "@shared/constants/rejection-templates";
+import type { EmailJobPayloads } from "@shared/events/queue-contracts";
+import type { ApplicationBulkActionsServicePort } from "../ports/application-bulk-actions-service.port";
+import type {
+  ApplicationsRepositoryPort,
+  BulkActionApplication,
+} from "../ports/applications-repository.port";
+import type { ScorecardRepositoryPort } from "../ports/scorecard-repository.port";
+import type { HiringPipelineServicePort } from "../ports/hiring-pipeline-service.port";
+import type {
+  BulkApplicationAction,
+  BulkApplicationActionResult,
+  BulkApplicationActionsInput,
+} from "@/validations/applicationBulkActions.validation";
+
+type StatusUpdateEmail = EmailJobPayloads["sendApplicationStatusUpdate"];
+
+export class ApplicationBulkActionsService
+  extends BaseService
+  implements ApplicationBulkActionsServicePort
+{
+  constructor(
+    private applicationsRepository: Pick<
+      ApplicationsRepositoryPort,
+      | "findJobApplicationsForBulkAction"
+      | "updateOrgJobApplicationStatus"
+      | "addApplicationTag"
+    >,
+    private scorecardRepository: Pick<
+      ScorecardRepositoryPort,
+      "findActiveMemberIds" | "assignReviewers"
+    >,
+    private hiringPipelineService: HiringPipelineServicePort,
+  ) {
+    super();
+  }
+
+  /**
+   * Runs the actions, in order, on each application of the job. Every
+   * application is handled on its own: a failed action stops the remaining
+   * actions for that application only. Applicants whose status changed are
+   * notified in a single batch once all applications are processed.
+   */
+  async runBulkActions(
+    organizationId: number,
+    jobId: number,
+    actorId: number,
+    input: BulkApplicationActionsInput,
+  ) {
+    try {
+      const pipeline =
+        await this.hiringPipelineService.getPipeline(organizationId);
+
+      if (pipeline.isFailure) {
+        return this.handleError(pipeline.error);
+      }
+
+      for (const action of input.actions) {
+        if (action.type !== "assign_reviewer") continue;
+
+        const activeIds = await this.scorecardRepository.findActiveMemberIds(
+          organizationId,
+          [action.memberId],
+        );
+        if (activeIds.length === 0) {
+          return fail(
+            new ValidationError(
+              "Reviewers must be active members of the organization",
+              { invalidMemberIds: [action.memberId] },
+            ),
+          );
+        }
+      }
+
+      const applications =
+        await this.applicationsRepository.findJobApplicationsForBulkAction(
+          organizationId,
+          jobId,
+          input.applicationIds,
+        );
+      const applicationsById = new Map(
+        applications.map((application) => [application.id, application]),
+      );
+
+      const results: BulkApplicationActionResult[] = [];
+      const emails: StatusUpdateEmail[] = [];
+
+      for (const applicationId of input.applicationIds) {
+        const application = applicationsById.get(applicationId);
+
+        if (!application) {
+          results.push({
+            applicationId,
+            success: false,
+            status: null,
+            failedAction: null,
+            error: "Application not found",
+          });
+          continue;
+        }
+
+        results.push(
+          await this.runActions(
+            organizationId,
+            jobId,
+            actorId,
+            application,
+            input.actions,
+            pipeline.value,
+            emails,
+          ),
+        );
+      }
+
+      await this.notifyApplicants(emails);
+
+      const succeeded = results.filter((result) => result.success).length;
+
+      return ok({
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to run bulk application actions"));
+    }
+  }
+
+  private async runActions(
+    organizationId: number,
+    jobId: number,
+    actorId: number,
+    application: BulkActionApplication,
+    actions: BulkApplicationAction[],
+    pipeline: HiringPipelineDefinition,
+    emails: StatusUpdateEmail[],
+  ): Promise<BulkApplicationActionResult> {
+    let status = application.status;
+
+    for (const action of actions) {
+      try {
+        switch (action.type) {
+          case "move_to_stage":
+          case "reject": {
+            const isReject = action.type === "reject";
+            const template = isReject
+              ? REJECTION_MESSAGE_TEMPLATES[action.templateKey]
+              : undefined;
+            const newStatus = statusRegressionGuard(
+              status,
+              isReject ? REJECTED_APPLICATION_STATUS : action.status,
+              pipeline,
+            );
+
+            await this.applicationsRepository.updateOrgJobApplicationStatus(
+              organizationId,
+              jobId,
+              application.id,
+              status,
+              newStatus,
+              actorId,
+              isReject ? template!.label : action.reason,
+            );
+
+            emails.push({
+              userId: application.applicant.id,
+              email: application.applicant.email,
+              fullName: application.applicant.fullName,
+              jobTitle: application.jobTitle,
+              oldStatus: status,
+              newStatus,
+              oldStatusLabel: getApplicationStatusLabel(status, pipeline),
+              newStatusLabel: getApplicationStatusLabel(newStatus, pipeline),
+              message: template?.message,
+              applicationId: application.id,
+            });
+            status = newStatus;
+            break;
+          }
+          case "add_tag":
+            await this.applicationsRepository.addApplicationTag(
+              application.id,
+              action.tag,
+              actorId,
+            );
+            break;
+          case "assign_reviewer":
+            await this.scorecardRepository.assignReviewers(
+              application.id,
+              [action.memberId],
+              actorId,
+            );
+            break;
+        }
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+
+        return {
+          applicationId: application.id,
+          success: false,
+          status,
+          failedAction: action.type,
+          error: error.message,
+        };
+      }
+    }
+
+    return {
+      applicationId: application.id,
+      success: true,
+      status,
+      failedAction: null,
+      error: null,
+    };
+  }
+
+  private async notifyApplicants(emails: StatusUpdateEmail[]): Promise<void> {
+    if (emails.length === 0) {
+      return;
+    }
+
+    try {
+      await queueService.addBulkJobs(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        emails.map((data) => ({ name: "sendApplicationStatusUpdate", data })),
+      );
+    } catch (error) {
+      // Log error but don't fail the bulk operation if notifications fail
+      logger.error(error, "Error Sending Bulk Application Status Emails");
+    }
+  }
+}
@@ -16,23 +16,43 @@ import { SecurityUtils } from "@shared/utils/security";
 import { StorageFolder } from "@shared/constants/storage-folders";
 import logger from "@shared/logger";
 import { statusRegressionGuard } from "@/utils/update-status-guard";
+import {
+  getApplicationStatusLabel,
+  isTerminalApplicationStatus,
+} from "@shared/utils/application-status";
+import {
+  REJECTED_APPLICATION_STATUS,
+  WITHDRAWN_APPLICATION_STATUS,
+  type HiringPipelineDefinition,
+} from "@shared/constants/hiring-pipeline";
 
 import type { ApplicationsServicePort } from "@/modules/applications";
 import type { ApplicationsRepositoryPort } from "@/modules/applications";
 import type { JobDetailsQueryPort } from "@/modules/applications/ports/job-details-query.port";
 import type { OrgMembershipQueryPort } from "@/modules/applications/ports/org-membership-query.port";
 import type { ApplicantQueryPort } from "@/modules/applications/ports/applicant-query.port";
+import type { HiringPipelineServicePort } from "@/modules/applications/ports/hiring-pipeline-service.port";
 import type { EventBusPort } from "@shared/events";
 import { createApplicationSubmittedEvent } from "@/modules/applications/events/application-submitted.event";
 import { createApplicationWithdrawnEvent } from "@/modules/applications/events/application-withdrawn.event";
+import { evaluateScreeningAnswers } from "@/modules/applications/helpers/screening-answers";
 
+import type { NewJobApplication } from "@/validations/job.validation";
 import type {
-  NewJobApplication,
-  UpdateJobApplication,
-} from "@/validations/job.validation";
-import type { ApplicationQueryParams } from "@/validations/jobApplications.validation";
+  ApplicantTimelineEntry,
+  ApplicationQueryParams,
+  ApplicationStatusHistoryRecord,
+  ApplicationTimelineEntry,
+  UpdateApplicationStatusInput,
+} from "@/validations/jobApplications.validation";
 import type { FileUploadJobData } from "@/validations/file.validation";
-import type { CreateJobApplicationNoteInputSchema } from "@/validations/organization.validation";
+import type {
+  CreateJobApplicationNoteInputSchema,
+  JobApplicationsForOrganizationQuery,
+  OrganizationJobApplicationsResponse,
+} from "@/validations/organization.validation";
+import type { ScreeningAnswerInput } from "@/validations/screeningQuestion.validation";
+import type { JobApplicationsListOptions } from "@/modules/applications/ports/applications-repository.port";
 
 export class ApplicationsService
   extends BaseService
@@ -44,6 +64,7 @@ export class ApplicationsService
     private orgMembershipQuery: OrgMembershipQueryPort,
     private applicantQuery: ApplicantQueryPort,
     private eventBus: EventBusPort,
+    private hiringPipelineService: HiringPipelineServicePort,
   ) {
     super();
   }
@@ -52,6 +73,7 @@ export class ApplicationsService
     applicationData: NewJobApplication & {
       resume?: Express.Multer.File;
       coverLetterFile?: Express.Multer.File;
+      screeningAnswers?: ScreeningAnswerInput[];
     },
     correlationId: string,
   ): Promise<Result<{ applicationId: number; message: string }, Error>> {
@@ -60,7 +82,13 @@ export class ApplicationsService
         applicationData.jobId,
       );
 
-      if (!jobData) {
+      // Suspended organizations' jobs are hidden from seekers
+      if (
+        !jobData ||
+        (await this.orgMembershipQuery.isOrganizationSuspended(
+          jobData.employerId,
+        ))
+      ) {
         return fail(new NotFoundError("Job", applicationData.jobId));
       }
       if (!jobData.isActive) {
@@ -85,19 +113,64 @@ export class ApplicationsService
         return fail(new ConflictError("You have already applied for this job"));
       }
 
-      const { resume, coverLetterFile, customAnswers, ...dbData } =
-        applicationData as typeof applicationData & {
-          customAnswers?: string;
-        };
+      const screeningQuestions =
+        await this.jobDetailsQuery.getScreeningQuestions(applicationData.jobId);
+      const screening = evaluateScreeningAnswers(
+        screeningQuestions,
+        applicationData.screeningAnswers ?? [],
+      );
+
+      if (screening.isFailure) {
+        return fail(screening.error);
+      }
+
+      let screeningStatus = screening.value.status;
+      let status: string | undefined;
+
+      if (screeningStatus === "rejected") {
+        const pipeline = await this.hiringPipelineService.getPipeline(
+          jobData.employerId,
+        );
+        const canReject =
+          pipeline.isSuccess &&
+          pipeline.value.stages.some(
+            (stage) => stage.key === REJECTED_APPLICATION_STATUS,
+          );
+
+        if (canReject) {
+          status = REJECTED_APPLICATION_STATUS;
+        } else {
+          screeningStatus = "flagged";
+        }
+      }
+
+      const {
+        resume,
+        coverLetterFile,
+        customAnswers,
+        screeningAnswers: _screeningAnswers,
+        ...dbData
+      } = applicationData as typeof applicationData & {
+        customAnswers?: string;
+      };
       const sanitizedData = {
         ...dbData,
+        ...(status && { status }),
+        screeningStatus,
         notes: customAnswers
           ? SecurityUtils.sanitizeInput(customAnswers)
           : undefined,
       };
 
-      const applicationId =
-        await this.applicationsRepository.createApplication(sanitizedData);
+      const applicationId = await this.applicationsRepository.createApplication(
+        sanitizedData,
+        {
+          answers: screening.value.answers,
+          statusReason: status
+            ? "Automatically rejected by a screening question"
+            : undefined,
+        },
+      );
 
       if (!applicationId) {
         return fail(new DatabaseError("Failed to submit application"));
@@ -249,11 +322,16 @@ export class ApplicationsService
     }
   }
 
+  /**
+   * Status update addressed by application id only. Resolves the job's
+   * organization and goes through the same pipeline validation, transition
+   * guard and status history as the organization-scoped update.
+   */
   async updateApplicationStatus(
     applicationId: number,
-    data: UpdateJobApplication,
+    data: UpdateApplicationStatusInput,
     requesterId: number,
-  ): Promise<Result<{ message: string }, Error>> {
+  ): Promise<Result<OrganizationJobApplicationsResponse, Error>> {
     try {
       const application =
         await this.applicationsRepository.findApplicationById(applicationId);
@@ -289,16 +367,18 @@ export class ApplicationsService
         );
       }
 
-      const success = await this.applicationsRepository.updateApplicationStatus(
+      return this.updateOrgJobApplicationStatus(
+        organization.id,
+        application.job.id,
         applicationId,
-        data,
+        data.status,
+        requesterId,
+        data.reason,
       );
-      if (!success) {
-        return fail(new DatabaseError("Failed to update application status"));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
       }
-
-      return ok({ message: "Application status updated successfully" });
-    } catch {
       return fail(new DatabaseError("Failed to update application status"));
     }
   }
@@ -306,6 +386,7 @@ export class ApplicationsService
   async withdrawApplication(
     applicationId: number,
     userId: number,
+    reason?: string,
   ): Promise<Result<{ message: string }, Error>> {
     try {
       const application =
@@ -315,17 +396,31 @@ export class ApplicationsService
         return fail(new NotFoundError("Application", applicationId));
       }
 
-      if (["hired", "rejected"].includes(application.application.status)) {
+      const pipeline = await this.hiringPipelineService.getPipeline(
+        application.job.employerId,
+      );
+
+      if (pipeline.isFailure) {
+        return this.handleError(pipeline.error);
+      }
+
+      if (
+        isTerminalApplicationStatus(
+          application.application.status,
+          pipeline.value,
+        )
+      ) {
         return fail(
           new ValidationError("Cannot withdraw application with final status"),
         );
       }
 
-      const success = await this.applicationsRepository.updateApplicationStatus(
+      const success = await this.applicationsRepository.withdrawApplication(
         applicationId,
-        {
-          status: "withdrawn",
-        },
+        application.application.status,
+        WITHDRAWN_APPLICATION_STATUS,
+        userId,
+        reason,
       );
 
       if (!success) {
@@ -359,11 +454,62 @@ export class ApplicationsService
       }
 
       return ok({ message: "Application withdrawn successfully" });
-    } catch {
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
       return fail(new DatabaseError("Failed to withdraw application"));
     }
   }
 
+  /**
+   * Returns the status timeline of one of the applicant's own applications.
+   * Employer actors are not identified and only the applicant's own reasons
+   * (e.g. for withdrawing) are included.
+   */
+  async getApplicationTimelineForApplicant(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<ApplicantTimelineEntry[], AppError>> {
+    try {
+      const application =
+        await this.applicationsRepository.findApplicationById(applicationId);
+
+      if (!application || application.application.applicantId !== userId) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const pipeline = await this.hiringPipelineService.getPipeline(
+        application.job.employerId,
+      );
+
+      if (pipeline.isFailure) {
+        return this.handleError(pipeline.error);
+      }
+
+      const history =
+        await this.applicationsRepository.findStatusHistory(applicationId);
+
+      return ok(
+        history.map((entry) => {
+          const byApplicant = entry.changedBy === userId;
+
+          return {
+            ...this.toStatusLabels(entry, pipeline.value),
+            changedBy: byApplicant ? "applicant" : "employer",
+            reason: byApplicant ? entry.reason : null,
+            createdAt: entry.createdAt,
+          };
+        }),
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to fetch application timeline"));
+    }
+  }
+
   async deleteJobApplicationsByUserId(
     userId: number,
   ): Promise<Result<null, Error>> {
@@ -408,14 +554,9 @@ export class ApplicationsService
     organizationId: number,
     jobId: number,
     applicationId: number,
-    status:
-      | "pending"
-      | "reviewed"
-      | "shortlisted"
-      | "interviewing"
-      | "rejected"
-      | "hired"
-      | "withdrawn",
+    status: string,
+    actorId: number,
+    reason?: string,
   ) {
     try {
       const application = await this.getJobApplicationForOrganization(
@@ -428,9 +569,17 @@ export class ApplicationsService
         return this.handleError(application.error);
       }
 
+      const pipeline =
+        await this.hiringPipelineService.getPipeline(organizationId);
+
+      if (pipeline.isFailure) {
+        return this.handleError(pipeline.error);
+      }
+
       const updateStatus = statusRegressionGuard(
         application.value.status,
         status,
+        pipeline.value,
       );
 
       const updatedApplication =
@@ -438,7 +587,10 @@ export class ApplicationsService
           organizationId,
           jobId,
           applicationId,
+          application.value.status,
           updateStatus,
+          actorId,
+          reason,
         );
 
       if (!updatedApplication) {
@@ -453,6 +605,7 @@ export class ApplicationsService
         application.value.status,
         updateStatus,
         updatedApplication.jobTitle,
+        pipeline.value,
       );
 
       return ok(updatedApplication);
@@ -464,11 +617,72 @@ export class ApplicationsService
     }
   }
 
+  async getApplicationTimelineForOrganization(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<ApplicationTimelineEntry[], AppError>> {
+    try {
+      const application = await this.getJobApplicationForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (application.isFailure) {
+        return this.handleError(application.error);
+      }
+
+      const pipeline =
+        await this.hiringPipelineService.getPipeline(organizationId);
+
+      if (pipeline.isFailure) {
+        return this.handleError(pipeline.error);
+      }
+
+      const history =
+        await this.applicationsRepository.findStatusHistory(applicationId);
+
+      return ok(
+        history.map((entry) => ({
+          id: entry.id,
+          ...this.toStatusLabels(entry, pipeline.value),
+          reason: entry.reason,
+          actor:
+            entry.changedBy !== null && entry.actorName !== null
+              ? { id: entry.changedBy, fullName: entry.actorName }
+              : null,
+          createdAt: entry.createdAt,
+        })),
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to fetch application timeline"));
+    }
+  }
+
+  private toStatusLabels(
+    entry: ApplicationStatusHistoryRecord,
+    pipeline: HiringPipelineDefinition,
+  ) {
+    return {
+      fromStatus: entry.fromStatus,
+      fromStatusLabel: entry.fromStatus
+        ? getApplicationStatusLabel(entry.fromStatus, pipeline)
+        : null,
+      toStatus: entry.toStatus,
+      toStatusLabel: getApplicationStatusLabel(entry.toStatus, pipeline),
+    };
+  }
+
   private async notifyApplicantOfStatusChange(
     applicationId: number,
     oldStatus: string,
     newStatus: string,
     jobTitle: string,
+    pipeline: HiringPipelineDefinition,
   ): Promise<void> {
     try {
       const applicationWithApplicant =
@@ -486,11 +700,14 @@ export class ApplicationsService
         QUEUE_NAMES.EMAIL_QUEUE,
         "sendApplicationStatusUpdate",
         {
+          userId: applicationWithApplicant.applicant.id,
           email: applicationWithApplicant.applicant.email,
           fullName: applicationWithApplicant.applicant.fullName,
           jobTitle,
           oldStatus,
           newStatus,
+          oldStatusLabel: getApplicationStatusLabel(oldStatus, pipeline),
+          newStatusLabel: getApplicationStatusLabel(newStatus, pipeline),
           applicationId,
         },
       );
@@ -556,12 +773,53 @@ export class ApplicationsService
   async getJobApplicationsForOrganization(
     organizationId: number,
     jobId: number,
+    query: Partial<JobApplicationsForOrganizationQuery> = {},
   ) {
     try {
+      const options: JobApplicationsListOptions = {
+        screeningStatus: query.screeningStatus,
+        order: query.order,
+      };
+
+      if (query.questionId || query.sortByQuestionId) {
+        const questions =
+          await this.jobDetailsQuery.getScreeningQuestions(jobId);
+        const findQuestion = (id: number) =>
+          questions.find((question) => question.id === id);
+
+        if (query.questionId && query.answer) {
+          const question = findQuestion(query.questionId);
+          if (!question) {
+            return fail(
+              new ValidationError(
+                "questionId is not a screening question of this job",
+              ),
+            );
+          }
+          options.answer = { questionId: question.id, value: query.answer };
+        }
+
+        if (query.sortByQuestionId) {
+          const question = findQuestion(query.sortByQuestionId);
+          if (!question) {
+            return fail(
+              new ValidationError(
+                "sortByQuestionId is not a screening question of this job",
+              ),
+            );
+          }
+          options.sortByAnswer = {
+            questionId: question.id,
+            numeric: question.type === "numeric",
+          };
+        }
+      }
+
       const applications =
         await this.applicationsRepository.getJobApplicationsForOrganization(
           organizationId,
           jobId,
+          options,
         );
       if (!applications) {
         return fail(new NotFoundError("No applications found for this job"));
@@ -0,0 +1,79 @@
+import { fail, ok } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import { AppError, ConflictError, DatabaseError } from "@shared/errors";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
+import type { HiringPipelineServicePort } from "../ports/hiring-pipeline-service.port";
+import type { HiringPipelineRepositoryPort } from "../ports/hiring-pipeline-repository.port";
+import type { UpdateHiringPipelineInput } from "@/validations/hiringPipeline.validation";
+
+export class HiringPipelineService
+  extends BaseService
+  implements HiringPipelineServicePort
+{
+  constructor(private hiringPipelineRepository: HiringPipelineRepositoryPort) {
+    super();
+  }
+
+  /**
+   * Returns the organization's hiring pipeline. Organizations that have not
+   * saved a pipeline of their own use the default one (reported with a null id).
+   */
+  async getPipeline(organizationId: number) {
+    try {
+      const pipeline =
+        await this.hiringPipelineRepository.findByOrganizationId(
+          organizationId,
+        );
+
+      return ok(
+        pipeline ?? {
+          id: null,
+          organizationId,
+          ...DEFAULT_HIRING_PIPELINE,
+        },
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to fetch hiring pipeline"));
+    }
+  }
+
+  async updatePipeline(
+    organizationId: number,
+    data: UpdateHiringPipelineInput,
+  ) {
+    try {
+      // Stage keys are stored on applications, so a stage can only be removed
+      // once no application of the organization sits in it.
+      const statusesInUse =
+        await this.hiringPipelineRepository.findStatusesInUse(organizationId);
+      const stageKeys = new Set(data.stages.map((stage) => stage.key));
+      const removedInUse = statusesInUse.filter(
+        (status) => !stageKeys.has(status),
+      );
+
+      if (removedInUse.length > 0) {
+        return fail(
+          new ConflictError(
+            "Cannot remove stages that still contain applications",
+            { stages: removedInUse },
+          ),
+        );
+      }
+
+      return ok(
+        await this.hiringPipelineRepository.upsertForOrganization(
+          organizationId,
+          data,
+        ),
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to update hiring pipeline"));
+    }
+  }
+}
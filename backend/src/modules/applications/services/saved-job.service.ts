@@ -1,16 +1,30 @@
 import { fail, ok } from "@shared/result";
 import { BaseService } from "@shared/base/base.service";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
 import type { SavedJobServicePort } from "../ports/saved-job-service.port";
-import type { SavedJobRepositoryPort } from "../ports/saved-job-repository.port";
+import type {
+  JobSaver,
+  SavedJobRepositoryPort,
+} from "../ports/saved-job-repository.port";
+import type { SavedJobUpdateDetails } from "@shared/ports/email-service.port";
 import { AppError, DatabaseError, ValidationError } from "@shared/errors";
+import type { EventBusPort } from "@shared/events";
+import { createJobSavedEvent } from "../events/job-saved.event";
 
 export class SavedJobService
   extends BaseService
   implements SavedJobServicePort
 {
   static readonly MAX_SAVED_JOBS = 50;
+  static readonly DEADLINE_REMINDER_DAYS = 3;
 
-  constructor(private savedJobRepository: SavedJobRepositoryPort) {
+  constructor(
+    private savedJobRepository: SavedJobRepositoryPort,
+    private eventBus: EventBusPort,
+  ) {
     super();
   }
 
@@ -31,7 +45,11 @@ export class SavedJobService
     }
   }
 
-  async saveJobForCurrentUser(userId: number, jobId: number) {
+  async saveJobForCurrentUser(
+    userId: number,
+    jobId: number,
+    correlationId?: string,
+  ) {
     try {
       const savedCount = await this.savedJobRepository.countSavedJobs(userId);
 
@@ -43,7 +61,23 @@ export class SavedJobService
         );
       }
 
-      return ok(await this.savedJobRepository.saveJobForUser(userId, jobId));
+      const alreadySaved = await this.savedJobRepository.isJobSavedByUser(
+        userId,
+        jobId,
+      );
+      const result = await this.savedJobRepository.saveJobForUser(
+        userId,
+        jobId,
+      );
+
+      // Re-saving only refreshes savedAt, so it is not counted as a new save
+      if (!alreadySaved) {
+        await this.eventBus.publish(
+          createJobSavedEvent({ jobId, userId }, correlationId),
+        );
+      }
+
+      return ok(result);
     } catch (error) {
       if (error instanceof AppError) {
         return this.handleError(error);
@@ -73,4 +107,85 @@ export class SavedJobService
       return fail(new DatabaseError("Failed to unsave job"));
     }
   }
+
+  async notifySaversOfJobUpdate(jobId: number, changedFields: string[]) {
+    try {
+      // A moved deadline earns savers a fresh reminder
+      if (changedFields.includes("applicationDeadline")) {
+        await this.savedJobRepository.clearDeadlineReminders(jobId);
+      }
+
+      const savers = await this.savedJobRepository.findSaversOfJob(jobId);
+      for (const saver of savers) {
+        await this.queueSavedJobUpdate(saver, {
+          update: "changed",
+          changedFields,
+        });
+      }
+
+      return ok(savers.length);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to notify saved job update"));
+    }
+  }
+
+  async notifySaversOfJobClosure(jobId: number) {
+    try {
+      const savers = await this.savedJobRepository.findSaversOfJob(jobId);
+      for (const saver of savers) {
+        await this.queueSavedJobUpdate(saver, { update: "closed" });
+      }
+
+      return ok(savers.length);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to notify saved job closure"));
+    }
+  }
+
+  async sendDeadlineReminders(now = new Date()) {
+    try {
+      const until = new Date(
+        now.getTime() + SavedJobService.DEADLINE_REMINDER_DAYS * 86_400_000,
+      );
+      const savers =
+        await this.savedJobRepository.findSaversDueDeadlineReminder(now, until);
+
+      for (const saver of savers) {
+        await this.queueSavedJobUpdate(saver, {
+          update: "deadline",
+          applicationDeadline: saver.applicationDeadline?.toISOString() ?? null,
+        });
+      }
+      await this.savedJobRepository.markDeadlineRemindersSent(
+        savers.map((saver) => saver.savedJobId),
+      );
+
+      return ok(savers.length);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to send deadline reminders"));
+    }
+  }
+
+  private async queueSavedJobUpdate(
+    saver: JobSaver,
+    details: Omit<SavedJobUpdateDetails, "jobId" | "jobTitle">,
+  ) {
+    await queueService.addJob(QUEUE_NAMES.EMAIL_QUEUE, "sendSavedJobUpdate", {
+      userId: saver.userId,
+      email: saver.email,
+      fullName: saver.fullName,
+      jobId: saver.jobId,
+      jobTitle: saver.jobTitle,
+      ...details,
+    });
+  }
 }
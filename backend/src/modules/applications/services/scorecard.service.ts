@@ -0,0 +1,418 @@
+import { fail, ok } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import {
+  AppError,
+  ConflictError,
+  DatabaseError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "@shared/errors";
+import type { ScorecardServicePort } from "../ports/scorecard-service.port";
+import type {
+  ScorecardRecord,
+  ScorecardRepositoryPort,
+} from "../ports/scorecard-repository.port";
+import type { ApplicationsRepositoryPort } from "../ports/applications-repository.port";
+import type {
+  ApplicationScorecard,
+  ScorecardRecommendation,
+  ScorecardSummary,
+  ScorecardTemplate,
+  SubmitScorecardInput,
+  UpdateScorecardTemplateInput,
+} from "@/validations/scorecard.validation";
+
+const RECOMMENDATIONS: ScorecardRecommendation[] = [
+  "strong_no",
+  "no",
+  "yes",
+  "strong_yes",
+];
+
+const roundRating = (value: number) => Math.round(value * 100) / 100;
+
+export class ScorecardService
+  extends BaseService
+  implements ScorecardServicePort
+{
+  constructor(
+    private scorecardRepository: ScorecardRepositoryPort,
+    private applicationsRepository: Pick<
+      ApplicationsRepositoryPort,
+      "getJobApplicationForOrganization"
+    >,
+  ) {
+    super();
+  }
+
+  async getTemplate(organizationId: number, jobId: number) {
+    try {
+      if (
+        !(await this.scorecardRepository.jobBelongsToOrganization(
+          jobId,
+          organizationId,
+        ))
+      ) {
+        return fail(new NotFoundError("Job", jobId));
+      }
+
+      const template =
+        await this.scorecardRepository.findTemplateByJobId(jobId);
+
+      if (!template) {
+        return fail(new NotFoundError("Scorecard template for job", jobId));
+      }
+
+      return ok(template);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to fetch scorecard template"));
+    }
+  }
+
+  async updateTemplate(
+    organizationId: number,
+    jobId: number,
+    data: UpdateScorecardTemplateInput,
+  ) {
+    try {
+      if (
+        !(await this.scorecardRepository.jobBelongsToOrganization(
+          jobId,
+          organizationId,
+        ))
+      ) {
+        return fail(new NotFoundError("Job", jobId));
+      }
+
+      // Submitted ratings reference the template's competencies and scale, so
+      // the template is frozen once the first scorecard is in.
+      if (await this.scorecardRepository.hasSubmittedScorecards(jobId)) {
+        return fail(
+          new ConflictError(
+            "Cannot change the scorecard template once scorecards have been submitted",
+          ),
+        );
+      }
+
+      return ok(await this.scorecardRepository.upsertTemplate(jobId, data));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to update scorecard template"));
+    }
+  }
+
+  async assignReviewers(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    actorId: number,
+    memberIds: number[],
+  ) {
+    try {
+      await this.applicationsRepository.getJobApplicationForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      const uniqueIds = [...new Set(memberIds)];
+      const activeIds = await this.scorecardRepository.findActiveMemberIds(
+        organizationId,
+        uniqueIds,
+      );
+
+      if (activeIds.length !== uniqueIds.length) {
+        const found = new Set(activeIds);
+        return fail(
+          new ValidationError(
+            "Reviewers must be active members of the organization",
+            { invalidMemberIds: uniqueIds.filter((id) => !found.has(id)) },
+          ),
+        );
+      }
+
+      const scorecards = await this.scorecardRepository.assignReviewers(
+        applicationId,
+        uniqueIds,
+        actorId,
+      );
+      const viewerMemberId = await this.scorecardRepository.findMemberIdForUser(
+        organizationId,
+        actorId,
+      );
+
+      return ok(this.toVisibleScorecards(scorecards, viewerMemberId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to assign scorecard reviewers"));
+    }
+  }
+
+  /**
+   * Lists the application's scorecards. Reviewers who have not submitted
+   * their own scorecard only see who else is reviewing, not what they scored.
+   */
+  async getScorecards(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    viewerId: number,
+  ) {
+    try {
+      await this.applicationsRepository.getJobApplicationForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      const [scorecards, viewerMemberId] = await Promise.all([
+        this.scorecardRepository.findScorecardsByApplicationId(applicationId),
+        this.scorecardRepository.findMemberIdForUser(organizationId, viewerId),
+      ]);
+
+      return ok(this.toVisibleScorecards(scorecards, viewerMemberId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to fetch scorecards"));
+    }
+  }
+
+  async submitScorecard(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    viewerId: number,
+    data: SubmitScorecardInput,
+  ) {
+    try {
+      await this.applicationsRepository.getJobApplicationForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      const template =
+        await this.scorecardRepository.findTemplateByJobId(jobId);
+
+      if (!template) {
+        return fail(
+          new ValidationError("This job does not have a scorecard template"),
+        );
+      }
+
+      const [scorecards, viewerMemberId] = await Promise.all([
+        this.scorecardRepository.findScorecardsByApplicationId(applicationId),
+        this.scorecardRepository.findMemberIdForUser(organizationId, viewerId),
+      ]);
+
+      const own = scorecards.find(
+        (scorecard) => scorecard.reviewer.memberId === viewerMemberId,
+      );
+
+      if (!own) {
+        return fail(
+          new ForbiddenError("You are not assigned to review this application"),
+        );
+      }
+
+      if (own.submittedAt !== null) {
+        return fail(
+          new ConflictError("You have already submitted your scorecard"),
+        );
+      }
+
+      const invalidRatings = this.validateRatings(template, data);
+      if (invalidRatings) {
+        return fail(invalidRatings);
+      }
+
+      const submitted = await this.scorecardRepository.submitScorecard(
+        own.id,
+        data,
+      );
+
+      if (!submitted) {
+        return fail(
+          new ConflictError("You have already submitted your scorecard"),
+        );
+      }
+
+      return ok(this.toApplicationScorecard(submitted, true));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to submit scorecard"));
+    }
+  }
+
+  /**
+   * Aggregates the submitted scorecards of an application. The averages and
+   * recommendation breakdown are withheld from reviewers who still owe their
+   * own scorecard. Callers must already have checked that the application
+   * belongs to the organization's job.
+   */
+  async getSummary(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    viewerId: number,
+  ) {
+    try {
+      const [template, scorecards, viewerMemberId] = await Promise.all([
+        this.scorecardRepository.findTemplateByJobId(jobId),
+        this.scorecardRepository.findScorecardsByApplicationId(applicationId),
+        this.scorecardRepository.findMemberIdForUser(organizationId, viewerId),
+      ]);
+
+      const submitted = scorecards.filter((s) => s.submittedAt !== null);
+      const resultsVisible = this.canSeeResults(scorecards, viewerMemberId);
+
+      const summary: ScorecardSummary = {
+        ratingScaleMax: template?.ratingScaleMax ?? null,
+        reviewersAssigned: scorecards.length,
+        scorecardsSubmitted: submitted.length,
+        resultsVisible,
+        averageRating: null,
+        competencies: null,
+        recommendations: null,
+      };
+
+      if (!resultsVisible) {
+        return ok(summary);
+      }
+
+      const allRatings = submitted.flatMap((s) => s.ratings);
+      summary.averageRating =
+        allRatings.length > 0
+          ? roundRating(
+              allRatings.reduce((sum, r) => sum + r.rating, 0) /
+                allRatings.length,
+            )
+          : null;
+
+      summary.competencies = (template?.competencies ?? []).map(
+        (competency) => {
+          const ratings = allRatings
+            .filter((r) => r.competencyId === competency.id)
+            .map((r) => r.rating);
+
+          return {
+            competencyId: competency.id,
+            name: competency.name,
+            averageRating:
+              ratings.length > 0
+                ? roundRating(
+                    ratings.reduce((sum, r) => sum + r, 0) / ratings.length,
+                  )
+                : null,
+            ratingsCount: ratings.length,
+          };
+        },
+      );
+
+      const recommendations = Object.fromEntries(
+        RECOMMENDATIONS.map((recommendation) => [recommendation, 0]),
+      ) as Record<ScorecardRecommendation, number>;
+      for (const scorecard of submitted) {
+        if (scorecard.recommendation) {
+          recommendations[scorecard.recommendation] += 1;
+        }
+      }
+      summary.recommendations = recommendations;
+
+      return ok(summary);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to fetch scorecard summary"));
+    }
+  }
+
+  private canSeeResults(
+    scorecards: ScorecardRecord[],
+    viewerMemberId: number | null,
+  ) {
+    const own = scorecards.find(
+      (scorecard) => scorecard.reviewer.memberId === viewerMemberId,
+    );
+
+    return !own || own.submittedAt !== null;
+  }
+
+  private toVisibleScorecards(
+    scorecards: ScorecardRecord[],
+    viewerMemberId: number | null,
+  ) {
+    const resultsVisible = this.canSeeResults(scorecards, viewerMemberId);
+
+    return scorecards.map((scorecard) =>
+      this.toApplicationScorecard(
+        scorecard,
+        resultsVisible || scorecard.reviewer.memberId === viewerMemberId,
+      ),
+    );
+  }
+
+  private toApplicationScorecard(
+    scorecard: ScorecardRecord,
+    visible: boolean,
+  ): ApplicationScorecard {
+    const submitted = scorecard.submittedAt !== null;
+    const showContent = visible && submitted;
+
+    return {
+      id: scorecard.id,
+      reviewer: scorecard.reviewer,
+      status: submitted ? "submitted" : "pending",
+      recommendation: showContent ? scorecard.recommendation : null,
+      comments: showContent ? scorecard.comments : null,
+      ratings: showContent ? scorecard.ratings : null,
+      submittedAt: scorecard.submittedAt,
+    };
+  }
+
+  private validateRatings(
+    template: ScorecardTemplate,
+    data: SubmitScorecardInput,
+  ): ValidationError | null {
+    const competencyIds = new Set(template.competencies.map((c) => c.id));
+    const ratedIds = new Set(data.ratings.map((r) => r.competencyId));
+
+    const unknown = [...ratedIds].filter((id) => !competencyIds.has(id));
+    const missing = [...competencyIds].filter((id) => !ratedIds.has(id));
+
+    if (unknown.length > 0 || missing.length > 0) {
+      return new ValidationError(
+        "Every competency of the scorecard must be rated exactly once",
+        { unknownCompetencyIds: unknown, missingCompetencyIds: missing },
+      );
+    }
+
+    const outOfScale = data.ratings.filter(
+      (r) => r.rating > template.ratingScaleMax,
+    );
+
+    if (outOfScale.length > 0) {
+      return new ValidationError(
+        `Ratings must be between 1 and ${template.ratingScaleMax}`,
+        {
+          competencyIds: outOfScale.map((r) => r.competencyId),
+        },
+      );
+    }
+
+    return null;
+  }
+}
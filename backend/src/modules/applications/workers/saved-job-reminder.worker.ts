@@ -0,0 +1,81 @@
+import { Job as BullMqJob } from "bullmq";
+import logger from "@shared/logger";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import type { SavedJobServicePort } from "../ports/saved-job-service.port";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+
+interface SavedJobReminderWorkerDeps {
+  savedJobService: Pick<SavedJobServicePort, "sendDeadlineReminders">;
+}
+
+function createReminderHandler(deps: SavedJobReminderWorkerDeps) {
+  return async function sendSavedJobDeadlineRemindersWorker(
+    _job: BullMqJob,
+  ): Promise<{ sent: number }> {
+    logger.info("Starting saved job deadline reminders");
+
+    const result = await deps.savedJobService.sendDeadlineReminders();
+    if (result.isFailure) {
+      logger.error(
+        { error: result.error.message },
+        "Saved job deadline reminders failed",
+      );
+      throw result.error;
+    }
+
+    logger.info(
+      { sent: result.value },
+      "Saved job deadline reminders completed",
+    );
+    return { sent: result.value };
+  };
+}
+
+/**
+ * Reminds candidates of saved jobs whose application deadline is three days
+ * away or less, once a day.
+ */
+export function createSavedJobReminderWorker(
+  deps: SavedJobReminderWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<{ correlationId: string }, { sent: number }>(
+        QUEUE_NAMES.SAVED_JOB_REMINDER_QUEUE,
+        createReminderHandler(deps),
+        {
+          concurrency: 1,
+        },
+      );
+
+      logger.info("Saved job reminder worker initialized");
+    },
+
+    async scheduleJobs() {
+      try {
+        await queueService.addJob(
+          QUEUE_NAMES.SAVED_JOB_REMINDER_QUEUE,
+          "sendSavedJobDeadlineReminders",
+          {},
+          {
+            repeat: {
+              pattern: "0 14 * * *",
+            },
+            jobId: "saved-job-deadline-reminders",
+          },
+        );
+        logger.info(
+          "Scheduled saved job deadline reminders (daily at 2:00 PM UTC)",
+        );
+      } catch (error) {
+        logger.error(
+          { error },
+          "Failed to schedule saved job deadline reminders",
+        );
+      }
+    },
+  };
+}
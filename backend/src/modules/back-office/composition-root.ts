@@ -0,0 +1,25 @@
+import type { OrganizationJobsIndexPort } from "./ports/organization-jobs-index.port";
+
+import { BackOfficeRepository } from "./repositories/back-office.repository";
+import { BackOfficeService } from "./services/back-office.service";
+import { BackOfficeController } from "./controllers/back-office.controller";
+
+/**
+ * Composition root for the Back Office module.
+ *
+ * Its repository reads the platform-wide tables directly, and its routes are
+ * guarded by the identity module's platform staff guard, passed in at route
+ * mounting. The job-board module keeps a suspended organization's jobs out
+ * of search through the organizationJobsIndex adapter.
+ */
+export function createBackOfficeModule(deps: {
+  organizationJobsIndex: OrganizationJobsIndexPort;
+}) {
+  const repository = new BackOfficeRepository();
+  const service = new BackOfficeService(repository, deps.organizationJobsIndex);
+  const controller = new BackOfficeController(service);
+
+  return { controller, service };
+}
+
+export type BackOfficeModule = ReturnType<typeof createBackOfficeModule>;
@@ -0,0 +1,253 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import { auditService } from "@shared/audit";
+import type { ApiResponse, PaginatedResponse } from "@shared/types";
+
+import type { BackOfficeServicePort } from "@/modules/back-office/ports/back-office-service.port";
+import {
+  backOfficeApplicationsQuerySchema,
+  backOfficeJobsQuerySchema,
+  backOfficeOrganizationsQuerySchema,
+  backOfficeUsersQuerySchema,
+  type BackOfficeApplication,
+  type BackOfficeJob,
+  type BackOfficeOrganization,
+  type BackOfficeOrganizationDetail,
+  type BackOfficeUser,
+  type BackOfficeUserDetail,
+  type GetBackOfficeApplicationSchema,
+  type GetBackOfficeJobSchema,
+  type GetBackOfficeOrganizationSchema,
+  type GetBackOfficeUserSchema,
+  type SuspendOrganizationSchema,
+} from "@/validations/backOffice.validation";
+
+/**
+ * Controller for the platform staff back office. Reads are audited by the
+ * `auditRead` middleware on each route; suspensions are audited here.
+ */
+export class BackOfficeController extends BaseController {
+  constructor(private backOfficeService: BackOfficeServicePort) {
+    super();
+  }
+
+  searchUsers = async (
+    req: Request,
+    res: Response<PaginatedResponse<BackOfficeUser>>,
+  ) => {
+    // Validation middleware does not apply defaults or coercion to req.query
+    const query = backOfficeUsersQuerySchema.parse(req.query);
+
+    const result = await this.backOfficeService.searchUsers(query);
+
+    if (result.isSuccess) {
+      const { items, pagination } = result.value;
+      return this.sendPaginatedResponse<BackOfficeUser>(
+        res,
+        items,
+        pagination,
+        "Users retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getUser = async (
+    req: Request<GetBackOfficeUserSchema["params"]>,
+    res: Response<ApiResponse<BackOfficeUserDetail>>,
+  ) => {
+    const result = await this.backOfficeService.getUser(
+      parseInt(req.params.userId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(res, result.value, "User retrieved successfully");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  searchOrganizations = async (
+    req: Request,
+    res: Response<PaginatedResponse<BackOfficeOrganization>>,
+  ) => {
+    const query = backOfficeOrganizationsQuerySchema.parse(req.query);
+
+    const result = await this.backOfficeService.searchOrganizations(query);
+
+    if (result.isSuccess) {
+      const { items, pagination } = result.value;
+      return this.sendPaginatedResponse<BackOfficeOrganization>(
+        res,
+        items,
+        pagination,
+        "Organizations retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getOrganization = async (
+    req: Request<GetBackOfficeOrganizationSchema["params"]>,
+    res: Response<ApiResponse<BackOfficeOrganizationDetail>>,
+  ) => {
+    const result = await this.backOfficeService.getOrganization(
+      parseInt(req.params.organizationId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Organization retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  suspendOrganization = async (
+    req: Request<
+      SuspendOrganizationSchema["params"],
+      ApiResponse<BackOfficeOrganizationDetail>,
+      SuspendOrganizationSchema["body"]
+    >,
+    res: Response<ApiResponse<BackOfficeOrganizationDetail>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result =
+      await this.backOfficeService.suspendOrganization(organizationId);
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "read.admin",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization", id: organizationId, organizationId },
+        action: "suspended organization",
+        outcome: "success",
+        metadata: { reason: req.body.reason },
+      });
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Organization suspended successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  reinstateOrganization = async (
+    req: Request<GetBackOfficeOrganizationSchema["params"]>,
+    res: Response<ApiResponse<BackOfficeOrganizationDetail>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result =
+      await this.backOfficeService.reinstateOrganization(organizationId);
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "read.admin",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization", id: organizationId, organizationId },
+        action: "reinstated organization",
+        outcome: "success",
+      });
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Organization reinstated successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  searchJobs = async (
+    req: Request,
+    res: Response<PaginatedResponse<BackOfficeJob>>,
+  ) => {
+    const query = backOfficeJobsQuerySchema.parse(req.query);
+
+    const result = await this.backOfficeService.searchJobs(query);
+
+    if (result.isSuccess) {
+      const { items, pagination } = result.value;
+      return this.sendPaginatedResponse<BackOfficeJob>(
+        res,
+        items,
+        pagination,
+        "Jobs retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getJob = async (
+    req: Request<GetBackOfficeJobSchema["params"]>,
+    res: Response<ApiResponse<BackOfficeJob>>,
+  ) => {
+    const result = await this.backOfficeService.getJob(
+      parseInt(req.params.jobId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(res, result.value, "Job retrieved successfully");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  searchApplications = async (
+    req: Request,
+    res: Response<PaginatedResponse<BackOfficeApplication>>,
+  ) => {
+    const query = backOfficeApplicationsQuerySchema.parse(req.query);
+
+    const result = await this.backOfficeService.searchApplications(query);
+
+    if (result.isSuccess) {
+      const { items, pagination } = result.value;
+      return this.sendPaginatedResponse<BackOfficeApplication>(
+        res,
+        items,
+        pagination,
+        "Applications retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getApplication = async (
+    req: Request<GetBackOfficeApplicationSchema["params"]>,
+    res: Response<ApiResponse<BackOfficeApplication>>,
+  ) => {
+    const result = await this.backOfficeService.getApplication(
+      parseInt(req.params.applicationId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Application retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -0,0 +1,9 @@
+export { createBackOfficeModule } from "./composition-root";
+export type { BackOfficeModule } from "./composition-root";
+export { createBackOfficeRoutes } from "./routes/back-office.routes";
+export type { BackOfficeServicePort } from "./ports/back-office-service.port";
+export type {
+  BackOfficeRepositoryPort,
+  Paginated,
+} from "./ports/back-office-repository.port";
+export type { OrganizationJobsIndexPort } from "./ports/organization-jobs-index.port";
@@ -0,0 +1,57 @@
+import type { PaginationMeta } from "@shared/types";
+import type {
+  BackOfficeApplication,
+  BackOfficeApplicationsQuery,
+  BackOfficeJob,
+  BackOfficeJobsQuery,
+  BackOfficeOrganization,
+  BackOfficeOrganizationDetail,
+  BackOfficeOrganizationsQuery,
+  BackOfficeUser,
+  BackOfficeUserDetail,
+  BackOfficeUsersQuery,
+} from "@/validations/backOffice.validation";
+
+export interface Paginated<T> {
+  items: T[];
+  pagination: PaginationMeta;
+}
+
+type Filters<Q> = Omit<Q, "page" | "limit">;
+type Page = { page: number; limit: number };
+
+/**
+ * Platform-wide reads for the back office. Unlike the module repositories,
+ * nothing here is scoped to the requesting user or their organizations.
+ */
+export interface BackOfficeRepositoryPort {
+  searchUsers(
+    filters: Filters<BackOfficeUsersQuery>,
+    page: Page,
+  ): Promise<Paginated<BackOfficeUser>>;
+  findUserDetail(userId: number): Promise<BackOfficeUserDetail | null>;
+
+  searchOrganizations(
+    filters: Filters<BackOfficeOrganizationsQuery>,
+    page: Page,
+  ): Promise<Paginated<BackOfficeOrganization>>;
+  findOrganizationDetail(
+    organizationId: number,
+  ): Promise<BackOfficeOrganizationDetail | null>;
+  updateOrganizationStatus(
+    organizationId: number,
+    status: "active" | "suspended",
+  ): Promise<void>;
+
+  searchJobs(
+    filters: Filters<BackOfficeJobsQuery>,
+    page: Page,
+  ): Promise<Paginated<BackOfficeJob>>;
+  findJob(jobId: number): Promise<BackOfficeJob | null>;
+
+  searchApplications(
+    filters: Filters<BackOfficeApplicationsQuery>,
+    page: Page,
+  ): Promise<Paginated<BackOfficeApplication>>;
+  findApplication(applicationId: number): Promise<BackOfficeApplication | null>;
+}
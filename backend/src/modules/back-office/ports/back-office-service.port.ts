@@ -0,0 +1,54 @@
+import type { Result } from "@shared/result";
+import type { Paginated } from "./back-office-repository.port";
+import type {
+  BackOfficeApplication,
+  BackOfficeApplicationsQuery,
+  BackOfficeJob,
+  BackOfficeJobsQuery,
+  BackOfficeOrganization,
+  BackOfficeOrganizationDetail,
+  BackOfficeOrganizationsQuery,
+  BackOfficeUser,
+  BackOfficeUserDetail,
+  BackOfficeUsersQuery,
+} from "@/validations/backOffice.validation";
+
+export interface BackOfficeServicePort {
+  searchUsers(
+    query: BackOfficeUsersQuery,
+  ): Promise<Result<Paginated<BackOfficeUser>, Error>>;
+  getUser(userId: number): Promise<Result<BackOfficeUserDetail, Error>>;
+
+  searchOrganizations(
+    query: BackOfficeOrganizationsQuery,
+  ): Promise<Result<Paginated<BackOfficeOrganization>, Error>>;
+  getOrganization(
+    organizationId: number,
+  ): Promise<Result<BackOfficeOrganizationDetail, Error>>;
+
+  /**
+   * Suspends an active organization. Its members keep their accounts but
+   * lose every organization permission, and its jobs are hidden from
+   * seekers, until it is reinstated.
+   */
+  suspendOrganization(
+    organizationId: number,
+  ): Promise<Result<BackOfficeOrganizationDetail, Error>>;
+
+  /** Returns a suspended organization to active and its jobs to search. */
+  reinstateOrganization(
+    organizationId: number,
+  ): Promise<Result<BackOfficeOrganizationDetail, Error>>;
+
+  searchJobs(
+    query: BackOfficeJobsQuery,
+  ): Promise<Result<Paginated<BackOfficeJob>, Error>>;
+  getJob(jobId: number): Promise<Result<BackOfficeJob, Error>>;
+
+  searchApplications(
+    query: BackOfficeApplicationsQuery,
+  ): Promise<Result<Paginated<BackOfficeApplication>, Error>>;
+  getApplication(
+    applicationId: number,
+  ): Promise<Result<BackOfficeApplication, Error>>;
+}
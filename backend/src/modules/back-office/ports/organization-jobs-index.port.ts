@@ -0,0 +1,10 @@
+/**
+ * Port for keeping an organization's jobs in step with its status from the
+ * back-office module's perspective. A suspended organization's jobs leave
+ * search, and come back when it is reinstated.
+ *
+ * Implemented by an adapter in src/shared/adapters/.
+ */
+export interface OrganizationJobsIndexPort {
+  reindexOrganizationJobs(organizationId: number): Promise<void>;
+}
@@ -0,0 +1,370 @@
+import { and, count, desc, eq, inArray, like, or, type SQL } from "drizzle-orm";
+import {
+  jobApplications,
+  jobsDetails,
+  organizationMembers,
+  organizations,
+  user,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { calculatePagination, countRecords } from "@shared/db/utils";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { SecurityUtils } from "@shared/utils/security";
+import type { BackOfficeRepositoryPort } from "../ports/back-office-repository.port";
+import type {
+  BackOfficeApplicationsQuery,
+  BackOfficeJob,
+  BackOfficeJobsQuery,
+  BackOfficeOrganizationsQuery,
+  BackOfficeUsersQuery,
+} from "@/validations/backOffice.validation";
+
+type Page = { page: number; limit: number };
+
+const userColumns = {
+  id: user.id,
+  fullName: user.fullName,
+  email: user.email,
+  emailVerified: user.emailVerified,
+  status: user.status,
+  intent: user.intent,
+  platformRole: user.platformRole,
+  lastLoginAt: user.lastLoginAt,
+  createdAt: user.createdAt,
+};
+
+const organizationColumns = {
+  id: organizations.id,
+  name: organizations.name,
+  city: organizations.city,
+  state: organizations.state,
+  status: organizations.status,
+  subscriptionTier: organizations.subscriptionTier,
+  subscriptionStatus: organizations.subscriptionStatus,
+  createdAt: organizations.createdAt,
+};
+
+const jobColumns = {
+  id: jobsDetails.id,
+  title: jobsDetails.title,
+  status: jobsDetails.status,
+  employerId: jobsDetails.employerId,
+  employerName: organizations.name,
+  city: jobsDetails.city,
+  state: jobsDetails.state,
+  isRemote: jobsDetails.isRemote,
+  createdAt: jobsDetails.createdAt,
+};
+
+const applicationColumns = {
+  id: jobApplications.id,
+  jobId: jobApplications.jobId,
+  jobTitle: jobsDetails.title,
+  employerId: jobsDetails.employerId,
+  applicantId: jobApplications.applicantId,
+  applicantName: user.fullName,
+  applicantEmail: user.email,
+  status: jobApplications.status,
+  screeningStatus: jobApplications.screeningStatus,
+  appliedAt: jobApplications.appliedAt,
+};
+
+function containsTerm(term: string) {
+  return `%${SecurityUtils.escapeLikePattern(term)}%`;
+}
+
+/**
+ * Platform-wide reads for the back office. Queries span the tables of
+ * several modules because the back office has no owner scoping to apply;
+ * the only write is an organization's suspension status.
+ */
+export class BackOfficeRepository implements BackOfficeRepositoryPort {
+  async searchUsers(
+    filters: Omit<BackOfficeUsersQuery, "page" | "limit">,
+    { page, limit }: Page,
+  ) {
+    return await withDbErrorHandling(async () => {
+      const conditions: SQL[] = [];
+      if (filters.q) {
+        const term = containsTerm(filters.q);
+        conditions.push(or(like(user.fullName, term), like(user.email, term))!);
+      }
+      if (filters.status) conditions.push(eq(user.status, filters.status));
+      if (filters.intent) conditions.push(eq(user.intent, filters.intent));
+      if (filters.platformRole) {
+        conditions.push(eq(user.platformRole, filters.platformRole));
+      }
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [total, items] = await Promise.all([
+        countRecords(user, where),
+        db
+          .select(userColumns)
+          .from(user)
+          .where(where)
+          .orderBy(desc(user.createdAt), desc(user.id))
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      return { items, pagination: calculatePagination(total, page, limit) };
+    });
+  }
+
+  async findUserDetail(userId: number) {
+    return await withDbErrorHandling(async () => {
+      const [found] = await db
+        .select({
+          ...userColumns,
+          deletedAt: user.deletedAt,
+          onboardingStatus: user.onboardingStatus,
+        })
+        .from(user)
+        .where(eq(user.id, userId));
+      if (!found) return null;
+
+      const [memberships, applicationCount] = await Promise.all([
+        db
+          .select({
+            organizationId: organizationMembers.organizationId,
+            organizationName: organizations.name,
+            role: organizationMembers.role,
+            isActive: organizationMembers.isActive,
+          })
+          .from(organizationMembers)
+          .innerJoin(
+            organizations,
+            eq(organizations.id, organizationMembers.organizationId),
+          )
+          .where(eq(organizationMembers.userId, userId)),
+        countRecords(jobApplications, eq(jobApplications.applicantId, userId)),
+      ]);
+
+      return { ...found, memberships, applicationCount };
+    });
+  }
+
+  async searchOrganizations(
+    filters: Omit<BackOfficeOrganizationsQuery, "page" | "limit">,
+    { page, limit }: Page,
+  ) {
+    return await withDbErrorHandling(async () => {
+      const conditions: SQL[] = [];
+      if (filters.q) {
+        conditions.push(like(organizations.name, containsTerm(filters.q)));
+      }
+      if (filters.status) {
+        conditions.push(eq(organizations.status, filters.status));
+      }
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [total, rows] = await Promise.all([
+        countRecords(organizations, where),
+        db
+          .select(organizationColumns)
+          .from(organizations)
+          .where(where)
+          .orderBy(desc(organizations.createdAt), desc(organizations.id))
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      const memberCounts = await this.countMembers(rows.map((row) => row.id));
+      const items = rows.map((row) => ({
+        ...row,
+        memberCount: memberCounts.get(row.id) ?? 0,
+      }));
+
+      return { items, pagination: calculatePagination(total, page, limit) };
+    });
+  }
+
+  async findOrganizationDetail(organizationId: number) {
+    return await withDbErrorHandling(async () => {
+      const [found] = await db
+        .select({
+          ...organizationColumns,
+          url: organizations.url,
+          subscriptionEndDate: organizations.subscriptionEndDate,
+        })
+        .from(organizations)
+        .where(eq(organizations.id, organizationId));
+      if (!found) return null;
+
+      const [members, jobCounts] = await Promise.all([
+        db
+          .select({
+            userId: organizationMembers.userId,
+            fullName: user.fullName,
+            email: user.email,
+            role: organizationMembers.role,
+            isActive: organizationMembers.isActive,
+          })
+          .from(organizationMembers)
+          .innerJoin(user, eq(user.id, organizationMembers.userId))
+          .where(eq(organizationMembers.organizationId, organizationId)),
+        db
+          .select({ status: jobsDetails.status, count: count() })
+          .from(jobsDetails)
+          .where(eq(jobsDetails.employerId, organizationId))
+          .groupBy(jobsDetails.status),
+      ]);
+
+      return {
+        ...found,
+        memberCount: members.length,
+        members,
+        jobCounts: Object.fromEntries(
+          jobCounts.map((row) => [row.status, row.count]),
+        ),
+      };
+    });
+  }
+
+  async updateOrganizationStatus(
+    organizationId: number,
+    status: "active" | "suspended",
+  ) {
+    await withDbErrorHandling(async () => {
+      await db
+        .update(organizations)
+        .set({ status })
+        .where(eq(organizations.id, organizationId));
+    });
+  }
+
+  async searchJobs(
+    filters: Omit<BackOfficeJobsQuery, "page" | "limit">,
+    { page, limit }: Page,
+  ) {
+    return await withDbErrorHandling(async () => {
+      const conditions: SQL[] = [];
+      if (filters.q) {
+        conditions.push(like(jobsDetails.title, containsTerm(filters.q)));
+      }
+      if (filters.status) {
+        conditions.push(eq(jobsDetails.status, filters.status));
+      }
+      if (filters.employerId) {
+        conditions.push(eq(jobsDetails.employerId, filters.employerId));
+      }
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [total, rows] = await Promise.all([
+        countRecords(jobsDetails, where),
+        db
+          .select(jobColumns)
+          .from(jobsDetails)
+          .innerJoin(
+            organizations,
+            eq(organizations.id, jobsDetails.employerId),
+          )
+          .where(where)
+          .orderBy(desc(jobsDetails.createdAt), desc(jobsDetails.id))
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      const items = await this.withApplicationCounts(rows);
+      return { items, pagination: calculatePagination(total, page, limit) };
+    });
+  }
+
+  async findJob(jobId: number) {
+    return await withDbErrorHandling(async () => {
+      const rows = await db
+        .select(jobColumns)
+        .from(jobsDetails)
+        .innerJoin(organizations, eq(organizations.id, jobsDetails.employerId))
+        .where(eq(jobsDetails.id, jobId));
+
+      const [job] = await this.withApplicationCounts(rows);
+      return job ?? null;
+    });
+  }
+
+  async searchApplications(
+    filters: Omit<BackOfficeApplicationsQuery, "page" | "limit">,
+    { page, limit }: Page,
+  ) {
+    return await withDbErrorHandling(async () => {
+      const conditions: SQL[] = [];
+      if (filters.jobId) {
+        conditions.push(eq(jobApplications.jobId, filters.jobId));
+      }
+      if (filters.applicantId) {
+        conditions.push(eq(jobApplications.applicantId, filters.applicantId));
+      }
+      if (filters.status) {
+        conditions.push(eq(jobApplications.status, filters.status));
+      }
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [total, items] = await Promise.all([
+        countRecords(jobApplications, where),
+        db
+          .select(applicationColumns)
+          .from(jobApplications)
+          .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
+          .innerJoin(user, eq(user.id, jobApplications.applicantId))
+          .where(where)
+          .orderBy(desc(jobApplications.appliedAt), desc(jobApplications.id))
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      return { items, pagination: calculatePagination(total, page, limit) };
+    });
+  }
+
+  async findApplication(applicationId: number) {
+    return await withDbErrorHandling(async () => {
+      const [application] = await db
+        .select(applicationColumns)
+        .from(jobApplications)
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
+        .innerJoin(user, eq(user.id, jobApplications.applicantId))
+        .where(eq(jobApplications.id, applicationId));
+
+      return application ?? null;
+    });
+  }
+
+  private async countMembers(organizationIds: number[]) {
+    if (organizationIds.length === 0) return new Map<number, number>();
+
+    const rows = await db
+      .select({
+        organizationId: organizationMembers.organizationId,
+        count: count(),
+      })
+      .from(organizationMembers)
+      .where(inArray(organizationMembers.organizationId, organizationIds))
+      .groupBy(organizationMembers.organizationId);
+
+    return new Map(rows.map((row) => [row.organizationId, row.count]));
+  }
+
+  private async withApplicationCounts(
+    rows: Omit<BackOfficeJob, "applicationCount">[],
+  ): Promise<BackOfficeJob[]> {
+    if (rows.length === 0) return [];
+
+    const counts = await db
+      .select({ jobId: jobApplications.jobId, count: count() })
+      .from(jobApplications)
+      .where(
+        inArray(
+          jobApplications.jobId,
+          rows.map((row) => row.id),
+        ),
+      )
+      .groupBy(jobApplications.jobId);
+    const countsByJob = new Map(counts.map((row) => [row.jobId, row.count]));
+
+    return rows.map((row) => ({
+      ...row,
+      applicationCount: countsByJob.get(row.id) ?? 0,
+    }));
+  }
+}
@@ -0,0 +1,188 @@
+import { Router, type RequestHandler } from "express";
+
+import type { BackOfficeController } from "../controllers/back-office.controller";
+import type { IdentityGuards } from "@/modules/identity";
+import validate from "@/middleware/validation.middleware";
+import { auditRead } from "@/middleware/audit-read.middleware";
+import {
+  getBackOfficeApplicationSchema,
+  getBackOfficeJobSchema,
+  getBackOfficeOrganizationSchema,
+  getBackOfficeUserSchema,
+  listBackOfficeApplicationsSchema,
+  listBackOfficeJobsSchema,
+  listBackOfficeOrganizationsSchema,
+  listBackOfficeUsersSchema,
+  reinstateOrganizationSchema,
+  suspendOrganizationSchema,
+} from "@/validations/backOffice.validation";
+
+/**
+ * Back-office routes for platform staff. Every route requires the staff
+ * platform role; organization roles grant nothing here. Nothing is cached:
+ * staff must see the current state of what they inspect.
+ */
+export function createBackOfficeRoutes({
+  authenticate,
+  identityGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  identityGuards: Pick<IdentityGuards, "requirePlatformStaff">;
+  controller: BackOfficeController;
+}): Router {
+  const router = Router();
+
+  /**
+   * Searches every user account on the platform.
+   *
+   * @route GET /users
+   */
+  router.get(
+    "/users",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", () => ({ type: "user" })),
+    validate(listBackOfficeUsersSchema),
+    controller.searchUsers,
+  );
+
+  /**
+   * Returns a user with their organization memberships and application count.
+   *
+   * @route GET /users/:userId
+   */
+  router.get(
+    "/users/:userId",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", (req) => ({
+      type: "user",
+      id: String(req.params.userId),
+    })),
+    validate(getBackOfficeUserSchema),
+    controller.getUser,
+  );
+
+  /**
+   * Searches every organization, including suspended ones.
+   *
+   * @route GET /organizations
+   */
+  router.get(
+    "/organizations",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", () => ({ type: "organization" })),
+    validate(listBackOfficeOrganizationsSchema),
+    controller.searchOrganizations,
+  );
+
+  /**
+   * Returns an organization with its members and job counts by status.
+   *
+   * @route GET /organizations/:organizationId
+   */
+  router.get(
+    "/organizations/:organizationId",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", (req) => ({
+      type: "organization",
+      id: String(req.params.organizationId),
+    })),
+    validate(getBackOfficeOrganizationSchema),
+    controller.getOrganization,
+  );
+
+  /**
+   * Suspends an organization. Its members keep their accounts but lose
+   * every organization permission until it is reinstated.
+   *
+   * @route PATCH /organizations/:organizationId/suspend
+   */
+  router.patch(
+    "/organizations/:organizationId/suspend",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(suspendOrganizationSchema),
+    controller.suspendOrganization,
+  );
+
+  /**
+   * Lifts an organization's suspension.
+   *
+   * @route PATCH /organizations/:organizationId/reinstate
+   */
+  router.patch(
+    "/organizations/:organizationId/reinstate",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(reinstateOrganizationSchema),
+    controller.reinstateOrganization,
+  );
+
+  /**
+   * Searches jobs of every status across all organizations.
+   *
+   * @route GET /jobs
+   */
+  router.get(
+    "/jobs",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", () => ({ type: "job" })),
+    validate(listBackOfficeJobsSchema),
+    controller.searchJobs,
+  );
+
+  /**
+   * Returns a job with its employer and application count.
+   *
+   * @route GET /jobs/:jobId
+   */
+  router.get(
+    "/jobs/:jobId",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", (req) => ({
+      type: "job",
+      id: String(req.params.jobId),
+    })),
+    validate(getBackOfficeJobSchema),
+    controller.getJob,
+  );
+
+  /**
+   * Searches applications across all jobs.
+   *
+   * @route GET /applications
+   */
+  router.get(
+    "/applications",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", () => ({ type: "application" })),
+    validate(listBackOfficeApplicationsSchema),
+    controller.searchApplications,
+  );
+
+  /**
+   * Returns an application with its job and applicant.
+   *
+   * @route GET /applications/:applicationId
+   */
+  router.get(
+    "/applications/:applicationId",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", (req) => ({
+      type: "application",
+      id: String(req.params.applicationId),
+    })),
+    validate(getBackOfficeApplicationSchema),
+    controller.getApplication,
+  );
+
+  return router;
+}
@@ -0,0 +1,188 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import {
+  AppError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+} from "@shared/errors";
+import logger from "@shared/logger";
+
+import type { BackOfficeRepositoryPort } from "../ports/back-office-repository.port";
+import type { BackOfficeServicePort } from "../ports/back-office-service.port";
+import type { OrganizationJobsIndexPort } from "../ports/organization-jobs-index.port";
+import type {
+  BackOfficeApplicationsQuery,
+  BackOfficeJobsQuery,
+  BackOfficeOrganizationsQuery,
+  BackOfficeUsersQuery,
+} from "@/validations/backOffice.validation";
+
+export class BackOfficeService
+  extends BaseService
+  implements BackOfficeServicePort
+{
+  constructor(
+    private backOfficeRepository: BackOfficeRepositoryPort,
+    private organizationJobsIndex: OrganizationJobsIndexPort,
+  ) {
+    super();
+  }
+
+  async searchUsers({ page, limit, ...filters }: BackOfficeUsersQuery) {
+    try {
+      return ok(
+        await this.backOfficeRepository.searchUsers(filters, { page, limit }),
+      );
+    } catch (error) {
+      return this.failWith(error, "Failed to search users");
+    }
+  }
+
+  async getUser(userId: number) {
+    try {
+      const found = await this.backOfficeRepository.findUserDetail(userId);
+      if (!found) {
+        return fail(new NotFoundError("User", userId));
+      }
+      return ok(found);
+    } catch (error) {
+      return this.failWith(error, "Failed to retrieve user");
+    }
+  }
+
+  async searchOrganizations({
+    page,
+    limit,
+    ...filters
+  }: BackOfficeOrganizationsQuery) {
+    try {
+      return ok(
+        await this.backOfficeRepository.searchOrganizations(filters, {
+          page,
+          limit,
+        }),
+      );
+    } catch (error) {
+      return this.failWith(error, "Failed to search organizations");
+    }
+  }
+
+  async getOrganization(organizationId: number) {
+    try {
+      const found =
+        await this.backOfficeRepository.findOrganizationDetail(organizationId);
+      if (!found) {
+        return fail(new NotFoundError("Organization", organizationId));
+      }
+      return ok(found);
+    } catch (error) {
+      return this.failWith(error, "Failed to retrieve organization");
+    }
+  }
+
+  async suspendOrganization(organizationId: number) {
+    return this.changeOrganizationStatus(organizationId, "active", "suspended");
+  }
+
+  async reinstateOrganization(organizationId: number) {
+    return this.changeOrganizationStatus(organizationId, "suspended", "active");
+  }
+
+  async searchJobs({ page, limit, ...filters }: BackOfficeJobsQuery) {
+    try {
+      return ok(
+        await this.backOfficeRepository.searchJobs(filters, { page, limit }),
+      );
+    } catch (error) {
+      return this.failWith(error, "Failed to search jobs");
+    }
+  }
+
+  async getJob(jobId: number) {
+    try {
+      const found = await this.backOfficeRepository.findJob(jobId);
+      if (!found) {
+        return fail(new NotFoundError("Job", jobId));
+      }
+      return ok(found);
+    } catch (error) {
+      return this.failWith(error, "Failed to retrieve job");
+    }
+  }
+
+  async searchApplications({
+    page,
+    limit,
+    ...filters
+  }: BackOfficeApplicationsQuery) {
+    try {
+      return ok(
+        await this.backOfficeRepository.searchApplications(filters, {
+          page,
+          limit,
+        }),
+      );
+    } catch (error) {
+      return this.failWith(error, "Failed to search applications");
+    }
+  }
+
+  async getApplication(applicationId: number) {
+    try {
+      const found =
+        await this.backOfficeRepository.findApplication(applicationId);
+      if (!found) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+      return ok(found);
+    } catch (error) {
+      return this.failWith(error, "Failed to retrieve application");
+    }
+  }
+
+  private async changeOrganizationStatus(
+    organizationId: number,
+    from: "active" | "suspended",
+    to: "active" | "suspended",
+  ) {
+    try {
+      const organization =
+        await this.backOfficeRepository.findOrganizationDetail(organizationId);
+      if (!organization) {
+        return fail(new NotFoundError("Organization", organizationId));
+      }
+      if (organization.status !== from) {
+        return fail(
+          new ValidationError(`Organization is ${organization.status}`),
+        );
+      }
+
+      await this.backOfficeRepository.updateOrganizationStatus(
+        organizationId,
+        to,
+      );
+
+      // The status change stands even if search catches up later
+      try {
+        await this.organizationJobsIndex.reindexOrganizationJobs(
+          organizationId,
+        );
+      } catch (error) {
+        logger.error(error, "Failed to reindex organization jobs");
+      }
+
+      return ok({ ...organization, status: to });
+    } catch (error) {
+      return this.failWith(error, "Failed to update organization status");
+    }
+  }
+
+  private failWith(error: unknown, message: string) {
+    if (error instanceof AppError) {
+      return this.handleError(error);
+    }
+    logger.error(error, message);
+    return fail(new DatabaseError(message));
+  }
+}
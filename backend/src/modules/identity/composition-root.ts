@@ -30,7 +30,7 @@ export function createIdentityModule(deps: IdentityModuleDeps) {
     deps.orgOwnershipQuery,
   );
   const controller = new IdentityController(service);
-  const guards = createIdentityGuards();
+  const guards = createIdentityGuards({ identityRepository: repository });
 
   return { controller, guards, repository, service };
 }
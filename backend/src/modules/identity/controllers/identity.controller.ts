@@ -96,6 +96,17 @@ export class IdentityController extends BaseController {
     const result = await this.identityService.activateUser(id);
 
     if (result.isSuccess) {
+      auditService.emit({
+        name: "account.reactivated",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "user", id },
+        action: "reactivated account",
+        outcome: "success",
+      });
       return this.sendSuccess(res, result.value, "User activated successfully");
     } else {
       return this.handleControllerError(res, result.error);
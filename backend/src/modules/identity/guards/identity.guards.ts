@@ -1,13 +1,18 @@
 import type { RequestHandler } from "express";
 
 import type { GetUserSchema } from "@/validations/user.validation";
+import type { IdentityRepositoryPort } from "@/modules/identity/ports/identity-repository.port";
 import logger from "@shared/logger";
 
 /**
  * Creates identity authorization guards.
- * Handles self-ownership verification.
+ * Handles self-ownership verification and platform staff access.
  */
-export function createIdentityGuards() {
+export function createIdentityGuards(deps: {
+  identityRepository: Pick<IdentityRepositoryPort, "findUserById">;
+}) {
+  const { identityRepository } = deps;
+
   /**
    * Ensures the authenticated user is accessing their own account.
    * Compares req.userId with req.params.id.
@@ -51,8 +56,51 @@ export function createIdentityGuards() {
     }
   };
 
+  /**
+   * Restricts platform-wide routes to platform staff. Organization roles
+   * grant nothing here. The role is read from the database rather than the
+   * session, so revoking it takes effect before the session cookie cache
+   * expires.
+   */
+  const requirePlatformStaff: RequestHandler = async (req, res, next) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({
+          success: false,
+          status: "error",
+          error: "UNAUTHORIZED",
+          message: "Authentication required",
+        });
+      }
+
+      const user = await identityRepository.findUserById(req.userId);
+      if (!user || user.status !== "active" || user.platformRole !== "staff") {
+        return res.status(403).json({
+          success: false,
+          status: "error",
+          error: "FORBIDDEN",
+          message: "Platform staff access required",
+        });
+      }
+
+      return next();
+    } catch (error) {
+      logger.error(
+        error,
+        `Failed to check platform role. User Id ${req.userId}`,
+      );
+      return res.status(500).json({
+        success: false,
+        status: "error",
+        error: "INTERNAL_SERVER_ERROR",
+        message: "Error checking user permissions",
+      });
+    }
+  };
+
   return {
     requireOwnAccount,
+    requirePlatformStaff,
   };
 }
 
@@ -31,6 +31,7 @@ export class IdentityRepository
             updatedAt: true,
             intent: true,
             onboardingStatus: true,
+            platformRole: true,
           },
           where: and(eq(user.email, email), ne(user.status, "deleted")),
         }),
@@ -55,6 +56,7 @@ export class IdentityRepository
             updatedAt: true,
             intent: true,
             onboardingStatus: true,
+            platformRole: true,
           },
         }),
     );
@@ -1,7 +1,6 @@
 import { Router } from "express";
 import type { IdentityController } from "../controllers/identity.controller";
 import type { IdentityGuards } from "@/modules/identity";
-import type { OrganizationsGuards } from "@/modules/organizations";
 import validate from "@/middleware/validation.middleware";
 import {
   getUserSchema,
@@ -12,11 +11,9 @@ import { invalidateCacheMiddleware } from "@/middleware/cache.middleware";
 export function createIdentityRoutes({
   controller: identityController,
   identityGuards,
-  orgGuards,
 }: {
   controller: IdentityController;
   identityGuards: IdentityGuards;
-  orgGuards: Pick<OrganizationsGuards, "requireAdminOrOwnerRole">;
 }): Router {
   const router = Router();
 
@@ -29,7 +26,7 @@ export function createIdentityRoutes({
     identityController.deactivateSelf,
   );
 
-  // Admin routes for user management
+  // Platform staff routes for user management
 
   // PUT /users/:id
   router.put(
@@ -43,7 +40,7 @@ export function createIdentityRoutes({
   router.patch(
     "/:id/deactivate",
     validate(getUserSchema),
-    orgGuards.requireAdminOrOwnerRole(["admin", "owner"]),
+    identityGuards.requirePlatformStaff,
     identityController.deactivateUser,
   );
 
@@ -51,7 +48,7 @@ export function createIdentityRoutes({
   router.patch(
     "/:id/activate",
     validate(getUserSchema),
-    orgGuards.requireAdminOrOwnerRole(["admin", "owner"]),
+    identityGuards.requirePlatformStaff,
     identityController.activateUser,
   );
 
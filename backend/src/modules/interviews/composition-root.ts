@@ -0,0 +1,37 @@
+import type { EventBusPort } from "@shared/events/event-bus.port";
+
+import type { InterviewStageQueryPort } from "./ports/interview-stage-query.port";
+import { InterviewsRepository } from "./repositories/interviews.repository";
+import { InterviewsService } from "./services/interviews.service";
+import { InterviewsController } from "./controllers/interviews.controller";
+import { createInterviewReminderWorker } from "./workers/interview-reminder.worker";
+
+interface InterviewsModuleDeps {
+  eventBus: EventBusPort;
+  interviewStageQuery: InterviewStageQueryPort;
+}
+
+/**
+ * Composition root for the Interviews module.
+ */
+export function createInterviewsModule(deps: InterviewsModuleDeps) {
+  const repository = new InterviewsRepository();
+  const service = new InterviewsService(
+    repository,
+    deps.eventBus,
+    deps.interviewStageQuery,
+  );
+  const controller = new InterviewsController(service);
+
+  const workers = createInterviewReminderWorker({
+    interviewsRepository: repository,
+  });
+
+  return {
+    controller,
+    repository,
+    workers,
+  };
+}
+
+export type InterviewsModule = ReturnType<typeof createInterviewsModule>;
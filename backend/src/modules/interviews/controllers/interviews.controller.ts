@@ -0,0 +1,186 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import type { InterviewsServicePort } from "../ports/interviews-service.port";
+import type {
+  CancelInterviewSchema,
+  CandidateInterview,
+  Interview,
+  ProposeInterviewSchema,
+  RescheduleInterviewSchema,
+  SelectInterviewSlotSchema,
+} from "@/validations/interview.validation";
+import type { GetJobApplicationSchema } from "@/validations/jobApplications.validation";
+import type { JobApplicationManagementSchema } from "@/validations/organization.validation";
+import type { ApiResponse, EmptyBody } from "@shared/types";
+
+export class InterviewsController extends BaseController {
+  constructor(private interviewsService: InterviewsServicePort) {
+    super();
+  }
+
+  // ─── Employer/Organization-scoped interview handlers ──────────────
+
+  proposeInterview = async (
+    req: Request<
+      ProposeInterviewSchema["params"],
+      EmptyBody,
+      ProposeInterviewSchema["body"]
+    >,
+    res: Response<ApiResponse<Interview>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const jobId = parseInt(req.params.jobId);
+    const applicationId = parseInt(req.params.applicationId);
+
+    const result = await this.interviewsService.proposeInterview(
+      organizationId,
+      jobId,
+      applicationId,
+      req.userId!,
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<Interview>(
+        res,
+        result.value,
+        "Interview proposed successfully",
+        201,
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getInterviewsForApplication = async (
+    req: Request<JobApplicationManagementSchema["params"]>,
+    res: Response<ApiResponse<Interview[]>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const jobId = parseInt(req.params.jobId);
+    const applicationId = parseInt(req.params.applicationId);
+
+    const result = await this.interviewsService.getInterviewsForApplication(
+      organizationId,
+      jobId,
+      applicationId,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<Interview[]>(
+        res,
+        result.value,
+        "Interviews retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  rescheduleInterview = async (
+    req: Request<
+      RescheduleInterviewSchema["params"],
+      EmptyBody,
+      RescheduleInterviewSchema["body"]
+    >,
+    res: Response<ApiResponse<Interview>>,
+  ) => {
+    const result = await this.interviewsService.rescheduleInterview(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+      parseInt(req.params.interviewId),
+      req.userId!,
+      req.body.slots,
+      req.body.reason,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<Interview>(
+        res,
+        result.value,
+        "Interview rescheduled successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  cancelInterview = async (
+    req: Request<
+      CancelInterviewSchema["params"],
+      EmptyBody,
+      CancelInterviewSchema["body"]
+    >,
+    res: Response<ApiResponse<Interview>>,
+  ) => {
+    const result = await this.interviewsService.cancelInterview(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+      parseInt(req.params.interviewId),
+      req.userId!,
+      req.body?.reason,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<Interview>(
+        res,
+        result.value,
+        "Interview cancelled successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  // ─── Candidate handlers ───────────────────────────────────────────
+
+  getCandidateInterviews = async (
+    req: Request<GetJobApplicationSchema["params"]>,
+    res: Response<ApiResponse<CandidateInterview[]>>,
+  ) => {
+    const applicationId = Number(req.params.applicationId);
+
+    const result = await this.interviewsService.getInterviewsForCandidate(
+      applicationId,
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<CandidateInterview[]>(
+        res,
+        result.value,
+        "Interviews retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  selectSlot = async (
+    req: Request<
+      SelectInterviewSlotSchema["params"],
+      EmptyBody,
+      SelectInterviewSlotSchema["body"]
+    >,
+    res: Response<ApiResponse<CandidateInterview>>,
+  ) => {
+    const result = await this.interviewsService.selectSlot(
+      Number(req.params.applicationId),
+      Number(req.params.interviewId),
+      req.userId!,
+      req.body.slotId,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<CandidateInterview>(
+        res,
+        result.value,
+        "Interview time confirmed",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import { DomainEventType } from "@shared/events";
+import type { DomainEvent } from "@shared/events";
+
+export interface InterviewCancelledPayload {
+  interviewId: number;
+  applicationId: number;
+  organizationId: number;
+  cancelledBy: number;
+  /** Start time of the cancelled booking, or null if no slot had been selected */
+  scheduledStart: string | null;
+  reason: string | null;
+}
+
+export function createInterviewCancelledEvent(
+  payload: InterviewCancelledPayload,
+  correlationId?: string,
+): DomainEvent<InterviewCancelledPayload> {
+  return {
+    eventType: DomainEventType.INTERVIEW_CANCELLED,
+    payload,
+    occurredAt: new Date().toISOString(),
+    correlationId,
+  };
+}
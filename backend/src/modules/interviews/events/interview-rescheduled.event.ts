@@ -0,0 +1,24 @@
+import { DomainEventType } from "@shared/events";
+import type { DomainEvent } from "@shared/events";
+
+export interface InterviewRescheduledPayload {
+  interviewId: number;
+  applicationId: number;
+  organizationId: number;
+  rescheduledBy: number;
+  /** Previously booked start time, or null if no slot had been selected */
+  previousStart: string | null;
+  reason: string | null;
+}
+
+export function createInterviewRescheduledEvent(
+  payload: InterviewRescheduledPayload,
+  correlationId?: string,
+): DomainEvent<InterviewRescheduledPayload> {
+  return {
+    eventType: DomainEventType.INTERVIEW_RESCHEDULED,
+    payload,
+    occurredAt: new Date().toISOString(),
+    correlationId,
+  };
+}
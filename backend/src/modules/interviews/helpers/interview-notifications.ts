@@ -0,0 +1,70 @@
+import type { InterviewEmailDetails } from "@shared/ports/email-service.port";
+import type {
+  CandidateInterview,
+  Interview,
+} from "@/validations/interview.validation";
+import type { InterviewApplicationContext } from "../ports/interviews-repository.port";
+
+export interface InterviewRecipient {
+  userId: number;
+  email: string;
+  fullName: string;
+}
+
+/**
+ * The candidate followed by every assigned interviewer.
+ */
+export function getInterviewRecipients(
+  interview: Interview,
+  context: InterviewApplicationContext,
+): InterviewRecipient[] {
+  return [
+    {
+      userId: context.applicantId,
+      email: context.applicantEmail,
+      fullName: context.applicantName,
+    },
+    ...interview.interviewers.map((interviewer) => ({
+      userId: interviewer.userId,
+      email: interviewer.email,
+      fullName: interviewer.fullName,
+    })),
+  ];
+}
+
+export function toInterviewEmailDetails(
+  interview: Interview,
+  context: InterviewApplicationContext,
+): InterviewEmailDetails {
+  return {
+    interviewId: interview.id,
+    sequence: interview.sequence,
+    jobTitle: context.jobTitle,
+    organizationName: context.organizationName,
+    startsAt: interview.scheduledStart?.toISOString() ?? null,
+    endsAt: interview.scheduledEnd?.toISOString() ?? null,
+    locationType: interview.locationType,
+    location: interview.location,
+    meetingUrl: interview.meetingUrl,
+    attendees: getInterviewRecipients(interview, context).map(
+      ({ email, fullName }) => ({ email, fullName }),
+    ),
+  };
+}
+
+/**
+ * Strips the organization-internal fields the candidate should not see.
+ */
+export function toCandidateInterview(interview: Interview): CandidateInterview {
+  const {
+    organizationId: _organizationId,
+    sequence: _sequence,
+    interviewers,
+    ...rest
+  } = interview;
+
+  return {
+    ...rest,
+    interviewers: interviewers.map(({ fullName }) => ({ fullName })),
+  };
+}
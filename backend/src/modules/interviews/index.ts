@@ -0,0 +1,16 @@
+export { createInterviewsModule } from "./composition-root";
+export type { InterviewsModule } from "./composition-root";
+export type { InterviewsServicePort } from "./ports/interviews-service.port";
+export type {
+  InterviewsRepositoryPort,
+  InterviewApplicationContext,
+  InterviewerDetails,
+  InterviewSlotInput,
+} from "./ports/interviews-repository.port";
+export type { InterviewStageQueryPort } from "./ports/interview-stage-query.port";
+export { createInterviewsRoutes } from "./routes/interviews.routes";
+export { createCandidateInterviewsRoutes } from "./routes/candidate-interviews.routes";
+export type { InterviewRescheduledPayload } from "./events/interview-rescheduled.event";
+export { createInterviewRescheduledEvent } from "./events/interview-rescheduled.event";
+export type { InterviewCancelledPayload } from "./events/interview-cancelled.event";
+export { createInterviewCancelledEvent } from "./events/interview-cancelled.event";
@@ -0,0 +1,13 @@
+/**
+ * Port for checking the organization's hiring pipeline from the interviews
+ * module's perspective. Interviews can only be arranged for applications in
+ * a pipeline stage that allows them.
+ *
+ * Implemented by an adapter in src/shared/adapters/.
+ */
+export interface InterviewStageQueryPort {
+  stageAllowsInterviews(
+    organizationId: number,
+    status: string,
+  ): Promise<boolean>;
+}
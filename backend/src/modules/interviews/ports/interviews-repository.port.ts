@@ -0,0 +1,94 @@
+import type { Interview } from "@/validations/interview.validation";
+
+/**
+ * Application, job and applicant details an interview is arranged for.
+ */
+export interface InterviewApplicationContext {
+  applicationId: number;
+  jobId: number;
+  status: string;
+  applicantId: number;
+  applicantName: string;
+  applicantEmail: string;
+  jobTitle: string;
+  organizationId: number;
+  organizationName: string;
+}
+
+export interface InterviewerDetails {
+  memberId: number;
+  userId: number;
+  fullName: string;
+  email: string;
+}
+
+export interface InterviewSlotInput {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface InterviewsRepositoryPort {
+  /**
+   * Finds the application an interview belongs to, with job, organization
+   * and applicant details.
+   */
+  findApplicationContext(
+    applicationId: number,
+  ): Promise<InterviewApplicationContext | null>;
+
+  /**
+   * Finds the active members of an organization among the given member IDs.
+   */
+  findActiveMembers(
+    organizationId: number,
+    memberIds: number[],
+  ): Promise<InterviewerDetails[]>;
+
+  /**
+   * Creates an interview with its proposed slots and interviewers.
+   */
+  createInterview(data: {
+    applicationId: number;
+    organizationId: number;
+    locationType: Interview["locationType"];
+    location: string | null;
+    meetingUrl: string | null;
+    notes: string | null;
+    createdBy: number;
+    slots: InterviewSlotInput[];
+    interviewerIds: number[];
+  }): Promise<Interview>;
+
+  /**
+   * Finds an interview by ID with its slots and interviewers.
+   */
+  findById(interviewId: number): Promise<Interview | null>;
+
+  /**
+   * Finds all interviews of an application, most recent first.
+   */
+  findByApplicationId(applicationId: number): Promise<Interview[]>;
+
+  /**
+   * Books a proposed slot, scheduling the interview at its time. Fails with
+   * a ConflictError when the interview is no longer awaiting a selection.
+   */
+  selectSlot(interviewId: number, slotId: number): Promise<Interview>;
+
+  /**
+   * Replaces the proposed slots and returns the interview to the proposed
+   * state, clearing any booked time.
+   */
+  replaceSlots(
+    interviewId: number,
+    slots: InterviewSlotInput[],
+  ): Promise<Interview>;
+
+  /**
+   * Cancels an interview.
+   */
+  cancelInterview(
+    interviewId: number,
+    reason: string | null,
+  ): Promise<Interview>;
+}
@@ -0,0 +1,59 @@
+import type { Result } from "@shared/result";
+import type { AppError } from "@shared/errors";
+import type {
+  CandidateInterview,
+  Interview,
+  ProposeInterviewInput,
+} from "@/validations/interview.validation";
+import type { InterviewSlotInput } from "./interviews-repository.port";
+
+export interface InterviewsServicePort {
+  // ─── Employer/Organization-scoped interview methods ───────────────
+
+  proposeInterview(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    actorId: number,
+    data: ProposeInterviewInput,
+  ): Promise<Result<Interview, AppError>>;
+
+  getInterviewsForApplication(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<Interview[], AppError>>;
+
+  rescheduleInterview(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    interviewId: number,
+    actorId: number,
+    slots: InterviewSlotInput[],
+    reason?: string,
+  ): Promise<Result<Interview, AppError>>;
+
+  cancelInterview(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    interviewId: number,
+    actorId: number,
+    reason?: string,
+  ): Promise<Result<Interview, AppError>>;
+
+  // ─── Candidate methods ────────────────────────────────────────────
+
+  getInterviewsForCandidate(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<CandidateInterview[], AppError>>;
+
+  selectSlot(
+    applicationId: number,
+    interviewId: number,
+    userId: number,
+    slotId: number,
+  ): Promise<Result<CandidateInterview, AppError>>;
+}
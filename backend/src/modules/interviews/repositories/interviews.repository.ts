@@ -0,0 +1,301 @@
+import { and, asc, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import {
+  interviewInterviewers,
+  interviews,
+  interviewSlots,
+  jobApplications,
+  jobsDetails,
+  organizationMembers,
+  organizations,
+  user,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { ConflictError, DatabaseError, NotFoundError } from "@shared/errors";
+import type {
+  InterviewSlotInput,
+  InterviewsRepositoryPort,
+} from "../ports/interviews-repository.port";
+import type { Interview } from "@/validations/interview.validation";
+
+type DbOrTx = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class InterviewsRepository implements InterviewsRepositoryPort {
+  private async queryInterviews(
+    dbOrTx: DbOrTx,
+    where: SQL | undefined,
+  ): Promise<Interview[]> {
+    const rows = await dbOrTx.query.interviews.findMany({
+      where,
+      orderBy: [desc(interviews.createdAt), desc(interviews.id)],
+      with: {
+        slots: {
+          columns: { id: true, startsAt: true, endsAt: true, isSelected: true },
+          orderBy: [asc(interviewSlots.startsAt)],
+        },
+        interviewers: {
+          columns: { memberId: true },
+          with: {
+            member: {
+              columns: { userId: true },
+              with: {
+                user: { columns: { fullName: true, email: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    return rows.map((interview) => ({
+      id: interview.id,
+      applicationId: interview.applicationId,
+      organizationId: interview.organizationId,
+      status: interview.status,
+      locationType: interview.locationType,
+      location: interview.location,
+      meetingUrl: interview.meetingUrl,
+      notes: interview.notes,
+      scheduledStart: interview.scheduledStart,
+      scheduledEnd: interview.scheduledEnd,
+      sequence: interview.sequence,
+      cancellationReason: interview.cancellationReason,
+      slots: interview.slots,
+      interviewers: interview.interviewers.map((interviewer) => ({
+        memberId: interviewer.memberId,
+        userId: interviewer.member.userId,
+        fullName: interviewer.member.user.fullName,
+        email: interviewer.member.user.email,
+      })),
+      createdAt: interview.createdAt,
+      updatedAt: interview.updatedAt,
+    }));
+  }
+
+  private async fetchInterview(
+    dbOrTx: DbOrTx,
+    interviewId: number,
+  ): Promise<Interview | null> {
+    const [interview] = await this.queryInterviews(
+      dbOrTx,
+      eq(interviews.id, interviewId),
+    );
+
+    return interview ?? null;
+  }
+
+  private async fetchInterviewOrFail(dbOrTx: DbOrTx, interviewId: number) {
+    const interview = await this.fetchInterview(dbOrTx, interviewId);
+
+    if (!interview) {
+      throw new DatabaseError("Failed to retrieve updated interview");
+    }
+
+    return interview;
+  }
+
+  async findApplicationContext(applicationId: number) {
+    return withDbErrorHandling(async () => {
+      const [context] = await db
+        .select({
+          applicationId: jobApplications.id,
+          jobId: jobApplications.jobId,
+          status: jobApplications.status,
+          applicantId: jobApplications.applicantId,
+          applicantName: user.fullName,
+          applicantEmail: user.email,
+          jobTitle: jobsDetails.title,
+          organizationId: organizations.id,
+          organizationName: organizations.name,
+        })
+        .from(jobApplications)
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
+        .innerJoin(organizations, eq(organizations.id, jobsDetails.employerId))
+        .innerJoin(user, eq(user.id, jobApplications.applicantId))
+        .where(eq(jobApplications.id, applicationId))
+        .limit(1);
+
+      return context ?? null;
+    });
+  }
+
+  async findActiveMembers(organizationId: number, memberIds: number[]) {
+    if (memberIds.length === 0) {
+      return [];
+    }
+
+    return withDbErrorHandling(
+      async () =>
+        await db
+          .select({
+            memberId: organizationMembers.id,
+            userId: organizationMembers.userId,
+            fullName: user.fullName,
+            email: user.email,
+          })
+          .from(organizationMembers)
+          .innerJoin(user, eq(user.id, organizationMembers.userId))
+          .where(
+            and(
+              eq(organizationMembers.organizationId, organizationId),
+              eq(organizationMembers.isActive, true),
+              inArray(organizationMembers.id, memberIds),
+            ),
+          ),
+    );
+  }
+
+  async createInterview(
+    data: Parameters<InterviewsRepositoryPort["createInterview"]>[0],
+  ) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        const [inserted] = await tx
+          .insert(interviews)
+          .values({
+            applicationId: data.applicationId,
+            organizationId: data.organizationId,
+            locationType: data.locationType,
+            location: data.location,
+            meetingUrl: data.meetingUrl,
+            notes: data.notes,
+            createdBy: data.createdBy,
+          })
+          .$returningId();
+
+        if (!inserted) {
+          throw new DatabaseError("Failed to create interview");
+        }
+
+        await tx.insert(interviewSlots).values(
+          data.slots.map((slot) => ({
+            interviewId: inserted.id,
+            startsAt: slot.startsAt,
+            endsAt: slot.endsAt,
+          })),
+        );
+
+        await tx.insert(interviewInterviewers).values(
+          data.interviewerIds.map((memberId) => ({
+            interviewId: inserted.id,
+            memberId,
+          })),
+        );
+
+        return await this.fetchInterviewOrFail(tx, inserted.id);
+      });
+    });
+  }
+
+  async findById(interviewId: number) {
+    return withDbErrorHandling(
+      async () => await this.fetchInterview(db, interviewId),
+    );
+  }
+
+  async findByApplicationId(applicationId: number) {
+    return withDbErrorHandling(
+      async () =>
+        await this.queryInterviews(
+          db,
+          eq(interviews.applicationId, applicationId),
+        ),
+    );
+  }
+
+  async selectSlot(interviewId: number, slotId: number) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        const [slot] = await tx
+          .select()
+          .from(interviewSlots)
+          .where(
+            and(
+              eq(interviewSlots.id, slotId),
+              eq(interviewSlots.interviewId, interviewId),
+            ),
+          )
+          .limit(1);
+
+        if (!slot) {
+          throw new NotFoundError("Interview slot", slotId);
+        }
+
+        // Guarded on the status so two concurrent selections cannot both win
+        const [result] = await tx
+          .update(interviews)
+          .set({
+            status: "scheduled",
+            scheduledStart: slot.startsAt,
+            scheduledEnd: slot.endsAt,
+            sequence: sql`${interviews.sequence} + 1`,
+          })
+          .where(
+            and(
+              eq(interviews.id, interviewId),
+              eq(interviews.status, "proposed"),
+            ),
+          );
+
+        if (result.affectedRows === 0) {
+          throw new ConflictError("Interview is not awaiting a time selection");
+        }
+
+        await tx
+          .update(interviewSlots)
+          .set({ isSelected: true })
+          .where(eq(interviewSlots.id, slotId));
+
+        return await this.fetchInterviewOrFail(tx, interviewId);
+      });
+    });
+  }
+
+  async replaceSlots(interviewId: number, slots: InterviewSlotInput[]) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        await tx
+          .delete(interviewSlots)
+          .where(eq(interviewSlots.interviewId, interviewId));
+
+        await tx.insert(interviewSlots).values(
+          slots.map((slot) => ({
+            interviewId,
+            startsAt: slot.startsAt,
+            endsAt: slot.endsAt,
+          })),
+        );
+
+        await tx
+          .update(interviews)
+          .set({
+            status: "proposed",
+            scheduledStart: null,
+            scheduledEnd: null,
+            sequence: sql`${interviews.sequence} + 1`,
+          })
+          .where(eq(interviews.id, interviewId));
+
+        return await this.fetchInterviewOrFail(tx, interviewId);
+      });
+    });
+  }
+
+  async cancelInterview(interviewId: number, reason: string | null) {
+    return withDbErrorHandling(async () => {
+      return await db.transaction(async (tx) => {
+        await tx
+          .update(interviews)
+          .set({
+            status: "cancelled",
+            cancellationReason: reason,
+            cancelledAt: new Date(),
+            sequence: sql`${interviews.sequence} + 1`,
+          })
+          .where(eq(interviews.id, interviewId));
+
+        return await this.fetchInterviewOrFail(tx, interviewId);
+      });
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import { Router, type RequestHandler } from "express";
+import type { InterviewsController } from "../controllers/interviews.controller";
+import type { ProfileGuards } from "@/modules/user-profile";
+import validate from "@/middleware/validation.middleware";
+import {
+  cacheMiddleware,
+  invalidateCacheMiddleware,
+} from "@/middleware/cache.middleware";
+import { cacheKeys } from "@shared/infrastructure/cache-keys";
+import { getJobApplicationSchema } from "@/validations/jobApplications.validation";
+import { selectInterviewSlotSchema } from "@/validations/interview.validation";
+
+/**
+ * Creates the candidate's interview routes. These routes are mounted under
+ * /api/jobs and must be registered before the /:jobId routes.
+ */
+export function createCandidateInterviewsRoutes({
+  authenticate,
+  profileGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  profileGuards: Pick<ProfileGuards, "requireUserRole">;
+  controller: InterviewsController;
+}): Router {
+  const router = Router();
+
+  // GET /jobs/me/applications/:applicationId/interviews
+  router.get(
+    "/me/applications/:applicationId/interviews",
+    authenticate,
+    profileGuards.requireUserRole,
+    validate(getJobApplicationSchema),
+    cacheMiddleware({ ttl: 300 }),
+    controller.getCandidateInterviews,
+  );
+
+  // POST /jobs/me/applications/:applicationId/interviews/:interviewId/select-slot
+  router.post(
+    "/me/applications/:applicationId/interviews/:interviewId/select-slot",
+    authenticate,
+    profileGuards.requireUserRole,
+    validate(selectInterviewSlotSchema),
+    // The booking is visible to the employer too; the org id is not in the
+    // path, so fall back to the broad organizations prefix.
+    invalidateCacheMiddleware(() => cacheKeys.seekerApplications),
+    invalidateCacheMiddleware(() => cacheKeys.organizations),
+    controller.selectSlot,
+  );
+
+  return router;
+}
@@ -0,0 +1,92 @@
+import { Router, type RequestHandler } from "express";
+import type { InterviewsController } from "../controllers/interviews.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import {
+  cacheMiddleware,
+  invalidateCacheMiddleware,
+} from "@/middleware/cache.middleware";
+import { cacheKeys } from "@shared/infrastructure/cache-keys";
+import { jobApplicationManagementSchema } from "@/validations/organization.validation";
+import {
+  cancelInterviewSchema,
+  proposeInterviewSchema,
+  rescheduleInterviewSchema,
+} from "@/validations/interview.validation";
+
+/**
+ * Creates routes for employer/organization-scoped interview scheduling.
+ * These routes are mounted under /api/organizations.
+ */
+export function createInterviewsRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    "requirePermission" | "ensureIsOrganizationMember"
+  >;
+  controller: InterviewsController;
+}): Router {
+  const router = Router();
+
+  // Interview changes show up in the candidate's view of the application as
+  // well as under the org's application keys (interviews are nested there).
+  const invalidateInterviewCaches = [
+    invalidateCacheMiddleware(() => cacheKeys.seekerApplications),
+    invalidateCacheMiddleware((req) =>
+      cacheKeys.orgJobApplications(
+        String(req.params.organizationId),
+        String(req.params.jobId),
+      ),
+    ),
+  ];
+
+  // POST /:organizationId/jobs/:jobId/applications/:applicationId/interviews
+  router.post(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/interviews",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(proposeInterviewSchema),
+    ...invalidateInterviewCaches,
+    controller.proposeInterview,
+  );
+
+  // GET /:organizationId/jobs/:jobId/applications/:applicationId/interviews
+  router.get(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/interviews",
+    authenticate,
+    orgGuards.requirePermission("applications.view"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(jobApplicationManagementSchema),
+    cacheMiddleware({ ttl: 300 }),
+    controller.getInterviewsForApplication,
+  );
+
+  // PATCH /:organizationId/jobs/:jobId/applications/:applicationId/interviews/:interviewId/reschedule
+  router.patch(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/interviews/:interviewId/reschedule",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(rescheduleInterviewSchema),
+    ...invalidateInterviewCaches,
+    controller.rescheduleInterview,
+  );
+
+  // PATCH /:organizationId/jobs/:jobId/applications/:applicationId/interviews/:interviewId/cancel
+  router.patch(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/interviews/:interviewId/cancel",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(cancelInterviewSchema),
+    ...invalidateInterviewCaches,
+    controller.cancelInterview,
+  );
+
+  return router;
+}
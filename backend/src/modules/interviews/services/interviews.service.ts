@@ -0,0 +1,463 @@
+import { Result, fail, ok } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import {
+  AppError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+} from "@shared/errors";
+import logger from "@shared/logger";
+import type { EventBusPort } from "@shared/events";
+
+import type { InterviewsServicePort } from "../ports/interviews-service.port";
+import type {
+  InterviewApplicationContext,
+  InterviewSlotInput,
+  InterviewsRepositoryPort,
+} from "../ports/interviews-repository.port";
+import type { InterviewStageQueryPort } from "../ports/interview-stage-query.port";
+import { createInterviewRescheduledEvent } from "../events/interview-rescheduled.event";
+import { createInterviewCancelledEvent } from "../events/interview-cancelled.event";
+import {
+  getInterviewRecipients,
+  toCandidateInterview,
+  toInterviewEmailDetails,
+} from "../helpers/interview-notifications";
+
+import type {
+  CandidateInterview,
+  Interview,
+  ProposeInterviewInput,
+} from "@/validations/interview.validation";
+
+/** How long before a scheduled interview the reminder email is sent. */
+export const INTERVIEW_REMINDER_LEAD_TIME_MS = 24 * 60 * 60 * 1000;
+
+export class InterviewsService
+  extends BaseService
+  implements InterviewsServicePort
+{
+  constructor(
+    private interviewsRepository: InterviewsRepositoryPort,
+    private eventBus: EventBusPort,
+    private interviewStageQuery: InterviewStageQueryPort,
+  ) {
+    super();
+  }
+
+  // ─── Employer/Organization-scoped interview methods ───────────────
+
+  async proposeInterview(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    actorId: number,
+    data: ProposeInterviewInput,
+  ): Promise<Result<Interview, AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const allowsInterviews =
+        await this.interviewStageQuery.stageAllowsInterviews(
+          organizationId,
+          context.status,
+        );
+
+      if (!allowsInterviews) {
+        return fail(
+          new ValidationError(
+            "Interviews can only be scheduled for applications in a stage that allows interviews",
+          ),
+        );
+      }
+
+      const interviewers = await this.interviewsRepository.findActiveMembers(
+        organizationId,
+        data.interviewerIds,
+      );
+
+      if (interviewers.length !== data.interviewerIds.length) {
+        const found = new Set(interviewers.map((member) => member.memberId));
+        return fail(
+          new ValidationError(
+            "Interviewers must be active members of the organization",
+            {
+              invalidInterviewerIds: data.interviewerIds.filter(
+                (id) => !found.has(id),
+              ),
+            },
+          ),
+        );
+      }
+
+      const interview = await this.interviewsRepository.createInterview({
+        applicationId,
+        organizationId,
+        locationType: data.locationType,
+        location: data.location ?? null,
+        meetingUrl: data.meetingUrl ?? null,
+        notes: data.notes ?? null,
+        createdBy: actorId,
+        slots: data.slots,
+        interviewerIds: data.interviewerIds,
+      });
+
+      await this.notifyCandidateOfProposal(interview, context, false);
+
+      return ok(interview);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to propose interview"));
+    }
+  }
+
+  async getInterviewsForApplication(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<Interview[], AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      return ok(
+        await this.interviewsRepository.findByApplicationId(applicationId),
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve interviews"));
+    }
+  }
+
+  /**
+   * Replaces the proposed times and asks the candidate to pick again. A
+   * previously booked time is released; the confirmation sent once the
+   * candidate selects a new slot updates the existing calendar event.
+   */
+  async rescheduleInterview(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    interviewId: number,
+    actorId: number,
+    slots: InterviewSlotInput[],
+    reason?: string,
+  ): Promise<Result<Interview, AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const existing = await this.interviewsRepository.findById(interviewId);
+
+      if (!existing || existing.applicationId !== applicationId) {
+        return fail(new NotFoundError("Interview", interviewId));
+      }
+
+      if (existing.status === "cancelled") {
+        return fail(
+          new ValidationError("Cannot reschedule a cancelled interview"),
+        );
+      }
+
+      const interview = await this.interviewsRepository.replaceSlots(
+        interviewId,
+        slots,
+      );
+
+      await this.eventBus.publish(
+        createInterviewRescheduledEvent({
+          interviewId,
+          applicationId,
+          organizationId,
+          rescheduledBy: actorId,
+          previousStart: existing.scheduledStart?.toISOString() ?? null,
+          reason: reason ?? null,
+        }),
+      );
+
+      await this.notifyCandidateOfProposal(interview, context, true);
+
+      return ok(interview);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to reschedule interview"));
+    }
+  }
+
+  async cancelInterview(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    interviewId: number,
+    actorId: number,
+    reason?: string,
+  ): Promise<Result<Interview, AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const existing = await this.interviewsRepository.findById(interviewId);
+
+      if (!existing || existing.applicationId !== applicationId) {
+        return fail(new NotFoundError("Interview", interviewId));
+      }
+
+      if (existing.status === "cancelled") {
+        return fail(new ValidationError("Interview is already cancelled"));
+      }
+
+      const interview = await this.interviewsRepository.cancelInterview(
+        interviewId,
+        reason ?? null,
+      );
+
+      await this.eventBus.publish(
+        createInterviewCancelledEvent({
+          interviewId,
+          applicationId,
+          organizationId,
+          cancelledBy: actorId,
+          scheduledStart: existing.scheduledStart?.toISOString() ?? null,
+          reason: reason ?? null,
+        }),
+      );
+
+      await this.notifyRecipients(
+        "sendInterviewCancelled",
+        interview,
+        context,
+        { reason: reason ?? null },
+      );
+
+      return ok(interview);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to cancel interview"));
+    }
+  }
+
+  // ─── Candidate methods ────────────────────────────────────────────
+
+  async getInterviewsForCandidate(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<CandidateInterview[], AppError>> {
+    try {
+      const context =
+        await this.interviewsRepository.findApplicationContext(applicationId);
+
+      if (!context || context.applicantId !== userId) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const interviews =
+        await this.interviewsRepository.findByApplicationId(applicationId);
+
+      return ok(interviews.map(toCandidateInterview));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve interviews"));
+    }
+  }
+
+  /**
+   * Books one of the proposed slots, sends calendar invitations to the
+   * candidate and interviewers and schedules the reminder.
+   */
+  async selectSlot(
+    applicationId: number,
+    interviewId: number,
+    userId: number,
+    slotId: number,
+  ): Promise<Result<CandidateInterview, AppError>> {
+    try {
+      const context =
+        await this.interviewsRepository.findApplicationContext(applicationId);
+
+      if (!context || context.applicantId !== userId) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const existing = await this.interviewsRepository.findById(interviewId);
+
+      if (!existing || existing.applicationId !== applicationId) {
+        return fail(new NotFoundError("Interview", interviewId));
+      }
+
+      const slot = existing.slots.find((s) => s.id === slotId);
+
+      if (!slot) {
+        return fail(new NotFoundError("Interview slot", slotId));
+      }
+
+      if (slot.startsAt <= new Date()) {
+        return fail(new ValidationError("This time slot has already passed"));
+      }
+
+      const interview = await this.interviewsRepository.selectSlot(
+        interviewId,
+        slotId,
+      );
+
+      await this.notifyRecipients("sendInterviewScheduled", interview, context);
+      await this.scheduleReminder(interview);
+
+      return ok(toCandidateInterview(interview));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to select interview slot"));
+    }
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────────────
+
+  private async findContextForOrganization(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<InterviewApplicationContext | null> {
+    const context =
+      await this.interviewsRepository.findApplicationContext(applicationId);
+
+    if (
+      !context ||
+      context.organizationId !== organizationId ||
+      context.jobId !== jobId
+    ) {
+      return null;
+    }
+
+    return context;
+  }
+
+  private async notifyCandidateOfProposal(
+    interview: Interview,
+    context: InterviewApplicationContext,
+    rescheduled: boolean,
+  ): Promise<void> {
+    try {
+      await queueService.addJob(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendInterviewProposal",
+        {
+          userId: context.applicantId,
+          email: context.applicantEmail,
+          fullName: context.applicantName,
+          jobTitle: context.jobTitle,
+          organizationName: context.organizationName,
+          interviewId: interview.id,
+          slots: interview.slots.map((slot) => ({
+            startsAt: slot.startsAt.toISOString(),
+            endsAt: slot.endsAt.toISOString(),
+          })),
+          rescheduled,
+        },
+      );
+    } catch (error) {
+      // Log error but don't fail the interview update if notification fails
+      logger.error(error, "Error Sending Interview Proposal Email");
+    }
+  }
+
+  private async notifyRecipients(
+    jobName: "sendInterviewScheduled" | "sendInterviewCancelled",
+    interview: Interview,
+    context: InterviewApplicationContext,
+    extra: { reason?: string | null } = {},
+  ): Promise<void> {
+    const details = toInterviewEmailDetails(interview, context);
+
+    for (const recipient of getInterviewRecipients(interview, context)) {
+      try {
+        await queueService.addJob(QUEUE_NAMES.EMAIL_QUEUE, jobName, {
+          ...recipient,
+          interview: details,
+          ...extra,
+        });
+      } catch (error) {
+        logger.error(
+          { error, interviewId: interview.id, jobName },
+          "Error Sending Interview Notification Email",
+        );
+      }
+    }
+  }
+
+  private async scheduleReminder(interview: Interview): Promise<void> {
+    if (!interview.scheduledStart) {
+      return;
+    }
+
+    const delay =
+      interview.scheduledStart.getTime() -
+      Date.now() -
+      INTERVIEW_REMINDER_LEAD_TIME_MS;
+
+    // Interviews booked less than a day ahead get no separate reminder
+    if (delay <= 0) {
+      return;
+    }
+
+    try {
+      await queueService.addJob(
+        QUEUE_NAMES.INTERVIEW_REMINDER_QUEUE,
+        "sendInterviewReminder",
+        {
+          interviewId: interview.id,
+          scheduledStart: interview.scheduledStart.toISOString(),
+        },
+        { delay },
+      );
+    } catch (error) {
+      logger.error(
+        { error, interviewId: interview.id },
+        "Error Scheduling Interview Reminder",
+      );
+    }
+  }
+}
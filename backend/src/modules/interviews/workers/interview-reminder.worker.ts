@@ -0,0 +1,95 @@
+import { Job as BullMqJob } from "bullmq";
+import logger from "@shared/logger";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import type { InterviewReminderJobPayloads } from "@shared/events";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+import type { InterviewsRepositoryPort } from "../ports/interviews-repository.port";
+import {
+  getInterviewRecipients,
+  toInterviewEmailDetails,
+} from "../helpers/interview-notifications";
+
+type InterviewReminderJobData =
+  InterviewReminderJobPayloads["sendInterviewReminder"];
+
+interface InterviewReminderWorkerDeps {
+  interviewsRepository: Pick<
+    InterviewsRepositoryPort,
+    "findById" | "findApplicationContext"
+  >;
+}
+
+function createReminderHandler(deps: InterviewReminderWorkerDeps) {
+  return async function sendInterviewReminderWorker(
+    job: BullMqJob<InterviewReminderJobData>,
+  ): Promise<{ sent: number }> {
+    const { interviewId, scheduledStart } = job.data;
+
+    const interview = await deps.interviewsRepository.findById(interviewId);
+
+    // Reminders are enqueued with a delay and never removed, so a reschedule
+    // or cancellation in the meantime leaves a stale job behind: skip it.
+    if (
+      !interview ||
+      interview.status !== "scheduled" ||
+      interview.scheduledStart?.toISOString() !== scheduledStart
+    ) {
+      logger.info({ interviewId }, "Skipping stale interview reminder");
+      return { sent: 0 };
+    }
+
+    const context = await deps.interviewsRepository.findApplicationContext(
+      interview.applicationId,
+    );
+
+    if (!context) {
+      logger.warn(
+        { interviewId },
+        "Application for interview reminder not found",
+      );
+      return { sent: 0 };
+    }
+
+    const details = toInterviewEmailDetails(interview, context);
+    const recipients = getInterviewRecipients(interview, context);
+
+    for (const recipient of recipients) {
+      await queueService.addJob(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendInterviewReminder",
+        { ...recipient, interview: details },
+      );
+    }
+
+    logger.info(
+      { interviewId, recipients: recipients.length },
+      "Queued interview reminders",
+    );
+    return { sent: recipients.length };
+  };
+}
+
+export function createInterviewReminderWorker(
+  deps: InterviewReminderWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<InterviewReminderJobData, { sent: number }>(
+        QUEUE_NAMES.INTERVIEW_REMINDER_QUEUE,
+        createReminderHandler(deps),
+        {
+          concurrency: 2,
+        },
+      );
+
+      logger.info("Interview reminder worker initialized");
+    },
+
+    async scheduleJobs() {
+      // Reminders are enqueued with a delay when an interview is scheduled
+    },
+  };
+}
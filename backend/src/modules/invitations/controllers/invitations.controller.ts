@@ -50,7 +50,11 @@ export class InvitationsController extends BaseController {
           ip: req.ip,
           userAgent: req.headers["user-agent"],
         },
-        resource: { type: "invitation", id: result.value.invitationId },
+        resource: {
+          type: "invitation",
+          id: result.value.invitationId,
+          organizationId,
+        },
         action: "sent invitation",
         outcome: "success",
         metadata: { organizationId, role },
@@ -125,6 +129,7 @@ export class InvitationsController extends BaseController {
         resource: {
           type: "organization",
           id: parseInt(organizationId),
+          organizationId: parseInt(organizationId),
         },
         action: "accepted invitation",
         outcome: "success",
@@ -135,6 +140,7 @@ export class InvitationsController extends BaseController {
         resource: {
           type: "organization",
           id: parseInt(organizationId),
+          organizationId: parseInt(organizationId),
         },
         action: "joined organization",
         outcome: "success",
@@ -171,7 +177,11 @@ export class InvitationsController extends BaseController {
           ip: req.ip,
           userAgent: req.headers["user-agent"],
         },
-        resource: { type: "invitation", id: invitationId },
+        resource: {
+          type: "invitation",
+          id: invitationId,
+          organizationId: parseInt(req.params.organizationId),
+        },
         action: "revoked invitation",
         outcome: "success",
       });
@@ -22,7 +22,7 @@ export function createInvitationsRoutes({
   authenticate: RequestHandler;
   orgGuards: Pick<
     OrganizationsGuards,
-    | "requireAdminOrOwnerRole"
+    | "requirePermission"
     | "ensureIsOrganizationMember"
     | "validateRoleAssignment"
   >;
@@ -40,7 +40,7 @@ export function createInvitationsRoutes({
   router.post(
     "/:organizationId/invitations",
     authenticate,
-    orgGuards.requireAdminOrOwnerRole(["owner", "admin"]),
+    orgGuards.requirePermission("members.invite"),
     orgGuards.ensureIsOrganizationMember,
     validate(createOrganizationInvitationSchema),
     orgGuards.validateRoleAssignment,
@@ -57,7 +57,7 @@ export function createInvitationsRoutes({
   router.delete(
     "/:organizationId/invitations/:invitationId",
     authenticate,
-    orgGuards.requireAdminOrOwnerRole(["owner", "admin"]),
+    orgGuards.requirePermission("members.invite"),
     orgGuards.ensureIsOrganizationMember,
     validate(cancelOrganizationInvitationSchema),
     invitationsGuards.ensureInvitationBelongsToOrganization,
@@ -1,23 +1,39 @@
 import type { TypesenseJobServicePort } from "@shared/ports/typesense-service.port";
+import type { TypesenseProfileServicePort } from "@shared/ports/typesense-profile-service.port";
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
+import type { EventBusPort } from "@shared/events/event-bus.port";
 import type { ApplicationStatusQueryPort } from "./ports/application-status-query.port";
 import type { SavedJobsStatusQueryPort } from "./ports/saved-jobs-status-query.port";
 import type { OrgMembershipForJobPort } from "./ports/org-membership-for-job.port";
+import type { JobPostingEntitlementsPort } from "./ports/job-posting-entitlements.port";
 import type { UserContactQueryPort } from "./ports/user-contact-query.port";
 import type { UserRecommendationProfilePort } from "./ports/user-recommendation-profile.port";
 import type { JobBoardRepositoryPort } from "./ports/job-board-repository.port";
 import type { JobInsightsRepositoryPort } from "./ports/job-insights-repository.port";
 
+import { JobModerationRepository } from "./repositories/job-moderation.repository";
 import { JobBoardService } from "./services/job-board.service";
+import { JobHoldPolicyService } from "./services/job-hold-policy.service";
+import { JobModerationService } from "./services/job-moderation.service";
 import { JobRecommendationService } from "./services/job-recommendation.service";
+import { CandidateMatchingService } from "./services/candidate-matching.service";
 import { JobBoardController } from "./controllers/job-board.controller";
+import { JobModerationController } from "./controllers/job-moderation.controller";
 import { createJobBoardGuards } from "./guards/job-board.guards";
 import { createTypesenseJobIndexerWorker } from "./workers/typesense-job-indexer.worker";
+import { createJobLifecycleWorker } from "./workers/job-lifecycle.worker";
+import { createCandidateMatchingWorker } from "./workers/candidate-matching.worker";
+import type { ModuleWorkers } from "@shared/types/module-workers";
 
 interface JobBoardModuleDeps {
   typesenseService: TypesenseJobServicePort;
+  typesenseProfileService: TypesenseProfileServicePort;
+  geocoder: GeocoderPort;
+  eventBus: EventBusPort;
   applicationStatusQuery: ApplicationStatusQueryPort;
   savedJobsStatusQuery: SavedJobsStatusQueryPort;
   orgMembershipForJob: OrgMembershipForJobPort;
+  jobPostingEntitlements: JobPostingEntitlementsPort;
   userContactQuery: UserContactQueryPort;
   userRecommendationProfile: UserRecommendationProfilePort;
   jobBoardRepository: JobBoardRepositoryPort;
@@ -33,7 +49,12 @@ interface JobBoardModuleDeps {
 export function createJobBoardModule(deps: JobBoardModuleDeps) {
   const repository = deps.jobBoardRepository;
   const jobInsightsRepository = deps.jobInsightsRepository;
+  const jobModerationRepository = new JobModerationRepository();
 
+  const holdPolicy = new JobHoldPolicyService(
+    jobModerationRepository,
+    deps.orgMembershipForJob,
+  );
   const service = new JobBoardService(
     repository,
     jobInsightsRepository,
@@ -42,22 +63,70 @@ export function createJobBoardModule(deps: JobBoardModuleDeps) {
     deps.savedJobsStatusQuery,
     deps.orgMembershipForJob,
     deps.userContactQuery,
+    deps.jobPostingEntitlements,
+    deps.geocoder,
+    deps.eventBus,
+    holdPolicy,
+  );
+  const moderationService = new JobModerationService(
+    jobModerationRepository,
+    repository,
+    deps.orgMembershipForJob,
+    deps.eventBus,
+    deps.jobPostingEntitlements,
   );
   const recommendationService = new JobRecommendationService(
     deps.typesenseService,
     deps.userRecommendationProfile,
   );
+  const candidateMatchingService = new CandidateMatchingService(
+    repository,
+    deps.typesenseProfileService,
+    deps.orgMembershipForJob,
+    deps.geocoder,
+  );
   const controller = new JobBoardController(service, recommendationService);
+  const moderationController = new JobModerationController(moderationService);
   const guards = createJobBoardGuards({
     jobBoardRepository: repository,
     orgMembershipQuery: deps.orgMembershipForJob,
   });
 
-  const workers = createTypesenseJobIndexerWorker({
+  const indexerWorker = createTypesenseJobIndexerWorker({
     typesenseService: deps.typesenseService,
+    geocoder: deps.geocoder,
+    orgMembershipForJob: deps.orgMembershipForJob,
+  });
+  const lifecycleWorker = createJobLifecycleWorker({
+    jobBoardService: service,
+  });
+  const candidateMatchingWorker = createCandidateMatchingWorker({
+    candidateMatchingService,
   });
 
-  return { controller, guards, repository, jobInsightsRepository, workers };
+  const workers: ModuleWorkers = {
+    initialize() {
+      indexerWorker.initialize();
+      lifecycleWorker.initialize();
+      candidateMatchingWorker.initialize();
+    },
+    async scheduleJobs() {
+      await indexerWorker.scheduleJobs();
+      await lifecycleWorker.scheduleJobs();
+      await candidateMatchingWorker.scheduleJobs();
+    },
+  };
+
+  return {
+    controller,
+    service,
+    moderationController,
+    guards,
+    repository,
+    jobInsightsRepository,
+    recommendationService,
+    workers,
+  };
 }
 
 export type JobBoardModule = ReturnType<typeof createJobBoardModule>;
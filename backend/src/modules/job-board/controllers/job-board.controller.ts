@@ -8,14 +8,26 @@ import type {
   DeleteJobSchema,
   GetJobSchema,
   Job,
+  JobDetail,
   JobWithEmployer,
   JobWithSkills,
+  JobWorkArea,
+  RepostJobSchema,
   UpdateJobSchema,
+  UpdateJobStatusSchema,
 } from "@/validations/job.validation";
 import type { GetOrganizationSchema } from "@/validations/organization.validation";
-import type { SearchParams } from "@/validations/base.validation";
+import type {
+  GetOrganizationJobStatsSchema,
+  OrganizationJobStats,
+} from "@/validations/jobAnalytics.validation";
+import {
+  JOB_SEARCH_FACET_FIELDS,
+  type SearchParams,
+} from "@/validations/base.validation";
 import type { ApiResponse, EmptyBody, PaginatedResponse } from "@shared/types";
 import { buildPaginationMeta } from "@shared/infrastructure/typesense.service/build-search-pagination";
+import { buildSearchFacets } from "@shared/infrastructure/typesense.service/build-search-facets";
 import type { JobRecommendationServicePort } from "@/modules/job-board";
 
 export class JobBoardController extends BaseController {
@@ -68,12 +80,22 @@ export class JobBoardController extends BaseController {
       state,
       country,
       skills,
+      workAreas,
       zipcode,
       experience,
       includeRemote,
       isActive,
       order,
       datePosted,
+      lat,
+      lng,
+      radius,
+      salaryMin,
+      salaryMax,
+      payPeriod,
+      currency,
+      supportRaisedByCandidate,
+      verifiedOnly,
     } = req.query;
 
     const result = await this.jobBoardService.searchJobs({
@@ -84,6 +106,7 @@ export class JobBoardController extends BaseController {
       sortBy,
       city,
       skills,
+      workAreas,
       state,
       country,
       zipcode,
@@ -92,6 +115,15 @@ export class JobBoardController extends BaseController {
       isActive,
       order,
       datePosted,
+      lat,
+      lng,
+      radius,
+      salaryMin,
+      salaryMax,
+      payPeriod,
+      currency,
+      supportRaisedByCandidate,
+      verifiedOnly,
     });
 
     if (result.isSuccess) {
@@ -103,6 +135,13 @@ export class JobBoardController extends BaseController {
         value.hits?.map((h) => h.document) ?? [],
         pagination,
         "Jobs retrieved successfully",
+        200,
+        {
+          facets: buildSearchFacets(
+            value.facet_counts,
+            JOB_SEARCH_FACET_FIELDS,
+          ),
+        },
       );
     } else {
       return this.handleControllerError(
@@ -147,17 +186,18 @@ export class JobBoardController extends BaseController {
 
   getJobById = async (
     req: Request<GetJobSchema["params"]>,
-    res: Response<
-      ApiResponse<Job & { employer: { name: string; logoUrl: string | null } }>
-    >,
+    res: Response<ApiResponse<JobDetail>>,
   ) => {
     const jobId = parseInt(req.params.jobId);
     const userId = req.userId;
 
-    const job = await this.jobBoardService.getJobById(jobId, userId);
+    const job = await this.jobBoardService.getJobById(jobId, userId, {
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
 
     if (job.isSuccess) {
-      return this.sendSuccess<JobWithEmployer>(
+      return this.sendSuccess<JobDetail>(
         res,
         job.value,
         "Job retrieved successfully",
@@ -195,15 +235,41 @@ export class JobBoardController extends BaseController {
           ip: req.ip,
           userAgent: req.headers["user-agent"],
         },
-        resource: { type: "job", id: job.value.id },
+        resource: {
+          type: "job",
+          id: job.value.id,
+          organizationId: job.value.employerId,
+        },
         action: "created job",
         outcome: "success",
-        metadata: { organizationId: req.organizationId },
+        metadata: {
+          organizationId: req.organizationId,
+          status: job.value.status,
+        },
       });
+      if (job.value.status === "published") {
+        auditService.emit({
+          name: "job.published",
+          actor: {
+            id: req.userId,
+            ip: req.ip,
+            userAgent: req.headers["user-agent"],
+          },
+          resource: {
+            type: "job",
+            id: job.value.id,
+            organizationId: job.value.employerId,
+          },
+          action: "published job",
+          outcome: "success",
+        });
+      }
       return this.sendSuccess<JobWithSkills>(
         res,
         job.value,
-        "Job created successfully",
+        job.value.status === "pending_review"
+          ? "Job created and held for review before it goes live"
+          : "Job created successfully",
         201,
       );
     } else {
@@ -230,10 +296,71 @@ export class JobBoardController extends BaseController {
     );
 
     if (job.isSuccess) {
+      const { job: updatedJob, previousStatus } = job.value;
+      auditService.emit({
+        name: "job.updated",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: {
+          type: "job",
+          id: jobId,
+          organizationId: updatedJob.employerId,
+        },
+        action: "updated job",
+        outcome: "success",
+        metadata: { fields: Object.keys(updateData ?? {}) },
+      });
+      // Rewording a live job may hold it for review, taking it offline
+      if (
+        previousStatus === "published" &&
+        updatedJob.status === "pending_review"
+      ) {
+        auditService.emit({
+          name: "job.unpublished",
+          actor: {
+            id: req.userId,
+            ip: req.ip,
+            userAgent: req.headers["user-agent"],
+          },
+          resource: {
+            type: "job",
+            id: jobId,
+            organizationId: updatedJob.employerId,
+          },
+          action: "held job for review",
+          outcome: "success",
+          metadata: { from: previousStatus, to: updatedJob.status },
+        });
+      }
+      return this.sendSuccess<Job>(res, updatedJob, "Job updated successfully");
+    } else {
+      return this.handleControllerError(res, job.error, "Failed to update job");
+    }
+  };
+
+  updateJobStatus = async (
+    req: Request<
+      UpdateJobStatusSchema["params"],
+      EmptyBody,
+      UpdateJobStatusSchema["body"]
+    >,
+    res: Response<ApiResponse<JobWithSkills>>,
+  ) => {
+    const jobId = parseInt(req.params.jobId);
+
+    const result = await this.jobBoardService.changeJobStatus(jobId, req.body);
+
+    if (result.isSuccess) {
+      const { job, previousStatus } = result.value;
+      // Going live or leaving the live state is a publish transition;
+      // moves between unpublished states are plain updates
       const eventName =
-        updateData.isActive === true
+        job.status === "published"
           ? "job.published"
-          : updateData.isActive === false
+          : previousStatus === "published"
             ? "job.unpublished"
             : "job.updated";
       auditService.emit({
@@ -243,19 +370,71 @@ export class JobBoardController extends BaseController {
           ip: req.ip,
           userAgent: req.headers["user-agent"],
         },
-        resource: { type: "job", id: jobId },
+        resource: {
+          type: "job",
+          id: jobId,
+          organizationId: job.employerId,
+        },
         action:
           eventName === "job.published"
             ? "published job"
             : eventName === "job.unpublished"
-              ? "unpublished job"
-              : "updated job",
+              ? `${job.status === "paused" ? "paused" : "closed"} job`
+              : `moved job to ${job.status}`,
         outcome: "success",
-        metadata: { fields: Object.keys(updateData ?? {}) },
+        metadata: { from: previousStatus, to: job.status },
       });
-      return this.sendSuccess<Job>(res, job.value, "Job updated successfully");
+      return this.sendSuccess<JobWithSkills>(
+        res,
+        job,
+        "Job status updated successfully",
+      );
     } else {
-      return this.handleControllerError(res, job.error, "Failed to update job");
+      return this.handleControllerError(
+        res,
+        result.error,
+        "Failed to update job status",
+      );
+    }
+  };
+
+  repostJob = async (
+    req: Request<RepostJobSchema["params"]>,
+    res: Response<ApiResponse<JobWithSkills>>,
+  ) => {
+    const jobId = parseInt(req.params.jobId);
+
+    const result = await this.jobBoardService.repostJob(jobId);
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "job.created",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: {
+          type: "job",
+          id: result.value.id,
+          organizationId: result.value.employerId,
+        },
+        action: "reposted job",
+        outcome: "success",
+        metadata: { repostedFrom: jobId },
+      });
+      return this.sendSuccess<JobWithSkills>(
+        res,
+        result.value,
+        "Job reposted successfully",
+        201,
+      );
+    } else {
+      return this.handleControllerError(
+        res,
+        result.error,
+        "Failed to repost job",
+      );
     }
   };
 
@@ -279,7 +458,11 @@ export class JobBoardController extends BaseController {
           ip: req.ip,
           userAgent: req.headers["user-agent"],
         },
-        resource: { type: "job", id: jobId },
+        resource: {
+          type: "job",
+          id: jobId,
+          organizationId: req.organizationId,
+        },
         action: "deleted job",
         outcome: "success",
         metadata: { organizationId: req.organizationId },
@@ -370,21 +553,23 @@ export class JobBoardController extends BaseController {
   };
 
   getOrganizationJobsStats = async (
-    req: Request<GetOrganizationSchema["params"]>,
-    res: Response,
+    req: Request<
+      GetOrganizationJobStatsSchema["params"],
+      EmptyBody,
+      EmptyBody,
+      GetOrganizationJobStatsSchema["query"]
+    >,
+    res: Response<ApiResponse<OrganizationJobStats>>,
   ) => {
     const organizationId = parseInt(req.params.organizationId);
-    const result =
-      await this.jobBoardService.getEmployerJobStats(organizationId);
+    const { from, to, jobId } = req.query;
+    const result = await this.jobBoardService.getEmployerJobStats(
+      organizationId,
+      { from, to, jobId },
+    );
 
     if (result.isSuccess) {
-      return this.sendSuccess<{
-        total: number;
-        active: number;
-        inactive: number;
-        totalApplications: number;
-        totalViews: number;
-      }>(
+      return this.sendSuccess<OrganizationJobStats>(
         res,
         result.value,
         "Organization job statistics retrieved successfully",
@@ -397,4 +582,43 @@ export class JobBoardController extends BaseController {
       );
     }
   };
+
+  recordApplyStart = async (
+    req: Request<GetJobSchema["params"]>,
+    res: Response<ApiResponse<null>>,
+  ) => {
+    const jobId = parseInt(req.params.jobId);
+    const result = await this.jobBoardService.recordApplyStart(jobId);
+
+    if (result.isSuccess) {
+      return this.sendSuccess(res, null, "Application start recorded");
+    } else {
+      return this.handleControllerError(
+        res,
+        result.error,
+        "Failed to record application start",
+      );
+    }
+  };
+
+  getWorkAreas = async (
+    _req: Request,
+    res: Response<ApiResponse<JobWorkArea[]>>,
+  ) => {
+    const result = await this.jobBoardService.getWorkAreas();
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Work areas retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(
+        res,
+        result.error,
+        "Failed to fetch work areas",
+      );
+    }
+  };
 }
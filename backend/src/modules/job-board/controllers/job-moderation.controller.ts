@@ -0,0 +1,256 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import { auditService } from "@shared/audit";
+import type { ApiResponse, PaginatedResponse } from "@shared/types";
+import type { JobHoldRuleConfig } from "@shared/constants/job-moderation";
+
+import type { JobModerationServicePort } from "@/modules/job-board/ports/job-moderation-service.port";
+import {
+  moderationQueueQuerySchema,
+  type DecideModerationReviewSchema,
+  type GetModerationReviewSchema,
+  type JobHoldRuleInput,
+  type JobReport,
+  type ModerationReview,
+  type ModerationReviewDetail,
+  type ReportJobSchema,
+  type WarnOrganizationSchema,
+} from "@/validations/jobModeration.validation";
+
+/**
+ * Controller for job reports filed by seekers and the moderation queue
+ * worked by platform staff. Staff decisions are audited here; queue reads
+ * are audited by the `auditRead` middleware on their routes.
+ */
+export class JobModerationController extends BaseController {
+  constructor(private jobModerationService: JobModerationServicePort) {
+    super();
+  }
+
+  reportJob = async (
+    req: Request<
+      ReportJobSchema["params"],
+      ApiResponse<JobReport>,
+      ReportJobSchema["body"]
+    >,
+    res: Response<ApiResponse<JobReport>>,
+  ) => {
+    const result = await this.jobModerationService.reportJob(
+      parseInt(req.params.jobId),
+      req.userId!,
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Thanks, our moderation team will review this job",
+        201,
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getQueue = async (
+    req: Request,
+    res: Response<PaginatedResponse<ModerationReview>>,
+  ) => {
+    // Validation middleware does not apply defaults or coercion to req.query
+    const query = moderationQueueQuerySchema.parse(req.query);
+
+    const result = await this.jobModerationService.getQueue(query);
+
+    if (result.isSuccess) {
+      const { items, pagination } = result.value;
+      return this.sendPaginatedResponse<ModerationReview>(
+        res,
+        items,
+        pagination,
+        "Moderation queue retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getReview = async (
+    req: Request<GetModerationReviewSchema["params"]>,
+    res: Response<ApiResponse<ModerationReviewDetail>>,
+  ) => {
+    const result = await this.jobModerationService.getReview(
+      parseInt(req.params.reviewId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Moderation review retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  approve = async (
+    req: Request<
+      DecideModerationReviewSchema["params"],
+      ApiResponse<ModerationReviewDetail>,
+      DecideModerationReviewSchema["body"]
+    >,
+    res: Response<ApiResponse<ModerationReviewDetail>>,
+  ) => {
+    const result = await this.jobModerationService.approve(
+      parseInt(req.params.reviewId),
+      req.userId!,
+      req.body.note,
+    );
+
+    if (result.isSuccess) {
+      const { review, previousStatus } = result.value;
+      this.auditStaffAction(req, review, "approved job");
+      if (review.jobStatus === "published" && previousStatus !== "published") {
+        auditService.emit({
+          name: "job.published",
+          actor: {
+            id: req.userId,
+            ip: req.ip,
+            userAgent: req.headers["user-agent"],
+          },
+          resource: {
+            type: "job",
+            id: review.jobId,
+            organizationId: review.employerId,
+          },
+          action: "published held job",
+          outcome: "success",
+          metadata: { from: previousStatus, reviewId: review.id },
+        });
+      }
+      return this.sendSuccess(res, review, "Job approved");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  remove = async (
+    req: Request<
+      DecideModerationReviewSchema["params"],
+      ApiResponse<ModerationReviewDetail>,
+      DecideModerationReviewSchema["body"]
+    >,
+    res: Response<ApiResponse<ModerationReviewDetail>>,
+  ) => {
+    const result = await this.jobModerationService.remove(
+      parseInt(req.params.reviewId),
+      req.userId!,
+      req.body.note,
+    );
+
+    if (result.isSuccess) {
+      this.auditStaffAction(req, result.value, "removed job");
+      return this.sendSuccess(res, result.value, "Job removed");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  warnOrganization = async (
+    req: Request<
+      WarnOrganizationSchema["params"],
+      ApiResponse<ModerationReviewDetail>,
+      WarnOrganizationSchema["body"]
+    >,
+    res: Response<ApiResponse<ModerationReviewDetail>>,
+  ) => {
+    const result = await this.jobModerationService.warnOrganization(
+      parseInt(req.params.reviewId),
+      req.body.message,
+    );
+
+    if (result.isSuccess) {
+      this.auditStaffAction(req, result.value, "warned organization");
+      return this.sendSuccess(res, result.value, "Organization warned");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getHoldRules = async (
+    _req: Request,
+    res: Response<ApiResponse<JobHoldRuleConfig[]>>,
+  ) => {
+    const result = await this.jobModerationService.getHoldRules();
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Auto-hold rules retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  updateHoldRule = async (
+    req: Request<
+      Record<string, never>,
+      ApiResponse<JobHoldRuleConfig>,
+      JobHoldRuleInput
+    >,
+    res: Response<ApiResponse<JobHoldRuleConfig>>,
+  ) => {
+    const result = await this.jobModerationService.updateHoldRule(
+      req.body,
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "read.admin",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "job_hold_rule", id: result.value.rule },
+        action: "updated auto-hold rule",
+        outcome: "success",
+        metadata: { enabled: result.value.enabled },
+      });
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Auto-hold rule updated successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  private auditStaffAction(
+    req: Request,
+    review: ModerationReviewDetail,
+    action: string,
+  ) {
+    auditService.emit({
+      name: "read.admin",
+      actor: {
+        id: req.userId,
+        ip: req.ip,
+        userAgent: req.headers["user-agent"],
+      },
+      resource: {
+        type: "job",
+        id: review.jobId,
+        organizationId: review.employerId,
+      },
+      action,
+      outcome: "success",
+      metadata: { reviewId: review.id },
+    });
+  }
+}
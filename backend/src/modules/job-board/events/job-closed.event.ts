@@ -0,0 +1,19 @@
+import { DomainEventType } from "@shared/events";
+import type { DomainEvent } from "@shared/events";
+
+export interface JobClosedPayload {
+  jobId: number;
+  status: "closed" | "expired" | "removed";
+}
+
+export function createJobClosedEvent(
+  payload: JobClosedPayload,
+  correlationId?: string,
+): DomainEvent<JobClosedPayload> {
+  return {
+    eventType: DomainEventType.JOB_CLOSED,
+    payload,
+    occurredAt: new Date().toISOString(),
+    correlationId,
+  };
+}
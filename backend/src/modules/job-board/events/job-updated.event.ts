@@ -0,0 +1,20 @@
+import { DomainEventType } from "@shared/events";
+import type { DomainEvent } from "@shared/events";
+
+export interface JobUpdatedPayload {
+  jobId: number;
+  /** Fields a candidate would care about that changed, e.g. "title" */
+  changedFields: string[];
+}
+
+export function createJobUpdatedEvent(
+  payload: JobUpdatedPayload,
+  correlationId?: string,
+): DomainEvent<JobUpdatedPayload> {
+  return {
+    eventType: DomainEventType.JOB_UPDATED,
+    payload,
+    occurredAt: new Date().toISOString(),
+    correlationId,
+  };
+}
@@ -0,0 +1,24 @@
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+
+/**
+ * Queues shortlisting candidates for a job that just went live and
+ * emailing the organization's followers about it. Every path that
+ * publishes a job calls this once the status change is saved.
+ */
+export async function enqueueJobGoLiveWork(jobId: number): Promise<void> {
+  await queueService.addJob(
+    QUEUE_NAMES.CANDIDATE_MATCH_QUEUE,
+    "matchCandidates",
+    { jobId },
+    { jobId: `candidate-match-${jobId}` },
+  );
+  await queueService.addJob(
+    QUEUE_NAMES.FOLLOWER_NOTIFICATION_QUEUE,
+    "notifyOrganizationFollowers",
+    { jobId },
+    { jobId: `follower-notification-${jobId}` },
+  );
+}
@@ -3,17 +3,27 @@ export type { JobBoardModule } from "./composition-root";
 // Concrete exports — used by composition-root.ts (circular dep) and workers
 export { JobBoardRepository } from "./repositories/job-board.repository";
 export { JobInsightsRepository } from "./repositories/job-insights.repository";
-export type { JobBoardServicePort } from "./ports/job-board-service.port";
-export type { JobBoardRepositoryPort } from "./ports/job-board-repository.port";
+export type {
+  JobBoardServicePort,
+  JobStatusChange,
+} from "./ports/job-board-service.port";
+export type {
+  JobBoardRepositoryPort,
+  CandidateMatch,
+} from "./ports/job-board-repository.port";
 export type { JobInsightsRepositoryPort } from "./ports/job-insights-repository.port";
 export type { ApplicationStatusQueryPort } from "./ports/application-status-query.port";
 export type { SavedJobsStatusQueryPort } from "./ports/saved-jobs-status-query.port";
 export type { OrgMembershipForJobPort } from "./ports/org-membership-for-job.port";
+export type { JobPostingEntitlementsPort } from "./ports/job-posting-entitlements.port";
 export type { UserContactQueryPort } from "./ports/user-contact-query.port";
 export type {
   UserRecommendationProfilePort,
   RecommendationProfile,
 } from "./ports/user-recommendation-profile.port";
+export type { JobModerationRepositoryPort } from "./ports/job-moderation-repository.port";
+export type { JobModerationServicePort } from "./ports/job-moderation-service.port";
+export type { JobHoldPolicyPort } from "./ports/job-hold-policy.port";
 export type {
   JobRecommendationServicePort,
   ScoredJob,
@@ -21,3 +31,8 @@ export type {
 export { createJobBoardGuards } from "./guards/job-board.guards";
 export type { JobBoardGuards } from "./guards/job-board.guards";
 export { createJobBoardRoutes } from "./routes/job-board.routes";
+export { createJobModerationRoutes } from "./routes/job-moderation.routes";
+export type { JobUpdatedPayload } from "./events/job-updated.event";
+export { createJobUpdatedEvent } from "./events/job-updated.event";
+export type { JobClosedPayload } from "./events/job-closed.event";
+export { createJobClosedEvent } from "./events/job-closed.event";
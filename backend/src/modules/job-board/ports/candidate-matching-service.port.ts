@@ -0,0 +1,13 @@
+import type { Result } from "@shared/result";
+import type { CandidateMatch } from "./job-board-repository.port";
+
+export interface CandidateMatchingServicePort {
+  /**
+   * Shortlists public, open-to-work candidates for a published job and
+   * emails the shortlist to the posting team. Jobs already matched, or no
+   * longer published, are skipped with an empty list.
+   */
+  matchCandidatesForJob(
+    jobId: number,
+  ): Promise<Result<CandidateMatch[], Error>>;
+}
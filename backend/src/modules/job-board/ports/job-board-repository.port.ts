@@ -5,24 +5,68 @@ import type {
   JobSkills,
   JobWithEmployer,
   JobWithSkills,
+  JobWorkArea,
   NewJob,
   UpdateJob,
 } from "@/validations/job.validation";
+import type {
+  ScreeningQuestion,
+  ScreeningQuestionInput,
+} from "@/validations/screeningQuestion.validation";
 import type { PaginationMeta } from "@shared/types";
+import type { JobStatus } from "@shared/constants/job-status";
 
 type JobSelect = typeof jobsDetails.$inferSelect;
 type JobInsert = typeof jobsDetails.$inferInsert;
 
+/** A candidate shortlisted for a job, scored from 0 to 1. */
+export interface CandidateMatch {
+  userId: number;
+  matchScore: number;
+}
+
 export interface JobBoardRepositoryPort extends BaseRepositoryPort<
   JobSelect,
   JobInsert
 > {
   createJob(
-    jobData: NewJob & { skills: JobSkills["name"][] },
+    jobData: NewJob & {
+      skills: JobSkills["name"][];
+      workAreaIds?: number[];
+      screeningQuestions?: ScreeningQuestionInput[];
+    },
   ): Promise<JobWithSkills>;
 
   updateJob(jobData: UpdateJob, jobId: number): Promise<JobWithSkills>;
 
+  /** Moves a job to a lifecycle status, keeping `isActive` in step. */
+  updateJobStatus(
+    jobId: number,
+    status: JobStatus,
+    publishAt?: Date | null,
+  ): Promise<void>;
+
+  /** Scheduled jobs whose publish time has come. */
+  findScheduledJobsDue(now: Date): Promise<Job[]>;
+
+  /** Published or paused jobs whose application deadline has passed. */
+  findJobsPastDeadline(now: Date): Promise<Job[]>;
+
+  /** Ids of an employer's published jobs. */
+  findPublishedJobIdsByEmployer(employerId: number): Promise<number[]>;
+
+  /**
+   * Copies a job with its skills, work areas and screening questions into a
+   * new draft without a deadline.
+   */
+  duplicateJob(jobId: number): Promise<JobWithSkills>;
+
+  /** Whether candidates have already been shortlisted for the job. */
+  hasCandidateMatches(jobId: number): Promise<boolean>;
+
+  /** Stores a job's candidate shortlist; re-saving a candidate updates their score. */
+  saveCandidateMatches(jobId: number, matches: CandidateMatch[]): Promise<void>;
+
   findJobById(
     id: number,
   ): Promise<{ job: Job; employer: JobWithEmployer["employer"] }>;
@@ -44,4 +88,14 @@ export interface JobBoardRepositoryPort extends BaseRepositoryPort<
   ): Promise<{ items: Job[]; pagination: PaginationMeta }>;
 
   findJobByIdWithSkills(jobId: number): Promise<JobWithSkills>;
+
+  findScreeningQuestionsByJobId(jobId: number): Promise<ScreeningQuestion[]>;
+
+  /** Lists the work areas jobs can be tagged with, alphabetically. */
+  findAllWorkAreas(): Promise<JobWorkArea[]>;
+
+  /** Counts an employer's active postings and how many of them are featured. */
+  countActiveJobsByEmployer(
+    employerId: number,
+  ): Promise<{ activeJobs: number; featuredJobs: number }>;
 }
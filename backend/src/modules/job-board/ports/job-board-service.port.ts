@@ -1,18 +1,30 @@
 import type { Result } from "@shared/result";
 import type {
   Job,
+  JobDetail,
   JobWithEmployer,
   JobWithSkills,
+  JobWorkArea,
   CreateJobSchema,
   UpdateJob,
-  OrganizationJobInsightInterface,
 } from "@/validations/job.validation";
 import type {
   JobDocumentType,
   SearchParams,
 } from "@/validations/base.validation";
+import type {
+  JobStatsQuery,
+  OrganizationJobStats,
+} from "@/validations/jobAnalytics.validation";
 import type { PaginationMeta } from "@shared/types";
 import type { SearchResponse } from "typesense/lib/Typesense/Documents";
+import type { JobStatus } from "@shared/constants/job-status";
+
+/** A job after a lifecycle transition, with the status it left. */
+export interface JobStatusChange {
+  job: JobWithSkills;
+  previousStatus: JobStatus;
+}
 
 export interface JobBoardServicePort {
   getAllActiveJobs(
@@ -33,9 +45,20 @@ export interface JobBoardServicePort {
   getJobById(
     id: number,
     userId?: number | undefined,
-  ): Promise<Result<JobWithEmployer, Error>>;
+    visitor?: { ip?: string; userAgent?: string },
+  ): Promise<Result<JobDetail, Error>>;
 
-  incrementJobViews(jobId: number): Promise<Result<null, Error>>;
+  /** Counts a view of the job, bucketed by day and viewer. */
+  incrementJobViews(
+    jobId: number,
+    viewerKey: string,
+  ): Promise<Result<null, Error>>;
+
+  /** Counts a candidate opening the application form of the job. */
+  recordApplyStart(jobId: number): Promise<Result<null, Error>>;
+
+  /** Lists the work areas jobs can be tagged with and searched by. */
+  getWorkAreas(): Promise<Result<JobWorkArea[], Error>>;
 
   getJobsByEmployer(
     employerId: number,
@@ -52,11 +75,48 @@ export interface JobBoardServicePort {
     jobData: CreateJobSchema["body"] & { employerId: number },
   ): Promise<Result<JobWithSkills, Error>>;
 
+  /**
+   * Edits a job. Rewording a live job may hold it for review, moving it to
+   * pending_review; the result carries the status it had before.
+   */
   updateJob(
     id: number,
     updateData: UpdateJob,
     requesterId: number,
-  ): Promise<Result<Job, Error>>;
+  ): Promise<Result<JobStatusChange, Error>>;
+
+  /**
+   * Moves a job through its lifecycle (see JOB_STATUS_TRANSITIONS). Going
+   * live takes a slot of the plan's limits.
+   */
+  changeJobStatus(
+    id: number,
+    change: { status: JobStatus; publishAt?: string },
+  ): Promise<Result<JobStatusChange, Error>>;
+
+  /** Copies a job into a new draft, e.g. to repost a closed or expired one. */
+  repostJob(id: number): Promise<Result<JobWithSkills, Error>>;
+
+  /**
+   * Publishes scheduled jobs whose publish time has come. Jobs the plan no
+   * longer has room for go back to draft and their posting team is emailed.
+   */
+  publishScheduledJobs(now?: Date): Promise<Result<Job[], Error>>;
+
+  /**
+   * Re-queues an organization's published jobs for indexing after it is
+   * suspended or reinstated, so search follows its status. Returns how
+   * many jobs were queued.
+   */
+  reindexOrganizationJobs(
+    organizationId: number,
+  ): Promise<Result<number, Error>>;
+
+  /**
+   * Expires live jobs past their application deadline and notifies each
+   * organization's posting team.
+   */
+  expireOverdueJobs(now?: Date): Promise<Result<Job[], Error>>;
 
   deleteJob(
     id: number,
@@ -66,5 +126,6 @@ export interface JobBoardServicePort {
 
   getEmployerJobStats(
     organizationId: number,
-  ): Promise<Result<OrganizationJobInsightInterface, Error>>;
+    query?: JobStatsQuery,
+  ): Promise<Result<OrganizationJobStats, Error>>;
 }
@@ -0,0 +1,18 @@
+import type { JobHoldReason } from "@shared/constants/job-moderation";
+
+/**
+ * Auto-hold check run whenever a job is about to go live. The job board
+ * keeps a job that trips a rule in `pending_review` and queues it for
+ * platform staff.
+ */
+export interface JobHoldPolicyPort {
+  /** The rules the job trips; empty when it may go live. */
+  evaluate(job: {
+    employerId: number;
+    title: string;
+    description: string;
+  }): Promise<JobHoldReason[]>;
+
+  /** Queues a held job for review, unless it is already queued. */
+  hold(jobId: number, reasons: JobHoldReason[]): Promise<void>;
+}
@@ -4,6 +4,11 @@ import type {
   JobInsight,
   OrganizationJobInsightInterface,
 } from "@/validations/job.validation";
+import type {
+  JobActivityMetric,
+  JobStatsDailyBucket,
+  JobStatsPosting,
+} from "@/validations/jobAnalytics.validation";
 
 type JobInsightsSelect = typeof jobInsights.$inferSelect;
 type JobInsightsInsert = typeof jobInsights.$inferInsert;
@@ -13,9 +18,35 @@ export interface JobInsightsRepositoryPort extends BaseRepositoryPort<
   JobInsightsInsert
 > {
   /**
-   * Placeholder method for getting job insights.
+   * Aggregates an organization's daily job analytics over an inclusive range
+   * of UTC days. Only days and jobs with activity are returned.
+   */
+  getJobInsights(
+    organizationId: number,
+    range: { from: string; to: string; jobId?: number },
+  ): Promise<{
+    daily: JobStatsDailyBucket[];
+    jobs: Omit<JobStatsPosting, "conversionRate">[];
+  }>;
+
+  /**
+   * Records a job view in the day's bucket for the viewer.
+   */
+  recordJobView(
+    jobId: number,
+    organizationId: number,
+    viewerKey: string,
+    day: string,
+  ): Promise<void>;
+
+  /**
+   * Increments one of a job's daily activity counters.
    */
-  getJobInsights(): Promise<void>;
+  recordJobActivity(
+    jobId: number,
+    metric: JobActivityMetric,
+    day: string,
+  ): Promise<void>;
 
   /**
    * Increments the view count for a specific job.
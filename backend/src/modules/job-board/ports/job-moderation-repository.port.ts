@@ -0,0 +1,57 @@
+import type { PaginationMeta } from "@shared/types";
+import type {
+  JobHoldReason,
+  JobHoldRuleConfig,
+} from "@shared/constants/job-moderation";
+import type {
+  JobReport,
+  ModerationQueueQuery,
+  ModerationReview,
+  ModerationReviewDetail,
+  ReportJobInput,
+} from "@/validations/jobModeration.validation";
+
+export interface JobModerationRepositoryPort {
+  /** Whether the user already reported the job. */
+  hasReported(jobId: number, reporterId: number): Promise<boolean>;
+
+  createReport(
+    data: ReportJobInput & { jobId: number; reporterId: number },
+  ): Promise<JobReport>;
+
+  /** The job's pending review, if it is already in the queue. */
+  findPendingReviewId(jobId: number): Promise<number | null>;
+
+  createReview(data: {
+    jobId: number;
+    trigger: "auto_hold" | "report";
+    holdReasons: JobHoldReason[];
+  }): Promise<number>;
+
+  findReviews(
+    filters: Omit<ModerationQueueQuery, "page" | "limit">,
+    page: { page: number; limit: number },
+  ): Promise<{ items: ModerationReview[]; pagination: PaginationMeta }>;
+
+  findReviewById(reviewId: number): Promise<ModerationReviewDetail | null>;
+
+  /**
+   * Closes a pending review with the staff decision and resolves the job's
+   * open reports.
+   */
+  decideReview(
+    reviewId: number,
+    decision: {
+      status: "approved" | "removed";
+      decidedBy: number;
+      decisionNote: string | null;
+    },
+  ): Promise<void>;
+
+  incrementWarningCount(reviewId: number): Promise<void>;
+
+  /** Rules configured by staff; rules without a row use the defaults. */
+  findHoldRules(): Promise<JobHoldRuleConfig[]>;
+
+  saveHoldRule(rule: JobHoldRuleConfig, updatedBy: number): Promise<void>;
+}
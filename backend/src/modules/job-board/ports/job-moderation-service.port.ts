@@ -0,0 +1,62 @@
+import type { Result } from "@shared/result";
+import type { PaginationMeta } from "@shared/types";
+import type { JobHoldRuleConfig } from "@shared/constants/job-moderation";
+import type { JobStatus } from "@shared/constants/job-status";
+import type {
+  JobHoldRuleInput,
+  JobReport,
+  ModerationQueueQuery,
+  ModerationReview,
+  ModerationReviewDetail,
+  ReportJobInput,
+} from "@/validations/jobModeration.validation";
+
+export interface JobModerationServicePort {
+  /** Files a seeker's report and puts the job in the moderation queue. */
+  reportJob(
+    jobId: number,
+    reporterId: number,
+    report: ReportJobInput,
+  ): Promise<Result<JobReport, Error>>;
+
+  getQueue(
+    query: ModerationQueueQuery,
+  ): Promise<
+    Result<{ items: ModerationReview[]; pagination: PaginationMeta }, Error>
+  >;
+
+  getReview(reviewId: number): Promise<Result<ModerationReviewDetail, Error>>;
+
+  /**
+   * Clears the job: a held job goes live if the organization's plan allows
+   * it, a reported one stays as it is. Returns the decided review with the
+   * job's status before the decision.
+   */
+  approve(
+    reviewId: number,
+    staffId: number,
+    note?: string,
+  ): Promise<
+    Result<{ review: ModerationReviewDetail; previousStatus: JobStatus }, Error>
+  >;
+
+  /** Takes the job down for good and tells the organization why. */
+  remove(
+    reviewId: number,
+    staffId: number,
+    note?: string,
+  ): Promise<Result<ModerationReviewDetail, Error>>;
+
+  /** Emails the organization's posting team a warning about the job. */
+  warnOrganization(
+    reviewId: number,
+    message: string,
+  ): Promise<Result<ModerationReviewDetail, Error>>;
+
+  getHoldRules(): Promise<Result<JobHoldRuleConfig[], Error>>;
+
+  updateHoldRule(
+    rule: JobHoldRuleInput,
+    staffId: number,
+  ): Promise<Result<JobHoldRuleConfig, Error>>;
+}
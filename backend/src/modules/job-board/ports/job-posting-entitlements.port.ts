@@ -0,0 +1,18 @@
+import type { Result } from "@shared/result";
+
+/**
+ * Cross-module port for the job-board module to check an organization's
+ * subscription plan before a posting goes live or becomes featured.
+ *
+ * Implemented by OrganizationsToJobBoardAdapter in src/shared/adapters/.
+ */
+export interface JobPostingEntitlementsPort {
+  /**
+   * Fails with the organization's plan error (402/403 with an upgrade hint)
+   * when the change would exceed its plan.
+   */
+  checkJobPosting(
+    organizationId: number,
+    change: { activating: boolean; featuring: boolean },
+  ): Promise<Result<null, Error>>;
+}
@@ -1,7 +1,10 @@
 /**
  * Cross-module port for the job-board module to verify organization membership
  * and existence. Used by guards (membership checks) and the service
- * (org existence validation, membership verification for updates).
+ * (org existence validation, membership verification for updates, the
+ * posting team notified when a job expires or is moderated, the
+ * organization's age for the new-organization hold rule, and hiding the jobs
+ * of suspended organizations).
  *
  * Implemented by OrganizationsToJobBoardAdapter in src/shared/adapters/.
  */
@@ -13,4 +16,18 @@ export interface OrgMembershipForJobPort {
 
   /** Check whether an organization exists (for job creation validation). */
   organizationExists(organizationId: number): Promise<boolean>;
+
+  /**
+   * Whether platform staff have suspended the organization. Its jobs are
+   * kept out of search and cannot be viewed by seekers until reinstated.
+   */
+  isOrganizationSuspended(organizationId: number): Promise<boolean>;
+
+  /** When the organization was created; null if it does not exist. */
+  findOrganizationCreatedAt(organizationId: number): Promise<Date | null>;
+
+  /** Members who manage the organization's postings, for lifecycle notices. */
+  findJobPostingTeam(
+    organizationId: number,
+  ): Promise<{ userId: number; email: string; fullName: string }[]>;
 }
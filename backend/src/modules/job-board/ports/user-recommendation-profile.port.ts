@@ -1,3 +1,5 @@
+import type { GeoPoint } from "@shared/ports/geocoder.port";
+
 /**
  * Port for reading the subset of user profile data needed to compute
  * in-app job recommendations.
@@ -17,6 +19,15 @@ export interface RecommendationProfile {
   jobTypes: string[] | null;
   /** Preferred compensation types (e.g. ["paid", "missionary"]); `null` if not set */
   compensationTypes: string[] | null;
+  /** Names of the preferred ministry work areas; empty if none selected */
+  workAreas: string[];
+  /** Preferred commute (e.g. "up_to_30_minutes"); `null` if not set */
+  commuteTime: string | null;
+  /**
+   * Geocoded profile location — only resolved when a commute time is set,
+   * since that is the only time recommendations search by radius.
+   */
+  geopoint: GeoPoint | null;
 }
 
 export interface UserRecommendationProfilePort {
@@ -1,6 +1,28 @@
-import { and, asc, desc, eq, inArray, like, or, sql, SQL } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  like,
+  lt,
+  lte,
+  or,
+  sql,
+  SQL,
+} from "drizzle-orm";
 import { SecurityUtils } from "@shared/utils/security";
-import { jobsDetails, jobSkills, organizations, skills } from "@/db/schema";
+import {
+  jobCandidateMatches,
+  jobScreeningQuestions,
+  jobsDetails,
+  jobSkills,
+  jobWorkAreas,
+  organizations,
+  skills,
+  workAreas,
+} from "@/db/schema";
 import { BaseRepository } from "@shared/base/base.repository";
 import { db } from "@shared/db/connection";
 import { calculatePagination, countRecords } from "@shared/db/utils";
@@ -11,8 +33,32 @@ import type {
   NewJob,
   UpdateJob,
 } from "@/validations/job.validation";
-import { DatabaseError, NotFoundError } from "@shared/errors";
-import type { JobBoardRepositoryPort } from "@/modules/job-board";
+import type { JobStatus } from "@shared/constants/job-status";
+import type { ScreeningQuestionInput } from "@/validations/screeningQuestion.validation";
+import { DatabaseError, NotFoundError, ValidationError } from "@shared/errors";
+import type {
+  CandidateMatch,
+  JobBoardRepositoryPort,
+} from "@/modules/job-board";
+
+// Screening questions loaded alongside a job, in the order candidates see them
+const screeningQuestionsColumns = {
+  columns: {
+    id: true,
+    question: true,
+    type: true,
+    options: true,
+    isRequired: true,
+    knockout: true,
+    position: true,
+  } as const,
+  orderBy: [asc(jobScreeningQuestions.position)],
+};
+
+// Work area names loaded alongside a job, for responses and the search index
+const workAreasColumns = {
+  with: { workArea: { columns: { name: true } } },
+} as const;
 
 export class JobBoardRepository
   extends BaseRepository<typeof jobsDetails>
@@ -22,12 +68,77 @@ export class JobBoardRepository
     super(jobsDetails, "Job");
   }
 
+  private async replaceScreeningQuestions(
+    transaction: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    jobId: number,
+    questions: ScreeningQuestionInput[],
+  ) {
+    await transaction
+      .delete(jobScreeningQuestions)
+      .where(eq(jobScreeningQuestions.jobId, jobId));
+
+    if (questions.length === 0) {
+      return;
+    }
+
+    await transaction.insert(jobScreeningQuestions).values(
+      questions.map((question, position) => ({
+        jobId,
+        question: question.question,
+        type: question.type,
+        options: question.options ?? null,
+        isRequired: question.isRequired,
+        knockout: question.knockout ?? null,
+        position,
+      })),
+    );
+  }
+
+  private async replaceWorkAreas(
+    transaction: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    jobId: number,
+    workAreaIds: number[],
+  ) {
+    const uniqueIds = [...new Set(workAreaIds)];
+
+    if (uniqueIds.length > 0) {
+      const known = await transaction
+        .select({ id: workAreas.id })
+        .from(workAreas)
+        .where(inArray(workAreas.id, uniqueIds));
+
+      if (known.length !== uniqueIds.length) {
+        const knownIds = new Set(known.map((row) => row.id));
+        throw new ValidationError(
+          `Invalid work area IDs: ${uniqueIds.filter((id) => !knownIds.has(id)).join(", ")}`,
+        );
+      }
+    }
+
+    await transaction.delete(jobWorkAreas).where(eq(jobWorkAreas.jobId, jobId));
+
+    if (uniqueIds.length > 0) {
+      await transaction
+        .insert(jobWorkAreas)
+        .values(uniqueIds.map((workAreaId) => ({ jobId, workAreaId })));
+    }
+  }
+
   async createJob(
-    jobData: NewJob & { skills: JobSkills["name"][] },
+    jobData: NewJob & {
+      skills: JobSkills["name"][];
+      workAreaIds?: number[];
+      screeningQuestions?: ScreeningQuestionInput[];
+    },
   ): Promise<JobWithSkills> {
     return await withDbErrorHandling(async () =>
       db.transaction(async (transaction) => {
-        const { skills: skillsPayload, ...jobPayload } = jobData;
+        const {
+          skills: skillsPayload,
+          workAreaIds,
+          screeningQuestions,
+          ...jobPayload
+        } = jobData;
         const [jobId] = await transaction
           .insert(jobsDetails)
           .values(jobPayload)
@@ -74,6 +185,19 @@ export class JobBoardRepository
               },
             });
         }
+
+        if (workAreaIds) {
+          await this.replaceWorkAreas(transaction, jobId.id, workAreaIds);
+        }
+
+        if (screeningQuestions) {
+          await this.replaceScreeningQuestions(
+            transaction,
+            jobId.id,
+            screeningQuestions,
+          );
+        }
+
         const jobWithSkills = await transaction.query.jobsDetails.findFirst({
           where: eq(jobsDetails.id, jobId.id),
           with: {
@@ -91,6 +215,8 @@ export class JobBoardRepository
                 name: true,
               },
             },
+            workAreas: workAreasColumns,
+            screeningQuestions: screeningQuestionsColumns,
           },
         });
 
@@ -103,6 +229,7 @@ export class JobBoardRepository
         return {
           ...jobWithSkills,
           skills: skillsArray,
+          workAreas: jobWithSkills.workAreas.map((wa) => wa.workArea.name),
         };
       }),
     );
@@ -111,7 +238,12 @@ export class JobBoardRepository
   async updateJob(jobData: UpdateJob, jobId: number): Promise<JobWithSkills> {
     return await withDbErrorHandling(async () =>
       db.transaction(async (transaction) => {
-        const { skills: skillsPayload, ...jobPayload } = jobData;
+        const {
+          skills: skillsPayload,
+          workAreaIds,
+          screeningQuestions,
+          ...jobPayload
+        } = jobData;
         const [jobResult] = await transaction
           .update(jobsDetails)
           .set(jobPayload)
@@ -158,6 +290,19 @@ export class JobBoardRepository
               set: { isRequired: sql`values(${jobSkills.isRequired})` },
             });
         }
+
+        if (workAreaIds) {
+          await this.replaceWorkAreas(transaction, jobId, workAreaIds);
+        }
+
+        if (screeningQuestions) {
+          await this.replaceScreeningQuestions(
+            transaction,
+            jobId,
+            screeningQuestions,
+          );
+        }
+
         const updatedJobWithSkills =
           await transaction.query.jobsDetails.findFirst({
             where: eq(jobsDetails.id, jobId),
@@ -176,6 +321,8 @@ export class JobBoardRepository
                   name: true,
                 },
               },
+              workAreas: workAreasColumns,
+              screeningQuestions: screeningQuestionsColumns,
             },
           });
 
@@ -190,11 +337,188 @@ export class JobBoardRepository
         return {
           ...updatedJobWithSkills,
           skills: skillsArray,
+          workAreas: updatedJobWithSkills.workAreas.map(
+            (wa) => wa.workArea.name,
+          ),
         };
       }),
     );
   }
 
+  async updateJobStatus(
+    jobId: number,
+    status: JobStatus,
+    publishAt: Date | null = null,
+  ): Promise<void> {
+    await withDbErrorHandling(async () => {
+      const [result] = await db
+        .update(jobsDetails)
+        .set({ status, isActive: status === "published", publishAt })
+        .where(eq(jobsDetails.id, jobId));
+
+      if (!result.affectedRows) {
+        throw new NotFoundError(`Job with Id: ${jobId} not found`);
+      }
+    });
+  }
+
+  async findScheduledJobsDue(now: Date) {
+    return withDbErrorHandling(
+      async () =>
+        await db
+          .select()
+          .from(jobsDetails)
+          .where(
+            and(
+              eq(jobsDetails.status, "scheduled"),
+              lte(jobsDetails.publishAt, now),
+            ),
+          ),
+    );
+  }
+
+  async findJobsPastDeadline(now: Date) {
+    return withDbErrorHandling(
+      async () =>
+        await db
+          .select()
+          .from(jobsDetails)
+          .where(
+            and(
+              inArray(jobsDetails.status, ["published", "paused"]),
+              isNotNull(jobsDetails.applicationDeadline),
+              lt(jobsDetails.applicationDeadline, now),
+            ),
+          ),
+    );
+  }
+
+  async findPublishedJobIdsByEmployer(employerId: number) {
+    const rows = await withDbErrorHandling(
+      async () =>
+        await db
+          .select({ id: jobsDetails.id })
+          .from(jobsDetails)
+          .where(
+            and(
+              eq(jobsDetails.employerId, employerId),
+              eq(jobsDetails.status, "published"),
+            ),
+          ),
+    );
+
+    return rows.map((row) => row.id);
+  }
+
+  async hasCandidateMatches(jobId: number) {
+    return withDbErrorHandling(async () => {
+      const [match] = await db
+        .select({ id: jobCandidateMatches.id })
+        .from(jobCandidateMatches)
+        .where(eq(jobCandidateMatches.jobId, jobId))
+        .limit(1);
+      return !!match;
+    });
+  }
+
+  async saveCandidateMatches(jobId: number, matches: CandidateMatch[]) {
+    if (matches.length === 0) {
+      return;
+    }
+
+    await withDbErrorHandling(
+      async () =>
+        await db
+          .insert(jobCandidateMatches)
+          .values(matches.map((match) => ({ jobId, ...match })))
+          // A retried run may find candidates stored by the attempt before
+          .onDuplicateKeyUpdate({
+            set: { matchScore: sql`values(${jobCandidateMatches.matchScore})` },
+          }),
+    );
+  }
+
+  async duplicateJob(jobId: number): Promise<JobWithSkills> {
+    const copyId = await withDbErrorHandling(async () =>
+      db.transaction(async (transaction) => {
+        const source = await transaction.query.jobsDetails.findFirst({
+          where: eq(jobsDetails.id, jobId),
+          with: {
+            skills: { columns: { skillId: true, isRequired: true } },
+            workAreas: { columns: { workAreaId: true } },
+            screeningQuestions: screeningQuestionsColumns,
+          },
+        });
+
+        if (!source) {
+          throw new NotFoundError(`Job with Id: ${jobId} not found`);
+        }
+
+        const {
+          id: _id,
+          createdAt: _createdAt,
+          updatedAt: _updatedAt,
+          skills: sourceSkills,
+          workAreas: sourceWorkAreas,
+          screeningQuestions,
+          ...jobPayload
+        } = source;
+
+        // The copy starts over as an unpublished draft without a deadline
+        const [copy] = await transaction
+          .insert(jobsDetails)
+          .values({
+            ...jobPayload,
+            status: "draft",
+            isActive: false,
+            isFeatured: false,
+            publishAt: null,
+            applicationDeadline: null,
+          })
+          .$returningId();
+
+        if (!copy) {
+          throw new DatabaseError("Failed to insert job");
+        }
+
+        if (sourceSkills.length > 0) {
+          await transaction.insert(jobSkills).values(
+            sourceSkills.map((s) => ({
+              jobId: copy.id,
+              skillId: s.skillId,
+              isRequired: s.isRequired,
+            })),
+          );
+        }
+
+        if (sourceWorkAreas.length > 0) {
+          await transaction.insert(jobWorkAreas).values(
+            sourceWorkAreas.map((wa) => ({
+              jobId: copy.id,
+              workAreaId: wa.workAreaId,
+            })),
+          );
+        }
+
+        await this.replaceScreeningQuestions(
+          transaction,
+          copy.id,
+          screeningQuestions.map((question) => ({
+            question: question.question,
+            type: question.type,
+            options: question.options ?? undefined,
+            isRequired: question.isRequired,
+            knockout: question.knockout ?? undefined,
+          })),
+        );
+
+        return copy.id;
+      }),
+    );
+
+    return this.findJobByIdWithSkills(copyId);
+  }
+
   async findJobById(id: number) {
     return withDbErrorHandling(async () => {
       const result = await db.query.jobsDetails.findFirst({
@@ -207,6 +531,7 @@ export class JobBoardRepository
               logoUrl: true,
               city: true,
               state: true,
+              isVerified: true,
             },
           },
         },
@@ -228,6 +553,18 @@ export class JobBoardRepository
     const { page = 1, limit = 10 } = options;
     const offset = (page - 1) * limit;
 
+    // Jobs of suspended organizations stay hidden until they are reinstated
+    const listed = and(
+      eq(jobsDetails.isActive, true),
+      inArray(
+        jobsDetails.employerId,
+        db
+          .select({ id: organizations.id })
+          .from(organizations)
+          .where(eq(organizations.status, "active")),
+      ),
+    );
+
     const items = await withDbErrorHandling(
       async () =>
         await db
@@ -239,20 +576,18 @@ export class JobBoardRepository
               city: organizations.city,
               state: organizations.state,
               logoUrl: organizations.logoUrl,
+              isVerified: organizations.isVerified,
             },
           })
           .from(jobsDetails)
           .leftJoin(organizations, eq(jobsDetails.employerId, organizations.id))
-          .where(eq(jobsDetails.isActive, true))
+          .where(listed)
           .orderBy(desc(jobsDetails.createdAt))
           .limit(limit)
           .offset(offset),
     );
 
-    const total = await countRecords(
-      jobsDetails,
-      eq(jobsDetails.isActive, true),
-    );
+    const total = await countRecords(jobsDetails, listed);
     const pagination = calculatePagination(total, page, limit);
 
     return { items, pagination };
@@ -327,6 +662,29 @@ export class JobBoardRepository
     return { items, pagination };
   }
 
+  async countActiveJobsByEmployer(employerId: number) {
+    const [row] = await withDbErrorHandling(
+      async () =>
+        await db
+          .select({
+            activeJobs: sql<number>`count(*)`,
+            featuredJobs: sql<number>`coalesce(sum(${jobsDetails.isFeatured}), 0)`,
+          })
+          .from(jobsDetails)
+          .where(
+            and(
+              eq(jobsDetails.employerId, employerId),
+              eq(jobsDetails.isActive, true),
+            ),
+          ),
+    );
+
+    return {
+      activeJobs: Number(row?.activeJobs ?? 0),
+      featuredJobs: Number(row?.featuredJobs ?? 0),
+    };
+  }
+
   async findJobByIdWithSkills(jobId: number): Promise<JobWithSkills> {
     return withDbErrorHandling(async () => {
       const jobWithSkills = await db.query.jobsDetails.findFirst({
@@ -346,6 +704,8 @@ export class JobBoardRepository
               name: true,
             },
           },
+          workAreas: workAreasColumns,
+          screeningQuestions: screeningQuestionsColumns,
         },
       });
 
@@ -365,7 +725,28 @@ export class JobBoardRepository
         ...jobWithSkills,
         employer: { name: jobWithSkills.employer.name },
         skills: skillsArray,
+        workAreas: jobWithSkills.workAreas.map((wa) => wa.workArea.name),
       };
     });
   }
+
+  async findScreeningQuestionsByJobId(jobId: number) {
+    return withDbErrorHandling(
+      async () =>
+        await db.query.jobScreeningQuestions.findMany({
+          where: eq(jobScreeningQuestions.jobId, jobId),
+          ...screeningQuestionsColumns,
+        }),
+    );
+  }
+
+  async findAllWorkAreas() {
+    return withDbErrorHandling(
+      async () =>
+        await db
+          .select({ id: workAreas.id, name: workAreas.name })
+          .from(workAreas)
+          .orderBy(asc(workAreas.name)),
+    );
+  }
 }
@@ -1,9 +1,42 @@
 import { BaseRepository } from "@shared/base/base.repository";
-import { jobApplications, jobInsights, jobsDetails } from "@/db/schema";
+import {
+  jobApplications,
+  jobDailyActivity,
+  jobDailyViews,
+  jobInsights,
+  jobsDetails,
+} from "@/db/schema";
 import { db } from "@shared/db/connection";
-import { count, eq, sql, sum } from "drizzle-orm";
+import {
+  and,
+  count,
+  eq,
+  gte,
+  inArray,
+  lte,
+  sql,
+  sum,
+  type SQL,
+} from "drizzle-orm";
 import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { NotFoundError } from "@shared/errors";
 import type { JobInsightsRepositoryPort } from "@/modules/job-board";
+import type {
+  JobActivityMetric,
+  JobActivityMetrics,
+  JobStatsDailyBucket,
+  JobStatsPosting,
+} from "@/validations/jobAnalytics.validation";
+
+type JobInsightsRange = { from: string; to: string; jobId?: number };
+
+const emptyMetrics = (): JobActivityMetrics => ({
+  views: 0,
+  uniqueViewers: 0,
+  saves: 0,
+  applyStarts: 0,
+  applications: 0,
+});
 
 /**
  * Repository class for managing job insights data, including views and applications.
@@ -20,9 +53,142 @@ export class JobInsightsRepository
   }
 
   /**
-   * Placeholder method for getting job insights.
+   * Aggregates an organization's daily job analytics over a date range.
+   * Only days and jobs with activity are returned; callers zero-fill.
+   * @param organizationId The ID of the organization.
+   * @param range Inclusive UTC days (YYYY-MM-DD), optionally for one job.
+   * @returns Daily buckets and per-job totals for the range.
    */
-  async getJobInsights() {}
+  async getJobInsights(organizationId: number, range: JobInsightsRange) {
+    return await withDbErrorHandling(async () => {
+      const viewsWhere = this.rangeFilter(jobDailyViews, organizationId, range);
+      const activityWhere = this.rangeFilter(
+        jobDailyActivity,
+        organizationId,
+        range,
+      );
+
+      const viewColumns = {
+        views: sum(jobDailyViews.views).mapWith(Number),
+        uniqueViewers: count(),
+      };
+      const activityColumns = {
+        saves: sum(jobDailyActivity.saves).mapWith(Number),
+        applyStarts: sum(jobDailyActivity.applyStarts).mapWith(Number),
+        applications: sum(jobDailyActivity.applications).mapWith(Number),
+      };
+
+      const [dailyViews, dailyActivity, jobViews, jobActivity] =
+        await Promise.all([
+          db
+            .select({ key: jobDailyViews.day, ...viewColumns })
+            .from(jobDailyViews)
+            .where(viewsWhere)
+            .groupBy(jobDailyViews.day),
+          db
+            .select({ key: jobDailyActivity.day, ...activityColumns })
+            .from(jobDailyActivity)
+            .where(activityWhere)
+            .groupBy(jobDailyActivity.day),
+          db
+            .select({ key: jobDailyViews.jobId, ...viewColumns })
+            .from(jobDailyViews)
+            .where(viewsWhere)
+            .groupBy(jobDailyViews.jobId),
+          db
+            .select({ key: jobDailyActivity.jobId, ...activityColumns })
+            .from(jobDailyActivity)
+            .where(activityWhere)
+            .groupBy(jobDailyActivity.jobId),
+        ]);
+
+      const daily = this.mergeMetrics(dailyViews, dailyActivity);
+      const byJob = this.mergeMetrics(jobViews, jobActivity);
+
+      const jobs =
+        byJob.size > 0
+          ? await db
+              .select({
+                id: jobsDetails.id,
+                title: jobsDetails.title,
+                isActive: jobsDetails.isActive,
+              })
+              .from(jobsDetails)
+              .where(inArray(jobsDetails.id, [...byJob.keys()]))
+          : [];
+
+      return {
+        daily: [...daily].map(
+          ([date, metrics]): JobStatsDailyBucket => ({ date, ...metrics }),
+        ),
+        jobs: jobs.map(
+          (job): Omit<JobStatsPosting, "conversionRate"> => ({
+            jobId: job.id,
+            title: job.title,
+            isActive: job.isActive,
+            ...byJob.get(job.id)!,
+          }),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Records a job view in the day's bucket for the viewer. The first view of
+   * the day by a viewer adds a row, which is what counts unique viewers.
+   * @param jobId The ID of the job.
+   * @param organizationId The ID of the organization posting the job.
+   * @param viewerKey Stable key of the viewer for the day.
+   * @param day UTC day, YYYY-MM-DD.
+   */
+  async recordJobView(
+    jobId: number,
+    organizationId: number,
+    viewerKey: string,
+    day: string,
+  ) {
+    await withDbErrorHandling(
+      async () =>
+        await db
+          .insert(jobDailyViews)
+          .values({ jobId, organizationId, day, viewerKey, views: 1 })
+          .onDuplicateKeyUpdate({
+            set: { views: sql`${jobDailyViews.views} + 1` },
+          }),
+    );
+  }
+
+  /**
+   * Increments one of a job's daily activity counters.
+   * @param jobId The ID of the job.
+   * @param metric The counter to increment.
+   * @param day UTC day, YYYY-MM-DD.
+   * @throws NotFoundError if the job does not exist.
+   */
+  async recordJobActivity(
+    jobId: number,
+    metric: JobActivityMetric,
+    day: string,
+  ) {
+    await withDbErrorHandling(async () => {
+      const [job] = await db
+        .select({ employerId: jobsDetails.employerId })
+        .from(jobsDetails)
+        .where(eq(jobsDetails.id, jobId))
+        .limit(1);
+
+      if (!job) {
+        throw new NotFoundError("Job", jobId);
+      }
+
+      await db
+        .insert(jobDailyActivity)
+        .values({ jobId, organizationId: job.employerId, day, [metric]: 1 })
+        .onDuplicateKeyUpdate({
+          set: { [metric]: sql`${jobDailyActivity[metric]} + 1` },
+        });
+    });
+  }
 
   /**
    * Increments the view count for a specific job.
@@ -108,4 +274,36 @@ export class JobInsightsRepository
     );
     return result;
   }
+
+  private rangeFilter(
+    table: typeof jobDailyViews | typeof jobDailyActivity,
+    organizationId: number,
+    range: JobInsightsRange,
+  ): SQL | undefined {
+    return and(
+      eq(table.organizationId, organizationId),
+      gte(table.day, range.from),
+      lte(table.day, range.to),
+      range.jobId !== undefined ? eq(table.jobId, range.jobId) : undefined,
+    );
+  }
+
+  /**
+   * Combines grouped view and activity rows into full metrics per key.
+   */
+  private mergeMetrics<K extends string | number>(
+    views: Array<{ key: K; views: number; uniqueViewers: number }>,
+    activity: Array<{
+      key: K;
+      saves: number;
+      applyStarts: number;
+      applications: number;
+    }>,
+  ): Map<K, JobActivityMetrics> {
+    const merged = new Map<K, JobActivityMetrics>();
+    for (const { key, ...metrics } of [...views, ...activity]) {
+      merged.set(key, { ...(merged.get(key) ?? emptyMetrics()), ...metrics });
+    }
+    return merged;
+  }
 }
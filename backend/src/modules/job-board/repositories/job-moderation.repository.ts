@@ -0,0 +1,281 @@
+import { and, count, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import {
+  jobHoldRules,
+  jobModerationReviews,
+  jobReports,
+  jobsDetails,
+  organizations,
+  user,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { calculatePagination, countRecords } from "@shared/db/utils";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { DatabaseError } from "@shared/errors";
+import type {
+  JobHoldReason,
+  JobHoldRuleConfig,
+} from "@shared/constants/job-moderation";
+import type { JobModerationRepositoryPort } from "../ports/job-moderation-repository.port";
+import type {
+  ModerationQueueQuery,
+  ModerationReview,
+  ReportJobInput,
+} from "@/validations/jobModeration.validation";
+
+const reviewColumns = {
+  id: jobModerationReviews.id,
+  jobId: jobModerationReviews.jobId,
+  jobTitle: jobsDetails.title,
+  jobStatus: jobsDetails.status,
+  employerId: jobsDetails.employerId,
+  employerName: organizations.name,
+  trigger: jobModerationReviews.trigger,
+  holdReasons: jobModerationReviews.holdReasons,
+  status: jobModerationReviews.status,
+  warningCount: jobModerationReviews.warningCount,
+  decidedBy: jobModerationReviews.decidedBy,
+  decisionNote: jobModerationReviews.decisionNote,
+  decidedAt: jobModerationReviews.decidedAt,
+  createdAt: jobModerationReviews.createdAt,
+};
+
+/** Seeker reports, the moderation queue and the auto-hold rule settings. */
+export class JobModerationRepository implements JobModerationRepositoryPort {
+  async hasReported(jobId: number, reporterId: number) {
+    return await withDbErrorHandling(async () => {
+      const [report] = await db
+        .select({ id: jobReports.id })
+        .from(jobReports)
+        .where(
+          and(
+            eq(jobReports.jobId, jobId),
+            eq(jobReports.reporterId, reporterId),
+          ),
+        )
+        .limit(1);
+      return !!report;
+    });
+  }
+
+  async createReport(
+    data: ReportJobInput & { jobId: number; reporterId: number },
+  ) {
+    return await withDbErrorHandling(async () => {
+      const [inserted] = await db
+        .insert(jobReports)
+        .values({ ...data, details: data.details || null })
+        .$returningId();
+
+      if (!inserted || isNaN(inserted.id)) {
+        throw new DatabaseError(`Invalid insertId returned: ${inserted?.id}`);
+      }
+
+      const report = await db.query.jobReports.findFirst({
+        where: eq(jobReports.id, inserted.id),
+      });
+      if (!report) {
+        throw new DatabaseError("Failed to retrieve created report");
+      }
+      return report;
+    });
+  }
+
+  async findPendingReviewId(jobId: number) {
+    return await withDbErrorHandling(async () => {
+      const [review] = await db
+        .select({ id: jobModerationReviews.id })
+        .from(jobModerationReviews)
+        .where(
+          and(
+            eq(jobModerationReviews.jobId, jobId),
+            eq(jobModerationReviews.status, "pending"),
+          ),
+        )
+        .limit(1);
+      return review?.id ?? null;
+    });
+  }
+
+  async createReview(data: {
+    jobId: number;
+    trigger: "auto_hold" | "report";
+    holdReasons: JobHoldReason[];
+  }) {
+    return await withDbErrorHandling(async () => {
+      const [inserted] = await db
+        .insert(jobModerationReviews)
+        .values(data)
+        .$returningId();
+
+      if (!inserted || isNaN(inserted.id)) {
+        throw new DatabaseError(`Invalid insertId returned: ${inserted?.id}`);
+      }
+      return inserted.id;
+    });
+  }
+
+  async findReviews(
+    filters: Omit<ModerationQueueQuery, "page" | "limit">,
+    { page, limit }: { page: number; limit: number },
+  ) {
+    return await withDbErrorHandling(async () => {
+      const conditions: SQL[] = [
+        eq(jobModerationReviews.status, filters.status),
+      ];
+      if (filters.trigger) {
+        conditions.push(eq(jobModerationReviews.trigger, filters.trigger));
+      }
+      const where = and(...conditions);
+
+      const [total, rows] = await Promise.all([
+        countRecords(jobModerationReviews, where),
+        db
+          .select(reviewColumns)
+          .from(jobModerationReviews)
+          .innerJoin(
+            jobsDetails,
+            eq(jobsDetails.id, jobModerationReviews.jobId),
+          )
+          .innerJoin(
+            organizations,
+            eq(organizations.id, jobsDetails.employerId),
+          )
+          .where(where)
+          // Oldest first: the queue is worked in the order jobs arrived
+          .orderBy(
+            filters.status === "pending"
+              ? jobModerationReviews.createdAt
+              : desc(jobModerationReviews.decidedAt),
+            jobModerationReviews.id,
+          )
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      const reportCounts = await this.countOpenReports(
+        rows.map((row) => row.jobId),
+      );
+      const items: ModerationReview[] = rows.map((row) => ({
+        ...row,
+        openReportCount: reportCounts.get(row.jobId) ?? 0,
+      }));
+
+      return { items, pagination: calculatePagination(total, page, limit) };
+    });
+  }
+
+  async findReviewById(reviewId: number) {
+    return await withDbErrorHandling(async () => {
+      const [review] = await db
+        .select({ ...reviewColumns, jobDescription: jobsDetails.description })
+        .from(jobModerationReviews)
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobModerationReviews.jobId))
+        .innerJoin(organizations, eq(organizations.id, jobsDetails.employerId))
+        .where(eq(jobModerationReviews.id, reviewId));
+      if (!review) return null;
+
+      const reports = await db
+        .select({
+          id: jobReports.id,
+          reporterId: jobReports.reporterId,
+          reporterName: user.fullName,
+          reason: jobReports.reason,
+          details: jobReports.details,
+          status: jobReports.status,
+          createdAt: jobReports.createdAt,
+        })
+        .from(jobReports)
+        .innerJoin(user, eq(user.id, jobReports.reporterId))
+        .where(eq(jobReports.jobId, review.jobId))
+        .orderBy(desc(jobReports.createdAt));
+
+      return {
+        ...review,
+        openReportCount: reports.filter((report) => report.status === "open")
+          .length,
+        reports,
+      };
+    });
+  }
+
+  async decideReview(
+    reviewId: number,
+    decision: {
+      status: "approved" | "removed";
+      decidedBy: number;
+      decisionNote: string | null;
+    },
+  ) {
+    await withDbErrorHandling(async () => {
+      await db.transaction(async (tx) => {
+        const [review] = await tx
+          .select({ jobId: jobModerationReviews.jobId })
+          .from(jobModerationReviews)
+          .where(eq(jobModerationReviews.id, reviewId));
+        if (!review) return;
+
+        await tx
+          .update(jobModerationReviews)
+          .set({ ...decision, decidedAt: new Date() })
+          .where(eq(jobModerationReviews.id, reviewId));
+        await tx
+          .update(jobReports)
+          .set({ status: "resolved" })
+          .where(
+            and(
+              eq(jobReports.jobId, review.jobId),
+              eq(jobReports.status, "open"),
+            ),
+          );
+      });
+    });
+  }
+
+  async incrementWarningCount(reviewId: number) {
+    await withDbErrorHandling(async () => {
+      await db
+        .update(jobModerationReviews)
+        .set({ warningCount: sql`${jobModerationReviews.warningCount} + 1` })
+        .where(eq(jobModerationReviews.id, reviewId));
+    });
+  }
+
+  async findHoldRules() {
+    return await withDbErrorHandling(async () => {
+      const rows = await db
+        .select({
+          rule: jobHoldRules.rule,
+          enabled: jobHoldRules.enabled,
+          settings: jobHoldRules.settings,
+        })
+        .from(jobHoldRules);
+      // The settings column is typed per rule by the validation schema
+      return rows as JobHoldRuleConfig[];
+    });
+  }
+
+  async saveHoldRule(rule: JobHoldRuleConfig, updatedBy: number) {
+    await withDbErrorHandling(async () => {
+      await db
+        .insert(jobHoldRules)
+        .values({ ...rule, updatedBy })
+        .onDuplicateKeyUpdate({
+          set: { enabled: rule.enabled, settings: rule.settings, updatedBy },
+        });
+    });
+  }
+
+  private async countOpenReports(jobIds: number[]) {
+    if (jobIds.length === 0) return new Map<number, number>();
+
+    const rows = await db
+      .select({ jobId: jobReports.jobId, count: count() })
+      .from(jobReports)
+      .where(
+        and(inArray(jobReports.jobId, jobIds), eq(jobReports.status, "open")),
+      )
+      .groupBy(jobReports.jobId);
+
+    return new Map(rows.map((row) => [row.jobId, row.count]));
+  }
+}
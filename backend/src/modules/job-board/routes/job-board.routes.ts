@@ -1,5 +1,6 @@
 import { Router, type RequestHandler } from "express";
 import type { JobBoardController } from "../controllers/job-board.controller";
+import type { JobModerationController } from "../controllers/job-moderation.controller";
 import type { JobBoardGuards } from "@/modules/job-board";
 import type { OrganizationsGuards } from "@/modules/organizations";
 import validate from "@/middleware/validation.middleware";
@@ -7,13 +8,17 @@ import {
   createJobSchema,
   getJobSchema,
   deleteJobSchema,
+  repostJobSchema,
   updateJobSchema,
+  updateJobStatusSchema,
 } from "@/validations/job.validation";
+import { reportJobSchema } from "@/validations/jobModeration.validation";
 import {
   searchParams,
   recommendationParams,
 } from "@/validations/base.validation";
 import { getOrganizationSchema } from "@/validations/organization.validation";
+import { getOrganizationJobStatsSchema } from "@/validations/jobAnalytics.validation";
 import {
   cacheMiddleware,
   invalidateCacheMiddleware,
@@ -26,17 +31,17 @@ export function createJobBoardRoutes({
   orgGuards,
   jobBoardGuards,
   controller,
+  moderationController,
 }: {
   authenticate: RequestHandler;
   optionalAuthenticate: RequestHandler;
   orgGuards: Pick<
     OrganizationsGuards,
-    | "requireJobPostingRole"
-    | "ensureIsOrganizationMember"
-    | "requireDeleteJobPermission"
+    "requirePermission" | "ensureIsOrganizationMember"
   >;
   jobBoardGuards: JobBoardGuards;
   controller: JobBoardController;
+  moderationController: JobModerationController;
 }): Router {
   const router = Router();
 
@@ -61,6 +66,13 @@ export function createJobBoardRoutes({
     controller.searchJobs,
   );
 
+  // GET /jobs/work-areas (must be before /:jobId to avoid param capture)
+  router.get(
+    "/work-areas",
+    cacheMiddleware({ ttl: 3600 }),
+    controller.getWorkAreas,
+  );
+
   // GET /jobs/recommendations (must be before /:jobId to avoid param capture)
   router.get(
     "/recommendations",
@@ -78,13 +90,13 @@ export function createJobBoardRoutes({
     controller.getRecommendations,
   );
 
-  // Employer routes (require authentication + job posting role)
+  // Employer routes (require authentication + a jobs permission)
 
   // GET /jobs/my/posted (must be before /:jobId to avoid param capture)
   router.get(
     "/my/posted",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("jobs.view"),
     cacheMiddleware({ ttl: 300 }),
     controller.getMyJobs,
   );
@@ -99,11 +111,31 @@ export function createJobBoardRoutes({
     controller.getJobById,
   );
 
+  // POST /jobs/:jobId/apply-start
+  router.post(
+    "/:jobId/apply-start",
+    authenticate,
+    validate(getJobSchema),
+    controller.recordApplyStart,
+  );
+
+  // POST /jobs/:jobId/reports
+  router.post(
+    "/:jobId/reports",
+    authenticate,
+    validate(reportJobSchema),
+    moderationController.reportJob,
+  );
+
   // POST /jobs
   router.post(
     "/",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("jobs.create"),
+    // Anything but a draft goes live now or on schedule
+    orgGuards.requirePermission("jobs.publish", {
+      when: (req) => req.body?.status !== "draft",
+    }),
     validate(createJobSchema),
     invalidateCacheMiddleware(() => cacheKeys.jobs),
     controller.createJob,
@@ -113,18 +145,45 @@ export function createJobBoardRoutes({
   router.put(
     "/:jobId",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    jobBoardGuards.ensureJobOwnership,
+    orgGuards.requirePermission("jobs.update"),
+    // isFeatured changes how the job is promoted
+    orgGuards.requirePermission("jobs.publish", {
+      when: (req) => req.body?.isFeatured !== undefined,
+    }),
     validate(updateJobSchema),
     invalidateCacheMiddleware(() => cacheKeys.jobs),
     controller.updateJob,
   );
 
+  // PATCH /jobs/:jobId/status
+  router.patch(
+    "/:jobId/status",
+    authenticate,
+    jobBoardGuards.ensureJobOwnership,
+    orgGuards.requirePermission("jobs.publish"),
+    validate(updateJobStatusSchema),
+    invalidateCacheMiddleware(() => cacheKeys.jobs),
+    controller.updateJobStatus,
+  );
+
+  // POST /jobs/:jobId/repost
+  router.post(
+    "/:jobId/repost",
+    authenticate,
+    jobBoardGuards.ensureJobOwnership,
+    orgGuards.requirePermission("jobs.create"),
+    validate(repostJobSchema),
+    invalidateCacheMiddleware(() => cacheKeys.jobs),
+    controller.repostJob,
+  );
+
   // DELETE /jobs/:jobId
   router.delete(
     "/:jobId",
     authenticate,
     jobBoardGuards.ensureJobOwnership,
-    orgGuards.requireDeleteJobPermission(),
+    orgGuards.requirePermission("jobs.delete"),
     validate(deleteJobSchema),
     // `jobs` is a prefix glob (`cache:jobs*`) that already covers the
     // `jobs/<jobId>` detail key, so no separate per-id invalidation is needed.
@@ -136,7 +195,7 @@ export function createJobBoardRoutes({
   router.get(
     "/employer/:organizationId/jobs",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("jobs.view"),
     orgGuards.ensureIsOrganizationMember,
     validate(getOrganizationSchema),
     cacheMiddleware({ ttl: 300 }),
@@ -148,7 +207,7 @@ export function createJobBoardRoutes({
     "/employer/:organizationId/jobs/stats",
     authenticate,
     orgGuards.ensureIsOrganizationMember,
-    validate(getOrganizationSchema),
+    validate(getOrganizationJobStatsSchema),
     controller.getOrganizationJobsStats,
   );
 
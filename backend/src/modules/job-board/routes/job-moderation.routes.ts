@@ -0,0 +1,127 @@
+import { Router, type RequestHandler } from "express";
+
+import type { JobModerationController } from "../controllers/job-moderation.controller";
+import type { IdentityGuards } from "@/modules/identity";
+import validate from "@/middleware/validation.middleware";
+import { auditRead } from "@/middleware/audit-read.middleware";
+import {
+  decideModerationReviewSchema,
+  getModerationReviewSchema,
+  listModerationQueueSchema,
+  updateJobHoldRuleSchema,
+  warnOrganizationSchema,
+} from "@/validations/jobModeration.validation";
+
+/**
+ * Moderation routes for platform staff, mounted under the back office.
+ * Every route requires the staff platform role. Nothing is cached: staff
+ * must see the queue as it is.
+ */
+export function createJobModerationRoutes({
+  authenticate,
+  identityGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  identityGuards: Pick<IdentityGuards, "requirePlatformStaff">;
+  controller: JobModerationController;
+}): Router {
+  const router = Router();
+
+  /**
+   * Lists jobs awaiting a moderation decision, oldest first.
+   *
+   * @route GET /queue
+   */
+  router.get(
+    "/queue",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", () => ({ type: "job_moderation_review" })),
+    validate(listModerationQueueSchema),
+    controller.getQueue,
+  );
+
+  /**
+   * Returns a review with the job's description and every report filed.
+   *
+   * @route GET /queue/:reviewId
+   */
+  router.get(
+    "/queue/:reviewId",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", (req) => ({
+      type: "job_moderation_review",
+      id: String(req.params.reviewId),
+    })),
+    validate(getModerationReviewSchema),
+    controller.getReview,
+  );
+
+  /**
+   * Clears the job. A held job is published and indexed.
+   *
+   * @route POST /queue/:reviewId/approve
+   */
+  router.post(
+    "/queue/:reviewId/approve",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(decideModerationReviewSchema),
+    controller.approve,
+  );
+
+  /**
+   * Takes the job down and emails the organization's posting team.
+   *
+   * @route POST /queue/:reviewId/remove
+   */
+  router.post(
+    "/queue/:reviewId/remove",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(decideModerationReviewSchema),
+    controller.remove,
+  );
+
+  /**
+   * Emails the organization's posting team a warning. The review stays open.
+   *
+   * @route POST /queue/:reviewId/warn
+   */
+  router.post(
+    "/queue/:reviewId/warn",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(warnOrganizationSchema),
+    controller.warnOrganization,
+  );
+
+  /**
+   * Returns every auto-hold rule with its effective settings.
+   *
+   * @route GET /hold-rules
+   */
+  router.get(
+    "/hold-rules",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    controller.getHoldRules,
+  );
+
+  /**
+   * Enables, disables or reconfigures one auto-hold rule.
+   *
+   * @route PUT /hold-rules
+   */
+  router.put(
+    "/hold-rules",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(updateJobHoldRuleSchema),
+    controller.updateHoldRule,
+  );
+
+  return router;
+}
@@ -0,0 +1,181 @@
+import { fail, ok, Result } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import { AppError, DatabaseError } from "@shared/errors";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import { TypesenseQueryBuilder } from "@shared/infrastructure/typesense.service/typesense-queryBuilder";
+import logger from "@shared/logger";
+
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
+import type {
+  ProfileDocument,
+  TypesenseProfileServicePort,
+} from "@shared/ports/typesense-profile-service.port";
+import type { ShortlistedCandidate } from "@shared/ports/email-service.port";
+import type { CandidateMatchingServicePort } from "@/modules/job-board/ports/candidate-matching-service.port";
+import type {
+  CandidateMatch,
+  JobBoardRepositoryPort,
+  OrgMembershipForJobPort,
+} from "@/modules/job-board";
+
+/** Candidates kept on a job's shortlist. */
+const SHORTLIST_SIZE = 10;
+
+/** Hits scored per job; the best `SHORTLIST_SIZE` are kept. */
+const SEARCH_PAGE_SIZE = 50;
+
+/** How far from an on-site job candidates are looked for, in miles. */
+const MATCH_RADIUS_MILES = 50;
+
+interface ScoredCandidate {
+  match: CandidateMatch;
+  candidate: ShortlistedCandidate;
+}
+
+export class CandidateMatchingService
+  extends BaseService
+  implements CandidateMatchingServicePort
+{
+  constructor(
+    private jobBoardRepository: Pick<
+      JobBoardRepositoryPort,
+      "findJobByIdWithSkills" | "hasCandidateMatches" | "saveCandidateMatches"
+    >,
+    private typesenseProfileService: TypesenseProfileServicePort,
+    private orgMembershipForJob: Pick<
+      OrgMembershipForJobPort,
+      "findJobPostingTeam"
+    >,
+    private geocoder: GeocoderPort,
+  ) {
+    super();
+  }
+
+  async matchCandidatesForJob(
+    jobId: number,
+  ): Promise<Result<CandidateMatch[], Error>> {
+    try {
+      const job = await this.jobBoardRepository.findJobByIdWithSkills(jobId);
+      if (job.status !== "published") {
+        return ok([]);
+      }
+
+      // A job paused and published again keeps the shortlist from its first run
+      if (await this.jobBoardRepository.hasCandidateMatches(jobId)) {
+        return ok([]);
+      }
+
+      const terms = [...new Set([...job.skills, ...job.workAreas])];
+      if (terms.length === 0) {
+        return ok([]);
+      }
+
+      const queryBuilder = new TypesenseQueryBuilder()
+        .addSingleFilter("isProfilePublic", true)
+        .addSingleFilter("intent", "seeker")
+        .addSingleFilter("openToWork", true);
+
+      if (!job.isRemote) {
+        const center = await this.geocoder.geocode({
+          city: job.city,
+          state: job.state,
+          country: job.country,
+          zipcode: job.zipcode?.toString(),
+        });
+        if (center) {
+          queryBuilder.addGeoRadiusFilter(center, MATCH_RADIUS_MILES);
+        }
+      }
+
+      // Profiles carry no work areas of their own; a work area named in a
+      // candidate's headline ("Youth Ministry Director") still counts
+      const results =
+        await this.typesenseProfileService.searchProfilesCollection({
+          q: terms.join(" "),
+          queryBy: "skills,headline",
+          filterBy: queryBuilder.build(),
+          perPage: SEARCH_PAGE_SIZE,
+          prefix: false,
+          numTypos: 0,
+          dropTokensThreshold: SEARCH_PAGE_SIZE,
+        });
+
+      const shortlist = results.hits
+        .map((doc) => this.scoreCandidate(doc, terms))
+        .filter((scored): scored is ScoredCandidate => scored !== null)
+        .sort((a, b) => b.match.matchScore - a.match.matchScore)
+        .slice(0, SHORTLIST_SIZE);
+
+      if (shortlist.length === 0) {
+        return ok([]);
+      }
+
+      const matches = shortlist.map(({ match }) => match);
+      await this.jobBoardRepository.saveCandidateMatches(jobId, matches);
+
+      const team = await this.orgMembershipForJob.findJobPostingTeam(
+        job.employerId,
+      );
+      for (const member of team) {
+        await queueService.addJob(
+          QUEUE_NAMES.EMAIL_QUEUE,
+          "sendMatchedCandidates",
+          {
+            userId: member.userId,
+            email: member.email,
+            fullName: member.fullName,
+            jobId,
+            jobTitle: job.title,
+            candidates: shortlist.map(({ candidate }) => candidate),
+            searchSkills: job.skills,
+          },
+        );
+      }
+
+      return ok(matches);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      logger.error(error, "Failed to match candidates for job");
+      return fail(new DatabaseError("Failed to match candidates for job"));
+    }
+  }
+
+  /**
+   * Scores a candidate by the share of the job's skills and work areas their
+   * skills or headline mention; null when they mention none.
+   */
+  private scoreCandidate(
+    doc: ProfileDocument,
+    terms: string[],
+  ): ScoredCandidate | null {
+    const skills = new Set(doc.skills.map((skill) => skill.toLowerCase()));
+    const headline = doc.headline.toLowerCase();
+    const matchedTerms = terms.filter((term) => {
+      const normalized = term.toLowerCase();
+      return skills.has(normalized) || headline.includes(normalized);
+    });
+
+    if (matchedTerms.length === 0) {
+      return null;
+    }
+
+    return {
+      match: {
+        userId: doc.userId,
+        matchScore:
+          Math.round((matchedTerms.length / terms.length) * 10_000) / 10_000,
+      },
+      candidate: {
+        name: doc.name,
+        headline: doc.headline,
+        location: doc.location,
+        matchedTerms,
+      },
+    };
+  }
+}
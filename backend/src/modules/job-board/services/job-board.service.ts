@@ -7,30 +7,105 @@ import {
 import {
   NotFoundError,
   ForbiddenError,
+  ConflictError,
   DatabaseError,
   AppError,
+  ValidationError,
 } from "@shared/errors";
+import { createHash } from "node:crypto";
 import { SecurityUtils } from "@shared/utils/security";
 import { TypesenseQueryBuilder } from "@shared/infrastructure/typesense.service/typesense-queryBuilder";
+import { geoDistanceSort } from "@shared/infrastructure/typesense.service/geo-search";
 import logger from "@shared/logger";
+import type { EventBusPort } from "@shared/events";
 
-import type { JobBoardServicePort } from "@/modules/job-board";
+import type { JobBoardServicePort, JobStatusChange } from "@/modules/job-board";
 import type { JobBoardRepositoryPort } from "@/modules/job-board";
 import type { JobInsightsRepositoryPort } from "@/modules/job-board";
 import type { TypesenseJobServicePort } from "@shared/ports/typesense-service.port";
+import type { GeocoderPort, GeoPoint } from "@shared/ports/geocoder.port";
 import type { ApplicationStatusQueryPort } from "@/modules/job-board/ports/application-status-query.port";
 import type { SavedJobsStatusQueryPort } from "@/modules/job-board/ports/saved-jobs-status-query.port";
 import type { OrgMembershipForJobPort } from "@/modules/job-board/ports/org-membership-for-job.port";
 import type { UserContactQueryPort } from "@/modules/job-board/ports/user-contact-query.port";
+import type { JobPostingEntitlementsPort } from "@/modules/job-board/ports/job-posting-entitlements.port";
+import type { JobHoldPolicyPort } from "@/modules/job-board/ports/job-hold-policy.port";
+import { createJobUpdatedEvent } from "@/modules/job-board/events/job-updated.event";
+import { createJobClosedEvent } from "@/modules/job-board/events/job-closed.event";
+import { enqueueJobGoLiveWork } from "@/modules/job-board/helpers/job-go-live";
 
 import type {
-  JobWithEmployer,
+  JobDetail,
   JobWithSkills,
+  JobWorkArea,
   CreateJobSchema,
   UpdateJob,
   Job,
 } from "@/validations/job.validation";
-import type { SearchParams } from "@/validations/base.validation";
+import {
+  DEFAULT_JOB_STATS_RANGE_DAYS,
+  type JobActivityMetrics,
+  type JobStatsDailyBucket,
+  type JobStatsQuery,
+  type OrganizationJobStats,
+} from "@/validations/jobAnalytics.validation";
+import {
+  JOB_SEARCH_FACET_FIELDS,
+  type JobSearchFacetField,
+  type SearchParams,
+} from "@/validations/base.validation";
+import type { ScreeningQuestionInput } from "@/validations/screeningQuestion.validation";
+import {
+  JOB_STATUS_TRANSITIONS,
+  type JobStatus,
+} from "@shared/constants/job-status";
+
+const DAY_MS = 86_400_000;
+
+/** UTC day of a date, YYYY-MM-DD — the bucket job analytics are kept in. */
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Ratio rounded to four decimals, or null without a denominator. */
+const rate = (numerator: number, denominator: number) =>
+  denominator > 0
+    ? Math.round((numerator / denominator) * 10_000) / 10_000
+    : null;
+
+/** Most values reported per facet; enough for every enum-backed filter. */
+const MAX_SEARCH_FACET_VALUES = 20;
+
+/**
+ * Facets whose values are alternatives (any of several, or one at a time),
+ * so their counts ignore their own selection. Selected skills must all
+ * match, so the skills facet narrows like any other filter.
+ */
+const DISJUNCTIVE_SEARCH_FACETS = [
+  "jobType",
+  "compensationType",
+  "experience",
+  "state",
+  "city",
+  "workAreas",
+] as const satisfies readonly JobSearchFacetField[];
+
+/**
+ * Fields whose change is worth telling candidates who saved the job about;
+ * wording fixes to the description are not.
+ */
+const MATERIAL_JOB_FIELDS = [
+  "title",
+  "jobType",
+  "compensationType",
+  "compensationMin",
+  "compensationMax",
+  "compensationCurrency",
+  "payPeriod",
+  "city",
+  "state",
+  "country",
+  "isRemote",
+  "applicationDeadline",
+] as const;
 
 const DATE_POSTED_MS: Record<string, number> = {
   "last-24-hours": 86_400_000,
@@ -50,6 +125,10 @@ export class JobBoardService
     private savedJobsStatusQuery: SavedJobsStatusQueryPort,
     private orgMembershipForJob: OrgMembershipForJobPort,
     private userContactQuery: UserContactQueryPort,
+    private jobPostingEntitlements: JobPostingEntitlementsPort,
+    private geocoder: GeocoderPort,
+    private eventBus: EventBusPort,
+    private jobHoldPolicy: JobHoldPolicyPort,
   ) {
     super();
   }
@@ -120,12 +199,38 @@ export class JobBoardService
         skills,
         jobType,
         compensationType,
+        workAreas,
         sortBy,
         datePosted,
+        lat,
+        lng,
+        radius,
+        salaryMin,
+        salaryMax,
+        payPeriod,
+        currency,
+        supportRaisedByCandidate,
+        verifiedOnly,
+        order,
         ...rest
       } = filters;
       const offset = (page - 1) * limit;
 
+      // A radius search centres on the explicit point when given, otherwise
+      // on the geocoded location fields
+      let center: GeoPoint | null =
+        lat !== undefined && lng !== undefined ? { lat, lng } : null;
+      if (!center && radius !== undefined) {
+        center = await this.geocoder.geocode({ city, state, country, zipcode });
+        if (!center) {
+          return fail(
+            new ValidationError(
+              "Could not locate the search area for a radius search",
+            ),
+          );
+        }
+      }
+
       const skillsArray = Array.isArray(skills)
         ? skills
         : skills
@@ -144,30 +249,100 @@ export class JobBoardService
           ? [compensationType]
           : [];
 
-      const queryBuilder = new TypesenseQueryBuilder()
-        .addLocationFilters({ city, state, country, zipcode }, includeRemote)
-        .addSkillFilters(skillsArray, true)
-        .addArrayFilter("jobType", jobTypeArray, true)
-        .addArrayFilter("compensationType", compensationTypeArray, true)
-        .addSingleFilter("isActive", rest.isActive)
-        .addSingleFilter("experience", rest.experience);
+      const workAreasArray = Array.isArray(workAreas)
+        ? workAreas
+        : workAreas
+          ? [workAreas]
+          : [];
 
-      if (datePosted && DATE_POSTED_MS[datePosted]) {
-        const threshold = Date.now() - DATE_POSTED_MS[datePosted];
-        queryBuilder.addRangeFilter("createdAt", ">=", threshold);
-      }
+      // Leaving out `exclude`'s own selection counts that facet's other values
+      // as if they were picked too, so a multi-select stays selectable
+      const buildFilters = (exclude?: JobSearchFacetField) => {
+        const queryBuilder = new TypesenseQueryBuilder();
+        if (center && radius !== undefined) {
+          queryBuilder.addGeoRadiusFilter(center, radius, includeRemote);
+        } else {
+          queryBuilder.addLocationFilters(
+            {
+              city: exclude === "city" ? undefined : city,
+              state: exclude === "state" ? undefined : state,
+              country,
+              zipcode,
+            },
+            includeRemote,
+          );
+        }
+        queryBuilder
+          .addSkillFilters(skillsArray, true)
+          .addArrayFilter(
+            "jobType",
+            exclude === "jobType" ? [] : jobTypeArray,
+            true,
+          )
+          .addArrayFilter(
+            "compensationType",
+            exclude === "compensationType" ? [] : compensationTypeArray,
+            true,
+          )
+          .addQuotedArrayFilter(
+            "workAreas",
+            exclude === "workAreas" ? [] : workAreasArray,
+          )
+          .addCompensationRangeFilter(salaryMin, salaryMax)
+          .addSingleFilter("payPeriod", payPeriod)
+          .addSingleFilter("compensationCurrency", currency)
+          .addSingleFilter("supportRaisedByCandidate", supportRaisedByCandidate)
+          .addVerifiedEmployerFilter(verifiedOnly)
+          .addSingleFilter("isActive", rest.isActive)
+          .addSingleFilter(
+            "experience",
+            exclude === "experience" ? undefined : rest.experience,
+          );
+
+        if (datePosted && DATE_POSTED_MS[datePosted]) {
+          const threshold = Date.now() - DATE_POSTED_MS[datePosted];
+          queryBuilder.addRangeFilter("createdAt", ">=", threshold);
+        }
 
-      const filterQuery = queryBuilder.build();
+        return queryBuilder.build();
+      };
 
-      const parts: string[] = [];
-      if (filterQuery) parts.push(filterQuery);
-      const filterString = parts.join("&");
+      const filterString = buildFilters();
+      // Only facets with a selection need counting apart from the results
+      const facetFilters: Partial<Record<JobSearchFacetField, string>> = {};
+      for (const field of DISJUNCTIVE_SEARCH_FACETS) {
+        const facetFilter = buildFilters(field);
+        if (facetFilter !== filterString) facetFilters[field] = facetFilter;
+      }
 
       // Map frontend sort values to Typesense sort params:
       // "relevant" + real query → omit sort_by (Typesense uses text relevance)
+      // "distance", or a radius search with no sortBy → nearest first
+      // "compensation" → best-paid first (order=asc: lowest-paid first),
+      //   postings without a pay range last
       // "recent" or no sortBy or no real query → sort by createdAt:desc
       const hasTextQuery = !!q && q.trim() !== "" && q.trim() !== "*";
       const useRelevanceSort = sortBy === "relevant" && hasTextQuery;
+      const useDistanceSort =
+        !!center &&
+        (sortBy === "distance" ||
+          (sortBy === undefined && radius !== undefined));
+
+      let searchSort: { sortBy?: string; sortDirection: "asc" | "desc" };
+      if (useDistanceSort && center) {
+        searchSort = { sortBy: geoDistanceSort(center), sortDirection: "asc" };
+      } else if (sortBy === "compensation") {
+        const field = order === "asc" ? "compensationMin" : "compensationMax";
+        searchSort = {
+          sortBy: `${field}(missing_values: last)`,
+          sortDirection: order === "asc" ? "asc" : "desc",
+        };
+      } else {
+        searchSort = {
+          sortBy: useRelevanceSort ? undefined : "createdAt",
+          sortDirection: "desc",
+        };
+      }
 
       const results = await this.typesenseService.searchJobsCollection(
         q,
@@ -176,8 +351,10 @@ export class JobBoardService
           limit,
           offset,
           page,
-          sortBy: useRelevanceSort ? undefined : "createdAt",
-          sortDirection: "desc",
+          ...searchSort,
+          facetBy: JOB_SEARCH_FACET_FIELDS,
+          maxFacetValues: MAX_SEARCH_FACET_VALUES,
+          facetFilters,
         },
       );
       return ok(results);
@@ -190,18 +367,34 @@ export class JobBoardService
   async getJobById(
     id: number,
     userId?: number | undefined,
-  ): Promise<Result<JobWithEmployer, Error>> {
+    visitor: { ip?: string; userAgent?: string } = {},
+  ): Promise<Result<JobDetail, Error>> {
     try {
       const job = await this.jobBoardRepository.findJobById(id);
 
-      if (!job) {
+      if (
+        !job ||
+        (await this.orgMembershipForJob.isOrganizationSuspended(
+          job.job.employerId,
+        ))
+      ) {
         return fail(new NotFoundError("Job", id));
       }
 
-      await this.incrementJobViews(id);
+      await this.incrementJobViews(id, this.viewerKey(userId, visitor));
+
+      // Candidates see the questions they must answer, never the knockout rules
+      const screeningQuestions = (
+        await this.jobBoardRepository.findScreeningQuestionsByJobId(id)
+      ).map(({ knockout: _knockout, ...question }) => question);
 
       if (!userId) {
-        return ok({ ...job, hasApplied: false, hasSaved: false });
+        return ok({
+          ...job,
+          screeningQuestions,
+          hasApplied: false,
+          hasSaved: false,
+        });
       }
 
       const [hasApplied, hasSaved] = await Promise.all([
@@ -209,7 +402,7 @@ export class JobBoardService
         this.savedJobsStatusQuery.hasUserSavedJob(userId, id),
       ]);
 
-      return ok({ ...job, hasApplied, hasSaved });
+      return ok({ ...job, screeningQuestions, hasApplied, hasSaved });
     } catch (error) {
       if (error instanceof AppError) {
         return this.handleError(error);
@@ -218,13 +411,22 @@ export class JobBoardService
     }
   }
 
-  async incrementJobViews(jobId: number): Promise<Result<null, Error>> {
+  async incrementJobViews(
+    jobId: number,
+    viewerKey: string,
+  ): Promise<Result<null, Error>> {
     try {
       const job = await this.jobBoardRepository.findById(jobId);
       if (!job) {
         return fail(new NotFoundError("Job", jobId));
       }
       await this.jobInsightsRepository.incrementJobViews(jobId);
+      await this.jobInsightsRepository.recordJobView(
+        jobId,
+        job.employerId,
+        viewerKey,
+        toDay(new Date()),
+      );
 
       return ok(null);
     } catch {
@@ -232,6 +434,33 @@ export class JobBoardService
     }
   }
 
+  async recordApplyStart(jobId: number): Promise<Result<null, Error>> {
+    try {
+      await this.jobInsightsRepository.recordJobActivity(
+        jobId,
+        "applyStarts",
+        toDay(new Date()),
+      );
+      return ok(null);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to record application start"));
+    }
+  }
+
+  async getWorkAreas(): Promise<Result<JobWorkArea[], Error>> {
+    try {
+      return ok(await this.jobBoardRepository.findAllWorkAreas());
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to fetch work areas"));
+    }
+  }
+
   async getJobsByEmployer(
     employerId: number,
     options: {
@@ -265,8 +494,48 @@ export class JobBoardService
         return fail(new NotFoundError("Organization", jobData.employerId));
       }
 
+      const status = jobData.status ?? "published";
+      const publishAt = jobData.publishAt ? new Date(jobData.publishAt) : null;
+      const applicationDeadline = jobData.applicationDeadline
+        ? new Date(jobData.applicationDeadline)
+        : null;
+
+      if (
+        status === "scheduled" &&
+        this.deadlinePassesBefore(applicationDeadline, publishAt)
+      ) {
+        return fail(
+          new ValidationError(
+            "The application deadline must be after the publish time",
+          ),
+        );
+      }
+
+      // Scheduled jobs must fit the plan now and are checked again when
+      // they go live; only live jobs count toward its limits
+      const goingLive = status !== "draft";
+      const entitlement = await this.jobPostingEntitlements.checkJobPosting(
+        jobData.employerId,
+        { activating: goingLive, featuring: goingLive && !!jobData.isFeatured },
+      );
+      if (entitlement.isFailure) {
+        return fail(entitlement.error);
+      }
+
+      // A job that trips an auto-hold rule waits for platform staff instead
+      // of going live; scheduled jobs are checked when they go live
+      const holdReasons =
+        status === "published"
+          ? await this.jobHoldPolicy.evaluate(jobData)
+          : [];
+      const initialStatus: JobStatus =
+        holdReasons.length > 0 ? "pending_review" : status;
+
       const sanitizedData = {
         ...jobData,
+        status: initialStatus,
+        isActive: initialStatus === "published",
+        publishAt,
         title: SecurityUtils.sanitizeInput(jobData.title),
         description: SecurityUtils.sanitizeInput(jobData.description),
         city: SecurityUtils.sanitizeInput(jobData.city),
@@ -274,9 +543,10 @@ export class JobBoardService
         experience: jobData.experience
           ? SecurityUtils.sanitizeInput(jobData.experience)
           : null,
-        applicationDeadline: jobData.applicationDeadline
-          ? new Date(jobData.applicationDeadline)
-          : null,
+        applicationDeadline,
+        screeningQuestions: jobData.screeningQuestions
+          ? this.sanitizeScreeningQuestions(jobData.screeningQuestions)
+          : undefined,
       };
 
       const jobWithSkills =
@@ -292,8 +562,18 @@ export class JobBoardService
         jobWithSkills,
       );
 
+      if (initialStatus === "pending_review") {
+        await this.jobHoldPolicy.hold(jobWithSkills.id, holdReasons);
+      } else if (initialStatus === "published") {
+        await enqueueJobGoLiveWork(jobWithSkills.id);
+      }
+
       return ok(jobWithSkills);
-    } catch {
+    } catch (error) {
+      // Unknown work area IDs surface as a ValidationError from the repository
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
       return fail(new DatabaseError("Failed to retrieve created job"));
     }
   }
@@ -302,7 +582,7 @@ export class JobBoardService
     id: number,
     updateData: UpdateJob,
     requesterId: number,
-  ): Promise<Result<Job, Error>> {
+  ): Promise<Result<JobStatusChange, Error>> {
     try {
       const job = await this.jobBoardRepository.findJobById(id);
 
@@ -329,8 +609,61 @@ export class JobBoardService
         );
       }
 
+      // Becoming featured while live takes a slot of the plan's limits;
+      // going live is checked by changeJobStatus
+      const entitlement = await this.jobPostingEntitlements.checkJobPosting(
+        membership.organizationId,
+        {
+          activating: false,
+          featuring:
+            job.job.status === "published" &&
+            !!updateData.isFeatured &&
+            !job.job.isFeatured,
+        },
+      );
+      if (entitlement.isFailure) {
+        return fail(entitlement.error);
+      }
+
+      // Answers reference the questions, so they are frozen once candidates
+      // have applied
+      if (
+        updateData.screeningQuestions &&
+        (await this.applicationStatusQuery.hasApplicationsForJob(id))
+      ) {
+        return fail(
+          new ConflictError(
+            "Screening questions cannot be changed once candidates have applied",
+          ),
+        );
+      }
+
+      // A partial update may move one end of the pay range past the other
+      const compensationMin =
+        updateData.compensationMin !== undefined
+          ? updateData.compensationMin
+          : job.job.compensationMin;
+      const compensationMax =
+        updateData.compensationMax !== undefined
+          ? updateData.compensationMax
+          : job.job.compensationMax;
+      if (
+        compensationMin != null &&
+        compensationMax != null &&
+        compensationMin > compensationMax
+      ) {
+        return fail(
+          new ValidationError("Minimum compensation cannot exceed the maximum"),
+        );
+      }
+
       const sanitizedData = {
         ...updateData,
+        // Support raising only applies to missionary roles
+        ...(updateData.compensationType &&
+        updateData.compensationType !== "missionary"
+          ? { supportRaisedByCandidate: false, monthlySupportTarget: null }
+          : {}),
         title: updateData.title
           ? SecurityUtils.sanitizeInput(updateData.title)
           : undefined,
@@ -343,6 +676,9 @@ export class JobBoardService
         state: updateData.state
           ? SecurityUtils.sanitizeInput(updateData.state)
           : undefined,
+        screeningQuestions: updateData.screeningQuestions
+          ? this.sanitizeScreeningQuestions(updateData.screeningQuestions)
+          : undefined,
       };
 
       const success = await this.jobBoardRepository.updateJob(
@@ -353,9 +689,35 @@ export class JobBoardService
         return fail(new DatabaseError("Failed to update job"));
       }
 
+      // Rewording a live job is checked again, so an approved posting cannot
+      // be edited into a scam
+      let held = false;
+      if (
+        job.job.status === "published" &&
+        (updateData.title !== undefined || updateData.description !== undefined)
+      ) {
+        const holdReasons = await this.jobHoldPolicy.evaluate({
+          employerId: job.job.employerId,
+          title: updateData.title ?? job.job.title,
+          description: updateData.description ?? job.job.description,
+        });
+        if (holdReasons.length > 0) {
+          await this.jobBoardRepository.updateJobStatus(id, "pending_review");
+          await this.jobHoldPolicy.hold(id, holdReasons);
+          held = true;
+        }
+      }
+
       const updatedJob =
         await this.jobBoardRepository.findJobByIdWithSkills(id);
 
+      const changedFields = this.materialChanges(job.job, sanitizedData);
+      if (!held && job.job.status === "published" && changedFields.length > 0) {
+        await this.eventBus.publish(
+          createJobUpdatedEvent({ jobId: id, changedFields }),
+        );
+      }
+
       // Enqueue the bare JobWithSkills so the indexer worker sees the same
       // shape it does in the `indexJob` path — it destructures the job's
       // own fields (employer, skills, ...), not an outer wrapper.
@@ -365,12 +727,302 @@ export class JobBoardService
         updatedJob,
       );
 
-      return ok(updatedJob);
-    } catch {
+      return ok({ job: updatedJob, previousStatus: job.job.status });
+    } catch (error) {
+      // Unknown work area IDs surface as a ValidationError from the repository
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
       return fail(new DatabaseError("Failed to update job"));
     }
   }
 
+  async changeJobStatus(
+    id: number,
+    change: { status: JobStatus; publishAt?: string },
+  ): Promise<Result<JobStatusChange, Error>> {
+    try {
+      const { job } = await this.jobBoardRepository.findJobById(id);
+      const previousStatus = job.status;
+      const { status } = change;
+
+      if (!JOB_STATUS_TRANSITIONS[previousStatus].includes(status)) {
+        return fail(
+          new ConflictError(
+            `A ${previousStatus} job cannot be moved to ${status}`,
+          ),
+        );
+      }
+
+      const publishAt =
+        status === "scheduled" && change.publishAt
+          ? new Date(change.publishAt)
+          : null;
+
+      if (status === "scheduled" || status === "published") {
+        if (this.deadlinePassesBefore(job.applicationDeadline, publishAt)) {
+          return fail(
+            new ValidationError(
+              "The application deadline passes before the job goes live; extend it first",
+            ),
+          );
+        }
+
+        // Rescheduling skips the check; a scheduled job is checked again
+        // when it goes live
+        if (previousStatus !== "scheduled") {
+          const entitlement = await this.jobPostingEntitlements.checkJobPosting(
+            job.employerId,
+            { activating: true, featuring: job.isFeatured },
+          );
+          if (entitlement.isFailure) {
+            return fail(entitlement.error);
+          }
+        }
+      }
+
+      const holdReasons =
+        status === "published" ? await this.jobHoldPolicy.evaluate(job) : [];
+      const nextStatus = holdReasons.length > 0 ? "pending_review" : status;
+
+      await this.jobBoardRepository.updateJobStatus(id, nextStatus, publishAt);
+
+      const updatedJob =
+        await this.jobBoardRepository.findJobByIdWithSkills(id);
+
+      await queueService.addJob(
+        QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+        "updateJobIndex",
+        updatedJob,
+      );
+
+      if (nextStatus === "pending_review") {
+        await this.jobHoldPolicy.hold(id, holdReasons);
+      } else if (nextStatus === "published") {
+        await enqueueJobGoLiveWork(id);
+      }
+
+      if (status === "closed") {
+        await this.eventBus.publish(
+          createJobClosedEvent({ jobId: id, status: "closed" }),
+        );
+      }
+
+      return ok({ job: updatedJob, previousStatus });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to update job status"));
+    }
+  }
+
+  async repostJob(id: number): Promise<Result<JobWithSkills, Error>> {
+    try {
+      // Moderators' removals are final
+      const source = await this.jobBoardRepository.findById(id);
+      if (source.status === "removed") {
+        return fail(new ConflictError("A removed job cannot be reposted"));
+      }
+
+      const copy = await this.jobBoardRepository.duplicateJob(id);
+
+      await queueService.addJob(
+        QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+        "indexJob",
+        copy,
+      );
+
+      return ok(copy);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to repost job"));
+    }
+  }
+
+  async publishScheduledJobs(now = new Date()): Promise<Result<Job[], Error>> {
+    try {
+      const dueJobs = await this.jobBoardRepository.findScheduledJobsDue(now);
+      const published: Job[] = [];
+
+      for (const job of dueJobs) {
+        // Suspended organizations' jobs wait until they are reinstated
+        if (
+          await this.orgMembershipForJob.isOrganizationSuspended(job.employerId)
+        ) {
+          continue;
+        }
+
+        // The plan may have changed or filled up since the job was
+        // scheduled; it goes back to draft and the posting team is told
+        // once, rather than on every run
+        const entitlement = await this.jobPostingEntitlements.checkJobPosting(
+          job.employerId,
+          { activating: true, featuring: job.isFeatured },
+        );
+        if (entitlement.isFailure) {
+          logger.warn("Scheduled job exceeds the plan's limits", {
+            jobId: job.id,
+            reason: entitlement.error.message,
+          });
+          await this.jobBoardRepository.updateJobStatus(job.id, "draft");
+          await this.notifyScheduledPublishBlocked(
+            job,
+            entitlement.error.message,
+          );
+          continue;
+        }
+
+        const holdReasons = await this.jobHoldPolicy.evaluate(job);
+        if (holdReasons.length > 0) {
+          await this.jobBoardRepository.updateJobStatus(
+            job.id,
+            "pending_review",
+          );
+          await this.jobHoldPolicy.hold(job.id, holdReasons);
+          logger.info("Scheduled job held for review", { jobId: job.id });
+          continue;
+        }
+
+        await this.jobBoardRepository.updateJobStatus(job.id, "published");
+        await this.reindexJob(job.id);
+        await enqueueJobGoLiveWork(job.id);
+        published.push(job);
+      }
+
+      return ok(published);
+    } catch {
+      return fail(new DatabaseError("Failed to publish scheduled jobs"));
+    }
+  }
+
+  async reindexOrganizationJobs(
+    organizationId: number,
+  ): Promise<Result<number, Error>> {
+    try {
+      const jobIds =
+        await this.jobBoardRepository.findPublishedJobIdsByEmployer(
+          organizationId,
+        );
+
+      // The indexer drops the jobs of a suspended organization and indexes
+      // them again once it is reinstated
+      for (const id of jobIds) {
+        await this.reindexJob(id);
+      }
+
+      return ok(jobIds.length);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to reindex organization jobs"));
+    }
+  }
+
+  async expireOverdueJobs(now = new Date()): Promise<Result<Job[], Error>> {
+    try {
+      const overdueJobs =
+        await this.jobBoardRepository.findJobsPastDeadline(now);
+
+      for (const job of overdueJobs) {
+        await this.jobBoardRepository.updateJobStatus(job.id, "expired");
+        await this.reindexJob(job.id);
+        await this.eventBus.publish(
+          createJobClosedEvent({ jobId: job.id, status: "expired" }),
+        );
+
+        const team = await this.orgMembershipForJob.findJobPostingTeam(
+          job.employerId,
+        );
+        for (const member of team) {
+          await queueService.addJob(
+            QUEUE_NAMES.EMAIL_QUEUE,
+            "sendJobExpiredEmail",
+            {
+              userId: member.userId,
+              email: member.email,
+              fullName: member.fullName,
+              jobTitle: job.title,
+              jobId: job.id,
+            },
+          );
+        }
+      }
+
+      return ok(overdueJobs);
+    } catch {
+      return fail(new DatabaseError("Failed to expire overdue jobs"));
+    }
+  }
+
+  /**
+   * Emails the posting team that a scheduled job could not go live within
+   * the plan's limits and was moved back to draft.
+   */
+  private async notifyScheduledPublishBlocked(job: Job, reason: string) {
+    const team = await this.orgMembershipForJob.findJobPostingTeam(
+      job.employerId,
+    );
+    for (const member of team) {
+      await queueService.addJob(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendScheduledJobBlockedEmail",
+        {
+          userId: member.userId,
+          email: member.email,
+          fullName: member.fullName,
+          jobTitle: job.title,
+          jobId: job.id,
+          reason,
+        },
+      );
+    }
+  }
+
+  /** Whether the deadline passes before (or when) the job would go live. */
+  private deadlinePassesBefore(
+    applicationDeadline: Date | null,
+    publishAt: Date | null,
+  ) {
+    return (
+      !!applicationDeadline &&
+      applicationDeadline.getTime() <= (publishAt ?? new Date()).getTime()
+    );
+  }
+
+  /** Material fields the update sets to a different value. */
+  private materialChanges(
+    job: Job,
+    update: Partial<Record<(typeof MATERIAL_JOB_FIELDS)[number], unknown>>,
+  ): string[] {
+    return MATERIAL_JOB_FIELDS.filter((field) => {
+      const next = update[field];
+      if (next === undefined) {
+        return false;
+      }
+
+      const current = job[field];
+      if (field === "applicationDeadline") {
+        const nextTime = next ? new Date(next as string).getTime() : null;
+        return nextTime !== ((current as Date | null)?.getTime() ?? null);
+      }
+
+      return next !== current;
+    });
+  }
+
+  private async reindexJob(id: number) {
+    const job = await this.jobBoardRepository.findJobByIdWithSkills(id);
+    await queueService.addJob(
+      QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+      "updateJobIndex",
+      job,
+    );
+  }
+
   async deleteJob(
     id: number,
     requesterId: number,
@@ -426,17 +1078,127 @@ export class JobBoardService
     }
   }
 
-  async getEmployerJobStats(organizationId: number) {
+  async getEmployerJobStats(
+    organizationId: number,
+    query: JobStatsQuery = {},
+  ): Promise<Result<OrganizationJobStats, Error>> {
     try {
-      const jobInsights =
-        await this.jobInsightsRepository.getJobInsightByOrganizationId(
+      const to = query.to ?? toDay(new Date());
+      const from =
+        query.from ??
+        toDay(
+          new Date(
+            Date.parse(to) - (DEFAULT_JOB_STATS_RANGE_DAYS - 1) * DAY_MS,
+          ),
+        );
+
+      const [summary, insights] = await Promise.all([
+        this.jobInsightsRepository.getJobInsightByOrganizationId(
           organizationId,
+        ),
+        this.jobInsightsRepository.getJobInsights(organizationId, {
+          from,
+          to,
+          jobId: query.jobId ? parseInt(query.jobId) : undefined,
+        }),
+      ]);
+
+      // Zero-fill so charts get one bucket per day of the range
+      const byDay = new Map(
+        insights.daily.map((bucket) => [bucket.date, bucket]),
+      );
+      const daily: JobStatsDailyBucket[] = [];
+      for (let day = Date.parse(from); day <= Date.parse(to); day += DAY_MS) {
+        const date = toDay(new Date(day));
+        daily.push(
+          byDay.get(date) ?? {
+            date,
+            views: 0,
+            uniqueViewers: 0,
+            saves: 0,
+            applyStarts: 0,
+            applications: 0,
+          },
         );
-      return ok(jobInsights);
+      }
+
+      const totals = daily.reduce<JobActivityMetrics>(
+        (acc, bucket) => ({
+          views: acc.views + bucket.views,
+          uniqueViewers: acc.uniqueViewers + bucket.uniqueViewers,
+          saves: acc.saves + bucket.saves,
+          applyStarts: acc.applyStarts + bucket.applyStarts,
+          applications: acc.applications + bucket.applications,
+        }),
+        {
+          views: 0,
+          uniqueViewers: 0,
+          saves: 0,
+          applyStarts: 0,
+          applications: 0,
+        },
+      );
+
+      return ok({
+        ...summary,
+        range: { from, to },
+        totals,
+        funnel: {
+          viewers: totals.uniqueViewers,
+          applyStarts: totals.applyStarts,
+          applications: totals.applications,
+          applyStartRate: rate(totals.applyStarts, totals.uniqueViewers),
+          completionRate: rate(totals.applications, totals.applyStarts),
+          conversionRate: rate(totals.applications, totals.uniqueViewers),
+        },
+        daily,
+        jobs: insights.jobs
+          .map((job) => ({
+            ...job,
+            conversionRate: rate(job.applications, job.uniqueViewers),
+          }))
+          .sort((a, b) => b.views - a.views),
+      });
     } catch {
       return fail(
         new DatabaseError("Failed to fetch job statistics for organization"),
       );
     }
   }
+
+  /**
+   * Identifies a job viewer for unique-viewer counts: the user when signed
+   * in, otherwise a hash of the request's IP and user agent so raw addresses
+   * are never stored.
+   */
+  private viewerKey(
+    userId: number | undefined,
+    visitor: { ip?: string; userAgent?: string },
+  ): string {
+    if (userId) {
+      return `user:${userId}`;
+    }
+    const hash = createHash("sha256")
+      .update(`${visitor.ip ?? ""}|${visitor.userAgent ?? ""}`)
+      .digest("hex");
+    return `anon:${hash.slice(0, 32)}`;
+  }
+
+  private sanitizeScreeningQuestions(
+    questions: ScreeningQuestionInput[],
+  ): ScreeningQuestionInput[] {
+    return questions.map((question) => ({
+      ...question,
+      question: SecurityUtils.sanitizeInput(question.question),
+      options: question.options?.map((option) =>
+        SecurityUtils.sanitizeInput(option),
+      ),
+      knockout: question.knockout && {
+        ...question.knockout,
+        acceptedOptions: question.knockout.acceptedOptions?.map((option) =>
+          SecurityUtils.sanitizeInput(option),
+        ),
+      },
+    }));
+  }
 }
@@ -0,0 +1,95 @@
+import { resolveHoldRules } from "@shared/constants/job-moderation";
+import type { JobHoldReason } from "@shared/constants/job-moderation";
+import type { JobHoldPolicyPort } from "../ports/job-hold-policy.port";
+import type { JobModerationRepositoryPort } from "../ports/job-moderation-repository.port";
+import type { OrgMembershipForJobPort } from "../ports/org-membership-for-job.port";
+
+const DAY_MS = 86_400_000;
+
+/** Escapes a term for use inside a regular expression. */
+const escapeRegExp = (term: string) =>
+  term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Whether the text mentions the term as a whole word or phrase, ignoring
+ * case, so "gift card" matches "Gift Card" but "app" does not match "apply".
+ */
+function mentions(text: string, term: string) {
+  return new RegExp(`(^|\\W)${escapeRegExp(term)}(\\W|$)`, "i").test(text);
+}
+
+/**
+ * Applies the auto-hold rules platform staff configured. Like the other
+ * job-board services it throws on infrastructure errors; the job board
+ * service turns them into failed results.
+ */
+export class JobHoldPolicyService implements JobHoldPolicyPort {
+  constructor(
+    private jobModerationRepository: JobModerationRepositoryPort,
+    private orgMembershipForJob: Pick<
+      OrgMembershipForJobPort,
+      "findOrganizationCreatedAt"
+    >,
+  ) {}
+
+  async evaluate(job: {
+    employerId: number;
+    title: string;
+    description: string;
+  }): Promise<JobHoldReason[]> {
+    const rules = resolveHoldRules(
+      await this.jobModerationRepository.findHoldRules(),
+    );
+    const reasons: JobHoldReason[] = [];
+
+    if (rules.new_organization.enabled) {
+      const createdAt =
+        await this.orgMembershipForJob.findOrganizationCreatedAt(
+          job.employerId,
+        );
+      const ageDays = createdAt
+        ? Math.floor((Date.now() - createdAt.getTime()) / DAY_MS)
+        : null;
+      if (
+        ageDays !== null &&
+        ageDays < rules.new_organization.settings.maxAgeDays
+      ) {
+        reasons.push({
+          rule: "new_organization",
+          detail:
+            ageDays === 0
+              ? "Organization created today"
+              : `Organization created ${ageDays} day${ageDays === 1 ? "" : "s"} ago`,
+        });
+      }
+    }
+
+    const text = `${job.title}\n${job.description}`;
+    for (const rule of [rules.keywords, rules.external_payment]) {
+      if (!rule.enabled) continue;
+      const matched = rule.settings.terms.filter((term) =>
+        mentions(text, term),
+      );
+      if (matched.length > 0) {
+        reasons.push({
+          rule: rule.rule,
+          detail: `Mentions ${matched.map((term) => `"${term}"`).join(", ")}`,
+        });
+      }
+    }
+
+    return reasons;
+  }
+
+  async hold(jobId: number, reasons: JobHoldReason[]): Promise<void> {
+    // A job edited while it waits keeps its place in the queue
+    if (await this.jobModerationRepository.findPendingReviewId(jobId)) {
+      return;
+    }
+    await this.jobModerationRepository.createReview({
+      jobId,
+      trigger: "auto_hold",
+      holdReasons: reasons,
+    });
+  }
+}
@@ -0,0 +1,282 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import {
+  AppError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+} from "@shared/errors";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import { resolveHoldRules } from "@shared/constants/job-moderation";
+import logger from "@shared/logger";
+import type { EventBusPort } from "@shared/events";
+
+import type { JobModerationServicePort } from "../ports/job-moderation-service.port";
+import type { JobModerationRepositoryPort } from "../ports/job-moderation-repository.port";
+import type { JobBoardRepositoryPort } from "../ports/job-board-repository.port";
+import type { OrgMembershipForJobPort } from "../ports/org-membership-for-job.port";
+import type { JobPostingEntitlementsPort } from "../ports/job-posting-entitlements.port";
+import { createJobClosedEvent } from "../events/job-closed.event";
+import { enqueueJobGoLiveWork } from "../helpers/job-go-live";
+import type {
+  JobHoldRuleInput,
+  ModerationQueueQuery,
+  ModerationReviewDetail,
+  ReportJobInput,
+} from "@/validations/jobModeration.validation";
+
+/**
+ * Seeker reports and the platform staff moderation queue. Staff decisions
+ * change the job's status directly and reindex it, the same way the job
+ * lifecycle worker does.
+ */
+export class JobModerationService
+  extends BaseService
+  implements JobModerationServicePort
+{
+  constructor(
+    private jobModerationRepository: JobModerationRepositoryPort,
+    private jobBoardRepository: Pick<
+      JobBoardRepositoryPort,
+      "findById" | "updateJobStatus" | "findJobByIdWithSkills"
+    >,
+    private orgMembershipForJob: Pick<
+      OrgMembershipForJobPort,
+      "findJobPostingTeam"
+    >,
+    private eventBus: EventBusPort,
+    private jobPostingEntitlements: JobPostingEntitlementsPort,
+  ) {
+    super();
+  }
+
+  async reportJob(jobId: number, reporterId: number, report: ReportJobInput) {
+    try {
+      // Only jobs seekers can see can be reported
+      const job = await this.jobBoardRepository.findById(jobId);
+      if (job.status !== "published") {
+        return fail(new NotFoundError("Job", jobId));
+      }
+
+      if (await this.jobModerationRepository.hasReported(jobId, reporterId)) {
+        return fail(new ConflictError("You have already reported this job"));
+      }
+
+      const created = await this.jobModerationRepository.createReport({
+        ...report,
+        jobId,
+        reporterId,
+      });
+
+      // Further reports join the review the first one opened
+      if (!(await this.jobModerationRepository.findPendingReviewId(jobId))) {
+        await this.jobModerationRepository.createReview({
+          jobId,
+          trigger: "report",
+          holdReasons: [],
+        });
+      }
+
+      return ok(created);
+    } catch (error) {
+      return this.failWith(error, "Failed to report job");
+    }
+  }
+
+  async getQueue({ page, limit, ...filters }: ModerationQueueQuery) {
+    try {
+      return ok(
+        await this.jobModerationRepository.findReviews(filters, {
+          page,
+          limit,
+        }),
+      );
+    } catch (error) {
+      return this.failWith(error, "Failed to load the moderation queue");
+    }
+  }
+
+  async getReview(reviewId: number) {
+    try {
+      const review =
+        await this.jobModerationRepository.findReviewById(reviewId);
+      if (!review) {
+        return fail(new NotFoundError("Moderation review", reviewId));
+      }
+      return ok(review);
+    } catch (error) {
+      return this.failWith(error, "Failed to load moderation review");
+    }
+  }
+
+  async approve(reviewId: number, staffId: number, note?: string) {
+    try {
+      const review = await this.findPendingReview(reviewId);
+      if (review instanceof AppError) {
+        return fail(review);
+      }
+
+      // A held job goes live; a reported job is left as the employer set it
+      if (review.jobStatus === "pending_review") {
+        // The plan may have changed while the job was held; the review stays
+        // pending until the organization upgrades or frees a slot
+        const job = await this.jobBoardRepository.findById(review.jobId);
+        const entitlement = await this.jobPostingEntitlements.checkJobPosting(
+          review.employerId,
+          { activating: true, featuring: job.isFeatured },
+        );
+        if (entitlement.isFailure) {
+          return fail(entitlement.error);
+        }
+
+        await this.jobBoardRepository.updateJobStatus(
+          review.jobId,
+          "published",
+        );
+        await this.reindexJob(review.jobId);
+        await enqueueJobGoLiveWork(review.jobId);
+      }
+
+      await this.jobModerationRepository.decideReview(reviewId, {
+        status: "approved",
+        decidedBy: staffId,
+        decisionNote: note || null,
+      });
+
+      const decided = await this.getReview(reviewId);
+      if (decided.isFailure) {
+        return decided;
+      }
+      return ok({ review: decided.value, previousStatus: review.jobStatus });
+    } catch (error) {
+      return this.failWith(error, "Failed to approve job");
+    }
+  }
+
+  async remove(reviewId: number, staffId: number, note?: string) {
+    try {
+      const review = await this.findPendingReview(reviewId);
+      if (review instanceof AppError) {
+        return fail(review);
+      }
+
+      await this.jobBoardRepository.updateJobStatus(review.jobId, "removed");
+      await this.reindexJob(review.jobId);
+
+      // Candidates who saved a live job hear that it is gone
+      if (review.jobStatus === "published" || review.jobStatus === "paused") {
+        await this.eventBus.publish(
+          createJobClosedEvent({ jobId: review.jobId, status: "removed" }),
+        );
+      }
+
+      await this.jobModerationRepository.decideReview(reviewId, {
+        status: "removed",
+        decidedBy: staffId,
+        decisionNote: note || null,
+      });
+      await this.notifyPostingTeam(review, "removal", note || null);
+
+      return await this.getReview(reviewId);
+    } catch (error) {
+      return this.failWith(error, "Failed to remove job");
+    }
+  }
+
+  async warnOrganization(reviewId: number, message: string) {
+    try {
+      const review =
+        await this.jobModerationRepository.findReviewById(reviewId);
+      if (!review) {
+        return fail(new NotFoundError("Moderation review", reviewId));
+      }
+
+      await this.notifyPostingTeam(review, "warning", message);
+      await this.jobModerationRepository.incrementWarningCount(reviewId);
+
+      return await this.getReview(reviewId);
+    } catch (error) {
+      return this.failWith(error, "Failed to warn organization");
+    }
+  }
+
+  async getHoldRules() {
+    try {
+      const rules = resolveHoldRules(
+        await this.jobModerationRepository.findHoldRules(),
+      );
+      return ok(Object.values(rules));
+    } catch (error) {
+      return this.failWith(error, "Failed to load auto-hold rules");
+    }
+  }
+
+  async updateHoldRule(rule: JobHoldRuleInput, staffId: number) {
+    try {
+      await this.jobModerationRepository.saveHoldRule(rule, staffId);
+      return ok(rule);
+    } catch (error) {
+      return this.failWith(error, "Failed to update auto-hold rule");
+    }
+  }
+
+  /** The review when it still awaits a decision, otherwise the error. */
+  private async findPendingReview(
+    reviewId: number,
+  ): Promise<ModerationReviewDetail | AppError> {
+    const review = await this.jobModerationRepository.findReviewById(reviewId);
+    if (!review) {
+      return new NotFoundError("Moderation review", reviewId);
+    }
+    if (review.status !== "pending") {
+      return new ConflictError(`This review was already ${review.status}`);
+    }
+    return review;
+  }
+
+  private async reindexJob(jobId: number) {
+    const job = await this.jobBoardRepository.findJobByIdWithSkills(jobId);
+    await queueService.addJob(
+      QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+      "updateJobIndex",
+      job,
+    );
+  }
+
+  private async notifyPostingTeam(
+    review: ModerationReviewDetail,
+    kind: "warning" | "removal",
+    note: string | null,
+  ) {
+    const team = await this.orgMembershipForJob.findJobPostingTeam(
+      review.employerId,
+    );
+    for (const member of team) {
+      await queueService.addJob(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendModerationNotice",
+        {
+          userId: member.userId,
+          email: member.email,
+          fullName: member.fullName,
+          kind,
+          jobId: review.jobId,
+          jobTitle: review.jobTitle,
+          organizationName: review.employerName,
+          note,
+        },
+      );
+    }
+  }
+
+  private failWith(error: unknown, message: string) {
+    if (error instanceof AppError) {
+      return this.handleError(error);
+    }
+    logger.error(error, message);
+    return fail(new DatabaseError(message));
+  }
+}
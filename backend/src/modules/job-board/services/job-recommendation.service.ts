@@ -11,6 +11,18 @@ import type {
   ScoredJob,
 } from "@/modules/job-board";
 
+/**
+ * Effective search radius, in miles, for each preferred commute time —
+ * roughly the distance covered at mixed city/highway speeds. A 90+ minute
+ * commute is treated as "anywhere" and keeps the plain location match.
+ */
+const COMMUTE_RADIUS_MILES: Record<string, number> = {
+  up_to_15_minutes: 10,
+  up_to_30_minutes: 20,
+  up_to_45_minutes: 30,
+  up_to_60_minutes: 45,
+};
+
 export class JobRecommendationService
   extends BaseService
   implements JobRecommendationServicePort
@@ -41,7 +53,8 @@ export class JobRecommendationService
         profile !== null &&
         (profile.jobTypes !== null || profile.compensationTypes !== null);
       const hasLocation = profile?.location !== null;
-      const hasPersonalization = hasSkills || hasPreferences;
+      const hasWorkAreas = profile !== null && profile.workAreas.length > 0;
+      const hasPersonalization = hasSkills || hasPreferences || hasWorkAreas;
 
       // Build search query from user skills
       const q = hasSkills ? profile.skills.join(" ") : "*";
@@ -66,7 +79,13 @@ export class JobRecommendationService
         );
       }
 
-      if (profile !== null && profile.location) {
+      const commuteRadius = profile?.commuteTime
+        ? COMMUTE_RADIUS_MILES[profile.commuteTime]
+        : undefined;
+
+      if (profile?.geopoint && commuteRadius !== undefined) {
+        queryBuilder.addGeoRadiusFilter(profile.geopoint, commuteRadius, true);
+      } else if (profile !== null && profile.location) {
         const { city, state, country } = profile.location;
         if (city || state || country) {
           queryBuilder.addLocationFilters({ city, state, country }, true);
@@ -75,6 +94,16 @@ export class JobRecommendationService
 
       const filters = queryBuilder.build();
 
+      // Work areas rank matching jobs first rather than excluding the rest
+      const boostFilter = hasWorkAreas
+        ? new TypesenseQueryBuilder()
+            .addQuotedArrayFilter("workAreas", profile.workAreas)
+            .build()
+        : undefined;
+      const preferredWorkAreas = new Set(profile?.workAreas ?? []);
+      const matchesWorkArea = (job: ScoredJob) =>
+        (job.workAreas ?? []).some((name) => preferredWorkAreas.has(name));
+
       // Determine sort: use relevance when skills provide a meaningful query,
       // fall back to recency when q is "*"
       const useRelevanceSort = hasSkills;
@@ -84,6 +113,7 @@ export class JobRecommendationService
         hasSkills,
         hasPreferences,
         hasLocation,
+        hasWorkAreas,
         q: q === "*" ? "*" : `[${profile!.skills.length} skills]`,
         filters,
         page,
@@ -94,6 +124,7 @@ export class JobRecommendationService
         await this.typesenseService.searchJobsForRecommendations(q, filters, {
           page,
           limit,
+          ...(boostFilter ? { boostFilter } : {}),
           ...(useRelevanceSort
             ? {}
             : { sortBy: "createdAt", sortDirection: "desc" as const }),
@@ -129,9 +160,14 @@ export class JobRecommendationService
         return { ...doc, matchScore };
       });
 
-      // Sort by score descending when using relevance
+      // Sort by score descending when using relevance, keeping jobs in the
+      // seeker's preferred work areas ahead of the rest
       if (useRelevanceSort) {
-        jobs.sort((a, b) => b.matchScore - a.matchScore);
+        jobs.sort(
+          (a, b) =>
+            Number(matchesWorkArea(b)) - Number(matchesWorkArea(a)) ||
+            b.matchScore - a.matchScore,
+        );
       }
 
       return ok({
@@ -0,0 +1,71 @@
+import { Job as BullMqJob, UnrecoverableError } from "bullmq";
+import logger from "@shared/logger";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import { NotFoundError } from "@shared/errors";
+import type { CandidateMatchJobPayloads } from "@shared/events/queue-contracts";
+import type { CandidateMatchingServicePort } from "../ports/candidate-matching-service.port";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+
+interface CandidateMatchingWorkerDeps {
+  candidateMatchingService: CandidateMatchingServicePort;
+}
+
+type CandidateMatchJobData = CandidateMatchJobPayloads["matchCandidates"];
+
+function createCandidateMatchingHandler(deps: CandidateMatchingWorkerDeps) {
+  return async function matchCandidatesWorker(
+    job: BullMqJob<CandidateMatchJobData>,
+  ): Promise<{ matched: number }> {
+    const { jobId } = job.data;
+    logger.info({ jobId }, "Matching candidates to job");
+
+    const result =
+      await deps.candidateMatchingService.matchCandidatesForJob(jobId);
+    if (result.isFailure) {
+      logger.error(
+        { jobId, error: result.error.message },
+        "Matching candidates failed",
+      );
+      // The job was deleted before its turn came
+      if (result.error instanceof NotFoundError) {
+        throw new UnrecoverableError(result.error.message);
+      }
+      throw result.error;
+    }
+
+    logger.info(
+      { jobId, matched: result.value.length },
+      "Candidate matching completed",
+    );
+    return { matched: result.value.length };
+  };
+}
+
+/**
+ * Shortlists candidates for jobs as they go live and emails the shortlist to
+ * the posting team. Jobs are queued by the job-board service on publish.
+ */
+export function createCandidateMatchingWorker(
+  deps: CandidateMatchingWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<CandidateMatchJobData, { matched: number }>(
+        QUEUE_NAMES.CANDIDATE_MATCH_QUEUE,
+        createCandidateMatchingHandler(deps),
+        {
+          concurrency: 1,
+        },
+      );
+
+      logger.info("Candidate matching worker initialized");
+    },
+
+    async scheduleJobs() {
+      // Candidate matching is queued on demand
+    },
+  };
+}
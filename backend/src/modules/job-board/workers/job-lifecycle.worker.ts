@@ -0,0 +1,114 @@
+import { Job as BullMqJob } from "bullmq";
+import logger from "@shared/logger";
+import { auditService } from "@shared/audit";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import type { JobBoardServicePort } from "../ports/job-board-service.port";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+
+interface JobLifecycleWorkerDeps {
+  jobBoardService: Pick<
+    JobBoardServicePort,
+    "publishScheduledJobs" | "expireOverdueJobs"
+  >;
+}
+
+function createLifecycleHandler(deps: JobLifecycleWorkerDeps) {
+  return async function processJobLifecycleWorker(
+    _job: BullMqJob,
+  ): Promise<{ published: number; expired: number }> {
+    logger.info("Starting job lifecycle run");
+
+    const published = await deps.jobBoardService.publishScheduledJobs();
+    if (published.isFailure) {
+      logger.error(
+        { error: published.error.message },
+        "Publishing scheduled jobs failed",
+      );
+      throw published.error;
+    }
+
+    for (const job of published.value) {
+      auditService.emit({
+        name: "job.published",
+        actor: {},
+        resource: { type: "job", id: job.id, organizationId: job.employerId },
+        action: "published scheduled job",
+        outcome: "success",
+        metadata: { from: "scheduled", publishAt: job.publishAt },
+      });
+    }
+
+    const expired = await deps.jobBoardService.expireOverdueJobs();
+    if (expired.isFailure) {
+      logger.error(
+        { error: expired.error.message },
+        "Expiring overdue jobs failed",
+      );
+      throw expired.error;
+    }
+
+    for (const job of expired.value) {
+      auditService.emit({
+        name: "job.unpublished",
+        actor: {},
+        resource: { type: "job", id: job.id, organizationId: job.employerId },
+        action: "expired job",
+        outcome: "success",
+        metadata: {
+          from: job.status,
+          applicationDeadline: job.applicationDeadline,
+        },
+      });
+    }
+
+    const result = {
+      published: published.value.length,
+      expired: expired.value.length,
+    };
+    logger.info(result, "Job lifecycle run completed");
+    return result;
+  };
+}
+
+/**
+ * Publishes scheduled jobs once their publish time comes and expires live
+ * jobs past their application deadline, every fifteen minutes.
+ */
+export function createJobLifecycleWorker(
+  deps: JobLifecycleWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<
+        { correlationId: string },
+        { published: number; expired: number }
+      >(QUEUE_NAMES.JOB_LIFECYCLE_QUEUE, createLifecycleHandler(deps), {
+        concurrency: 1,
+      });
+
+      logger.info("Job lifecycle worker initialized");
+    },
+
+    async scheduleJobs() {
+      try {
+        await queueService.addJob(
+          QUEUE_NAMES.JOB_LIFECYCLE_QUEUE,
+          "processJobLifecycle",
+          {},
+          {
+            repeat: {
+              pattern: "*/15 * * * *",
+            },
+            jobId: "job-lifecycle",
+          },
+        );
+        logger.info("Scheduled job lifecycle run (every 15 minutes)");
+      } catch (error) {
+        logger.error({ error }, "Failed to schedule job lifecycle run");
+      }
+    },
+  };
+}
@@ -1,15 +1,21 @@
 import { Job as BullMqJob } from "bullmq";
 import { JobWithSkills } from "@/validations/job.validation";
 import type { TypesenseJobServicePort } from "@shared/ports/typesense-service.port";
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
+import type { IndexableJob } from "@shared/infrastructure/typesense.service/typesense.service";
 import logger from "@shared/logger";
+import { isTypesenseHttpError } from "@shared/infrastructure/typesense.service/errors";
 import {
   QUEUE_NAMES,
   queueService,
 } from "@shared/infrastructure/queue.service";
 import type { ModuleWorkers } from "@shared/types/module-workers";
+import type { OrgMembershipForJobPort } from "../ports/org-membership-for-job.port";
 
 interface TypesenseJobIndexerDeps {
   typesenseService: TypesenseJobServicePort;
+  geocoder: GeocoderPort;
+  orgMembershipForJob: Pick<OrgMembershipForJobPort, "isOrganizationSuspended">;
 }
 
 /**
@@ -24,6 +30,49 @@ function isFullJob(payload: IndexerJobPayload): payload is JobWithSkills {
   return "title" in payload && "employer" in payload && "skills" in payload;
 }
 
+/** Attaches the geocoded job address so the document gets a `geopoint`. */
+async function withGeopoint(
+  deps: TypesenseJobIndexerDeps,
+  job: JobWithSkills,
+): Promise<IndexableJob> {
+  const geopoint = await deps.geocoder.geocode({
+    city: job.city,
+    state: job.state,
+    country: job.country,
+    zipcode: job.zipcode?.toString(),
+  });
+  return { ...job, geopoint };
+}
+
+/**
+ * Only published jobs of organizations in good standing are searchable.
+ * Drafts, scheduled, paused, closed, expired, removed and held-for-review
+ * jobs are kept out of the index, as are the jobs of suspended
+ * organizations.
+ */
+async function isSearchable(
+  deps: TypesenseJobIndexerDeps,
+  job: JobWithSkills,
+): Promise<boolean> {
+  return (
+    job.status === "published" &&
+    !(await deps.orgMembershipForJob.isOrganizationSuspended(job.employerId))
+  );
+}
+
+/** The document may never have been indexed, so a missing one is fine. */
+async function removeUnpublishedJob(
+  deps: TypesenseJobIndexerDeps,
+  jobId: number,
+): Promise<void> {
+  try {
+    await deps.typesenseService.deleteJobDocumentById(`${jobId}`);
+  } catch (error: unknown) {
+    if (isTypesenseHttpError(error) && error.httpStatus === 404) return;
+    throw error;
+  }
+}
+
 function createTypesenseHandler(deps: TypesenseJobIndexerDeps) {
   return async function indexAddedJobInTypesense(
     job: BullMqJob<IndexerJobPayload>,
@@ -45,13 +94,25 @@ function createTypesenseHandler(deps: TypesenseJobIndexerDeps) {
           if (!isFullJob(jobData)) {
             throw new Error("indexJob payload missing job fields");
           }
-          await deps.typesenseService.indexJobDocument(jobData);
+          if (!(await isSearchable(deps, jobData))) {
+            await removeUnpublishedJob(deps, jobData.id);
+            break;
+          }
+          await deps.typesenseService.indexJobDocument(
+            await withGeopoint(deps, jobData),
+          );
           break;
         case "updateJobIndex":
           if (!isFullJob(jobData)) {
             throw new Error("updateJobIndex payload missing job fields");
           }
-          await deps.typesenseService.upsertJobDocument(jobData);
+          if (!(await isSearchable(deps, jobData))) {
+            await removeUnpublishedJob(deps, jobData.id);
+            break;
+          }
+          await deps.typesenseService.upsertJobDocument(
+            await withGeopoint(deps, jobData),
+          );
           break;
         case "deleteJobIndex":
           await deps.typesenseService.deleteJobDocumentById(`${jobData.id}`);
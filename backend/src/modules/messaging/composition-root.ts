@@ -0,0 +1,24 @@
+import { MessagingRepository } from "./repositories/messaging.repository";
+import { MessagingService } from "./services/messaging.service";
+import { MessagingController } from "./controllers/messaging.controller";
+import type { HiringTeamQueryPort } from "./ports/hiring-team-query.port";
+
+interface MessagingModuleDeps {
+  hiringTeamQuery: HiringTeamQueryPort;
+}
+
+/**
+ * Composition root for the Messaging module.
+ */
+export function createMessagingModule(deps: MessagingModuleDeps) {
+  const repository = new MessagingRepository();
+  const service = new MessagingService(repository, deps.hiringTeamQuery);
+  const controller = new MessagingController(service);
+
+  return {
+    controller,
+    repository,
+  };
+}
+
+export type MessagingModule = ReturnType<typeof createMessagingModule>;
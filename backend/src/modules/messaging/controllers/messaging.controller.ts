@@ -0,0 +1,223 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import type { MessagingServicePort } from "../ports/messaging-service.port";
+import type {
+  ApplicationMessage,
+  ApplicationMessageThread,
+  MessageInboxThread,
+  MessagingBlockState,
+  SendApplicantMessageSchema,
+  SendOrganizationMessageSchema,
+} from "@/validations/applicationMessage.validation";
+import type { GetJobApplicationSchema } from "@/validations/jobApplications.validation";
+import type { JobApplicationManagementSchema } from "@/validations/organization.validation";
+import type { ApiResponse, EmptyBody } from "@shared/types";
+
+export class MessagingController extends BaseController {
+  constructor(private messagingService: MessagingServicePort) {
+    super();
+  }
+
+  // ─── Employer/Organization-scoped messaging handlers ──────────────
+
+  getThreadForOrganization = async (
+    req: Request<JobApplicationManagementSchema["params"]>,
+    res: Response<ApiResponse<ApplicationMessageThread>>,
+  ) => {
+    const result = await this.messagingService.getThreadForOrganization(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicationMessageThread>(
+        res,
+        result.value,
+        "Messages retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  sendOrganizationMessage = async (
+    req: Request<
+      SendOrganizationMessageSchema["params"],
+      EmptyBody,
+      SendOrganizationMessageSchema["body"]
+    >,
+    res: Response<ApiResponse<ApplicationMessage>>,
+  ) => {
+    const result = await this.messagingService.sendOrganizationMessage(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+      req.userId!,
+      req.body.body,
+      (req.files as Express.Multer.File[] | undefined) ?? [],
+      req.correlationId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicationMessage>(
+        res,
+        result.value,
+        "Message sent successfully",
+        201,
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  blockApplicant = async (
+    req: Request<JobApplicationManagementSchema["params"]>,
+    res: Response<ApiResponse<MessagingBlockState>>,
+  ) => {
+    const result = await this.messagingService.blockApplicant(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<MessagingBlockState>(
+        res,
+        result.value,
+        "Applicant blocked",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  unblockApplicant = async (
+    req: Request<JobApplicationManagementSchema["params"]>,
+    res: Response<ApiResponse<MessagingBlockState>>,
+  ) => {
+    const result = await this.messagingService.unblockApplicant(
+      parseInt(req.params.organizationId),
+      parseInt(req.params.jobId),
+      parseInt(req.params.applicationId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<MessagingBlockState>(
+        res,
+        result.value,
+        "Applicant unblocked",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  // ─── Candidate handlers ───────────────────────────────────────────
+
+  getInbox = async (
+    req: Request,
+    res: Response<ApiResponse<MessageInboxThread[]>>,
+  ) => {
+    const result = await this.messagingService.getInbox(req.userId!);
+
+    if (result.isSuccess) {
+      return this.sendSuccess<MessageInboxThread[]>(
+        res,
+        result.value,
+        "Messages retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getThreadForApplicant = async (
+    req: Request<GetJobApplicationSchema["params"]>,
+    res: Response<ApiResponse<ApplicationMessageThread>>,
+  ) => {
+    const result = await this.messagingService.getThreadForApplicant(
+      Number(req.params.applicationId),
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicationMessageThread>(
+        res,
+        result.value,
+        "Messages retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  sendApplicantMessage = async (
+    req: Request<
+      SendApplicantMessageSchema["params"],
+      EmptyBody,
+      SendApplicantMessageSchema["body"]
+    >,
+    res: Response<ApiResponse<ApplicationMessage>>,
+  ) => {
+    const result = await this.messagingService.sendApplicantMessage(
+      Number(req.params.applicationId),
+      req.userId!,
+      req.body.body,
+      (req.files as Express.Multer.File[] | undefined) ?? [],
+      req.correlationId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<ApplicationMessage>(
+        res,
+        result.value,
+        "Message sent successfully",
+        201,
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  blockOrganization = async (
+    req: Request<GetJobApplicationSchema["params"]>,
+    res: Response<ApiResponse<MessagingBlockState>>,
+  ) => {
+    const result = await this.messagingService.blockOrganization(
+      Number(req.params.applicationId),
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<MessagingBlockState>(
+        res,
+        result.value,
+        "Organization blocked",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  unblockOrganization = async (
+    req: Request<GetJobApplicationSchema["params"]>,
+    res: Response<ApiResponse<MessagingBlockState>>,
+  ) => {
+    const result = await this.messagingService.unblockOrganization(
+      Number(req.params.applicationId),
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<MessagingBlockState>(
+        res,
+        result.value,
+        "Organization unblocked",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -0,0 +1,10 @@
+export { createMessagingModule } from "./composition-root";
+export type { MessagingModule } from "./composition-root";
+export type { MessagingServicePort } from "./ports/messaging-service.port";
+export type {
+  MessagingRepositoryPort,
+  MessagingApplicationContext,
+} from "./ports/messaging-repository.port";
+export type { HiringTeamQueryPort } from "./ports/hiring-team-query.port";
+export { createApplicationMessagesRoutes } from "./routes/application-messages.routes";
+export { createCandidateMessagesRoutes } from "./routes/candidate-messages.routes";
@@ -0,0 +1,12 @@
+/**
+ * Port for looking up an organization's hiring team from the messaging
+ * module's perspective. Messages from an applicant are emailed to the
+ * members who manage the organization's applications.
+ *
+ * Implemented by an adapter in src/shared/adapters/.
+ */
+export interface HiringTeamQueryPort {
+  findHiringTeam(
+    organizationId: number,
+  ): Promise<{ userId: number; email: string; fullName: string }[]>;
+}
@@ -0,0 +1,83 @@
+import type {
+  ApplicationMessage,
+  MessageInboxThread,
+  MessagingParty,
+} from "@/validations/applicationMessage.validation";
+
+/**
+ * Application, job and applicant details a message thread belongs to.
+ */
+export interface MessagingApplicationContext {
+  applicationId: number;
+  jobId: number;
+  applicantId: number;
+  applicantName: string;
+  applicantEmail: string;
+  jobTitle: string;
+  organizationId: number;
+  organizationName: string;
+}
+
+export interface MessagingRepositoryPort {
+  /**
+   * Finds the application a thread belongs to, with job, organization and
+   * applicant details.
+   */
+  findApplicationContext(
+    applicationId: number,
+  ): Promise<MessagingApplicationContext | null>;
+
+  /**
+   * Finds the messages of an application's thread, oldest first.
+   */
+  findMessages(applicationId: number): Promise<ApplicationMessage[]>;
+
+  /**
+   * Creates a message in an application's thread.
+   */
+  createMessage(data: {
+    applicationId: number;
+    senderId: number;
+    senderRole: MessagingParty;
+    body: string;
+  }): Promise<ApplicationMessage>;
+
+  /**
+   * Marks the unread messages the other side sent to the reader as read.
+   */
+  markRead(applicationId: number, reader: MessagingParty): Promise<void>;
+
+  /**
+   * Lists which sides have blocked messaging between an organization and an
+   * applicant.
+   */
+  findBlocks(
+    organizationId: number,
+    applicantId: number,
+  ): Promise<MessagingParty[]>;
+
+  /**
+   * Records that one side blocked the other. Blocking twice is a no-op.
+   */
+  block(data: {
+    organizationId: number;
+    applicantId: number;
+    blockedBy: MessagingParty;
+    createdBy: number;
+  }): Promise<void>;
+
+  /**
+   * Removes one side's block.
+   */
+  unblock(
+    organizationId: number,
+    applicantId: number,
+    blockedBy: MessagingParty,
+  ): Promise<void>;
+
+  /**
+   * Lists the applicant's threads that have at least one message, most
+   * recently active first.
+   */
+  findInbox(applicantId: number): Promise<MessageInboxThread[]>;
+}
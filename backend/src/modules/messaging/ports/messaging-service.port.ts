@@ -0,0 +1,85 @@
+import type { Result } from "@shared/result";
+import type { AppError } from "@shared/errors";
+import type {
+  ApplicationMessage,
+  ApplicationMessageThread,
+  MessageInboxThread,
+  MessagingBlockState,
+} from "@/validations/applicationMessage.validation";
+
+export interface MessagingServicePort {
+  // ─── Employer/Organization-scoped messaging methods ───────────────
+
+  /**
+   * Returns the application's thread and marks the applicant's messages as
+   * read.
+   */
+  getThreadForOrganization(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<ApplicationMessageThread, AppError>>;
+
+  /**
+   * Posts a message to the applicant, queues its attachments for upload and
+   * emails the applicant. Fails while either side has blocked the other.
+   */
+  sendOrganizationMessage(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    senderId: number,
+    body: string,
+    attachments: Express.Multer.File[],
+    correlationId: string,
+  ): Promise<Result<ApplicationMessage, AppError>>;
+
+  blockApplicant(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    actorId: number,
+  ): Promise<Result<MessagingBlockState, AppError>>;
+
+  unblockApplicant(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<MessagingBlockState, AppError>>;
+
+  // ─── Candidate methods ────────────────────────────────────────────
+
+  getInbox(userId: number): Promise<Result<MessageInboxThread[], AppError>>;
+
+  /**
+   * Returns the application's thread and marks the organization's messages
+   * as read.
+   */
+  getThreadForApplicant(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<ApplicationMessageThread, AppError>>;
+
+  /**
+   * Posts a message to the hiring team, queues its attachments for upload and
+   * emails the members who manage applications. Fails while either side has
+   * blocked the other.
+   */
+  sendApplicantMessage(
+    applicationId: number,
+    userId: number,
+    body: string,
+    attachments: Express.Multer.File[],
+    correlationId: string,
+  ): Promise<Result<ApplicationMessage, AppError>>;
+
+  blockOrganization(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<MessagingBlockState, AppError>>;
+
+  unblockOrganization(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<MessagingBlockState, AppError>>;
+}
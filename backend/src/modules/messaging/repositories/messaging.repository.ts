@@ -0,0 +1,225 @@
+import { and, asc, desc, eq, isNull, ne, sql, type SQL } from "drizzle-orm";
+import {
+  applicationMessages,
+  jobApplications,
+  jobsDetails,
+  messagingBlocks,
+  organizations,
+  user,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { DatabaseError } from "@shared/errors";
+import type { MessagingRepositoryPort } from "../ports/messaging-repository.port";
+import type {
+  ApplicationMessage,
+  MessagingParty,
+} from "@/validations/applicationMessage.validation";
+
+/**
+ * Application message threads and the blocks between applicants and
+ * organizations.
+ */
+export class MessagingRepository implements MessagingRepositoryPort {
+  private async queryMessages(
+    where: SQL | undefined,
+  ): Promise<ApplicationMessage[]> {
+    const rows = await db
+      .select({
+        id: applicationMessages.id,
+        applicationId: applicationMessages.applicationId,
+        senderRole: applicationMessages.senderRole,
+        senderName: user.fullName,
+        body: applicationMessages.body,
+        fileMetadata: applicationMessages.fileMetadata,
+        readAt: applicationMessages.readAt,
+        createdAt: applicationMessages.createdAt,
+      })
+      .from(applicationMessages)
+      .leftJoin(user, eq(user.id, applicationMessages.senderId))
+      .where(where)
+      .orderBy(asc(applicationMessages.createdAt), asc(applicationMessages.id));
+
+    return rows.map(({ fileMetadata, ...message }) => ({
+      ...message,
+      attachments: fileMetadata ?? [],
+    }));
+  }
+
+  async findApplicationContext(applicationId: number) {
+    return withDbErrorHandling(async () => {
+      const [context] = await db
+        .select({
+          applicationId: jobApplications.id,
+          jobId: jobApplications.jobId,
+          applicantId: jobApplications.applicantId,
+          applicantName: user.fullName,
+          applicantEmail: user.email,
+          jobTitle: jobsDetails.title,
+          organizationId: organizations.id,
+          organizationName: organizations.name,
+        })
+        .from(jobApplications)
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
+        .innerJoin(organizations, eq(organizations.id, jobsDetails.employerId))
+        .innerJoin(user, eq(user.id, jobApplications.applicantId))
+        .where(eq(jobApplications.id, applicationId))
+        .limit(1);
+
+      return context ?? null;
+    });
+  }
+
+  async findMessages(applicationId: number) {
+    return withDbErrorHandling(() =>
+      this.queryMessages(eq(applicationMessages.applicationId, applicationId)),
+    );
+  }
+
+  async createMessage(data: {
+    applicationId: number;
+    senderId: number;
+    senderRole: MessagingParty;
+    body: string;
+  }) {
+    return withDbErrorHandling(async () => {
+      const [inserted] = await db
+        .insert(applicationMessages)
+        .values(data)
+        .$returningId();
+
+      if (!inserted) {
+        throw new DatabaseError("Failed to create message");
+      }
+
+      const [message] = await this.queryMessages(
+        eq(applicationMessages.id, inserted.id),
+      );
+      if (!message) {
+        throw new DatabaseError("Failed to create message");
+      }
+      return message;
+    });
+  }
+
+  async markRead(applicationId: number, reader: MessagingParty) {
+    await withDbErrorHandling(async () => {
+      await db
+        .update(applicationMessages)
+        .set({ readAt: new Date() })
+        .where(
+          and(
+            eq(applicationMessages.applicationId, applicationId),
+            ne(applicationMessages.senderRole, reader),
+            isNull(applicationMessages.readAt),
+          ),
+        );
+    });
+  }
+
+  async findBlocks(organizationId: number, applicantId: number) {
+    return withDbErrorHandling(async () => {
+      const rows = await db
+        .select({ blockedBy: messagingBlocks.blockedBy })
+        .from(messagingBlocks)
+        .where(
+          and(
+            eq(messagingBlocks.organizationId, organizationId),
+            eq(messagingBlocks.applicantId, applicantId),
+          ),
+        );
+      return rows.map((row) => row.blockedBy);
+    });
+  }
+
+  async block(data: {
+    organizationId: number;
+    applicantId: number;
+    blockedBy: MessagingParty;
+    createdBy: number;
+  }) {
+    await withDbErrorHandling(async () => {
+      await db
+        .insert(messagingBlocks)
+        .values(data)
+        .onDuplicateKeyUpdate({
+          set: { organizationId: data.organizationId },
+        });
+    });
+  }
+
+  async unblock(
+    organizationId: number,
+    applicantId: number,
+    blockedBy: MessagingParty,
+  ) {
+    await withDbErrorHandling(async () => {
+      await db
+        .delete(messagingBlocks)
+        .where(
+          and(
+            eq(messagingBlocks.organizationId, organizationId),
+            eq(messagingBlocks.applicantId, applicantId),
+            eq(messagingBlocks.blockedBy, blockedBy),
+          ),
+        );
+    });
+  }
+
+  async findInbox(applicantId: number) {
+    return withDbErrorHandling(async () => {
+      const latest = db
+        .select({
+          applicationId: applicationMessages.applicationId,
+          lastMessageId: sql<number>`max(${applicationMessages.id})`.as(
+            "last_message_id",
+          ),
+          unreadCount:
+            sql<number>`sum(case when ${applicationMessages.senderRole} = 'organization' and ${applicationMessages.readAt} is null then 1 else 0 end)`.as(
+              "unread_count",
+            ),
+        })
+        .from(applicationMessages)
+        .innerJoin(
+          jobApplications,
+          eq(jobApplications.id, applicationMessages.applicationId),
+        )
+        .where(eq(jobApplications.applicantId, applicantId))
+        .groupBy(applicationMessages.applicationId)
+        .as("latest");
+
+      const rows = await db
+        .select({
+          applicationId: latest.applicationId,
+          jobId: jobsDetails.id,
+          jobTitle: jobsDetails.title,
+          organizationId: organizations.id,
+          organizationName: organizations.name,
+          body: applicationMessages.body,
+          senderRole: applicationMessages.senderRole,
+          createdAt: applicationMessages.createdAt,
+          unreadCount: latest.unreadCount,
+        })
+        .from(latest)
+        .innerJoin(
+          applicationMessages,
+          eq(applicationMessages.id, latest.lastMessageId),
+        )
+        .innerJoin(
+          jobApplications,
+          eq(jobApplications.id, latest.applicationId),
+        )
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobApplications.jobId))
+        .innerJoin(organizations, eq(organizations.id, jobsDetails.employerId))
+        .orderBy(desc(applicationMessages.createdAt));
+
+      return rows.map(
+        ({ body, senderRole, createdAt, unreadCount, ...thread }) => ({
+          ...thread,
+          lastMessage: { body, senderRole, createdAt },
+          unreadCount: Number(unreadCount ?? 0),
+        }),
+      );
+    });
+  }
+}
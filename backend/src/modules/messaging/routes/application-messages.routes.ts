@@ -0,0 +1,76 @@
+import { Router, type RequestHandler } from "express";
+import type { MessagingController } from "../controllers/messaging.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import { auditRead } from "@/middleware/audit-read.middleware";
+import { uploadMiddleware } from "@/middleware/multer.middleware";
+import { jobApplicationManagementSchema } from "@/validations/organization.validation";
+import { sendOrganizationMessageSchema } from "@/validations/applicationMessage.validation";
+
+/**
+ * Creates routes for the hiring team's side of application message threads.
+ * These routes are mounted under /api/organizations. Threads are not cached:
+ * opening one marks the applicant's messages as read.
+ */
+export function createApplicationMessagesRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    "requirePermission" | "ensureIsOrganizationMember"
+  >;
+  controller: MessagingController;
+}): Router {
+  const router = Router();
+
+  // GET /:organizationId/jobs/:jobId/applications/:applicationId/messages
+  router.get(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/messages",
+    authenticate,
+    orgGuards.requirePermission("applications.view"),
+    orgGuards.ensureIsOrganizationMember,
+    auditRead("read.application.messages.by_employer", (req) => ({
+      type: "application",
+      id: String(req.params.applicationId),
+      organizationId: Number(req.params.organizationId),
+    })),
+    validate(jobApplicationManagementSchema),
+    controller.getThreadForOrganization,
+  );
+
+  // POST /:organizationId/jobs/:jobId/applications/:applicationId/messages
+  router.post(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/messages",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.ensureIsOrganizationMember,
+    uploadMiddleware.messageAttachments,
+    validate(sendOrganizationMessageSchema),
+    controller.sendOrganizationMessage,
+  );
+
+  // POST /:organizationId/jobs/:jobId/applications/:applicationId/messages/block
+  router.post(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/messages/block",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(jobApplicationManagementSchema),
+    controller.blockApplicant,
+  );
+
+  // DELETE /:organizationId/jobs/:jobId/applications/:applicationId/messages/block
+  router.delete(
+    "/:organizationId/jobs/:jobId/applications/:applicationId/messages/block",
+    authenticate,
+    orgGuards.requirePermission("applications.manage"),
+    orgGuards.ensureIsOrganizationMember,
+    validate(jobApplicationManagementSchema),
+    controller.unblockApplicant,
+  );
+
+  return router;
+}
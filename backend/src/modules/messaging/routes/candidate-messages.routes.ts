@@ -0,0 +1,75 @@
+import { Router, type RequestHandler } from "express";
+import type { MessagingController } from "../controllers/messaging.controller";
+import type { ProfileGuards } from "@/modules/user-profile";
+import validate from "@/middleware/validation.middleware";
+import { uploadMiddleware } from "@/middleware/multer.middleware";
+import { getJobApplicationSchema } from "@/validations/jobApplications.validation";
+import {
+  getMessageInboxSchema,
+  sendApplicantMessageSchema,
+} from "@/validations/applicationMessage.validation";
+
+/**
+ * Creates the candidate's messaging routes. These routes are mounted under
+ * /api/jobs and must be registered before the /:jobId routes. Threads are
+ * not cached: opening one marks the organization's messages as read.
+ */
+export function createCandidateMessagesRoutes({
+  authenticate,
+  profileGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  profileGuards: Pick<ProfileGuards, "requireUserRole">;
+  controller: MessagingController;
+}): Router {
+  const router = Router();
+
+  // GET /jobs/me/messages
+  router.get(
+    "/me/messages",
+    authenticate,
+    profileGuards.requireUserRole,
+    validate(getMessageInboxSchema),
+    controller.getInbox,
+  );
+
+  // GET /jobs/me/applications/:applicationId/messages
+  router.get(
+    "/me/applications/:applicationId/messages",
+    authenticate,
+    profileGuards.requireUserRole,
+    validate(getJobApplicationSchema),
+    controller.getThreadForApplicant,
+  );
+
+  // POST /jobs/me/applications/:applicationId/messages
+  router.post(
+    "/me/applications/:applicationId/messages",
+    authenticate,
+    profileGuards.requireUserRole,
+    uploadMiddleware.messageAttachments,
+    validate(sendApplicantMessageSchema),
+    controller.sendApplicantMessage,
+  );
+
+  // POST /jobs/me/applications/:applicationId/messages/block
+  router.post(
+    "/me/applications/:applicationId/messages/block",
+    authenticate,
+    profileGuards.requireUserRole,
+    validate(getJobApplicationSchema),
+    controller.blockOrganization,
+  );
+
+  // DELETE /jobs/me/applications/:applicationId/messages/block
+  router.delete(
+    "/me/applications/:applicationId/messages/block",
+    authenticate,
+    profileGuards.requireUserRole,
+    validate(getJobApplicationSchema),
+    controller.unblockOrganization,
+  );
+
+  return router;
+}
@@ -0,0 +1,500 @@
+import { Result, fail, ok } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import {
+  AppError,
+  DatabaseError,
+  ForbiddenError,
+  NotFoundError,
+} from "@shared/errors";
+import logger from "@shared/logger";
+import { StorageFolder } from "@shared/constants/storage-folders";
+
+import type { MessagingServicePort } from "../ports/messaging-service.port";
+import type {
+  MessagingApplicationContext,
+  MessagingRepositoryPort,
+} from "../ports/messaging-repository.port";
+import type { HiringTeamQueryPort } from "../ports/hiring-team-query.port";
+
+import type {
+  ApplicationMessage,
+  ApplicationMessageThread,
+  MessageInboxThread,
+  MessagingBlockState,
+  MessagingParty,
+} from "@/validations/applicationMessage.validation";
+import type { FileUploadJobData } from "@/validations/file.validation";
+
+/** How much of a message the notification email quotes. */
+export const MESSAGE_PREVIEW_LENGTH = 200;
+
+/**
+ * Threaded conversations between an organization's hiring team and the
+ * applicant, one thread per job application.
+ */
+export class MessagingService
+  extends BaseService
+  implements MessagingServicePort
+{
+  constructor(
+    private messagingRepository: MessagingRepositoryPort,
+    private hiringTeamQuery: HiringTeamQueryPort,
+  ) {
+    super();
+  }
+
+  // ─── Employer/Organization-scoped messaging methods ───────────────
+
+  async getThreadForOrganization(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<ApplicationMessageThread, AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      return ok(await this.openThread(context, "organization"));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve messages"));
+    }
+  }
+
+  async sendOrganizationMessage(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    senderId: number,
+    body: string,
+    attachments: Express.Multer.File[],
+    correlationId: string,
+  ): Promise<Result<ApplicationMessage, AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const message = await this.postMessage(
+        context,
+        "organization",
+        senderId,
+        body,
+        attachments,
+        correlationId,
+      );
+
+      if (message instanceof AppError) {
+        return fail(message);
+      }
+
+      await this.notifyRecipients(
+        context,
+        message,
+        "applicant",
+        [
+          {
+            userId: context.applicantId,
+            email: context.applicantEmail,
+            fullName: context.applicantName,
+          },
+        ],
+        message.senderName ?? context.organizationName,
+      );
+
+      return ok(message);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to send message"));
+    }
+  }
+
+  async blockApplicant(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+    actorId: number,
+  ): Promise<Result<MessagingBlockState, AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      await this.messagingRepository.block({
+        organizationId: context.organizationId,
+        applicantId: context.applicantId,
+        blockedBy: "organization",
+        createdBy: actorId,
+      });
+
+      return ok(await this.blockState(context));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to block applicant"));
+    }
+  }
+
+  async unblockApplicant(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<Result<MessagingBlockState, AppError>> {
+    try {
+      const context = await this.findContextForOrganization(
+        organizationId,
+        jobId,
+        applicationId,
+      );
+
+      if (!context) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      await this.messagingRepository.unblock(
+        context.organizationId,
+        context.applicantId,
+        "organization",
+      );
+
+      return ok(await this.blockState(context));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to unblock applicant"));
+    }
+  }
+
+  // ─── Candidate methods ────────────────────────────────────────────
+
+  async getInbox(
+    userId: number,
+  ): Promise<Result<MessageInboxThread[], AppError>> {
+    try {
+      return ok(await this.messagingRepository.findInbox(userId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve messages"));
+    }
+  }
+
+  async getThreadForApplicant(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<ApplicationMessageThread, AppError>> {
+    try {
+      const context =
+        await this.messagingRepository.findApplicationContext(applicationId);
+
+      if (!context || context.applicantId !== userId) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      return ok(await this.openThread(context, "applicant"));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve messages"));
+    }
+  }
+
+  async sendApplicantMessage(
+    applicationId: number,
+    userId: number,
+    body: string,
+    attachments: Express.Multer.File[],
+    correlationId: string,
+  ): Promise<Result<ApplicationMessage, AppError>> {
+    try {
+      const context =
+        await this.messagingRepository.findApplicationContext(applicationId);
+
+      if (!context || context.applicantId !== userId) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      const message = await this.postMessage(
+        context,
+        "applicant",
+        userId,
+        body,
+        attachments,
+        correlationId,
+      );
+
+      if (message instanceof AppError) {
+        return fail(message);
+      }
+
+      await this.notifyRecipients(
+        context,
+        message,
+        "organization",
+        await this.findHiringTeam(context.organizationId),
+        context.applicantName,
+      );
+
+      return ok(message);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to send message"));
+    }
+  }
+
+  async blockOrganization(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<MessagingBlockState, AppError>> {
+    try {
+      const context =
+        await this.messagingRepository.findApplicationContext(applicationId);
+
+      if (!context || context.applicantId !== userId) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      await this.messagingRepository.block({
+        organizationId: context.organizationId,
+        applicantId: context.applicantId,
+        blockedBy: "applicant",
+        createdBy: userId,
+      });
+
+      return ok(await this.blockState(context));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to block organization"));
+    }
+  }
+
+  async unblockOrganization(
+    applicationId: number,
+    userId: number,
+  ): Promise<Result<MessagingBlockState, AppError>> {
+    try {
+      const context =
+        await this.messagingRepository.findApplicationContext(applicationId);
+
+      if (!context || context.applicantId !== userId) {
+        return fail(new NotFoundError("Application", applicationId));
+      }
+
+      await this.messagingRepository.unblock(
+        context.organizationId,
+        context.applicantId,
+        "applicant",
+      );
+
+      return ok(await this.blockState(context));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to unblock organization"));
+    }
+  }
+
+  // ─── Helpers ──────────────────────────────────────────────────────
+
+  private async findContextForOrganization(
+    organizationId: number,
+    jobId: number,
+    applicationId: number,
+  ): Promise<MessagingApplicationContext | null> {
+    const context =
+      await this.messagingRepository.findApplicationContext(applicationId);
+
+    if (
+      !context ||
+      context.organizationId !== organizationId ||
+      context.jobId !== jobId
+    ) {
+      return null;
+    }
+
+    return context;
+  }
+
+  /**
+   * Marks the other side's messages as read before loading the thread so the
+   * reader sees their own read receipts up to date.
+   */
+  private async openThread(
+    context: MessagingApplicationContext,
+    reader: MessagingParty,
+  ): Promise<ApplicationMessageThread> {
+    await this.messagingRepository.markRead(context.applicationId, reader);
+
+    const [messages, blockedBy] = await Promise.all([
+      this.messagingRepository.findMessages(context.applicationId),
+      this.messagingRepository.findBlocks(
+        context.organizationId,
+        context.applicantId,
+      ),
+    ]);
+
+    return {
+      applicationId: context.applicationId,
+      jobId: context.jobId,
+      jobTitle: context.jobTitle,
+      organizationId: context.organizationId,
+      organizationName: context.organizationName,
+      applicantName: context.applicantName,
+      blockedBy,
+      messages,
+    };
+  }
+
+  /**
+   * Creates the message and queues its attachments for upload, unless either
+   * side has blocked the other.
+   */
+  private async postMessage(
+    context: MessagingApplicationContext,
+    senderRole: MessagingParty,
+    senderId: number,
+    body: string,
+    attachments: Express.Multer.File[],
+    correlationId: string,
+  ): Promise<ApplicationMessage | AppError> {
+    const blockedBy = await this.messagingRepository.findBlocks(
+      context.organizationId,
+      context.applicantId,
+    );
+
+    if (blockedBy.length > 0) {
+      return new ForbiddenError(
+        blockedBy.includes(senderRole)
+          ? "Unblock this conversation to send messages"
+          : "Messages can no longer be sent in this conversation",
+      );
+    }
+
+    const message = await this.messagingRepository.createMessage({
+      applicationId: context.applicationId,
+      senderId,
+      senderRole,
+      body,
+    });
+
+    if (attachments.length > 0) {
+      await queueService.addJob<FileUploadJobData>(
+        QUEUE_NAMES.FILE_UPLOAD_QUEUE,
+        "uploadFile",
+        {
+          entityType: "application_message",
+          entityId: message.id.toString(),
+          mergeWithExisting: false,
+          tempFiles: attachments.map((file) => ({
+            originalname: file.originalname,
+            tempPath: file.path,
+            size: file.size,
+            mimetype: file.mimetype,
+            fieldName: file.fieldname,
+          })),
+          userId: senderId.toString(),
+          folder: StorageFolder.MESSAGE_ATTACHMENTS,
+          correlationId,
+        },
+      );
+    }
+
+    return message;
+  }
+
+  private async findHiringTeam(organizationId: number) {
+    try {
+      return await this.hiringTeamQuery.findHiringTeam(organizationId);
+    } catch (error) {
+      // Log error but don't fail the message if the team can't be loaded
+      logger.error(error, "Error Loading Hiring Team For Message Notification");
+      return [];
+    }
+  }
+
+  private async notifyRecipients(
+    context: MessagingApplicationContext,
+    message: ApplicationMessage,
+    recipient: MessagingParty,
+    recipients: { userId: number; email: string; fullName: string }[],
+    senderName: string,
+  ): Promise<void> {
+    const preview =
+      message.body.length > MESSAGE_PREVIEW_LENGTH
+        ? `${message.body.slice(0, MESSAGE_PREVIEW_LENGTH)}…`
+        : message.body;
+
+    for (const contact of recipients) {
+      try {
+        await queueService.addJob(
+          QUEUE_NAMES.EMAIL_QUEUE,
+          "sendApplicationMessage",
+          {
+            userId: contact.userId,
+            email: contact.email,
+            fullName: contact.fullName,
+            recipient,
+            applicationId: context.applicationId,
+            jobId: context.jobId,
+            jobTitle: context.jobTitle,
+            organizationId: context.organizationId,
+            organizationName: context.organizationName,
+            senderName,
+            preview,
+          },
+        );
+      } catch (error) {
+        // Log error but don't fail the message if notification fails
+        logger.error(error, "Error Sending Application Message Email");
+      }
+    }
+  }
+
+  private async blockState(
+    context: MessagingApplicationContext,
+  ): Promise<MessagingBlockState> {
+    return {
+      applicationId: context.applicationId,
+      blockedBy: await this.messagingRepository.findBlocks(
+        context.organizationId,
+        context.applicantId,
+      ),
+    };
+  }
+}
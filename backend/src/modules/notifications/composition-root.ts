@@ -2,27 +2,34 @@ import type { EmailServicePort } from "@shared/ports/email-service.port";
 import type { TypesenseJobServicePort } from "@shared/ports/typesense-service.port";
 import type { UserActivityQueryPort } from "./ports/user-activity-query.port";
 import type { NotificationsRepositoryPort } from "./ports/notifications-repository.port";
+import type { JobRecommendationQueryPort } from "./ports/job-recommendation-query.port";
 import type { ModuleWorkers } from "@shared/types/module-workers";
 
 import { NotificationsService } from "./services/notifications.service";
 import { NotificationsController } from "./controllers/notifications.controller";
 import { JobMatchingService } from "./services/job-matching.service";
+import { WeeklyDigestService } from "./services/weekly-digest.service";
+import { NewsletterService } from "./services/newsletter.service";
 import { createSendEmailWorker } from "./workers/send-email.worker";
 import { createJobAlertProcessorWorker } from "./workers/job-alert-processor.worker";
 import { createInactiveUserAlertPauserWorker } from "./workers/inactive-user-alert-pauser.worker";
+import { createWeeklyJobDigestWorker } from "./workers/weekly-job-digest.worker";
+import { createNewsletterWorker } from "./workers/newsletter.worker";
 
 interface NotificationsModuleDeps {
   emailService: EmailServicePort;
   userActivityQuery: UserActivityQueryPort;
   typesenseService: TypesenseJobServicePort;
   notificationsRepository: NotificationsRepositoryPort;
+  jobRecommendationQuery: JobRecommendationQueryPort;
 }
 
 /**
  * Composition root for the Notifications module.
  *
  * Receives shared email service, typesense service (for job matching),
- * and a cross-module port to look up user contact information and activity.
+ * and cross-module ports to look up user contact information and activity
+ * and the job recommendations listed in the weekly digest.
  */
 export function createNotificationsModule(deps: NotificationsModuleDeps) {
   const repository = deps.notificationsRepository;
@@ -46,16 +53,28 @@ export function createNotificationsModule(deps: NotificationsModuleDeps) {
     userActivityQuery: deps.userActivityQuery,
     notificationsRepository: repository,
   });
+  const weeklyJobDigestWorker = createWeeklyJobDigestWorker({
+    weeklyDigestService: new WeeklyDigestService(
+      repository,
+      deps.jobRecommendationQuery,
+    ),
+  });
+  const newsletterWorker = createNewsletterWorker({
+    newsletterService: new NewsletterService(repository, service),
+  });
 
   const workers: ModuleWorkers = {
     initialize() {
       emailWorker.initialize();
       alertProcessorWorker.initialize();
       inactiveUserAlertPauser.initialize();
+      weeklyJobDigestWorker.initialize();
+      newsletterWorker.initialize();
     },
     async scheduleJobs() {
       await alertProcessorWorker.scheduleJobs();
       await inactiveUserAlertPauser.scheduleJobs();
+      await weeklyJobDigestWorker.scheduleJobs();
     },
   };
 
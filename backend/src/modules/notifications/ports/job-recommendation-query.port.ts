@@ -0,0 +1,12 @@
+import type { DigestJob } from "@shared/ports/email-service.port";
+
+/**
+ * Port for the jobs the recommendation engine picks for a seeker, used to
+ * fill the weekly digest.
+ *
+ * Implemented by an adapter in src/shared/adapters/.
+ */
+export interface JobRecommendationQueryPort {
+  /** Top recommendations for the user; empty when none can be made. */
+  getRecommendedJobs(userId: number, limit: number): Promise<DigestJob[]>;
+}
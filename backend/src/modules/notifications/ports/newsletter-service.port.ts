@@ -0,0 +1,11 @@
+import type { Result } from "@shared/result";
+import type { AppError } from "@shared/errors";
+
+export interface NewsletterServicePort {
+  /**
+   * Queues one email per user in the newsletter's segment who kept the
+   * monthly newsletter on, each with the user's unsubscribe link, and marks
+   * the newsletter sent. Resolves to the number of emails queued.
+   */
+  sendNewsletter(newsletterId: number): Promise<Result<number, AppError>>;
+}
@@ -6,6 +6,17 @@ import {
 import { UserEmailPreferencesSchema } from "@/validations/user.validation";
 import { PaginationMeta } from "@shared/types";
 import { UnsentMatchesSchema } from "@/validations/job.validation";
+import type { DigestJob } from "@shared/ports/email-service.port";
+import type { NewsletterSegment, newsletters } from "@/db/schema";
+
+export type Newsletter = typeof newsletters.$inferSelect;
+
+/** A user who can be sent a bulk email. */
+export interface EmailRecipient {
+  userId: number;
+  email: string;
+  fullName: string;
+}
 
 export interface NotificationsRepositoryPort {
   findEmailPreferencesByUserId(
@@ -121,4 +132,30 @@ export interface NotificationsRepositoryPort {
     userId: number,
     context: "job_seeker" | "employer" | "global",
   ): Promise<UserEmailPreferencesSchema | undefined>;
+  /**
+   * Active users in the segment who kept the given bulk email on, ordered
+   * by id and starting after `afterUserId` so callers can page through.
+   */
+  findEmailRecipients(
+    emailType: "weeklyJobDigest" | "monthlyNewsletter",
+    segment: NewsletterSegment,
+    afterUserId: number,
+    limit: number,
+  ): Promise<EmailRecipient[]>;
+  /** Published jobs matched by the user's job alerts since the given time. */
+  findRecentAlertMatchJobs(
+    userId: number,
+    since: Date,
+    limit: number,
+  ): Promise<DigestJob[]>;
+  createNewsletter(data: {
+    subject: string;
+    body: string;
+    segment: NewsletterSegment;
+  }): Promise<Newsletter>;
+  findNewsletterById(id: number): Promise<Newsletter | undefined>;
+  updateNewsletter(
+    id: number,
+    data: Partial<Pick<Newsletter, "status" | "recipientCount" | "sentAt">>,
+  ): Promise<void>;
 }
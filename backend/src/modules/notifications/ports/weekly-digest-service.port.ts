@@ -0,0 +1,11 @@
+import type { Result } from "@shared/result";
+import type { AppError } from "@shared/errors";
+
+export interface WeeklyDigestServicePort {
+  /**
+   * Queues a weekly digest for every seeker who kept it on, listing their
+   * top recommendations and the past week's job alert matches. Seekers with
+   * nothing to list are skipped. Resolves to the number of digests queued.
+   */
+  sendWeeklyDigests(now?: Date): Promise<Result<number, AppError>>;
+}
@@ -4,6 +4,8 @@ import {
   count,
   desc,
   eq,
+  gt,
+  gte,
   inArray,
   isNull,
   lte,
@@ -14,10 +16,16 @@ import {
   emailPreferenceAuditLog,
   jobAlertMatches,
   jobAlerts,
+  jobsDetails,
+  newsletters,
+  organizations,
   user,
   userEmailPreferences,
+  type NewsletterSegment,
 } from "@/db/schema";
 import type { NotificationsRepositoryPort } from "@/modules/notifications";
+import type { Newsletter } from "../ports/notifications-repository.port";
+import type { DigestJob } from "@shared/ports/email-service.port";
 import { db } from "@shared/db/connection";
 import { DatabaseError } from "@shared/errors";
 import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
@@ -631,4 +639,127 @@ export class NotificationsRepository implements NotificationsRepositoryPort {
       return await this.findEmailPreferencesByUserId(userId);
     });
   }
+
+  async findEmailRecipients(
+    emailType: "weeklyJobDigest" | "monthlyNewsletter",
+    segment: NewsletterSegment,
+    afterUserId: number,
+    limit: number,
+  ) {
+    return await withDbErrorHandling(async () => {
+      return db
+        .select({
+          userId: user.id,
+          email: user.email,
+          fullName: user.fullName,
+        })
+        .from(user)
+        .innerJoin(
+          userEmailPreferences,
+          eq(userEmailPreferences.userId, user.id),
+        )
+        .where(
+          and(
+            gt(user.id, afterUserId),
+            eq(user.status, "active"),
+            eq(userEmailPreferences.globalUnsubscribe, false),
+            eq(userEmailPreferences[emailType], true),
+            segment === "seekers" ? eq(user.intent, "seeker") : undefined,
+            segment === "employers" ? eq(user.intent, "employer") : undefined,
+          ),
+        )
+        .orderBy(asc(user.id))
+        .limit(limit);
+    });
+  }
+
+  async findRecentAlertMatchJobs(
+    userId: number,
+    since: Date,
+    limit: number,
+  ): Promise<DigestJob[]> {
+    return await withDbErrorHandling(async () => {
+      const rows = await db
+        .select({
+          id: jobsDetails.id,
+          title: jobsDetails.title,
+          company: organizations.name,
+          city: jobsDetails.city,
+          state: jobsDetails.state,
+          jobType: jobsDetails.jobType,
+        })
+        .from(jobAlertMatches)
+        .innerJoin(jobAlerts, eq(jobAlerts.id, jobAlertMatches.jobAlertId))
+        .innerJoin(jobsDetails, eq(jobsDetails.id, jobAlertMatches.jobId))
+        .innerJoin(organizations, eq(organizations.id, jobsDetails.employerId))
+        .where(
+          and(
+            eq(jobAlerts.userId, userId),
+            gte(jobAlertMatches.matchedAt, since),
+            eq(jobsDetails.status, "published"),
+          ),
+        )
+        .orderBy(desc(jobAlertMatches.matchScore));
+
+      // A job matched by several alerts is listed once, at its best score
+      const jobs = new Map<number, DigestJob>();
+      for (const row of rows) {
+        if (jobs.size >= limit) break;
+        if (jobs.has(row.id)) continue;
+        jobs.set(row.id, {
+          id: row.id,
+          title: row.title,
+          company: row.company,
+          location: [row.city, row.state].filter(Boolean).join(", "),
+          jobType: row.jobType,
+        });
+      }
+      return [...jobs.values()];
+    });
+  }
+
+  async createNewsletter(data: {
+    subject: string;
+    body: string;
+    segment: NewsletterSegment;
+  }): Promise<Newsletter> {
+    return await withDbErrorHandling(async () => {
+      const [created] = await db
+        .insert(newsletters)
+        .values(data)
+        .$returningId();
+
+      if (!created || isNaN(created.id)) {
+        throw new DatabaseError(`Invalid insertId returned: ${created?.id}`);
+      }
+
+      const newsletter = await db.query.newsletters.findFirst({
+        where: eq(newsletters.id, created.id),
+      });
+
+      if (!newsletter) {
+        throw new DatabaseError("Failed to retrieve created newsletter");
+      }
+
+      return newsletter;
+    });
+  }
+
+  async findNewsletterById(id: number) {
+    return await withDbErrorHandling(
+      async () =>
+        await db.query.newsletters.findFirst({
+          where: eq(newsletters.id, id),
+        }),
+    );
+  }
+
+  async updateNewsletter(
+    id: number,
+    data: Partial<Pick<Newsletter, "status" | "recipientCount" | "sentAt">>,
+  ): Promise<void> {
+    await withDbErrorHandling(async () => {
+      await db.update(newsletters).set(data).where(eq(newsletters.id, id));
+    });
+  }
 }
@@ -4,6 +4,7 @@ import { DatabaseError } from "@shared/errors";
 import { Job } from "@/validations/job.validation";
 import { JobAlert } from "@/validations/jobAlerts.validation";
 import { TypesenseQueryBuilder } from "@shared/infrastructure/typesense.service/typesense-queryBuilder";
+import { geoDistanceSort } from "@shared/infrastructure/typesense.service/geo-search";
 import logger from "@shared/logger";
 import type { JobMatchingServicePort } from "../ports/job-matching-service.port";
 import type { TypesenseJobServicePort } from "@shared/ports/typesense-service.port";
@@ -32,8 +33,21 @@ export class JobMatchingService
       // Build Typesense filter string using TypesenseQueryBuilder
       const queryBuilder = new TypesenseQueryBuilder();
 
-      // Add location filters with remote fallback
-      if (alert.city || alert.state) {
+      const { latitude, longitude, radiusMiles } = alert;
+      const centre =
+        latitude != null && longitude != null && radiusMiles
+          ? { lat: latitude, lng: longitude }
+          : null;
+
+      // A radius replaces the city/state match; otherwise add location
+      // filters with remote fallback
+      if (centre && radiusMiles) {
+        queryBuilder.addGeoRadiusFilter(
+          centre,
+          radiusMiles,
+          alert.includeRemote,
+        );
+      } else if (alert.city || alert.state) {
         queryBuilder.addLocationFilters(
           {
             city: alert.city || undefined,
@@ -68,6 +82,11 @@ export class JobMatchingService
         queryBuilder.addSkillFilters(alert.skills, false);
       }
 
+      // Add work area filter (any of the selected areas)
+      if (alert.workAreas && alert.workAreas.length > 0) {
+        queryBuilder.addQuotedArrayFilter("workAreas", alert.workAreas);
+      }
+
       const filterString = queryBuilder.build();
 
       logger.info("Searching for alert matches", {
@@ -77,12 +96,18 @@ export class JobMatchingService
         lastSentAt: alert.lastSentAt,
       });
 
+      // Radius alerts list the nearest jobs first
+      const distanceSort: [] | [string] = centre
+        ? [`${geoDistanceSort(centre)}:asc`]
+        : [];
+
       // Search using Typesense
       const searchResponse = await this.typesenseService.searchJobsForAlert(
         alert.searchQuery,
         filterString,
         alert.lastSentAt,
         limit,
+        ...distanceSort,
       );
 
       if (!searchResponse.hits || searchResponse.hits.length === 0) {
@@ -128,8 +153,10 @@ export class JobMatchingService
         };
       });
 
-      // Sort by match score descending
-      matches.sort((a, b) => b.matchScore - a.matchScore);
+      // Sort by match score descending, keeping radius alerts in distance order
+      if (!centre) {
+        matches.sort((a, b) => b.matchScore - a.matchScore);
+      }
 
       logger.info("Found matches for alert", {
         alertId: alert.id,
@@ -0,0 +1,105 @@
+import { fail, ok } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import {
+  AppError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+} from "@shared/errors";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import type { NotificationsRepositoryPort } from "../ports/notifications-repository.port";
+import type { NotificationsServicePort } from "../ports/notifications-service.port";
+import type { NewsletterServicePort } from "../ports/newsletter-service.port";
+
+/** Recipients loaded and queued per round trip. */
+const RECIPIENT_BATCH_SIZE = 500;
+
+export class NewsletterService
+  extends BaseService
+  implements NewsletterServicePort
+{
+  constructor(
+    private notificationsRepository: NotificationsRepositoryPort,
+    private unsubscribeLinks: Pick<
+      NotificationsServicePort,
+      "generateUnsubscribeLink"
+    >,
+  ) {
+    super();
+  }
+
+  async sendNewsletter(newsletterId: number) {
+    try {
+      const newsletter =
+        await this.notificationsRepository.findNewsletterById(newsletterId);
+
+      if (!newsletter) {
+        return fail(new NotFoundError("Newsletter", newsletterId));
+      }
+
+      if (newsletter.status === "sent") {
+        return fail(new ConflictError("Newsletter has already been sent"));
+      }
+
+      await this.notificationsRepository.updateNewsletter(newsletterId, {
+        status: "sending",
+      });
+
+      let afterUserId = 0;
+      let queued = 0;
+
+      for (;;) {
+        const recipients =
+          await this.notificationsRepository.findEmailRecipients(
+            "monthlyNewsletter",
+            newsletter.segment,
+            afterUserId,
+            RECIPIENT_BATCH_SIZE,
+          );
+        if (recipients.length === 0) break;
+
+        const emails = await Promise.all(
+          recipients.map(async (recipient) => ({
+            name: "sendNewsletter",
+            data: {
+              ...recipient,
+              newsletterId,
+              subject: newsletter.subject,
+              body: newsletter.body,
+              unsubscribeUrl:
+                await this.unsubscribeLinks.generateUnsubscribeLink(
+                  recipient.userId,
+                ),
+            },
+            // A retried send does not email the same user twice
+            options: {
+              jobId: `newsletter-${newsletterId}-${recipient.userId}`,
+            },
+          })),
+        );
+
+        await queueService.addBulkJobs(QUEUE_NAMES.EMAIL_QUEUE, emails);
+        queued += emails.length;
+
+        if (recipients.length < RECIPIENT_BATCH_SIZE) break;
+        afterUserId = recipients[recipients.length - 1]!.userId;
+      }
+
+      await this.notificationsRepository.updateNewsletter(newsletterId, {
+        status: "sent",
+        recipientCount: queued,
+        sentAt: new Date(),
+      });
+
+      return ok(queued);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to send newsletter"));
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { fail, ok } from "@shared/result";
+import { BaseService } from "@shared/base/base.service";
+import { AppError, DatabaseError } from "@shared/errors";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import type { EmailJobPayloads } from "@shared/events/queue-contracts";
+import type { NotificationsRepositoryPort } from "../ports/notifications-repository.port";
+import type { JobRecommendationQueryPort } from "../ports/job-recommendation-query.port";
+import type { WeeklyDigestServicePort } from "../ports/weekly-digest-service.port";
+
+/** Jobs listed in each section of the digest. */
+const DIGEST_SECTION_SIZE = 5;
+
+/** Recipients loaded and queued per round trip. */
+const RECIPIENT_BATCH_SIZE = 500;
+
+const WEEK_MS = 7 * 86_400_000;
+
+export class WeeklyDigestService
+  extends BaseService
+  implements WeeklyDigestServicePort
+{
+  constructor(
+    private notificationsRepository: NotificationsRepositoryPort,
+    private jobRecommendationQuery: JobRecommendationQueryPort,
+  ) {
+    super();
+  }
+
+  async sendWeeklyDigests(now: Date = new Date()) {
+    try {
+      const since = new Date(now.getTime() - WEEK_MS);
+      let afterUserId = 0;
+      let queued = 0;
+
+      for (;;) {
+        const recipients =
+          await this.notificationsRepository.findEmailRecipients(
+            "weeklyJobDigest",
+            "seekers",
+            afterUserId,
+            RECIPIENT_BATCH_SIZE,
+          );
+        if (recipients.length === 0) break;
+
+        const emails: {
+          name: "sendWeeklyJobDigest";
+          data: EmailJobPayloads["sendWeeklyJobDigest"];
+        }[] = [];
+
+        for (const recipient of recipients) {
+          const alertMatches =
+            await this.notificationsRepository.findRecentAlertMatchJobs(
+              recipient.userId,
+              since,
+              DIGEST_SECTION_SIZE,
+            );
+          // Leave out recommendations the alert section already lists
+          const matchedIds = new Set(alertMatches.map((job) => job.id));
+          const recommendedJobs = (
+            await this.jobRecommendationQuery.getRecommendedJobs(
+              recipient.userId,
+              DIGEST_SECTION_SIZE + matchedIds.size,
+            )
+          )
+            .filter((job) => !matchedIds.has(job.id))
+            .slice(0, DIGEST_SECTION_SIZE);
+
+          if (recommendedJobs.length === 0 && alertMatches.length === 0) {
+            continue;
+          }
+
+          emails.push({
+            name: "sendWeeklyJobDigest",
+            data: { ...recipient, recommendedJobs, alertMatches },
+          });
+        }
+
+        await queueService.addBulkJobs(QUEUE_NAMES.EMAIL_QUEUE, emails);
+        queued += emails.length;
+
+        if (recipients.length < RECIPIENT_BATCH_SIZE) break;
+        afterUserId = recipients[recipients.length - 1]!.userId;
+      }
+
+      return ok(queued);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to send weekly job digests"));
+    }
+  }
+}
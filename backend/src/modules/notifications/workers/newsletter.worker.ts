@@ -0,0 +1,70 @@
+import { Job as BullMqJob, UnrecoverableError } from "bullmq";
+import logger from "@shared/logger";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import { ConflictError, NotFoundError } from "@shared/errors";
+import type { NewsletterJobPayloads } from "@shared/events/queue-contracts";
+import type { NewsletterServicePort } from "../ports/newsletter-service.port";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+
+interface NewsletterWorkerDeps {
+  newsletterService: NewsletterServicePort;
+}
+
+type NewsletterJobData = NewsletterJobPayloads["sendNewsletter"];
+
+function createNewsletterHandler(deps: NewsletterWorkerDeps) {
+  return async function sendNewsletterWorker(
+    job: BullMqJob<NewsletterJobData>,
+  ): Promise<{ queued: number }> {
+    const { newsletterId } = job.data;
+    logger.info({ newsletterId }, "Sending newsletter");
+
+    const result = await deps.newsletterService.sendNewsletter(newsletterId);
+    if (result.isFailure) {
+      logger.error(
+        { newsletterId, error: result.error.message },
+        "Sending newsletter failed",
+      );
+      // Retrying cannot help a missing or already sent newsletter
+      if (
+        result.error instanceof NotFoundError ||
+        result.error instanceof ConflictError
+      ) {
+        throw new UnrecoverableError(result.error.message);
+      }
+      throw result.error;
+    }
+
+    logger.info({ newsletterId, queued: result.value }, "Newsletter queued");
+    return { queued: result.value };
+  };
+}
+
+/**
+ * Fans a newsletter out to its segment through the email queue. Newsletters
+ * are queued by `src/scripts/send-newsletter.ts`.
+ */
+export function createNewsletterWorker(
+  deps: NewsletterWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<NewsletterJobData, { queued: number }>(
+        QUEUE_NAMES.NEWSLETTER_QUEUE,
+        createNewsletterHandler(deps),
+        {
+          concurrency: 1,
+        },
+      );
+
+      logger.info("Newsletter worker initialized");
+    },
+
+    async scheduleJobs() {
+      // Newsletters are queued on demand
+    },
+  };
+}
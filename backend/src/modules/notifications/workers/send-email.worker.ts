@@ -31,6 +31,86 @@ const jobDeletionSchema = baseEmailSchema.extend({
   jobId: z.number(),
 });
 
+const scheduledJobBlockedSchema = jobDeletionSchema.extend({
+  reason: z.string(),
+});
+
+const savedJobUpdateSchema = baseEmailSchema.extend({
+  jobId: z.number(),
+  jobTitle: z.string(),
+  update: z.enum(["changed", "deadline", "closed"]),
+  changedFields: z.array(z.string()).optional(),
+  applicationDeadline: z.iso.datetime().nullable().optional(),
+});
+
+const digestJobSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  company: z.string(),
+  location: z.string().optional(),
+  jobType: z.string().optional(),
+});
+
+const weeklyJobDigestSchema = baseEmailSchema.extend({
+  recommendedJobs: z.array(digestJobSchema),
+  alertMatches: z.array(digestJobSchema),
+});
+
+const matchedCandidatesSchema = baseEmailSchema.extend({
+  jobId: z.number(),
+  jobTitle: z.string(),
+  candidates: z.array(
+    z.object({
+      name: z.string(),
+      headline: z.string(),
+      location: z.string(),
+      matchedTerms: z.array(z.string()),
+    }),
+  ),
+  searchSkills: z.array(z.string()),
+});
+
+const jobInvitationSchema = baseEmailSchema.extend({
+  jobId: z.number(),
+  jobTitle: z.string(),
+  organizationName: z.string(),
+  message: z.string().nullable(),
+});
+
+const followedOrganizationJobSchema = baseEmailSchema.extend({
+  jobId: z.number(),
+  jobTitle: z.string(),
+  organizationId: z.number(),
+  organizationName: z.string(),
+  location: z.string(),
+});
+
+const applicationMessageSchema = baseEmailSchema.extend({
+  recipient: z.enum(["applicant", "organization"]),
+  applicationId: z.number(),
+  jobId: z.number(),
+  jobTitle: z.string(),
+  organizationId: z.number(),
+  organizationName: z.string(),
+  senderName: z.string(),
+  preview: z.string(),
+});
+
+const moderationNoticeSchema = baseEmailSchema.extend({
+  kind: z.enum(["warning", "removal"]),
+  jobId: z.number(),
+  jobTitle: z.string(),
+  organizationName: z.string(),
+  note: z.string().nullable(),
+});
+
+const newsletterSchema = baseEmailSchema.extend({
+  newsletterId: z.number(),
+  subject: z.string(),
+  body: z.string(),
+  unsubscribeUrl: z.url().nullable(),
+});
+
 const organizationInvitationSchema = z.object({
   userId: z.number(),
   email: z.email(),
@@ -55,6 +135,45 @@ const applicationStatusUpdateSchema = baseEmailSchema.extend({
   jobTitle: z.string(),
   oldStatus: z.string(),
   newStatus: z.string(),
+  // Labels come from the organization's hiring pipeline
+  oldStatusLabel: z.string().optional(),
+  newStatusLabel: z.string().optional(),
+  // Replaces the generic status copy, e.g. a chosen rejection message
+  message: z.string().optional(),
+});
+
+const interviewSlotSchema = z.object({
+  startsAt: z.iso.datetime(),
+  endsAt: z.iso.datetime(),
+});
+
+const interviewProposalSchema = baseEmailSchema.extend({
+  jobTitle: z.string(),
+  organizationName: z.string(),
+  interviewId: z.number(),
+  slots: z.array(interviewSlotSchema).min(1),
+  rescheduled: z.boolean(),
+});
+
+const interviewDetailsSchema = z.object({
+  interviewId: z.number(),
+  sequence: z.number(),
+  jobTitle: z.string(),
+  organizationName: z.string(),
+  startsAt: z.iso.datetime().nullable(),
+  endsAt: z.iso.datetime().nullable(),
+  locationType: z.enum(["in_person", "video", "phone"]),
+  location: z.string().nullable(),
+  meetingUrl: z.string().nullable(),
+  attendees: z.array(z.object({ fullName: z.string(), email: z.email() })),
+});
+
+const interviewNotificationSchema = baseEmailSchema.extend({
+  interview: interviewDetailsSchema,
+});
+
+const interviewCancelledSchema = interviewNotificationSchema.extend({
+  reason: z.string().nullable(),
 });
 
 const jobAlertMatchSchema = z.object({
@@ -101,12 +220,26 @@ export const emailJobSchemas = {
   sendAccountDeletionConfirmation: accountDeletionConfirmationSchema,
   sendAccountDeactivationConfirmation: baseEmailSchema,
   sendJobDeletionEmail: jobDeletionSchema,
+  sendJobExpiredEmail: jobDeletionSchema,
+  sendScheduledJobBlockedEmail: scheduledJobBlockedSchema,
+  sendSavedJobUpdate: savedJobUpdateSchema,
+  sendWeeklyJobDigest: weeklyJobDigestSchema,
+  sendMatchedCandidates: matchedCandidatesSchema,
+  sendJobInvitation: jobInvitationSchema,
+  sendFollowedOrganizationJob: followedOrganizationJobSchema,
+  sendApplicationMessage: applicationMessageSchema,
+  sendModerationNotice: moderationNoticeSchema,
+  sendNewsletter: newsletterSchema,
   sendOrganizationInvitation: organizationInvitationSchema,
   sendOrganizationWelcome: organizationWelcomeSchema,
   sendApplicationStatusUpdate: applicationStatusUpdateSchema,
   sendPasswordChangedEmail: baseEmailSchema,
   sendJobAlertNotification: jobAlertNotificationSchema,
   "job-alert-notification": jobAlertNotificationSchema,
+  sendInterviewProposal: interviewProposalSchema,
+  sendInterviewScheduled: interviewNotificationSchema,
+  sendInterviewReminder: interviewNotificationSchema,
+  sendInterviewCancelled: interviewCancelledSchema,
 } as const;
 
 export type EmailJobName = keyof typeof emailJobSchemas;
@@ -226,6 +359,141 @@ function createEmailHandler(deps: SendEmailWorkerDeps) {
         );
         break;
       }
+      case "sendJobExpiredEmail": {
+        const d = data as EmailJobPayload<"sendJobExpiredEmail">;
+        await deps.emailService.sendJobExpiredEmail(
+          d.email,
+          d.fullName,
+          d.jobTitle,
+          d.jobId,
+        );
+        break;
+      }
+      case "sendScheduledJobBlockedEmail": {
+        const d = data as EmailJobPayload<"sendScheduledJobBlockedEmail">;
+        await deps.emailService.sendScheduledJobBlockedEmail(
+          d.email,
+          d.fullName,
+          d.jobTitle,
+          d.jobId,
+          d.reason,
+        );
+        break;
+      }
+      case "sendSavedJobUpdate": {
+        const d = data as EmailJobPayload<"sendSavedJobUpdate">;
+        await deps.emailService.sendSavedJobUpdate(
+          d.userId,
+          d.email,
+          d.fullName,
+          {
+            jobId: d.jobId,
+            jobTitle: d.jobTitle,
+            update: d.update,
+            changedFields: d.changedFields,
+            applicationDeadline: d.applicationDeadline,
+          },
+        );
+        break;
+      }
+      case "sendWeeklyJobDigest": {
+        const d = data as EmailJobPayload<"sendWeeklyJobDigest">;
+        await deps.emailService.sendWeeklyJobDigest(
+          d.userId,
+          d.email,
+          d.fullName,
+          {
+            recommendedJobs: d.recommendedJobs,
+            alertMatches: d.alertMatches,
+          },
+        );
+        break;
+      }
+      case "sendMatchedCandidates": {
+        const d = data as EmailJobPayload<"sendMatchedCandidates">;
+        await deps.emailService.sendMatchedCandidates(
+          d.userId,
+          d.email,
+          d.fullName,
+          {
+            jobId: d.jobId,
+            jobTitle: d.jobTitle,
+            candidates: d.candidates,
+            searchSkills: d.searchSkills,
+          },
+        );
+        break;
+      }
+      case "sendJobInvitation": {
+        const d = data as EmailJobPayload<"sendJobInvitation">;
+        await deps.emailService.sendJobInvitation(
+          d.userId,
+          d.email,
+          d.fullName,
+          {
+            jobId: d.jobId,
+            jobTitle: d.jobTitle,
+            organizationName: d.organizationName,
+            message: d.message,
+          },
+        );
+        break;
+      }
+      case "sendFollowedOrganizationJob": {
+        const d = data as EmailJobPayload<"sendFollowedOrganizationJob">;
+        await deps.emailService.sendFollowedOrganizationJob(
+          d.userId,
+          d.email,
+          d.fullName,
+          {
+            jobId: d.jobId,
+            jobTitle: d.jobTitle,
+            organizationId: d.organizationId,
+            organizationName: d.organizationName,
+            location: d.location,
+          },
+        );
+        break;
+      }
+      case "sendApplicationMessage": {
+        const d = data as EmailJobPayload<"sendApplicationMessage">;
+        await deps.emailService.sendApplicationMessage(
+          d.userId,
+          d.email,
+          d.fullName,
+          {
+            recipient: d.recipient,
+            applicationId: d.applicationId,
+            jobId: d.jobId,
+            jobTitle: d.jobTitle,
+            organizationId: d.organizationId,
+            organizationName: d.organizationName,
+            senderName: d.senderName,
+            preview: d.preview,
+          },
+        );
+        break;
+      }
+      case "sendModerationNotice": {
+        const d = data as EmailJobPayload<"sendModerationNotice">;
+        await deps.emailService.sendModerationNotice(d.email, d.fullName, {
+          kind: d.kind,
+          jobId: d.jobId,
+          jobTitle: d.jobTitle,
+          organizationName: d.organizationName,
+          note: d.note,
+        });
+        break;
+      }
+      case "sendNewsletter": {
+        const d = data as EmailJobPayload<"sendNewsletter">;
+        await deps.emailService.sendNewsletter(d.userId, d.email, d.fullName, {
+          subject: d.subject,
+          body: d.body,
+          unsubscribeUrl: d.unsubscribeUrl,
+        });
+        break;
+      }
       case "sendOrganizationInvitation": {
         const d = data as EmailJobPayload<"sendOrganizationInvitation">;
         await deps.emailService.sendOrganizationInvitation(
@@ -256,6 +524,9 @@ function createEmailHandler(deps: SendEmailWorkerDeps) {
           d.jobTitle,
           d.oldStatus,
           d.newStatus,
+          d.oldStatusLabel,
+          d.newStatusLabel,
+          d.message,
         );
         break;
       }
@@ -277,6 +548,46 @@ function createEmailHandler(deps: SendEmailWorkerDeps) {
         );
         break;
       }
+      case "sendInterviewProposal": {
+        const d = data as EmailJobPayload<"sendInterviewProposal">;
+        await deps.emailService.sendInterviewProposal(
+          d.email,
+          d.fullName,
+          d.jobTitle,
+          d.organizationName,
+          d.slots,
+          d.rescheduled,
+        );
+        break;
+      }
+      case "sendInterviewScheduled": {
+        const d = data as EmailJobPayload<"sendInterviewScheduled">;
+        await deps.emailService.sendInterviewScheduled(
+          d.email,
+          d.fullName,
+          d.interview,
+        );
+        break;
+      }
+      case "sendInterviewReminder": {
+        const d = data as EmailJobPayload<"sendInterviewReminder">;
+        await deps.emailService.sendInterviewReminder(
+          d.email,
+          d.fullName,
+          d.interview,
+        );
+        break;
+      }
+      case "sendInterviewCancelled": {
+        const d = data as EmailJobPayload<"sendInterviewCancelled">;
+        await deps.emailService.sendInterviewCancelled(
+          d.email,
+          d.fullName,
+          d.interview,
+          d.reason,
+        );
+        break;
+      }
     }
   };
 }
@@ -0,0 +1,73 @@
+import { Job as BullMqJob } from "bullmq";
+import logger from "@shared/logger";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import type { WeeklyDigestServicePort } from "../ports/weekly-digest-service.port";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+
+interface WeeklyJobDigestWorkerDeps {
+  weeklyDigestService: WeeklyDigestServicePort;
+}
+
+function createDigestHandler(deps: WeeklyJobDigestWorkerDeps) {
+  return async function sendWeeklyJobDigestsWorker(
+    _job: BullMqJob,
+  ): Promise<{ queued: number }> {
+    logger.info("Starting weekly job digest run");
+
+    const result = await deps.weeklyDigestService.sendWeeklyDigests();
+    if (result.isFailure) {
+      logger.error(
+        { error: result.error.message },
+        "Weekly job digest run failed",
+      );
+      throw result.error;
+    }
+
+    logger.info({ queued: result.value }, "Weekly job digest run completed");
+    return { queued: result.value };
+  };
+}
+
+/**
+ * Emails seekers a weekly digest of recommended jobs and new job alert
+ * matches. Runs on Monday an hour after the weekly job alerts, so their
+ * matches make it into the digest.
+ */
+export function createWeeklyJobDigestWorker(
+  deps: WeeklyJobDigestWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<
+        { correlationId: string },
+        { queued: number }
+      >(QUEUE_NAMES.WEEKLY_DIGEST_QUEUE, createDigestHandler(deps), {
+        concurrency: 1,
+      });
+
+      logger.info("Weekly job digest worker initialized");
+    },
+
+    async scheduleJobs() {
+      try {
+        await queueService.addJob(
+          QUEUE_NAMES.WEEKLY_DIGEST_QUEUE,
+          "sendWeeklyJobDigests",
+          {},
+          {
+            repeat: {
+              pattern: "0 9 * * 1",
+            },
+            jobId: "weekly-job-digest",
+          },
+        );
+        logger.info("Scheduled weekly job digest (9:00 AM every Monday)");
+      } catch (error) {
+        logger.error({ error }, "Failed to schedule weekly job digest");
+      }
+    },
+  };
+}
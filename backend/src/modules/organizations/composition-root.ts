@@ -3,24 +3,54 @@ import { OrganizationsService } from "./services/organizations.service";
 import { CandidateSearchService } from "./services/candidate-search.service";
 import { OrganizationsController } from "./controllers/organizations.controller";
 import { CandidateSearchController } from "./controllers/candidate-search.controller";
+import { CandidateProfileService } from "./services/candidate-profile.service";
+import { CandidateProfileController } from "./controllers/candidate-profile.controller";
+import { CandidateOutreachRepository } from "./repositories/candidate-outreach.repository";
 import { createOrganizationsGuards } from "./guards/organizations.guards";
+import { AuditEventsRepository } from "./repositories/audit-events.repository";
+import { AuditEventsService } from "./services/audit-events.service";
+import { AuditEventsController } from "./controllers/audit-events.controller";
+import { OrganizationMembersService } from "./services/organization-members.service";
+import { OrganizationMembersController } from "./controllers/organization-members.controller";
+import { OrganizationPermissionsRepository } from "./repositories/organization-permissions.repository";
+import { OrganizationPermissionsService } from "./services/organization-permissions.service";
+import { OrganizationPermissionsController } from "./controllers/organization-permissions.controller";
+import { OrganizationEntitlementsService } from "./services/organization-entitlements.service";
+import { OrganizationEntitlementsController } from "./controllers/organization-entitlements.controller";
+import { OrganizationVerificationRepository } from "./repositories/organization-verification.repository";
+import { OrganizationVerificationService } from "./services/organization-verification.service";
+import { OrganizationVerificationController } from "./controllers/organization-verification.controller";
+import { OrganizationProfileRepository } from "./repositories/organization-profile.repository";
+import { OrganizationProfileService } from "./services/organization-profile.service";
+import { OrganizationProfileController } from "./controllers/organization-profile.controller";
 import { createTypesenseEmployerIndexerWorker } from "./workers/typesense-employer-indexer.worker";
+import { createAuditRetentionWorker } from "./workers/audit-retention.worker";
+import { createFollowerNotificationWorker } from "./workers/follower-notification.worker";
+import type { ModuleWorkers } from "@shared/types/module-workers";
 import type { IntentSyncPort } from "./ports/intent-sync.port";
+import type { JobPostingUsageQueryPort } from "./ports/job-posting-usage-query.port";
+import type { CandidateProfileQueryPort } from "./ports/candidate-profile-query.port";
+import type { OutreachJobQueryPort } from "./ports/outreach-job-query.port";
 import type { TypesenseEmployerServicePort } from "@shared/ports/typesense-employer-service.port";
 import type { TypesenseProfileServicePort } from "@shared/ports/typesense-profile-service.port";
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
 
 interface OrganizationsModuleDeps {
   intentSync: IntentSyncPort;
+  jobPostingUsage: JobPostingUsageQueryPort;
+  candidateProfileQuery: CandidateProfileQueryPort;
+  outreachJobQuery: OutreachJobQueryPort;
   organizationsRepository: OrganizationsRepository;
   typesenseEmployerService: TypesenseEmployerServicePort;
   typesenseProfileService: TypesenseProfileServicePort;
+  geocoder: GeocoderPort;
 }
 
 /**
  * Composition root for the Organizations module.
  *
  * Creates and wires all internal dependencies, returning the fully-built
- * controller, guards, service, and repository. The repository and service
+ * controller, guards, service, and repository. The repository and services
  * are exposed so the central composition root can create cross-module adapters.
  */
 export function createOrganizationsModule(deps: OrganizationsModuleDeps) {
@@ -28,23 +58,90 @@ export function createOrganizationsModule(deps: OrganizationsModuleDeps) {
   const service = new OrganizationsService(repository, deps.intentSync);
   const candidateSearchService = new CandidateSearchService(
     deps.typesenseProfileService,
+    deps.geocoder,
   );
   const controller = new OrganizationsController(service);
   const candidateSearchController = new CandidateSearchController(
     candidateSearchService,
   );
+  const candidateProfileController = new CandidateProfileController(
+    new CandidateProfileService(
+      deps.candidateProfileQuery,
+      deps.outreachJobQuery,
+      new CandidateOutreachRepository(),
+    ),
+  );
+  const auditEventsRepository = new AuditEventsRepository();
+  const auditEventsController = new AuditEventsController(
+    new AuditEventsService(auditEventsRepository),
+  );
+  const membersController = new OrganizationMembersController(
+    new OrganizationMembersService(repository),
+  );
+  const permissionsService = new OrganizationPermissionsService(
+    new OrganizationPermissionsRepository(),
+  );
+  const permissionsController = new OrganizationPermissionsController(
+    permissionsService,
+  );
+  const entitlementsService = new OrganizationEntitlementsService(
+    repository,
+    deps.jobPostingUsage,
+  );
+  const entitlementsController = new OrganizationEntitlementsController(
+    entitlementsService,
+  );
+  const verificationController = new OrganizationVerificationController(
+    new OrganizationVerificationService(
+      new OrganizationVerificationRepository(),
+    ),
+  );
+  const profileService = new OrganizationProfileService(
+    new OrganizationProfileRepository(),
+  );
+  const profileController = new OrganizationProfileController(profileService);
   const guards = createOrganizationsGuards({
     organizationsRepository: repository,
+    permissions: permissionsService,
+    entitlements: entitlementsService,
   });
 
-  const workers = createTypesenseEmployerIndexerWorker({
+  const employerIndexerWorker = createTypesenseEmployerIndexerWorker({
     typesenseEmployerService: deps.typesenseEmployerService,
+    geocoder: deps.geocoder,
+  });
+  const auditRetentionWorker = createAuditRetentionWorker({
+    auditEventsRepository,
   });
+  const followerNotificationWorker = createFollowerNotificationWorker({
+    organizationProfileService: profileService,
+  });
+
+  const workers: ModuleWorkers = {
+    initialize() {
+      employerIndexerWorker.initialize();
+      auditRetentionWorker.initialize();
+      followerNotificationWorker.initialize();
+    },
+    async scheduleJobs() {
+      await employerIndexerWorker.scheduleJobs();
+      await auditRetentionWorker.scheduleJobs();
+      await followerNotificationWorker.scheduleJobs();
+    },
+  };
 
   return {
     controller,
     candidateSearchController,
+    candidateProfileController,
+    auditEventsController,
+    membersController,
+    permissionsController,
+    entitlementsController,
+    verificationController,
+    profileController,
     service,
+    entitlementsService,
     guards,
     repository,
     workers,
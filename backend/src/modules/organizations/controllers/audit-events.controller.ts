@@ -0,0 +1,49 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import type { PaginatedResponse } from "@shared/types";
+
+import type { AuditEventsServicePort } from "@/modules/organizations/ports/audit-events-service.port";
+import {
+  organizationAuditEventsQuerySchema,
+  type AuditEventRecord,
+  type GetOrganizationAuditEventsSchema,
+} from "@/validations/auditEvent.validation";
+
+/**
+ * Controller for the owner-only organization audit log.
+ */
+export class AuditEventsController extends BaseController {
+  constructor(private auditEventsService: AuditEventsServicePort) {
+    super();
+  }
+
+  getOrganizationAuditEvents = async (
+    req: Request<GetOrganizationAuditEventsSchema["params"]>,
+    res: Response<PaginatedResponse<AuditEventRecord>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    // Validation middleware does not apply defaults or coercion to req.query
+    const query = organizationAuditEventsQuerySchema.parse(req.query);
+
+    const result = await this.auditEventsService.getOrganizationAuditEvents(
+      organizationId,
+      query,
+    );
+
+    if (result.isSuccess) {
+      const { items, pagination } = result.value;
+      return this.sendPaginatedResponse<AuditEventRecord>(
+        res,
+        items,
+        pagination,
+        "Audit events retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(
+        res,
+        result.error,
+        "Failed to retrieve audit events",
+      );
+    }
+  };
+}
@@ -0,0 +1,87 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import { auditService } from "@shared/audit";
+import type { ApiResponse } from "@shared/types";
+
+import type { CandidateProfileServicePort } from "@/modules/organizations/ports/candidate-profile-service.port";
+import type {
+  CandidateDetail,
+  CandidateOutreach,
+  GetCandidateDetailSchema,
+  InviteCandidateToApplySchema,
+} from "@/validations/candidate-search.validation";
+
+/**
+ * Controller for a single candidate found through candidate search: the
+ * full public profile and inviting the candidate to apply to a job.
+ */
+export class CandidateProfileController extends BaseController {
+  constructor(private candidateProfileService: CandidateProfileServicePort) {
+    super();
+  }
+
+  getCandidateDetail = async (
+    req: Request<GetCandidateDetailSchema["params"]>,
+    res: Response<ApiResponse<CandidateDetail>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const candidateId = parseInt(req.params.userId);
+
+    const result = await this.candidateProfileService.getCandidateDetail(
+      organizationId,
+      candidateId,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Candidate retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  inviteToApply = async (
+    req: Request<
+      InviteCandidateToApplySchema["params"],
+      ApiResponse<CandidateOutreach>,
+      InviteCandidateToApplySchema["body"]
+    >,
+    res: Response<ApiResponse<CandidateOutreach>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const candidateId = parseInt(req.params.userId);
+
+    const result = await this.candidateProfileService.inviteToApply(
+      organizationId,
+      candidateId,
+      req.userId!,
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "org.candidate.invited",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "candidate", id: candidateId, organizationId },
+        action: "invited candidate to apply",
+        outcome: "success",
+        metadata: { jobId: result.value.jobId },
+      });
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Candidate invited to apply",
+        201,
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -0,0 +1,39 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import type { ApiResponse } from "@shared/types";
+
+import type { OrganizationEntitlementsServicePort } from "@/modules/organizations/ports/organization-entitlements-service.port";
+import type {
+  GetOrganizationUsageSchema,
+  OrganizationUsage,
+} from "@/validations/organizationEntitlement.validation";
+
+/**
+ * Controller for an organization's plan usage and entitlements.
+ */
+export class OrganizationEntitlementsController extends BaseController {
+  constructor(
+    private entitlementsService: OrganizationEntitlementsServicePort,
+  ) {
+    super();
+  }
+
+  getUsage = async (
+    req: Request<GetOrganizationUsageSchema["params"]>,
+    res: Response<ApiResponse<OrganizationUsage>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result = await this.entitlementsService.getUsage(organizationId);
+
+    if (result.isSuccess) {
+      return this.sendSuccess<OrganizationUsage>(
+        res,
+        result.value,
+        "Organization usage retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
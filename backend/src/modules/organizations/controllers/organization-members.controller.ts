@@ -0,0 +1,234 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import { auditService } from "@shared/audit";
+import type { ApiResponse, EmptyBody } from "@shared/types";
+
+import type { OrganizationMembersServicePort } from "@/modules/organizations/ports/organization-members-service.port";
+import {
+  listOrganizationMembersSchema,
+  type ListOrganizationMembersSchema,
+  type OrganizationMemberDetails,
+  type OwnershipTransferResult,
+  type RemoveOrganizationMemberSchema,
+  type TransferOrganizationOwnershipSchema,
+  type UpdateOrganizationMemberRoleSchema,
+  type UpdateOrganizationMemberStatusSchema,
+} from "@/validations/organizationMember.validation";
+
+/**
+ * Controller for listing and managing the members of an organization.
+ */
+export class OrganizationMembersController extends BaseController {
+  constructor(private membersService: OrganizationMembersServicePort) {
+    super();
+  }
+
+  /**
+   * Lists the organization's members, optionally filtered by role and status.
+   */
+  listMembers = async (
+    req: Request<ListOrganizationMembersSchema["params"]>,
+    res: Response<ApiResponse<OrganizationMemberDetails[]>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    // Validation middleware does not narrow req.query
+    const filters = listOrganizationMembersSchema.shape.query.parse(req.query);
+
+    const result = await this.membersService.listMembers(
+      organizationId,
+      filters,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess<OrganizationMemberDetails[]>(
+        res,
+        result.value,
+        "Organization members retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(
+        res,
+        result.error,
+        "Failed to retrieve organization members",
+      );
+    }
+  };
+
+  /**
+   * Changes the role of an organization member.
+   */
+  changeMemberRole = async (
+    req: Request<
+      UpdateOrganizationMemberRoleSchema["params"],
+      EmptyBody,
+      UpdateOrganizationMemberRoleSchema["body"]
+    >,
+    res: Response<ApiResponse<OrganizationMemberDetails>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const memberId = parseInt(req.params.memberId);
+
+    const result = await this.membersService.changeMemberRole(
+      organizationId,
+      memberId,
+      req.body.role,
+    );
+
+    if (result.isSuccess) {
+      const { member, previousRole } = result.value;
+      auditService.emit({
+        name: "org.member.role.changed",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization_member", id: memberId, organizationId },
+        action: "changed member role",
+        outcome: "success",
+        metadata: {
+          userId: member.userId,
+          from: previousRole,
+          to: member.role,
+        },
+      });
+      return this.sendSuccess<OrganizationMemberDetails>(
+        res,
+        member,
+        "Member role updated successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  /**
+   * Deactivates or reactivates an organization member.
+   */
+  updateMemberStatus = async (
+    req: Request<
+      UpdateOrganizationMemberStatusSchema["params"],
+      EmptyBody,
+      UpdateOrganizationMemberStatusSchema["body"]
+    >,
+    res: Response<ApiResponse<OrganizationMemberDetails>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const memberId = parseInt(req.params.memberId);
+    const { isActive } = req.body;
+
+    const result = await this.membersService.updateMemberStatus(
+      organizationId,
+      memberId,
+      isActive,
+    );
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: isActive ? "org.member.reactivated" : "org.member.deactivated",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization_member", id: memberId, organizationId },
+        action: isActive ? "reactivated member" : "deactivated member",
+        outcome: "success",
+        metadata: { userId: result.value.userId },
+      });
+      return this.sendSuccess<OrganizationMemberDetails>(
+        res,
+        result.value,
+        isActive
+          ? "Member reactivated successfully"
+          : "Member deactivated successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  /**
+   * Removes a member from the organization. Members may also remove themselves.
+   */
+  removeMember = async (
+    req: Request<RemoveOrganizationMemberSchema["params"]>,
+    res: Response<ApiResponse<null>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const memberId = parseInt(req.params.memberId);
+
+    const result = await this.membersService.removeMember(
+      organizationId,
+      memberId,
+    );
+
+    if (result.isSuccess) {
+      const removed = result.value;
+      auditService.emit({
+        name: "org.member.removed",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization_member", id: memberId, organizationId },
+        action:
+          removed.userId === req.userId
+            ? "left organization"
+            : "removed member",
+        outcome: "success",
+        metadata: { userId: removed.userId, role: removed.role },
+      });
+      return this.sendSuccess(res, null, "Member removed successfully");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  /**
+   * Transfers ownership of the organization to another member.
+   */
+  transferOwnership = async (
+    req: Request<
+      TransferOrganizationOwnershipSchema["params"],
+      EmptyBody,
+      TransferOrganizationOwnershipSchema["body"]
+    >,
+    res: Response<ApiResponse<OwnershipTransferResult>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result = await this.membersService.transferOwnership(
+      organizationId,
+      req.userId!,
+      req.body.memberId,
+    );
+
+    if (result.isSuccess) {
+      const { previousOwner, newOwner } = result.value;
+      auditService.emit({
+        name: "org.ownership.transferred",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization", id: organizationId, organizationId },
+        action: "transferred ownership",
+        outcome: "success",
+        metadata: {
+          fromUserId: previousOwner.userId,
+          toUserId: newOwner.userId,
+        },
+      });
+      return this.sendSuccess<OwnershipTransferResult>(
+        res,
+        result.value,
+        "Ownership transferred successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
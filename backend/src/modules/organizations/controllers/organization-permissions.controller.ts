@@ -0,0 +1,109 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import { auditService } from "@shared/audit";
+import type { ApiResponse, EmptyBody } from "@shared/types";
+
+import type { OrganizationPermissionsServicePort } from "@/modules/organizations/ports/organization-permissions-service.port";
+import type {
+  GetOrganizationPermissionsSchema,
+  OrganizationPermissionMatrix,
+  UpdateOrganizationPermissionsSchema,
+} from "@/validations/organizationPermission.validation";
+
+/**
+ * Controller for viewing and customizing an organization's permission matrix.
+ */
+export class OrganizationPermissionsController extends BaseController {
+  constructor(private permissionsService: OrganizationPermissionsServicePort) {
+    super();
+  }
+
+  getPermissionMatrix = async (
+    req: Request<GetOrganizationPermissionsSchema["params"]>,
+    res: Response<ApiResponse<OrganizationPermissionMatrix>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result =
+      await this.permissionsService.getPermissionMatrix(organizationId);
+
+    if (result.isSuccess) {
+      return this.sendSuccess<OrganizationPermissionMatrix>(
+        res,
+        result.value,
+        "Permissions retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  updatePermissionMatrix = async (
+    req: Request<
+      UpdateOrganizationPermissionsSchema["params"],
+      EmptyBody,
+      UpdateOrganizationPermissionsSchema["body"]
+    >,
+    res: Response<ApiResponse<OrganizationPermissionMatrix>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result = await this.permissionsService.updatePermissionMatrix(
+      organizationId,
+      req.body,
+    );
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "org.permissions.updated",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization", id: organizationId, organizationId },
+        action: "updated role permissions",
+        outcome: "success",
+        metadata: { roles: req.body.roles },
+      });
+      return this.sendSuccess<OrganizationPermissionMatrix>(
+        res,
+        result.value,
+        "Permissions updated successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  resetPermissionMatrix = async (
+    req: Request<GetOrganizationPermissionsSchema["params"]>,
+    res: Response<ApiResponse<OrganizationPermissionMatrix>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+
+    const result =
+      await this.permissionsService.resetPermissionMatrix(organizationId);
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "org.permissions.updated",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: { type: "organization", id: organizationId, organizationId },
+        action: "reset role permissions to defaults",
+        outcome: "success",
+      });
+      return this.sendSuccess<OrganizationPermissionMatrix>(
+        res,
+        result.value,
+        "Permissions reset to defaults",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import type { ApiResponse } from "@shared/types";
+
+import type { OrganizationProfileServicePort } from "@/modules/organizations/ports/organization-profile-service.port";
+import type {
+  FollowOrganizationSchema,
+  GetOrganizationProfileSchema,
+  OrganizationFollow,
+  OrganizationProfile,
+} from "@/validations/organizationProfile.validation";
+
+/**
+ * Controller for public organization profiles and following organizations.
+ */
+export class OrganizationProfileController extends BaseController {
+  constructor(
+    private organizationProfileService: OrganizationProfileServicePort,
+  ) {
+    super();
+  }
+
+  getProfile = async (
+    req: Request<GetOrganizationProfileSchema["params"]>,
+    res: Response<ApiResponse<OrganizationProfile>>,
+  ) => {
+    const result = await this.organizationProfileService.getProfile(
+      parseInt(req.params.organizationId),
+      req.userId,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Organization profile retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  follow = async (
+    req: Request<FollowOrganizationSchema["params"]>,
+    res: Response<ApiResponse<OrganizationFollow>>,
+  ) => {
+    const result = await this.organizationProfileService.follow(
+      parseInt(req.params.organizationId),
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(res, result.value, "Organization followed");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  unfollow = async (
+    req: Request<FollowOrganizationSchema["params"]>,
+    res: Response<ApiResponse<OrganizationFollow>>,
+  ) => {
+    const result = await this.organizationProfileService.unfollow(
+      parseInt(req.params.organizationId),
+      req.userId!,
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(res, result.value, "Organization unfollowed");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+}
@@ -0,0 +1,221 @@
+import { Request, Response } from "express";
+import { BaseController } from "@shared/base/base.controller";
+import { auditService } from "@shared/audit";
+import type { ApiResponse, PaginatedResponse } from "@shared/types";
+
+import type { OrganizationVerificationServicePort } from "@/modules/organizations/ports/organization-verification-service.port";
+import type { OrganizationsLogoFile } from "@/modules/organizations/types/organizations.module.types";
+import {
+  verificationQueueQuerySchema,
+  type ApproveVerificationRequestSchema,
+  type GetOrganizationVerificationSchema,
+  type GetVerificationReviewSchema,
+  type OrganizationVerification,
+  type OrganizationVerificationRequest,
+  type RejectVerificationRequestSchema,
+  type SubmitOrganizationVerificationSchema,
+  type VerificationReview,
+} from "@/validations/organizationVerification.validation";
+
+/**
+ * Controller for organization verification: owners submitting documents
+ * and platform staff working the review queue. Submissions and staff
+ * decisions are audited here; queue reads are audited by the `auditRead`
+ * middleware on their routes.
+ */
+export class OrganizationVerificationController extends BaseController {
+  constructor(
+    private organizationVerificationService: OrganizationVerificationServicePort,
+  ) {
+    super();
+  }
+
+  getVerification = async (
+    req: Request<GetOrganizationVerificationSchema["params"]>,
+    res: Response<ApiResponse<OrganizationVerification>>,
+  ) => {
+    const result = await this.organizationVerificationService.getVerification(
+      parseInt(req.params.organizationId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Organization verification retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  submitVerification = async (
+    req: Request<
+      SubmitOrganizationVerificationSchema["params"],
+      ApiResponse<OrganizationVerificationRequest>,
+      SubmitOrganizationVerificationSchema["body"]
+    >,
+    res: Response<ApiResponse<OrganizationVerificationRequest>>,
+  ) => {
+    const organizationId = parseInt(req.params.organizationId);
+    const files = req.files as
+      | { [fieldname: string]: OrganizationsLogoFile[] }
+      | undefined;
+
+    const result =
+      await this.organizationVerificationService.submitVerification(
+        organizationId,
+        req.userId!,
+        req.body,
+        {
+          nonprofitRegistration: files?.nonprofitRegistration?.[0],
+          einLetter: files?.einLetter?.[0],
+        },
+        req.correlationId!,
+      );
+
+    if (result.isSuccess) {
+      auditService.emit({
+        name: "org.verification.submitted",
+        actor: {
+          id: req.userId,
+          ip: req.ip,
+          userAgent: req.headers["user-agent"],
+        },
+        resource: {
+          type: "organization_verification",
+          id: result.value.id,
+          organizationId,
+        },
+        action: "requested organization verification",
+        outcome: "success",
+      });
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Verification request submitted for review",
+        201,
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getQueue = async (
+    req: Request,
+    res: Response<PaginatedResponse<VerificationReview>>,
+  ) => {
+    // Validation middleware does not apply defaults or coercion to req.query
+    const query = verificationQueueQuerySchema.parse(req.query);
+
+    const result = await this.organizationVerificationService.getQueue(query);
+
+    if (result.isSuccess) {
+      const { items, pagination } = result.value;
+      return this.sendPaginatedResponse<VerificationReview>(
+        res,
+        items,
+        pagination,
+        "Verification queue retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  getRequest = async (
+    req: Request<GetVerificationReviewSchema["params"]>,
+    res: Response<ApiResponse<VerificationReview>>,
+  ) => {
+    const result = await this.organizationVerificationService.getRequest(
+      parseInt(req.params.requestId),
+    );
+
+    if (result.isSuccess) {
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Verification request retrieved successfully",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  approve = async (
+    req: Request<
+      ApproveVerificationRequestSchema["params"],
+      ApiResponse<VerificationReview>,
+      ApproveVerificationRequestSchema["body"]
+    >,
+    res: Response<ApiResponse<VerificationReview>>,
+  ) => {
+    const result = await this.organizationVerificationService.approve(
+      parseInt(req.params.requestId),
+      req.userId!,
+      req.body.note,
+    );
+
+    if (result.isSuccess) {
+      this.auditStaffAction(req, result.value, "verified organization");
+      return this.sendSuccess(res, result.value, "Organization verified");
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  reject = async (
+    req: Request<
+      RejectVerificationRequestSchema["params"],
+      ApiResponse<VerificationReview>,
+      RejectVerificationRequestSchema["body"]
+    >,
+    res: Response<ApiResponse<VerificationReview>>,
+  ) => {
+    const result = await this.organizationVerificationService.reject(
+      parseInt(req.params.requestId),
+      req.userId!,
+      req.body.reason,
+    );
+
+    if (result.isSuccess) {
+      this.auditStaffAction(
+        req,
+        result.value,
+        "rejected organization verification",
+        { reason: req.body.reason },
+      );
+      return this.sendSuccess(
+        res,
+        result.value,
+        "Verification request rejected",
+      );
+    } else {
+      return this.handleControllerError(res, result.error);
+    }
+  };
+
+  private auditStaffAction(
+    req: Request<{ requestId: string }>,
+    request: VerificationReview,
+    action: string,
+    metadata?: Record<string, unknown>,
+  ) {
+    auditService.emit({
+      name: "read.admin",
+      actor: {
+        id: req.userId,
+        ip: req.ip,
+        userAgent: req.headers["user-agent"],
+      },
+      resource: {
+        type: "organization_verification",
+        id: request.id,
+        organizationId: request.organizationId,
+      },
+      action,
+      outcome: "success",
+      metadata,
+    });
+  }
+}
@@ -136,7 +136,11 @@ export class OrganizationsController extends BaseController {
           ip: req.ip,
           userAgent: req.headers["user-agent"],
         },
-        resource: { type: "organization", id: organization.value.id },
+        resource: {
+          type: "organization",
+          id: organization.value.id,
+          organizationId: organization.value.id,
+        },
         action: "created organization",
         outcome: "success",
       });
@@ -1,8 +1,14 @@
 import type { NextFunction, Request, RequestHandler, Response } from "express";
 
 import type { OrganizationsRepositoryPort } from "@/modules/organizations/ports/organizations-repository.port";
+import type { OrganizationPermissionsPort } from "@/modules/organizations/ports/organization-permissions.port";
 import type { GetOrganizationSchema } from "@/validations/organization.validation";
-import { NotFoundError } from "@shared/errors";
+import type {
+  OrganizationEntitlementsServicePort,
+  OrganizationFeature,
+} from "@/modules/organizations/ports/organization-entitlements-service.port";
+import type { OrganizationPermission } from "@shared/constants/organization-permissions";
+import { AppError, NotFoundError } from "@shared/errors";
 import logger from "@shared/logger";
 
 type OrgRole = "owner" | "admin" | "recruiter" | "member";
@@ -30,18 +36,32 @@ function canAssignRole(inviterRole: OrgRole, requestedRole: OrgRole): boolean {
 
 /**
  * Creates organization authorization guards.
- * Handles org membership, role checks, and permission validation.
+ * Handles org membership, role checks, and permission validation. Capability
+ * checks go through the organization permission matrix; plan features go
+ * through the organization's subscription entitlements.
  */
 export function createOrganizationsGuards(deps: {
   organizationsRepository: OrganizationsRepositoryPort;
+  permissions: OrganizationPermissionsPort;
+  entitlements: Pick<OrganizationEntitlementsServicePort, "checkFeature">;
 }) {
-  const { organizationsRepository } = deps;
+  const { organizationsRepository, permissions, entitlements } = deps;
 
   /**
-   * Checks if the user has permission to post jobs (employer role in any org).
-   * Sets req.organizationId on success.
+   * Checks that the user's role grants `permission` in the organization,
+   * using the organization's permission matrix. The organization comes from
+   * req.params.organizationId, then req.organizationId, then the user's
+   * membership. Routes on a job or application must resolve its
+   * organization first (e.g. ensureJobOwnership) so the membership fallback
+   * is only used for routes not tied to one organization's resource. With
+   * `when`, the check only applies to matching requests.
+   * Suspended organizations are denied every permission. Sets
+   * req.organizationId on success.
    */
-  const requireJobPostingRole = (): RequestHandler => {
+  const requirePermission = (
+    permission: OrganizationPermission,
+    options: { when?: (req: Request) => boolean } = {},
+  ): RequestHandler => {
     return async (req: Request, res: Response, next: NextFunction) => {
       try {
         if (!req.userId) {
@@ -53,11 +73,23 @@ export function createOrganizationsGuards(deps: {
           });
         }
 
-        const isPermitted = await organizationsRepository.canPostJobs(
-          req.userId,
-        );
+        if (options.when && !options.when(req)) {
+          return next();
+        }
 
-        if (!isPermitted) {
+        // A prior guard (e.g. job ownership) may already have resolved the
+        // organization for routes without it in the path
+        const organizationId = req.params.organizationId
+          ? Number(req.params.organizationId)
+          : req.organizationId;
+        const member = organizationId
+          ? await organizationsRepository.findByContact(
+              req.userId,
+              organizationId,
+            )
+          : await organizationsRepository.findMemberByUserId(req.userId);
+
+        if (!member || !member.isActive) {
           return res.status(403).json({
             success: false,
             status: "error",
@@ -66,18 +98,25 @@ export function createOrganizationsGuards(deps: {
           });
         }
 
-        // Use organizationId from URL params if available, otherwise derive from membership
-        let member;
-        if (req.params.organizationId) {
-          member = await organizationsRepository.findByContact(
-            req.userId,
-            Number(req.params.organizationId),
-          );
-        } else {
-          member = await organizationsRepository.findMemberByUserId(req.userId);
+        if (
+          await organizationsRepository.isOrganizationSuspended(
+            member.organizationId,
+          )
+        ) {
+          return res.status(403).json({
+            success: false,
+            status: "error",
+            error: "FORBIDDEN",
+            message: "This organization is suspended",
+          });
         }
 
-        if (!member) {
+        const granted = await permissions.getRolePermissions(
+          member.organizationId,
+          member.role,
+        );
+
+        if (!granted.includes(permission)) {
           return res.status(403).json({
             success: false,
             status: "error",
@@ -98,6 +137,7 @@ export function createOrganizationsGuards(deps: {
             message: "Insufficient permissions",
           });
         }
+        logger.error(error);
         return res.status(500).json({
           success: false,
           status: "error",
@@ -108,6 +148,52 @@ export function createOrganizationsGuards(deps: {
     };
   };
 
+  /**
+   * Checks that the organization's plan includes `feature`, answering 402 or
+   * 403 with an upgrade hint otherwise. Runs after requirePermission, which
+   * resolves req.organizationId.
+   */
+  const requireFeature = (feature: OrganizationFeature): RequestHandler => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const organizationId = req.params.organizationId
+        ? Number(req.params.organizationId)
+        : req.organizationId;
+
+      if (!organizationId) {
+        return res.status(403).json({
+          success: false,
+          status: "error",
+          error: "FORBIDDEN",
+          message: "Insufficient permissions",
+        });
+      }
+
+      const result = await entitlements.checkFeature(organizationId, feature);
+
+      if (result.isFailure) {
+        const error = result.error;
+        if (error instanceof AppError && error.statusCode < 500) {
+          return res.status(error.statusCode).json({
+            success: false,
+            status: "error",
+            error: error.errorCode,
+            message: error.message,
+            details: error.details,
+          });
+        }
+        logger.error(error);
+        return res.status(500).json({
+          success: false,
+          status: "error",
+          error: "INTERNAL_SERVER_ERROR",
+          message: "Error checking plan features",
+        });
+      }
+
+      return next();
+    };
+  };
+
   /**
    * Checks if the user has the required admin/owner role in the organization.
    * Requires req.params.organizationId.
@@ -139,7 +225,7 @@ export function createOrganizationsGuards(deps: {
           Number(req.params.organizationId),
         );
 
-        if (!member) {
+        if (!member || !member.isActive) {
           return res.status(403).json({
             success: false,
             status: "error",
@@ -157,6 +243,19 @@ export function createOrganizationsGuards(deps: {
           });
         }
 
+        if (
+          await organizationsRepository.isOrganizationSuspended(
+            member.organizationId,
+          )
+        ) {
+          return res.status(403).json({
+            success: false,
+            status: "error",
+            error: "FORBIDDEN",
+            message: "This organization is suspended",
+          });
+        }
+
         // Verify user has elevated role across organizations
         const hasElevatedRole =
           await organizationsRepository.checkHasElevatedRole(req.userId, [
@@ -207,10 +306,9 @@ export function createOrganizationsGuards(deps: {
         Number(req.params.organizationId),
       );
 
-      console.log({ member });
-
       if (
         !member ||
+        !member.isActive ||
         member.organizationId !== Number(req.params.organizationId)
       ) {
         return res.status(403).json({
@@ -221,6 +319,19 @@ export function createOrganizationsGuards(deps: {
         });
       }
 
+      if (
+        await organizationsRepository.isOrganizationSuspended(
+          member.organizationId,
+        )
+      ) {
+        return res.status(403).json({
+          success: false,
+          status: "error",
+          error: "FORBIDDEN",
+          message: "This organization is suspended",
+        });
+      }
+
       return next();
     } catch (error) {
       if (error instanceof NotFoundError) {
@@ -240,49 +351,6 @@ export function createOrganizationsGuards(deps: {
     }
   };
 
-  /**
-   * Checks if the user has permission to delete jobs in the organization.
-   * Requires req.userId and req.organizationId to be set by prior middleware.
-   */
-  const requireDeleteJobPermission = (): RequestHandler => {
-    return async (req: Request, res: Response, next: NextFunction) => {
-      try {
-        if (!req.userId || !req.organizationId) {
-          return res.status(401).json({
-            success: false,
-            status: "error",
-            error: "UNAUTHORIZED",
-            message: "Authentication required",
-          });
-        }
-
-        const hasPermission = await organizationsRepository.hasDeletePermission(
-          req.userId,
-          req.organizationId,
-        );
-
-        if (!hasPermission) {
-          return res.status(403).json({
-            success: false,
-            status: "error",
-            error: "FORBIDDEN",
-            message: "Insufficient permissions to delete jobs",
-          });
-        }
-
-        return next();
-      } catch (error) {
-        logger.error(error);
-        return res.status(500).json({
-          success: false,
-          status: "error",
-          error: "INTERNAL_SERVER_ERROR",
-          message: "Error checking delete permissions",
-        });
-      }
-    };
-  };
-
   /**
    * Validates that the requester can assign the requested role based on hierarchy.
    * Must be used after ensureIsOrganizationMember.
@@ -358,12 +426,113 @@ export function createOrganizationsGuards(deps: {
     }
   };
 
+  /**
+   * Checks that the requester may manage the member in req.params.memberId.
+   * Owners and admins can only manage members ranked below them, and a role in
+   * the body must also be lower than their own. With `allowSelf`, any member
+   * may act on their own membership (e.g. leaving the organization).
+   * Requires req.params.organizationId and req.params.memberId.
+   */
+  const requireMemberManagementPermission = (
+    options: { allowSelf?: boolean } = {},
+  ): RequestHandler => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        if (!req.userId || !req.params.organizationId || !req.params.memberId) {
+          return res.status(401).json({
+            success: false,
+            status: "error",
+            error: "UNAUTHORIZED",
+            message: "Authentication required",
+          });
+        }
+
+        const organizationId = Number(req.params.organizationId);
+        const requester = await organizationsRepository.findByContact(
+          req.userId,
+          organizationId,
+        );
+
+        if (!requester || !requester.isActive) {
+          return res.status(403).json({
+            success: false,
+            status: "error",
+            error: "FORBIDDEN",
+            message: "Insufficient permissions",
+          });
+        }
+
+        const target = await organizationsRepository.findMemberById(
+          organizationId,
+          Number(req.params.memberId),
+        );
+
+        if (!target) {
+          return res.status(404).json({
+            success: false,
+            status: "error",
+            error: "NOT_FOUND",
+            message: "Organization member not found",
+          });
+        }
+
+        if (options.allowSelf && target.id === requester.id) {
+          return next();
+        }
+
+        const requesterRole = requester.role as OrgRole;
+        if (
+          !["owner", "admin"].includes(requesterRole) ||
+          getRoleLevel(target.role) >= getRoleLevel(requesterRole)
+        ) {
+          return res.status(403).json({
+            success: false,
+            status: "error",
+            error: "FORBIDDEN",
+            message:
+              "You can only manage members with a lower role than your own",
+          });
+        }
+
+        const requestedRole = (req.body as { role?: OrgRole } | undefined)
+          ?.role;
+        if (requestedRole && !canAssignRole(requesterRole, requestedRole)) {
+          return res.status(403).json({
+            success: false,
+            status: "error",
+            error: "FORBIDDEN",
+            message: `You cannot assign the ${requestedRole} role. You can only assign roles lower than your own.`,
+          });
+        }
+
+        return next();
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return res.status(403).json({
+            success: false,
+            status: "error",
+            error: "FORBIDDEN",
+            message: "Insufficient permissions",
+          });
+        }
+        logger.error(error);
+        return res.status(500).json({
+          success: false,
+          status: "error",
+          error: "INTERNAL_SERVER_ERROR",
+          message: "Error checking member permissions",
+        });
+      }
+    };
+  };
+
   return {
-    requireJobPostingRole,
+    requirePermission,
+    requireFeature,
     requireAdminOrOwnerRole,
     ensureIsOrganizationMember,
-    requireDeleteJobPermission,
     validateRoleAssignment,
+    requireMemberManagementPermission,
   };
 }
 
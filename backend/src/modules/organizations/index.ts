@@ -2,9 +2,43 @@ export { createOrganizationsModule } from "./composition-root";
 export type { OrganizationsModule } from "./composition-root";
 export { createOrganizationsRoutes } from "./routes/organizations.routes";
 export { createCandidateSearchRoutes } from "./routes/candidate-search.routes";
+export { createAuditEventsRoutes } from "./routes/audit-events.routes";
+export { createOrganizationMembersRoutes } from "./routes/organization-members.routes";
+export { createOrganizationPermissionsRoutes } from "./routes/organization-permissions.routes";
+export { createOrganizationEntitlementsRoutes } from "./routes/organization-entitlements.routes";
+export { createOrganizationVerificationRoutes } from "./routes/organization-verification.routes";
+export { createVerificationReviewRoutes } from "./routes/verification-review.routes";
+export { createOrganizationProfileRoutes } from "./routes/organization-profile.routes";
 export type { OrganizationsServicePort } from "./ports/organizations-service.port";
 export type { OrganizationsRepositoryPort } from "./ports/organizations-repository.port";
 export type { CandidateSearchServicePort } from "./ports/candidate-search-service.port";
+export type { CandidateProfileServicePort } from "./ports/candidate-profile-service.port";
+export type {
+  CandidateProfileQueryPort,
+  PublicCandidate,
+} from "./ports/candidate-profile-query.port";
+export type {
+  OutreachJobQueryPort,
+  OutreachJob,
+} from "./ports/outreach-job-query.port";
+export type { AuditEventsServicePort } from "./ports/audit-events-service.port";
+export type { AuditEventsRepositoryPort } from "./ports/audit-events-repository.port";
+export type { OrganizationMembersServicePort } from "./ports/organization-members-service.port";
+export type { OrganizationPermissionsPort } from "./ports/organization-permissions.port";
+export type { OrganizationPermissionsServicePort } from "./ports/organization-permissions-service.port";
+export type {
+  OrganizationEntitlementsServicePort,
+  OrganizationFeature,
+  JobPostingChange,
+} from "./ports/organization-entitlements-service.port";
+export type { OrganizationVerificationServicePort } from "./ports/organization-verification-service.port";
+export type { OrganizationVerificationRepositoryPort } from "./ports/organization-verification-repository.port";
+export type { OrganizationProfileServicePort } from "./ports/organization-profile-service.port";
+export type {
+  OrganizationProfileRepositoryPort,
+  PublicOrganization,
+} from "./ports/organization-profile-repository.port";
+export type { JobPostingUsageQueryPort } from "./ports/job-posting-usage-query.port";
 export { createOrganizationsGuards } from "./guards/organizations.guards";
 export type { OrganizationsGuards } from "./guards/organizations.guards";
 export type { IntentSyncPort } from "./ports/intent-sync.port";
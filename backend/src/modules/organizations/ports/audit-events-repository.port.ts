@@ -0,0 +1,24 @@
+import type { PaginationMeta } from "@shared/types";
+import type {
+  AuditEventRecord,
+  OrganizationAuditEventsQuery,
+} from "@/validations/auditEvent.validation";
+
+export type AuditEventFilters = Omit<
+  OrganizationAuditEventsQuery,
+  "page" | "limit" | "from" | "to"
+> & {
+  from?: Date;
+  to?: Date;
+};
+
+export interface AuditEventsRepositoryPort {
+  findOrganizationAuditEvents(
+    organizationId: number,
+    filters: AuditEventFilters,
+    pagination: { page: number; limit: number },
+  ): Promise<{ items: AuditEventRecord[]; pagination: PaginationMeta }>;
+
+  /** Deletes events created before the cutoff and returns how many were removed. */
+  deleteEventsBefore(cutoff: Date): Promise<number>;
+}
@@ -0,0 +1,18 @@
+import type { Result } from "@shared/result";
+import type { PaginationMeta } from "@shared/types";
+import type {
+  AuditEventRecord,
+  OrganizationAuditEventsQuery,
+} from "@/validations/auditEvent.validation";
+
+export interface OrganizationAuditEventsResult {
+  items: AuditEventRecord[];
+  pagination: PaginationMeta;
+}
+
+export interface AuditEventsServicePort {
+  getOrganizationAuditEvents(
+    organizationId: number,
+    query: OrganizationAuditEventsQuery,
+  ): Promise<Result<OrganizationAuditEventsResult, Error>>;
+}
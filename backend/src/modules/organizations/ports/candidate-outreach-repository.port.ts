@@ -0,0 +1,20 @@
+import type { CandidateOutreach } from "@/validations/candidate-search.validation";
+
+export interface CandidateOutreachRepositoryPort {
+  /** Whether the candidate was already invited to apply to the job. */
+  hasInvited(jobId: number, candidateId: number): Promise<boolean>;
+
+  /** Jobs of the organization the candidate was invited to apply to. */
+  findInvitedJobIds(
+    organizationId: number,
+    candidateId: number,
+  ): Promise<number[]>;
+
+  createOutreach(data: {
+    organizationId: number;
+    candidateId: number;
+    jobId: number;
+    sentBy: number;
+    message: string | null;
+  }): Promise<CandidateOutreach>;
+}
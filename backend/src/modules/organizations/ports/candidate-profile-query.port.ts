@@ -0,0 +1,21 @@
+import type { CandidateDetail } from "@/validations/candidate-search.validation";
+
+/** A candidate whose profile employers may see, with the address to reach them at. */
+export interface PublicCandidate {
+  profile: Omit<CandidateDetail, "invitedJobIds">;
+  email: string;
+}
+
+/**
+ * Cross-module port for the organizations module to load the full profile
+ * of a candidate found through candidate search.
+ *
+ * Implemented by ProfileToOrganizationsAdapter in src/shared/adapters/.
+ */
+export interface CandidateProfileQueryPort {
+  /**
+   * Loads an active seeker's profile, or null when the user is not a
+   * seeker or keeps their profile private.
+   */
+  findPublicCandidate(userId: number): Promise<PublicCandidate | null>;
+}
@@ -0,0 +1,24 @@
+import type { Result } from "@shared/result";
+import type {
+  CandidateDetail,
+  CandidateOutreach,
+} from "@/validations/candidate-search.validation";
+
+export interface CandidateProfileServicePort {
+  /** Loads a public candidate profile for an organization's recruiters. */
+  getCandidateDetail(
+    organizationId: number,
+    candidateId: number,
+  ): Promise<Result<CandidateDetail, Error>>;
+
+  /**
+   * Emails a public candidate a link to one of the organization's published
+   * jobs and records the outreach. A candidate is invited to a job once.
+   */
+  inviteToApply(
+    organizationId: number,
+    candidateId: number,
+    senderId: number,
+    invitation: { jobId: number; message?: string },
+  ): Promise<Result<CandidateOutreach, Error>>;
+}
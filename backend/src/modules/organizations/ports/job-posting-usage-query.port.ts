@@ -0,0 +1,12 @@
+/**
+ * Cross-module port for the organizations module to count an organization's
+ * live job postings when enforcing plan limits.
+ *
+ * Implemented by JobBoardToOrganizationsAdapter in src/shared/adapters/.
+ */
+export interface JobPostingUsageQueryPort {
+  /** Counts active postings and how many of them are featured. */
+  getJobPostingUsage(
+    organizationId: number,
+  ): Promise<{ activeJobs: number; featuredJobs: number }>;
+}
@@ -0,0 +1,31 @@
+import type { Result } from "@shared/result";
+import type { OrganizationUsage } from "@/validations/organizationEntitlement.validation";
+
+/** Plan features gated by subscription tier rather than by a usage limit. */
+export type OrganizationFeature = "candidateSearch";
+
+/** What a job create or update would change about the organization's usage. */
+export interface JobPostingChange {
+  /** The posting becomes active and takes an active-job slot. */
+  activating: boolean;
+  /** The posting becomes an active featured listing. */
+  featuring: boolean;
+}
+
+export interface OrganizationEntitlementsServicePort {
+  getUsage(organizationId: number): Promise<Result<OrganizationUsage, Error>>;
+
+  /**
+   * Fails with PlanUpgradeRequiredError when the plan does not cover the
+   * change, or PaymentRequiredError when only the lapsed subscription would.
+   */
+  checkJobPosting(
+    organizationId: number,
+    change: JobPostingChange,
+  ): Promise<Result<null, Error>>;
+
+  checkFeature(
+    organizationId: number,
+    feature: OrganizationFeature,
+  ): Promise<Result<null, Error>>;
+}
@@ -0,0 +1,43 @@
+import type { Result } from "@shared/result";
+import type {
+  AssignableOrganizationRole,
+  OrganizationMemberDetails,
+  OrganizationMembersFilters,
+  OrganizationRole,
+  OwnershipTransferResult,
+} from "@/validations/organizationMember.validation";
+
+export interface MemberRoleChangeResult {
+  member: OrganizationMemberDetails;
+  previousRole: OrganizationRole;
+}
+
+export interface OrganizationMembersServicePort {
+  listMembers(
+    organizationId: number,
+    filters: OrganizationMembersFilters,
+  ): Promise<Result<OrganizationMemberDetails[], Error>>;
+
+  changeMemberRole(
+    organizationId: number,
+    memberId: number,
+    role: AssignableOrganizationRole,
+  ): Promise<Result<MemberRoleChangeResult, Error>>;
+
+  updateMemberStatus(
+    organizationId: number,
+    memberId: number,
+    isActive: boolean,
+  ): Promise<Result<OrganizationMemberDetails, Error>>;
+
+  removeMember(
+    organizationId: number,
+    memberId: number,
+  ): Promise<Result<OrganizationMemberDetails, Error>>;
+
+  transferOwnership(
+    organizationId: number,
+    ownerUserId: number,
+    newOwnerMemberId: number,
+  ): Promise<Result<OwnershipTransferResult, Error>>;
+}
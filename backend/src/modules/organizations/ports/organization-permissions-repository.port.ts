@@ -0,0 +1,42 @@
+import type {
+  CustomizableOrganizationRole,
+  OrganizationPermission,
+} from "@shared/constants/organization-permissions";
+
+export interface CustomizedRolePermissions {
+  role: CustomizableOrganizationRole;
+  permissions: OrganizationPermission[];
+}
+
+export interface OrganizationPermissionsRepositoryPort {
+  /**
+   * Returns the customized permission sets of an organization. Roles using
+   * the defaults have no entry.
+   */
+  findByOrganizationId(
+    organizationId: number,
+  ): Promise<CustomizedRolePermissions[]>;
+
+  /**
+   * Returns the customized permission set of one role, or null when the role
+   * uses the defaults.
+   */
+  findByOrganizationIdAndRole(
+    organizationId: number,
+    role: CustomizableOrganizationRole,
+  ): Promise<OrganizationPermission[] | null>;
+
+  /**
+   * Stores customized permission sets, replacing any existing set of the
+   * same roles.
+   */
+  upsertForOrganization(
+    organizationId: number,
+    roles: CustomizedRolePermissions[],
+  ): Promise<void>;
+
+  /**
+   * Removes every customized set so all roles use the defaults again.
+   */
+  deleteForOrganization(organizationId: number): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import type { Result } from "@shared/result";
+import type { OrganizationPermissionsPort } from "./organization-permissions.port";
+import type {
+  OrganizationPermissionMatrix,
+  UpdateOrganizationPermissionsInput,
+} from "@/validations/organizationPermission.validation";
+
+export interface OrganizationPermissionsServicePort extends OrganizationPermissionsPort {
+  getPermissionMatrix(
+    organizationId: number,
+  ): Promise<Result<OrganizationPermissionMatrix, Error>>;
+
+  updatePermissionMatrix(
+    organizationId: number,
+    data: UpdateOrganizationPermissionsInput,
+  ): Promise<Result<OrganizationPermissionMatrix, Error>>;
+
+  resetPermissionMatrix(
+    organizationId: number,
+  ): Promise<Result<OrganizationPermissionMatrix, Error>>;
+}
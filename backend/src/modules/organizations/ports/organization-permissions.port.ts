@@ -0,0 +1,15 @@
+import type {
+  OrganizationPermission,
+  OrganizationRoleName,
+} from "@shared/constants/organization-permissions";
+
+/**
+ * Resolves what a role may do in an organization. This is the single port
+ * the organization guards consult before letting a member act.
+ */
+export interface OrganizationPermissionsPort {
+  getRolePermissions(
+    organizationId: number,
+    role: OrganizationRoleName,
+  ): Promise<OrganizationPermission[]>;
+}
@@ -0,0 +1,54 @@
+import type {
+  OrganizationProfile,
+  OrganizationProfileJob,
+} from "@/validations/organizationProfile.validation";
+
+export type PublicOrganization = Omit<
+  OrganizationProfile,
+  "followerCount" | "isFollowing" | "openJobs"
+>;
+
+/** A newly published job, as announced to the organization's followers. */
+export interface FollowedJob {
+  id: number;
+  title: string;
+  status: string;
+  organizationId: number;
+  organizationName: string;
+  city: string;
+  state: string | null;
+  isRemote: boolean;
+  followersNotifiedAt: Date | null;
+}
+
+export interface FollowerContact {
+  userId: number;
+  email: string;
+  fullName: string;
+}
+
+export interface OrganizationProfileRepositoryPort {
+  /** The organization's public details, or null when it is not active. */
+  findPublicOrganization(
+    organizationId: number,
+  ): Promise<PublicOrganization | null>;
+
+  /** Published jobs, newest first. */
+  findOpenJobs(organizationId: number): Promise<OrganizationProfileJob[]>;
+
+  countFollowers(organizationId: number): Promise<number>;
+
+  isFollowing(organizationId: number, userId: number): Promise<boolean>;
+
+  /** Idempotent: following twice keeps a single follow. */
+  follow(organizationId: number, userId: number): Promise<void>;
+
+  unfollow(organizationId: number, userId: number): Promise<void>;
+
+  findFollowedJob(jobId: number): Promise<FollowedJob | null>;
+
+  /** Active users following the organization. */
+  findFollowerContacts(organizationId: number): Promise<FollowerContact[]>;
+
+  markFollowersNotified(jobId: number): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import type { Result } from "@shared/result";
+import type {
+  OrganizationFollow,
+  OrganizationProfile,
+} from "@/validations/organizationProfile.validation";
+
+export interface OrganizationProfileServicePort {
+  /**
+   * The public profile of an active organization with its open roles.
+   * `viewerId` is set for signed-in visitors to report whether they follow it.
+   */
+  getProfile(
+    organizationId: number,
+    viewerId?: number,
+  ): Promise<Result<OrganizationProfile, Error>>;
+
+  /** Follows the organization; its new jobs are emailed to the user. */
+  follow(
+    organizationId: number,
+    userId: number,
+  ): Promise<Result<OrganizationFollow, Error>>;
+
+  unfollow(
+    organizationId: number,
+    userId: number,
+  ): Promise<Result<OrganizationFollow, Error>>;
+
+  /**
+   * Emails the organization's followers about a job that just went live.
+   * Jobs no longer published, or already announced, are skipped with 0.
+   * Returns how many followers were queued an email.
+   */
+  notifyFollowersOfJob(jobId: number): Promise<Result<number, Error>>;
+}
@@ -0,0 +1,46 @@
+import type { PaginationMeta } from "@shared/types";
+import type {
+  OrganizationVerificationRequest,
+  VerificationQueueQuery,
+  VerificationReview,
+} from "@/validations/organizationVerification.validation";
+
+export interface OrganizationVerificationRepositoryPort {
+  /** The organization's verification state, or null when it does not exist. */
+  findOrganizationVerification(organizationId: number): Promise<{
+    name: string;
+    isVerified: boolean;
+    verifiedAt: Date | null;
+  } | null>;
+
+  /** The organization's most recent request, whatever its status. */
+  findLatestRequest(
+    organizationId: number,
+  ): Promise<OrganizationVerificationRequest | null>;
+
+  createRequest(data: {
+    organizationId: number;
+    submittedBy: number;
+    note: string | null;
+  }): Promise<OrganizationVerificationRequest>;
+
+  findRequests(
+    filters: Omit<VerificationQueueQuery, "page" | "limit">,
+    page: { page: number; limit: number },
+  ): Promise<{ items: VerificationReview[]; pagination: PaginationMeta }>;
+
+  findRequestById(requestId: number): Promise<VerificationReview | null>;
+
+  /**
+   * Closes a pending request with the staff decision. Approving it marks
+   * the organization verified.
+   */
+  decideRequest(
+    requestId: number,
+    decision: {
+      status: "approved" | "rejected";
+      decidedBy: number;
+      decisionNote: string | null;
+    },
+  ): Promise<void>;
+}
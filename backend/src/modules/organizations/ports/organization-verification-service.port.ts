@@ -0,0 +1,52 @@
+import type { Result } from "@shared/result";
+import type { PaginationMeta } from "@shared/types";
+import type { OrganizationVerificationDocuments } from "../types/organizations.module.types";
+import type {
+  OrganizationVerification,
+  OrganizationVerificationRequest,
+  SubmitOrganizationVerificationInput,
+  VerificationQueueQuery,
+  VerificationReview,
+} from "@/validations/organizationVerification.validation";
+
+export interface OrganizationVerificationServicePort {
+  /** The organization's verified state and its most recent request. */
+  getVerification(
+    organizationId: number,
+  ): Promise<Result<OrganizationVerification, Error>>;
+
+  /**
+   * Opens a verification request and queues its documents for upload. An
+   * organization that is verified or already has a request under review
+   * cannot submit another.
+   */
+  submitVerification(
+    organizationId: number,
+    userId: number,
+    input: SubmitOrganizationVerificationInput,
+    documents: OrganizationVerificationDocuments,
+    correlationId: string,
+  ): Promise<Result<OrganizationVerificationRequest, Error>>;
+
+  getQueue(
+    query: VerificationQueueQuery,
+  ): Promise<
+    Result<{ items: VerificationReview[]; pagination: PaginationMeta }, Error>
+  >;
+
+  getRequest(requestId: number): Promise<Result<VerificationReview, Error>>;
+
+  /** Marks the organization verified and reindexes it for search. */
+  approve(
+    requestId: number,
+    staffId: number,
+    note?: string,
+  ): Promise<Result<VerificationReview, Error>>;
+
+  /** Declines the request; the owners may submit new documents. */
+  reject(
+    requestId: number,
+    staffId: number,
+    reason: string,
+  ): Promise<Result<VerificationReview, Error>>;
+}
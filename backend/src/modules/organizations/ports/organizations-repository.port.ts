@@ -10,6 +10,12 @@ import type {
   OrganizationWithMembers,
   OrganizationMember,
 } from "@/validations/organization.validation";
+import type {
+  OrganizationMemberDetails,
+  OrganizationMembersFilters,
+  OrganizationRole,
+} from "@/validations/organizationMember.validation";
+import type { OrganizationPermission } from "@shared/constants/organization-permissions";
 
 type OrganizationSelect = typeof organizations.$inferSelect;
 type OrganizationInsert = typeof organizations.$inferInsert;
@@ -61,17 +67,13 @@ export interface OrganizationsRepositoryPort extends BaseRepositoryPort<
   ): Promise<OrganizationMemberInterface>;
 
   /**
-   * Checks if a user can post jobs based on their organization memberships.
-   */
-  canPostJobs(userId: number): Promise<boolean>;
-
-  /**
-   * Checks if a user can reject job applications for a specific organization.
+   * Retrieves contact details of the active members of an organization whose
+   * role grants a permission.
    */
-  canRejectJobApplications(
-    userId: number,
+  findMembersWithPermission(
     organizationId: number,
-  ): Promise<boolean>;
+    permission: OrganizationPermission,
+  ): Promise<{ userId: number; email: string; fullName: string }[]>;
 
   /**
    * Checks if a user has any of the specified elevated roles in an organization.
@@ -105,9 +107,9 @@ export interface OrganizationsRepositoryPort extends BaseRepositoryPort<
   validateOrganizationExists(orgId: number): Promise<boolean>;
 
   /**
-   * Checks if a user has `delete` permission for an organization.
+   * Checks whether platform staff have suspended an organization.
    */
-  hasDeletePermission(userId: number, orgId: number): Promise<boolean>;
+  isOrganizationSuspended(orgId: number): Promise<boolean>;
 
   /**
    * Creates an organization member record.
@@ -126,4 +128,46 @@ export interface OrganizationsRepositoryPort extends BaseRepositoryPort<
    * the user's departure would orphan organizations.
    */
   findSoleOwnedOrgs(userId: number): Promise<{ id: number; name: string }[]>;
+
+  /**
+   * Lists the members of an organization with their user details,
+   * optionally filtered by role and active status.
+   */
+  findMembers(
+    organizationId: number,
+    filters?: OrganizationMembersFilters,
+  ): Promise<OrganizationMemberDetails[]>;
+
+  /**
+   * Finds a member of an organization by membership ID.
+   * Returns null when the membership does not belong to the organization.
+   */
+  findMemberById(
+    organizationId: number,
+    memberId: number,
+  ): Promise<OrganizationMemberDetails | null>;
+
+  /**
+   * Updates the role or active flag of an organization member.
+   */
+  updateMember(
+    organizationId: number,
+    memberId: number,
+    data: { role?: OrganizationRole; isActive?: boolean },
+  ): Promise<OrganizationMemberDetails>;
+
+  /**
+   * Removes a member from an organization.
+   */
+  deleteMember(organizationId: number, memberId: number): Promise<boolean>;
+
+  /**
+   * Makes another member the owner and demotes the current owner to admin.
+   * Both updates happen in one transaction.
+   */
+  transferOwnership(
+    organizationId: number,
+    fromMemberId: number,
+    toMemberId: number,
+  ): Promise<void>;
 }
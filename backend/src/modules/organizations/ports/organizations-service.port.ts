@@ -47,13 +47,6 @@ export interface OrganizationsServicePort {
 
   deleteOrganization(id: number): Promise<Result<{ message: string }, Error>>;
 
-  isRolePermitted(userId: number): Promise<Result<boolean, Error>>;
-
-  isRolePermittedToRejectApplications(
-    userId: number,
-    organizationId: number,
-  ): Promise<Result<boolean, Error>>;
-
   getOrganizationMembersByRole(
     organizationId: number,
     role: "owner" | "admin" | "recruiter",
@@ -71,6 +64,4 @@ export interface OrganizationsServicePort {
   getUserOrganizations(
     userId: number,
   ): Promise<Result<UserOrganizationInterface[], Error>>;
-
-  hasDeletePermission(userId: number, organizationId: number): Promise<boolean>;
 }
@@ -0,0 +1,20 @@
+import type { JobStatus } from "@shared/constants/job-status";
+
+export interface OutreachJob {
+  id: number;
+  title: string;
+  employerId: number;
+  employerName: string;
+  status: JobStatus;
+}
+
+/**
+ * Cross-module port for the organizations module to look up the job a
+ * candidate is invited to apply to.
+ *
+ * Implemented by JobBoardToOrganizationsAdapter in src/shared/adapters/.
+ */
+export interface OutreachJobQueryPort {
+  /** Loads the job with its employer's name, or null when it does not exist. */
+  findJobForOutreach(jobId: number): Promise<OutreachJob | null>;
+}
@@ -0,0 +1,129 @@
+import { and, desc, eq, gte, inArray, lt, lte, type SQL } from "drizzle-orm";
+import { auditEvents, user } from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { calculatePagination, countRecords } from "@shared/db/utils";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import type {
+  AuditEventFilters,
+  AuditEventsRepositoryPort,
+} from "../ports/audit-events-repository.port";
+import type { AuditEventRecord } from "@/validations/auditEvent.validation";
+
+/** Rows removed per statement so retention never holds long table locks. */
+const DELETE_BATCH_SIZE = 5000;
+
+/**
+ * Reads the persisted audit trail. Rows are written by the database audit
+ * adapter in `@shared/audit`; this repository never inserts.
+ */
+export class AuditEventsRepository implements AuditEventsRepositoryPort {
+  async findOrganizationAuditEvents(
+    organizationId: number,
+    filters: AuditEventFilters,
+    pagination: { page: number; limit: number },
+  ) {
+    return await withDbErrorHandling(async () => {
+      const { page, limit } = pagination;
+
+      const conditions: SQL[] = [
+        eq(auditEvents.organizationId, organizationId),
+      ];
+      if (filters.name) conditions.push(eq(auditEvents.name, filters.name));
+      if (filters.actorId) {
+        conditions.push(eq(auditEvents.actorId, filters.actorId));
+      }
+      if (filters.resourceType) {
+        conditions.push(eq(auditEvents.resourceType, filters.resourceType));
+      }
+      if (filters.resourceId) {
+        conditions.push(eq(auditEvents.resourceId, filters.resourceId));
+      }
+      if (filters.outcome) {
+        conditions.push(eq(auditEvents.outcome, filters.outcome));
+      }
+      if (filters.from)
+        conditions.push(gte(auditEvents.createdAt, filters.from));
+      if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+
+      const where = and(...conditions);
+
+      const [total, rows] = await Promise.all([
+        countRecords(auditEvents, where),
+        db
+          .select()
+          .from(auditEvents)
+          .where(where)
+          .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      // Actor ids are stored as strings; resolve the ones that are users
+      const actorIds = [
+        ...new Set(
+          rows
+            .map((row) => Number(row.actorId))
+            .filter((id) => Number.isInteger(id) && id > 0),
+        ),
+      ];
+      const actors =
+        actorIds.length > 0
+          ? await db
+              .select({
+                id: user.id,
+                fullName: user.fullName,
+                email: user.email,
+              })
+              .from(user)
+              .where(inArray(user.id, actorIds))
+          : [];
+      const actorsById = new Map(
+        actors.map((actor) => [String(actor.id), actor]),
+      );
+
+      const items: AuditEventRecord[] = rows.map((row) => {
+        const actor = row.actorId ? actorsById.get(row.actorId) : undefined;
+
+        return {
+          id: row.id,
+          name: row.name as AuditEventRecord["name"],
+          actor: {
+            id: row.actorId,
+            fullName: actor?.fullName ?? null,
+            email: actor?.email ?? null,
+          },
+          resource: { type: row.resourceType, id: row.resourceId },
+          action: row.action,
+          outcome: row.outcome,
+          failureReason: row.failureReason,
+          metadata: row.metadata,
+          createdAt: row.createdAt,
+        };
+      });
+
+      return {
+        items,
+        pagination: calculatePagination(total, page, limit),
+      };
+    });
+  }
+
+  async deleteEventsBefore(cutoff: Date): Promise<number> {
+    return await withDbErrorHandling(async () => {
+      let deleted = 0;
+
+      while (true) {
+        const result = await db
+          .delete(auditEvents)
+          .where(lt(auditEvents.createdAt, cutoff))
+          .limit(DELETE_BATCH_SIZE);
+
+        deleted += result[0].affectedRows;
+
+        if (result[0].affectedRows < DELETE_BATCH_SIZE) {
+          return deleted;
+        }
+      }
+    });
+  }
+}
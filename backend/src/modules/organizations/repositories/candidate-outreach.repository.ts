@@ -0,0 +1,67 @@
+import { and, eq } from "drizzle-orm";
+import { candidateOutreach } from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { DatabaseError } from "@shared/errors";
+import type { CandidateOutreachRepositoryPort } from "../ports/candidate-outreach-repository.port";
+
+/** Records the candidates an organization invited to apply to its jobs. */
+export class CandidateOutreachRepository implements CandidateOutreachRepositoryPort {
+  async hasInvited(jobId: number, candidateId: number) {
+    return await withDbErrorHandling(async () => {
+      const [outreach] = await db
+        .select({ id: candidateOutreach.id })
+        .from(candidateOutreach)
+        .where(
+          and(
+            eq(candidateOutreach.jobId, jobId),
+            eq(candidateOutreach.candidateId, candidateId),
+          ),
+        )
+        .limit(1);
+      return !!outreach;
+    });
+  }
+
+  async findInvitedJobIds(organizationId: number, candidateId: number) {
+    return await withDbErrorHandling(async () => {
+      const rows = await db
+        .select({ jobId: candidateOutreach.jobId })
+        .from(candidateOutreach)
+        .where(
+          and(
+            eq(candidateOutreach.organizationId, organizationId),
+            eq(candidateOutreach.candidateId, candidateId),
+          ),
+        );
+      return rows.map((row) => row.jobId);
+    });
+  }
+
+  async createOutreach(data: {
+    organizationId: number;
+    candidateId: number;
+    jobId: number;
+    sentBy: number;
+    message: string | null;
+  }) {
+    return await withDbErrorHandling(async () => {
+      const [inserted] = await db
+        .insert(candidateOutreach)
+        .values(data)
+        .$returningId();
+
+      if (!inserted || isNaN(inserted.id)) {
+        throw new DatabaseError(`Invalid insertId returned: ${inserted?.id}`);
+      }
+
+      const outreach = await db.query.candidateOutreach.findFirst({
+        where: eq(candidateOutreach.id, inserted.id),
+      });
+      if (!outreach) {
+        throw new DatabaseError("Failed to load the recorded outreach");
+      }
+      return outreach;
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { and, eq, sql } from "drizzle-orm";
+import { organizationRolePermissions } from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import type { CustomizableOrganizationRole } from "@shared/constants/organization-permissions";
+import type {
+  CustomizedRolePermissions,
+  OrganizationPermissionsRepositoryPort,
+} from "../ports/organization-permissions-repository.port";
+
+export class OrganizationPermissionsRepository implements OrganizationPermissionsRepositoryPort {
+  async findByOrganizationId(organizationId: number) {
+    return withDbErrorHandling(
+      async () =>
+        await db
+          .select({
+            role: organizationRolePermissions.role,
+            permissions: organizationRolePermissions.permissions,
+          })
+          .from(organizationRolePermissions)
+          .where(
+            eq(organizationRolePermissions.organizationId, organizationId),
+          ),
+    );
+  }
+
+  async findByOrganizationIdAndRole(
+    organizationId: number,
+    role: CustomizableOrganizationRole,
+  ) {
+    return withDbErrorHandling(async () => {
+      const [row] = await db
+        .select({ permissions: organizationRolePermissions.permissions })
+        .from(organizationRolePermissions)
+        .where(
+          and(
+            eq(organizationRolePermissions.organizationId, organizationId),
+            eq(organizationRolePermissions.role, role),
+          ),
+        )
+        .limit(1);
+
+      return row?.permissions ?? null;
+    });
+  }
+
+  async upsertForOrganization(
+    organizationId: number,
+    roles: CustomizedRolePermissions[],
+  ) {
+    if (roles.length === 0) return;
+
+    await withDbErrorHandling(
+      async () =>
+        await db
+          .insert(organizationRolePermissions)
+          .values(roles.map((entry) => ({ organizationId, ...entry })))
+          .onDuplicateKeyUpdate({
+            set: {
+              permissions: sql`values(${organizationRolePermissions.permissions})`,
+            },
+          }),
+    );
+  }
+
+  async deleteForOrganization(organizationId: number) {
+    await withDbErrorHandling(
+      async () =>
+        await db
+          .delete(organizationRolePermissions)
+          .where(
+            eq(organizationRolePermissions.organizationId, organizationId),
+          ),
+    );
+  }
+}
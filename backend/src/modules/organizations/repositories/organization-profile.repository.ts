@@ -0,0 +1,166 @@
+import { and, desc, eq } from "drizzle-orm";
+import {
+  jobsDetails,
+  organizationFollowers,
+  organizations,
+  user,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { countRecords } from "@shared/db/utils";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import type { OrganizationProfileRepositoryPort } from "../ports/organization-profile-repository.port";
+
+/**
+ * Public organization profiles and the seekers following them.
+ */
+export class OrganizationProfileRepository implements OrganizationProfileRepositoryPort {
+  async findPublicOrganization(organizationId: number) {
+    return await withDbErrorHandling(async () => {
+      const [organization] = await db
+        .select({
+          id: organizations.id,
+          name: organizations.name,
+          mission: organizations.mission,
+          logoUrl: organizations.logoUrl,
+          url: organizations.url,
+          city: organizations.city,
+          state: organizations.state,
+          country: organizations.country,
+          isVerified: organizations.isVerified,
+        })
+        .from(organizations)
+        .where(
+          and(
+            eq(organizations.id, organizationId),
+            eq(organizations.status, "active"),
+          ),
+        );
+      return organization ?? null;
+    });
+  }
+
+  async findOpenJobs(organizationId: number) {
+    return await withDbErrorHandling(
+      async () =>
+        await db
+          .select({
+            id: jobsDetails.id,
+            title: jobsDetails.title,
+            city: jobsDetails.city,
+            state: jobsDetails.state,
+            country: jobsDetails.country,
+            isRemote: jobsDetails.isRemote,
+            jobType: jobsDetails.jobType,
+            compensationType: jobsDetails.compensationType,
+            createdAt: jobsDetails.createdAt,
+          })
+          .from(jobsDetails)
+          .where(
+            and(
+              eq(jobsDetails.employerId, organizationId),
+              eq(jobsDetails.status, "published"),
+            ),
+          )
+          .orderBy(desc(jobsDetails.createdAt)),
+    );
+  }
+
+  async countFollowers(organizationId: number) {
+    return await withDbErrorHandling(
+      async () =>
+        await countRecords(
+          organizationFollowers,
+          eq(organizationFollowers.organizationId, organizationId),
+        ),
+    );
+  }
+
+  async isFollowing(organizationId: number, userId: number) {
+    return await withDbErrorHandling(async () => {
+      const [follow] = await db
+        .select({ id: organizationFollowers.id })
+        .from(organizationFollowers)
+        .where(
+          and(
+            eq(organizationFollowers.organizationId, organizationId),
+            eq(organizationFollowers.userId, userId),
+          ),
+        );
+      return !!follow;
+    });
+  }
+
+  async follow(organizationId: number, userId: number) {
+    await withDbErrorHandling(async () => {
+      await db
+        .insert(organizationFollowers)
+        .values({ organizationId, userId })
+        .onDuplicateKeyUpdate({
+          set: { organizationId },
+        });
+    });
+  }
+
+  async unfollow(organizationId: number, userId: number) {
+    await withDbErrorHandling(async () => {
+      await db
+        .delete(organizationFollowers)
+        .where(
+          and(
+            eq(organizationFollowers.organizationId, organizationId),
+            eq(organizationFollowers.userId, userId),
+          ),
+        );
+    });
+  }
+
+  async findFollowedJob(jobId: number) {
+    return await withDbErrorHandling(async () => {
+      const [job] = await db
+        .select({
+          id: jobsDetails.id,
+          title: jobsDetails.title,
+          status: jobsDetails.status,
+          organizationId: organizations.id,
+          organizationName: organizations.name,
+          city: jobsDetails.city,
+          state: jobsDetails.state,
+          isRemote: jobsDetails.isRemote,
+          followersNotifiedAt: jobsDetails.followersNotifiedAt,
+        })
+        .from(jobsDetails)
+        .innerJoin(organizations, eq(organizations.id, jobsDetails.employerId))
+        .where(eq(jobsDetails.id, jobId));
+      return job ?? null;
+    });
+  }
+
+  async findFollowerContacts(organizationId: number) {
+    return await withDbErrorHandling(
+      async () =>
+        await db
+          .select({
+            userId: user.id,
+            email: user.email,
+            fullName: user.fullName,
+          })
+          .from(organizationFollowers)
+          .innerJoin(user, eq(user.id, organizationFollowers.userId))
+          .where(
+            and(
+              eq(organizationFollowers.organizationId, organizationId),
+              eq(user.status, "active"),
+            ),
+          ),
+    );
+  }
+
+  async markFollowersNotified(jobId: number) {
+    await withDbErrorHandling(async () => {
+      await db
+        .update(jobsDetails)
+        .set({ followersNotifiedAt: new Date() })
+        .where(eq(jobsDetails.id, jobId));
+    });
+  }
+}
@@ -0,0 +1,193 @@
+import { and, desc, eq } from "drizzle-orm";
+import {
+  organizations,
+  organizationVerificationRequests,
+  user,
+} from "@/db/schema";
+import { db } from "@shared/db/connection";
+import { calculatePagination, countRecords } from "@shared/db/utils";
+import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
+import { DatabaseError } from "@shared/errors";
+import type { OrganizationVerificationRepositoryPort } from "../ports/organization-verification-repository.port";
+import type { VerificationQueueQuery } from "@/validations/organizationVerification.validation";
+
+const requestColumns = {
+  id: organizationVerificationRequests.id,
+  organizationId: organizationVerificationRequests.organizationId,
+  status: organizationVerificationRequests.status,
+  note: organizationVerificationRequests.note,
+  nonprofitRegistrationUrl:
+    organizationVerificationRequests.nonprofitRegistrationUrl,
+  einLetterUrl: organizationVerificationRequests.einLetterUrl,
+  decisionNote: organizationVerificationRequests.decisionNote,
+  decidedAt: organizationVerificationRequests.decidedAt,
+  createdAt: organizationVerificationRequests.createdAt,
+};
+
+const reviewColumns = {
+  ...requestColumns,
+  organizationName: organizations.name,
+  organizationUrl: organizations.url,
+  submittedBy: organizationVerificationRequests.submittedBy,
+  submitterName: user.fullName,
+  decidedBy: organizationVerificationRequests.decidedBy,
+};
+
+/**
+ * Verification requests submitted by organization owners and the verified
+ * state they grant.
+ */
+export class OrganizationVerificationRepository implements OrganizationVerificationRepositoryPort {
+  async findOrganizationVerification(organizationId: number) {
+    return await withDbErrorHandling(async () => {
+      const [organization] = await db
+        .select({
+          name: organizations.name,
+          isVerified: organizations.isVerified,
+          verifiedAt: organizations.verifiedAt,
+        })
+        .from(organizations)
+        .where(eq(organizations.id, organizationId));
+      return organization ?? null;
+    });
+  }
+
+  async findLatestRequest(organizationId: number) {
+    return await withDbErrorHandling(async () => {
+      const [request] = await db
+        .select(requestColumns)
+        .from(organizationVerificationRequests)
+        .where(
+          eq(organizationVerificationRequests.organizationId, organizationId),
+        )
+        .orderBy(
+          desc(organizationVerificationRequests.createdAt),
+          desc(organizationVerificationRequests.id),
+        )
+        .limit(1);
+      return request ?? null;
+    });
+  }
+
+  async createRequest(data: {
+    organizationId: number;
+    submittedBy: number;
+    note: string | null;
+  }) {
+    return await withDbErrorHandling(async () => {
+      const [inserted] = await db
+        .insert(organizationVerificationRequests)
+        .values(data)
+        .$returningId();
+
+      if (!inserted || isNaN(inserted.id)) {
+        throw new DatabaseError(`Invalid insertId returned: ${inserted?.id}`);
+      }
+
+      const [request] = await db
+        .select(requestColumns)
+        .from(organizationVerificationRequests)
+        .where(eq(organizationVerificationRequests.id, inserted.id));
+      if (!request) {
+        throw new DatabaseError("Failed to load the verification request");
+      }
+      return request;
+    });
+  }
+
+  async findRequests(
+    filters: Omit<VerificationQueueQuery, "page" | "limit">,
+    { page, limit }: { page: number; limit: number },
+  ) {
+    return await withDbErrorHandling(async () => {
+      const where = eq(organizationVerificationRequests.status, filters.status);
+
+      const [total, items] = await Promise.all([
+        countRecords(organizationVerificationRequests, where),
+        db
+          .select(reviewColumns)
+          .from(organizationVerificationRequests)
+          .innerJoin(
+            organizations,
+            eq(
+              organizations.id,
+              organizationVerificationRequests.organizationId,
+            ),
+          )
+          .leftJoin(
+            user,
+            eq(user.id, organizationVerificationRequests.submittedBy),
+          )
+          .where(where)
+          // Oldest first: requests are reviewed in the order they arrived
+          .orderBy(
+            filters.status === "pending"
+              ? organizationVerificationRequests.createdAt
+              : desc(organizationVerificationRequests.decidedAt),
+            organizationVerificationRequests.id,
+          )
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      return { items, pagination: calculatePagination(total, page, limit) };
+    });
+  }
+
+  async findRequestById(requestId: number) {
+    return await withDbErrorHandling(async () => {
+      const [request] = await db
+        .select(reviewColumns)
+        .from(organizationVerificationRequests)
+        .innerJoin(
+          organizations,
+          eq(organizations.id, organizationVerificationRequests.organizationId),
+        )
+        .leftJoin(
+          user,
+          eq(user.id, organizationVerificationRequests.submittedBy),
+        )
+        .where(eq(organizationVerificationRequests.id, requestId));
+      return request ?? null;
+    });
+  }
+
+  async decideRequest(
+    requestId: number,
+    decision: {
+      status: "approved" | "rejected";
+      decidedBy: number;
+      decisionNote: string | null;
+    },
+  ) {
+    await withDbErrorHandling(async () => {
+      await db.transaction(async (tx) => {
+        const [request] = await tx
+          .select({
+            organizationId: organizationVerificationRequests.organizationId,
+          })
+          .from(organizationVerificationRequests)
+          .where(
+            and(
+              eq(organizationVerificationRequests.id, requestId),
+              eq(organizationVerificationRequests.status, "pending"),
+            ),
+          );
+        if (!request) return;
+
+        const decidedAt = new Date();
+        await tx
+          .update(organizationVerificationRequests)
+          .set({ ...decision, decidedAt })
+          .where(eq(organizationVerificationRequests.id, requestId));
+
+        if (decision.status === "approved") {
+          await tx
+            .update(organizations)
+            .set({ isVerified: true, verifiedAt: decidedAt })
+            .where(eq(organizations.id, request.organizationId));
+        }
+      });
+    });
+  }
+}
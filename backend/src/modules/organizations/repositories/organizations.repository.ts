@@ -1,7 +1,8 @@
-import { and, eq, inArray, like, or, sql } from "drizzle-orm";
+import { and, asc, eq, inArray, like, or, sql } from "drizzle-orm";
 import { SecurityUtils } from "@shared/utils/security";
 import {
   organizationMembers,
+  organizationRolePermissions,
   organizations,
   user,
   userOnBoarding,
@@ -12,9 +13,52 @@ import { db } from "@shared/db/connection";
 import { calculatePagination } from "@shared/db/utils";
 import { withDbErrorHandling } from "@shared/db/dbErrorHandler";
 import { DatabaseError, NotFoundError } from "@shared/errors";
+import {
+  resolveRolePermissions,
+  type OrganizationPermission,
+} from "@shared/constants/organization-permissions";
 import type { NewOrganization } from "@/validations/organization.validation";
+import type {
+  OrganizationMemberDetails,
+  OrganizationMembersFilters,
+  OrganizationRole,
+} from "@/validations/organizationMember.validation";
 import type { OrganizationsRepositoryPort } from "@/modules/organizations";
 
+const memberUserColumns = {
+  id: true,
+  fullName: true,
+  email: true,
+  emailVerified: true,
+  status: true,
+} as const;
+
+type MemberWithUser = typeof organizationMembers.$inferSelect & {
+  user: {
+    fullName: string;
+    email: string;
+    emailVerified: boolean;
+    status: string;
+  };
+};
+
+/** Flattens a member row so the user details sit at the top level. */
+function toMemberDetails(member: MemberWithUser): OrganizationMemberDetails {
+  return {
+    id: member.id,
+    organizationId: member.organizationId,
+    userId: member.userId,
+    role: member.role,
+    isActive: member.isActive,
+    createdAt: member.createdAt,
+    updatedAt: member.updatedAt,
+    memberName: member.user.fullName,
+    memberEmail: member.user.email,
+    memberEmailVerified: member.user.emailVerified,
+    memberStatus: member.user.status,
+  };
+}
+
 /**
  * Repository class for managing organization CRUD and membership operations.
  * Does NOT include invitation or employer-facing application methods
@@ -56,15 +100,7 @@ export class OrganizationsRepository
         with: {
           members: {
             with: {
-              user: {
-                columns: {
-                  id: true,
-                  fullName: true,
-                  email: true,
-                  emailVerified: true,
-                  status: true,
-                },
-              },
+              user: { columns: memberUserColumns },
             },
           },
         },
@@ -77,19 +113,7 @@ export class OrganizationsRepository
       // flatten members to include user details at the top level
       return {
         ...organization,
-        members: organization.members.map((member) => ({
-          id: member.id,
-          organizationId: member.organizationId,
-          userId: member.userId,
-          role: member.role,
-          isActive: member.isActive,
-          createdAt: member.createdAt,
-          updatedAt: member.updatedAt,
-          memberName: member.user.fullName,
-          memberEmail: member.user.email,
-          memberEmailVerified: member.user.emailVerified,
-          memberStatus: member.user.status,
-        })),
+        members: organization.members.map(toMemberDetails),
       };
     });
   }
@@ -238,56 +262,51 @@ export class OrganizationsRepository
   }
 
   /**
-   * Checks if a user can post jobs based on their organization memberships.
-   * @param userId The ID of the user.
-   * @returns True if the user can post jobs, false otherwise.
-   */
-  async canPostJobs(userId: number): Promise<boolean> {
-    return withDbErrorHandling(async () => {
-      const memberships = await db.query.organizationMembers.findMany({
-        where: and(
-          eq(organizationMembers.userId, userId),
-          eq(organizationMembers.isActive, true),
-        ),
-        with: {
-          organization: true,
-        },
-      });
-
-      return memberships.some((m) =>
-        ["owner", "admin", "recruiter"].includes(m.role),
-      );
-    });
-  }
-
-  /**
-   * Checks if a user can reject job applications for a specific organization.
-   * @param userId The ID of the user.
+   * Retrieves the active members of an organization whose role grants a
+   * permission, according to the organization's permission matrix.
    * @param organizationId The ID of the organization.
-   * @returns True if the user can reject applications, false otherwise.
+   * @param permission The permission members must hold.
+   * @returns The matching members' contact details.
    */
-  async canRejectJobApplications(
-    userId: number,
+  async findMembersWithPermission(
     organizationId: number,
-  ): Promise<boolean> {
-    const memberships = await withDbErrorHandling(async () =>
-      db.query.organizationMembers.findMany({
-        where: and(
-          eq(organizationMembers.userId, userId),
-          eq(organizationMembers.organizationId, organizationId),
-          eq(organizationMembers.isActive, true),
-        ),
-        with: {
-          organization: true,
-        },
-      }),
-    );
+    permission: OrganizationPermission,
+  ): Promise<{ userId: number; email: string; fullName: string }[]> {
+    return withDbErrorHandling(async () => {
+      const members = await db
+        .select({
+          userId: user.id,
+          email: user.email,
+          fullName: user.fullName,
+          role: organizationMembers.role,
+          customized: organizationRolePermissions.permissions,
+        })
+        .from(organizationMembers)
+        .innerJoin(user, eq(organizationMembers.userId, user.id))
+        .leftJoin(
+          organizationRolePermissions,
+          and(
+            eq(
+              organizationRolePermissions.organizationId,
+              organizationMembers.organizationId,
+            ),
+            eq(organizationRolePermissions.role, organizationMembers.role),
+          ),
+        )
+        .where(
+          and(
+            eq(organizationMembers.organizationId, organizationId),
+            eq(organizationMembers.isActive, true),
+            eq(user.status, "active"),
+          ),
+        );
 
-    return memberships.some(
-      (m) =>
-        ["active", "trial"].includes(m.organization?.subscriptionStatus) &&
-        ["owner", "admin"].includes(m.role),
-    );
+      return members
+        .filter((m) =>
+          resolveRolePermissions(m.role, m.customized).includes(permission),
+        )
+        .map(({ userId, email, fullName }) => ({ userId, email, fullName }));
+    });
   }
 
   /**
@@ -398,24 +417,17 @@ export class OrganizationsRepository
   }
 
   /**
-   * Checks if a user has `delete` permission for an organization.
-   * @param userId The ID of the user.
+   * Checks whether platform staff have suspended an organization.
    * @param orgId The ID of the organization.
-   * @returns True if the user has `delete` permission, false otherwise.
+   * @returns True if the organization is suspended, false otherwise.
    */
-  async hasDeletePermission(userId: number, orgId: number): Promise<boolean> {
+  async isOrganizationSuspended(orgId: number): Promise<boolean> {
     return await withDbErrorHandling(async () => {
-      const member = await db.query.organizationMembers.findFirst({
-        where: and(
-          eq(organizationMembers.userId, userId),
-          eq(organizationMembers.organizationId, orgId),
-          eq(organizationMembers.isActive, true),
-        ),
+      const org = await db.query.organizations.findFirst({
+        where: eq(organizations.id, orgId),
+        columns: { status: true },
       });
-
-      if (!member) return false;
-
-      return ["owner", "admin"].includes(member.role);
+      return org?.status === "suspended";
     });
   }
 
@@ -524,4 +536,155 @@ export class OrganizationsRepository
         );
     });
   }
+
+  /**
+   * Lists the members of an organization with their user details.
+   * @param organizationId The ID of the organization.
+   * @param filters Optional role and active/inactive filters.
+   * @returns The flattened members, oldest first.
+   */
+  async findMembers(
+    organizationId: number,
+    filters: OrganizationMembersFilters = {},
+  ): Promise<OrganizationMemberDetails[]> {
+    return await withDbErrorHandling(async () => {
+      const conditions = [
+        eq(organizationMembers.organizationId, organizationId),
+      ];
+      if (filters.role) {
+        conditions.push(eq(organizationMembers.role, filters.role));
+      }
+      if (filters.status) {
+        conditions.push(
+          eq(organizationMembers.isActive, filters.status === "active"),
+        );
+      }
+
+      const members = await db.query.organizationMembers.findMany({
+        where: and(...conditions),
+        with: { user: { columns: memberUserColumns } },
+        orderBy: [asc(organizationMembers.createdAt)],
+      });
+
+      return members.map(toMemberDetails);
+    });
+  }
+
+  /**
+   * Finds a member of an organization by membership ID.
+   * @param organizationId The ID of the organization.
+   * @param memberId The ID of the membership record.
+   * @returns The flattened member, or null when it is not in the organization.
+   */
+  async findMemberById(
+    organizationId: number,
+    memberId: number,
+  ): Promise<OrganizationMemberDetails | null> {
+    return await withDbErrorHandling(async () => {
+      const member = await db.query.organizationMembers.findFirst({
+        where: and(
+          eq(organizationMembers.id, memberId),
+          eq(organizationMembers.organizationId, organizationId),
+        ),
+        with: { user: { columns: memberUserColumns } },
+      });
+
+      return member ? toMemberDetails(member) : null;
+    });
+  }
+
+  /**
+   * Updates the role or active flag of an organization member.
+   * @param organizationId The ID of the organization.
+   * @param memberId The ID of the membership record.
+   * @param data The fields to update.
+   * @returns The updated member.
+   */
+  async updateMember(
+    organizationId: number,
+    memberId: number,
+    data: { role?: OrganizationRole; isActive?: boolean },
+  ): Promise<OrganizationMemberDetails> {
+    return await withDbErrorHandling(async () => {
+      await db
+        .update(organizationMembers)
+        .set(data)
+        .where(
+          and(
+            eq(organizationMembers.id, memberId),
+            eq(organizationMembers.organizationId, organizationId),
+          ),
+        );
+
+      const member = await this.findMemberById(organizationId, memberId);
+      if (!member) {
+        throw new NotFoundError("Organization member", memberId);
+      }
+
+      return member;
+    });
+  }
+
+  /**
+   * Removes a member from an organization.
+   * @param organizationId The ID of the organization.
+   * @param memberId The ID of the membership record.
+   * @returns True if a membership was deleted.
+   */
+  async deleteMember(organizationId: number, memberId: number) {
+    return await withDbErrorHandling(async () => {
+      const [result] = await db
+        .delete(organizationMembers)
+        .where(
+          and(
+            eq(organizationMembers.id, memberId),
+            eq(organizationMembers.organizationId, organizationId),
+          ),
+        );
+
+      return result.affectedRows > 0;
+    });
+  }
+
+  /**
+   * Makes another member the owner and demotes the current owner to admin,
+   * in a single transaction.
+   * @param organizationId The ID of the organization.
+   * @param fromMemberId The membership ID of the current owner.
+   * @param toMemberId The membership ID of the new owner.
+   */
+  async transferOwnership(
+    organizationId: number,
+    fromMemberId: number,
+    toMemberId: number,
+  ): Promise<void> {
+    await withDbErrorHandling(
+      async () =>
+        await db.transaction(async (tx) => {
+          const inOrganization = (memberId: number) =>
+            and(
+              eq(organizationMembers.id, memberId),
+              eq(organizationMembers.organizationId, organizationId),
+            );
+
+          const [promoted] = await tx
+            .update(organizationMembers)
+            .set({ role: "owner" })
+            .where(inOrganization(toMemberId));
+          const [demoted] = await tx
+            .update(organizationMembers)
+            .set({ role: "admin" })
+            .where(
+              and(
+                inOrganization(fromMemberId),
+                eq(organizationMembers.role, "owner"),
+              ),
+            );
+
+          if (promoted.affectedRows === 0 || demoted.affectedRows === 0) {
+            throw new DatabaseError("Failed to transfer ownership");
+          }
+        }),
+    );
+  }
 }
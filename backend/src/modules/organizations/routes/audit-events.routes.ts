@@ -0,0 +1,38 @@
+import { Router, type RequestHandler } from "express";
+
+import type { AuditEventsController } from "../controllers/audit-events.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import { getOrganizationAuditEventsSchema } from "@/validations/auditEvent.validation";
+
+export function createAuditEventsRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    "requireAdminOrOwnerRole" | "ensureIsOrganizationMember"
+  >;
+  controller: AuditEventsController;
+}): Router {
+  const router = Router();
+
+  /**
+   * Lists the organization's audit events, newest first.
+   * Requires authentication and owner role. Not cached: the log must
+   * reflect events as soon as they are written.
+   * @route GET /:organizationId/audit-events
+   */
+  router.get(
+    "/:organizationId/audit-events",
+    authenticate,
+    orgGuards.requireAdminOrOwnerRole(["owner"]),
+    orgGuards.ensureIsOrganizationMember,
+    validate(getOrganizationAuditEventsSchema),
+    controller.getOrganizationAuditEvents,
+  );
+
+  return router;
+}
@@ -1,31 +1,39 @@
 import { Router, type RequestHandler } from "express";
 
 import type { CandidateSearchController } from "../controllers/candidate-search.controller";
+import type { CandidateProfileController } from "../controllers/candidate-profile.controller";
 import type { OrganizationsGuards } from "@/modules/organizations";
 import validate from "@/middleware/validation.middleware";
 import { cacheMiddleware } from "@/middleware/cache.middleware";
 import { pathKey } from "@shared/infrastructure/cache-keys";
 import { auditRead } from "@/middleware/audit-read.middleware";
-import { searchCandidatesSchema } from "@/validations/candidate-search.validation";
+import {
+  getCandidateDetailSchema,
+  inviteCandidateToApplySchema,
+  searchCandidatesSchema,
+} from "@/validations/candidate-search.validation";
 
 export function createCandidateSearchRoutes({
   authenticate,
   orgGuards,
   controller,
+  profileController,
 }: {
   authenticate: RequestHandler;
-  orgGuards: Pick<OrganizationsGuards, "requireJobPostingRole">;
+  orgGuards: Pick<OrganizationsGuards, "requirePermission" | "requireFeature">;
   controller: CandidateSearchController;
+  profileController: CandidateProfileController;
 }): Router {
   const router = Router();
 
   /**
    * Searches public candidate profiles by skill overlap + optional filters.
-   * Employer-facing — requires a job-posting role in ≥1 organization.
+   * Employer-facing — requires a job-posting role in ≥1 organization whose
+   * plan includes candidate search.
    *
    * Cache is org-agnostic and shared across employers (keyed on query params
    * only). Safe because the response contains no org- or user-scoped data and
-   * `requireJobPostingRole` runs before the cache middleware. An explicit
+   * `requirePermission` and `requireFeature` run before the cache middleware. An explicit
    * `keyGenerator` is required because the default key appends `:user:<id>`
    * once `authenticate` populates `req.userId`, which would silently fragment
    * this shared cache per employer.
@@ -35,12 +43,48 @@ export function createCandidateSearchRoutes({
   router.get(
     "/candidates/search",
     authenticate,
-    orgGuards.requireJobPostingRole(),
+    orgGuards.requirePermission("candidates.search"),
+    orgGuards.requireFeature("candidateSearch"),
     auditRead("read.profile.cross_user", () => ({ type: "candidate_search" })),
     validate(searchCandidatesSchema),
     cacheMiddleware({ ttl: 300, keyGenerator: pathKey }),
     controller.searchCandidates,
   );
 
+  /**
+   * Returns a candidate's full public profile and the organization's jobs
+   * they were already invited to. Private profiles respond 404. Not cached:
+   * a candidate can hide their profile at any time.
+   *
+   * @route GET /:organizationId/candidates/:userId
+   */
+  router.get(
+    "/:organizationId/candidates/:userId",
+    authenticate,
+    orgGuards.requirePermission("candidates.search"),
+    orgGuards.requireFeature("candidateSearch"),
+    auditRead("read.profile.cross_user", (req) => ({
+      type: "candidate",
+      id: String(req.params.userId),
+      organizationId: Number(req.params.organizationId),
+    })),
+    validate(getCandidateDetailSchema),
+    profileController.getCandidateDetail,
+  );
+
+  /**
+   * Emails a candidate a link to one of the organization's published jobs.
+   *
+   * @route POST /:organizationId/candidates/:userId/invitations
+   */
+  router.post(
+    "/:organizationId/candidates/:userId/invitations",
+    authenticate,
+    orgGuards.requirePermission("candidates.search"),
+    orgGuards.requireFeature("candidateSearch"),
+    validate(inviteCandidateToApplySchema),
+    profileController.inviteToApply,
+  );
+
   return router;
 }
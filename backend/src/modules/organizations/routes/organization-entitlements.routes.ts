@@ -0,0 +1,33 @@
+import { Router, type RequestHandler } from "express";
+
+import type { OrganizationEntitlementsController } from "../controllers/organization-entitlements.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import { getOrganizationUsageSchema } from "@/validations/organizationEntitlement.validation";
+
+/**
+ * Creates routes for an organization's plan usage. Any member can read it.
+ * Not cached: posting a job changes the counts immediately.
+ */
+export function createOrganizationEntitlementsRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<OrganizationsGuards, "ensureIsOrganizationMember">;
+  controller: OrganizationEntitlementsController;
+}): Router {
+  const router = Router();
+
+  // GET /:organizationId/usage
+  router.get(
+    "/:organizationId/usage",
+    authenticate,
+    validate(getOrganizationUsageSchema),
+    orgGuards.ensureIsOrganizationMember,
+    controller.getUsage,
+  );
+
+  return router;
+}
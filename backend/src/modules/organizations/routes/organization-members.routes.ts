@@ -0,0 +1,114 @@
+import { Router, type RequestHandler } from "express";
+
+import type { OrganizationMembersController } from "../controllers/organization-members.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import {
+  cacheMiddleware,
+  invalidateCacheMiddleware,
+} from "@/middleware/cache.middleware";
+import { cacheKeys } from "@shared/infrastructure/cache-keys";
+import {
+  listOrganizationMembersSchema,
+  removeOrganizationMemberSchema,
+  transferOrganizationOwnershipSchema,
+  updateOrganizationMemberRoleSchema,
+  updateOrganizationMemberStatusSchema,
+} from "@/validations/organizationMember.validation";
+
+export function createOrganizationMembersRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    | "requireAdminOrOwnerRole"
+    | "ensureIsOrganizationMember"
+    | "requireMemberManagementPermission"
+  >;
+  controller: OrganizationMembersController;
+}): Router {
+  const router = Router();
+
+  /**
+   * Lists the organization's members.
+   * Requires authentication and organization membership.
+   * @route GET /:organizationId/members
+   */
+  router.get(
+    "/:organizationId/members",
+    authenticate,
+    validate(listOrganizationMembersSchema),
+    orgGuards.ensureIsOrganizationMember,
+    cacheMiddleware({ ttl: 300 }),
+    controller.listMembers,
+  );
+
+  /**
+   * Changes a member's role.
+   * Requires an owner or admin ranked above both the current and new role.
+   * @route PATCH /:organizationId/members/:memberId/role
+   */
+  router.patch(
+    "/:organizationId/members/:memberId/role",
+    authenticate,
+    validate(updateOrganizationMemberRoleSchema),
+    orgGuards.requireMemberManagementPermission(),
+    // `organizations` prefix glob covers the member list and org detail keys.
+    invalidateCacheMiddleware(() => cacheKeys.organizations),
+    invalidateCacheMiddleware(() => cacheKeys.userOrganizations),
+    controller.changeMemberRole,
+  );
+
+  /**
+   * Deactivates or reactivates a member.
+   * Requires an owner or admin ranked above the member.
+   * @route PATCH /:organizationId/members/:memberId/status
+   */
+  router.patch(
+    "/:organizationId/members/:memberId/status",
+    authenticate,
+    validate(updateOrganizationMemberStatusSchema),
+    orgGuards.requireMemberManagementPermission(),
+    invalidateCacheMiddleware(() => cacheKeys.organizations),
+    invalidateCacheMiddleware(() => cacheKeys.userOrganizations),
+    controller.updateMemberStatus,
+  );
+
+  /**
+   * Removes a member from the organization.
+   * Requires an owner or admin ranked above the member; any member may
+   * remove themselves.
+   * @route DELETE /:organizationId/members/:memberId
+   */
+  router.delete(
+    "/:organizationId/members/:memberId",
+    authenticate,
+    validate(removeOrganizationMemberSchema),
+    orgGuards.requireMemberManagementPermission({ allowSelf: true }),
+    invalidateCacheMiddleware(() => cacheKeys.organizations),
+    invalidateCacheMiddleware(() => cacheKeys.userOrganizations),
+    controller.removeMember,
+  );
+
+  /**
+   * Transfers ownership to another active member. The previous owner
+   * becomes an admin.
+   * Requires authentication and owner role.
+   * @route POST /:organizationId/ownership-transfer
+   */
+  router.post(
+    "/:organizationId/ownership-transfer",
+    authenticate,
+    orgGuards.requireAdminOrOwnerRole(["owner"]),
+    validate(transferOrganizationOwnershipSchema),
+    orgGuards.ensureIsOrganizationMember,
+    invalidateCacheMiddleware(() => cacheKeys.organizations),
+    invalidateCacheMiddleware(() => cacheKeys.userOrganizations),
+    controller.transferOwnership,
+  );
+
+  return router;
+}
@@ -0,0 +1,62 @@
+import { Router, type RequestHandler } from "express";
+
+import type { OrganizationPermissionsController } from "../controllers/organization-permissions.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import {
+  getOrganizationPermissionsSchema,
+  resetOrganizationPermissionsSchema,
+  updateOrganizationPermissionsSchema,
+} from "@/validations/organizationPermission.validation";
+
+/**
+ * Creates routes for an organization's permission matrix. Any member can read
+ * it (the dashboard uses it to show what they can do); only owners can
+ * change it. Not cached: guards read the matrix on every request, so the
+ * API must match what is enforced.
+ */
+export function createOrganizationPermissionsRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    "requireAdminOrOwnerRole" | "ensureIsOrganizationMember"
+  >;
+  controller: OrganizationPermissionsController;
+}): Router {
+  const router = Router();
+
+  // GET /:organizationId/permissions
+  router.get(
+    "/:organizationId/permissions",
+    authenticate,
+    validate(getOrganizationPermissionsSchema),
+    orgGuards.ensureIsOrganizationMember,
+    controller.getPermissionMatrix,
+  );
+
+  // PUT /:organizationId/permissions
+  router.put(
+    "/:organizationId/permissions",
+    authenticate,
+    orgGuards.requireAdminOrOwnerRole(["owner"]),
+    validate(updateOrganizationPermissionsSchema),
+    orgGuards.ensureIsOrganizationMember,
+    controller.updatePermissionMatrix,
+  );
+
+  // DELETE /:organizationId/permissions
+  router.delete(
+    "/:organizationId/permissions",
+    authenticate,
+    orgGuards.requireAdminOrOwnerRole(["owner"]),
+    validate(resetOrganizationPermissionsSchema),
+    orgGuards.ensureIsOrganizationMember,
+    controller.resetPermissionMatrix,
+  );
+
+  return router;
+}
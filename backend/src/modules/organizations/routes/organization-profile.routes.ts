@@ -0,0 +1,60 @@
+import { Router, type RequestHandler } from "express";
+
+import type { OrganizationProfileController } from "../controllers/organization-profile.controller";
+import validate from "@/middleware/validation.middleware";
+import {
+  followOrganizationSchema,
+  getOrganizationProfileSchema,
+} from "@/validations/organizationProfile.validation";
+
+/**
+ * Creates routes for public organization profiles and following
+ * organizations. The profile is not cached: it reports whether the signed-in
+ * visitor follows the organization.
+ */
+export function createOrganizationProfileRoutes({
+  authenticate,
+  optionalAuthenticate,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  optionalAuthenticate: RequestHandler;
+  controller: OrganizationProfileController;
+}): Router {
+  const router = Router();
+
+  /**
+   * Retrieves an organization's public profile with its open roles.
+   * @route GET /:organizationId/profile
+   */
+  router.get(
+    "/:organizationId/profile",
+    optionalAuthenticate,
+    validate(getOrganizationProfileSchema),
+    controller.getProfile,
+  );
+
+  /**
+   * Follows an organization to be emailed about its new jobs.
+   * @route POST /:organizationId/follow
+   */
+  router.post(
+    "/:organizationId/follow",
+    authenticate,
+    validate(followOrganizationSchema),
+    controller.follow,
+  );
+
+  /**
+   * Stops following an organization.
+   * @route DELETE /:organizationId/follow
+   */
+  router.delete(
+    "/:organizationId/follow",
+    authenticate,
+    validate(followOrganizationSchema),
+    controller.unfollow,
+  );
+
+  return router;
+}
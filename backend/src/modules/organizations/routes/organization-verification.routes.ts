@@ -0,0 +1,56 @@
+import { Router, type RequestHandler } from "express";
+
+import type { OrganizationVerificationController } from "../controllers/organization-verification.controller";
+import type { OrganizationsGuards } from "@/modules/organizations";
+import validate from "@/middleware/validation.middleware";
+import { uploadMiddleware } from "@/middleware/multer.middleware";
+import {
+  getOrganizationVerificationSchema,
+  submitOrganizationVerificationSchema,
+} from "@/validations/organizationVerification.validation";
+
+/**
+ * Creates routes for an organization's verification. Any member can read
+ * the verified state; only owners submit documents. Not cached: a staff
+ * decision changes the state at any time.
+ */
+export function createOrganizationVerificationRoutes({
+  authenticate,
+  orgGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  orgGuards: Pick<
+    OrganizationsGuards,
+    "ensureIsOrganizationMember" | "requireAdminOrOwnerRole"
+  >;
+  controller: OrganizationVerificationController;
+}): Router {
+  const router = Router();
+
+  // GET /:organizationId/verification
+  router.get(
+    "/:organizationId/verification",
+    authenticate,
+    validate(getOrganizationVerificationSchema),
+    orgGuards.ensureIsOrganizationMember,
+    controller.getVerification,
+  );
+
+  /**
+   * Submits a nonprofit registration and/or EIN letter for review. The
+   * documents are uploaded asynchronously by the file upload worker.
+   *
+   * @route POST /:organizationId/verification
+   */
+  router.post(
+    "/:organizationId/verification",
+    authenticate,
+    orgGuards.requireAdminOrOwnerRole(["owner"]),
+    uploadMiddleware.organizationVerification,
+    validate(submitOrganizationVerificationSchema),
+    controller.submitVerification,
+  );
+
+  return router;
+}
@@ -0,0 +1,88 @@
+import { Router, type RequestHandler } from "express";
+
+import type { OrganizationVerificationController } from "../controllers/organization-verification.controller";
+import type { IdentityGuards } from "@/modules/identity";
+import validate from "@/middleware/validation.middleware";
+import { auditRead } from "@/middleware/audit-read.middleware";
+import {
+  approveVerificationRequestSchema,
+  getVerificationReviewSchema,
+  listVerificationQueueSchema,
+  rejectVerificationRequestSchema,
+} from "@/validations/organizationVerification.validation";
+
+/**
+ * Organization verification review routes for platform staff, mounted
+ * under the back office. Every route requires the staff platform role.
+ * Nothing is cached: staff must see the queue as it is.
+ */
+export function createVerificationReviewRoutes({
+  authenticate,
+  identityGuards,
+  controller,
+}: {
+  authenticate: RequestHandler;
+  identityGuards: Pick<IdentityGuards, "requirePlatformStaff">;
+  controller: OrganizationVerificationController;
+}): Router {
+  const router = Router();
+
+  /**
+   * Lists verification requests, oldest pending request first.
+   *
+   * @route GET /queue
+   */
+  router.get(
+    "/queue",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", () => ({ type: "organization_verification" })),
+    validate(listVerificationQueueSchema),
+    controller.getQueue,
+  );
+
+  /**
+   * Returns a request with its supporting documents.
+   *
+   * @route GET /queue/:requestId
+   */
+  router.get(
+    "/queue/:requestId",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", (req) => ({
+      type: "organization_verification",
+      id: String(req.params.requestId),
+    })),
+    validate(getVerificationReviewSchema),
+    controller.getRequest,
+  );
+
+  /**
+   * Marks the organization verified and reindexes it for search.
+   *
+   * @route POST /queue/:requestId/approve
+   */
+  router.post(
+    "/queue/:requestId/approve",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(approveVerificationRequestSchema),
+    controller.approve,
+  );
+
+  /**
+   * Declines the request with a reason shown to the organization's owners.
+   *
+   * @route POST /queue/:requestId/reject
+   */
+  router.post(
+    "/queue/:requestId/reject",
+    authenticate,
+    identityGuards.requirePlatformStaff,
+    validate(rejectVerificationRequestSchema),
+    controller.reject,
+  );
+
+  return router;
+}
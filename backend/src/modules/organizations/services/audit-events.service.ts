@@ -0,0 +1,50 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import { AppError, DatabaseError } from "@shared/errors";
+import type { AuditEventsRepositoryPort } from "../ports/audit-events-repository.port";
+import type { AuditEventsServicePort } from "../ports/audit-events-service.port";
+import type { OrganizationAuditEventsQuery } from "@/validations/auditEvent.validation";
+
+export class AuditEventsService
+  extends BaseService
+  implements AuditEventsServicePort
+{
+  constructor(
+    private auditEventsRepository: Pick<
+      AuditEventsRepositoryPort,
+      "findOrganizationAuditEvents"
+    >,
+  ) {
+    super();
+  }
+
+  /**
+   * Lists the audit events about the organization's resources, newest first.
+   */
+  async getOrganizationAuditEvents(
+    organizationId: number,
+    query: OrganizationAuditEventsQuery,
+  ) {
+    try {
+      const { page, limit, from, to, ...filters } = query;
+
+      const result =
+        await this.auditEventsRepository.findOrganizationAuditEvents(
+          organizationId,
+          {
+            ...filters,
+            from: from ? new Date(from) : undefined,
+            to: to ? new Date(to) : undefined,
+          },
+          { page, limit },
+        );
+
+      return ok(result);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve audit events"));
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import {
+  AppError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+} from "@shared/errors";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import logger from "@shared/logger";
+
+import type { CandidateProfileServicePort } from "@/modules/organizations/ports/candidate-profile-service.port";
+import type { CandidateProfileQueryPort } from "@/modules/organizations/ports/candidate-profile-query.port";
+import type { OutreachJobQueryPort } from "@/modules/organizations/ports/outreach-job-query.port";
+import type { CandidateOutreachRepositoryPort } from "@/modules/organizations/ports/candidate-outreach-repository.port";
+
+export class CandidateProfileService
+  extends BaseService
+  implements CandidateProfileServicePort
+{
+  constructor(
+    private candidateProfileQuery: CandidateProfileQueryPort,
+    private outreachJobQuery: OutreachJobQueryPort,
+    private outreachRepository: CandidateOutreachRepositoryPort,
+  ) {
+    super();
+  }
+
+  async getCandidateDetail(organizationId: number, candidateId: number) {
+    try {
+      // Private profiles are reported as missing so their existence is not leaked
+      const candidate =
+        await this.candidateProfileQuery.findPublicCandidate(candidateId);
+      if (!candidate) {
+        return fail(new NotFoundError("Candidate", candidateId));
+      }
+
+      const invitedJobIds = await this.outreachRepository.findInvitedJobIds(
+        organizationId,
+        candidateId,
+      );
+
+      return ok({ ...candidate.profile, invitedJobIds });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      logger.error(error, "Failed to load candidate profile");
+      return fail(new DatabaseError("Failed to load candidate profile"));
+    }
+  }
+
+  async inviteToApply(
+    organizationId: number,
+    candidateId: number,
+    senderId: number,
+    invitation: { jobId: number; message?: string },
+  ) {
+    try {
+      const candidate =
+        await this.candidateProfileQuery.findPublicCandidate(candidateId);
+      if (!candidate) {
+        return fail(new NotFoundError("Candidate", candidateId));
+      }
+
+      const job = await this.outreachJobQuery.findJobForOutreach(
+        invitation.jobId,
+      );
+      if (!job || job.employerId !== organizationId) {
+        return fail(new NotFoundError("Job", invitation.jobId));
+      }
+      if (job.status !== "published") {
+        return fail(
+          new ValidationError(
+            "Candidates can only be invited to published jobs",
+          ),
+        );
+      }
+
+      if (await this.outreachRepository.hasInvited(job.id, candidateId)) {
+        return fail(
+          new ConflictError("This candidate was already invited to this job"),
+        );
+      }
+
+      const message = invitation.message || null;
+      const outreach = await this.outreachRepository.createOutreach({
+        organizationId,
+        candidateId,
+        jobId: job.id,
+        sentBy: senderId,
+        message,
+      });
+
+      await queueService.addJob(QUEUE_NAMES.EMAIL_QUEUE, "sendJobInvitation", {
+        userId: candidateId,
+        email: candidate.email,
+        fullName: candidate.profile.name,
+        jobId: job.id,
+        jobTitle: job.title,
+        organizationName: job.employerName,
+        message,
+      });
+
+      return ok(outreach);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      logger.error(error, "Failed to invite candidate to apply");
+      return fail(new DatabaseError("Failed to invite candidate to apply"));
+    }
+  }
+}
@@ -1,10 +1,12 @@
 import { BaseService } from "@shared/base/base.service";
 import { fail, ok } from "@shared/result";
-import { AppError } from "@shared/errors";
+import { AppError, ValidationError } from "@shared/errors";
 import { TypesenseQueryBuilder } from "@shared/infrastructure/typesense.service/typesense-queryBuilder";
+import { geoDistanceSort } from "@shared/infrastructure/typesense.service/geo-search";
 import { buildPaginationMeta } from "@shared/infrastructure/typesense.service/build-search-pagination";
 import logger from "@shared/logger";
 
+import type { GeocoderPort, GeoPoint } from "@shared/ports/geocoder.port";
 import type {
   ProfileDocument,
   TypesenseProfileServicePort,
@@ -22,7 +24,10 @@ export class CandidateSearchService
   extends BaseService
   implements CandidateSearchServicePort
 {
-  constructor(private typesenseProfileService: TypesenseProfileServicePort) {
+  constructor(
+    private typesenseProfileService: TypesenseProfileServicePort,
+    private geocoder: GeocoderPort,
+  ) {
     super();
   }
 
@@ -38,18 +43,40 @@ export class CandidateSearchService
         limit,
         sortBy,
         sortOrder,
+        lat,
+        lng,
+        radius,
       } = filters;
 
+      let center: GeoPoint | null =
+        lat !== undefined && lng !== undefined ? { lat, lng } : null;
+      if (!center && radius !== undefined) {
+        center = await this.geocoder.geocode({ zipcode });
+        if (!center) {
+          return fail(
+            new ValidationError(
+              "Could not locate the search area for a radius search",
+            ),
+          );
+        }
+      }
+
       const queryBuilder = new TypesenseQueryBuilder()
         .addSingleFilter("isProfilePublic", true)
         .addSingleFilter("intent", "seeker")
-        .addSingleFilter("location", location)
-        // `zipCode` is indexed as a separate optional string field
-        // (migration `0006_add-zipcode-to-profiles`) so we can AND it into
-        // the filter independently of the tokenized `location` string.
-        .addSingleFilter("zipCode", zipcode)
         .addSingleFilter("openToWork", openToWork);
 
+      if (center && radius !== undefined) {
+        queryBuilder.addGeoRadiusFilter(center, radius);
+      } else {
+        queryBuilder
+          .addSingleFilter("location", location)
+          // `zipCode` is indexed as a separate optional string field
+          // (migration `0006_add-zipcode-to-profiles`) so we can AND it into
+          // the filter independently of the tokenized `location` string.
+          .addSingleFilter("zipCode", zipcode);
+      }
+
       if (minYearsExperience !== undefined) {
         queryBuilder.addRangeFilter(
           "yearsOfExperience",
@@ -73,7 +100,10 @@ export class CandidateSearchService
       const q = hasSkills ? skills.join(" ") : "*";
       const effectiveSortBy =
         !hasSkills && sortBy === "relevant" ? "recent" : sortBy;
-      const typesenseSortBy = this.resolveSortBy(effectiveSortBy, sortOrder);
+      const typesenseSortBy =
+        effectiveSortBy === "distance" && center
+          ? `${geoDistanceSort(center)}:asc`
+          : this.resolveSortBy(effectiveSortBy, sortOrder);
 
       const results =
         await this.typesenseProfileService.searchProfilesCollection({
@@ -112,7 +142,7 @@ export class CandidateSearchService
     sortOrder: SearchCandidatesSchema["query"]["sortOrder"],
   ): string | undefined {
     if (sortBy === "relevant") return undefined;
-    if (sortBy === "recent") return "updatedAt:desc";
+    if (sortBy === "recent" || sortBy === "distance") return "updatedAt:desc";
 
     const defaultOrder = sortBy === "name" ? "asc" : "desc";
     const order = sortOrder ?? defaultOrder;
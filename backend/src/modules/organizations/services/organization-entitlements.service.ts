@@ -0,0 +1,294 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import {
+  AppError,
+  DatabaseError,
+  PaymentRequiredError,
+  PlanUpgradeRequiredError,
+} from "@shared/errors";
+import {
+  SUBSCRIPTION_PLANS,
+  TRIAL_PERIOD_DAYS,
+  TRIAL_TIER,
+  findUpgradeTier,
+  higherTier,
+  isWithinLimit,
+  type SubscriptionPlan,
+  type SubscriptionStatus,
+  type SubscriptionTier,
+} from "@shared/constants/subscription-plans";
+import type { OrganizationsRepositoryPort } from "../ports/organizations-repository.port";
+import type { JobPostingUsageQueryPort } from "../ports/job-posting-usage-query.port";
+import type {
+  JobPostingChange,
+  OrganizationEntitlementsServicePort,
+  OrganizationFeature,
+} from "../ports/organization-entitlements-service.port";
+
+const DAY_MS = 86_400_000;
+
+interface SubscriptionState {
+  tier: SubscriptionTier;
+  status: SubscriptionStatus;
+  /** Tier whose entitlements apply right now. */
+  effectiveTier: SubscriptionTier;
+  isActive: boolean;
+  /** Tier a renewal would restore; null while the subscription is active. */
+  lapsedTier: SubscriptionTier | null;
+  subscriptionEndsAt: Date | null;
+  jobPostingLimit: number | null;
+}
+
+/** A denied request, phrased for the organization. */
+interface Denial {
+  /** Why the current plan falls short, e.g. "Your plan allows 1 active job posting." */
+  reason: string;
+  /** What an upgrade or renewal would let them do, e.g. "post more jobs". */
+  action: string;
+  details?: Record<string, unknown>;
+}
+
+const FEATURE_DENIALS: Record<OrganizationFeature, Denial> = {
+  candidateSearch: {
+    reason: "Candidate search is not included in your plan.",
+    action: "search candidates",
+  },
+};
+
+const formatTier = (tier: SubscriptionTier) =>
+  tier.charAt(0).toUpperCase() + tier.slice(1);
+
+export class OrganizationEntitlementsService
+  extends BaseService
+  implements OrganizationEntitlementsServicePort
+{
+  constructor(
+    private organizationsRepository: Pick<
+      OrganizationsRepositoryPort,
+      "findById"
+    >,
+    private jobPostingUsage: JobPostingUsageQueryPort,
+  ) {
+    super();
+  }
+
+  async getUsage(organizationId: number) {
+    try {
+      const subscription = await this.loadSubscription(organizationId);
+      const usage =
+        await this.jobPostingUsage.getJobPostingUsage(organizationId);
+      const plan = this.planFor(subscription.effectiveTier, subscription);
+
+      return ok({
+        tier: subscription.tier,
+        status: subscription.status,
+        effectiveTier: subscription.effectiveTier,
+        isSubscriptionActive: subscription.isActive,
+        subscriptionEndsAt: subscription.subscriptionEndsAt,
+        activeJobs: { used: usage.activeJobs, limit: plan.activeJobLimit },
+        featuredJobs: {
+          used: usage.featuredJobs,
+          limit: plan.featuredJobLimit,
+        },
+        features: { candidateSearch: plan.candidateSearch },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve organization usage"));
+    }
+  }
+
+  async checkJobPosting(organizationId: number, change: JobPostingChange) {
+    if (!change.activating && !change.featuring) {
+      return ok(null);
+    }
+
+    try {
+      const subscription = await this.loadSubscription(organizationId);
+      const usage =
+        await this.jobPostingUsage.getJobPostingUsage(organizationId);
+
+      if (change.activating) {
+        const limit = this.planFor(
+          subscription.effectiveTier,
+          subscription,
+        ).activeJobLimit;
+        const error = this.enforce(
+          subscription,
+          (plan) => isWithinLimit(usage.activeJobs, plan.activeJobLimit),
+          {
+            reason: `Your plan allows ${limit} active job posting${limit === 1 ? "" : "s"}.`,
+            action: "post more jobs",
+            details: { used: usage.activeJobs, limit },
+          },
+        );
+        if (error) return fail(error);
+      }
+
+      if (change.featuring) {
+        const limit = this.planFor(
+          subscription.effectiveTier,
+          subscription,
+        ).featuredJobLimit;
+        const error = this.enforce(
+          subscription,
+          (plan) => isWithinLimit(usage.featuredJobs, plan.featuredJobLimit),
+          {
+            reason:
+              limit === 0
+                ? "Featured listings are not included in your plan."
+                : `Your plan allows ${limit} featured job posting${limit === 1 ? "" : "s"}.`,
+            action: "feature more jobs",
+            details: { used: usage.featuredJobs, limit },
+          },
+        );
+        if (error) return fail(error);
+      }
+
+      return ok(null);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to check job posting limits"));
+    }
+  }
+
+  async checkFeature(organizationId: number, feature: OrganizationFeature) {
+    try {
+      const subscription = await this.loadSubscription(organizationId);
+      const error = this.enforce(
+        subscription,
+        (plan) => plan[feature],
+        FEATURE_DENIALS[feature],
+      );
+
+      return error ? fail(error) : ok(null);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to check plan features"));
+    }
+  }
+
+  /**
+   * Returns the error to surface when the effective plan does not allow the
+   * request: 402 when renewing the lapsed subscription would, 403 with the
+   * cheapest tier that would otherwise. Returns null when allowed.
+   */
+  private enforce(
+    subscription: SubscriptionState,
+    allows: (plan: SubscriptionPlan) => boolean,
+    denial: Denial,
+  ): AppError | null {
+    if (allows(this.planFor(subscription.effectiveTier, subscription))) {
+      return null;
+    }
+
+    const { lapsedTier, effectiveTier } = subscription;
+    if (lapsedTier && allows(this.planFor(lapsedTier, subscription))) {
+      return new PaymentRequiredError(
+        `Your organization's ${formatTier(lapsedTier)} subscription is no longer active. Renew it to ${denial.action}.`,
+        {
+          reason: "subscription_inactive",
+          currentTier: effectiveTier,
+          requiredTier: lapsedTier,
+          ...denial.details,
+        },
+      );
+    }
+
+    const requiredTier = findUpgradeTier(effectiveTier, (plan) =>
+      allows(this.withPostingLimit(plan, subscription)),
+    );
+    return new PlanUpgradeRequiredError(
+      requiredTier
+        ? `${denial.reason} Upgrade to the ${formatTier(requiredTier)} plan to ${denial.action}.`
+        : denial.reason,
+      {
+        reason: "plan_upgrade_required",
+        currentTier: effectiveTier,
+        requiredTier,
+        ...denial.details,
+      },
+    );
+  }
+
+  private planFor(
+    tier: SubscriptionTier,
+    subscription: SubscriptionState,
+  ): SubscriptionPlan {
+    return this.withPostingLimit(SUBSCRIPTION_PLANS[tier], subscription);
+  }
+
+  /**
+   * `organizations.jobPostingLimit` records custom deals: it can raise a
+   * plan's active posting limit but never lower it.
+   */
+  private withPostingLimit(
+    plan: SubscriptionPlan,
+    subscription: SubscriptionState,
+  ): SubscriptionPlan {
+    if (plan.activeJobLimit === null || !subscription.jobPostingLimit) {
+      return plan;
+    }
+    return {
+      ...plan,
+      activeJobLimit: Math.max(
+        plan.activeJobLimit,
+        subscription.jobPostingLimit,
+      ),
+    };
+  }
+
+  /**
+   * Resolves which tier currently applies. Trials get the trial tier until
+   * they end; cancelled subscriptions run to the end of the paid period;
+   * anything lapsed falls back to the free plan.
+   */
+  private async loadSubscription(
+    organizationId: number,
+  ): Promise<SubscriptionState> {
+    const organization =
+      await this.organizationsRepository.findById(organizationId);
+    const tier = organization.subscriptionTier;
+    const status = organization.subscriptionStatus;
+    const now = Date.now();
+
+    let paidTier = tier;
+    let subscriptionEndsAt = organization.subscriptionEndDate;
+    let isActive: boolean;
+
+    switch (status) {
+      case "trial":
+        paidTier = higherTier(tier, TRIAL_TIER);
+        subscriptionEndsAt ??= new Date(
+          organization.createdAt.getTime() + TRIAL_PERIOD_DAYS * DAY_MS,
+        );
+        isActive = subscriptionEndsAt.getTime() > now;
+        break;
+      case "active":
+        isActive = !subscriptionEndsAt || subscriptionEndsAt.getTime() > now;
+        break;
+      case "cancelled":
+        isActive = !!subscriptionEndsAt && subscriptionEndsAt.getTime() > now;
+        break;
+      case "expired":
+        isActive = false;
+        break;
+    }
+
+    return {
+      tier,
+      status,
+      effectiveTier: isActive ? paidTier : "free",
+      isActive,
+      lapsedTier: isActive || paidTier === "free" ? null : paidTier,
+      subscriptionEndsAt,
+      jobPostingLimit: organization.jobPostingLimit,
+    };
+  }
+}
@@ -0,0 +1,227 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import {
+  AppError,
+  ConflictError,
+  DatabaseError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "@shared/errors";
+import type { OrganizationsRepositoryPort } from "../ports/organizations-repository.port";
+import type { OrganizationMembersServicePort } from "../ports/organization-members-service.port";
+import type {
+  AssignableOrganizationRole,
+  OrganizationMembersFilters,
+} from "@/validations/organizationMember.validation";
+
+type MembersRepository = Pick<
+  OrganizationsRepositoryPort,
+  | "findMembers"
+  | "findMemberById"
+  | "findByContact"
+  | "updateMember"
+  | "deleteMember"
+  | "transferOwnership"
+>;
+
+/**
+ * Member management for an organization. Who may act on whom is decided by
+ * the organization guards; this service enforces the rules that hold
+ * regardless of the requester (e.g. an organization always keeps an owner).
+ */
+export class OrganizationMembersService
+  extends BaseService
+  implements OrganizationMembersServicePort
+{
+  constructor(private organizationsRepository: MembersRepository) {
+    super();
+  }
+
+  async listMembers(
+    organizationId: number,
+    filters: OrganizationMembersFilters,
+  ) {
+    try {
+      const members = await this.organizationsRepository.findMembers(
+        organizationId,
+        filters,
+      );
+      return ok(members);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve organization members"));
+    }
+  }
+
+  /**
+   * Changes a member's role. Owners cannot be demoted here; ownership
+   * moves through {@link transferOwnership}.
+   */
+  async changeMemberRole(
+    organizationId: number,
+    memberId: number,
+    role: AssignableOrganizationRole,
+  ) {
+    try {
+      const member = await this.organizationsRepository.findMemberById(
+        organizationId,
+        memberId,
+      );
+      if (!member) {
+        return fail(new NotFoundError("Organization member", memberId));
+      }
+      if (member.role === "owner") {
+        return fail(
+          new ConflictError(
+            "The owner's role cannot be changed. Transfer ownership instead.",
+          ),
+        );
+      }
+
+      const updated = await this.organizationsRepository.updateMember(
+        organizationId,
+        memberId,
+        { role },
+      );
+      return ok({ member: updated, previousRole: member.role });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to change member role"));
+    }
+  }
+
+  /**
+   * Deactivates or reactivates a member. Inactive members keep their
+   * membership record but fail every organization guard.
+   */
+  async updateMemberStatus(
+    organizationId: number,
+    memberId: number,
+    isActive: boolean,
+  ) {
+    try {
+      const member = await this.organizationsRepository.findMemberById(
+        organizationId,
+        memberId,
+      );
+      if (!member) {
+        return fail(new NotFoundError("Organization member", memberId));
+      }
+      if (member.role === "owner") {
+        return fail(new ConflictError("The owner cannot be deactivated"));
+      }
+
+      const updated = await this.organizationsRepository.updateMember(
+        organizationId,
+        memberId,
+        { isActive },
+      );
+      return ok(updated);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to update member status"));
+    }
+  }
+
+  /**
+   * Removes a member from the organization and returns the removed record.
+   */
+  async removeMember(organizationId: number, memberId: number) {
+    try {
+      const member = await this.organizationsRepository.findMemberById(
+        organizationId,
+        memberId,
+      );
+      if (!member) {
+        return fail(new NotFoundError("Organization member", memberId));
+      }
+      if (member.role === "owner") {
+        return fail(
+          new ConflictError(
+            "The owner cannot be removed. Transfer ownership first.",
+          ),
+        );
+      }
+
+      const deleted = await this.organizationsRepository.deleteMember(
+        organizationId,
+        memberId,
+      );
+      if (!deleted) {
+        return fail(new NotFoundError("Organization member", memberId));
+      }
+      return ok(member);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to remove organization member"));
+    }
+  }
+
+  /**
+   * Hands ownership to another active member. The previous owner stays in
+   * the organization as an admin.
+   */
+  async transferOwnership(
+    organizationId: number,
+    ownerUserId: number,
+    newOwnerMemberId: number,
+  ) {
+    try {
+      const owner = await this.organizationsRepository.findByContact(
+        ownerUserId,
+        organizationId,
+      );
+      if (owner.role !== "owner") {
+        return fail(
+          new ForbiddenError("Only the owner can transfer ownership"),
+        );
+      }
+
+      const target = await this.organizationsRepository.findMemberById(
+        organizationId,
+        newOwnerMemberId,
+      );
+      if (!target) {
+        return fail(new NotFoundError("Organization member", newOwnerMemberId));
+      }
+      if (target.id === owner.id || target.role === "owner") {
+        return fail(new ValidationError("This member is already an owner"));
+      }
+      if (!target.isActive) {
+        return fail(
+          new ValidationError("Ownership can only go to an active member"),
+        );
+      }
+
+      await this.organizationsRepository.transferOwnership(
+        organizationId,
+        owner.id,
+        target.id,
+      );
+
+      const [previousOwner, newOwner] = await Promise.all([
+        this.organizationsRepository.findMemberById(organizationId, owner.id),
+        this.organizationsRepository.findMemberById(organizationId, target.id),
+      ]);
+      if (!previousOwner || !newOwner) {
+        return fail(new DatabaseError("Failed to transfer ownership"));
+      }
+
+      return ok({ previousOwner, newOwner });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to transfer ownership"));
+    }
+  }
+}
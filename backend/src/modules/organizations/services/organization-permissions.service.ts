@@ -0,0 +1,128 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import { AppError, DatabaseError } from "@shared/errors";
+import {
+  CUSTOMIZABLE_ORGANIZATION_ROLES,
+  ORGANIZATION_PERMISSIONS,
+  resolveRolePermissions,
+  type OrganizationRoleName,
+} from "@shared/constants/organization-permissions";
+import type { OrganizationPermissionsRepositoryPort } from "../ports/organization-permissions-repository.port";
+import type { OrganizationPermissionsServicePort } from "../ports/organization-permissions-service.port";
+import type {
+  OrganizationPermissionMatrix,
+  UpdateOrganizationPermissionsInput,
+} from "@/validations/organizationPermission.validation";
+
+export class OrganizationPermissionsService
+  extends BaseService
+  implements OrganizationPermissionsServicePort
+{
+  constructor(
+    private permissionsRepository: OrganizationPermissionsRepositoryPort,
+  ) {
+    super();
+  }
+
+  /**
+   * Resolves the effective permissions of a role in an organization.
+   * Throws on database errors so guards can fail closed.
+   */
+  async getRolePermissions(organizationId: number, role: OrganizationRoleName) {
+    if (role === "owner") {
+      return resolveRolePermissions(role);
+    }
+
+    const customized =
+      await this.permissionsRepository.findByOrganizationIdAndRole(
+        organizationId,
+        role,
+      );
+    return resolveRolePermissions(role, customized);
+  }
+
+  async getPermissionMatrix(organizationId: number) {
+    try {
+      return ok(await this.buildMatrix(organizationId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to retrieve permissions"));
+    }
+  }
+
+  /**
+   * Replaces the permissions of the given roles. Roles left out keep their
+   * current set.
+   */
+  async updatePermissionMatrix(
+    organizationId: number,
+    data: UpdateOrganizationPermissionsInput,
+  ) {
+    try {
+      const roles = CUSTOMIZABLE_ORGANIZATION_ROLES.flatMap((role) => {
+        const permissions = data.roles[role];
+        // Store in catalogue order so the matrix reads the same everywhere
+        return permissions
+          ? [
+              {
+                role,
+                permissions: ORGANIZATION_PERMISSIONS.filter((p) =>
+                  permissions.includes(p),
+                ),
+              },
+            ]
+          : [];
+      });
+
+      await this.permissionsRepository.upsertForOrganization(
+        organizationId,
+        roles,
+      );
+
+      return ok(await this.buildMatrix(organizationId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to update permissions"));
+    }
+  }
+
+  /**
+   * Drops every customization so all roles use the default permissions.
+   */
+  async resetPermissionMatrix(organizationId: number) {
+    try {
+      await this.permissionsRepository.deleteForOrganization(organizationId);
+      return ok(await this.buildMatrix(organizationId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return this.handleError(error);
+      }
+      return fail(new DatabaseError("Failed to reset permissions"));
+    }
+  }
+
+  private async buildMatrix(
+    organizationId: number,
+  ): Promise<OrganizationPermissionMatrix> {
+    const customized =
+      await this.permissionsRepository.findByOrganizationId(organizationId);
+    const byRole = new Map(customized.map((c) => [c.role, c.permissions]));
+
+    return {
+      permissions: [...ORGANIZATION_PERMISSIONS],
+      roles: {
+        owner: resolveRolePermissions("owner"),
+        admin: resolveRolePermissions("admin", byRole.get("admin")),
+        recruiter: resolveRolePermissions("recruiter", byRole.get("recruiter")),
+        member: resolveRolePermissions("member", byRole.get("member")),
+      },
+      customizedRoles: CUSTOMIZABLE_ORGANIZATION_ROLES.filter((role) =>
+        byRole.has(role),
+      ),
+    };
+  }
+}
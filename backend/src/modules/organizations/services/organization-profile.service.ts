@@ -0,0 +1,129 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import { AppError, DatabaseError, NotFoundError } from "@shared/errors";
+import logger from "@shared/logger";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+
+import type { OrganizationProfileServicePort } from "@/modules/organizations/ports/organization-profile-service.port";
+import type { OrganizationProfileRepositoryPort } from "@/modules/organizations/ports/organization-profile-repository.port";
+
+/**
+ * Public organization profiles: the organization's mission, location and
+ * open roles, and seekers following it to hear about new jobs.
+ */
+export class OrganizationProfileService
+  extends BaseService
+  implements OrganizationProfileServicePort
+{
+  constructor(private profileRepository: OrganizationProfileRepositoryPort) {
+    super();
+  }
+
+  async getProfile(organizationId: number, viewerId?: number) {
+    try {
+      const organization =
+        await this.profileRepository.findPublicOrganization(organizationId);
+      if (!organization) {
+        return fail(new NotFoundError("Organization", organizationId));
+      }
+
+      const [openJobs, followerCount, isFollowing] = await Promise.all([
+        this.profileRepository.findOpenJobs(organizationId),
+        this.profileRepository.countFollowers(organizationId),
+        viewerId
+          ? this.profileRepository.isFollowing(organizationId, viewerId)
+          : false,
+      ]);
+
+      return ok({ ...organization, followerCount, isFollowing, openJobs });
+    } catch (error) {
+      return this.failWith(error, "Failed to load organization profile");
+    }
+  }
+
+  async follow(organizationId: number, userId: number) {
+    try {
+      const organization =
+        await this.profileRepository.findPublicOrganization(organizationId);
+      if (!organization) {
+        return fail(new NotFoundError("Organization", organizationId));
+      }
+
+      await this.profileRepository.follow(organizationId, userId);
+      return ok(await this.followState(organizationId, true));
+    } catch (error) {
+      return this.failWith(error, "Failed to follow organization");
+    }
+  }
+
+  async unfollow(organizationId: number, userId: number) {
+    try {
+      await this.profileRepository.unfollow(organizationId, userId);
+      return ok(await this.followState(organizationId, false));
+    } catch (error) {
+      return this.failWith(error, "Failed to unfollow organization");
+    }
+  }
+
+  async notifyFollowersOfJob(jobId: number) {
+    try {
+      const job = await this.profileRepository.findFollowedJob(jobId);
+      if (!job) {
+        return fail(new NotFoundError("Job", jobId));
+      }
+      // A job paused and published again was already announced
+      if (job.status !== "published" || job.followersNotifiedAt) {
+        return ok(0);
+      }
+
+      const followers = await this.profileRepository.findFollowerContacts(
+        job.organizationId,
+      );
+      const location = job.isRemote
+        ? "Remote"
+        : [job.city, job.state].filter(Boolean).join(", ");
+
+      for (const follower of followers) {
+        await queueService.addJob(
+          QUEUE_NAMES.EMAIL_QUEUE,
+          "sendFollowedOrganizationJob",
+          {
+            userId: follower.userId,
+            email: follower.email,
+            fullName: follower.fullName,
+            jobId: job.id,
+            jobTitle: job.title,
+            organizationId: job.organizationId,
+            organizationName: job.organizationName,
+            location,
+          },
+        );
+      }
+
+      await this.profileRepository.markFollowersNotified(jobId);
+      return ok(followers.length);
+    } catch (error) {
+      return this.failWith(error, "Failed to notify organization followers");
+    }
+  }
+
+  private async followState(organizationId: number, isFollowing: boolean) {
+    return {
+      organizationId,
+      isFollowing,
+      followerCount:
+        await this.profileRepository.countFollowers(organizationId),
+    };
+  }
+
+  private failWith(error: unknown, message: string) {
+    if (error instanceof AppError) {
+      return this.handleError(error);
+    }
+    logger.error(error, message);
+    return fail(new DatabaseError(message));
+  }
+}
@@ -0,0 +1,237 @@
+import { BaseService } from "@shared/base/base.service";
+import { fail, ok } from "@shared/result";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+} from "@shared/errors";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import { StorageFolder } from "@shared/constants/storage-folders";
+import logger from "@shared/logger";
+
+import type { OrganizationVerificationServicePort } from "@/modules/organizations/ports/organization-verification-service.port";
+import type { OrganizationVerificationRepositoryPort } from "@/modules/organizations/ports/organization-verification-repository.port";
+import type { OrganizationVerificationDocuments } from "@/modules/organizations/types/organizations.module.types";
+import type { EmployerIndexerJobData } from "@/modules/organizations/workers/typesense-employer-indexer.worker";
+import type { FileUploadJobData } from "@/validations/file.validation";
+import type {
+  SubmitOrganizationVerificationInput,
+  VerificationQueueQuery,
+  VerificationReview,
+} from "@/validations/organizationVerification.validation";
+
+/**
+ * Organization verification: owners submit supporting documents and
+ * platform staff approve or reject the request. Approval marks the
+ * organization verified and reindexes its employer document, which drives
+ * the verified badge and filter in job search.
+ */
+export class OrganizationVerificationService
+  extends BaseService
+  implements OrganizationVerificationServicePort
+{
+  constructor(
+    private verificationRepository: OrganizationVerificationRepositoryPort,
+  ) {
+    super();
+  }
+
+  async getVerification(organizationId: number) {
+    try {
+      const organization =
+        await this.verificationRepository.findOrganizationVerification(
+          organizationId,
+        );
+      if (!organization) {
+        return fail(new NotFoundError("Organization", organizationId));
+      }
+
+      const latestRequest =
+        await this.verificationRepository.findLatestRequest(organizationId);
+
+      return ok({
+        isVerified: organization.isVerified,
+        verifiedAt: organization.verifiedAt,
+        latestRequest,
+      });
+    } catch (error) {
+      return this.failWith(error, "Failed to load organization verification");
+    }
+  }
+
+  async submitVerification(
+    organizationId: number,
+    userId: number,
+    input: SubmitOrganizationVerificationInput,
+    documents: OrganizationVerificationDocuments,
+    correlationId: string,
+  ) {
+    const tempFiles: FileUploadJobData["tempFiles"] = [];
+    for (const fieldName of ["nonprofitRegistration", "einLetter"] as const) {
+      const file = documents[fieldName];
+      if (file) {
+        tempFiles.push({
+          originalname: file.originalname,
+          tempPath: file.path,
+          size: file.size,
+          mimetype: file.mimetype,
+          fieldName,
+        });
+      }
+    }
+    if (tempFiles.length === 0) {
+      return fail(
+        new BadRequestError("Upload a nonprofit registration or an EIN letter"),
+      );
+    }
+
+    try {
+      const organization =
+        await this.verificationRepository.findOrganizationVerification(
+          organizationId,
+        );
+      if (!organization) {
+        return fail(new NotFoundError("Organization", organizationId));
+      }
+      if (organization.isVerified) {
+        return fail(new ConflictError("This organization is already verified"));
+      }
+
+      const latest =
+        await this.verificationRepository.findLatestRequest(organizationId);
+      if (latest?.status === "pending") {
+        return fail(
+          new ConflictError("A verification request is already under review"),
+        );
+      }
+
+      const request = await this.verificationRepository.createRequest({
+        organizationId,
+        submittedBy: userId,
+        note: input.note || null,
+      });
+
+      await queueService.addJob<FileUploadJobData>(
+        QUEUE_NAMES.FILE_UPLOAD_QUEUE,
+        "uploadFile",
+        {
+          entityType: "organization_verification",
+          entityId: request.id.toString(),
+          mergeWithExisting: false,
+          tempFiles,
+          userId: userId.toString(),
+          folder: StorageFolder.ORGANIZATION_VERIFICATIONS,
+          correlationId,
+        },
+      );
+
+      return ok(request);
+    } catch (error) {
+      return this.failWith(error, "Failed to submit verification request");
+    }
+  }
+
+  async getQueue({ page, limit, ...filters }: VerificationQueueQuery) {
+    try {
+      return ok(
+        await this.verificationRepository.findRequests(filters, {
+          page,
+          limit,
+        }),
+      );
+    } catch (error) {
+      return this.failWith(error, "Failed to load the verification queue");
+    }
+  }
+
+  async getRequest(requestId: number) {
+    try {
+      const request =
+        await this.verificationRepository.findRequestById(requestId);
+      if (!request) {
+        return fail(new NotFoundError("Verification request", requestId));
+      }
+      return ok(request);
+    } catch (error) {
+      return this.failWith(error, "Failed to load verification request");
+    }
+  }
+
+  async approve(requestId: number, staffId: number, note?: string) {
+    try {
+      const request = await this.findPendingRequest(requestId);
+      if (request instanceof AppError) {
+        return fail(request);
+      }
+
+      await this.verificationRepository.decideRequest(requestId, {
+        status: "approved",
+        decidedBy: staffId,
+        decisionNote: note || null,
+      });
+
+      // Partial update: only the verified flag changes on the document
+      await queueService.addJob<EmployerIndexerJobData>(
+        QUEUE_NAMES.TYPESENSE_EMPLOYER_QUEUE,
+        "updateEmployerIndex",
+        {
+          id: request.organizationId.toString(),
+          name: request.organizationName,
+          isVerified: true,
+          correlationId: crypto.randomUUID(),
+        },
+      );
+
+      return await this.getRequest(requestId);
+    } catch (error) {
+      return this.failWith(error, "Failed to approve verification request");
+    }
+  }
+
+  async reject(requestId: number, staffId: number, reason: string) {
+    try {
+      const request = await this.findPendingRequest(requestId);
+      if (request instanceof AppError) {
+        return fail(request);
+      }
+
+      await this.verificationRepository.decideRequest(requestId, {
+        status: "rejected",
+        decidedBy: staffId,
+        decisionNote: reason,
+      });
+
+      return await this.getRequest(requestId);
+    } catch (error) {
+      return this.failWith(error, "Failed to reject verification request");
+    }
+  }
+
+  /** The request when it still awaits a decision, otherwise the error. */
+  private async findPendingRequest(
+    requestId: number,
+  ): Promise<VerificationReview | AppError> {
+    const request =
+      await this.verificationRepository.findRequestById(requestId);
+    if (!request) {
+      return new NotFoundError("Verification request", requestId);
+    }
+    if (request.status !== "pending") {
+      return new ConflictError(`This request was already ${request.status}`);
+    }
+    return request;
+  }
+
+  private failWith(error: unknown, message: string) {
+    if (error instanceof AppError) {
+      return this.handleError(error);
+    }
+    logger.error(error, message);
+    return fail(new DatabaseError(message));
+  }
+}
@@ -10,7 +10,6 @@ import {
   BadRequestError,
   ConflictError,
   DatabaseError,
-  ForbiddenError,
   NotFoundError,
 } from "@shared/errors";
 import { StorageFolder } from "@shared/constants/storage-folders";
@@ -20,7 +19,7 @@ import type { OrganizationsServicePort } from "@/modules/organizations";
 import type { OrganizationsRepositoryPort } from "@/modules/organizations";
 import type { IntentSyncPort } from "@/modules/organizations/ports/intent-sync.port";
 import { OrganizationsLogoFile } from "@/modules/organizations/types/organizations.module.types";
-import type { EmployerDocument } from "@shared/ports/typesense-employer-service.port";
+import type { EmployerIndexerJobData } from "@/modules/organizations/workers/typesense-employer-indexer.worker";
 
 /**
  * Service class for managing organization CRUD and membership operations.
@@ -126,7 +125,7 @@ export class OrganizationsService
       );
 
       // Index employer in Typesense for search JOIN
-      await queueService.addJob<EmployerDocument & { correlationId: string }>(
+      await queueService.addJob<EmployerIndexerJobData>(
         QUEUE_NAMES.TYPESENSE_EMPLOYER_QUEUE,
         "indexEmployer",
         {
@@ -135,6 +134,14 @@ export class OrganizationsService
           logoUrl: createdOrganization.logoUrl ?? undefined,
           city: createdOrganization.city,
           state: createdOrganization.state,
+          isVerified: createdOrganization.isVerified,
+          address: {
+            streetAddress: createdOrganization.streetAddress,
+            city: createdOrganization.city,
+            state: createdOrganization.state,
+            country: createdOrganization.country,
+            zipcode: createdOrganization.zipCode,
+          },
           correlationId,
         },
       );
@@ -237,7 +244,7 @@ export class OrganizationsService
 
       if (result.isSuccess) {
         const org = result.value;
-        await queueService.addJob<EmployerDocument & { correlationId: string }>(
+        await queueService.addJob<EmployerIndexerJobData>(
           QUEUE_NAMES.TYPESENSE_EMPLOYER_QUEUE,
           "updateEmployerIndex",
           {
@@ -246,6 +253,14 @@ export class OrganizationsService
             logoUrl: org.logoUrl ?? undefined,
             city: org.city,
             state: org.state,
+            isVerified: org.isVerified,
+            address: {
+              streetAddress: org.streetAddress,
+              city: org.city,
+              state: org.state,
+              country: org.country,
+              zipcode: org.zipCode,
+            },
             correlationId: crypto.randomUUID(),
           },
         );
@@ -290,60 +305,6 @@ export class OrganizationsService
     }
   }
 
-  /**
-   * Checks if a user has permission to post jobs.
-   * @param userId The ID of the user.
-   * @returns A Result containing the permission status or an error.
-   */
-  async isRolePermitted(userId: number) {
-    try {
-      return ok(await this.organizationsRepository.canPostJobs(userId));
-    } catch (error) {
-      if (error instanceof AppError) {
-        return this.handleError(error);
-      }
-      return fail(
-        new DatabaseError("Failed to verify permission to post jobs"),
-      );
-    }
-  }
-
-  /**
-   * Checks if a user has permission to reject applications for an organization.
-   * @param userId The ID of the user.
-   * @param organizationId The ID of the organization.
-   * @returns A Result containing the permission status or an error.
-   */
-  async isRolePermittedToRejectApplications(
-    userId: number,
-    organizationId: number,
-  ) {
-    try {
-      const canReject =
-        await this.organizationsRepository.canRejectJobApplications(
-          userId,
-          organizationId,
-        );
-
-      if (!canReject) {
-        return fail(
-          new ForbiddenError(
-            "User does not have permission to reject applications",
-          ),
-        );
-      }
-
-      return ok(canReject);
-    } catch (error) {
-      if (error instanceof AppError) {
-        return this.handleError(error);
-      }
-      return fail(
-        new DatabaseError("Failed to verify permission to reject applications"),
-      );
-    }
-  }
-
   /**
    * Retrieves organization members by their role.
    * @param organizationId The ID of the organization.
@@ -437,24 +398,4 @@ export class OrganizationsService
       return fail(new DatabaseError("Failed to fetch user organizations"));
     }
   }
-
-  /**
-   * Checks if a user has `delete` permission for an organization.
-   * @param userId The ID of the user.
-   * @param organizationId The ID of the organization.
-   * @returns A boolean indicating if the user has `delete` permission.
-   */
-  async hasDeletePermission(
-    userId: number,
-    organizationId: number,
-  ): Promise<boolean> {
-    try {
-      return await this.organizationsRepository.hasDeletePermission(
-        userId,
-        organizationId,
-      );
-    } catch {
-      return false;
-    }
-  }
 }
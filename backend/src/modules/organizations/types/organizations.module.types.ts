@@ -12,3 +12,9 @@ export interface OrganizationsLogoFile {
   path: string;
   buffer: Buffer;
 }
+
+/** Supporting documents uploaded with an organization verification request. */
+export interface OrganizationVerificationDocuments {
+  nonprofitRegistration?: OrganizationsLogoFile;
+  einLetter?: OrganizationsLogoFile;
+}
@@ -0,0 +1,77 @@
+import { Job as BullMqJob } from "bullmq";
+import logger from "@shared/logger";
+import { env } from "@shared/config/env";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import type { AuditEventsRepositoryPort } from "../ports/audit-events-repository.port";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AuditRetentionWorkerDeps {
+  auditEventsRepository: Pick<AuditEventsRepositoryPort, "deleteEventsBefore">;
+}
+
+function createRetentionHandler(deps: AuditRetentionWorkerDeps) {
+  return async function purgeAuditEventsWorker(
+    _job: BullMqJob,
+  ): Promise<{ deleted: number }> {
+    const cutoff = new Date(Date.now() - env.AUDIT_RETENTION_DAYS * DAY_MS);
+
+    logger.info({ cutoff }, "Starting audit retention job");
+
+    try {
+      const deleted =
+        await deps.auditEventsRepository.deleteEventsBefore(cutoff);
+
+      logger.info({ deleted }, "Audit retention job completed");
+      return { deleted };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      logger.error({ error: errorMessage }, "Audit retention job failed");
+      throw error;
+    }
+  };
+}
+
+/**
+ * Deletes persisted audit events older than AUDIT_RETENTION_DAYS once a day.
+ */
+export function createAuditRetentionWorker(
+  deps: AuditRetentionWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<
+        { correlationId: string },
+        { deleted: number }
+      >(QUEUE_NAMES.AUDIT_RETENTION_QUEUE, createRetentionHandler(deps), {
+        concurrency: 1,
+      });
+
+      logger.info("Audit retention worker initialized");
+    },
+
+    async scheduleJobs() {
+      try {
+        await queueService.addJob(
+          QUEUE_NAMES.AUDIT_RETENTION_QUEUE,
+          "purgeAuditEvents",
+          {},
+          {
+            repeat: {
+              pattern: "30 3 * * *",
+            },
+            jobId: "audit-retention",
+          },
+        );
+        logger.info("Scheduled audit retention job (daily at 3:30 AM UTC)");
+      } catch (error) {
+        logger.error({ error }, "Failed to schedule audit retention job");
+      }
+    },
+  };
+}
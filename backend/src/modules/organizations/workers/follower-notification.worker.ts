@@ -0,0 +1,80 @@
+import { Job as BullMqJob, UnrecoverableError } from "bullmq";
+import logger from "@shared/logger";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import { NotFoundError } from "@shared/errors";
+import type { FollowerNotificationJobPayloads } from "@shared/events/queue-contracts";
+import type { OrganizationProfileServicePort } from "../ports/organization-profile-service.port";
+import type { ModuleWorkers } from "@shared/types/module-workers";
+
+interface FollowerNotificationWorkerDeps {
+  organizationProfileService: Pick<
+    OrganizationProfileServicePort,
+    "notifyFollowersOfJob"
+  >;
+}
+
+type FollowerNotificationJobData =
+  FollowerNotificationJobPayloads["notifyOrganizationFollowers"];
+
+function createFollowerNotificationHandler(
+  deps: FollowerNotificationWorkerDeps,
+) {
+  return async function notifyOrganizationFollowersWorker(
+    job: BullMqJob<FollowerNotificationJobData>,
+  ): Promise<{ notified: number }> {
+    const { jobId } = job.data;
+    logger.info({ jobId }, "Notifying organization followers of job");
+
+    const result =
+      await deps.organizationProfileService.notifyFollowersOfJob(jobId);
+    if (result.isFailure) {
+      logger.error(
+        { jobId, error: result.error.message },
+        "Notifying organization followers failed",
+      );
+      // The job was deleted before its turn came
+      if (result.error instanceof NotFoundError) {
+        throw new UnrecoverableError(result.error.message);
+      }
+      throw result.error;
+    }
+
+    logger.info(
+      { jobId, notified: result.value },
+      "Organization follower notification completed",
+    );
+    return { notified: result.value };
+  };
+}
+
+/**
+ * Emails followers of an organization when one of its jobs goes live. Jobs
+ * are queued by the job-board service on publish.
+ */
+export function createFollowerNotificationWorker(
+  deps: FollowerNotificationWorkerDeps,
+): ModuleWorkers {
+  return {
+    initialize() {
+      queueService.registerWorker<
+        FollowerNotificationJobData,
+        { notified: number }
+      >(
+        QUEUE_NAMES.FOLLOWER_NOTIFICATION_QUEUE,
+        createFollowerNotificationHandler(deps),
+        {
+          concurrency: 1,
+        },
+      );
+
+      logger.info("Follower notification worker initialized");
+    },
+
+    async scheduleJobs() {
+      // Follower notifications are queued on demand
+    },
+  };
+}
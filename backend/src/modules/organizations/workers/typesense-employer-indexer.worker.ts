@@ -3,6 +3,8 @@ import type {
   EmployerDocument,
   TypesenseEmployerServicePort,
 } from "@shared/ports/typesense-employer-service.port";
+import type { GeocodeAddress, GeocoderPort } from "@shared/ports/geocoder.port";
+import { toTypesenseGeopoint } from "@shared/infrastructure/typesense.service/geo-search";
 import logger from "@shared/logger";
 import {
   QUEUE_NAMES,
@@ -12,11 +14,29 @@ import type { ModuleWorkers } from "@shared/types/module-workers";
 
 interface TypesenseEmployerIndexerDeps {
   typesenseEmployerService: TypesenseEmployerServicePort;
+  geocoder: GeocoderPort;
+}
+
+/**
+ * Queue payload for the employer indexer. `address` is geocoded into the
+ * document's `geopoint` and is not itself indexed.
+ */
+export type EmployerIndexerJobData = EmployerDocument & {
+  correlationId: string;
+  address?: GeocodeAddress;
+};
+
+async function toEmployerDocument(
+  deps: TypesenseEmployerIndexerDeps,
+  { address, ...doc }: EmployerIndexerJobData,
+): Promise<EmployerDocument & { correlationId: string }> {
+  const geopoint = address ? await deps.geocoder.geocode(address) : null;
+  return geopoint ? { ...doc, geopoint: toTypesenseGeopoint(geopoint) } : doc;
 }
 
 function createTypesenseHandler(deps: TypesenseEmployerIndexerDeps) {
   return async function indexEmployerInTypesense(
-    job: BullMqJob<EmployerDocument & { correlationId: string }>,
+    job: BullMqJob<EmployerIndexerJobData>,
   ): Promise<void> {
     const jobData = job.data;
 
@@ -32,12 +52,14 @@ function createTypesenseHandler(deps: TypesenseEmployerIndexerDeps) {
     try {
       switch (job.name) {
         case "indexEmployer":
-          await deps.typesenseEmployerService.indexEmployerDocument(jobData);
+          await deps.typesenseEmployerService.indexEmployerDocument(
+            await toEmployerDocument(deps, jobData),
+          );
           break;
         case "updateEmployerIndex":
           await deps.typesenseEmployerService.updateEmployerDocument(
             jobData.id,
-            jobData,
+            await toEmployerDocument(deps, jobData),
           );
           break;
         case "deleteEmployerIndex":
@@ -75,16 +97,17 @@ export function createTypesenseEmployerIndexerWorker(
 ): ModuleWorkers {
   return {
     initialize() {
-      queueService.registerWorker<
-        EmployerDocument & { correlationId: string },
-        void
-      >(QUEUE_NAMES.TYPESENSE_EMPLOYER_QUEUE, createTypesenseHandler(deps), {
-        concurrency: 5,
-        limiter: {
-          max: 50,
-          duration: 60000,
+      queueService.registerWorker<EmployerIndexerJobData, void>(
+        QUEUE_NAMES.TYPESENSE_EMPLOYER_QUEUE,
+        createTypesenseHandler(deps),
+        {
+          concurrency: 5,
+          limiter: {
+            max: 50,
+            duration: 60000,
+          },
         },
-      });
+      );
 
       logger.info("Typesense employer indexer worker initialized");
     },
@@ -5,6 +5,7 @@ import type {
 import type { IdentityWritePort } from "./ports/identity-write.port";
 import type { TypesenseUserProfileServicePort } from "@shared/ports/typesense-user-profile-service.port";
 import type { TypesenseProfileServicePort } from "@shared/ports/typesense-profile-service.port";
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
 
 import { ProfileRepository } from "./repositories/profile.repository";
 import { PreferenceRepository } from "./repositories/preference.repository";
@@ -37,6 +38,7 @@ interface UserProfileModuleDeps {
   identityWrite: IdentityWritePort;
   typesenseUserProfileService: TypesenseUserProfileServicePort;
   typesenseProfileService: TypesenseProfileServicePort;
+  geocoder: GeocoderPort;
   profileRepository: ProfileRepository;
 }
 
@@ -106,6 +108,7 @@ export function createUserProfileModule(deps: UserProfileModuleDeps) {
     createTypesenseCandidateSearchIndexerWorker({
       typesenseProfileService: deps.typesenseProfileService,
       profileRepository: repository,
+      geocoder: deps.geocoder,
     });
 
   const workers: import("@shared/types/module-workers").ModuleWorkers = {
@@ -64,6 +64,7 @@ export class ProfileRepository
             updatedAt: true,
             intent: true,
             onboardingStatus: true,
+            platformRole: true,
           },
         }),
     );
@@ -317,6 +318,7 @@ export class ProfileRepository
         updatedAt: true,
         intent: true,
         onboardingStatus: true,
+        platformRole: true,
       },
     });
   }
@@ -367,6 +369,7 @@ export class ProfileRepository
               updatedAt: user.updatedAt,
               intent: user.intent,
               onboardingStatus: user.onboardingStatus,
+              platformRole: user.platformRole,
             })
             .from(user)
             .where(whereCondition)
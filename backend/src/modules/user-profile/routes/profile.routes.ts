@@ -1,7 +1,6 @@
 import { Router } from "express";
 import type { ProfileController } from "../controllers/profile.controller";
 import type { IdentityGuards } from "@/modules/identity";
-import type { OrganizationsGuards } from "@/modules/organizations";
 import validate from "@/middleware/validation.middleware";
 import {
   getUserSchema,
@@ -19,15 +18,17 @@ import {
   uploadResumeSchema,
 } from "@/validations/userProfile.validation";
 import { uploadMiddleware } from "@/middleware/multer.middleware";
+import { auditRead } from "@/middleware/audit-read.middleware";
 
 export function createProfileRoutes({
   controller: profileController,
   identityGuards,
-  orgGuards,
 }: {
   controller: ProfileController;
-  identityGuards: Pick<IdentityGuards, "requireOwnAccount">;
-  orgGuards: Pick<OrganizationsGuards, "requireAdminOrOwnerRole">;
+  identityGuards: Pick<
+    IdentityGuards,
+    "requireOwnAccount" | "requirePlatformStaff"
+  >;
 }): Router {
   const router = Router();
 
@@ -122,12 +123,13 @@ export function createProfileRoutes({
     profileController.deleteResume,
   );
 
-  // Admin routes
+  // Platform staff routes
 
-  // GET /users (all users - admin)
+  // GET /users (all users - platform staff)
   router.get(
     "/",
-    orgGuards.requireAdminOrOwnerRole(["admin", "owner"]),
+    identityGuards.requirePlatformStaff,
+    auditRead("read.admin", () => ({ type: "user" })),
     profileController.getAllUsers,
   );
 
@@ -1,6 +1,8 @@
 import { Job as BullMqJob } from "bullmq";
 import type { ProfileRepositoryPort } from "@/modules/user-profile";
 import type { TypesenseProfileServicePort } from "@shared/ports/typesense-profile-service.port";
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
+import { toTypesenseGeopoint } from "@shared/infrastructure/typesense.service/geo-search";
 import logger from "@shared/logger";
 import {
   QUEUE_NAMES,
@@ -20,6 +22,7 @@ export interface CandidateSearchIndexerJobData {
 interface CandidateSearchIndexerDeps {
   typesenseProfileService: TypesenseProfileServicePort;
   profileRepository: ProfileRepositoryPort;
+  geocoder: GeocoderPort;
 }
 
 async function loadBuilderInput(
@@ -101,6 +104,19 @@ function createCandidateSearchIndexerHandler(deps: CandidateSearchIndexerDeps) {
             break;
           }
 
+          const profile = input.userProfile;
+          const geopoint = profile
+            ? await deps.geocoder.geocode({
+                city: profile.city,
+                state: profile.state,
+                country: profile.country,
+                zipcode: profile.zipCode,
+              })
+            : null;
+          if (geopoint) {
+            doc.geopoint = toTypesenseGeopoint(geopoint);
+          }
+
           await deps.typesenseProfileService.upsertProfile(doc);
           break;
         }
@@ -0,0 +1,698 @@
+import { Router } from "express";
+
+import { registry, z } from "@/swagger/registry";
+import {
+  apiResponseSchema,
+  errorResponseSchema,
+  paginationMetaSchema,
+} from "@shared/types";
+import {
+  backOfficeApplicationSchema,
+  backOfficeJobSchema,
+  backOfficeOrganizationDetailSchema,
+  backOfficeOrganizationSchema,
+  backOfficeUserDetailSchema,
+  backOfficeUserSchema,
+  getBackOfficeApplicationSchema,
+  getBackOfficeJobSchema,
+  getBackOfficeOrganizationSchema,
+  getBackOfficeUserSchema,
+  listBackOfficeApplicationsSchema,
+  listBackOfficeJobsSchema,
+  listBackOfficeOrganizationsSchema,
+  listBackOfficeUsersSchema,
+  reinstateOrganizationSchema,
+  suspendOrganizationSchema,
+} from "@/validations/backOffice.validation";
+import {
+  decideModerationReviewSchema,
+  getModerationReviewSchema,
+  jobHoldRuleSchema,
+  listModerationQueueSchema,
+  moderationReviewDetailSchema,
+  moderationReviewSchema,
+  updateJobHoldRuleSchema,
+  warnOrganizationSchema,
+} from "@/validations/jobModeration.validation";
+import {
+  approveVerificationRequestSchema,
+  getVerificationReviewSchema,
+  listVerificationQueueSchema,
+  rejectVerificationRequestSchema,
+  verificationReviewSchema,
+} from "@/validations/organizationVerification.validation";
+import { createBackOfficeRoutes } from "@/modules/back-office";
+import { createJobModerationRoutes } from "@/modules/job-board";
+import { createVerificationReviewRoutes } from "@/modules/organizations";
+
+import type { CompositionRoot } from "@/composition-root";
+
+// ─── OpenAPI Registry (documentation only) ──────────────────────────
+
+const unauthorized = {
+  description: "Unauthorized",
+  content: { "application/json": { schema: errorResponseSchema } },
+};
+
+const forbidden = {
+  description: "Forbidden - platform staff access required",
+  content: { "application/json": { schema: errorResponseSchema } },
+};
+
+const validationFailed = {
+  description: "Validation error",
+  content: { "application/json": { schema: errorResponseSchema } },
+};
+
+const notFound = (resource: string) => ({
+  description: `${resource} not found`,
+  content: { "application/json": { schema: errorResponseSchema } },
+});
+
+const paginated = <T extends Parameters<typeof apiResponseSchema>[0]>(
+  schema: T,
+) =>
+  apiResponseSchema(schema.array()).extend({
+    pagination: paginationMetaSchema,
+  });
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/users",
+  summary: "Search user accounts",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    query: listBackOfficeUsersSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "Paginated list of users",
+      content: {
+        "application/json": { schema: paginated(backOfficeUserSchema) },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/users/{userId}",
+  summary: "Inspect a user account",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getBackOfficeUserSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "User with organization memberships and application count",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(backOfficeUserDetailSchema),
+        },
+      },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("User"),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/organizations",
+  summary: "Search organizations",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    query: listBackOfficeOrganizationsSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "Paginated list of organizations",
+      content: {
+        "application/json": {
+          schema: paginated(backOfficeOrganizationSchema),
+        },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/organizations/{organizationId}",
+  summary: "Inspect an organization",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getBackOfficeOrganizationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Organization with members and job counts by status",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(backOfficeOrganizationDetailSchema),
+        },
+      },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Organization"),
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/admin/organizations/{organizationId}/suspend",
+  summary: "Suspend an organization",
+  description:
+    "Members keep their accounts but every organization permission is denied until the organization is reinstated.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: suspendOrganizationSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: suspendOrganizationSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Organization suspended",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(backOfficeOrganizationDetailSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error, or the organization is not active",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Organization"),
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/admin/organizations/{organizationId}/reinstate",
+  summary: "Reinstate a suspended organization",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: reinstateOrganizationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Organization reinstated",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(backOfficeOrganizationDetailSchema),
+        },
+      },
+    },
+    400: {
+      description: "The organization is not suspended",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Organization"),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/jobs",
+  summary: "Search jobs of every status",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    query: listBackOfficeJobsSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "Paginated list of jobs",
+      content: {
+        "application/json": { schema: paginated(backOfficeJobSchema) },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/jobs/{jobId}",
+  summary: "Inspect a job",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getBackOfficeJobSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Job with employer and application count",
+      content: {
+        "application/json": { schema: apiResponseSchema(backOfficeJobSchema) },
+      },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Job"),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/applications",
+  summary: "Search applications",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    query: listBackOfficeApplicationsSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "Paginated list of applications",
+      content: {
+        "application/json": {
+          schema: paginated(backOfficeApplicationSchema),
+        },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/applications/{applicationId}",
+  summary: "Inspect an application",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getBackOfficeApplicationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Application with job and applicant",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(backOfficeApplicationSchema),
+        },
+      },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Application"),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/moderation/queue",
+  summary: "List the job moderation queue",
+  description:
+    "Jobs held by an auto-hold rule or reported by seekers. Pending reviews are listed oldest first.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    query: listModerationQueueSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "Paginated list of moderation reviews",
+      content: {
+        "application/json": { schema: paginated(moderationReviewSchema) },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/moderation/queue/{reviewId}",
+  summary: "Inspect a moderation review",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getModerationReviewSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Review with the job description and its reports",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(moderationReviewDetailSchema),
+        },
+      },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Moderation review"),
+  },
+});
+
+const alreadyDecided = {
+  description: "The review has already been decided",
+  content: { "application/json": { schema: errorResponseSchema } },
+};
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/moderation/queue/{reviewId}/approve",
+  summary: "Approve a job under review",
+  description:
+    "A job held for review is published and indexed; a reported job stays as it is. Open reports are resolved.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: decideModerationReviewSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: decideModerationReviewSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "The decided review",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(moderationReviewDetailSchema),
+        },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Moderation review"),
+    409: alreadyDecided,
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/moderation/queue/{reviewId}/remove",
+  summary: "Remove a job under review",
+  description:
+    "Takes the job down for good, resolves open reports and emails the organization's posting team.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: decideModerationReviewSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: decideModerationReviewSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "The decided review",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(moderationReviewDetailSchema),
+        },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Moderation review"),
+    409: alreadyDecided,
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/moderation/queue/{reviewId}/warn",
+  summary: "Warn the organization behind a job",
+  description:
+    "Emails the organization's posting team. The review stays open for a decision.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: warnOrganizationSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": { schema: warnOrganizationSchema.shape["body"] },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "The review with its warning count updated",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(moderationReviewDetailSchema),
+        },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Moderation review"),
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/moderation/hold-rules",
+  summary: "List auto-hold rules",
+  description:
+    "Rules that hold a job for review before it goes live, with their effective settings.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  responses: {
+    200: {
+      description: "Every auto-hold rule",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(z.array(jobHoldRuleSchema)),
+        },
+      },
+    },
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "put",
+  path: "/api/admin/moderation/hold-rules",
+  summary: "Configure an auto-hold rule",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    body: {
+      content: {
+        "application/json": { schema: updateJobHoldRuleSchema.shape["body"] },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "The saved rule",
+      content: {
+        "application/json": { schema: apiResponseSchema(jobHoldRuleSchema) },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/verifications/queue",
+  summary: "List organization verification requests",
+  description:
+    "Pending requests are listed oldest first; decided requests most recently decided first.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    query: listVerificationQueueSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "Paginated list of verification requests",
+      content: {
+        "application/json": { schema: paginated(verificationReviewSchema) },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/admin/verifications/queue/{requestId}",
+  summary: "Inspect an organization verification request",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getVerificationReviewSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Request with its supporting documents",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(verificationReviewSchema),
+        },
+      },
+    },
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Verification request"),
+  },
+});
+
+const verificationAlreadyDecided = {
+  description: "The request has already been decided",
+  content: { "application/json": { schema: errorResponseSchema } },
+};
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/verifications/queue/{requestId}/approve",
+  summary: "Verify an organization",
+  description:
+    "Marks the organization verified and reindexes it, so its jobs show the verified badge and match the verified-only search filter.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: approveVerificationRequestSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: approveVerificationRequestSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "The decided request",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(verificationReviewSchema),
+        },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Verification request"),
+    409: verificationAlreadyDecided,
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/admin/verifications/queue/{requestId}/reject",
+  summary: "Reject an organization verification request",
+  description:
+    "The reason is shown to the organization's members; owners may submit new documents.",
+  tags: ["Back Office"],
+  security: [{ cookie: [] }],
+  request: {
+    params: rejectVerificationRequestSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: rejectVerificationRequestSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "The decided request",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(verificationReviewSchema),
+        },
+      },
+    },
+    400: validationFailed,
+    401: unauthorized,
+    403: forbidden,
+    404: notFound("Verification request"),
+    409: verificationAlreadyDecided,
+  },
+});
+
+// ─── Route Mounting ──────────────────────────────────────────────────
+//
+// Dependencies are provided by the central composition root.
+
+interface AdminRoutesDeps {
+  authenticate: CompositionRoot["authenticate"];
+  identity: CompositionRoot["identity"];
+  backOffice: CompositionRoot["backOffice"];
+  jobBoard: CompositionRoot["jobBoard"];
+  organizations: CompositionRoot["organizations"];
+}
+
+export function createAdminRoutes(deps: AdminRoutesDeps): Router {
+  const router = Router();
+
+  router.use(
+    createBackOfficeRoutes({
+      authenticate: deps.authenticate,
+      identityGuards: deps.identity.guards,
+      controller: deps.backOffice.controller,
+    }),
+  );
+
+  router.use(
+    "/moderation",
+    createJobModerationRoutes({
+      authenticate: deps.authenticate,
+      identityGuards: deps.identity.guards,
+      controller: deps.jobBoard.moderationController,
+    }),
+  );
+
+  router.use(
+    "/verifications",
+    createVerificationReviewRoutes({
+      authenticate: deps.authenticate,
+      identityGuards: deps.identity.guards,
+      controller: deps.organizations.verificationController,
+    }),
+  );
+
+  return router;
+}
@@ -4,6 +4,7 @@ import { createUserRoutes } from "./user.routes";
 import { createJobRoutes } from "./job.routes";
 import { createOrganizationRoutes } from "./organization.routes";
 import { createInvitationRoutes } from "./invitation.routes";
+import { createAdminRoutes } from "./admin.routes";
 
 /**
  * Creates the API router with pre-wired module dependencies.
@@ -20,7 +21,6 @@ export function createApiRoutes(root: CompositionRoot) {
       userProfile: root.userProfile,
       applications: root.applications,
       notifications: root.notifications,
-      organizations: root.organizations,
     }),
   );
   router.use(
@@ -32,15 +32,20 @@ export function createApiRoutes(root: CompositionRoot) {
       applications: root.applications,
       organizations: root.organizations,
       userProfile: root.userProfile,
+      interviews: root.interviews,
+      messaging: root.messaging,
     }),
   );
   router.use(
     "/organizations",
     createOrganizationRoutes({
       authenticate: root.authenticate,
+      optionalAuthenticate: root.optionalAuthenticate,
       organizations: root.organizations,
       applications: root.applications,
       invitations: root.invitations,
+      interviews: root.interviews,
+      messaging: root.messaging,
     }),
   );
   router.use(
@@ -51,5 +56,16 @@ export function createApiRoutes(root: CompositionRoot) {
     }),
   );
 
+  router.use(
+    "/admin",
+    createAdminRoutes({
+      authenticate: root.authenticate,
+      identity: root.identity,
+      backOffice: root.backOffice,
+      jobBoard: root.jobBoard,
+      organizations: root.organizations,
+    }),
+  );
+
   return router;
 }
@@ -154,6 +154,7 @@ export function createInvitationRoutes(deps: InvitationRoutesDeps): Router {
     auditRead("read.invitation.by_token", (req) => ({
       type: "invitation",
       id: String(req.params.organizationId),
+      organizationId: Number(req.params.organizationId),
     })),
     validate(getOrganizationInvitationDetailsSchema),
     controller.getInvitationDetails,
@@ -5,18 +5,44 @@ import {
   createJobSchema,
   getJobSchema,
   deleteJobSchema,
+  jobWorkAreaSchema,
+  repostJobSchema,
   updateJobSchema,
+  updateJobStatusSchema,
 } from "@/validations/job.validation";
-import { searchJobResult, searchParams } from "@/validations/base.validation";
 import {
+  searchFacetsSchema,
+  searchJobResult,
+  searchParams,
+} from "@/validations/base.validation";
+import {
+  applicantTimelineEntrySchema,
   applyForJobSchema,
   getJobApplicationSchema,
   selectJobApplicationSchema,
+  withdrawApplicationSchema,
 } from "@/validations/jobApplications.validation";
+import { applicationStatusSchema } from "@/validations/hiringPipeline.validation";
+import { publicScreeningQuestionSchema } from "@/validations/screeningQuestion.validation";
+import {
+  candidateInterviewResponseSchema,
+  selectInterviewSlotSchema,
+} from "@/validations/interview.validation";
+import {
+  applicationMessageSchema,
+  applicationMessageThreadSchema,
+  messageInboxThreadSchema,
+  messagingBlockStateSchema,
+  sendApplicantMessageSchema,
+} from "@/validations/applicationMessage.validation";
 import {
   getOrganizationSchema,
   selectOrganizationSchema,
 } from "@/validations/organization.validation";
+import {
+  getOrganizationJobStatsSchema,
+  organizationJobStatsSchema,
+} from "@/validations/jobAnalytics.validation";
 
 import { registry, z } from "@/swagger/registry";
 
@@ -27,8 +53,15 @@ import {
   paginationMetaSchema,
 } from "@shared/types";
 
+import {
+  jobReportSchema,
+  reportJobSchema,
+} from "@/validations/jobModeration.validation";
+
 import { createJobBoardRoutes } from "@/modules/job-board";
 import { createApplicationsRoutes } from "@/modules/applications";
+import { createCandidateInterviewsRoutes } from "@/modules/interviews";
+import { createCandidateMessagesRoutes } from "@/modules/messaging";
 
 import type { CompositionRoot } from "@/composition-root";
 
@@ -82,6 +115,8 @@ registry.registerPath({
   method: "get",
   path: "/api/jobs/search",
   summary: "Search job postings",
+  description:
+    "Returns matching jobs plus per-facet counts computed under the active filters, so filter options can show how many jobs each would leave.",
   tags: ["Jobs"],
   request: {
     query: searchParams.shape["query"],
@@ -93,6 +128,7 @@ registry.registerPath({
         "application/json": {
           schema: paginatedResponseSchema.extend({
             data: searchJobResult.array(),
+            facets: searchFacetsSchema,
           }),
         },
       },
@@ -108,6 +144,27 @@ registry.registerPath({
   },
 });
 
+registry.registerPath({
+  method: "get",
+  path: "/api/jobs/work-areas",
+  summary: "List the work areas jobs can be tagged with and searched by",
+  tags: ["Jobs"],
+  responses: {
+    200: {
+      description: "Work areas, alphabetically",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(jobWorkAreaSchema.array()),
+        },
+      },
+    },
+    500: {
+      description: "Internal server error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
 registry.registerPath({
   method: "get",
   path: "/api/jobs/{jobId}",
@@ -116,8 +173,17 @@ registry.registerPath({
   request: { params: getJobSchema.shape["params"] },
   responses: {
     200: {
-      description: "Job details",
-      content: { "application/json": { schema: jobResponseSchema } },
+      description:
+        "Job details, with the screening questions to answer when applying",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(
+            selectJobSchema.extend({
+              screeningQuestions: publicScreeningQuestionSchema.array(),
+            }),
+          ),
+        },
+      },
     },
     400: {
       description: "Validation error",
@@ -155,16 +221,7 @@ registry.registerPath({
         .optional()
         .default(10)
         .describe("Number of items per page"),
-      status: z
-        .enum([
-          "pending",
-          "reviewed",
-          "shortlisted",
-          "interviewing",
-          "rejected",
-          "hired",
-          "withdrawn",
-        ])
+      status: applicationStatusSchema
         .optional()
         .describe("Filter applications by status"),
     }),
@@ -260,12 +317,307 @@ registry.registerPath({
   },
 });
 
+registry.registerPath({
+  method: "get",
+  path: "/api/jobs/me/applications/{applicationId}/timeline",
+  summary: "Get the status timeline of one of the current user's applications",
+  description:
+    "Lists every status change of the application, oldest first. Changes made by the employer are not attributed to a person and only carry the applicant's own reasons.",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  request: { params: getJobApplicationSchema.shape["params"] },
+  responses: {
+    200: {
+      description: "Application timeline retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicantTimelineEntrySchema.array()),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    500: {
+      description: "Internal server error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/jobs/me/applications/{applicationId}/interviews",
+  summary: "List the interviews of one of the current user's applications",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  request: { params: getJobApplicationSchema.shape["params"] },
+  responses: {
+    200: {
+      description: "Interviews retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(candidateInterviewResponseSchema.array()),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    500: {
+      description: "Internal server error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/jobs/me/applications/{applicationId}/interviews/{interviewId}/select-slot",
+  summary: "Choose a time for a proposed interview",
+  description:
+    "Books one of the proposed slots. The candidate and interviewers receive a confirmation with a calendar invitation attached.",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  request: {
+    params: selectInterviewSlotSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: selectInterviewSlotSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Interview time confirmed",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(candidateInterviewResponseSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error or slot in the past",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Application, interview or slot not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description: "Interview is not awaiting a time selection",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/jobs/me/messages",
+  summary: "List the current user's message threads",
+  description:
+    "Lists the user's applications that have messages, most recently active first, with the number of unread messages from each organization.",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  responses: {
+    200: {
+      description: "Messages retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(messageInboxThreadSchema.array()),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    500: {
+      description: "Internal server error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/api/jobs/me/applications/{applicationId}/messages",
+  summary: "Get the message thread of one of the current user's applications",
+  description:
+    "Returns the conversation with the hiring team and marks the organization's messages as read.",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  request: { params: getJobApplicationSchema.shape["params"] },
+  responses: {
+    200: {
+      description: "Messages retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicationMessageThreadSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/jobs/me/applications/{applicationId}/messages",
+  summary: "Message the hiring team",
+  description:
+    "Posts a message to the hiring team and emails the members who manage applications. Attachments are uploaded asynchronously by the file upload worker.",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  request: {
+    params: sendApplicantMessageSchema.shape["params"],
+    body: {
+      content: {
+        "multipart/form-data": {
+          schema: sendApplicantMessageSchema.shape["body"].extend({
+            attachments: z
+              .array(z.string().openapi({ type: "string", format: "binary" }))
+              .max(5)
+              .optional()
+              .openapi({
+                description:
+                  "Up to 5 files (PDF, Word or image, max size 10MB each)",
+              }),
+          }),
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      description: "Message sent successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicationMessageSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Messaging is blocked",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/jobs/me/applications/{applicationId}/messages/block",
+  summary: "Block messages from the organization",
+  description:
+    "Stops all messaging with the organization that posted the job, across every application made to it.",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  request: { params: getJobApplicationSchema.shape["params"] },
+  responses: {
+    200: {
+      description: "Organization blocked",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(messagingBlockStateSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/jobs/me/applications/{applicationId}/messages/block",
+  summary: "Unblock the organization",
+  description:
+    "Removes the user's block. Messaging resumes unless the organization has also blocked the user.",
+  tags: ["Jobs"],
+  security: [{ cookie: [] }],
+  request: { params: getJobApplicationSchema.shape["params"] },
+  responses: {
+    200: {
+      description: "Organization unblocked",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(messagingBlockStateSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
 registry.registerPath({
   method: "patch",
   path: "/api/jobs/applications/{applicationId}/withdraw",
   summary: "Withdraw a job application",
   tags: ["Jobs"],
-  request: { params: getJobApplicationSchema.shape["params"] },
+  request: {
+    params: withdrawApplicationSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: withdrawApplicationSchema.shape["body"],
+        },
+      },
+      required: false,
+    },
+  },
   responses: {
     200: {
       description: "Application withdrawn successfully",
@@ -323,9 +675,14 @@ registry.registerPath({
       description: "Unauthorized",
       content: { "application/json": { schema: errorResponseSchema } },
     },
+    402: {
+      description:
+        "Payment required - the organization's subscription lapsed; renewing it covers the posting",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
     403: {
       description:
-        "Forbidden - user not associated with organization or lacks permission",
+        "Forbidden - user not associated with organization, lacks permission, or the plan's active or featured posting limit is reached (PLAN_UPGRADE_REQUIRED)",
       content: { "application/json": { schema: errorResponseSchema } },
     },
     404: {
@@ -365,6 +722,107 @@ registry.registerPath({
       description: "Unauthorized",
       content: { "application/json": { schema: errorResponseSchema } },
     },
+    402: {
+      description:
+        "Payment required - featuring the job needs the organization's lapsed subscription",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description:
+        "Forbidden - lacks permission, or featuring the job exceeds the plan (PLAN_UPGRADE_REQUIRED)",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description:
+        "Screening questions cannot be changed once candidates have applied",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    500: {
+      description: "Internal server error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/api/jobs/{jobId}/status",
+  summary: "Move a job posting through its lifecycle",
+  description:
+    "Drafts can be scheduled, published or closed; scheduled jobs can be rescheduled, published early, returned to draft or closed; published jobs can be paused or closed; paused jobs can be republished or closed. Closed and expired jobs are final and are reposted instead. Scheduled jobs go live at `publishAt`, and live jobs expire once their application deadline passes.",
+  tags: ["Jobs"],
+  request: {
+    params: updateJobStatusSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": { schema: updateJobStatusSchema.shape["body"] },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Job status updated",
+      content: { "application/json": { schema: jobResponseSchema } },
+    },
+    400: {
+      description:
+        "Validation error, or the application deadline passes before the job goes live",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    402: {
+      description:
+        "Payment required - publishing the job needs the organization's lapsed subscription",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description:
+        "Forbidden - lacks permission, or publishing the job exceeds the plan (PLAN_UPGRADE_REQUIRED)",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description: "The job cannot move from its current status to this one",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    500: {
+      description: "Internal server error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/jobs/{jobId}/repost",
+  summary: "Repost a job posting as a new draft",
+  description:
+    "Copies the job with its skills, work areas and screening questions into a new draft without an application deadline, ready to be edited and published.",
+  tags: ["Jobs"],
+  request: { params: repostJobSchema.shape["params"] },
+  responses: {
+    201: {
+      description: "Job reposted as a draft",
+      content: { "application/json": { schema: jobResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - lacks permission",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
     404: {
       description: "Job not found",
       content: { "application/json": { schema: errorResponseSchema } },
@@ -444,22 +902,19 @@ registry.registerPath({
   method: "get",
   path: "/api/jobs/employer/{organizationId}/jobs/stats",
   summary: "Get job postings statistics for an organization",
+  description:
+    "Returns posting counts plus views, unique viewers, saves, application starts and submissions per day over a date range (UTC days, default the last 30, at most 366), with the view-to-application funnel and a per-posting breakdown.",
   tags: ["Jobs"],
-  request: { params: getOrganizationSchema.shape["params"] },
+  request: {
+    params: getOrganizationJobStatsSchema.shape["params"],
+    query: getOrganizationJobStatsSchema.shape["query"],
+  },
   responses: {
     200: {
       description: "Job postings statistics",
       content: {
         "application/json": {
-          schema: apiResponseSchema(
-            z.object({
-              totalJobs: z.number(),
-              activeJobs: z.number(),
-              inactiveJobs: z.number(),
-              totalApplications: z.number(),
-              totalViews: z.number(),
-            }),
-          ),
+          schema: apiResponseSchema(organizationJobStatsSchema),
         },
       },
     },
@@ -478,6 +933,77 @@ registry.registerPath({
   },
 });
 
+registry.registerPath({
+  method: "post",
+  path: "/api/jobs/{jobId}/apply-start",
+  summary: "Record that the user started an application",
+  description:
+    "Called when a candidate opens the application form, feeding the application funnel in the organization's job statistics.",
+  tags: ["Jobs"],
+  request: { params: getJobSchema.shape["params"] },
+  responses: {
+    200: {
+      description: "Application start recorded",
+      content: {
+        "application/json": { schema: apiResponseSchema(z.null()) },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    500: {
+      description: "Internal server error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/api/jobs/{jobId}/reports",
+  summary: "Report a job",
+  description:
+    "Flags a live job for the moderation team. A user can report a job once; the organization is not told who reported it.",
+  tags: ["Jobs"],
+  request: {
+    params: reportJobSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": { schema: reportJobSchema.shape["body"] },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Report filed",
+      content: {
+        "application/json": { schema: apiResponseSchema(jobReportSchema) },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description: "The user has already reported this job",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
 // ─── Route Mounting ──────────────────────────────────────────────────
 //
 // Dependencies are provided by the central composition root.
@@ -489,6 +1015,8 @@ interface JobRoutesDeps {
   applications: CompositionRoot["applications"];
   organizations: CompositionRoot["organizations"];
   userProfile: CompositionRoot["userProfile"];
+  interviews: CompositionRoot["interviews"];
+  messaging: CompositionRoot["messaging"];
 }
 
 export function createJobRoutes(deps: JobRoutesDeps): Router {
@@ -506,6 +1034,22 @@ export function createJobRoutes(deps: JobRoutesDeps): Router {
     }),
   );
 
+  router.use(
+    createCandidateInterviewsRoutes({
+      authenticate: deps.authenticate,
+      profileGuards: deps.userProfile.guards,
+      controller: deps.interviews.controller,
+    }),
+  );
+
+  router.use(
+    createCandidateMessagesRoutes({
+      authenticate: deps.authenticate,
+      profileGuards: deps.userProfile.guards,
+      controller: deps.messaging.controller,
+    }),
+  );
+
   router.use(
     createJobBoardRoutes({
       authenticate: deps.authenticate,
@@ -513,6 +1057,7 @@ export function createJobRoutes(deps: JobRoutesDeps): Router {
       orgGuards: deps.organizations.guards,
       jobBoardGuards: deps.jobBoard.guards,
       controller: deps.jobBoard.controller,
+      moderationController: deps.jobBoard.moderationController,
     }),
   );
 
@@ -6,6 +6,7 @@ import {
   deleteOrganizationSchema,
   updateOrganizationSchema,
   organizationJobApplicationsResponseSchema,
+  getJobApplicationsForOrganizationSchema,
   updateJobStatusInputSchema,
   createJobApplicationNoteSchema,
   getOrganizationJobApplicationsSchema,
@@ -21,21 +22,104 @@ import {
   paginationMetaSchema,
 } from "@shared/types";
 import {
+  applicationTimelineEntrySchema,
   getJobApplicationSchema,
   selectJobApplicationSchema,
 } from "@/validations/jobApplications.validation";
 import { getJobSchema } from "@/validations/job.validation";
 import {
+  getHiringPipelineSchema,
+  hiringPipelineResponseSchema,
+  updateHiringPipelineSchema,
+} from "@/validations/hiringPipeline.validation";
+import {
+  candidateDetailSchema,
+  candidateOutreachSchema,
   candidatePreviewSchema,
+  getCandidateDetailSchema,
+  inviteCandidateToApplySchema,
   searchCandidatesSchema,
 } from "@/validations/candidate-search.validation";
+import {
+  cancelInterviewSchema,
+  interviewResponseSchema,
+  proposeInterviewSchema,
+  rescheduleInterviewSchema,
+} from "@/validations/interview.validation";
+import {
+  applicationMessageSchema,
+  applicationMessageThreadSchema,
+  messagingBlockStateSchema,
+  sendOrganizationMessageSchema,
+} from "@/validations/applicationMessage.validation";
+import {
+  applicationScorecardResponseSchema,
+  assignScorecardReviewersSchema,
+  getApplicationScorecardsSchema,
+  getScorecardTemplateSchema,
+  organizationJobApplicationDetailResponseSchema,
+  scorecardTemplateResponseSchema,
+  submitScorecardSchema,
+  updateScorecardTemplateSchema,
+} from "@/validations/scorecard.validation";
+import {
+  bulkApplicationActionsResponseSchema,
+  bulkApplicationActionsSchema,
+} from "@/validations/applicationBulkActions.validation";
+import {
+  auditEventSchema,
+  getOrganizationAuditEventsSchema,
+} from "@/validations/auditEvent.validation";
+import {
+  listOrganizationMembersSchema,
+  organizationMemberDetailsSchema,
+  ownershipTransferResponseSchema,
+  removeOrganizationMemberSchema,
+  transferOrganizationOwnershipSchema,
+  updateOrganizationMemberRoleSchema,
+  updateOrganizationMemberStatusSchema,
+} from "@/validations/organizationMember.validation";
+import {
+  getOrganizationPermissionsSchema,
+  organizationPermissionMatrixSchema,
+  resetOrganizationPermissionsSchema,
+  updateOrganizationPermissionsSchema,
+} from "@/validations/organizationPermission.validation";
+import {
+  getOrganizationUsageSchema,
+  organizationUsageSchema,
+} from "@/validations/organizationEntitlement.validation";
+import {
+  getOrganizationVerificationSchema,
+  organizationVerificationRequestSchema,
+  organizationVerificationSchema,
+  submitOrganizationVerificationSchema,
+} from "@/validations/organizationVerification.validation";
+import {
+  followOrganizationSchema,
+  getOrganizationProfileSchema,
+  organizationFollowSchema,
+  organizationProfileSchema,
+} from "@/validations/organizationProfile.validation";
 
 import {
   createOrganizationsRoutes,
   createCandidateSearchRoutes,
+  createAuditEventsRoutes,
+  createOrganizationMembersRoutes,
+  createOrganizationPermissionsRoutes,
+  createOrganizationEntitlementsRoutes,
+  createOrganizationVerificationRoutes,
+  createOrganizationProfileRoutes,
 } from "@/modules/organizations";
-import { createOrgApplicationsRoutes } from "@/modules/applications";
+import {
+  createOrgApplicationsRoutes,
+  createHiringPipelineRoutes,
+  createScorecardRoutes,
+} from "@/modules/applications";
 import { createInvitationsRoutes } from "@/modules/invitations";
+import { createInterviewsRoutes } from "@/modules/interviews";
+import { createApplicationMessagesRoutes } from "@/modules/messaging";
 
 import type { CompositionRoot } from "@/composition-root";
 
@@ -61,7 +145,7 @@ registry.registerPath({
   path: "/organizations/candidates/search",
   summary: "Search public candidate profiles by skill overlap",
   description:
-    "Employer-facing search. Requires a job-posting role in at least one organization. Response is an allowlisted preview — contact details and private fields are never returned.",
+    "Employer-facing search. Requires a job-posting role in at least one organization on a plan that includes candidate search. Response is an allowlisted preview — contact details and private fields are never returned.",
   tags: ["Organizations"],
   security: [{ cookie: [] }],
   request: {
@@ -92,8 +176,172 @@ registry.registerPath({
         },
       },
     },
+    402: {
+      description:
+        "Payment required — the organization's subscription lapsed; renewing it restores candidate search",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description:
+        "Forbidden — insufficient permissions, or the plan does not include candidate search (PLAN_UPGRADE_REQUIRED)",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/candidates/{userId}",
+  summary: "Get a candidate's public profile",
+  description:
+    "Full profile of a candidate found through candidate search, with the organization's jobs they were already invited to. Private profiles respond 404. Each view is recorded in the audit log.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getCandidateDetailSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Candidate profile",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(candidateDetailSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    402: {
+      description:
+        "Payment required — the organization's subscription lapsed; renewing it restores candidate search",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description:
+        "Forbidden — insufficient permissions, or the plan does not include candidate search (PLAN_UPGRADE_REQUIRED)",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Candidate not found or profile is private",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/candidates/{userId}/invitations",
+  summary: "Invite a candidate to apply to a job",
+  description:
+    "Emails the candidate a link to one of the organization's published jobs, with an optional note, and records the outreach. A candidate is invited to a job once.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: inviteCandidateToApplySchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: inviteCandidateToApplySchema.shape["body"],
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      description: "Candidate invited to apply",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(candidateOutreachSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error, or the job is not published",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    402: {
+      description:
+        "Payment required — the organization's subscription lapsed; renewing it restores candidate search",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
     403: {
-      description: "Forbidden — insufficient permissions",
+      description:
+        "Forbidden — insufficient permissions, or the plan does not include candidate search (PLAN_UPGRADE_REQUIRED)",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Candidate or job not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: "Candidate was already invited to this job",
       content: {
         "application/json": {
           schema: errorResponseSchema,
@@ -472,6 +720,7 @@ registry.registerPath({
         getOrganizationSchema.shape["params"].shape["organizationId"],
       jobId: getJobSchema.shape["params"].shape["jobId"],
     }),
+    query: getJobApplicationsForOrganizationSchema.shape["query"],
   },
   responses: {
     200: {
@@ -536,10 +785,13 @@ registry.registerPath({
   },
   responses: {
     200: {
-      description: "Job application details",
+      description:
+        "Job application details with aggregated scorecard results. Scores are withheld from assigned reviewers until they submit their own scorecard.",
       content: {
         "application/json": {
-          schema: apiResponseSchema(organizationJobApplicationsResponseSchema),
+          schema: apiResponseSchema(
+            organizationJobApplicationDetailResponseSchema,
+          ),
         },
       },
     },
@@ -647,38 +899,34 @@ registry.registerPath({
 
 registry.registerPath({
   method: "post",
-  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/notes",
-  summary: "Attach a note to a job application",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/bulk",
+  summary: "Run actions on many job applications at once",
+  description:
+    "Runs the actions, in order, on each application: move to a stage, reject with a template message, add a tag or assign a reviewer. Status changes follow the hiring pipeline's transitions. Each application gets its own result; a failed action skips the remaining actions for that application only. Applicants whose status changed are emailed once the operation completes.",
   tags: ["Organizations"],
   security: [{ cookie: [] }],
   request: {
-    params: z.object({
-      organizationId:
-        getOrganizationSchema.shape["params"].shape["organizationId"],
-      jobId: getJobSchema.shape["params"].shape["jobId"],
-      applicationId:
-        getJobApplicationSchema.shape["params"].shape["applicationId"],
-    }),
+    params: bulkApplicationActionsSchema.shape["params"],
     body: {
       content: {
         "application/json": {
-          schema: createJobApplicationNoteSchema.shape["body"],
+          schema: bulkApplicationActionsSchema.shape["body"],
         },
       },
       required: true,
     },
   },
   responses: {
-    201: {
-      description: "Note attached to job application",
+    200: {
+      description: "Per-application results of the bulk operation",
       content: {
         "application/json": {
-          schema: apiResponseSchema(selectJobApplicationSchema),
+          schema: apiResponseSchema(bulkApplicationActionsResponseSchema),
         },
       },
     },
     400: {
-      description: "Validation error",
+      description: "Validation error or reviewer not in the organization",
       content: {
         "application/json": {
           schema: errorResponseSchema,
@@ -693,8 +941,8 @@ registry.registerPath({
         },
       },
     },
-    404: {
-      description: "Job application not found",
+    403: {
+      description: "Forbidden - lacks job posting permission",
       content: {
         "application/json": {
           schema: errorResponseSchema,
@@ -714,8 +962,10 @@ registry.registerPath({
 
 registry.registerPath({
   method: "get",
-  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/notes",
-  summary: "Get notes for a job application",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/timeline",
+  summary: "Get the status timeline of a job application",
+  description:
+    "Lists every status change of the application, oldest first, with the member who made it and the reason given.",
   tags: ["Organizations"],
   security: [{ cookie: [] }],
   request: {
@@ -729,17 +979,10 @@ registry.registerPath({
   },
   responses: {
     200: {
-      description: "List of notes for the job application",
+      description: "Application timeline",
       content: {
         "application/json": {
-          schema: apiResponseSchema(
-            z
-              .object({
-                note: z.string(),
-                createdAt: z.date(),
-              })
-              .array(),
-          ),
+          schema: apiResponseSchema(applicationTimelineEntrySchema.array()),
         },
       },
     },
@@ -779,22 +1022,34 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/organizations/{organizationId}/applications",
-  summary: "Get all applications for an organization",
+  method: "post",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/notes",
+  summary: "Attach a note to a job application",
   tags: ["Organizations"],
   security: [{ cookie: [] }],
   request: {
-    params: getOrganizationSchema.shape["params"],
+    params: z.object({
+      organizationId:
+        getOrganizationSchema.shape["params"].shape["organizationId"],
+      jobId: getJobSchema.shape["params"].shape["jobId"],
+      applicationId:
+        getJobApplicationSchema.shape["params"].shape["applicationId"],
+    }),
+    body: {
+      content: {
+        "application/json": {
+          schema: createJobApplicationNoteSchema.shape["body"],
+        },
+      },
+      required: true,
+    },
   },
   responses: {
-    200: {
-      description: "List of applications for the organization",
+    201: {
+      description: "Note attached to job application",
       content: {
         "application/json": {
-          schema: apiResponseSchema(
-            getOrganizationJobApplicationsSchema.array(),
-          ),
+          schema: apiResponseSchema(selectJobApplicationSchema),
         },
       },
     },
@@ -815,7 +1070,7 @@ registry.registerPath({
       },
     },
     404: {
-      description: "Organization not found",
+      description: "Job application not found",
       content: {
         "application/json": {
           schema: errorResponseSchema,
@@ -834,122 +1089,1483 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "post",
-  path: "/organizations/{organizationId}/invitations",
-  summary: "Send invitation to join organization",
+  method: "get",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/notes",
+  summary: "Get notes for a job application",
   tags: ["Organizations"],
+  security: [{ cookie: [] }],
   request: {
-    params: createOrganizationInvitationSchema.shape["params"],
-    body: {
-      content: {
-        "application/json": {
-          schema: createOrganizationInvitationSchema.shape["body"],
-        },
-      },
-    },
+    params: z.object({
+      organizationId:
+        getOrganizationSchema.shape["params"].shape["organizationId"],
+      jobId: getJobSchema.shape["params"].shape["jobId"],
+      applicationId:
+        getJobApplicationSchema.shape["params"].shape["applicationId"],
+    }),
   },
   responses: {
-    201: {
-      description: "Invitation sent successfully",
+    200: {
+      description: "List of notes for the job application",
       content: {
         "application/json": {
           schema: apiResponseSchema(
-            z.object({
-              invitationId: z.number(),
-              message: z.string(),
-            }),
+            z
+              .object({
+                note: z.string(),
+                createdAt: z.date(),
+              })
+              .array(),
           ),
         },
       },
     },
     400: {
-      description: "Invalid request",
+      description: "Validation error",
       content: {
         "application/json": {
           schema: errorResponseSchema,
         },
       },
     },
-    403: {
-      description: "Forbidden - insufficient permissions",
+    401: {
+      description: "Unauthorized",
       content: {
         "application/json": {
           schema: errorResponseSchema,
         },
       },
     },
-    409: {
-      description: "Conflict - email already member",
-      content: {
+    404: {
+      description: "Job application not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/applications",
+  summary: "Get all applications for an organization",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getOrganizationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "List of applications for the organization",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(
+            getOrganizationJobApplicationsSchema.array(),
+          ),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/hiring-pipeline",
+  summary: "Get the hiring pipeline of an organization",
+  description:
+    "Returns the stages and allowed transitions applications move through. Organizations without a custom pipeline get the default one with a null id.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getHiringPipelineSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Hiring pipeline retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(hiringPipelineResponseSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: "Forbidden - not a member of the organization",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "put",
+  path: "/organizations/{organizationId}/hiring-pipeline",
+  summary: "Replace the hiring pipeline of an organization",
+  description:
+    "Stages are ordered as given. The pipeline must contain a non-terminal `pending` stage and a terminal `withdrawn` stage, and stages that still hold applications cannot be removed.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: updateHiringPipelineSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: updateHiringPipelineSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Hiring pipeline updated successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(hiringPipelineResponseSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: "Forbidden - requires the pipeline.manage permission",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: "Conflict - removed stages still contain applications",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/invitations",
+  summary: "Send invitation to join organization",
+  tags: ["Organizations"],
+  request: {
+    params: createOrganizationInvitationSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: createOrganizationInvitationSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Invitation sent successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(
+            z.object({
+              invitationId: z.number(),
+              message: z.string(),
+            }),
+          ),
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: "Forbidden - insufficient permissions",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: "Conflict - email already member",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/api/organizations/{organizationId}/invitations/{invitationId}",
+  summary: "Cancel organization invitation",
+  tags: ["Organizations"],
+  request: {
+    params: cancelOrganizationInvitationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Invitation cancelled successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(
+            z.object({
+              message: z.string(),
+            }),
+          ),
+        },
+      },
+    },
+    400: {
+      description: "Invalid request or invitation already accepted/cancelled",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    403: {
+      description: "Forbidden - insufficient permissions",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: "Invitation not found",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server error",
+      content: {
+        "application/json": {
+          schema: errorResponseSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/interviews",
+  summary: "Propose an interview for a job application",
+  description:
+    "Proposes one or more time slots for the candidate to choose from and assigns interviewers from the organization's active members. Only applications in a pipeline stage that allows interviews can be scheduled. The candidate is notified by email.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: proposeInterviewSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: proposeInterviewSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Interview proposed successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(interviewResponseSchema),
+        },
+      },
+    },
+    400: {
+      description:
+        "Validation error, application not in a stage that allows interviews, or invalid interviewers",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/interviews",
+  summary: "List the interviews of a job application",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: proposeInterviewSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Interviews retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(interviewResponseSchema.array()),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/interviews/{interviewId}/reschedule",
+  summary: "Reschedule an interview",
+  description:
+    "Replaces the proposed time slots and asks the candidate to choose again. Any booked time is released.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: rescheduleInterviewSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: rescheduleInterviewSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Interview rescheduled successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(interviewResponseSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error or interview already cancelled",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Interview not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/interviews/{interviewId}/cancel",
+  summary: "Cancel an interview",
+  description:
+    "Cancels the interview and notifies the candidate and interviewers. A calendar cancellation is attached when a time had been booked.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: cancelInterviewSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: cancelInterviewSchema.shape["body"],
+        },
+      },
+      required: false,
+    },
+  },
+  responses: {
+    200: {
+      description: "Interview cancelled successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(interviewResponseSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error or interview already cancelled",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Interview not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/messages",
+  summary: "Get the message thread of a job application",
+  description:
+    "Returns the conversation with the applicant and marks the applicant's messages as read. Each read is recorded in the organization audit log.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: sendOrganizationMessageSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Messages retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicationMessageThreadSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/messages",
+  summary: "Message the applicant",
+  description:
+    "Posts a message to the applicant and emails them a link to the thread. Attachments are uploaded asynchronously by the file upload worker.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: sendOrganizationMessageSchema.shape["params"],
+    body: {
+      content: {
+        "multipart/form-data": {
+          schema: sendOrganizationMessageSchema.shape["body"].extend({
+            attachments: z
+              .array(z.string().openapi({ type: "string", format: "binary" }))
+              .max(5)
+              .optional()
+              .openapi({
+                description:
+                  "Up to 5 files (PDF, Word or image, max size 10MB each)",
+              }),
+          }),
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      description: "Message sent successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicationMessageSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description:
+        "Forbidden - not a member of this organization, or messaging is blocked",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/messages/block",
+  summary: "Block messages from the applicant",
+  description:
+    "Stops all messaging between the organization and the applicant, across every application they made to it.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: sendOrganizationMessageSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Applicant blocked",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(messagingBlockStateSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/messages/block",
+  summary: "Unblock the applicant",
+  description:
+    "Removes the organization's block. Messaging resumes unless the applicant has also blocked the organization.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: sendOrganizationMessageSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Applicant unblocked",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(messagingBlockStateSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/jobs/{jobId}/scorecard-template",
+  summary: "Get the scorecard template of a job",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getScorecardTemplateSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Scorecard template retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(scorecardTemplateResponseSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job or scorecard template not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "put",
+  path: "/organizations/{organizationId}/jobs/{jobId}/scorecard-template",
+  summary: "Create or replace the scorecard template of a job",
+  description:
+    "Competencies are ordered as given and rated from 1 to `ratingScaleMax`. The template can no longer be changed once a scorecard has been submitted for the job.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: updateScorecardTemplateSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: updateScorecardTemplateSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Scorecard template saved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(scorecardTemplateResponseSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - insufficient permissions",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description: "Scorecards have already been submitted for this job",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/scorecards/reviewers",
+  summary: "Assign scorecard reviewers to a job application",
+  description:
+    "Creates a pending scorecard for each member. Members who are already assigned keep their existing scorecard.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: assignScorecardReviewersSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: assignScorecardReviewersSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Reviewers assigned successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicationScorecardResponseSchema.array()),
+        },
+      },
+    },
+    400: {
+      description:
+        "Validation error or member is not active in the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - insufficient permissions",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/scorecards",
+  summary: "List the scorecards of a job application",
+  description:
+    "Assigned reviewers who have not submitted their own scorecard only see who else is reviewing; ratings, recommendations and comments are null until they submit.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getApplicationScorecardsSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Scorecards retrieved successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicationScorecardResponseSchema.array()),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of this organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "put",
+  path: "/organizations/{organizationId}/jobs/{jobId}/applications/{applicationId}/scorecards/me",
+  summary: "Submit your scorecard for a job application",
+  description:
+    "Every competency of the job's scorecard template must be rated once. A scorecard can be submitted only once.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: submitScorecardSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: submitScorecardSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Scorecard submitted successfully",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(applicationScorecardResponseSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error or job has no scorecard template",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not assigned to review this application",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Job application not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description: "Scorecard already submitted",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/audit-events",
+  summary: "List the organization's audit events",
+  description:
+    "Owner-only audit log of actions taken on the organization's resources (members, invitations, jobs and applications), including who viewed an applicant. Newest first. Events are kept for the configured retention period. Actor IP addresses and user agents are not returned.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getOrganizationAuditEventsSchema.shape["params"],
+    query: getOrganizationAuditEventsSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "Paginated list of audit events",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(auditEventSchema.array()).extend({
+            pagination: paginationMetaSchema,
+          }),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not an owner of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/members",
+  summary: "List organization members",
+  description:
+    "Lists the organization's members with their user details, oldest first. Optionally filter by role or by active/inactive status. Available to any active member.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: listOrganizationMembersSchema.shape["params"],
+    query: listOrganizationMembersSchema.shape["query"],
+  },
+  responses: {
+    200: {
+      description: "List of organization members",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(organizationMemberDetailsSchema.array()),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/organizations/{organizationId}/members/{memberId}/role",
+  summary: "Change a member's role",
+  description:
+    "Owners and admins can change the role of members ranked below them, to a role that is also below their own. The owner's role cannot be changed; use the ownership transfer endpoint instead.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: updateOrganizationMemberRoleSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: updateOrganizationMemberRoleSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Updated member",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(organizationMemberDetailsSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - member is not ranked below the requester",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Organization member not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/organizations/{organizationId}/members/{memberId}/status",
+  summary: "Deactivate or reactivate a member",
+  description:
+    "Owners and admins can deactivate or reactivate members ranked below them. Inactive members keep their membership but lose access to the organization until reactivated.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: updateOrganizationMemberStatusSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: updateOrganizationMemberStatusSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Updated member",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(organizationMemberDetailsSchema),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - member is not ranked below the requester",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Organization member not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/organizations/{organizationId}/members/{memberId}",
+  summary: "Remove a member",
+  description:
+    "Owners and admins can remove members ranked below them, and any member can remove themselves to leave the organization. The owner cannot be removed until ownership is transferred.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: removeOrganizationMemberSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Member removed",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(z.null()),
+        },
+      },
+    },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - member is not ranked below the requester",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Organization member not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description: "The owner cannot be removed",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/ownership-transfer",
+  summary: "Transfer organization ownership",
+  description:
+    "Owner-only. Makes another active member the owner and demotes the current owner to admin, in one step.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: transferOrganizationOwnershipSchema.shape["params"],
+    body: {
+      content: {
+        "application/json": {
+          schema: transferOrganizationOwnershipSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Previous and new owner",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(ownershipTransferResponseSchema),
+        },
+      },
+    },
+    400: {
+      description:
+        "Validation error, or the member is inactive or already the owner",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not the owner of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Organization member not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/permissions",
+  summary: "Get the organization's permission matrix",
+  description:
+    "Returns the permissions of every role in the organization and which roles use a customized set instead of the defaults. Available to any active member.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getOrganizationPermissionsSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Permission matrix",
+      content: {
         "application/json": {
-          schema: errorResponseSchema,
+          schema: apiResponseSchema(organizationPermissionMatrixSchema),
         },
       },
     },
-    500: {
-      description: "Server error",
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "put",
+  path: "/organizations/{organizationId}/permissions",
+  summary: "Customize role permissions",
+  description:
+    "Owner-only. Replaces the permissions of the given roles; roles left out keep their current set. The owner role always has every permission and cannot be customized.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: updateOrganizationPermissionsSchema.shape["params"],
+    body: {
       content: {
         "application/json": {
-          schema: errorResponseSchema,
+          schema: updateOrganizationPermissionsSchema.shape["body"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Updated permission matrix",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(organizationPermissionMatrixSchema),
         },
       },
     },
+    400: {
+      description: "Validation error",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not the owner of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
   },
 });
 
 registry.registerPath({
   method: "delete",
-  path: "/api/organizations/{organizationId}/invitations/{invitationId}",
-  summary: "Cancel organization invitation",
+  path: "/organizations/{organizationId}/permissions",
+  summary: "Reset role permissions to the defaults",
+  description: "Owner-only. Removes every customization.",
   tags: ["Organizations"],
+  security: [{ cookie: [] }],
   request: {
-    params: cancelOrganizationInvitationSchema.shape["params"],
+    params: resetOrganizationPermissionsSchema.shape["params"],
   },
   responses: {
     200: {
-      description: "Invitation cancelled successfully",
+      description: "Default permission matrix",
       content: {
         "application/json": {
-          schema: apiResponseSchema(
-            z.object({
-              message: z.string(),
-            }),
-          ),
+          schema: apiResponseSchema(organizationPermissionMatrixSchema),
         },
       },
     },
-    400: {
-      description: "Invalid request or invitation already accepted/cancelled",
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not the owner of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/usage",
+  summary: "Get the organization's plan usage",
+  description:
+    "Returns the organization's subscription tier and status, active and featured job postings used against the plan's limits (null limits are unlimited), and which plan features are available. Available to any active member.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getOrganizationUsageSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Plan usage",
       content: {
         "application/json": {
-          schema: errorResponseSchema,
+          schema: apiResponseSchema(organizationUsageSchema),
         },
       },
     },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
     403: {
-      description: "Forbidden - insufficient permissions",
+      description: "Forbidden - not a member of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Organization not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/verification",
+  summary: "Get the organization's verification",
+  description:
+    "Returns whether platform staff verified the organization and its most recent verification request. Available to any active member.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: getOrganizationVerificationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Verification state",
       content: {
         "application/json": {
-          schema: errorResponseSchema,
+          schema: apiResponseSchema(organizationVerificationSchema),
         },
       },
     },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not a member of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
     404: {
-      description: "Invitation not found",
+      description: "Organization not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+const verificationDocument = (description: string) =>
+  z
+    .string()
+    .optional()
+    .openapi({ type: "string", format: "binary", description });
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/verification",
+  summary: "Request organization verification",
+  description:
+    "Submits a nonprofit registration and/or an EIN letter for review by platform staff. At least one document is required. The documents are uploaded asynchronously; their URLs appear on the request once the upload completes. Owner only.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: submitOrganizationVerificationSchema.shape["params"],
+    body: {
+      content: {
+        "multipart/form-data": {
+          schema: submitOrganizationVerificationSchema.shape["body"].extend({
+            nonprofitRegistration: verificationDocument(
+              "Nonprofit registration (PDF, Word or image, max size 10MB)",
+            ),
+            einLetter: verificationDocument(
+              "IRS EIN letter (PDF, Word or image, max size 10MB)",
+            ),
+          }),
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      description: "Verification request submitted",
       content: {
         "application/json": {
-          schema: errorResponseSchema,
+          schema: apiResponseSchema(organizationVerificationRequestSchema),
         },
       },
     },
-    500: {
-      description: "Server error",
+    400: {
+      description: "Validation error or no document uploaded",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    403: {
+      description: "Forbidden - not the owner of the organization",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    409: {
+      description:
+        "The organization is already verified or has a request under review",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{organizationId}/profile",
+  summary: "Get an organization's public profile",
+  description:
+    "Returns an active organization's mission, logo, location, follower count and published jobs. Public; for signed-in visitors `isFollowing` reports whether they follow the organization.",
+  tags: ["Organizations"],
+  request: {
+    params: getOrganizationProfileSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Organization profile",
       content: {
         "application/json": {
-          schema: errorResponseSchema,
+          schema: apiResponseSchema(organizationProfileSchema),
+        },
+      },
+    },
+    404: {
+      description: "Organization not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{organizationId}/follow",
+  summary: "Follow an organization",
+  description:
+    "Follows the organization. Followers are emailed when it publishes a new job, unless they turned off job alert emails. Following twice has no effect.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: followOrganizationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Organization followed",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(organizationFollowSchema),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+    404: {
+      description: "Organization not found",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/organizations/{organizationId}/follow",
+  summary: "Unfollow an organization",
+  description: "Stops following the organization.",
+  tags: ["Organizations"],
+  security: [{ cookie: [] }],
+  request: {
+    params: followOrganizationSchema.shape["params"],
+  },
+  responses: {
+    200: {
+      description: "Organization unfollowed",
+      content: {
+        "application/json": {
+          schema: apiResponseSchema(organizationFollowSchema),
         },
       },
     },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: errorResponseSchema } },
+    },
   },
 });
 
@@ -959,9 +2575,12 @@ registry.registerPath({
 
 interface OrganizationRoutesDeps {
   authenticate: CompositionRoot["authenticate"];
+  optionalAuthenticate: CompositionRoot["optionalAuthenticate"];
   organizations: CompositionRoot["organizations"];
   applications: CompositionRoot["applications"];
   invitations: CompositionRoot["invitations"];
+  interviews: CompositionRoot["interviews"];
+  messaging: CompositionRoot["messaging"];
 }
 
 export function createOrganizationRoutes(deps: OrganizationRoutesDeps): Router {
@@ -974,6 +2593,7 @@ export function createOrganizationRoutes(deps: OrganizationRoutesDeps): Router {
       authenticate: deps.authenticate,
       orgGuards: deps.organizations.guards,
       controller: deps.organizations.candidateSearchController,
+      profileController: deps.organizations.candidateProfileController,
     }),
   );
 
@@ -992,10 +2612,20 @@ export function createOrganizationRoutes(deps: OrganizationRoutesDeps): Router {
       authenticate: deps.authenticate,
       orgGuards: deps.organizations.guards,
       controller: deps.applications.controller,
+      bulkActionsController: deps.applications.bulkActionsController,
+    }),
+  );
+
+  // 3. Hiring pipeline configuration routes
+  router.use(
+    createHiringPipelineRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.applications.hiringPipelineController,
     }),
   );
 
-  // 3. Invitation management routes (send, cancel, view, accept)
+  // 4. Invitation management routes (send, cancel, view, accept)
   router.use(
     createInvitationsRoutes({
       authenticate: deps.authenticate,
@@ -1005,5 +2635,86 @@ export function createOrganizationRoutes(deps: OrganizationRoutesDeps): Router {
     }),
   );
 
+  // 5. Interview scheduling routes
+  router.use(
+    createInterviewsRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.interviews.controller,
+    }),
+  );
+
+  // 6. Interviewer scorecard routes
+  router.use(
+    createScorecardRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.applications.scorecardController,
+    }),
+  );
+
+  // 7. Organization audit log routes
+  router.use(
+    createAuditEventsRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.organizations.auditEventsController,
+    }),
+  );
+
+  // 8. Member management routes (roles, status, removal, ownership)
+  router.use(
+    createOrganizationMembersRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.organizations.membersController,
+    }),
+  );
+
+  // 9. Permission matrix routes
+  router.use(
+    createOrganizationPermissionsRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.organizations.permissionsController,
+    }),
+  );
+
+  // 10. Plan usage routes
+  router.use(
+    createOrganizationEntitlementsRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.organizations.entitlementsController,
+    }),
+  );
+
+  // 11. Verification request routes
+  router.use(
+    createOrganizationVerificationRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.organizations.verificationController,
+    }),
+  );
+
+  // 12. Public profile and follow routes
+  router.use(
+    createOrganizationProfileRoutes({
+      authenticate: deps.authenticate,
+      optionalAuthenticate: deps.optionalAuthenticate,
+      controller: deps.organizations.profileController,
+    }),
+  );
+
+  // 13. Application message thread routes
+  router.use(
+    createApplicationMessagesRoutes({
+      authenticate: deps.authenticate,
+      orgGuards: deps.organizations.guards,
+      controller: deps.messaging.controller,
+    }),
+  );
+
   return router;
 }
@@ -992,7 +992,6 @@ interface UserRoutesDeps {
   userProfile: CompositionRoot["userProfile"];
   applications: CompositionRoot["applications"];
   notifications: CompositionRoot["notifications"];
-  organizations: CompositionRoot["organizations"];
 }
 
 export function createUserRoutes(deps: UserRoutesDeps): Router {
@@ -1006,14 +1005,12 @@ export function createUserRoutes(deps: UserRoutesDeps): Router {
     createProfileRoutes({
       controller: deps.userProfile.controller,
       identityGuards: deps.identity.guards,
-      orgGuards: deps.organizations.guards,
     }),
   );
   router.use(
     createIdentityRoutes({
       controller: deps.identity.controller,
       identityGuards: deps.identity.guards,
-      orgGuards: deps.organizations.guards,
     }),
   );
   router.use(
@@ -0,0 +1,66 @@
+import fs from "fs";
+import { parseArgs } from "util";
+import { NotificationsRepository } from "@/modules/notifications";
+import { NEWSLETTER_SEGMENTS, type NewsletterSegment } from "@/db/schema";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import logger from "@shared/logger";
+
+/**
+ * Stores a newsletter written by platform staff and queues it for the
+ * newsletter worker, which emails it to the chosen segment.
+ *
+ * Usage:
+ *   bun src/scripts/send-newsletter.ts --subject "October news" \
+ *     --body newsletter.html --segment seekers
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      subject: { type: "string" },
+      body: { type: "string" },
+      segment: { type: "string", default: "all" },
+    },
+  });
+
+  const subject = values.subject?.trim();
+  if (!subject || !values.body) {
+    logger.error("Both --subject and --body <html file> are required.");
+    process.exit(1);
+  }
+
+  const segment = values.segment as NewsletterSegment;
+  if (!NEWSLETTER_SEGMENTS.includes(segment)) {
+    logger.error(
+      `--segment must be one of: ${NEWSLETTER_SEGMENTS.join(", ")}.`,
+    );
+    process.exit(1);
+  }
+
+  const body = await fs.promises.readFile(values.body, "utf-8");
+
+  const newsletter = await new NotificationsRepository().createNewsletter({
+    subject,
+    body,
+    segment,
+  });
+
+  await queueService.initialize();
+  await queueService.addJob(
+    QUEUE_NAMES.NEWSLETTER_QUEUE,
+    "sendNewsletter",
+    { newsletterId: newsletter.id },
+    { jobId: `newsletter-${newsletter.id}` },
+  );
+  await queueService.shutdown();
+
+  logger.info(`Queued newsletter ${newsletter.id} for segment "${segment}"`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  logger.error(err, "Unhandled error in newsletter script");
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+import { parseArgs } from "util";
+import { IdentityRepository } from "@/modules/identity";
+import logger from "@shared/logger";
+
+const PLATFORM_ROLES = ["user", "staff"] as const;
+type PlatformRole = (typeof PLATFORM_ROLES)[number];
+
+/**
+ * Grants or revokes the platform staff role, which unlocks the back office.
+ * There is deliberately no API for this: the first staff account has to be
+ * created by someone with database access.
+ *
+ * Usage:
+ *   bun src/scripts/set-platform-role.ts --email ops@example.com --role staff
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      email: { type: "string" },
+      role: { type: "string" },
+    },
+  });
+
+  const email = values.email?.trim();
+  if (!email || !values.role) {
+    logger.error("Both --email and --role are required.");
+    process.exit(1);
+  }
+
+  const role = values.role as PlatformRole;
+  if (!PLATFORM_ROLES.includes(role)) {
+    logger.error(`--role must be one of: ${PLATFORM_ROLES.join(", ")}.`);
+    process.exit(1);
+  }
+
+  const repository = new IdentityRepository();
+  const account = await repository.findByEmail(email);
+  if (!account) {
+    logger.error(`No active account found for ${email}.`);
+    process.exit(1);
+  }
+
+  await repository.update(account.id, { platformRole: role });
+
+  logger.info(`Set platform role of ${email} to "${role}"`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  logger.error(err, "Unhandled error in platform role script");
+  process.exit(1);
+});
@@ -7,6 +7,9 @@ import {
   JOBS_COLLECTION,
 } from "@shared/infrastructure/typesense.service/constants";
 import logger from "@shared/logger";
+import type { EmployerDocument } from "@shared/ports/typesense-employer-service.port";
+import { createGeocoder } from "@shared/infrastructure/geocoder/create-geocoder";
+import { toTypesenseGeopoint } from "@shared/infrastructure/typesense.service/geo-search";
 
 async function main() {
   logger.info("Syncing employers to Typesense...");
@@ -24,22 +27,40 @@ async function main() {
       id: organizations.id,
       name: organizations.name,
       logoUrl: organizations.logoUrl,
+      streetAddress: organizations.streetAddress,
       city: organizations.city,
       state: organizations.state,
+      country: organizations.country,
+      zipCode: organizations.zipCode,
+      isVerified: organizations.isVerified,
     })
     .from(organizations);
 
   logger.info(`Found ${orgs.length} organizations to sync`);
 
   if (orgs.length > 0) {
-    // 2. Bulk-index employer documents into Typesense
-    const employerDocs = orgs.map((org) => ({
-      id: org.id.toString(),
-      name: org.name,
-      logoUrl: org.logoUrl ?? undefined,
-      city: org.city,
-      state: org.state,
-    }));
+    // 2. Geocode each address, then bulk-index employer documents into
+    //    Typesense
+    const geocoder = createGeocoder();
+    const employerDocs: EmployerDocument[] = [];
+    for (const org of orgs) {
+      const geopoint = await geocoder.geocode({
+        streetAddress: org.streetAddress,
+        city: org.city,
+        state: org.state,
+        country: org.country,
+        zipcode: org.zipCode,
+      });
+      employerDocs.push({
+        id: org.id.toString(),
+        name: org.name,
+        logoUrl: org.logoUrl ?? undefined,
+        city: org.city,
+        state: org.state,
+        isVerified: org.isVerified,
+        ...(geopoint ? { geopoint: toTypesenseGeopoint(geopoint) } : {}),
+      });
+    }
 
     const importResults = await typesenseClient
       .collections(EMPLOYERS_COLLECTION)
@@ -1,8 +1,12 @@
 import { typesenseClient } from "@shared/config/typesense-client";
 import { db } from "@shared/db/connection";
 import { JOBS_COLLECTION } from "@shared/infrastructure/typesense.service/constants";
-import { TypesenseJobService } from "@shared/infrastructure/typesense.service/typesense.service";
+import {
+  type IndexableJob,
+  TypesenseJobService,
+} from "@shared/infrastructure/typesense.service/typesense.service";
 import type { JobWithSkills } from "@/validations/job.validation";
+import { createGeocoder } from "@shared/infrastructure/geocoder/create-geocoder";
 import logger from "@shared/logger";
 
 /**
@@ -24,8 +28,9 @@ async function main() {
   }
 
   // 1. Pull every job with the fields the indexer needs. We grab the
-  //    employer-name relation and the full skills list so the document
-  //    matches the `postedJobs` schema without further DB roundtrips.
+  //    employer-name relation and the full skills and work area lists so
+  //    the document matches the `postedJobs` schema without further DB
+  //    roundtrips.
   const rawJobs = await db.query.jobsDetails.findMany({
     with: {
       employer: {
@@ -38,6 +43,13 @@ async function main() {
           },
         },
       },
+      workAreas: {
+        with: {
+          workArea: {
+            columns: { name: true },
+          },
+        },
+      },
     },
   });
   logger.info(`Found ${rawJobs.length} jobs in MySQL`);
@@ -47,13 +59,15 @@ async function main() {
     process.exit(0);
   }
 
-  // 2. Shape into JobWithSkills (flatten the skill join, assert employer).
+  // 2. Shape into JobWithSkills (flatten the skill and work area joins,
+  //    assert employer).
   const jobs: JobWithSkills[] = rawJobs
     .filter((job) => job.employer !== null)
     .map((job) => ({
       ...job,
       employer: { name: job.employer!.name },
       skills: job.skills.map((s) => s.skill.name),
+      workAreas: job.workAreas.map((wa) => wa.workArea.name),
     }));
 
   const skipped = rawJobs.length - jobs.length;
@@ -83,8 +97,22 @@ async function main() {
   // 4. Bulk upsert via the service so we go through the same field-mapping
   //    helper that the single-doc indexer uses. Any schema drift will break
   //    in exactly one place.
+  //    Each job is geocoded first so radius search sees the same
+  //    `geopoint` the queue indexer would have written.
+  const geocoder = createGeocoder();
+  const indexableJobs: IndexableJob[] = [];
+  for (const job of jobs) {
+    const geopoint = await geocoder.geocode({
+      city: job.city,
+      state: job.state,
+      country: job.country,
+      zipcode: job.zipcode?.toString(),
+    });
+    indexableJobs.push({ ...job, geopoint });
+  }
+
   const service = new TypesenseJobService();
-  const importResults = await service.indexManyJobDocuments(jobs);
+  const importResults = await service.indexManyJobDocuments(indexableJobs);
 
   const failures = importResults.filter((r) => !r.success);
   if (failures.length > 0) {
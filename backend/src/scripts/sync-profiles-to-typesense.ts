@@ -5,6 +5,8 @@ import { user } from "@/db/schema";
 import { PROFILES_COLLECTION } from "@shared/infrastructure/typesense.service/constants";
 import { buildCandidateSearchDocument } from "@/modules/user-profile";
 import type { ProfileDocument } from "@shared/ports/typesense-profile-service.port";
+import { createGeocoder } from "@shared/infrastructure/geocoder/create-geocoder";
+import { toTypesenseGeopoint } from "@shared/infrastructure/typesense.service/geo-search";
 import logger from "@shared/logger";
 
 /**
@@ -39,6 +41,7 @@ async function main() {
   let failed = 0;
   let processed = 0;
   let lastId = 0;
+  const geocoder = createGeocoder();
 
   while (true) {
     const rows = await db.query.user.findMany({
@@ -116,6 +119,13 @@ async function main() {
       if (doc === null) {
         skippedNull += 1;
       } else {
+        const geopoint = await geocoder.geocode({
+          city: row.profile?.city,
+          state: row.profile?.state,
+          country: row.profile?.country,
+          zipcode: row.profile?.zipCode,
+        });
+        if (geopoint) doc.geopoint = toTypesenseGeopoint(geopoint);
         docs.push({ doc, userId: row.id });
       }
     }
@@ -0,0 +1,28 @@
+import type { HiringPipelineRepositoryPort } from "@/modules/applications";
+import type { InterviewStageQueryPort } from "@/modules/interviews";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
+
+/**
+ * Adapter bridging the hiring pipeline repository into the interviews
+ * module's InterviewStageQueryPort. Organizations without a saved pipeline
+ * use the default one.
+ */
+export class ApplicationsToInterviewsAdapter implements InterviewStageQueryPort {
+  constructor(
+    private readonly hiringPipelineRepository: HiringPipelineRepositoryPort,
+  ) {}
+
+  async stageAllowsInterviews(
+    organizationId: number,
+    status: string,
+  ): Promise<boolean> {
+    const pipeline =
+      await this.hiringPipelineRepository.findByOrganizationId(organizationId);
+
+    const stage = (pipeline ?? DEFAULT_HIRING_PIPELINE).stages.find(
+      (candidate) => candidate.key === status,
+    );
+
+    return stage?.allowsInterviews ?? false;
+  }
+}
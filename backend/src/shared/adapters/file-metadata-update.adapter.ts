@@ -1,19 +1,26 @@
 import { db } from "@shared/db/connection";
 import { eq } from "drizzle-orm";
-import { jobApplications, organizations, userProfile } from "@/db/schema";
-import type { FileMetadata } from "@/validations/file.validation";
+import {
+  applicationMessages,
+  jobApplications,
+  organizations,
+  organizationVerificationRequests,
+  userProfile,
+} from "@/db/schema";
+import type { EntityType, FileMetadata } from "@/validations/file.validation";
 import type { FileMetadataUpdatePort } from "@shared/ports/file-metadata-update.port";
 
 /**
  * Adapter that implements FileMetadataUpdatePort by updating file metadata
- * across three entity tables (job applications, organizations, user profiles).
+ * across the entity tables (application messages, job applications,
+ * organizations, organization verification requests, user profiles).
  *
  * Encapsulates the cross-module DB logic that was previously inlined in
  * the file-upload worker, keeping the worker free of direct table imports.
  */
 export class FileMetadataUpdateAdapter implements FileMetadataUpdatePort {
   async updateEntityFileMetadata(
-    entityType: "job" | "organization" | "user",
+    entityType: EntityType,
     entityId: string,
     urls: string[],
     metadata: FileMetadata[],
@@ -23,6 +30,13 @@ export class FileMetadataUpdateAdapter implements FileMetadataUpdatePort {
     const id = parseInt(entityId, 10);
 
     switch (entityType) {
+      case "application_message": {
+        await db
+          .update(applicationMessages)
+          .set({ fileMetadata: metadata })
+          .where(eq(applicationMessages.id, id));
+        break;
+      }
       case "job": {
         if (mergeWithExisting) {
           const existing = await db.query.jobApplications.findFirst({
@@ -72,6 +86,25 @@ export class FileMetadataUpdateAdapter implements FileMetadataUpdatePort {
           .where(eq(organizations.id, id));
         break;
       }
+      case "organization_verification": {
+        const updateData: Record<string, unknown> = { fileMetadata: metadata };
+
+        tempFiles?.forEach((file, index) => {
+          if (urls[index]) {
+            if (file.fieldName === "einLetter") {
+              updateData.einLetterUrl = urls[index];
+            } else {
+              updateData.nonprofitRegistrationUrl = urls[index];
+            }
+          }
+        });
+
+        await db
+          .update(organizationVerificationRequests)
+          .set(updateData)
+          .where(eq(organizationVerificationRequests.id, id));
+        break;
+      }
       case "user": {
         if (mergeWithExisting) {
           const existing = await db.query.userProfile.findFirst({
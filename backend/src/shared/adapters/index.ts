@@ -1,5 +1,6 @@
 export { ApplicationsToJobBoardAdapter } from "./applications-to-job-board.adapter";
 export { JobBoardToApplicationsAdapter } from "./job-board-to-applications.adapter";
+export { JobBoardToOrganizationsAdapter } from "./job-board-to-organizations.adapter";
 export { IdentityToNotificationsAdapter } from "./identity-to-notifications.adapter";
 export { OrganizationsToInvitationsAdapter } from "./organizations-to-invitations.adapter";
 export { IdentityToInvitationsAdapter } from "./identity-to-invitations.adapter";
@@ -13,5 +14,10 @@ export { JobBoardToSharedInsightsAdapter } from "./job-board-to-shared-insights.
 export { ProfileToJobBoardAdapter } from "./profile-to-job-board.adapter";
 export { ProfileToRecommendationAdapter } from "./profile-to-recommendation.adapter";
 export { IdentityToProfileWriteAdapter } from "./identity-to-profile-write.adapter";
+export { ProfileToOrganizationsAdapter } from "./profile-to-organizations.adapter";
 export { ProfileToOrganizationsIntentSyncAdapter } from "./profile-to-organizations-intent-sync.adapter";
 export { OrganizationsToIdentityAdapter } from "./organizations-to-identity.adapter";
+export { JobBoardToNotificationsAdapter } from "./job-board-to-notifications.adapter";
+export { OrganizationsToMessagingAdapter } from "./organizations-to-messaging.adapter";
+export { ApplicationsToInterviewsAdapter } from "./applications-to-interviews.adapter";
+export { JobBoardToBackOfficeAdapter } from "./job-board-to-back-office.adapter";
@@ -1,5 +1,6 @@
 import type { JobBoardRepositoryPort } from "@/modules/job-board";
 import type { JobDetailsQueryPort } from "@/modules/applications";
+import type { ScreeningQuestion } from "@/validations/screeningQuestion.validation";
 
 /**
  * Adapter bridging the job-board repository into the applications module's
@@ -55,4 +56,8 @@ export class JobBoardToApplicationsAdapter implements JobDetailsQueryPort {
     const jobData = await this.jobBoardRepository.findJobById(jobId);
     return jobData?.job != null;
   }
+
+  async getScreeningQuestions(jobId: number): Promise<ScreeningQuestion[]> {
+    return this.jobBoardRepository.findScreeningQuestionsByJobId(jobId);
+  }
 }
@@ -0,0 +1,20 @@
+import type { JobBoardServicePort } from "@/modules/job-board";
+import type { OrganizationJobsIndexPort } from "@/modules/back-office";
+
+/**
+ * Adapter bridging the job-board service into the back-office module's
+ * OrganizationJobsIndexPort, so suspending or reinstating an organization
+ * updates the search index of its jobs.
+ */
+export class JobBoardToBackOfficeAdapter implements OrganizationJobsIndexPort {
+  constructor(private readonly jobBoardService: JobBoardServicePort) {}
+
+  async reindexOrganizationJobs(organizationId: number): Promise<void> {
+    const result =
+      await this.jobBoardService.reindexOrganizationJobs(organizationId);
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+  }
+}
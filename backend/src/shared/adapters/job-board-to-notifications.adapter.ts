@@ -0,0 +1,39 @@
+import type { JobRecommendationServicePort } from "@/modules/job-board";
+import type { JobRecommendationQueryPort } from "@/modules/notifications";
+import type { DigestJob } from "@shared/ports/email-service.port";
+
+/**
+ * Adapter bridging the job-board recommendation service into the
+ * notifications module's JobRecommendationQueryPort, for the weekly digest.
+ *
+ * A failed recommendation lookup yields no jobs, so the digest can still go
+ * out with the seeker's job alert matches.
+ */
+export class JobBoardToNotificationsAdapter implements JobRecommendationQueryPort {
+  constructor(
+    private readonly recommendationService: JobRecommendationServicePort,
+  ) {}
+
+  async getRecommendedJobs(
+    userId: number,
+    limit: number,
+  ): Promise<DigestJob[]> {
+    const result = await this.recommendationService.getRecommendations(
+      userId,
+      1,
+      limit,
+    );
+
+    if (result.isFailure) {
+      return [];
+    }
+
+    return result.value.jobs.map((job) => ({
+      id: Number(job.id),
+      title: job.title,
+      company: job.company,
+      location: [job.city, job.state].filter(Boolean).join(", ") || undefined,
+      jobType: job.jobType,
+    }));
+  }
+}
@@ -0,0 +1,43 @@
+import { NotFoundError } from "@shared/errors";
+import type { JobBoardRepositoryPort } from "@/modules/job-board";
+import type {
+  JobPostingUsageQueryPort,
+  OutreachJob,
+  OutreachJobQueryPort,
+} from "@/modules/organizations";
+
+/**
+ * Adapter bridging the job-board repository into the organizations module's
+ * JobPostingUsageQueryPort, so plan limits can count live postings, and its
+ * OutreachJobQueryPort, so recruiters can invite candidates to a job.
+ */
+export class JobBoardToOrganizationsAdapter
+  implements JobPostingUsageQueryPort, OutreachJobQueryPort
+{
+  constructor(private readonly jobBoardRepository: JobBoardRepositoryPort) {}
+
+  async getJobPostingUsage(
+    organizationId: number,
+  ): Promise<{ activeJobs: number; featuredJobs: number }> {
+    return this.jobBoardRepository.countActiveJobsByEmployer(organizationId);
+  }
+
+  async findJobForOutreach(jobId: number): Promise<OutreachJob | null> {
+    try {
+      const { job, employer } =
+        await this.jobBoardRepository.findJobById(jobId);
+      return {
+        id: job.id,
+        title: job.title,
+        employerId: job.employerId,
+        employerName: employer?.name ?? "",
+        status: job.status,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -5,18 +5,30 @@ import type { JobInsightsRepositoryPort } from "@/modules/job-board";
  * Adapter that bridges the shared ApplicationInsightsPort to the
  * job-board module's JobInsightsRepository.
  *
- * Used by the domain-event worker to resync application counts
- * without importing job-board internals directly.
+ * Used by the domain-event worker to resync application counts and
+ * record daily job activity without importing job-board internals directly.
  */
 export class JobBoardToSharedInsightsAdapter implements ApplicationInsightsPort {
   constructor(
     private readonly jobInsightsRepository: Pick<
       JobInsightsRepositoryPort,
-      "syncJobApplicationCount"
+      "syncJobApplicationCount" | "recordJobActivity"
     >,
   ) {}
 
   async syncJobApplicationCount(jobId: number): Promise<void> {
     await this.jobInsightsRepository.syncJobApplicationCount(jobId);
   }
+
+  async recordJobActivity(
+    jobId: number,
+    metric: "saves" | "applications",
+    occurredAt: string,
+  ): Promise<void> {
+    await this.jobInsightsRepository.recordJobActivity(
+      jobId,
+      metric,
+      occurredAt.slice(0, 10),
+    );
+  }
 }
@@ -32,4 +32,8 @@ export class OrganizationsToApplicationsAdapter implements OrgMembershipQueryPor
       return null;
     }
   }
+
+  async isOrganizationSuspended(organizationId: number): Promise<boolean> {
+    return this.organizationsRepository.isOrganizationSuspended(organizationId);
+  }
 }
@@ -1,14 +1,27 @@
-import type { OrganizationsRepositoryPort } from "@/modules/organizations";
-import type { OrgMembershipForJobPort } from "@/modules/job-board";
+import type {
+  JobPostingChange,
+  OrganizationEntitlementsServicePort,
+  OrganizationsRepositoryPort,
+} from "@/modules/organizations";
+import type {
+  JobPostingEntitlementsPort,
+  OrgMembershipForJobPort,
+} from "@/modules/job-board";
+import type { Result } from "@shared/result";
+import { NotFoundError } from "@shared/errors";
 
 /**
- * Adapter bridging the organizations repository into the job-board module's
- * OrgMembershipForJobPort. Provides membership lookup for job ownership
- * verification without coupling job-board to organizations internals.
+ * Adapter bridging the organizations module into the job-board module's
+ * OrgMembershipForJobPort and JobPostingEntitlementsPort. Provides membership
+ * lookup for job ownership verification and plan checks for postings without
+ * coupling job-board to organizations internals.
  */
-export class OrganizationsToJobBoardAdapter implements OrgMembershipForJobPort {
+export class OrganizationsToJobBoardAdapter
+  implements OrgMembershipForJobPort, JobPostingEntitlementsPort
+{
   constructor(
     private readonly organizationsRepository: OrganizationsRepositoryPort,
+    private readonly entitlementsService: OrganizationEntitlementsServicePort,
   ) {}
 
   async findByContact(
@@ -38,4 +51,39 @@ export class OrganizationsToJobBoardAdapter implements OrgMembershipForJobPort {
       organizationId,
     );
   }
+
+  async isOrganizationSuspended(organizationId: number): Promise<boolean> {
+    return this.organizationsRepository.isOrganizationSuspended(organizationId);
+  }
+
+  async findOrganizationCreatedAt(
+    organizationId: number,
+  ): Promise<Date | null> {
+    try {
+      const organization =
+        await this.organizationsRepository.findById(organizationId);
+      return organization.createdAt;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findJobPostingTeam(
+    organizationId: number,
+  ): Promise<{ userId: number; email: string; fullName: string }[]> {
+    return this.organizationsRepository.findMembersWithPermission(
+      organizationId,
+      "jobs.create",
+    );
+  }
+
+  async checkJobPosting(
+    organizationId: number,
+    change: JobPostingChange,
+  ): Promise<Result<null, Error>> {
+    return this.entitlementsService.checkJobPosting(organizationId, change);
+  }
 }
@@ -0,0 +1,22 @@
+import type { OrganizationsRepositoryPort } from "@/modules/organizations";
+import type { HiringTeamQueryPort } from "@/modules/messaging";
+
+/**
+ * Adapter bridging the organizations repository into the messaging module's
+ * HiringTeamQueryPort. The hiring team is every active member whose role lets
+ * them manage the organization's applications.
+ */
+export class OrganizationsToMessagingAdapter implements HiringTeamQueryPort {
+  constructor(
+    private readonly organizationsRepository: OrganizationsRepositoryPort,
+  ) {}
+
+  async findHiringTeam(
+    organizationId: number,
+  ): Promise<{ userId: number; email: string; fullName: string }[]> {
+    return this.organizationsRepository.findMembersWithPermission(
+      organizationId,
+      "applications.manage",
+    );
+  }
+}
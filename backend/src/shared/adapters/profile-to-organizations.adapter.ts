@@ -0,0 +1,64 @@
+import type { ProfileRepositoryPort } from "@/modules/user-profile";
+import type {
+  CandidateProfileQueryPort,
+  PublicCandidate,
+} from "@/modules/organizations";
+
+/**
+ * Adapter bridging the profile repository into the organizations module's
+ * CandidateProfileQueryPort. Applies the same eligibility rules as the
+ * candidate search index, so a candidate found in search can be opened.
+ */
+export class ProfileToOrganizationsAdapter implements CandidateProfileQueryPort {
+  constructor(private readonly profileRepository: ProfileRepositoryPort) {}
+
+  async findPublicCandidate(userId: number): Promise<PublicCandidate | null> {
+    const user = await this.profileRepository.findByIdWithProfile(userId);
+    if (!user || user.intent !== "seeker" || user.deletedAt !== null) {
+      return null;
+    }
+
+    const { profile } = user;
+    if (!profile || !profile.isProfilePublic) {
+      return null;
+    }
+
+    return {
+      email: user.email,
+      profile: {
+        userId: user.id,
+        name: user.fullName,
+        photoUrl: profile.profilePicture,
+        bio: profile.bio,
+        location: [profile.city, profile.state, profile.country]
+          .filter((v): v is string => Boolean(v && v.trim()))
+          .map((v) => v.trim())
+          .join(", "),
+        skills: (profile.skills ?? []).map(({ skill }) => skill.name),
+        openToWork: profile.isAvailableForWork,
+        resumeUrl: profile.resumeUrl,
+        linkedinUrl: profile.linkedinUrl,
+        portfolioUrl: profile.portfolioUrl,
+        workExperiences: (profile.workExperiences ?? []).map((we) => ({
+          companyName: we.companyName,
+          jobTitle: we.jobTitle,
+          description: we.description,
+          current: we.current,
+          startDate: we.startDate,
+          endDate: we.endDate,
+        })),
+        education: (profile.education ?? []).map((edu) => ({
+          schoolName: edu.schoolName,
+          program: edu.program,
+          major: edu.major,
+          graduated: edu.graduated,
+          startDate: edu.startDate,
+          endDate: edu.endDate,
+        })),
+        certifications: (profile.certifications ?? []).map(
+          ({ certification }) => certification.certificationName,
+        ),
+      },
+    };
+  }
+}
@@ -1,15 +1,18 @@
 import type {
   PreferenceRepositoryPort,
   ProfileRepositoryPort,
+  WorkAreaQueryPort,
 } from "@/modules/user-profile";
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
 import type {
   RecommendationProfile,
   UserRecommendationProfilePort,
 } from "@/modules/job-board";
 
 /**
- * Adapter bridging the user-profile module's profile + preference repositories
- * into the job-board module's UserRecommendationProfilePort.
+ * Adapter bridging the user-profile module's profile, preference and work-area
+ * repositories into the job-board module's UserRecommendationProfilePort.
+ * The profile address is geocoded only when the seeker set a commute time.
  *
  * Returns `null` when the user has no active row / no profile row — callers
  * treat that as an empty-profile cold start.
@@ -18,6 +21,8 @@ export class ProfileToRecommendationAdapter implements UserRecommendationProfile
   constructor(
     private readonly profileRepository: ProfileRepositoryPort,
     private readonly preferenceRepository: PreferenceRepositoryPort,
+    private readonly workAreaQuery: WorkAreaQueryPort,
+    private readonly geocoder: GeocoderPort,
   ) {}
 
   async getRecommendationProfile(
@@ -49,11 +54,28 @@ export class ProfileToRecommendationAdapter implements UserRecommendationProfile
       profile.id,
     );
 
+    const workAreas = preferences
+      ? await this.workAreaQuery.getSelectedWorkAreas(preferences.id)
+      : [];
+
+    const commuteTime = preferences?.commuteTime ?? null;
+    const geopoint = commuteTime
+      ? await this.geocoder.geocode({
+          city: profile.city,
+          state: profile.state,
+          country: profile.country,
+          zipcode: profile.zipCode,
+        })
+      : null;
+
     return {
       skills,
       location,
       jobTypes: preferences?.jobTypes ?? null,
       compensationTypes: preferences?.compensationTypes ?? null,
+      workAreas: workAreas.map((workArea) => workArea.name),
+      commuteTime,
+      geopoint,
     };
   }
 }
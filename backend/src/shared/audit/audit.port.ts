@@ -15,6 +15,7 @@ export const AuditEventName = z.enum([
 
   // Account lifecycle
   "account.deactivated",
+  "account.reactivated",
   "account.deleted",
 
   // Profile
@@ -33,20 +34,29 @@ export const AuditEventName = z.enum([
   // Applications
   "application.submitted",
   "application.withdrawn",
+  "application.bulk_updated",
 
   // Organizations
   "org.created",
   "org.member.added",
   "org.member.removed",
   "org.member.role.changed",
+  "org.member.deactivated",
+  "org.member.reactivated",
+  "org.ownership.transferred",
+  "org.permissions.updated",
   "org.invitation.sent",
   "org.invitation.accepted",
   "org.invitation.revoked",
+  "org.candidate.invited",
+  "org.verification.submitted",
 
-  // Sensitive-read allowlist (emitted by auditRead middleware)
+  // Sensitive-read allowlist (emitted by auditRead middleware). read.admin
+  // also records platform staff actions taken through the back office
   "read.admin",
   "read.profile.cross_user",
   "read.application.by_employer",
+  "read.application.messages.by_employer",
   "read.invitation.by_token",
 ]);
 export type AuditEventName = z.infer<typeof AuditEventName>;
@@ -67,6 +77,11 @@ export const AuditResource = z.object({
   type: z.string().min(1),
   /** Resource identifier. Stringified to avoid number/string drift across callers. */
   id: z.union([z.string(), z.number()]).optional(),
+  /**
+   * Organization that owns the resource. Set it whenever there is one —
+   * the organization audit log only lists events carrying its id.
+   */
+  organizationId: z.number().int().positive().optional(),
 });
 export type AuditResource = z.infer<typeof AuditResource>;
 
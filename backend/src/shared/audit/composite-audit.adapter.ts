@@ -0,0 +1,23 @@
+import logger from "@shared/logger";
+import type { AuditEvent, AuditServicePort } from "./audit.port";
+
+/**
+ * Fans each event out to several audit adapters. A failing adapter is
+ * logged and skipped so the others still receive the event.
+ */
+export class CompositeAuditAdapter implements AuditServicePort {
+  constructor(private readonly adapters: AuditServicePort[]) {}
+
+  emit(event: AuditEvent): void {
+    for (const adapter of this.adapters) {
+      try {
+        adapter.emit(event);
+      } catch (error) {
+        logger.error(
+          { event: "audit.adapter_failed", name: event.name, error },
+          "audit adapter threw",
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { db } from "@shared/db/connection";
+import logger from "@shared/logger";
+import { auditEvents } from "@/db/schema";
+import { AuditEvent, type AuditServicePort } from "./audit.port";
+
+/**
+ * Database-backed audit adapter. Persists each valid envelope to the
+ * `audit_events` table so organizations can browse their own audit log.
+ *
+ * Runs next to the pino adapter, which already reports rejected envelopes,
+ * so invalid events are dropped here without logging them a second time.
+ *
+ * Adapter is non-throwing: the insert is not awaited and failures are only
+ * logged. Audit emission must not break or slow down the request path.
+ */
+export class DbAuditAdapter implements AuditServicePort {
+  emit(event: AuditEvent): void {
+    const parsed = AuditEvent.safeParse(event);
+
+    if (!parsed.success) {
+      return;
+    }
+
+    const { name, actor, resource, action, outcome, failureReason, metadata } =
+      parsed.data;
+
+    db.insert(auditEvents)
+      .values({
+        name,
+        actorId: actor.id === undefined ? null : String(actor.id),
+        actorIp: actor.ip ?? null,
+        actorUserAgent: actor.userAgent?.slice(0, 500) ?? null,
+        resourceType: resource.type,
+        resourceId: resource.id === undefined ? null : String(resource.id),
+        organizationId: resource.organizationId ?? null,
+        action,
+        outcome,
+        failureReason: failureReason ?? null,
+        metadata: metadata ?? null,
+      })
+      .catch((error: unknown) => {
+        logger.error(
+          { event: "audit.persist_failed", name, error },
+          "failed to persist audit event",
+        );
+      });
+  }
+}
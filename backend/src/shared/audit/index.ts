@@ -1,4 +1,7 @@
+import { env } from "@shared/config/env";
 import { PinoAuditAdapter } from "./pino-audit.adapter";
+import { DbAuditAdapter } from "./db-audit.adapter";
+import { CompositeAuditAdapter } from "./composite-audit.adapter";
 import type { AuditServicePort } from "./audit.port";
 
 /**
@@ -11,8 +14,15 @@ import type { AuditServicePort } from "./audit.port";
  * Tests swap the implementation via `vi.mock("@shared/audit")`, matching
  * the existing global-mock pattern for queueService and EmailService
  * (see CLAUDE.md).
+ *
+ * Events always go to the logs; with AUDIT_DB_ENABLED they are also
+ * persisted so organization owners can browse them.
  */
-export const auditService: AuditServicePort = new PinoAuditAdapter();
+const pinoAuditAdapter = new PinoAuditAdapter();
+
+export const auditService: AuditServicePort = env.AUDIT_DB_ENABLED
+  ? new CompositeAuditAdapter([pinoAuditAdapter, new DbAuditAdapter()])
+  : pinoAuditAdapter;
 
 export {
   AuditEvent,
@@ -41,6 +41,8 @@ export class BaseController {
    * @param pagination The pagination metadata.
    * @param message The success message.
    * @param statusCode The HTTP status code.
+   * @param meta Extra top-level fields sent alongside the pagination, e.g.
+   *   search facets.
    * @returns The Express response object.
    */
   protected sendPaginatedResponse<T>(
@@ -49,12 +51,14 @@ export class BaseController {
     pagination: PaginationMeta,
     message: string = "Data retrieved successfully",
     statusCode: number = 200,
+    meta: Record<string, unknown> = {},
   ): Response {
     const response = {
       success: true,
       message,
       data,
       pagination,
+      ...meta,
       timestamp: new Date().toISOString(),
     };
 
@@ -50,6 +50,17 @@ const envSchema = z.object({
   OTEL_SERVICE_NAME: z.string().default("jobpostings-backend"),
   OTEL_EXPORTER_OTLP_ENDPOINT: z.url().default("http://localhost:4317"),
 
+  // Audit log configuration
+  AUDIT_DB_ENABLED: z
+    .string()
+    .default("true")
+    .transform((v) => v === "true"),
+  AUDIT_RETENTION_DAYS: z.coerce
+    .number("Audit retention must be a number of days")
+    .int()
+    .min(1)
+    .default(365),
+
   // redis configuration
   REDIS_CACHE_URL: z.url({ error: "REDIS_URL must be a valid URL" }),
   REDIS_QUEUE_URL: z.url({ error: "REDIS_URL must be a valid URL" }),
@@ -96,6 +107,11 @@ const envSchema = z.object({
   TYPESENSE_HOST: z.string().min(1, "Typesense Host is required"),
   TYPESENSE_PORT: z.coerce.number("Typesense Port must be a number"),
   TYPESENSE_PROTOCOL: z.enum(["http", "https"]).default("http"),
+
+  // Geocoder Configuration
+  GEOCODER_PROVIDER: z.enum(["local", "nominatim"]).default("local"),
+  GEOCODER_URL: z.url().default("https://nominatim.openstreetmap.org"),
+  GEOCODER_USER_AGENT: z.string().min(1).default("jobpostings-backend"),
 });
 
 // Type inference from the schema
@@ -147,6 +163,12 @@ function validateEnv(): Env {
           OTEL_EXPORTER_OTLP_ENDPOINT:
             process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4317",
 
+          // Audit log configuration
+          AUDIT_DB_ENABLED: process.env.AUDIT_DB_ENABLED !== "false",
+          AUDIT_RETENTION_DAYS: parseInt(
+            process.env.AUDIT_RETENTION_DAYS || "365",
+          ),
+
           // Redis configuration
           REDIS_CACHE_URL: process.env.REDIS_URL || "redis://localhost:6379",
           REDIS_QUEUE_URL: process.env.REDIS_URL || "redis://localhost:6379",
@@ -186,6 +208,13 @@ function validateEnv(): Env {
           TYPESENSE_PORT: parseInt(process.env.TYPESENSE_PORT || "8108"),
           TYPESENSE_PROTOCOL:
             (process.env.TYPESENSE_PROTOCOL as "http" | "https") || "http",
+
+          // Geocoder Configuration
+          GEOCODER_PROVIDER: "local",
+          GEOCODER_URL:
+            process.env.GEOCODER_URL || "https://nominatim.openstreetmap.org",
+          GEOCODER_USER_AGENT:
+            process.env.GEOCODER_USER_AGENT || "jobpostings-backend",
         };
       }
 
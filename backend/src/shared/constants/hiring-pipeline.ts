@@ -0,0 +1,113 @@
+/**
+ * Hiring pipeline definitions. Application statuses are the stage keys of the
+ * employer's pipeline; organizations without a custom pipeline use the default.
+ */
+
+export interface HiringPipelineStage {
+  key: string;
+  label: string;
+  position: number;
+  isTerminal: boolean;
+  allowsInterviews: boolean;
+}
+
+export interface HiringPipelineTransition {
+  from: string;
+  to: string;
+}
+
+export interface HiringPipelineDefinition {
+  name: string;
+  stages: HiringPipelineStage[];
+  transitions: HiringPipelineTransition[];
+}
+
+/**
+ * Stage every new application starts in. Every pipeline must contain it.
+ */
+export const INITIAL_APPLICATION_STATUS = "pending";
+
+/**
+ * Terminal stage applicants move themselves to when withdrawing. Every
+ * pipeline must contain it; it is reachable from any non-terminal stage.
+ */
+export const WITHDRAWN_APPLICATION_STATUS = "withdrawn";
+
+/**
+ * Stage applications are moved to when recruiters reject them in bulk or a
+ * screening knockout rule rejects them. Knockouts in pipelines without it
+ * flag the application instead.
+ */
+export const REJECTED_APPLICATION_STATUS = "rejected";
+
+/**
+ * The pipeline used by organizations that have not customised their own,
+ * mirroring the original fixed status flow.
+ */
+export const DEFAULT_HIRING_PIPELINE: HiringPipelineDefinition = {
+  name: "Default pipeline",
+  stages: [
+    {
+      key: "pending",
+      label: "Submitted",
+      position: 0,
+      isTerminal: false,
+      allowsInterviews: false,
+    },
+    {
+      key: "reviewed",
+      label: "Under Review",
+      position: 1,
+      isTerminal: false,
+      allowsInterviews: false,
+    },
+    {
+      key: "shortlisted",
+      label: "Shortlisted",
+      position: 2,
+      isTerminal: false,
+      allowsInterviews: false,
+    },
+    {
+      key: "interviewing",
+      label: "Interview Scheduled",
+      position: 3,
+      isTerminal: false,
+      allowsInterviews: true,
+    },
+    {
+      key: "rejected",
+      label: "Not Selected",
+      position: 4,
+      isTerminal: true,
+      allowsInterviews: false,
+    },
+    {
+      key: "hired",
+      label: "Offer Extended / Hired",
+      position: 5,
+      isTerminal: true,
+      allowsInterviews: false,
+    },
+    {
+      key: "withdrawn",
+      label: "Withdrawn",
+      position: 6,
+      isTerminal: true,
+      allowsInterviews: false,
+    },
+  ],
+  transitions: [
+    { from: "pending", to: "reviewed" },
+    { from: "pending", to: "withdrawn" },
+    { from: "reviewed", to: "shortlisted" },
+    { from: "reviewed", to: "rejected" },
+    { from: "reviewed", to: "withdrawn" },
+    { from: "shortlisted", to: "interviewing" },
+    { from: "shortlisted", to: "rejected" },
+    { from: "shortlisted", to: "withdrawn" },
+    { from: "interviewing", to: "hired" },
+    { from: "interviewing", to: "rejected" },
+    { from: "interviewing", to: "withdrawn" },
+  ],
+};
@@ -0,0 +1,90 @@
+/** Why a seeker reported a job. */
+export const JOB_REPORT_REASONS = [
+  "scam",
+  "inappropriate",
+  "discriminatory",
+  "misleading",
+  "duplicate",
+  "other",
+] as const;
+
+export type JobReportReason = (typeof JOB_REPORT_REASONS)[number];
+
+/**
+ * Rules that hold a job in `pending_review` instead of letting it go live:
+ * postings by organizations created recently, postings containing a flagged
+ * keyword, and postings asking candidates to pay or send money.
+ */
+export const JOB_HOLD_RULES = [
+  "new_organization",
+  "keywords",
+  "external_payment",
+] as const;
+
+export type JobHoldRule = (typeof JOB_HOLD_RULES)[number];
+
+export type JobHoldRuleSettings = {
+  new_organization: { maxAgeDays: number };
+  keywords: { terms: string[] };
+  external_payment: { terms: string[] };
+};
+
+export type JobHoldRuleConfig<R extends JobHoldRule = JobHoldRule> = {
+  [K in R]: { rule: K; enabled: boolean; settings: JobHoldRuleSettings[K] };
+}[R];
+
+/**
+ * Rules used until platform staff configure them. Keywords start empty;
+ * the payment terms cover the usual advance-fee scam wording.
+ */
+export const DEFAULT_JOB_HOLD_RULES: {
+  [K in JobHoldRule]: JobHoldRuleConfig<K>;
+} = {
+  new_organization: {
+    rule: "new_organization",
+    enabled: true,
+    settings: { maxAgeDays: 7 },
+  },
+  keywords: {
+    rule: "keywords",
+    enabled: true,
+    settings: { terms: [] },
+  },
+  external_payment: {
+    rule: "external_payment",
+    enabled: true,
+    settings: {
+      terms: [
+        "wire transfer",
+        "western union",
+        "moneygram",
+        "gift card",
+        "bitcoin",
+        "cryptocurrency",
+        "cash app",
+        "zelle",
+        "processing fee",
+        "registration fee",
+        "training fee",
+        "application fee",
+      ],
+    },
+  },
+};
+
+/**
+ * Resolves the effective configuration of every rule given the rules staff
+ * configured, if any.
+ */
+export function resolveHoldRules(configured: readonly JobHoldRuleConfig[]): {
+  [K in JobHoldRule]: JobHoldRuleConfig<K>;
+} {
+  const rules = { ...DEFAULT_JOB_HOLD_RULES };
+  for (const config of configured) {
+    Object.assign(rules, { [config.rule]: config });
+  }
+  return rules;
+}
+
+/** A rule a job tripped, with what tripped it, shown to moderators. */
+export type JobHoldReason = { rule: JobHoldRule; detail: string };
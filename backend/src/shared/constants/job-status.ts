@@ -0,0 +1,56 @@
+/**
+ * Lifecycle of a job posting. Only `published` jobs are live: listed,
+ * searchable and open to applications. `expired` is never chosen by an
+ * employer; the lifecycle worker sets it once the application deadline passes.
+ * `pending_review` and `removed` belong to moderation: a job that trips an
+ * auto-hold rule waits in `pending_review` instead of going live, and platform
+ * staff move it to `published` or `removed`.
+ */
+export const JOB_STATUSES = [
+  "draft",
+  "scheduled",
+  "published",
+  "paused",
+  "closed",
+  "expired",
+  "pending_review",
+  "removed",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/** Statuses a job can be created in. */
+export const INITIAL_JOB_STATUSES = [
+  "draft",
+  "scheduled",
+  "published",
+] as const satisfies readonly JobStatus[];
+
+/**
+ * Statuses an employer can move a job to; `expired` is worker-only and the
+ * moderation statuses are set by the platform.
+ */
+export const EMPLOYER_JOB_STATUSES = [
+  "draft",
+  "scheduled",
+  "published",
+  "paused",
+  "closed",
+] as const satisfies readonly JobStatus[];
+
+/**
+ * Statuses an employer may move a job to from each status. Closed and
+ * expired jobs are final; they are reposted as a new draft instead. A job
+ * pending review can be withdrawn but not published; removed jobs are final
+ * and cannot be reposted.
+ */
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  draft: ["scheduled", "published", "closed"],
+  scheduled: ["draft", "scheduled", "published", "closed"],
+  published: ["paused", "closed"],
+  paused: ["published", "closed"],
+  closed: [],
+  expired: [],
+  pending_review: ["draft", "closed"],
+  removed: [],
+};
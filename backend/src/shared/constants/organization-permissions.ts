@@ -0,0 +1,82 @@
+/**
+ * Organization permission matrix. Each organization role maps to a set of
+ * capabilities; owners may replace the set of any role below them.
+ */
+
+export const ORGANIZATION_ROLES = [
+  "owner",
+  "admin",
+  "recruiter",
+  "member",
+] as const;
+
+export type OrganizationRoleName = (typeof ORGANIZATION_ROLES)[number];
+
+/**
+ * Roles whose permissions an owner can customize. Owners always hold every
+ * permission so an organization can never lock itself out.
+ */
+export const CUSTOMIZABLE_ORGANIZATION_ROLES = [
+  "admin",
+  "recruiter",
+  "member",
+] as const;
+
+export type CustomizableOrganizationRole =
+  (typeof CUSTOMIZABLE_ORGANIZATION_ROLES)[number];
+
+export const ORGANIZATION_PERMISSIONS = [
+  "jobs.view",
+  "jobs.create",
+  "jobs.update",
+  "jobs.publish",
+  "jobs.delete",
+  "applications.view",
+  "applications.manage",
+  "applications.reject",
+  "candidates.search",
+  "members.invite",
+  "pipeline.manage",
+] as const;
+
+export type OrganizationPermission = (typeof ORGANIZATION_PERMISSIONS)[number];
+
+/**
+ * Permissions of each role in organizations that have not customized them,
+ * matching the access each role had before the matrix existed.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<
+  OrganizationRoleName,
+  readonly OrganizationPermission[]
+> = {
+  owner: ORGANIZATION_PERMISSIONS,
+  admin: ORGANIZATION_PERMISSIONS,
+  recruiter: [
+    "jobs.view",
+    "jobs.create",
+    "jobs.update",
+    "jobs.publish",
+    "applications.view",
+    "applications.manage",
+    "applications.reject",
+    "candidates.search",
+  ],
+  member: [],
+};
+
+/**
+ * Resolves the effective permissions of a role given the organization's
+ * customized set for it, if any.
+ */
+export function resolveRolePermissions(
+  role: OrganizationRoleName,
+  customized?: readonly OrganizationPermission[] | null,
+): OrganizationPermission[] {
+  if (role === "owner" || !customized) {
+    return [...DEFAULT_ROLE_PERMISSIONS[role]];
+  }
+  // Stored sets may still name permissions since dropped from the catalogue
+  return customized.filter((permission) =>
+    ORGANIZATION_PERMISSIONS.includes(permission),
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Messages recruiters can choose from when rejecting applications in bulk.
+ * The chosen message replaces the generic copy of the status update email.
+ */
+export const REJECTION_MESSAGE_TEMPLATES = {
+  position_filled: {
+    label: "Position filled",
+    message:
+      "Thank you for your interest. The position has now been filled and we are no longer considering applications for it.",
+  },
+  other_candidates: {
+    label: "Moving forward with other candidates",
+    message:
+      "Thank you for taking the time to apply. After careful consideration, we have decided to move forward with other candidates whose experience more closely matches our current needs.",
+  },
+  qualifications: {
+    label: "Qualifications not met",
+    message:
+      "Thank you for your application. Unfortunately, your application does not meet the qualifications required for this role at this time.",
+  },
+  future_opportunities: {
+    label: "Keep on file for future roles",
+    message:
+      "Thank you for applying. While we will not be moving forward with your application for this role, we would be glad to consider you for future opportunities that match your profile.",
+  },
+} as const satisfies Record<string, { label: string; message: string }>;
+
+export type RejectionTemplateKey = keyof typeof REJECTION_MESSAGE_TEMPLATES;
+
+export const REJECTION_TEMPLATE_KEYS = Object.keys(
+  REJECTION_MESSAGE_TEMPLATES,
+) as [RejectionTemplateKey, ...RejectionTemplateKey[]];
@@ -1,7 +1,9 @@
 export enum StorageFolder {
   PROFILE_PICTURES = "profile-pictures",
   ORGANIZATION_LOGOS = "organization-logos",
+  ORGANIZATION_VERIFICATIONS = "organization-verifications",
   JOB_ATTACHMENTS = "job-attachments",
+  MESSAGE_ATTACHMENTS = "message-attachments",
   RESUMES = "resumes",
   COVER_LETTERS = "cover-letters",
 }
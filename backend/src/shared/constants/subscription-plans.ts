@@ -0,0 +1,69 @@
+/**
+ * Subscription plans and the entitlements each tier grants. Limits count
+ * active job postings only; `null` means unlimited.
+ */
+
+export const SUBSCRIPTION_TIERS = [
+  "free",
+  "basic",
+  "professional",
+  "enterprise",
+] as const;
+
+export type SubscriptionTier = (typeof SUBSCRIPTION_TIERS)[number];
+
+export type SubscriptionStatus = "active" | "cancelled" | "expired" | "trial";
+
+export interface SubscriptionPlan {
+  activeJobLimit: number | null;
+  featuredJobLimit: number | null;
+  candidateSearch: boolean;
+}
+
+export const SUBSCRIPTION_PLANS: Record<SubscriptionTier, SubscriptionPlan> = {
+  free: { activeJobLimit: 1, featuredJobLimit: 0, candidateSearch: false },
+  basic: { activeJobLimit: 5, featuredJobLimit: 0, candidateSearch: false },
+  professional: {
+    activeJobLimit: 25,
+    featuredJobLimit: 3,
+    candidateSearch: true,
+  },
+  enterprise: {
+    activeJobLimit: null,
+    featuredJobLimit: null,
+    candidateSearch: true,
+  },
+};
+
+/** Tier whose entitlements an organization enjoys while on trial. */
+export const TRIAL_TIER: SubscriptionTier = "professional";
+
+/** Trial length for organizations whose trial has no explicit end date. */
+export const TRIAL_PERIOD_DAYS = 14;
+
+/** Returns true when `limit` allows one more item on top of `used`. */
+export function isWithinLimit(used: number, limit: number | null): boolean {
+  return limit === null || used < limit;
+}
+
+/** Returns the higher of two tiers. */
+export function higherTier(
+  a: SubscriptionTier,
+  b: SubscriptionTier,
+): SubscriptionTier {
+  return SUBSCRIPTION_TIERS.indexOf(a) >= SUBSCRIPTION_TIERS.indexOf(b) ? a : b;
+}
+
+/**
+ * Finds the cheapest tier above `tier` whose plan satisfies `predicate`,
+ * used to point organizations at the upgrade that unlocks what they asked for.
+ */
+export function findUpgradeTier(
+  tier: SubscriptionTier,
+  predicate: (plan: SubscriptionPlan) => boolean,
+): SubscriptionTier | null {
+  const higher = SUBSCRIPTION_TIERS.slice(SUBSCRIPTION_TIERS.indexOf(tier) + 1);
+  return (
+    higher.find((candidate) => predicate(SUBSCRIPTION_PLANS[candidate])) ?? null
+  );
+}
@@ -3,6 +3,10 @@ export enum ErrorCode {
   // Authentication & Authorization
   FORBIDDEN = "FORBIDDEN",
 
+  // Subscriptions
+  PAYMENT_REQUIRED = "PAYMENT_REQUIRED",
+  PLAN_UPGRADE_REQUIRED = "PLAN_UPGRADE_REQUIRED",
+
   // Validation
   VALIDATION_ERROR = "VALIDATION_ERROR",
   BAD_REQUEST = "BAD_REQUEST",
@@ -77,6 +81,20 @@ export class ForbiddenError extends AppError {
   }
 }
 
+/** The organization's subscription has lapsed; renewing it unlocks the request. */
+export class PaymentRequiredError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 402, ErrorCode.PAYMENT_REQUIRED, true, details);
+  }
+}
+
+/** The organization's plan does not include the request; a higher tier does. */
+export class PlanUpgradeRequiredError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 403, ErrorCode.PLAN_UPGRADE_REQUIRED, true, details);
+  }
+}
+
 export class ConflictError extends AppError {
   constructor(message: string, details?: unknown) {
     super(message, 409, ErrorCode.CONFLICT, true, details);
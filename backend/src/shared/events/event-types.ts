@@ -8,6 +8,11 @@
 export enum DomainEventType {
   APPLICATION_SUBMITTED = "applications.ApplicationSubmitted",
   APPLICATION_WITHDRAWN = "applications.ApplicationWithdrawn",
+  JOB_SAVED = "applications.JobSaved",
+  JOB_UPDATED = "job-board.JobUpdated",
+  JOB_CLOSED = "job-board.JobClosed",
   USER_DEACTIVATED = "identity.UserDeactivated",
   USER_DELETED = "identity.UserDeleted",
+  INTERVIEW_RESCHEDULED = "interviews.InterviewRescheduled",
+  INTERVIEW_CANCELLED = "interviews.InterviewCancelled",
 }
@@ -16,4 +16,5 @@ export type {
   JobAlertJobName,
   TempFileCleanupJobPayloads,
   InvitationExpirationJobPayloads,
+  InterviewReminderJobPayloads,
 } from "./queue-contracts";
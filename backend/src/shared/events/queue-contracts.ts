@@ -11,6 +11,13 @@
  * - Domain events use a separate system (see ./event-types.ts)
  */
 
+import type {
+  DigestJob,
+  InterviewEmailDetails,
+  SavedJobUpdateKind,
+  ShortlistedCandidate,
+} from "@shared/ports/email-service.port";
+
 // ─── Email Queue ─────────────────────────────────────────────────────
 
 export interface EmailJobPayloads {
@@ -44,11 +51,15 @@ export interface EmailJobPayloads {
     applicationId: number;
   };
   sendApplicationStatusUpdate: {
+    userId: number;
     email: string;
     fullName: string;
     jobTitle: string;
     oldStatus: string;
     newStatus: string;
+    oldStatusLabel: string;
+    newStatusLabel: string;
+    message?: string;
     applicationId: number;
   };
   sendJobDeletionEmail: {
@@ -58,6 +69,98 @@ export interface EmailJobPayloads {
     jobTitle: string;
     jobId: number;
   };
+  sendSavedJobUpdate: {
+    userId: number;
+    email: string;
+    fullName: string;
+    jobId: number;
+    jobTitle: string;
+    update: SavedJobUpdateKind;
+    changedFields?: string[];
+    applicationDeadline?: string | null;
+  };
+  sendJobExpiredEmail: {
+    userId: number;
+    email: string;
+    fullName: string;
+    jobTitle: string;
+    jobId: number;
+  };
+  sendScheduledJobBlockedEmail: {
+    userId: number;
+    email: string;
+    fullName: string;
+    jobTitle: string;
+    jobId: number;
+    reason: string;
+  };
+  sendWeeklyJobDigest: {
+    userId: number;
+    email: string;
+    fullName: string;
+    recommendedJobs: DigestJob[];
+    alertMatches: DigestJob[];
+  };
+  sendMatchedCandidates: {
+    userId: number;
+    email: string;
+    fullName: string;
+    jobId: number;
+    jobTitle: string;
+    candidates: ShortlistedCandidate[];
+    searchSkills: string[];
+  };
+  sendJobInvitation: {
+    userId: number;
+    email: string;
+    fullName: string;
+    jobId: number;
+    jobTitle: string;
+    organizationName: string;
+    message: string | null;
+  };
+  sendFollowedOrganizationJob: {
+    userId: number;
+    email: string;
+    fullName: string;
+    jobId: number;
+    jobTitle: string;
+    organizationId: number;
+    organizationName: string;
+    location: string;
+  };
+  sendApplicationMessage: {
+    userId: number;
+    email: string;
+    fullName: string;
+    recipient: "applicant" | "organization";
+    applicationId: number;
+    jobId: number;
+    jobTitle: string;
+    organizationId: number;
+    organizationName: string;
+    senderName: string;
+    preview: string;
+  };
+  sendModerationNotice: {
+    userId: number;
+    email: string;
+    fullName: string;
+    kind: "warning" | "removal";
+    jobId: number;
+    jobTitle: string;
+    organizationName: string;
+    note: string | null;
+  };
+  sendNewsletter: {
+    userId: number;
+    email: string;
+    fullName: string;
+    newsletterId: number;
+    subject: string;
+    body: string;
+    unsubscribeUrl: string | null;
+  };
   sendOrganizationInvitation: {
     userId: number;
     email: string;
@@ -74,6 +177,35 @@ export interface EmailJobPayloads {
     organizationName: string;
     role: string;
   };
+  sendInterviewProposal: {
+    userId: number;
+    email: string;
+    fullName: string;
+    jobTitle: string;
+    organizationName: string;
+    interviewId: number;
+    slots: { startsAt: string; endsAt: string }[];
+    rescheduled: boolean;
+  };
+  sendInterviewScheduled: {
+    userId: number;
+    email: string;
+    fullName: string;
+    interview: InterviewEmailDetails;
+  };
+  sendInterviewReminder: {
+    userId: number;
+    email: string;
+    fullName: string;
+    interview: InterviewEmailDetails;
+  };
+  sendInterviewCancelled: {
+    userId: number;
+    email: string;
+    fullName: string;
+    interview: InterviewEmailDetails;
+    reason: string | null;
+  };
 }
 
 /** Any email job name */
@@ -133,3 +265,44 @@ export interface TempFileCleanupJobPayloads {
 export interface InvitationExpirationJobPayloads {
   expireInvitations: Record<string, never>;
 }
+
+export interface AuditRetentionJobPayloads {
+  purgeAuditEvents: Record<string, never>;
+}
+
+export interface JobLifecycleJobPayloads {
+  processJobLifecycle: Record<string, never>;
+}
+
+export interface SavedJobReminderJobPayloads {
+  sendSavedJobDeadlineReminders: Record<string, never>;
+}
+
+export interface WeeklyDigestJobPayloads {
+  sendWeeklyJobDigests: Record<string, never>;
+}
+
+// ─── Newsletter Queue ────────────────────────────────────────────────
+
+export interface NewsletterJobPayloads {
+  sendNewsletter: { newsletterId: number };
+}
+
+// ─── Candidate Match Queue ───────────────────────────────────────────
+
+export interface CandidateMatchJobPayloads {
+  matchCandidates: { jobId: number };
+}
+
+// ─── Follower Notification Queue ─────────────────────────────────────
+
+export interface FollowerNotificationJobPayloads {
+  notifyOrganizationFollowers: { jobId: number };
+}
+
+// ─── Interview Reminder Queue ────────────────────────────────────────
+
+export interface InterviewReminderJobPayloads {
+  /** `scheduledStart` lets the worker skip reminders made stale by a reschedule */
+  sendInterviewReminder: { interviewId: number; scheduledStart: string };
+}
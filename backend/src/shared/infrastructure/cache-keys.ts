@@ -51,6 +51,10 @@ export const cacheKeys = {
     `organizations/${orgId}/jobs/${jobId}/applications`,
   orgApplications: (orgId: string | number) =>
     `organizations/${orgId}/applications`,
+  orgHiringPipeline: (orgId: string | number) =>
+    `organizations/${orgId}/hiring-pipeline`,
+  orgJobScorecardTemplate: (orgId: string | number, jobId: string | number) =>
+    `organizations/${orgId}/jobs/${jobId}/scorecard-template`,
 
   // ─── Organizations ────────────────────────────────────────────────
   organizations: "organizations",
@@ -6,11 +6,43 @@ import { BaseService } from "@shared/base/base.service";
 import { env } from "@shared/config/env";
 import { AppError } from "@shared/errors";
 import { getApplicationStatusLabel } from "@shared/utils/application-status";
+import {
+  createCalendarEvent,
+  type CalendarMethod,
+} from "@shared/utils/icalendar";
 import { EmailType } from "@shared/types";
 import logger from "@shared/logger";
-import type { EmailServicePort } from "@shared/ports/email-service.port";
+import type {
+  EmailServicePort,
+  ApplicationMessageNotice,
+  DigestJob,
+  FollowedOrganizationJob,
+  MatchedCandidatesShortlist,
+  InterviewEmailDetails,
+  JobInvitation,
+  ModerationNotice,
+  NewsletterEmail,
+  SavedJobUpdateDetails,
+  WeeklyJobDigest,
+} from "@shared/ports/email-service.port";
 import type { EmailPreferencesQueryPort } from "@shared/ports/email-preferences-query.port";
 
+/** Readable names for the job fields a saved job update can list. */
+const SAVED_JOB_FIELD_LABELS: Record<string, string> = {
+  title: "Job title",
+  jobType: "Job type",
+  compensationType: "Compensation type",
+  compensationMin: "Pay range",
+  compensationMax: "Pay range",
+  compensationCurrency: "Pay currency",
+  payPeriod: "Pay period",
+  city: "Location",
+  state: "Location",
+  country: "Location",
+  isRemote: "Remote work",
+  applicationDeadline: "Application deadline",
+};
+
 /**
  * Service for handling email operations, including sending various types of emails.
  */
@@ -565,6 +597,187 @@ ${footer}`,
     }
   }
 
+  /**
+   * Tells a candidate about a job they saved: a material change, the
+   * deadline coming up, or the job closing.
+   * @param userId The ID of the user.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param details The saved job and what happened to it.
+   */
+  async sendSavedJobUpdate(
+    userId: number,
+    email: string,
+    fullName: string,
+    details: SavedJobUpdateDetails,
+  ): Promise<void> {
+    try {
+      const canSend = await this.canSendEmail(
+        userId,
+        EmailType.SAVED_JOB_UPDATE,
+      );
+      if (!canSend) {
+        return;
+      }
+
+      const jobLink = `${env.FRONTEND_URL}/jobs/${details.jobId}`;
+      const deadline = details.applicationDeadline
+        ? new Date(details.applicationDeadline).toLocaleDateString("en-US", {
+            timeZone: "UTC",
+            dateStyle: "long",
+          })
+        : null;
+
+      const content = {
+        changed: {
+          subject: `A job you saved was updated: ${details.jobTitle}`,
+          heading: "A job you saved was updated",
+          message:
+            "The employer changed some details of this job. Take another look before you apply.",
+          details: [
+            ...new Set(
+              (details.changedFields ?? []).map(
+                (field) => SAVED_JOB_FIELD_LABELS[field] ?? field,
+              ),
+            ),
+          ]
+            .map(
+              (label) =>
+                `<li><strong>Updated:</strong> ${this.escapeHtml(label)}</li>`,
+            )
+            .join("\n"),
+          actionText: "View Job",
+        },
+        deadline: {
+          subject: `Applications close soon: ${details.jobTitle}`,
+          heading: "Applications close soon",
+          message:
+            "A job you saved stops taking applications in a few days. Apply before it closes.",
+          details: deadline
+            ? `<li><strong>Deadline:</strong> ${this.escapeHtml(deadline)}</li>`
+            : "",
+          actionText: "Apply Now",
+        },
+        closed: {
+          subject: `A job you saved has closed: ${details.jobTitle}`,
+          heading: "A job you saved has closed",
+          message:
+            "This job is no longer taking applications. It stays in your saved jobs so you can keep track of it.",
+          details: "",
+          actionText: "Find Similar Jobs",
+        },
+      }[details.update];
+
+      const template = await this.loadTemplate("savedJobUpdate");
+      const logoPath = await this.getImageAsBase64("GetInvolved_Logo.png");
+      const footer = await this.generateEmailFooter(
+        userId,
+        EmailType.SAVED_JOB_UPDATE,
+      );
+
+      const htmlContent = template
+        .replace(/{{heading}}/g, this.escapeHtml(content.heading))
+        .replace("{{name}}", this.escapeHtml(fullName))
+        .replace("{{message}}", this.escapeHtml(content.message))
+        .replace("{{jobTitle}}", this.escapeHtml(details.jobTitle))
+        .replace("{{details}}", content.details)
+        .replace(
+          "{{actionLink}}",
+          details.update === "closed" ? `${env.FRONTEND_URL}/` : jobLink,
+        )
+        .replace("{{actionText}}", this.escapeHtml(content.actionText))
+        .replace("{{logoPath}}", logoPath)
+        .replace("</body>", `${footer}</body>`);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: content.subject,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Email service error");
+    }
+  }
+
+  /**
+   * Tells a member of the posting team that a job passed its application
+   * deadline and was closed.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's name.
+   * @param jobTitle The title of the expired job.
+   * @param jobId The ID of the expired job.
+   */
+  async sendJobExpiredEmail(
+    email: string,
+    fullName: string,
+    jobTitle: string,
+    jobId: number,
+  ): Promise<void> {
+    try {
+      const template = await this.loadTemplate("jobExpired");
+      const logoPath = await this.getImageAsBase64("GetInvolved_Logo.png");
+
+      const htmlContent = template
+        .replace(/{{userName}}/g, this.escapeHtml(fullName))
+        .replace(/{{jobTitle}}/g, this.escapeHtml(jobTitle))
+        .replace(/{{jobId}}/g, jobId.toString())
+        .replace(/{{expiryDate}}/g, new Date().toLocaleDateString())
+        .replace("{{logoPath}}", logoPath);
+
+      const mailOptions = {
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `Your job posting "${jobTitle}" has expired`,
+        html: htmlContent,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      logger.error(error, "Email service error");
+    }
+  }
+
+  /**
+   * Tells a member of the posting team that a scheduled job could not go
+   * live within the plan's limits and was moved back to draft.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's name.
+   * @param jobTitle The title of the scheduled job.
+   * @param jobId The ID of the scheduled job.
+   * @param reason Why the plan blocked the job, e.g. its active job limit.
+   */
+  async sendScheduledJobBlockedEmail(
+    email: string,
+    fullName: string,
+    jobTitle: string,
+    jobId: number,
+    reason: string,
+  ): Promise<void> {
+    try {
+      const template = await this.loadTemplate("scheduledJobBlocked");
+      const logoPath = await this.getImageAsBase64("GetInvolved_Logo.png");
+
+      const htmlContent = template
+        .replace(/{{userName}}/g, this.escapeHtml(fullName))
+        .replace(/{{jobTitle}}/g, this.escapeHtml(jobTitle))
+        .replace(/{{jobId}}/g, jobId.toString())
+        .replace(/{{reason}}/g, this.escapeHtml(reason))
+        .replace("{{logoPath}}", logoPath);
+
+      const mailOptions = {
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `Your scheduled job "${jobTitle}" was not published`,
+        html: htmlContent,
+      };
+
+      await this.transporter.sendMail(mailOptions);
+    } catch (error) {
+      logger.error(error, "Email service error");
+    }
+  }
+
   /**
    * Sends an organization invitation email to the invitee.
    * @param email The recipient's email address.
@@ -663,6 +876,8 @@ ${footer}`,
    * @param jobTitle The title of the job.
    * @param oldStatus The previous status of the application.
    * @param newStatus The new status of the application.
+   * @param oldStatusLabel The pipeline label of the previous status, if known.
+   * @param newStatusLabel The pipeline label of the new status, if known.
    */
   async sendApplicationStatusUpdate(
     email: string,
@@ -670,6 +885,9 @@ ${footer}`,
     jobTitle: string,
     oldStatus: string,
     newStatus: string,
+    oldStatusLabel: string = getApplicationStatusLabel(oldStatus),
+    newStatusLabel: string = getApplicationStatusLabel(newStatus),
+    customMessage?: string,
   ): Promise<void> {
     try {
       const template = await this.loadTemplate("applicationStatusUpdate");
@@ -724,23 +942,23 @@ ${footer}`,
         },
       };
 
+      // Custom pipeline stages have no tailored copy, so describe them by label
       const statusInfo = statusMessages[newStatus.toLowerCase()] || {
-        message: `Your application status has been updated from ${oldStatus} to ${newStatus}.`,
+        message: `Your application status has been updated from ${oldStatusLabel} to ${newStatusLabel}.`,
         nextSteps:
           "Please check your dashboard for more details about your application.",
       };
 
-      // Get human-readable status labels
-      const oldStatusLabel = getApplicationStatusLabel(oldStatus);
-      const newStatusLabel = getApplicationStatusLabel(newStatus);
-
       const htmlContent = template
         .replace("{{name}}", this.escapeHtml(fullName))
         .replace("{{jobTitle}}", this.escapeHtml(jobTitle))
         .replace("{{oldStatus}}", this.escapeHtml(oldStatusLabel))
         .replace("{{newStatusRaw}}", this.escapeHtml(newStatus.toLowerCase()))
         .replace("{{newStatusLabel}}", this.escapeHtml(newStatusLabel))
-        .replace("{{statusMessage}}", this.escapeHtml(statusInfo.message))
+        .replace(
+          "{{statusMessage}}",
+          this.escapeHtml(customMessage ?? statusInfo.message),
+        )
         .replace("{{nextStepsMessage}}", this.escapeHtml(statusInfo.nextSteps))
         .replace("{{dashboardLink}}", dashboardLink)
         .replace("{{logoPath}}", logoPath);
@@ -758,6 +976,297 @@ ${footer}`,
     }
   }
 
+  /**
+   * Formats an interview time for email copy. Times are shown in UTC; the
+   * attached .ics lets calendar clients show them in local time.
+   */
+  private formatInterviewTime(iso: string): string {
+    return `${new Date(iso).toLocaleString("en-US", {
+      timeZone: "UTC",
+      dateStyle: "full",
+      timeStyle: "short",
+    })} UTC`;
+  }
+
+  /**
+   * Builds the escaped detail list items describing an interview.
+   */
+  private buildInterviewDetails(interview: InterviewEmailDetails): string {
+    const items: string[] = [];
+
+    if (interview.startsAt && interview.endsAt) {
+      items.push(
+        `<strong>When:</strong> ${this.escapeHtml(this.formatInterviewTime(interview.startsAt))} – ${this.escapeHtml(
+          new Date(interview.endsAt).toLocaleTimeString("en-US", {
+            timeZone: "UTC",
+            timeStyle: "short",
+          }),
+        )} UTC`,
+      );
+    }
+
+    const locationLabels = {
+      in_person: "In person",
+      video: "Video call",
+      phone: "Phone call",
+    } as const;
+    items.push(
+      `<strong>Format:</strong> ${locationLabels[interview.locationType]}`,
+    );
+
+    if (interview.location) {
+      items.push(
+        `<strong>Location:</strong> ${this.escapeHtml(interview.location)}`,
+      );
+    }
+
+    if (interview.meetingUrl) {
+      const url = this.escapeHtml(interview.meetingUrl);
+      items.push(
+        `<strong>Meeting link:</strong> <a href="${url}" style="color: #0066cc;">${url}</a>`,
+      );
+    }
+
+    return items.map((item) => `<li>${item}</li>`).join("\n");
+  }
+
+  /**
+   * Builds the .ics attachment for an interview. The interview id is the
+   * event UID, so updates and cancellations replace the calendar entry.
+   */
+  private buildInterviewCalendarAttachment(
+    interview: InterviewEmailDetails,
+    method: CalendarMethod,
+  ) {
+    if (!interview.startsAt || !interview.endsAt) {
+      return null;
+    }
+
+    const content = createCalendarEvent({
+      uid: `interview-${interview.interviewId}@getinvolved.team`,
+      sequence: interview.sequence,
+      method,
+      start: new Date(interview.startsAt),
+      end: new Date(interview.endsAt),
+      summary: `Interview: ${interview.jobTitle} (${interview.organizationName})`,
+      description: `Interview for the ${interview.jobTitle} position at ${interview.organizationName}.`,
+      location: interview.location ?? interview.meetingUrl ?? undefined,
+      url: interview.meetingUrl ?? undefined,
+      organizer: { name: interview.organizationName, email: env.EMAIL_FROM },
+      attendees: interview.attendees.map((attendee) => ({
+        name: attendee.fullName,
+        email: attendee.email,
+      })),
+    });
+
+    return {
+      filename:
+        method === "CANCEL" ? "interview-cancelled.ics" : "interview.ics",
+      content,
+      contentType: `text/calendar; charset=utf-8; method=${method}`,
+    };
+  }
+
+  /**
+   * Renders the shared interview email template.
+   */
+  private async renderInterviewEmail(content: {
+    fullName: string;
+    heading: string;
+    message: string;
+    jobTitle: string;
+    organizationName: string;
+    details: string;
+    actionLink: string;
+    actionText: string;
+  }): Promise<string> {
+    const template = await this.loadTemplate("interviewNotification");
+    const logoPath = await this.getImageAsBase64("GetInvolved_Logo.png");
+
+    return template
+      .replace(/{{heading}}/g, this.escapeHtml(content.heading))
+      .replace("{{name}}", this.escapeHtml(content.fullName))
+      .replace("{{message}}", this.escapeHtml(content.message))
+      .replace("{{jobTitle}}", this.escapeHtml(content.jobTitle))
+      .replace(
+        "{{organizationName}}",
+        this.escapeHtml(content.organizationName),
+      )
+      .replace("{{details}}", content.details)
+      .replace("{{actionLink}}", content.actionLink)
+      .replace("{{actionText}}", this.escapeHtml(content.actionText))
+      .replace("{{logoPath}}", logoPath);
+  }
+
+  /**
+   * Sends the candidate the time slots proposed for an interview.
+   * @param email The candidate's email address.
+   * @param fullName The candidate's full name.
+   * @param jobTitle The title of the job.
+   * @param organizationName The name of the hiring organization.
+   * @param slots The proposed time slots.
+   * @param rescheduled Whether the slots replace an earlier proposal or booking.
+   */
+  async sendInterviewProposal(
+    email: string,
+    fullName: string,
+    jobTitle: string,
+    organizationName: string,
+    slots: { startsAt: string; endsAt: string }[],
+    rescheduled: boolean,
+  ): Promise<void> {
+    try {
+      const htmlContent = await this.renderInterviewEmail({
+        fullName,
+        heading: rescheduled
+          ? "Your interview is being rescheduled"
+          : "You're invited to interview",
+        message: rescheduled
+          ? `${organizationName} needs to move your interview. Please pick one of the new times below.`
+          : `${organizationName} would like to interview you. Please pick one of the proposed times below.`,
+        jobTitle,
+        organizationName,
+        details: slots
+          .map(
+            (slot) =>
+              `<li>${this.escapeHtml(this.formatInterviewTime(slot.startsAt))}</li>`,
+          )
+          .join("\n"),
+        actionLink: `${env.FRONTEND_URL}/applications`,
+        actionText: "Choose a Time",
+      });
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: rescheduled
+          ? `Interview Rescheduled: ${jobTitle}`
+          : `Interview Invitation: ${jobTitle}`,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Email service error");
+    }
+  }
+
+  /**
+   * Sends an interview confirmation with an .ics invitation attached.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param interview The scheduled interview.
+   */
+  async sendInterviewScheduled(
+    email: string,
+    fullName: string,
+    interview: InterviewEmailDetails,
+  ): Promise<void> {
+    try {
+      const htmlContent = await this.renderInterviewEmail({
+        fullName,
+        heading: "Your interview is scheduled",
+        message:
+          "The interview time has been confirmed. A calendar invitation is attached to this email.",
+        jobTitle: interview.jobTitle,
+        organizationName: interview.organizationName,
+        details: this.buildInterviewDetails(interview),
+        actionLink: `${env.FRONTEND_URL}/applications`,
+        actionText: "View Interview",
+      });
+      const attachment = this.buildInterviewCalendarAttachment(
+        interview,
+        "REQUEST",
+      );
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `Interview Scheduled: ${interview.jobTitle}`,
+        html: htmlContent,
+        attachments: attachment ? [attachment] : [],
+      });
+    } catch (error) {
+      logger.error(error, "Email service error");
+    }
+  }
+
+  /**
+   * Sends a reminder ahead of a scheduled interview.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param interview The upcoming interview.
+   */
+  async sendInterviewReminder(
+    email: string,
+    fullName: string,
+    interview: InterviewEmailDetails,
+  ): Promise<void> {
+    try {
+      const htmlContent = await this.renderInterviewEmail({
+        fullName,
+        heading: "Your interview is coming up",
+        message: "This is a reminder of your upcoming interview.",
+        jobTitle: interview.jobTitle,
+        organizationName: interview.organizationName,
+        details: this.buildInterviewDetails(interview),
+        actionLink: `${env.FRONTEND_URL}/applications`,
+        actionText: "View Interview",
+      });
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `Interview Reminder: ${interview.jobTitle}`,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Email service error");
+    }
+  }
+
+  /**
+   * Sends an interview cancellation, with an .ics cancellation attached when
+   * the interview had been scheduled.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param interview The cancelled interview.
+   * @param reason The reason given for the cancellation, if any.
+   */
+  async sendInterviewCancelled(
+    email: string,
+    fullName: string,
+    interview: InterviewEmailDetails,
+    reason: string | null,
+  ): Promise<void> {
+    try {
+      const htmlContent = await this.renderInterviewEmail({
+        fullName,
+        heading: "Your interview has been cancelled",
+        message: reason
+          ? `The interview has been cancelled. Reason: ${reason}`
+          : "The interview has been cancelled.",
+        jobTitle: interview.jobTitle,
+        organizationName: interview.organizationName,
+        details: this.buildInterviewDetails(interview),
+        actionLink: `${env.FRONTEND_URL}/applications`,
+        actionText: "View My Applications",
+      });
+      const attachment = this.buildInterviewCalendarAttachment(
+        interview,
+        "CANCEL",
+      );
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `Interview Cancelled: ${interview.jobTitle}`,
+        html: htmlContent,
+        attachments: attachment ? [attachment] : [],
+      });
+    } catch (error) {
+      logger.error(error, "Email service error");
+    }
+  }
+
   /**
    * Sends a job alert notification email with matched jobs.
    * @param userId The ID of the user.
@@ -878,6 +1387,434 @@ ${footer}`,
     }
   }
 
+  /**
+   * Renders a titled list of jobs for the weekly digest, or nothing when
+   * the list is empty.
+   */
+  private renderDigestSection(heading: string, jobs: DigestJob[]): string {
+    if (jobs.length === 0) {
+      return "";
+    }
+
+    const esc = (s: string) => this.escapeHtml(s);
+    const jobsHtml = jobs
+      .map(
+        (job) => `
+        <div style="margin-bottom: 20px; padding: 15px; background: #f9f9f9; border-radius: 5px;">
+          <h3 style="margin: 0 0 10px 0; color: #333;">
+            <a href="${env.FRONTEND_URL}/jobs/${job.id}" style="color: #0066cc; text-decoration: none;">
+              ${esc(job.title)}
+            </a>
+          </h3>
+          <p style="margin: 5px 0; color: #666;">
+            <strong>${esc(job.company)}</strong>
+            ${job.location ? ` • ${esc(job.location)}` : ""}
+            ${job.jobType ? ` • ${esc(job.jobType)}` : ""}
+          </p>
+        </div>
+      `,
+      )
+      .join("");
+
+    return `<h2>${esc(heading)}</h2><div class="jobs-container">${jobsHtml}</div>`;
+  }
+
+  /**
+   * Sends a seeker their weekly digest of recommended and alert-matched jobs.
+   * @param userId The ID of the user.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param digest The jobs to list.
+   */
+  async sendWeeklyJobDigest(
+    userId: number,
+    email: string,
+    fullName: string,
+    digest: WeeklyJobDigest,
+  ): Promise<void> {
+    try {
+      const canSend = await this.canSendEmail(userId, EmailType.WEEKLY_DIGEST);
+      if (!canSend) {
+        return;
+      }
+
+      const template = await this.loadTemplate("weeklyJobDigest");
+      const logoPath = await this.getImageAsBase64("logo.png");
+      const footer = await this.generateEmailFooter(
+        userId,
+        EmailType.WEEKLY_DIGEST,
+      );
+
+      const sectionsHtml = [
+        this.renderDigestSection("Recommended for you", digest.recommendedJobs),
+        this.renderDigestSection(
+          "New matches for your job alerts",
+          digest.alertMatches,
+        ),
+      ].join("");
+
+      const htmlContent = template
+        .replace("{{name}}", this.escapeHtml(fullName))
+        .replace("{{sectionsHtml}}", sectionsHtml)
+        .replace("{{jobsLink}}", `${env.FRONTEND_URL}/jobs`)
+        .replace("{{logoPath}}", logoPath)
+        .replace("{{footer}}", footer);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: "Your weekly job digest",
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Failed to send weekly job digest");
+    }
+  }
+
+  /**
+   * Sends a recruiter the candidates shortlisted for a job that just went
+   * live, with a link into candidate search prefilled with the job's skills.
+   * @param userId The ID of the recruiter.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param shortlist The job and its matched candidates.
+   */
+  async sendMatchedCandidates(
+    userId: number,
+    email: string,
+    fullName: string,
+    shortlist: MatchedCandidatesShortlist,
+  ): Promise<void> {
+    try {
+      const canSend = await this.canSendEmail(
+        userId,
+        EmailType.MATCHED_CANDIDATES,
+      );
+      if (!canSend) {
+        return;
+      }
+
+      const template = await this.loadTemplate("matchedCandidates");
+      const logoPath = await this.getImageAsBase64("logo.png");
+      const footer = await this.generateEmailFooter(
+        userId,
+        EmailType.MATCHED_CANDIDATES,
+      );
+
+      const esc = (s: string) => this.escapeHtml(s);
+      const candidatesHtml = shortlist.candidates
+        .map(
+          (candidate) => `
+        <div style="margin-bottom: 20px; padding: 15px; background: #f9f9f9; border-radius: 5px;">
+          <h3 style="margin: 0 0 10px 0; color: #333;">${esc(candidate.name)}</h3>
+          <p style="margin: 5px 0; color: #666;">
+            ${candidate.headline ? esc(candidate.headline) : ""}
+            ${candidate.location ? ` • ${esc(candidate.location)}` : ""}
+          </p>
+          <p style="margin: 5px 0; color: #666;">
+            Matches: ${candidate.matchedTerms.map(esc).join(", ")}
+          </p>
+        </div>
+      `,
+        )
+        .join("");
+
+      const searchParams = new URLSearchParams({ openToWork: "true" });
+      for (const skill of shortlist.searchSkills) {
+        searchParams.append("skills", skill);
+      }
+      const searchLink = `${env.FRONTEND_URL}/employer/candidates?${searchParams.toString()}`;
+
+      const htmlContent = template
+        .replace("{{name}}", esc(fullName))
+        .replace(/{{jobTitle}}/g, esc(shortlist.jobTitle))
+        .replace("{{candidateCount}}", shortlist.candidates.length.toString())
+        .replace("{{candidatesHtml}}", () => candidatesHtml)
+        .replace("{{searchLink}}", searchLink)
+        .replace("{{jobLink}}", `${env.FRONTEND_URL}/jobs/${shortlist.jobId}`)
+        .replace("{{logoPath}}", logoPath)
+        .replace("{{footer}}", footer);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `Candidates matched to "${shortlist.jobTitle}"`,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Failed to send matched candidates email");
+    }
+  }
+
+  /**
+   * Invites a candidate to apply to a job on behalf of the employer that
+   * found them through candidate search.
+   * @param userId The ID of the candidate.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param invitation The job, the inviting organization and the recruiter's note.
+   */
+  async sendJobInvitation(
+    userId: number,
+    email: string,
+    fullName: string,
+    invitation: JobInvitation,
+  ): Promise<void> {
+    try {
+      const canSend = await this.canSendEmail(userId, EmailType.JOB_MATCH);
+      if (!canSend) {
+        return;
+      }
+
+      const template = await this.loadTemplate("jobInvitation");
+      const logoPath = await this.getImageAsBase64("logo.png");
+      const footer = await this.generateEmailFooter(
+        userId,
+        EmailType.JOB_MATCH,
+      );
+
+      const messageHtml = invitation.message
+        ? `<div class="message"><p>${this.escapeHtml(invitation.message)}</p></div>`
+        : "";
+
+      const htmlContent = template
+        .replace("{{name}}", this.escapeHtml(fullName))
+        .replace(
+          /{{organizationName}}/g,
+          this.escapeHtml(invitation.organizationName),
+        )
+        .replace(/{{jobTitle}}/g, this.escapeHtml(invitation.jobTitle))
+        .replace("{{messageHtml}}", () => messageHtml)
+        .replace("{{jobLink}}", `${env.FRONTEND_URL}/jobs/${invitation.jobId}`)
+        .replace("{{logoPath}}", logoPath)
+        .replace("{{footer}}", footer);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `${invitation.organizationName} invited you to apply for ${invitation.jobTitle}`,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Failed to send job invitation");
+    }
+  }
+
+  /**
+   * Tells a follower that an organization they follow published a new job.
+   * @param userId The ID of the follower.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param job The new job and the organization that posted it.
+   */
+  async sendFollowedOrganizationJob(
+    userId: number,
+    email: string,
+    fullName: string,
+    job: FollowedOrganizationJob,
+  ): Promise<void> {
+    try {
+      const canSend = await this.canSendEmail(userId, EmailType.JOB_MATCH);
+      if (!canSend) {
+        return;
+      }
+
+      const template = await this.loadTemplate("followedOrganizationJob");
+      const logoPath = await this.getImageAsBase64("logo.png");
+      const footer = await this.generateEmailFooter(
+        userId,
+        EmailType.JOB_MATCH,
+      );
+
+      const htmlContent = template
+        .replace("{{name}}", this.escapeHtml(fullName))
+        .replace(/{{organizationName}}/g, this.escapeHtml(job.organizationName))
+        .replace("{{jobTitle}}", this.escapeHtml(job.jobTitle))
+        .replace("{{location}}", this.escapeHtml(job.location))
+        .replace("{{jobLink}}", `${env.FRONTEND_URL}/jobs/${job.jobId}`)
+        .replace(
+          "{{organizationLink}}",
+          `${env.FRONTEND_URL}/organizations/${job.organizationId}`,
+        )
+        .replace("{{logoPath}}", logoPath)
+        .replace("{{footer}}", footer);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `New job from ${job.organizationName}: ${job.jobTitle}`,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Failed to send followed organization job email");
+    }
+  }
+
+  /**
+   * Tells one side of an application's thread about a new message from the
+   * other side.
+   * @param userId The ID of the recipient.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param message The thread the message was posted in and its preview.
+   */
+  async sendApplicationMessage(
+    userId: number,
+    email: string,
+    fullName: string,
+    message: ApplicationMessageNotice,
+  ): Promise<void> {
+    try {
+      const canSend = await this.canSendEmail(
+        userId,
+        EmailType.APPLICATION_STATUS,
+      );
+      if (!canSend) {
+        return;
+      }
+
+      const template = await this.loadTemplate("applicationMessage");
+      const logoPath = await this.getImageAsBase64("logo.png");
+      const footer = await this.generateEmailFooter(
+        userId,
+        EmailType.APPLICATION_STATUS,
+      );
+
+      const threadLink =
+        message.recipient === "applicant"
+          ? `${env.FRONTEND_URL}/messages/${message.applicationId}`
+          : `${env.FRONTEND_URL}/employer/organizations/${message.organizationId}/jobs/${message.jobId}/applications/${message.applicationId}`;
+
+      const htmlContent = template
+        .replace("{{name}}", this.escapeHtml(fullName))
+        .replace("{{senderName}}", this.escapeHtml(message.senderName))
+        .replace(/{{jobTitle}}/g, this.escapeHtml(message.jobTitle))
+        .replace(
+          "{{organizationName}}",
+          this.escapeHtml(message.organizationName),
+        )
+        .replace("{{preview}}", this.escapeHtml(message.preview))
+        .replace("{{threadLink}}", threadLink)
+        .replace("{{logoPath}}", logoPath)
+        .replace("{{footer}}", footer);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: `New message about ${message.jobTitle}`,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Failed to send application message email");
+    }
+  }
+
+  /**
+   * Tells a member of the posting team that platform staff warned the
+   * organization about a job, or removed it.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param notice The job, the kind of notice and the staff explanation.
+   */
+  async sendModerationNotice(
+    email: string,
+    fullName: string,
+    notice: ModerationNotice,
+  ): Promise<void> {
+    try {
+      const template = await this.loadTemplate("moderationNotice");
+      const logoPath = await this.getImageAsBase64("logo.png");
+
+      const removed = notice.kind === "removal";
+      const heading = removed
+        ? "Job Posting Removed"
+        : "Warning About a Job Posting";
+      const intro = removed
+        ? "Our moderation team reviewed one of your organization's job postings and removed it for breaking our posting guidelines. It is no longer visible to candidates and cannot be reposted."
+        : "Our moderation team is reviewing one of your organization's job postings and has a concern about it. Please address it promptly; postings that break our guidelines are removed.";
+      const noteHtml = notice.note
+        ? `<div class="note"><p>${this.escapeHtml(notice.note)}</p></div>`
+        : "";
+
+      const htmlContent = template
+        .replace("{{name}}", this.escapeHtml(fullName))
+        .replace(/{{heading}}/g, heading)
+        .replace("{{intro}}", intro)
+        .replace(
+          "{{organizationName}}",
+          this.escapeHtml(notice.organizationName),
+        )
+        .replace("{{jobTitle}}", this.escapeHtml(notice.jobTitle))
+        .replace("{{jobId}}", notice.jobId.toString())
+        .replace("{{noteHtml}}", () => noteHtml)
+        .replace("{{logoPath}}", logoPath);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: removed
+          ? `Your job posting "${notice.jobTitle}" was removed`
+          : `Action needed on your job posting "${notice.jobTitle}"`,
+        html: htmlContent,
+      });
+    } catch (error) {
+      logger.error(error, "Failed to send moderation notice");
+    }
+  }
+
+  /**
+   * Sends one copy of a newsletter. The body is staff-authored HTML and is
+   * inserted as is; the unsubscribe link is also offered through the
+   * List-Unsubscribe header.
+   * @param userId The ID of the user.
+   * @param email The recipient's email address.
+   * @param fullName The recipient's full name.
+   * @param newsletter The newsletter content and the recipient's unsubscribe link.
+   */
+  async sendNewsletter(
+    userId: number,
+    email: string,
+    fullName: string,
+    newsletter: NewsletterEmail,
+  ): Promise<void> {
+    try {
+      const canSend = await this.canSendEmail(
+        userId,
+        EmailType.MONTHLY_NEWSLETTER,
+      );
+      if (!canSend) {
+        return;
+      }
+
+      const template = await this.loadTemplate("newsletter");
+      const logoPath = await this.getImageAsBase64("logo.png");
+      const footer = await this.generateEmailFooter(
+        userId,
+        EmailType.MONTHLY_NEWSLETTER,
+      );
+
+      const htmlContent = template
+        .replace("{{subject}}", this.escapeHtml(newsletter.subject))
+        .replace("{{name}}", this.escapeHtml(fullName))
+        // A function replacement keeps "$" sequences in the body literal
+        .replace("{{body}}", () => newsletter.body)
+        .replace("{{logoPath}}", logoPath)
+        .replace("{{footer}}", footer);
+
+      await this.transporter.sendMail({
+        from: env.EMAIL_FROM,
+        to: email,
+        subject: newsletter.subject,
+        html: htmlContent,
+        ...(newsletter.unsubscribeUrl
+          ? { list: { unsubscribe: newsletter.unsubscribeUrl } }
+          : {}),
+      });
+    } catch (error) {
+      logger.error(error, "Failed to send newsletter");
+    }
+  }
+
   /**
    * Sends an unsubscribe confirmation email to the user.
    * @param email The recipient's email address.
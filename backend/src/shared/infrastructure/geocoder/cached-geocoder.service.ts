@@ -0,0 +1,38 @@
+import { CacheService } from "@shared/infrastructure/cache.service";
+import type {
+  GeocodeAddress,
+  GeocoderPort,
+  GeoPoint,
+} from "@shared/ports/geocoder.port";
+
+const GEOCODE_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * Caches another geocoder's hits in Redis, keyed by the normalized address.
+ * Misses are not cached: the inner geocoder reports provider outages as
+ * `null` too, and those must not stick for a month.
+ */
+export class CachedGeocoderService implements GeocoderPort {
+  constructor(private readonly inner: GeocoderPort) {}
+
+  async geocode(address: GeocodeAddress): Promise<GeoPoint | null> {
+    const key = `geocode:${[
+      address.streetAddress,
+      address.city,
+      address.state,
+      address.country,
+      address.zipcode,
+    ]
+      .map((part) => part?.trim().toLowerCase() ?? "")
+      .join("|")}`;
+
+    const cached = await CacheService.get<GeoPoint>(key);
+    if (cached) return cached;
+
+    const point = await this.inner.geocode(address);
+    if (point) {
+      await CacheService.set(key, point, { ttl: GEOCODE_CACHE_TTL_SECONDS });
+    }
+    return point;
+  }
+}
@@ -0,0 +1,15 @@
+import { env } from "@shared/config/env";
+import type { GeocoderPort } from "@shared/ports/geocoder.port";
+import { CachedGeocoderService } from "./cached-geocoder.service";
+import { LocalGeocoderService } from "./local-geocoder.service";
+import { NominatimGeocoderService } from "./nominatim-geocoder.service";
+
+/** Builds the geocoder selected by `GEOCODER_PROVIDER`. */
+export function createGeocoder(): GeocoderPort {
+  if (env.GEOCODER_PROVIDER === "nominatim") {
+    return new CachedGeocoderService(
+      new NominatimGeocoderService(env.GEOCODER_URL, env.GEOCODER_USER_AGENT),
+    );
+  }
+  return new LocalGeocoderService();
+}
@@ -0,0 +1,75 @@
+import type {
+  GeocodeAddress,
+  GeocoderPort,
+  GeoPoint,
+} from "@shared/ports/geocoder.port";
+import { US_CITIES, US_STATE_CENTROIDS } from "./us-gazetteer";
+
+const US_COUNTRY_NAMES = new Set([
+  "us",
+  "usa",
+  "united states",
+  "united states of america",
+]);
+
+const normalize = (value: string | null | undefined) =>
+  value?.trim().toLowerCase() ?? "";
+
+/**
+ * Network-free geocoder backed by a small built-in US gazetteer.
+ *
+ * Resolves, from most to least specific: a known zip code, a known
+ * city + state, then the state's centroid. Anything outside the US, or
+ * not in the gazetteer, resolves to `null`. Intended for tests and local
+ * development; production uses a network provider (see `createGeocoder`).
+ */
+export class LocalGeocoderService implements GeocoderPort {
+  private readonly zipcodes = new Map<string, GeoPoint>();
+  private readonly cities = new Map<string, GeoPoint>();
+  private readonly states = new Map<string, GeoPoint>();
+
+  /**
+   * @param extraZipcodes Additional zip code → point entries, layered over
+   *                      the built-in gazetteer (handy for test fixtures).
+   */
+  constructor(extraZipcodes: Record<string, GeoPoint> = {}) {
+    for (const [code, { name, lat, lng }] of Object.entries(
+      US_STATE_CENTROIDS,
+    )) {
+      this.states.set(normalize(code), { lat, lng });
+      this.states.set(normalize(name), { lat, lng });
+    }
+
+    for (const { city, state, zipcodes, point } of US_CITIES) {
+      const stateName = US_STATE_CENTROIDS[state]?.name;
+      this.cities.set(`${normalize(city)}|${normalize(state)}`, point);
+      if (stateName) {
+        this.cities.set(`${normalize(city)}|${normalize(stateName)}`, point);
+      }
+      for (const zipcode of zipcodes) {
+        this.zipcodes.set(zipcode, point);
+      }
+    }
+
+    for (const [zipcode, point] of Object.entries(extraZipcodes)) {
+      this.zipcodes.set(zipcode, point);
+    }
+  }
+
+  async geocode(address: GeocodeAddress): Promise<GeoPoint | null> {
+    const country = normalize(address.country);
+    if (country && !US_COUNTRY_NAMES.has(country)) return null;
+
+    // ZIP+4 ("30301-1234") resolves through its five-digit prefix
+    const zipcode = address.zipcode?.trim().slice(0, 5);
+    const byZipcode = zipcode ? this.zipcodes.get(zipcode) : undefined;
+    if (byZipcode) return byZipcode;
+
+    const city = normalize(address.city);
+    const state = normalize(address.state);
+    const byCity = city ? this.cities.get(`${city}|${state}`) : undefined;
+    if (byCity) return byCity;
+
+    return (state && this.states.get(state)) || null;
+  }
+}
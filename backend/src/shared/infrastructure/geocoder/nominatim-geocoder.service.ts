@@ -0,0 +1,69 @@
+import logger from "@shared/logger";
+import type {
+  GeocodeAddress,
+  GeocoderPort,
+  GeoPoint,
+} from "@shared/ports/geocoder.port";
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+type NominatimResult = { lat: string; lon: string };
+
+/**
+ * Geocoder backed by a Nominatim-compatible search API (OpenStreetMap's
+ * public instance or a self-hosted one). Uses the structured query
+ * parameters so a bare zip code or city/state pair resolves without being
+ * parsed as free text.
+ *
+ * The public instance allows roughly one request per second and requires
+ * an identifying User-Agent; wrap this in `CachedGeocoderService` so
+ * repeated addresses don't hit the network.
+ */
+export class NominatimGeocoderService implements GeocoderPort {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly userAgent: string,
+  ) {}
+
+  async geocode(address: GeocodeAddress): Promise<GeoPoint | null> {
+    const url = new URL("/search", this.baseUrl);
+    url.searchParams.set("format", "jsonv2");
+    url.searchParams.set("limit", "1");
+
+    const fields = {
+      street: address.streetAddress,
+      city: address.city,
+      state: address.state,
+      country: address.country,
+      postalcode: address.zipcode,
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value?.trim()) url.searchParams.set(key, value.trim());
+    }
+    if (url.searchParams.size === 2) return null;
+
+    try {
+      const response = await fetch(url, {
+        headers: { "User-Agent": this.userAgent, Accept: "application/json" },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        logger.warn("Geocoder request failed", { status: response.status });
+        return null;
+      }
+
+      const [first] = (await response.json()) as NominatimResult[];
+      if (!first) return null;
+
+      const lat = Number(first.lat);
+      const lng = Number(first.lon);
+      return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+    } catch (error) {
+      logger.warn("Geocoder request errored", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import type { GeoPoint } from "@shared/ports/geocoder.port";
+
+/**
+ * Approximate geographic centres of the US states (plus DC), keyed by USPS
+ * code. Used as the coarsest fallback when only a state is known.
+ */
+export const US_STATE_CENTROIDS: Record<string, GeoPoint & { name: string }> = {
+  AL: { name: "Alabama", lat: 32.8067, lng: -86.7911 },
+  AK: { name: "Alaska", lat: 61.3707, lng: -152.4044 },
+  AZ: { name: "Arizona", lat: 33.7298, lng: -111.4312 },
+  AR: { name: "Arkansas", lat: 34.9697, lng: -92.3731 },
+  CA: { name: "California", lat: 36.1162, lng: -119.6816 },
+  CO: { name: "Colorado", lat: 39.0598, lng: -105.3111 },
+  CT: { name: "Connecticut", lat: 41.5978, lng: -72.7554 },
+  DE: { name: "Delaware", lat: 39.3185, lng: -75.5071 },
+  DC: { name: "District of Columbia", lat: 38.8974, lng: -77.0268 },
+  FL: { name: "Florida", lat: 27.7663, lng: -81.6868 },
+  GA: { name: "Georgia", lat: 33.0406, lng: -83.6431 },
+  HI: { name: "Hawaii", lat: 21.0943, lng: -157.4983 },
+  ID: { name: "Idaho", lat: 44.2405, lng: -114.4788 },
+  IL: { name: "Illinois", lat: 40.3495, lng: -88.9861 },
+  IN: { name: "Indiana", lat: 39.8494, lng: -86.2583 },
+  IA: { name: "Iowa", lat: 42.0115, lng: -93.2105 },
+  KS: { name: "Kansas", lat: 38.5266, lng: -96.7265 },
+  KY: { name: "Kentucky", lat: 37.6681, lng: -84.6701 },
+  LA: { name: "Louisiana", lat: 31.1695, lng: -91.8678 },
+  ME: { name: "Maine", lat: 44.6939, lng: -69.3819 },
+  MD: { name: "Maryland", lat: 39.0639, lng: -76.8021 },
+  MA: { name: "Massachusetts", lat: 42.2302, lng: -71.5301 },
+  MI: { name: "Michigan", lat: 43.3266, lng: -84.5361 },
+  MN: { name: "Minnesota", lat: 45.6945, lng: -93.9002 },
+  MS: { name: "Mississippi", lat: 32.7416, lng: -89.6787 },
+  MO: { name: "Missouri", lat: 38.4561, lng: -92.2884 },
+  MT: { name: "Montana", lat: 46.9219, lng: -110.4544 },
+  NE: { name: "Nebraska", lat: 41.1254, lng: -98.2681 },
+  NV: { name: "Nevada", lat: 38.3135, lng: -117.0554 },
+  NH: { name: "New Hampshire", lat: 43.4525, lng: -71.5639 },
+  NJ: { name: "New Jersey", lat: 40.2989, lng: -74.521 },
+  NM: { name: "New Mexico", lat: 34.8405, lng: -106.2485 },
+  NY: { name: "New York", lat: 42.1657, lng: -74.9481 },
+  NC: { name: "North Carolina", lat: 35.6301, lng: -79.8064 },
+  ND: { name: "North Dakota", lat: 47.5289, lng: -99.784 },
+  OH: { name: "Ohio", lat: 40.3888, lng: -82.7649 },
+  OK: { name: "Oklahoma", lat: 35.5653, lng: -96.9289 },
+  OR: { name: "Oregon", lat: 44.572, lng: -122.0709 },
+  PA: { name: "Pennsylvania", lat: 40.5908, lng: -77.2098 },
+  RI: { name: "Rhode Island", lat: 41.6809, lng: -71.5118 },
+  SC: { name: "South Carolina", lat: 33.8569, lng: -80.945 },
+  SD: { name: "South Dakota", lat: 44.2998, lng: -99.4388 },
+  TN: { name: "Tennessee", lat: 35.7478, lng: -86.6923 },
+  TX: { name: "Texas", lat: 31.0545, lng: -97.5635 },
+  UT: { name: "Utah", lat: 40.15, lng: -111.8624 },
+  VT: { name: "Vermont", lat: 44.0459, lng: -72.7107 },
+  VA: { name: "Virginia", lat: 37.7693, lng: -78.17 },
+  WA: { name: "Washington", lat: 47.4009, lng: -121.4905 },
+  WV: { name: "West Virginia", lat: 38.4912, lng: -80.9545 },
+  WI: { name: "Wisconsin", lat: 44.2685, lng: -89.6165 },
+  WY: { name: "Wyoming", lat: 42.756, lng: -107.3025 },
+};
+
+/**
+ * Downtown coordinates for a set of large US metros, with a few of their
+ * central zip codes. Enough for local development and tests to exercise
+ * radius search without a network geocoder.
+ */
+export const US_CITIES: {
+  city: string;
+  state: string;
+  zipcodes: string[];
+  point: GeoPoint;
+}[] = [
+  {
+    city: "Atlanta",
+    state: "GA",
+    zipcodes: ["30301", "30303", "30308"],
+    point: { lat: 33.749, lng: -84.388 },
+  },
+  {
+    city: "Austin",
+    state: "TX",
+    zipcodes: ["78701", "78702"],
+    point: { lat: 30.2672, lng: -97.7431 },
+  },
+  {
+    city: "Boston",
+    state: "MA",
+    zipcodes: ["02108", "02110"],
+    point: { lat: 42.3601, lng: -71.0589 },
+  },
+  {
+    city: "Charlotte",
+    state: "NC",
+    zipcodes: ["28202"],
+    point: { lat: 35.2271, lng: -80.8431 },
+  },
+  {
+    city: "Chicago",
+    state: "IL",
+    zipcodes: ["60601", "60602", "60603"],
+    point: { lat: 41.8781, lng: -87.6298 },
+  },
+  {
+    city: "Colorado Springs",
+    state: "CO",
+    zipcodes: ["80903"],
+    point: { lat: 38.8339, lng: -104.8214 },
+  },
+  {
+    city: "Dallas",
+    state: "TX",
+    zipcodes: ["75201", "75202"],
+    point: { lat: 32.7767, lng: -96.797 },
+  },
+  {
+    city: "Denver",
+    state: "CO",
+    zipcodes: ["80202", "80203"],
+    point: { lat: 39.7392, lng: -104.9903 },
+  },
+  {
+    city: "Houston",
+    state: "TX",
+    zipcodes: ["77001", "77002"],
+    point: { lat: 29.7604, lng: -95.3698 },
+  },
+  {
+    city: "Kansas City",
+    state: "MO",
+    zipcodes: ["64105", "64106"],
+    point: { lat: 39.0997, lng: -94.5786 },
+  },
+  {
+    city: "Los Angeles",
+    state: "CA",
+    zipcodes: ["90001", "90012", "90013"],
+    point: { lat: 34.0522, lng: -118.2437 },
+  },
+  {
+    city: "Miami",
+    state: "FL",
+    zipcodes: ["33101", "33130", "33131"],
+    point: { lat: 25.7617, lng: -80.1918 },
+  },
+  {
+    city: "Minneapolis",
+    state: "MN",
+    zipcodes: ["55401", "55402"],
+    point: { lat: 44.9778, lng: -93.265 },
+  },
+  {
+    city: "Nashville",
+    state: "TN",
+    zipcodes: ["37201", "37203"],
+    point: { lat: 36.1627, lng: -86.7816 },
+  },
+  {
+    city: "New York",
+    state: "NY",
+    zipcodes: ["10001", "10007", "10013"],
+    point: { lat: 40.7128, lng: -74.006 },
+  },
+  {
+    city: "Orlando",
+    state: "FL",
+    zipcodes: ["32801", "32803"],
+    point: { lat: 28.5383, lng: -81.3792 },
+  },
+  {
+    city: "Philadelphia",
+    state: "PA",
+    zipcodes: ["19102", "19103", "19107"],
+    point: { lat: 39.9526, lng: -75.1652 },
+  },
+  {
+    city: "Phoenix",
+    state: "AZ",
+    zipcodes: ["85001", "85003", "85004"],
+    point: { lat: 33.4484, lng: -112.074 },
+  },
+  {
+    city: "Portland",
+    state: "OR",
+    zipcodes: ["97201", "97204", "97205"],
+    point: { lat: 45.5152, lng: -122.6784 },
+  },
+  {
+    city: "San Francisco",
+    state: "CA",
+    zipcodes: ["94102", "94103", "94105"],
+    point: { lat: 37.7749, lng: -122.4194 },
+  },
+  {
+    city: "Seattle",
+    state: "WA",
+    zipcodes: ["98101", "98104"],
+    point: { lat: 47.6062, lng: -122.3321 },
+  },
+  {
+    city: "Washington",
+    state: "DC",
+    zipcodes: ["20001", "20004", "20005"],
+    point: { lat: 38.9072, lng: -77.0369 },
+  },
+];
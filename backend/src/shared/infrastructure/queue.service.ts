@@ -34,6 +34,14 @@ export const QUEUE_NAMES = {
   INVITATION_EXPIRATION_QUEUE: "invitationExpirationQueue",
   DOMAIN_EVENTS_QUEUE: "domainEventsQueue",
   TYPESENSE_EMPLOYER_QUEUE: "employerIndexQueue",
+  INTERVIEW_REMINDER_QUEUE: "interviewReminderQueue",
+  AUDIT_RETENTION_QUEUE: "auditRetentionQueue",
+  JOB_LIFECYCLE_QUEUE: "jobLifecycleQueue",
+  SAVED_JOB_REMINDER_QUEUE: "savedJobReminderQueue",
+  WEEKLY_DIGEST_QUEUE: "weeklyDigestQueue",
+  NEWSLETTER_QUEUE: "newsletterQueue",
+  CANDIDATE_MATCH_QUEUE: "candidateMatchQueue",
+  FOLLOWER_NOTIFICATION_QUEUE: "followerNotificationQueue",
 } as const;
 
 // Job options
@@ -88,6 +96,14 @@ class QueueService {
       this.createQueue(QUEUE_NAMES.INVITATION_EXPIRATION_QUEUE);
       this.createQueue(QUEUE_NAMES.DOMAIN_EVENTS_QUEUE);
       this.createQueue(QUEUE_NAMES.TYPESENSE_EMPLOYER_QUEUE);
+      this.createQueue(QUEUE_NAMES.INTERVIEW_REMINDER_QUEUE);
+      this.createQueue(QUEUE_NAMES.AUDIT_RETENTION_QUEUE);
+      this.createQueue(QUEUE_NAMES.JOB_LIFECYCLE_QUEUE);
+      this.createQueue(QUEUE_NAMES.SAVED_JOB_REMINDER_QUEUE);
+      this.createQueue(QUEUE_NAMES.WEEKLY_DIGEST_QUEUE);
+      this.createQueue(QUEUE_NAMES.NEWSLETTER_QUEUE);
+      this.createQueue(QUEUE_NAMES.CANDIDATE_MATCH_QUEUE);
+      this.createQueue(QUEUE_NAMES.FOLLOWER_NOTIFICATION_QUEUE);
 
       registerQueueDepthGauges(() => this.queues, TYPESENSE_QUEUE_NAMES);
 
@@ -246,6 +262,38 @@ class QueueService {
     return job;
   }
 
+  /**
+   * Add several jobs to a queue in a single round trip
+   */
+  async addBulkJobs<T>(
+    queueName: string,
+    jobs: { name: string; data: T; options?: JobsOptions }[],
+  ): Promise<Job<T>[]> {
+    const queue = this.queues.get(queueName);
+    if (!queue) {
+      throw new Error(`Queue ${queueName} not found`);
+    }
+
+    if (jobs.length === 0) {
+      return [];
+    }
+
+    const added = await queue.addBulk(
+      jobs.map((job) => ({
+        name: job.name,
+        data: job.data,
+        opts: { ...JOB_OPTIONS, ...job.options },
+      })),
+    );
+
+    logger.info("Jobs added to queue", {
+      queueName,
+      count: added.length,
+    });
+
+    return added as Job<T>[];
+  }
+
   /**
    * Get queue metrics
    */
@@ -0,0 +1,45 @@
+/**
+ * Flattens Typesense `facet_counts` into `{ field: [{ value, count }] }`,
+ * with an empty list for every requested field Typesense reported nothing for.
+ */
+export function buildSearchFacets<F extends string>(
+  facetCounts:
+    | { field_name: PropertyKey; counts: { value: string; count: number }[] }[]
+    | undefined,
+  fields: readonly F[],
+): Record<F, { value: string; count: number }[]> {
+  const facets = Object.fromEntries(
+    fields.map((field) => [field, [] as { value: string; count: number }[]]),
+  ) as Record<F, { value: string; count: number }[]>;
+
+  for (const facet of facetCounts ?? []) {
+    const field = String(facet.field_name) as F;
+    if (!(field in facets)) continue;
+    facets[field] = facet.counts
+      .filter((entry) => entry.count > 0)
+      .map((entry) => ({ value: entry.value, count: entry.count }));
+  }
+
+  return facets;
+}
+
+/**
+ * Swaps the counts of the fields reported by `replacements` into
+ * `facetCounts`; fields a replacement is missing for keep their counts.
+ */
+export function replaceFacetCounts<C extends { field_name: PropertyKey }>(
+  facetCounts: C[] | undefined,
+  replacements: (C[] | undefined)[],
+): C[] {
+  const replaced = replacements.flatMap((counts) => counts ?? []);
+  const replacedFields = new Set(
+    replaced.map((facet) => String(facet.field_name)),
+  );
+
+  return [
+    ...(facetCounts ?? []).filter(
+      (facet) => !replacedFields.has(String(facet.field_name)),
+    ),
+    ...replaced,
+  ];
+}
@@ -0,0 +1,17 @@
+import type { GeoPoint } from "@shared/ports/geocoder.port";
+
+/** Name of the `geopoint` field on the jobs, employers and profiles collections. */
+export const GEOPOINT_FIELD = "geopoint";
+
+/** Typesense stores geopoints as `[lat, lng]`. */
+export function toTypesenseGeopoint(point: GeoPoint): [number, number] {
+  return [point.lat, point.lng];
+}
+
+/**
+ * `sort_by` expression ordering hits by distance from `center`; pair it
+ * with `asc` for nearest first.
+ */
+export function geoDistanceSort(center: GeoPoint): string {
+  return `${GEOPOINT_FIELD}(${center.lat}, ${center.lng})`;
+}
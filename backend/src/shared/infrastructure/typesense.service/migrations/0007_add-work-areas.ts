@@ -0,0 +1,33 @@
+import type { TypesenseMigration } from "./types";
+import { JOBS_COLLECTION } from "../constants";
+import { addFields } from "./helpers";
+
+/**
+ * Adds a `workAreas` facet to postedJobs so search, recommendations and job
+ * alerts can match jobs against seekers' ministry work-area preferences.
+ *
+ * The field is optional: jobs posted without work areas stay indexable.
+ * Existing documents return null for this field until re-indexed via
+ * `bun run scripts/sync-jobs-to-typesense.ts`.
+ */
+const migration: TypesenseMigration = {
+  name: "0007_add-work-areas",
+  description:
+    "Add workAreas facet field to postedJobs for filtering and boosting by ministry work area",
+  collection: JOBS_COLLECTION,
+
+  async up(client) {
+    await addFields(client, JOBS_COLLECTION, [
+      {
+        name: "workAreas",
+        type: "string[]",
+        facet: true,
+        optional: true,
+      },
+    ]);
+  },
+
+  down: "Drop the workAreas field: dropFields(client, 'postedJobs', ['workAreas'])",
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import type { TypesenseMigration } from "./types";
+import { JOBS_COLLECTION } from "../constants";
+import { addFields } from "./helpers";
+
+/**
+ * Adds a `geopoint` field to postedJobs, filled from the job's geocoded
+ * address, so search and job alerts can filter by radius and sort by
+ * distance.
+ *
+ * The field is optional: remote jobs and addresses the geocoder cannot
+ * resolve stay indexable and simply never match a radius filter. Existing
+ * documents return null for this field until re-indexed via
+ * `bun run scripts/sync-jobs-to-typesense.ts`.
+ */
+const migration: TypesenseMigration = {
+  name: "0008_add-job-geopoints",
+  description:
+    "Add optional geopoint field to postedJobs for radius search and distance sorting",
+  collection: JOBS_COLLECTION,
+
+  async up(client) {
+    await addFields(client, JOBS_COLLECTION, [
+      { name: "geopoint", type: "geopoint", optional: true },
+    ]);
+  },
+
+  down: "Drop the geopoint field: dropFields(client, 'postedJobs', ['geopoint'])",
+};
+
+export default migration;
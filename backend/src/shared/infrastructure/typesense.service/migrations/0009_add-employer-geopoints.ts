@@ -0,0 +1,28 @@
+import type { TypesenseMigration } from "./types";
+import { EMPLOYERS_COLLECTION } from "../constants";
+import { addFields } from "./helpers";
+
+/**
+ * Adds a `geopoint` field to the employers collection, filled from the
+ * organization's geocoded street address.
+ *
+ * The field is optional so organizations whose address cannot be resolved
+ * stay indexable. Existing documents return null for this field until
+ * re-indexed via `bun run scripts/sync-employers-to-typesense.ts`.
+ */
+const migration: TypesenseMigration = {
+  name: "0009_add-employer-geopoints",
+  description:
+    "Add optional geopoint field to employers from the geocoded address",
+  collection: EMPLOYERS_COLLECTION,
+
+  async up(client) {
+    await addFields(client, EMPLOYERS_COLLECTION, [
+      { name: "geopoint", type: "geopoint", optional: true },
+    ]);
+  },
+
+  down: "Drop the geopoint field: dropFields(client, 'employers', ['geopoint'])",
+};
+
+export default migration;
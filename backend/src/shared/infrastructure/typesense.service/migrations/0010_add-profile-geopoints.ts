@@ -0,0 +1,29 @@
+import type { TypesenseMigration } from "./types";
+import { PROFILES_COLLECTION } from "../constants";
+import { addFields } from "./helpers";
+
+/**
+ * Adds a `geopoint` field to the profiles collection so candidate search
+ * can find seekers within a radius of a point, nearest first. Filled from
+ * the candidate's geocoded city/state/zip.
+ *
+ * The field is optional so profiles without a resolvable location stay
+ * indexable. Existing documents return null for this field until
+ * re-indexed via `bun run scripts/sync-profiles-to-typesense.ts`.
+ */
+const migration: TypesenseMigration = {
+  name: "0010_add-profile-geopoints",
+  description:
+    "Add optional geopoint field to the profiles collection for candidate radius search",
+  collection: PROFILES_COLLECTION,
+
+  async up(client) {
+    await addFields(client, PROFILES_COLLECTION, [
+      { name: "geopoint", type: "geopoint", optional: true },
+    ]);
+  },
+
+  down: "Drop the geopoint field: dropFields(client, 'profiles', ['geopoint'])",
+};
+
+export default migration;
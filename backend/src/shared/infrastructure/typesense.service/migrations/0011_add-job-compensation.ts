@@ -0,0 +1,48 @@
+import type { TypesenseMigration } from "./types";
+import { JOBS_COLLECTION } from "../constants";
+import { addFields } from "./helpers";
+
+/**
+ * Adds the pay range and missionary support-raising fields to postedJobs so
+ * search can filter and sort on them.
+ *
+ * All fields are optional: most existing postings carry no pay range.
+ * Existing documents return null for these fields until re-indexed via
+ * `bun run scripts/sync-jobs-to-typesense.ts`.
+ */
+const migration: TypesenseMigration = {
+  name: "0011_add-job-compensation",
+  description:
+    "Add compensation range, currency, pay period and support-raising fields to postedJobs",
+  collection: JOBS_COLLECTION,
+
+  async up(client) {
+    await addFields(client, JOBS_COLLECTION, [
+      { name: "compensationMin", type: "int32", optional: true, sort: true },
+      { name: "compensationMax", type: "int32", optional: true, sort: true },
+      {
+        name: "compensationCurrency",
+        type: "string",
+        facet: true,
+        optional: true,
+      },
+      { name: "payPeriod", type: "string", facet: true, optional: true },
+      {
+        name: "supportRaisedByCandidate",
+        type: "bool",
+        facet: true,
+        optional: true,
+      },
+      {
+        name: "monthlySupportTarget",
+        type: "int32",
+        optional: true,
+        sort: true,
+      },
+    ]);
+  },
+
+  down: "Drop the compensation fields: dropFields(client, 'postedJobs', ['compensationMin', 'compensationMax', 'compensationCurrency', 'payPeriod', 'supportRaisedByCandidate', 'monthlySupportTarget'])",
+};
+
+export default migration;
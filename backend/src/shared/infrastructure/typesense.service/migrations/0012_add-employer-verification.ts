@@ -0,0 +1,28 @@
+import type { TypesenseMigration } from "./types";
+import { EMPLOYERS_COLLECTION } from "../constants";
+import { addFields } from "./helpers";
+
+/**
+ * Adds an `isVerified` field to the employers collection so job search can
+ * show a verified badge and filter to verified organizations through the
+ * employer JOIN.
+ *
+ * The field is optional: existing documents return null, and so do not
+ * match a verified-only filter, until re-indexed via
+ * `bun run scripts/sync-employers-to-typesense.ts`.
+ */
+const migration: TypesenseMigration = {
+  name: "0012_add-employer-verification",
+  description: "Add optional isVerified field to employers",
+  collection: EMPLOYERS_COLLECTION,
+
+  async up(client) {
+    await addFields(client, EMPLOYERS_COLLECTION, [
+      { name: "isVerified", type: "bool", facet: true, optional: true },
+    ]);
+  },
+
+  down: "Drop the verification field: dropFields(client, 'employers', ['isVerified'])",
+};
+
+export default migration;
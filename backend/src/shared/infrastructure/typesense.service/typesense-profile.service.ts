@@ -54,6 +54,7 @@ export class TypesenseProfileService implements TypesenseProfileServicePort {
         per_page: params.perPage,
         prefix: params.prefix,
         num_typos: params.numTypos,
+        drop_tokens_threshold: params.dropTokensThreshold,
       });
 
     const hits: ProfileDocument[] = (response.hits ?? [])
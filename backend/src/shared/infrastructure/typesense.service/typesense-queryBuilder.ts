@@ -1,3 +1,6 @@
+import type { GeoPoint } from "@shared/ports/geocoder.port";
+import { GEOPOINT_FIELD } from "./geo-search";
+
 export class TypesenseQueryBuilder {
   private filterConditions: string[] = [];
 
@@ -33,6 +36,55 @@ export class TypesenseQueryBuilder {
     return this;
   }
 
+  /**
+   * Restricts to documents whose geopoint lies within `radiusMiles` of
+   * `center`. Replaces the city/state/zipcode string match for radius
+   * searches; documents indexed without a geopoint never match. The remote
+   * fallback is parenthesised so it can't leak across the other filters.
+   */
+  addGeoRadiusFilter(
+    center: GeoPoint,
+    radiusMiles: number,
+    includeRemote?: boolean,
+  ) {
+    const radiusFilter = `${GEOPOINT_FIELD}:(${center.lat}, ${center.lng}, ${radiusMiles} mi)`;
+    this.filterConditions.push(
+      includeRemote ? `(${radiusFilter} || isRemote:true)` : radiusFilter,
+    );
+    return this;
+  }
+
+  /**
+   * Restricts to jobs whose pay range overlaps `[min, max]`. A posting that
+   * only states one end of its range matches on that end alone; postings
+   * without any pay range never match.
+   */
+  addCompensationRangeFilter(min?: number, max?: number) {
+    if (min !== undefined) {
+      this.filterConditions.push(
+        `(compensationMax:>=${min} || compensationMin:>=${min})`,
+      );
+    }
+    if (max !== undefined) {
+      this.filterConditions.push(
+        `(compensationMin:<=${max} || compensationMax:<=${max})`,
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Restricts to jobs whose employer is verified, through the employers
+   * collection JOIN. Employers indexed before verification existed never
+   * match.
+   */
+  addVerifiedEmployerFilter(verifiedOnly?: boolean) {
+    if (verifiedOnly) {
+      this.filterConditions.push("$employers(isVerified:=true)");
+    }
+    return this;
+  }
+
   addSkillFilters(skills: string[] | undefined, useAndLogic = true) {
     if (skills && skills.length > 0) {
       if (useAndLogic) {
@@ -66,6 +118,20 @@ export class TypesenseQueryBuilder {
     return this;
   }
 
+  /**
+   * Matches any of `values` on a string field, backtick-quoting each value so
+   * names containing commas, slashes or spaces are taken literally.
+   */
+  addQuotedArrayFilter(key: string, values: string[] | undefined) {
+    const quoted = (values ?? [])
+      .filter(Boolean)
+      .map((value) => `\`${value.replace(/`/g, "")}\``);
+    if (quoted.length > 0) {
+      this.filterConditions.push(`${key}:[${quoted.join(", ")}]`);
+    }
+    return this;
+  }
+
   addSingleFilter(key: string, value: string | number | boolean | undefined) {
     if (value !== undefined && value !== null && value !== "") {
       this.filterConditions.push(`${key}:${value}`);
@@ -14,6 +14,9 @@ import {
   typesenseSearchResultCount,
 } from "@shared/metrics";
 import type { TypesenseJobServicePort } from "@shared/ports/typesense-service.port";
+import type { GeoPoint } from "@shared/ports/geocoder.port";
+import { toTypesenseGeopoint } from "./geo-search";
+import { replaceFacetCounts } from "./build-search-facets";
 
 type SortDirection = "asc" | "desc";
 type MetaSearchParams = {
@@ -22,6 +25,9 @@ type MetaSearchParams = {
   page?: number;
   offset?: number;
   limit?: number;
+  facetBy?: readonly string[];
+  maxFacetValues?: number;
+  facetFilters?: Readonly<Record<string, string>>;
 };
 
 /**
@@ -49,12 +55,26 @@ export interface TypesenseJobDocument {
   experience: string | null;
   jobType: string;
   skills: string[];
+  workAreas: string[];
   employerId?: string;
   compensationType?: string;
+  compensationMin?: number;
+  compensationMax?: number;
+  compensationCurrency?: string;
+  payPeriod?: string;
+  supportRaisedByCandidate?: boolean;
+  monthlySupportTarget?: number;
+  geopoint?: [number, number];
   createdAt: number;
 }
 
-function mapJobToTypesenseDoc(doc: JobWithSkills): TypesenseJobDocument {
+/**
+ * A job as handed to the indexer: the DB row plus its geocoded address.
+ * `geopoint` is absent when the address could not be resolved.
+ */
+export type IndexableJob = JobWithSkills & { geopoint?: GeoPoint | null };
+
+function mapJobToTypesenseDoc(doc: IndexableJob): TypesenseJobDocument {
   return {
     id: doc.id.toString(),
     title: doc.title,
@@ -69,8 +89,16 @@ function mapJobToTypesenseDoc(doc: JobWithSkills): TypesenseJobDocument {
     experience: doc.experience,
     jobType: doc.jobType,
     skills: doc.skills,
+    workAreas: doc.workAreas,
     employerId: doc.employerId?.toString(),
     compensationType: doc.compensationType,
+    compensationMin: doc.compensationMin ?? undefined,
+    compensationMax: doc.compensationMax ?? undefined,
+    compensationCurrency: doc.compensationCurrency ?? undefined,
+    payPeriod: doc.payPeriod ?? undefined,
+    supportRaisedByCandidate: doc.supportRaisedByCandidate,
+    monthlySupportTarget: doc.monthlySupportTarget ?? undefined,
+    ...(doc.geopoint ? { geopoint: toTypesenseGeopoint(doc.geopoint) } : {}),
     createdAt: new Date(doc.createdAt).getTime(),
   };
 }
@@ -84,7 +112,7 @@ export class TypesenseJobService implements TypesenseJobServicePort {
    * @param doc The job document to index.
    * @returns The result of the indexing operation.
    */
-  async indexJobDocument(doc: JobWithSkills): Promise<JobWithSkills> {
+  async indexJobDocument(doc: IndexableJob): Promise<JobWithSkills> {
     await typesenseClient
       .collections(JOBS_COLLECTION)
       .documents()
@@ -103,7 +131,7 @@ export class TypesenseJobService implements TypesenseJobServicePort {
    * @param docs The array of job documents to index.
    * @returns The result of the bulk indexing operation.
    */
-  async indexManyJobDocuments(docs: JobWithSkills[]) {
+  async indexManyJobDocuments(docs: IndexableJob[]) {
     const payload = docs.map(mapJobToTypesenseDoc);
     return await typesenseClient
       .collections<TypesenseJobDocument>(JOBS_COLLECTION)
@@ -133,7 +161,7 @@ export class TypesenseJobService implements TypesenseJobServicePort {
    *            Typesense document id.
    * @returns The upserted Typesense document.
    */
-  async upsertJobDocument(doc: JobWithSkills) {
+  async upsertJobDocument(doc: IndexableJob) {
     const payload = mapJobToTypesenseDoc(doc);
     return await typesenseClient
       .collections<TypesenseJobDocument>(JOBS_COLLECTION)
@@ -170,6 +198,8 @@ export class TypesenseJobService implements TypesenseJobServicePort {
    * @param q The search query string.
    * @param filters Optional filter string.
    * @param options Search parameters including sort, pagination, etc.
+   *   A facet with an entry in `facetFilters` is counted in its own facet-only
+   *   search under that filter, sent with the main search as one multi_search.
    * @returns The search response containing matching job documents.
    */
   async searchJobsCollection(
@@ -181,22 +211,67 @@ export class TypesenseJobService implements TypesenseJobServicePort {
       page = 1,
       limit = 10,
       offset = 0,
+      facetBy,
+      maxFacetValues,
+      facetFilters = {},
     }: MetaSearchParams = {},
   ): Promise<SearchResponse<JobDocumentType>> {
     const start = Date.now();
-    const response = await typesenseClient
-      .collections<JobDocumentType>(JOBS_COLLECTION)
-      .documents()
-      .search({
-        q,
-        filter_by: filters ? filters : undefined,
-        sort_by: sortBy ? `${sortBy}:${sortDirection}` : undefined,
-        page,
-        limit,
-        offset,
-        query_by: "title, skills, jobType, description, city, state, country",
-        include_fields: "$employers(logoUrl, strategy: merge)",
+    const queryBy = "title, skills, jobType, description, city, state, country";
+    const searchParams = {
+      q,
+      filter_by: filters ? filters : undefined,
+      sort_by: sortBy ? `${sortBy}:${sortDirection}` : undefined,
+      page,
+      limit,
+      offset,
+      query_by: queryBy,
+      include_fields: "$employers(logoUrl, isVerified, strategy: merge)",
+      facet_by: facetBy?.length ? facetBy.join(",") : undefined,
+      max_facet_values: facetBy?.length ? maxFacetValues : undefined,
+    };
+    const separateFacets = (facetBy ?? []).filter(
+      (field) => facetFilters[field] !== undefined,
+    );
+
+    let response: SearchResponse<JobDocumentType>;
+    if (separateFacets.length === 0) {
+      response = await typesenseClient
+        .collections<JobDocumentType>(JOBS_COLLECTION)
+        .documents()
+        .search(searchParams);
+    } else {
+      const { results } = await typesenseClient.multiSearch.perform<
+        JobDocumentType[]
+      >({
+        searches: [
+          { collection: JOBS_COLLECTION, ...searchParams },
+          ...separateFacets.map((field) => ({
+            collection: JOBS_COLLECTION,
+            q,
+            query_by: queryBy,
+            filter_by: facetFilters[field] || undefined,
+            facet_by: field,
+            max_facet_values: maxFacetValues,
+            per_page: 0,
+          })),
+        ],
       });
+      const [main, ...facetResults] = results;
+      if (!main || "error" in main) {
+        throw new Error("Typesense job search failed");
+      }
+      response = {
+        ...main,
+        // A failed facet-only search keeps the main search's counts
+        facet_counts: replaceFacetCounts(
+          main.facet_counts,
+          facetResults.map((result) =>
+            result && !("error" in result) ? result.facet_counts : undefined,
+          ),
+        ),
+      };
+    }
     typesenseSearchDurationSeconds.record((Date.now() - start) / 1000);
     typesenseSearchResultCount.record(response.found ?? 0);
     return response;
@@ -208,6 +283,7 @@ export class TypesenseJobService implements TypesenseJobServicePort {
    * @param filters Filter string built from alert criteria.
    * @param lastSentAt Timestamp to filter jobs created after this time.
    * @param limit Maximum number of results to return.
+   * @param sortBy Typesense `sort_by`; newest first unless given.
    * @returns The search response containing matching job documents.
    */
   async searchJobsForAlert(
@@ -215,6 +291,7 @@ export class TypesenseJobService implements TypesenseJobServicePort {
     filters: string,
     lastSentAt: Date | null,
     limit: number = 50,
+    sortBy: string = "createdAt:desc",
   ): Promise<SearchResponse<JobDocumentType>> {
     const q = searchQuery || "*";
 
@@ -240,7 +317,7 @@ export class TypesenseJobService implements TypesenseJobServicePort {
         filter_by: filterBy,
         query_by: "title, description, company, skills",
         query_by_weights: "3,2,1,2",
-        sort_by: "createdAt:desc",
+        sort_by: sortBy,
         per_page: limit,
         page: 1,
         num_typos: 1,
@@ -251,7 +328,8 @@ export class TypesenseJobService implements TypesenseJobServicePort {
   /**
    * Searches jobs for recommendations using skill-weighted relevance.
    * Same query_by and weights as alert search, but accepts
-   * recommendation-specific filter/sort params.
+   * recommendation-specific filter/sort params. Documents matching
+   * `boostFilter` are ranked ahead of the rest via an `_eval` sort.
    */
   async searchJobsForRecommendations(
     q: string,
@@ -261,11 +339,13 @@ export class TypesenseJobService implements TypesenseJobServicePort {
       sortDirection = "desc",
       page = 1,
       limit = 10,
+      boostFilter,
     }: {
       sortBy?: string;
       sortDirection?: "asc" | "desc";
       page?: number;
       limit?: number;
+      boostFilter?: string;
     } = {},
   ): Promise<SearchResponse<JobDocumentType>> {
     return await typesenseClient
@@ -276,12 +356,14 @@ export class TypesenseJobService implements TypesenseJobServicePort {
         filter_by: filters || undefined,
         query_by: "title, description, company, skills",
         query_by_weights: "3,2,1,2",
-        sort_by: `${sortBy}:${sortDirection}`,
+        sort_by: boostFilter
+          ? `_eval(${boostFilter}):desc,${sortBy}:${sortDirection}`
+          : `${sortBy}:${sortDirection}`,
         per_page: limit,
         page,
         num_typos: 1,
         prefix: true,
-        include_fields: "$employers(logoUrl, strategy: merge)",
+        include_fields: "$employers(logoUrl, isVerified, strategy: merge)",
       });
   }
 }
@@ -1,3 +1,9 @@
 export interface ApplicationInsightsPort {
   syncJobApplicationCount(jobId: number): Promise<void>;
+  /** Adds one to the job's daily counter for the day `occurredAt` falls on. */
+  recordJobActivity(
+    jobId: number,
+    metric: "saves" | "applications",
+    occurredAt: string,
+  ): Promise<void>;
 }
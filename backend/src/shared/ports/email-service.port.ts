@@ -1,3 +1,120 @@
+/**
+ * Interview details carried by interview emails. Times are ISO 8601 strings
+ * because the details travel through the email queue as JSON.
+ */
+export interface InterviewEmailDetails {
+  interviewId: number;
+  /** iCalendar revision of the interview */
+  sequence: number;
+  jobTitle: string;
+  organizationName: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  locationType: "in_person" | "video" | "phone";
+  location: string | null;
+  meetingUrl: string | null;
+  attendees: { fullName: string; email: string }[];
+}
+
+/** Why a candidate is emailed about a job they saved. */
+export type SavedJobUpdateKind = "changed" | "deadline" | "closed";
+
+export interface SavedJobUpdateDetails {
+  jobId: number;
+  jobTitle: string;
+  update: SavedJobUpdateKind;
+  /** Material fields that changed, for `changed` updates */
+  changedFields?: string[];
+  /** ISO 8601 application deadline, for `deadline` updates */
+  applicationDeadline?: string | null;
+}
+
+/** A job listed in the weekly digest. */
+export interface DigestJob {
+  id: number;
+  title: string;
+  company: string;
+  location?: string;
+  jobType?: string;
+}
+
+export interface WeeklyJobDigest {
+  /** Picked by the recommendation engine from the seeker's profile */
+  recommendedJobs: DigestJob[];
+  /** Matched by the seeker's job alerts over the past week */
+  alertMatches: DigestJob[];
+}
+
+export interface NewsletterEmail {
+  subject: string;
+  /** Trusted HTML written by platform staff */
+  body: string;
+  unsubscribeUrl: string | null;
+}
+
+/** A candidate on a new job's shortlist. */
+export interface ShortlistedCandidate {
+  name: string;
+  headline: string;
+  location: string;
+  /** The job's skills and work areas the candidate's profile covers */
+  matchedTerms: string[];
+}
+
+export interface MatchedCandidatesShortlist {
+  jobId: number;
+  jobTitle: string;
+  candidates: ShortlistedCandidate[];
+  /** Skills candidate search is opened with from the email */
+  searchSkills: string[];
+}
+
+/** An employer's invitation for a candidate to apply to one of its jobs. */
+export interface JobInvitation {
+  jobId: number;
+  jobTitle: string;
+  organizationName: string;
+  /** Personal note from the recruiter, shown as plain text */
+  message: string | null;
+}
+
+/** A new job from an organization the recipient follows. */
+export interface FollowedOrganizationJob {
+  jobId: number;
+  jobTitle: string;
+  organizationId: number;
+  organizationName: string;
+  /** "City, State", or "Remote" for remote jobs */
+  location: string;
+}
+
+/** A new message in a job application's thread. */
+export interface ApplicationMessageNotice {
+  /** Which side of the thread the recipient is on; decides the link */
+  recipient: "applicant" | "organization";
+  applicationId: number;
+  jobId: number;
+  jobTitle: string;
+  organizationId: number;
+  organizationName: string;
+  senderName: string;
+  /** Start of the message, shown as plain text */
+  preview: string;
+}
+
+/**
+ * A platform staff notice about one of an organization's jobs: a warning
+ * while the job is under review, or the job's removal.
+ */
+export interface ModerationNotice {
+  kind: "warning" | "removal";
+  jobId: number;
+  jobTitle: string;
+  organizationName: string;
+  /** Staff explanation, shown as plain text */
+  note: string | null;
+}
+
 export interface EmailServicePort {
   /**
    * Sends an email verification link to the user.
@@ -52,6 +169,40 @@ export interface EmailServicePort {
     jobId: number,
   ): Promise<void>;
 
+  /**
+   * Tells a candidate that a job they saved changed, is about to close or
+   * has closed. Skipped when they turned off saved job updates.
+   */
+  sendSavedJobUpdate(
+    userId: number,
+    email: string,
+    fullName: string,
+    details: SavedJobUpdateDetails,
+  ): Promise<void>;
+
+  /**
+   * Tells a member of the posting team that a job passed its application
+   * deadline and was closed.
+   */
+  sendJobExpiredEmail(
+    email: string,
+    fullName: string,
+    jobTitle: string,
+    jobId: number,
+  ): Promise<void>;
+
+  /**
+   * Tells a member of the posting team that a scheduled job could not go
+   * live within the plan's limits and was moved back to draft.
+   */
+  sendScheduledJobBlockedEmail(
+    email: string,
+    fullName: string,
+    jobTitle: string,
+    jobId: number,
+    reason: string,
+  ): Promise<void>;
+
   /**
    * Sends an organization invitation email to the invitee.
    */
@@ -76,6 +227,7 @@ export interface EmailServicePort {
 
   /**
    * Sends an application status update notification email to the applicant.
+   * A custom message replaces the generic copy for the new status.
    */
   sendApplicationStatusUpdate(
     email: string,
@@ -83,6 +235,50 @@ export interface EmailServicePort {
     jobTitle: string,
     oldStatus: string,
     newStatus: string,
+    oldStatusLabel?: string,
+    newStatusLabel?: string,
+    customMessage?: string,
+  ): Promise<void>;
+
+  /**
+   * Sends the candidate the time slots proposed for an interview.
+   */
+  sendInterviewProposal(
+    email: string,
+    fullName: string,
+    jobTitle: string,
+    organizationName: string,
+    slots: { startsAt: string; endsAt: string }[],
+    rescheduled: boolean,
+  ): Promise<void>;
+
+  /**
+   * Sends an interview confirmation with an .ics invitation attached.
+   */
+  sendInterviewScheduled(
+    email: string,
+    fullName: string,
+    interview: InterviewEmailDetails,
+  ): Promise<void>;
+
+  /**
+   * Sends a reminder ahead of a scheduled interview.
+   */
+  sendInterviewReminder(
+    email: string,
+    fullName: string,
+    interview: InterviewEmailDetails,
+  ): Promise<void>;
+
+  /**
+   * Sends an interview cancellation, with an .ics cancellation attached
+   * when the interview had been scheduled.
+   */
+  sendInterviewCancelled(
+    email: string,
+    fullName: string,
+    interview: InterviewEmailDetails,
+    reason: string | null,
   ): Promise<void>;
 
   /**
@@ -108,6 +304,83 @@ export interface EmailServicePort {
     totalMatches: number,
   ): Promise<void>;
 
+  /**
+   * Sends a seeker their weekly digest of recommended and alert-matched
+   * jobs. Skipped when they turned off the weekly digest.
+   */
+  sendWeeklyJobDigest(
+    userId: number,
+    email: string,
+    fullName: string,
+    digest: WeeklyJobDigest,
+  ): Promise<void>;
+
+  /**
+   * Sends a recruiter the open-to-work candidates matched to a job that just
+   * went live. Skipped when they turned off matched candidate emails.
+   */
+  sendMatchedCandidates(
+    userId: number,
+    email: string,
+    fullName: string,
+    shortlist: MatchedCandidatesShortlist,
+  ): Promise<void>;
+
+  /**
+   * Invites a candidate found through candidate search to apply to a job.
+   * Skipped when they turned off job match notifications.
+   */
+  sendJobInvitation(
+    userId: number,
+    email: string,
+    fullName: string,
+    invitation: JobInvitation,
+  ): Promise<void>;
+
+  /**
+   * Tells a follower that an organization they follow published a new job.
+   * Skipped when they turned off job match notifications.
+   */
+  sendFollowedOrganizationJob(
+    userId: number,
+    email: string,
+    fullName: string,
+    job: FollowedOrganizationJob,
+  ): Promise<void>;
+
+  /**
+   * Tells the applicant or a member of the hiring team about a new message in
+   * an application's thread. Skipped when they turned off application status
+   * notifications.
+   */
+  sendApplicationMessage(
+    userId: number,
+    email: string,
+    fullName: string,
+    message: ApplicationMessageNotice,
+  ): Promise<void>;
+
+  /**
+   * Sends a member of an organization's posting team a moderation warning or
+   * removal notice about one of its jobs. Always sent: it is not marketing.
+   */
+  sendModerationNotice(
+    email: string,
+    fullName: string,
+    notice: ModerationNotice,
+  ): Promise<void>;
+
+  /**
+   * Sends one copy of a newsletter. Skipped when the user turned off the
+   * monthly newsletter.
+   */
+  sendNewsletter(
+    userId: number,
+    email: string,
+    fullName: string,
+    newsletter: NewsletterEmail,
+  ): Promise<void>;
+
   /**
    * Sends an unsubscribe confirmation email to the user.
    */
@@ -1,8 +1,8 @@
-import type { FileMetadata } from "@/validations/file.validation";
+import type { EntityType, FileMetadata } from "@/validations/file.validation";
 
 export interface FileMetadataUpdatePort {
   updateEntityFileMetadata(
-    entityType: "job" | "organization" | "user",
+    entityType: EntityType,
     entityId: string,
     urls: string[],
     metadata: FileMetadata[],
@@ -0,0 +1,30 @@
+/** A WGS84 coordinate, in decimal degrees. */
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A postal address to geocode. Every field is optional — callers pass
+ * whatever they have (a bare zip code, a city and state, a full street
+ * address) and the geocoder resolves the most specific point it can.
+ */
+export interface GeocodeAddress {
+  streetAddress?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  zipcode?: string | null;
+}
+
+/**
+ * Resolves addresses to coordinates for radius search.
+ *
+ * Implementations return `null` when an address cannot be located (or the
+ * provider is unreachable) instead of throwing, so a failed lookup never
+ * blocks indexing a job, organization or profile — the document is simply
+ * indexed without a `geopoint`.
+ */
+export interface GeocoderPort {
+  geocode(address: GeocodeAddress): Promise<GeoPoint | null>;
+}
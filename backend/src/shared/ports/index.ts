@@ -10,3 +10,4 @@ export type {
   EmployerDocument,
 } from "./typesense-employer-service.port";
 export type { BaseRepositoryPort } from "./base-repository.port";
+export type { GeocoderPort, GeocodeAddress, GeoPoint } from "./geocoder.port";
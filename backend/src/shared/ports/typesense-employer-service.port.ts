@@ -4,6 +4,10 @@ export interface EmployerDocument {
   logoUrl?: string;
   city?: string;
   state?: string;
+  /** Whether platform staff verified the organization */
+  isVerified?: boolean;
+  /** `[lat, lng]` of the geocoded organization address, when resolvable */
+  geopoint?: [number, number];
 }
 
 export interface TypesenseEmployerServicePort {
@@ -17,6 +17,11 @@ export interface ProfileDocument {
    * `location` when a recruiter picks a zip-code autocomplete suggestion.
    */
   zipCode?: string;
+  /**
+   * `[lat, lng]` of the geocoded city/state/zip, when resolvable. Used by
+   * radius candidate search and distance sorting.
+   */
+  geopoint?: [number, number];
   yearsOfExperience: number;
   openToWork: boolean;
   isProfilePublic: boolean;
@@ -33,6 +38,11 @@ export interface SearchProfilesParams {
   perPage?: number;
   prefix?: boolean;
   numTypos?: number;
+  /**
+   * Keep dropping query tokens until at least this many profiles match, so
+   * a long query still finds candidates who cover only some of its terms.
+   */
+  dropTokensThreshold?: number;
 }
 
 export interface SearchProfilesResult {
@@ -6,18 +6,21 @@ import type {
 
 import type { JobWithSkills } from "@/validations/job.validation";
 import type { JobDocumentType } from "@/validations/base.validation";
-import type { TypesenseJobDocument } from "@shared/infrastructure/typesense.service/typesense.service";
+import type {
+  IndexableJob,
+  TypesenseJobDocument,
+} from "@shared/infrastructure/typesense.service/typesense.service";
 
 export interface TypesenseJobServicePort {
   /**
    * Indexes a single job document in Typesense.
    */
-  indexJobDocument(doc: JobWithSkills): Promise<JobWithSkills>;
+  indexJobDocument(doc: IndexableJob): Promise<JobWithSkills>;
 
   /**
    * Indexes multiple job documents in Typesense.
    */
-  indexManyJobDocuments(docs: JobWithSkills[]): Promise<ImportResponse[]>;
+  indexManyJobDocuments(docs: IndexableJob[]): Promise<ImportResponse[]>;
 
   /**
    * Retrieves a job document by its ID from Typesense.
@@ -29,7 +32,7 @@ export interface TypesenseJobServicePort {
    * Uses upsert semantics: a missing document is created. The document's
    * own `id` field determines which Typesense document is written.
    */
-  upsertJobDocument(doc: JobWithSkills): Promise<TypesenseJobDocument>;
+  upsertJobDocument(doc: IndexableJob): Promise<TypesenseJobDocument>;
 
   /**
    * Deletes a job document by its ID from Typesense.
@@ -44,7 +47,9 @@ export interface TypesenseJobServicePort {
   ): Promise<DeleteResponse<JobWithSkills>>;
 
   /**
-   * Searches the jobs collection in Typesense.
+   * Searches the jobs collection in Typesense. Facet counts for `facetBy`
+   * are returned in `facet_counts`, computed under `filters`, or under
+   * `facetFilters[field]` for a facet listed there.
    */
   searchJobsCollection(
     q?: string,
@@ -55,6 +60,9 @@ export interface TypesenseJobServicePort {
       page?: number;
       limit?: number;
       offset?: number;
+      facetBy?: readonly string[];
+      maxFacetValues?: number;
+      facetFilters?: Readonly<Record<string, string>>;
     },
   ): Promise<SearchResponse<JobDocumentType>>;
 
@@ -66,12 +74,14 @@ export interface TypesenseJobServicePort {
     filters: string,
     lastSentAt: Date | null,
     limit?: number,
+    sortBy?: string,
   ): Promise<SearchResponse<JobDocumentType>>;
 
   /**
    * Searches jobs for recommendations using skill-weighted relevance.
    * Uses the same query_by/weights as alert search but accepts
    * recommendation-specific filter/sort params instead of alert filters.
+   * Documents matching `boostFilter` are ranked ahead of the rest.
    */
   searchJobsForRecommendations(
     q: string,
@@ -81,6 +91,7 @@ export interface TypesenseJobServicePort {
       sortDirection?: "asc" | "desc";
       page?: number;
       limit?: number;
+      boostFilter?: string;
     },
   ): Promise<SearchResponse<JobDocumentType>>;
 }
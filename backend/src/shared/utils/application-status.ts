@@ -1,50 +1,64 @@
 /**
  * Application status constants and utilities for human-readable display.
- * This file provides mappings and helper functions for application status values.
+ * Application statuses are the stage keys of the employer's hiring pipeline;
+ * this file provides helper functions for resolving status values against a
+ * pipeline (see @shared/constants/hiring-pipeline).
  */
 
-export type ApplicationStatus =
-  | "pending"
-  | "reviewed"
-  | "shortlisted"
-  | "interviewing"
-  | "rejected"
-  | "hired"
-  | "withdrawn";
+import {
+  DEFAULT_HIRING_PIPELINE,
+  type HiringPipelineDefinition,
+} from "@shared/constants/hiring-pipeline";
 
 /**
- * Map of application status values to their human-readable labels.
- * Use this for displaying status values to users in the UI, emails, or other user-facing contexts.
+ * An application status is the key of a stage in the organization's hiring
+ * pipeline. Custom pipelines may introduce keys beyond the defaults.
  */
-export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
-  pending: "Submitted",
-  reviewed: "Under Review",
-  shortlisted: "Shortlisted",
-  interviewing: "Interview Scheduled",
-  rejected: "Not Selected",
-  hired: "Offer Extended / Hired",
-  withdrawn: "Withdrawn",
-} as const;
+export type ApplicationStatus = string;
+
+/**
+ * Map of default application status values to their human-readable labels.
+ * Prefer `getApplicationStatusLabel` with the organization's pipeline so
+ * custom stage labels are used.
+ */
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> =
+  Object.fromEntries(
+    DEFAULT_HIRING_PIPELINE.stages.map((stage) => [stage.key, stage.label]),
+  );
 
 /**
  * Gets the human-readable label for an application status.
  * @param status The application status value.
+ * @param pipeline The organization's pipeline. Defaults to the default pipeline.
  * @returns The human-readable label for the status, or the original status if not found.
  */
-export function getApplicationStatusLabel(status: string): string {
-  return APPLICATION_STATUS_LABELS[status as ApplicationStatus] || status;
+export function getApplicationStatusLabel(
+  status: string,
+  pipeline: HiringPipelineDefinition = DEFAULT_HIRING_PIPELINE,
+): string {
+  return (
+    pipeline.stages.find((stage) => stage.key === status)?.label ||
+    APPLICATION_STATUS_LABELS[status] ||
+    status
+  );
+}
+
+/**
+ * Checks whether a status is a terminal stage in the given pipeline.
+ * Unknown statuses are treated as non-terminal.
+ */
+export function isTerminalApplicationStatus(
+  status: string,
+  pipeline: HiringPipelineDefinition = DEFAULT_HIRING_PIPELINE,
+): boolean {
+  return (
+    pipeline.stages.find((stage) => stage.key === status)?.isTerminal ?? false
+  );
 }
 
 /**
- * Array of all valid application status values.
+ * Array of all default application status values.
  * Useful for validation, dropdowns, or iteration.
  */
-export const APPLICATION_STATUSES: readonly ApplicationStatus[] = [
-  "pending",
-  "reviewed",
-  "shortlisted",
-  "interviewing",
-  "rejected",
-  "hired",
-  "withdrawn",
-] as const;
+export const APPLICATION_STATUSES: readonly ApplicationStatus[] =
+  DEFAULT_HIRING_PIPELINE.stages.map((stage) => stage.key);
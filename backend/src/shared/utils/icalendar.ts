@@ -0,0 +1,101 @@
+/**
+ * Minimal iCalendar (RFC 5545) builder for the single-event invitations and
+ * cancellations attached to interview emails.
+ */
+
+export type CalendarMethod = "REQUEST" | "CANCEL";
+
+export interface CalendarParticipant {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEventInput {
+  /** Stable identifier; updates and cancellations must reuse it. */
+  uid: string;
+  /** Revision number; must increase with every update of the event. */
+  sequence: number;
+  method: CalendarMethod;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  organizer: CalendarParticipant;
+  attendees: CalendarParticipant[];
+}
+
+const formatDate = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const escapeParam = (value: string): string => value.replace(/"/g, "'");
+
+/**
+ * Folds a content line to at most 75 octets, continuing with a leading space.
+ */
+const foldLine = (line: string): string => {
+  const folded: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = folded.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      folded.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  folded.push(current);
+
+  return folded.join("\r\n ");
+};
+
+/**
+ * Builds a VCALENDAR document containing one VEVENT.
+ */
+export function createCalendarEvent(input: CalendarEventInput): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//GetInvolved//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${input.method}`,
+    "BEGIN:VEVENT",
+    `UID:${input.uid}`,
+    `SEQUENCE:${input.sequence}`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(input.start)}`,
+    `DTEND:${formatDate(input.end)}`,
+    `SUMMARY:${escapeText(input.summary)}`,
+    ...(input.description
+      ? [`DESCRIPTION:${escapeText(input.description)}`]
+      : []),
+    ...(input.location ? [`LOCATION:${escapeText(input.location)}`] : []),
+    ...(input.url ? [`URL:${input.url}`] : []),
+    `ORGANIZER;CN="${escapeParam(input.organizer.name)}":mailto:${input.organizer.email}`,
+    ...input.attendees.map(
+      (attendee) =>
+        `ATTENDEE;CN="${escapeParam(attendee.name)}";ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:${attendee.email}`,
+    ),
+    `STATUS:${input.method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -9,11 +9,18 @@ import logger from "@shared/logger";
 import type {
   ApplicationSubmittedPayload,
   ApplicationWithdrawnPayload,
+  JobSavedPayload,
+  SavedJobServicePort,
 } from "@/modules/applications";
+import type { JobClosedPayload, JobUpdatedPayload } from "@/modules/job-board";
 import type {
   UserDeactivatedPayload,
   UserDeletedPayload,
 } from "@/modules/identity";
+import type {
+  InterviewCancelledPayload,
+  InterviewRescheduledPayload,
+} from "@/modules/interviews";
 import type { ApplicationInsightsPort } from "@shared/ports/application-insights.port";
 import type { NotificationsRepositoryPort } from "@/modules/notifications";
 import type { ModuleWorkers } from "@shared/types/module-workers";
@@ -25,6 +32,10 @@ interface DomainEventWorkerDeps {
     NotificationsRepositoryPort,
     "pauseAlertsForUser"
   >;
+  savedJobNotifications: Pick<
+    SavedJobServicePort,
+    "notifySaversOfJobUpdate" | "notifySaversOfJobClosure"
+  >;
 }
 
 function createDomainEventHandler(deps: DomainEventWorkerDeps) {
@@ -46,6 +57,11 @@ function createDomainEventHandler(deps: DomainEventWorkerDeps) {
         case DomainEventType.APPLICATION_SUBMITTED: {
           const payload = event.payload as ApplicationSubmittedPayload;
           await deps.applicationInsights.syncJobApplicationCount(payload.jobId);
+          await deps.applicationInsights.recordJobActivity(
+            payload.jobId,
+            "applications",
+            event.occurredAt,
+          );
           logger.info("Synced application count for job", {
             jobId: payload.jobId,
             applicationId: payload.applicationId,
@@ -63,6 +79,51 @@ function createDomainEventHandler(deps: DomainEventWorkerDeps) {
           break;
         }
 
+        case DomainEventType.JOB_SAVED: {
+          const payload = event.payload as JobSavedPayload;
+          await deps.applicationInsights.recordJobActivity(
+            payload.jobId,
+            "saves",
+            event.occurredAt,
+          );
+          logger.info("Recorded job save", { jobId: payload.jobId });
+          break;
+        }
+
+        case DomainEventType.JOB_UPDATED: {
+          const payload = event.payload as JobUpdatedPayload;
+          const notified =
+            await deps.savedJobNotifications.notifySaversOfJobUpdate(
+              payload.jobId,
+              payload.changedFields,
+            );
+          if (notified.isFailure) {
+            throw notified.error;
+          }
+          logger.info("Notified savers of job update", {
+            jobId: payload.jobId,
+            savers: notified.value,
+          });
+          break;
+        }
+
+        case DomainEventType.JOB_CLOSED: {
+          const payload = event.payload as JobClosedPayload;
+          const notified =
+            await deps.savedJobNotifications.notifySaversOfJobClosure(
+              payload.jobId,
+            );
+          if (notified.isFailure) {
+            throw notified.error;
+          }
+          logger.info("Notified savers of job closure", {
+            jobId: payload.jobId,
+            status: payload.status,
+            savers: notified.value,
+          });
+          break;
+        }
+
         case DomainEventType.USER_DEACTIVATED: {
           const deactivatedPayload = event.payload as UserDeactivatedPayload;
           const alertsPaused =
@@ -109,6 +170,28 @@ function createDomainEventHandler(deps: DomainEventWorkerDeps) {
           break;
         }
 
+        case DomainEventType.INTERVIEW_RESCHEDULED: {
+          // Notifications are sent by the interviews service; recorded here
+          // for the event log until other modules subscribe.
+          const payload = event.payload as InterviewRescheduledPayload;
+          logger.info("Interview rescheduled", {
+            interviewId: payload.interviewId,
+            applicationId: payload.applicationId,
+            previousStart: payload.previousStart,
+          });
+          break;
+        }
+
+        case DomainEventType.INTERVIEW_CANCELLED: {
+          const payload = event.payload as InterviewCancelledPayload;
+          logger.info("Interview cancelled", {
+            interviewId: payload.interviewId,
+            applicationId: payload.applicationId,
+            scheduledStart: payload.scheduledStart,
+          });
+          break;
+        }
+
         default:
           logger.warn("Unknown domain event type", {
             eventType: event.eventType,
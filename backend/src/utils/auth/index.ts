@@ -160,6 +160,15 @@ export const auth = betterAuth({
           input: z.enum(["completed", "pending"]),
         },
       },
+      platformRole: {
+        type: "string",
+        required: true,
+        defaultValue: "user",
+        input: false,
+        validator: {
+          input: z.enum(["user", "staff"]),
+        },
+      },
     },
   },
   advanced: {
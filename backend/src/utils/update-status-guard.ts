@@ -1,28 +1,32 @@
 import { ValidationError } from "@shared/errors";
-
-type Status =
-  | "pending"
-  | "reviewed"
-  | "shortlisted"
-  | "interviewing"
-  | "rejected"
-  | "hired"
-  | "withdrawn";
+import {
+  DEFAULT_HIRING_PIPELINE,
+  type HiringPipelineDefinition,
+} from "@shared/constants/hiring-pipeline";
 
 export function statusRegressionGuard(
-  currentStatus: Status,
-  statusUpdateAttempt: Status,
+  currentStatus: string,
+  statusUpdateAttempt: string,
+  pipeline: HiringPipelineDefinition = DEFAULT_HIRING_PIPELINE,
 ) {
-  const updateStatusProgressionMap = {
-    pending: ["reviewed", "withdrawn"],
-    reviewed: ["shortlisted", "rejected", "withdrawn"],
-    shortlisted: ["interviewing", "rejected", "withdrawn"],
-    interviewing: ["hired", "rejected", "withdrawn"],
-    rejected: [] as string[],
-    hired: [] as string[],
-    withdrawn: [] as string[],
-  };
-  const allowedStatusTransitions = updateStatusProgressionMap[currentStatus];
+  const targetStage = pipeline.stages.find(
+    (stage) => stage.key === statusUpdateAttempt,
+  );
+
+  if (!targetStage) {
+    throw new ValidationError(
+      `Unknown status ${statusUpdateAttempt} for pipeline ${pipeline.name}`,
+    );
+  }
+
+  const currentStage = pipeline.stages.find(
+    (stage) => stage.key === currentStatus,
+  );
+  const allowedStatusTransitions = currentStage?.isTerminal
+    ? []
+    : pipeline.transitions
+        .filter((transition) => transition.from === currentStatus)
+        .map((transition) => transition.to);
 
   if (!allowedStatusTransitions.includes(statusUpdateAttempt)) {
     throw new ValidationError(
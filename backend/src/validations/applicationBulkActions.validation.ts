@@ -0,0 +1,126 @@
+import { z } from "@/swagger/registry";
+import { applicationStatusSchema } from "@/validations/hiringPipeline.validation";
+import { jobApplicationsManagementSchema } from "@/validations/organization.validation";
+import { REJECTION_TEMPLATE_KEYS } from "@shared/constants/rejection-templates";
+import { REJECTED_APPLICATION_STATUS } from "@shared/constants/hiring-pipeline";
+
+export const MAX_BULK_APPLICATIONS = 500;
+
+export const bulkApplicationActionSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("move_to_stage"),
+      status: applicationStatusSchema,
+      reason: z.string().trim().max(1000).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("reject"),
+      templateKey: z.enum(REJECTION_TEMPLATE_KEYS),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("add_tag"),
+      tag: z.string().trim().min(1, "Tag is required").max(50),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("assign_reviewer"),
+      memberId: z.number().int().positive(),
+    })
+    .strict(),
+]);
+
+const bulkApplicationActionsInput = z
+  .object({
+    applicationIds: z
+      .array(z.number().int().positive())
+      .min(1, "At least one application is required")
+      .max(MAX_BULK_APPLICATIONS),
+    // Actions run in order on each application
+    actions: bulkApplicationActionSchema.array().min(1).max(4),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (new Set(data.applicationIds).size !== data.applicationIds.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Application IDs must be unique",
+        path: ["applicationIds"],
+      });
+    }
+
+    const statusChanges = data.actions.filter(
+      (action) => action.type === "move_to_stage" || action.type === "reject",
+    );
+    if (statusChanges.length > 1) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Only one status change can be made per bulk operation",
+        path: ["actions"],
+      });
+    }
+  });
+
+export const bulkApplicationActionsSchema = z.object({
+  body: bulkApplicationActionsInput,
+  params: jobApplicationsManagementSchema.shape["params"],
+  query: z.object({}).strict(),
+});
+
+/**
+ * Whether a bulk request rejects applications, either with a reject action or
+ * by moving them to the rejected stage. Runs before validation, so the body is
+ * inspected defensively.
+ */
+export const bulkActionsRejectApplications = (body: unknown): boolean => {
+  const actions = (body as { actions?: unknown } | undefined)?.actions;
+  if (!Array.isArray(actions)) return false;
+
+  return actions.some((action: { type?: unknown; status?: unknown }) => {
+    if (action?.type === "reject") return true;
+    return (
+      action?.type === "move_to_stage" &&
+      typeof action.status === "string" &&
+      action.status.trim() === REJECTED_APPLICATION_STATUS
+    );
+  });
+};
+
+/**
+ * Outcome of a bulk operation for one application. Actions stop at the first
+ * failure; earlier actions of the same application are kept.
+ */
+export const bulkApplicationActionResultSchema = z.object({
+  applicationId: z.number(),
+  success: z.boolean(),
+  // Status after the operation, null when the application was not found
+  status: z.string().nullable(),
+  failedAction: z
+    .enum(["move_to_stage", "reject", "add_tag", "assign_reviewer"])
+    .nullable(),
+  error: z.string().nullable(),
+});
+
+export const bulkApplicationActionsResponseSchema = z.object({
+  total: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: bulkApplicationActionResultSchema.array(),
+});
+
+export type BulkApplicationAction = z.infer<typeof bulkApplicationActionSchema>;
+export type BulkApplicationActionType = BulkApplicationAction["type"];
+export type BulkApplicationActionsSchema = z.infer<
+  typeof bulkApplicationActionsSchema
+>;
+export type BulkApplicationActionsInput = BulkApplicationActionsSchema["body"];
+export type BulkApplicationActionResult = z.infer<
+  typeof bulkApplicationActionResultSchema
+>;
+export type BulkApplicationActionsResult = z.infer<
+  typeof bulkApplicationActionsResponseSchema
+>;
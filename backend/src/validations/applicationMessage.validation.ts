@@ -0,0 +1,104 @@
+import { z } from "@/swagger/registry";
+import { fileMetadataSchema } from "@/validations/file.validation";
+import { jobApplicationManagementSchema } from "@/validations/organization.validation";
+import { getJobApplicationSchema } from "@/validations/jobApplications.validation";
+
+const messagingPartySchema = z.enum(["applicant", "organization"]);
+
+const messageInput = z
+  .object({
+    body: z
+      .string()
+      .trim()
+      .min(1, "Message cannot be empty")
+      .max(5000, "Message must be at most 5000 characters"),
+  })
+  .strict();
+
+export const applicationMessageSchema = z
+  .object({
+    id: z.number(),
+    applicationId: z.number(),
+    senderRole: messagingPartySchema,
+    // Null once the sender's account is deleted
+    senderName: z.string().nullable(),
+    body: z.string(),
+    // Empty until the file upload worker has stored the attachments
+    attachments: z.array(fileMetadataSchema),
+    // Set when the other side of the thread first opens it
+    readAt: z.date().nullable(),
+    createdAt: z.date(),
+  })
+  .openapi("ApplicationMessage");
+
+export const applicationMessageThreadSchema = z
+  .object({
+    applicationId: z.number(),
+    jobId: z.number(),
+    jobTitle: z.string(),
+    organizationId: z.number(),
+    organizationName: z.string(),
+    applicantName: z.string(),
+    // Which sides have blocked the other; no messages can be sent while any
+    // block exists
+    blockedBy: z.array(messagingPartySchema),
+    messages: z.array(applicationMessageSchema),
+  })
+  .openapi("ApplicationMessageThread");
+
+export const messagingBlockStateSchema = z
+  .object({
+    applicationId: z.number(),
+    blockedBy: z.array(messagingPartySchema),
+  })
+  .openapi("MessagingBlockState");
+
+export const messageInboxThreadSchema = z
+  .object({
+    applicationId: z.number(),
+    jobId: z.number(),
+    jobTitle: z.string(),
+    organizationId: z.number(),
+    organizationName: z.string(),
+    lastMessage: z.object({
+      body: z.string(),
+      senderRole: messagingPartySchema,
+      createdAt: z.date(),
+    }),
+    // Messages from the organization the applicant has not read yet
+    unreadCount: z.number(),
+  })
+  .openapi("MessageInboxThread");
+
+export const getMessageInboxSchema = z.object({
+  body: z.object({}).strict(),
+  params: z.object({}).strict(),
+  query: z.object({}).strict(),
+});
+
+export const sendApplicantMessageSchema = z.object({
+  body: messageInput,
+  params: getJobApplicationSchema.shape["params"],
+  query: z.object({}).strict(),
+});
+
+export const sendOrganizationMessageSchema = z.object({
+  body: messageInput,
+  params: jobApplicationManagementSchema.shape["params"],
+  query: z.object({}).strict(),
+});
+
+export type MessagingParty = z.infer<typeof messagingPartySchema>;
+export type ApplicationMessage = z.infer<typeof applicationMessageSchema>;
+export type ApplicationMessageThread = z.infer<
+  typeof applicationMessageThreadSchema
+>;
+export type MessagingBlockState = z.infer<typeof messagingBlockStateSchema>;
+export type MessageInboxThread = z.infer<typeof messageInboxThreadSchema>;
+export type GetMessageInboxSchema = z.infer<typeof getMessageInboxSchema>;
+export type SendApplicantMessageSchema = z.infer<
+  typeof sendApplicantMessageSchema
+>;
+export type SendOrganizationMessageSchema = z.infer<
+  typeof sendOrganizationMessageSchema
+>;
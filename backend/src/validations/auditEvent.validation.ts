@@ -0,0 +1,59 @@
+import { z } from "@/swagger/registry";
+import { AuditEventName, AuditOutcome } from "@shared/audit/audit.port";
+import { getOrganizationSchema } from "@/validations/organization.validation";
+
+export const auditEventSchema = z
+  .object({
+    id: z.number(),
+    name: AuditEventName,
+    actor: z.object({
+      // Null for anonymous events (e.g. invitation token reads)
+      id: z.string().nullable(),
+      fullName: z.string().nullable(),
+      email: z.string().nullable(),
+    }),
+    resource: z.object({
+      type: z.string(),
+      id: z.string().nullable(),
+    }),
+    action: z.string(),
+    outcome: AuditOutcome,
+    failureReason: z.string().nullable(),
+    metadata: z.record(z.string(), z.unknown()).nullable(),
+    createdAt: z.date(),
+  })
+  .openapi("AuditEvent");
+
+export const organizationAuditEventsQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    name: AuditEventName.optional(),
+    actorId: z.string().regex(/^\d+$/, "actorId must be a number").optional(),
+    resourceType: z.string().min(1).max(50).optional(),
+    resourceId: z.string().min(1).max(64).optional(),
+    outcome: AuditOutcome.optional(),
+    from: z.iso.datetime().optional(),
+    to: z.iso.datetime().optional(),
+  })
+  .strict()
+  .refine(
+    (query) =>
+      !query.from || !query.to || new Date(query.from) <= new Date(query.to),
+    { message: "from must be before to", path: ["from"] },
+  )
+  .openapi("OrganizationAuditEventsQuery");
+
+export const getOrganizationAuditEventsSchema = z.object({
+  body: z.object({}).strict(),
+  query: organizationAuditEventsQuerySchema,
+  params: getOrganizationSchema.shape["params"],
+});
+
+export type AuditEventRecord = z.infer<typeof auditEventSchema>;
+export type OrganizationAuditEventsQuery = z.infer<
+  typeof organizationAuditEventsQuerySchema
+>;
+export type GetOrganizationAuditEventsSchema = z.infer<
+  typeof getOrganizationAuditEventsSchema
+>;
@@ -0,0 +1,247 @@
+import { z } from "@/swagger/registry";
+import { JOB_STATUSES } from "@shared/constants/job-status";
+
+const idParam = (name: string) =>
+  z.string().regex(/^\d+$/, `${name} must be a number`);
+
+const paginationQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+const searchTerm = z.string().trim().min(1).max(100).optional();
+
+// ─── Users ──────────────────────────────────────────────────────────
+
+export const backOfficeUserSchema = z
+  .object({
+    id: z.number(),
+    fullName: z.string(),
+    email: z.string(),
+    emailVerified: z.boolean(),
+    status: z.string(),
+    intent: z.enum(["seeker", "employer"]),
+    platformRole: z.enum(["user", "staff"]),
+    lastLoginAt: z.date().nullable(),
+    createdAt: z.date(),
+  })
+  .openapi("BackOfficeUser");
+
+export const backOfficeUserDetailSchema = backOfficeUserSchema
+  .extend({
+    deletedAt: z.date().nullable(),
+    onboardingStatus: z.enum(["completed", "pending"]),
+    memberships: z.array(
+      z.object({
+        organizationId: z.number(),
+        organizationName: z.string(),
+        role: z.string(),
+        isActive: z.boolean(),
+      }),
+    ),
+    applicationCount: z.number(),
+  })
+  .openapi("BackOfficeUserDetail");
+
+export const backOfficeUsersQuerySchema = paginationQuery
+  .extend({
+    q: searchTerm,
+    status: z.enum(["active", "deactivated", "deleted"]).optional(),
+    intent: z.enum(["seeker", "employer"]).optional(),
+    platformRole: z.enum(["user", "staff"]).optional(),
+  })
+  .strict()
+  .openapi("BackOfficeUsersQuery");
+
+export const listBackOfficeUsersSchema = z.object({
+  body: z.object({}).strict(),
+  query: backOfficeUsersQuerySchema,
+  params: z.object({}).strict(),
+});
+
+export const getBackOfficeUserSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: z.object({ userId: idParam("userId") }).strict(),
+});
+
+// ─── Organizations ──────────────────────────────────────────────────
+
+const organizationStatus = z.enum(["active", "suspended", "deleted"]);
+
+export const backOfficeOrganizationSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    city: z.string(),
+    state: z.string(),
+    status: organizationStatus,
+    subscriptionTier: z.string(),
+    subscriptionStatus: z.string(),
+    memberCount: z.number(),
+    createdAt: z.date(),
+  })
+  .openapi("BackOfficeOrganization");
+
+export const backOfficeOrganizationDetailSchema = backOfficeOrganizationSchema
+  .extend({
+    url: z.string(),
+    subscriptionEndDate: z.date().nullable(),
+    members: z.array(
+      z.object({
+        userId: z.number(),
+        fullName: z.string(),
+        email: z.string(),
+        role: z.string(),
+        isActive: z.boolean(),
+      }),
+    ),
+    jobCounts: z.record(z.string(), z.number()),
+  })
+  .openapi("BackOfficeOrganizationDetail");
+
+export const backOfficeOrganizationsQuerySchema = paginationQuery
+  .extend({
+    q: searchTerm,
+    status: organizationStatus.optional(),
+  })
+  .strict()
+  .openapi("BackOfficeOrganizationsQuery");
+
+const organizationParams = z
+  .object({ organizationId: idParam("organizationId") })
+  .strict();
+
+export const listBackOfficeOrganizationsSchema = z.object({
+  body: z.object({}).strict(),
+  query: backOfficeOrganizationsQuerySchema,
+  params: z.object({}).strict(),
+});
+
+export const getBackOfficeOrganizationSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+export const suspendOrganizationSchema = z.object({
+  body: z
+    .object({
+      reason: z.string().trim().min(1).max(500),
+    })
+    .strict(),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+export const reinstateOrganizationSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+// ─── Jobs ───────────────────────────────────────────────────────────
+
+export const backOfficeJobSchema = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    status: z.enum(JOB_STATUSES),
+    employerId: z.number(),
+    employerName: z.string(),
+    city: z.string(),
+    state: z.string().nullable(),
+    isRemote: z.boolean(),
+    applicationCount: z.number(),
+    createdAt: z.date(),
+  })
+  .openapi("BackOfficeJob");
+
+export const backOfficeJobsQuerySchema = paginationQuery
+  .extend({
+    q: searchTerm,
+    status: z.enum(JOB_STATUSES).optional(),
+    employerId: z.coerce.number().int().positive().optional(),
+  })
+  .strict()
+  .openapi("BackOfficeJobsQuery");
+
+export const listBackOfficeJobsSchema = z.object({
+  body: z.object({}).strict(),
+  query: backOfficeJobsQuerySchema,
+  params: z.object({}).strict(),
+});
+
+export const getBackOfficeJobSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: z.object({ jobId: idParam("jobId") }).strict(),
+});
+
+// ─── Applications ───────────────────────────────────────────────────
+
+export const backOfficeApplicationSchema = z
+  .object({
+    id: z.number(),
+    jobId: z.number(),
+    jobTitle: z.string(),
+    employerId: z.number(),
+    applicantId: z.number(),
+    applicantName: z.string(),
+    applicantEmail: z.string(),
+    status: z.string(),
+    screeningStatus: z.enum(["passed", "flagged", "rejected"]).nullable(),
+    appliedAt: z.date(),
+  })
+  .openapi("BackOfficeApplication");
+
+export const backOfficeApplicationsQuerySchema = paginationQuery
+  .extend({
+    jobId: z.coerce.number().int().positive().optional(),
+    applicantId: z.coerce.number().int().positive().optional(),
+    status: z.string().trim().min(1).max(50).optional(),
+  })
+  .strict()
+  .openapi("BackOfficeApplicationsQuery");
+
+export const listBackOfficeApplicationsSchema = z.object({
+  body: z.object({}).strict(),
+  query: backOfficeApplicationsQuerySchema,
+  params: z.object({}).strict(),
+});
+
+export const getBackOfficeApplicationSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: z.object({ applicationId: idParam("applicationId") }).strict(),
+});
+
+export type BackOfficeUser = z.infer<typeof backOfficeUserSchema>;
+export type BackOfficeUserDetail = z.infer<typeof backOfficeUserDetailSchema>;
+export type BackOfficeUsersQuery = z.infer<typeof backOfficeUsersQuerySchema>;
+export type GetBackOfficeUserSchema = z.infer<typeof getBackOfficeUserSchema>;
+export type BackOfficeOrganization = z.infer<
+  typeof backOfficeOrganizationSchema
+>;
+export type BackOfficeOrganizationDetail = z.infer<
+  typeof backOfficeOrganizationDetailSchema
+>;
+export type BackOfficeOrganizationsQuery = z.infer<
+  typeof backOfficeOrganizationsQuerySchema
+>;
+export type GetBackOfficeOrganizationSchema = z.infer<
+  typeof getBackOfficeOrganizationSchema
+>;
+export type SuspendOrganizationSchema = z.infer<
+  typeof suspendOrganizationSchema
+>;
+export type BackOfficeJob = z.infer<typeof backOfficeJobSchema>;
+export type BackOfficeJobsQuery = z.infer<typeof backOfficeJobsQuerySchema>;
+export type GetBackOfficeJobSchema = z.infer<typeof getBackOfficeJobSchema>;
+export type BackOfficeApplication = z.infer<typeof backOfficeApplicationSchema>;
+export type BackOfficeApplicationsQuery = z.infer<
+  typeof backOfficeApplicationsQuerySchema
+>;
+export type GetBackOfficeApplicationSchema = z.infer<
+  typeof getBackOfficeApplicationSchema
+>;
@@ -2,67 +2,138 @@ import { z } from "zod";
 
 import { coerceQueryBool } from "@/validations/shared/coerce";
 
-export const searchParams = z.object({
-  body: z.object({}).strict(),
-  query: z
-    .object({
-      page: z.coerce
-        .number()
-        .min(1)
-        .optional()
-        .default(1)
-        .transform(Number)
-        .optional(),
-      limit: z.coerce
-        .number()
-        .min(1)
-        .max(100)
-        .optional()
-        .default(10)
-        .transform(Number)
-        .optional(),
-      q: z.string().optional(),
-      jobType: z
-        .enum(["full-time", "part-time", "contract", "volunteer", "internship"])
-        .array()
-        .optional()
-        .or(
-          z.enum([
+/** Largest radius, in miles, accepted by radius-based search and alerts. */
+export const MAX_SEARCH_RADIUS_MILES = 500;
+
+export const searchParams = z
+  .object({
+    body: z.object({}).strict(),
+    query: z
+      .object({
+        page: z.coerce
+          .number()
+          .min(1)
+          .optional()
+          .default(1)
+          .transform(Number)
+          .optional(),
+        limit: z.coerce
+          .number()
+          .min(1)
+          .max(100)
+          .optional()
+          .default(10)
+          .transform(Number)
+          .optional(),
+        q: z.string().optional(),
+        jobType: z
+          .enum([
             "full-time",
             "part-time",
             "contract",
             "volunteer",
             "internship",
-          ]),
-        ),
-      compensationType: z
-        .enum(["paid", "missionary", "volunteer", "stipend"])
-        .array()
-        .optional()
-        .or(z.enum(["paid", "missionary", "volunteer", "stipend"])),
-      city: z.string().optional(),
-      experience: z.string().optional(),
-      state: z.string().optional(),
-      country: z.string().optional(),
-      zipcode: z.string().optional(),
-      skills: z.string().array().optional().or(z.string().optional()),
-      includeRemote: coerceQueryBool().optional(),
-      isActive: coerceQueryBool().optional(),
-      datePosted: z
-        .enum(["last-24-hours", "last-7-days", "last-14-days"])
-        .optional(),
-      sortBy: z.enum(["recent", "relevant"]).optional(),
-      order: z
-        .string()
-        .optional()
-        .refine(
-          (val) => !val || ["asc", "desc"].includes(val),
-          "Order must be either 'asc' or 'desc'",
-        ),
-    })
-    .strict(),
-  params: z.object({}).strict(),
-});
+          ])
+          .array()
+          .optional()
+          .or(
+            z.enum([
+              "full-time",
+              "part-time",
+              "contract",
+              "volunteer",
+              "internship",
+            ]),
+          ),
+        compensationType: z
+          .enum(["paid", "missionary", "volunteer", "stipend"])
+          .array()
+          .optional()
+          .or(z.enum(["paid", "missionary", "volunteer", "stipend"])),
+        city: z.string().optional(),
+        experience: z.string().optional(),
+        state: z.string().optional(),
+        country: z.string().optional(),
+        zipcode: z.string().optional(),
+        skills: z.string().array().optional().or(z.string().optional()),
+        workAreas: z.string().array().optional().or(z.string().optional()),
+        includeRemote: coerceQueryBool().optional(),
+        isActive: coerceQueryBool().optional(),
+        datePosted: z
+          .enum(["last-24-hours", "last-7-days", "last-14-days"])
+          .optional(),
+        lat: z.coerce.number().min(-90).max(90).optional(),
+        lng: z.coerce.number().min(-180).max(180).optional(),
+        radius: z.coerce
+          .number()
+          .positive()
+          .max(MAX_SEARCH_RADIUS_MILES)
+          .optional(),
+        // Pay range overlap, in whole units per `payPeriod`
+        salaryMin: z.coerce.number().int().min(0).optional(),
+        salaryMax: z.coerce.number().int().min(0).optional(),
+        payPeriod: z.enum(["hourly", "monthly", "yearly"]).optional(),
+        currency: z
+          .string()
+          .trim()
+          .toUpperCase()
+          .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO 4217 code")
+          .optional(),
+        supportRaisedByCandidate: coerceQueryBool().optional(),
+        // Only jobs from organizations verified by platform staff
+        verifiedOnly: coerceQueryBool().optional(),
+        sortBy: z
+          .enum(["recent", "relevant", "distance", "compensation"])
+          .optional(),
+        order: z
+          .string()
+          .optional()
+          .refine(
+            (val) => !val || ["asc", "desc"].includes(val),
+            "Order must be either 'asc' or 'desc'",
+          ),
+      })
+      .strict(),
+    params: z.object({}).strict(),
+  })
+  // Refined on the outer object so routes can keep picking from the query shape
+  .refine(
+    ({ query }) => (query.lat === undefined) === (query.lng === undefined),
+    {
+      message: "lat and lng must be provided together",
+      path: ["query", "lat"],
+    },
+  )
+  // Amounts are only comparable within one pay period
+  .refine(
+    ({ query }) =>
+      (query.salaryMin === undefined && query.salaryMax === undefined) ||
+      query.payPeriod !== undefined,
+    {
+      message: "payPeriod is required when filtering by salary",
+      path: ["query", "payPeriod"],
+    },
+  )
+  .refine(
+    ({ query }) =>
+      query.salaryMin === undefined ||
+      query.salaryMax === undefined ||
+      query.salaryMin <= query.salaryMax,
+    {
+      message: "salaryMin cannot exceed salaryMax",
+      path: ["query", "salaryMin"],
+    },
+  )
+  .refine(
+    ({ query }) =>
+      query.sortBy !== "distance" ||
+      query.lat !== undefined ||
+      query.radius !== undefined,
+    {
+      message: "Sorting by distance requires lat/lng or a radius",
+      path: ["query", "sortBy"],
+    },
+  );
 
 export const searchJobResult = z.object({
   id: z.string(),
@@ -76,11 +147,45 @@ export const searchJobResult = z.object({
   experience: z.string().optional(),
   jobType: z.string(),
   skills: z.string().array(),
+  workAreas: z.string().array().optional(),
   createdAt: z.number(),
   compensationType: z.string().optional(),
+  compensationMin: z.number().optional(),
+  compensationMax: z.number().optional(),
+  compensationCurrency: z.string().optional(),
+  payPeriod: z.string().optional(),
+  supportRaisedByCandidate: z.boolean().optional(),
+  monthlySupportTarget: z.number().optional(),
   logoUrl: z.string().optional(),
+  isVerified: z.boolean().optional(),
+});
+
+/**
+ * Fields the job search reports facet counts for, under the active filters;
+ * a multi-select facet's own selection is left out of its counts.
+ */
+export const JOB_SEARCH_FACET_FIELDS = [
+  "jobType",
+  "compensationType",
+  "experience",
+  "isRemote",
+  "state",
+  "city",
+  "skills",
+  "workAreas",
+] as const;
+
+export const searchFacetCountSchema = z.object({
+  value: z.string(),
+  count: z.number().int(),
 });
 
+/** Matching-job counts per facet value; values with no matches are omitted. */
+export const searchFacetsSchema = z.record(
+  z.enum(JOB_SEARCH_FACET_FIELDS),
+  searchFacetCountSchema.array(),
+);
+
 export const recommendationParams = z.object({
   body: z.object({}).strict(),
   query: z
@@ -95,3 +200,5 @@ export const recommendationParams = z.object({
 export type SearchParams = z.infer<typeof searchParams>;
 export type RecommendationParams = z.infer<typeof recommendationParams>;
 export type JobDocumentType = z.infer<typeof searchJobResult>;
+export type JobSearchFacetField = (typeof JOB_SEARCH_FACET_FIELDS)[number];
+export type SearchFacets = z.infer<typeof searchFacetsSchema>;
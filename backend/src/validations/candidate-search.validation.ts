@@ -1,5 +1,7 @@
 import { z } from "@/swagger/registry";
 import { coerceQueryBool } from "@/validations/shared/coerce";
+import { MAX_SEARCH_RADIUS_MILES } from "@/validations/base.validation";
+import { getOrganizationSchema } from "@/validations/organization.validation";
 
 const toArray = (val: string | string[]): string[] =>
   Array.isArray(val) ? val : [val];
@@ -17,6 +19,49 @@ export const candidatePreviewSchema = z
   })
   .openapi("CandidatePreview");
 
+/**
+ * Full public profile of a candidate as shown to employers. Contact details
+ * (email, phone, address) are left out; employers reach candidates through
+ * an invitation to apply.
+ */
+export const candidateDetailSchema = z
+  .object({
+    userId: z.number().int(),
+    name: z.string(),
+    photoUrl: z.string().nullable(),
+    bio: z.string().nullable(),
+    location: z.string(),
+    skills: z.array(z.string()),
+    openToWork: z.boolean(),
+    resumeUrl: z.string().nullable(),
+    linkedinUrl: z.string().nullable(),
+    portfolioUrl: z.string().nullable(),
+    workExperiences: z.array(
+      z.object({
+        companyName: z.string(),
+        jobTitle: z.string(),
+        description: z.string().nullable(),
+        current: z.boolean(),
+        startDate: z.date(),
+        endDate: z.date().nullable(),
+      }),
+    ),
+    education: z.array(
+      z.object({
+        schoolName: z.string(),
+        program: z.string(),
+        major: z.string(),
+        graduated: z.boolean(),
+        startDate: z.date(),
+        endDate: z.date().nullable(),
+      }),
+    ),
+    certifications: z.array(z.string()),
+    /** The organization's jobs the candidate was already invited to apply to */
+    invitedJobIds: z.array(z.number().int()),
+  })
+  .openapi("CandidateDetail");
+
 export const searchCandidatesQuerySchema = z
   .object({
     skills: z
@@ -31,16 +76,49 @@ export const searchCandidatesQuerySchema = z
     // candidates whose indexed `location` field never includes a zip. Kept
     // short (max 20) to accommodate international formats without bloat.
     zipcode: z.string().max(20).optional(),
+    // Radius search centres on lat/lng, or on the geocoded `zipcode` when no
+    // point is given; it replaces the `location`/`zipcode` string match.
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+    radius: z.coerce
+      .number()
+      .positive()
+      .max(MAX_SEARCH_RADIUS_MILES)
+      .optional(),
     minYearsExperience: z.coerce.number().int().min(0).max(50).optional(),
     openToWork: coerceQueryBool().optional(),
     page: z.coerce.number().int().min(1).default(1),
     limit: z.coerce.number().int().min(1).max(100).default(20),
     sortBy: z
-      .enum(["relevant", "recent", "name", "yearsOfExperience"])
+      .enum(["relevant", "recent", "name", "yearsOfExperience", "distance"])
       .default("relevant"),
     sortOrder: z.enum(["asc", "desc"]).default("desc").optional(),
   })
   .strict()
+  .refine((query) => (query.lat === undefined) === (query.lng === undefined), {
+    message: "lat and lng must be provided together",
+    path: ["lat"],
+  })
+  .refine(
+    (query) =>
+      query.radius === undefined ||
+      query.lat !== undefined ||
+      query.zipcode !== undefined,
+    {
+      message: "A radius search requires lat/lng or a zipcode",
+      path: ["radius"],
+    },
+  )
+  .refine(
+    (query) =>
+      query.sortBy !== "distance" ||
+      query.lat !== undefined ||
+      query.radius !== undefined,
+    {
+      message: "Sorting by distance requires lat/lng or a radius",
+      path: ["sortBy"],
+    },
+  )
   .openapi("SearchCandidatesQuery");
 
 export const searchCandidatesSchema = z.object({
@@ -51,3 +129,45 @@ export const searchCandidatesSchema = z.object({
 
 export type SearchCandidatesSchema = z.infer<typeof searchCandidatesSchema>;
 export type CandidatePreview = z.infer<typeof candidatePreviewSchema>;
+
+const candidateParams = getOrganizationSchema.shape["params"]
+  .extend({
+    userId: z.string().regex(/^\d+$/, "userId must be a number"),
+  })
+  .strict();
+
+export const getCandidateDetailSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: candidateParams,
+});
+
+export const inviteCandidateToApplySchema = z.object({
+  body: z
+    .object({
+      jobId: z.number().int().positive(),
+      message: z.string().trim().max(1000).optional(),
+    })
+    .strict(),
+  query: z.object({}).strict(),
+  params: candidateParams,
+});
+
+export const candidateOutreachSchema = z
+  .object({
+    id: z.number().int(),
+    organizationId: z.number().int(),
+    candidateId: z.number().int(),
+    jobId: z.number().int(),
+    sentBy: z.number().int().nullable(),
+    message: z.string().nullable(),
+    createdAt: z.date(),
+  })
+  .openapi("CandidateOutreach");
+
+export type CandidateDetail = z.infer<typeof candidateDetailSchema>;
+export type GetCandidateDetailSchema = z.infer<typeof getCandidateDetailSchema>;
+export type InviteCandidateToApplySchema = z.infer<
+  typeof inviteCandidateToApplySchema
+>;
+export type CandidateOutreach = z.infer<typeof candidateOutreachSchema>;
@@ -46,7 +46,13 @@ export type TempFile = z.infer<typeof tempFileSchema>;
 /**
  * Entity types that support file uploads
  */
-export const entityTypeSchema = z.enum(["job", "organization", "user"]);
+export const entityTypeSchema = z.enum([
+  "application_message",
+  "job",
+  "organization",
+  "organization_verification",
+  "user",
+]);
 export type EntityType = z.infer<typeof entityTypeSchema>;
 
 /**
@@ -0,0 +1,139 @@
+import { z } from "@/swagger/registry";
+import {
+  INITIAL_APPLICATION_STATUS,
+  WITHDRAWN_APPLICATION_STATUS,
+} from "@shared/constants/hiring-pipeline";
+
+/**
+ * An application status is a stage key of the organization's hiring pipeline.
+ */
+export const applicationStatusSchema = z
+  .string()
+  .trim()
+  .min(1, "Status is required")
+  .max(50)
+  .regex(
+    /^[a-z0-9_]+$/,
+    "Status must contain only lowercase letters, numbers and underscores",
+  );
+
+const organizationIdParamSchema = z.object({
+  organizationId: z.string().regex(/^\d+$/, "organizationId is required"),
+});
+
+const hiringPipelineStageInput = z.object({
+  key: applicationStatusSchema,
+  label: z.string().trim().min(1, "Stage label is required").max(100),
+  isTerminal: z.boolean().default(false),
+  allowsInterviews: z.boolean().default(false),
+});
+
+const hiringPipelineTransitionInput = z.object({
+  from: applicationStatusSchema,
+  to: applicationStatusSchema,
+});
+
+const hiringPipelineInput = z
+  .object({
+    name: z.string().trim().min(1, "Pipeline name is required").max(100),
+    // Stage order in the array defines the display order of the pipeline
+    stages: hiringPipelineStageInput.array().min(2).max(30),
+    transitions: hiringPipelineTransitionInput.array().max(300),
+  })
+  .superRefine((data, ctx) => {
+    const stagesByKey = new Map(data.stages.map((s) => [s.key, s]));
+
+    if (stagesByKey.size !== data.stages.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Stage keys must be unique",
+        path: ["stages"],
+      });
+    }
+
+    const initialStage = stagesByKey.get(INITIAL_APPLICATION_STATUS);
+    if (!initialStage || initialStage.isTerminal) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Pipeline must contain a non-terminal "${INITIAL_APPLICATION_STATUS}" stage`,
+        path: ["stages"],
+      });
+    }
+
+    const withdrawnStage = stagesByKey.get(WITHDRAWN_APPLICATION_STATUS);
+    if (!withdrawnStage || !withdrawnStage.isTerminal) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Pipeline must contain a terminal "${WITHDRAWN_APPLICATION_STATUS}" stage`,
+        path: ["stages"],
+      });
+    }
+
+    data.stages.forEach((stage, index) => {
+      if (stage.isTerminal && stage.allowsInterviews) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Terminal stage "${stage.key}" cannot allow interviews`,
+          path: ["stages", index, "allowsInterviews"],
+        });
+      }
+    });
+
+    data.transitions.forEach((transition, index) => {
+      const from = stagesByKey.get(transition.from);
+      if (!from || !stagesByKey.has(transition.to)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Transitions must reference stages in the pipeline",
+          path: ["transitions", index],
+        });
+      } else if (from.isTerminal) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Terminal stage "${transition.from}" cannot have outgoing transitions`,
+          path: ["transitions", index],
+        });
+      } else if (transition.from === transition.to) {
+        ctx.addIssue({
+          code: "custom",
+          message: "A stage cannot transition to itself",
+          path: ["transitions", index],
+        });
+      }
+    });
+  });
+
+export const getHiringPipelineSchema = z.object({
+  body: z.object({}).strict(),
+  params: organizationIdParamSchema,
+  query: z.object({}).strict(),
+});
+
+export const updateHiringPipelineSchema = z.object({
+  body: hiringPipelineInput,
+  params: organizationIdParamSchema,
+  query: z.object({}).strict(),
+});
+
+export const hiringPipelineResponseSchema = z.object({
+  id: z.number().nullable(),
+  organizationId: z.number(),
+  name: z.string(),
+  stages: z
+    .object({
+      key: z.string(),
+      label: z.string(),
+      position: z.number(),
+      isTerminal: z.boolean(),
+      allowsInterviews: z.boolean(),
+    })
+    .array(),
+  transitions: z.object({ from: z.string(), to: z.string() }).array(),
+});
+
+export type GetHiringPipelineSchema = z.infer<typeof getHiringPipelineSchema>;
+export type UpdateHiringPipelineSchema = z.infer<
+  typeof updateHiringPipelineSchema
+>;
+export type UpdateHiringPipelineInput = UpdateHiringPipelineSchema["body"];
+export type HiringPipeline = z.infer<typeof hiringPipelineResponseSchema>;
@@ -0,0 +1,166 @@
+import { z } from "@/swagger/registry";
+import { jobApplicationManagementSchema } from "@/validations/organization.validation";
+import { getJobApplicationSchema } from "@/validations/jobApplications.validation";
+
+const numericIdParam = (name: string) =>
+  z.string().regex(/^\d+$/, `${name} must be a valid number`);
+
+const interviewSlotInput = z
+  .object({
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date(),
+  })
+  .refine((slot) => slot.endsAt > slot.startsAt, {
+    message: "Slot must end after it starts",
+    path: ["endsAt"],
+  })
+  .refine((slot) => slot.startsAt > new Date(), {
+    message: "Slot must start in the future",
+    path: ["startsAt"],
+  });
+
+const interviewSlotsInput = interviewSlotInput.array().min(1).max(10);
+
+const locationTypeSchema = z.enum(["in_person", "video", "phone"]);
+
+const proposeInterviewInput = z
+  .object({
+    slots: interviewSlotsInput,
+    interviewerIds: z
+      .array(z.number().int().positive())
+      .min(1, "At least one interviewer is required")
+      .max(10),
+    locationType: locationTypeSchema,
+    location: z.string().trim().min(1).max(255).optional(),
+    meetingUrl: z.url().max(500).optional(),
+    notes: z.string().trim().max(2000).optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    if (new Set(data.interviewerIds).size !== data.interviewerIds.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Interviewers must be unique",
+        path: ["interviewerIds"],
+      });
+    }
+    if (data.locationType === "video" && !data.meetingUrl) {
+      ctx.addIssue({
+        code: "custom",
+        message: "A meeting link is required for video interviews",
+        path: ["meetingUrl"],
+      });
+    }
+    if (data.locationType !== "video" && !data.location) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          "A location is required for in-person and phone interviews (address or phone number)",
+        path: ["location"],
+      });
+    }
+  });
+
+const interviewManagementParams = jobApplicationManagementSchema.shape[
+  "params"
+].extend({
+  interviewId: numericIdParam("interviewId"),
+});
+
+export const proposeInterviewSchema = z.object({
+  body: proposeInterviewInput,
+  params: jobApplicationManagementSchema.shape["params"],
+  query: z.object({}).strict(),
+});
+
+export const rescheduleInterviewSchema = z.object({
+  body: z
+    .object({
+      slots: interviewSlotsInput,
+      reason: z.string().trim().max(1000).optional(),
+    })
+    .strict(),
+  params: interviewManagementParams,
+  query: z.object({}).strict(),
+});
+
+export const cancelInterviewSchema = z.object({
+  body: z
+    .object({
+      reason: z.string().trim().max(1000).optional(),
+    })
+    .strict(),
+  params: interviewManagementParams,
+  query: z.object({}).strict(),
+});
+
+export const selectInterviewSlotSchema = z.object({
+  body: z
+    .object({
+      slotId: z.number().int().positive(),
+    })
+    .strict(),
+  params: getJobApplicationSchema.shape["params"].extend({
+    interviewId: numericIdParam("interviewId"),
+  }),
+  query: z.object({}).strict(),
+});
+
+const interviewSlotSchema = z.object({
+  id: z.number(),
+  startsAt: z.date(),
+  endsAt: z.date(),
+  isSelected: z.boolean(),
+});
+
+/**
+ * Interview as seen by the employer.
+ */
+export const interviewResponseSchema = z.object({
+  id: z.number(),
+  applicationId: z.number(),
+  organizationId: z.number(),
+  status: z.enum(["proposed", "scheduled", "cancelled"]),
+  locationType: locationTypeSchema,
+  location: z.string().nullable(),
+  meetingUrl: z.string().nullable(),
+  notes: z.string().nullable(),
+  scheduledStart: z.date().nullable(),
+  scheduledEnd: z.date().nullable(),
+  sequence: z.number(),
+  cancellationReason: z.string().nullable(),
+  slots: interviewSlotSchema.array(),
+  interviewers: z
+    .object({
+      memberId: z.number(),
+      userId: z.number(),
+      fullName: z.string(),
+      email: z.string(),
+    })
+    .array(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+/**
+ * Interview as seen by the candidate; interviewers are listed by name only.
+ */
+export const candidateInterviewResponseSchema = interviewResponseSchema
+  .omit({ organizationId: true, sequence: true, interviewers: true })
+  .extend({
+    interviewers: z.object({ fullName: z.string() }).array(),
+  });
+
+export type ProposeInterviewSchema = z.infer<typeof proposeInterviewSchema>;
+export type ProposeInterviewInput = ProposeInterviewSchema["body"];
+export type RescheduleInterviewSchema = z.infer<
+  typeof rescheduleInterviewSchema
+>;
+export type CancelInterviewSchema = z.infer<typeof cancelInterviewSchema>;
+export type SelectInterviewSlotSchema = z.infer<
+  typeof selectInterviewSlotSchema
+>;
+export type Interview = z.infer<typeof interviewResponseSchema>;
+export type CandidateInterview = z.infer<
+  typeof candidateInterviewResponseSchema
+>;
@@ -3,6 +3,129 @@ import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { jobApplications, jobInsights, jobsDetails, skills } from "@/db/schema";
 import { Organization } from "@/validations/organization.validation";
 import { JobAlertMatch } from "@/validations/jobAlerts.validation";
+import {
+  screeningQuestionsInputSchema,
+  type PublicScreeningQuestion,
+  type ScreeningQuestion,
+} from "@/validations/screeningQuestion.validation";
+import {
+  EMPLOYER_JOB_STATUSES,
+  INITIAL_JOB_STATUSES,
+} from "@shared/constants/job-status";
+
+/** Most work areas a single job posting can be tagged with. */
+export const MAX_JOB_WORK_AREAS = 5;
+
+const jobWorkAreaIdsSchema = z
+  .array(z.number().int().positive())
+  .max(
+    MAX_JOB_WORK_AREAS,
+    `A job can have at most ${MAX_JOB_WORK_AREAS} work areas`,
+  );
+
+/** Largest pay or support amount accepted on a job posting. */
+export const MAX_COMPENSATION_AMOUNT = 10_000_000;
+
+const compensationAmountSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(MAX_COMPENSATION_AMOUNT)
+  .nullish();
+
+type CompensationFields = {
+  compensationType?: string;
+  compensationMin?: number | null;
+  compensationMax?: number | null;
+  compensationCurrency?: string | null;
+  payPeriod?: string | null;
+  supportRaisedByCandidate?: boolean;
+  monthlySupportTarget?: number | null;
+};
+
+/**
+ * Pay range and support-raising rules. `requireUnits` demands a currency and
+ * pay period alongside any amount; partial updates skip it since the stored
+ * job may already carry them.
+ */
+const refineCompensation =
+  (requireUnits: boolean) =>
+  (data: CompensationFields, ctx: z.RefinementCtx) => {
+    const { compensationMin: min, compensationMax: max } = data;
+
+    if (min != null && max != null && min > max) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Minimum compensation cannot exceed the maximum",
+        path: ["compensationMin"],
+      });
+    }
+
+    if (
+      requireUnits &&
+      (min != null || max != null) &&
+      (!data.compensationCurrency || !data.payPeriod)
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: "A currency and pay period are required with a pay range",
+        path: ["payPeriod"],
+      });
+    }
+
+    const hasSupportFields =
+      !!data.supportRaisedByCandidate || data.monthlySupportTarget != null;
+    if (
+      hasSupportFields &&
+      data.compensationType !== undefined &&
+      data.compensationType !== "missionary"
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Support-raising fields only apply to missionary roles",
+        path: ["compensationType"],
+      });
+    }
+  };
+
+/**
+ * Scheduling rules: a scheduled job needs a future `publishAt`, and
+ * `publishAt` means nothing for any other status.
+ */
+const refinePublishAt = (
+  data: { status?: string; publishAt?: string },
+  ctx: z.RefinementCtx,
+) => {
+  if (data.status !== "scheduled") {
+    if (data.publishAt) {
+      ctx.addIssue({
+        code: "custom",
+        message: "publishAt only applies to scheduled jobs",
+        path: ["publishAt"],
+      });
+    }
+    return;
+  }
+
+  if (!data.publishAt) {
+    ctx.addIssue({
+      code: "custom",
+      message: "publishAt is required to schedule a job",
+      path: ["publishAt"],
+    });
+  } else if (Date.parse(data.publishAt) <= Date.now()) {
+    ctx.addIssue({
+      code: "custom",
+      message: "publishAt must be in the future",
+      path: ["publishAt"],
+    });
+  }
+};
+
+/** A ministry work area a job can be tagged with. */
+export const jobWorkAreaSchema = z
+  .object({ id: z.number().int(), name: z.string() })
+  .openapi("JobWorkArea");
 
 // Base schema WITHOUT refinements (for use with .partial())
 const insertJobBaseSchema = createInsertSchema(jobsDetails, {
@@ -18,6 +141,15 @@ const insertJobBaseSchema = createInsertSchema(jobsDetails, {
   state: z.string().max(50).trim().optional(),
   country: z.string().max(100).trim().optional().default("United States"),
   zipcode: z.string().max(20).trim().optional(),
+  compensationMin: compensationAmountSchema,
+  compensationMax: compensationAmountSchema,
+  compensationCurrency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO 4217 code")
+    .nullish(),
+  monthlySupportTarget: compensationAmountSchema,
   employerId: z.number().int().positive("Employer ID is required"),
 });
 
@@ -29,7 +161,8 @@ export const insertJobSchema = insertJobBaseSchema
   })
   .refine((data) => !(data.country === "United States" && !data.zipcode), {
     message: "Zip Code is required for United States",
-  });
+  })
+  .superRefine(refineCompensation(true));
 
 export const insertJobApplicationSchema = createInsertSchema(jobApplications, {
   jobId: z.number().int().positive("Job ID is required"),
@@ -57,9 +190,15 @@ export const updateJobInputSchema = insertJobBaseSchema
     id: true,
     createdAt: true,
     employerId: true,
+    // Lifecycle changes go through the status endpoint
+    status: true,
+    isActive: true,
+    publishAt: true,
   })
   .extend({
     skills: z.array(z.string()).optional(),
+    workAreaIds: jobWorkAreaIdsSchema.optional(),
+    screeningQuestions: screeningQuestionsInputSchema.optional(),
   })
   .refine(
     (data) => {
@@ -72,7 +211,8 @@ export const updateJobInputSchema = insertJobBaseSchema
     {
       message: "State and Zip Code are required for United States",
     },
-  );
+  )
+  .superRefine(refineCompensation(false));
 
 export const updateJobApplicationSchema = insertJobApplicationSchema
   .partial()
@@ -92,10 +232,21 @@ export const updateJobInsightsSchema = insertJobInsightsSchema
 
 // Create job payload schema: use base schema, omit fields, extend, then add refinements
 const createJobPayloadBaseSchema = insertJobBaseSchema
-  .omit({ applicationDeadline: true, employerId: true })
+  .omit({
+    applicationDeadline: true,
+    employerId: true,
+    status: true,
+    isActive: true,
+    publishAt: true,
+  })
   .extend({
     applicationDeadline: z.iso.datetime(),
     skills: z.array(z.string().min(1).max(100)).min(1).max(50),
+    workAreaIds: jobWorkAreaIdsSchema.optional(),
+    screeningQuestions: screeningQuestionsInputSchema.optional(),
+    // Defaults to going live immediately
+    status: z.enum(INITIAL_JOB_STATUSES).optional(),
+    publishAt: z.iso.datetime().optional(),
   });
 
 const createJobPayloadSchema = createJobPayloadBaseSchema
@@ -105,7 +256,9 @@ const createJobPayloadSchema = createJobPayloadBaseSchema
   })
   .refine((data) => !(data.country === "United States" && !data.zipcode), {
     message: "Zip Code is required for United States",
-  });
+  })
+  .superRefine(refineCompensation(true))
+  .superRefine(refinePublishAt);
 
 const jobIdParamSchema = z.object({
   jobId: z.string().regex(/^\d+$/, "jobId must be a valid number"),
@@ -122,6 +275,7 @@ export const createJobSchema = z.object({
 // the "State and Zip Code required" refinement when country isn't explicitly sent.
 export const updateJobSchema = z.object({
   body: createJobPayloadBaseSchema
+    .omit({ status: true, publishAt: true })
     .extend({
       country: z.string().max(100).trim().optional(),
     })
@@ -137,7 +291,8 @@ export const updateJobSchema = z.object({
       {
         message: "State and Zip Code are required for United States",
       },
-    ),
+    )
+    .superRefine(refineCompensation(false)),
   params: jobIdParamSchema,
   query: z.object({}).strict(),
 });
@@ -148,6 +303,23 @@ export const getJobSchema = z.object({
   query: z.object({}).strict(),
 });
 
+export const updateJobStatusSchema = z.object({
+  body: z
+    .object({
+      status: z.enum(EMPLOYER_JOB_STATUSES),
+      publishAt: z.iso.datetime().optional(),
+    })
+    .superRefine(refinePublishAt),
+  params: jobIdParamSchema,
+  query: z.object({}).strict(),
+});
+
+export const repostJobSchema = z.object({
+  body: z.object({}).strict(),
+  params: jobIdParamSchema,
+  query: z.object({}).strict(),
+});
+
 export const deleteJobSchema = z.object({
   body: z.object({}).strict(),
   params: jobIdParamSchema,
@@ -160,6 +332,7 @@ export type JobSkills = z.infer<typeof selectJobSkillsSchema>;
 export type JobInsight = z.infer<typeof selectJobInsightsSchema>;
 export type NewJob = z.infer<typeof insertJobSchema>;
 export type UpdateJob = z.infer<typeof updateJobInputSchema>;
+export type JobWorkArea = z.infer<typeof jobWorkAreaSchema>;
 export type NewJobApplication = z.infer<typeof insertJobApplicationSchema>;
 export type UpdateJobApplication = z.infer<typeof updateJobApplicationSchema>;
 export type UpdateJobInsights = z.infer<typeof updateJobInsightsSchema>;
@@ -169,12 +342,18 @@ export type JobWithEmployer = {
   job: Job;
   employer: Pick<
     Organization,
-    "id" | "name" | "city" | "state" | "logoUrl"
+    "id" | "name" | "city" | "state" | "logoUrl" | "isVerified"
   > | null;
 };
 export type JobWithSkills = Job & {
   skills: JobSkills["name"][];
+  workAreas: string[];
   employer: { name: string };
+  // Loaded for employer responses; not part of the search index
+  screeningQuestions?: ScreeningQuestion[];
+};
+export type JobDetail = JobWithEmployer & {
+  screeningQuestions: PublicScreeningQuestion[];
 };
 export type OrganizationJobInsightInterface = {
   total: number;
@@ -187,6 +366,8 @@ export type CreateJobSchema = z.infer<typeof createJobSchema>;
 export type GetJobSchema = z.infer<typeof getJobSchema>;
 export type UpdateJobSchema = z.infer<typeof updateJobSchema>;
 export type DeleteJobSchema = z.infer<typeof deleteJobSchema>;
+export type UpdateJobStatusSchema = z.infer<typeof updateJobStatusSchema>;
+export type RepostJobSchema = z.infer<typeof repostJobSchema>;
 export type UnsentMatchesSchema = JobAlertMatch & {
   job: Pick<
     Job,
@@ -5,6 +5,7 @@ import {
   jobAlertMatches,
   emailPreferenceAuditLog,
 } from "@/db/schema";
+import { MAX_SEARCH_RADIUS_MILES } from "@/validations/base.validation";
 
 // Schema for creating a new job alert
 export const insertJobAlertSchema = createInsertSchema(jobAlerts, {
@@ -18,6 +19,18 @@ export const insertJobAlertSchema = createInsertSchema(jobAlerts, {
     .string()
     .max(500, "Search query must be at most 500 characters")
     .optional(),
+  workAreas: z
+    .array(z.string().trim().min(1).max(100))
+    .max(20, "At most 20 work areas can be selected")
+    .nullish(),
+  latitude: z.number().min(-90).max(90).nullish(),
+  longitude: z.number().min(-180).max(180).nullish(),
+  radiusMiles: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_SEARCH_RADIUS_MILES)
+    .nullish(),
   frequency: z.enum(["daily", "weekly", "monthly"]).default("weekly"),
   includeRemote: z.boolean().default(true),
 });
@@ -47,9 +60,11 @@ const createJobAlertBodySchema = insertJobAlertSchema
         data.searchQuery && data.searchQuery.trim().length > 0;
       const hasLocation =
         (data.city && data.city.trim().length > 0) ||
-        (data.state && data.state.trim().length > 0);
+        (data.state && data.state.trim().length > 0) ||
+        data.radiusMiles != null;
 
       const hasSkills = data.skills && data.skills.length > 0;
+      const hasWorkAreas = data.workAreas && data.workAreas.length > 0;
       const hasEmploymentTypes = data.jobType && data.jobType.length > 0;
       const hasExperienceLevels =
         data.experienceLevel && data.experienceLevel.length > 0;
@@ -58,15 +73,24 @@ const createJobAlertBodySchema = insertJobAlertSchema
         hasSearchQuery ||
         hasLocation ||
         hasSkills ||
+        hasWorkAreas ||
         hasEmploymentTypes ||
         hasExperienceLevels
       );
     },
     {
       message:
-        "At least one of search query, location, skills, experience level or employment types must be provided.",
+        "At least one of search query, location, skills, work areas, experience level or employment types must be provided.",
     },
-  );
+  )
+  .refine((data) => (data.latitude == null) === (data.longitude == null), {
+    message: "latitude and longitude must be provided together",
+    path: ["latitude"],
+  })
+  .refine((data) => data.radiusMiles == null || data.latitude != null, {
+    message: "radiusMiles requires a latitude and longitude",
+    path: ["radiusMiles"],
+  });
 
 export const createJobAlertSchema = z.object({
   body: createJobAlertBodySchema,
@@ -116,7 +140,11 @@ const updateJobAlertBodySchema = insertJobAlertSchema
       return Object.keys(data).length > 0;
     },
     { message: "At least one field must be provided for update." },
-  );
+  )
+  .refine((data) => (data.latitude == null) === (data.longitude == null), {
+    message: "latitude and longitude must be provided together",
+    path: ["latitude"],
+  });
 
 export const updateJobAlertSchema = z.object({
   body: updateJobAlertBodySchema,
@@ -0,0 +1,99 @@
+import { z } from "@/swagger/registry";
+import { getOrganizationSchema } from "@/validations/organization.validation";
+
+/** Longest range the stats endpoint aggregates over, in days. */
+export const MAX_JOB_STATS_RANGE_DAYS = 366;
+
+/** Range used when the caller gives no `from`, in days ending at `to`. */
+export const DEFAULT_JOB_STATS_RANGE_DAYS = 30;
+
+const DAY_MS = 86_400_000;
+
+export const jobActivityMetricsSchema = z.object({
+  views: z.number().int(),
+  uniqueViewers: z.number().int(),
+  saves: z.number().int(),
+  applyStarts: z.number().int(),
+  applications: z.number().int(),
+});
+
+export const jobStatsDailyBucketSchema = jobActivityMetricsSchema.extend({
+  /** UTC day, YYYY-MM-DD. */
+  date: z.iso.date(),
+});
+
+export const jobStatsFunnelSchema = z.object({
+  viewers: z.number().int(),
+  applyStarts: z.number().int(),
+  applications: z.number().int(),
+  /** Share of unique viewers who started an application; null without viewers. */
+  applyStartRate: z.number().nullable(),
+  /** Share of application starts that were submitted; null without starts. */
+  completionRate: z.number().nullable(),
+  /** Share of unique viewers who submitted an application; null without viewers. */
+  conversionRate: z.number().nullable(),
+});
+
+export const jobStatsPostingSchema = jobActivityMetricsSchema.extend({
+  jobId: z.number().int(),
+  title: z.string(),
+  isActive: z.boolean(),
+  conversionRate: z.number().nullable(),
+});
+
+export const organizationJobStatsSchema = z
+  .object({
+    total: z.number().int(),
+    active: z.number().int(),
+    inactive: z.number().int(),
+    /** All-time counters, not limited to the range. */
+    totalViews: z.number().int(),
+    totalApplications: z.number().int(),
+    range: z.object({ from: z.iso.date(), to: z.iso.date() }),
+    totals: jobActivityMetricsSchema,
+    funnel: jobStatsFunnelSchema,
+    /** One bucket per day of the range, oldest first, zero-filled. */
+    daily: jobStatsDailyBucketSchema.array(),
+    /** Postings with activity in the range, most viewed first. */
+    jobs: jobStatsPostingSchema.array(),
+  })
+  .openapi("OrganizationJobStats");
+
+export const getOrganizationJobStatsSchema = z.object({
+  body: z.object({}).strict(),
+  query: z
+    .object({
+      from: z.iso.date().optional(),
+      to: z.iso.date().optional(),
+      jobId: z.string().regex(/^\d+$/, "jobId must be a number").optional(),
+    })
+    .strict()
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: "from must be on or before to",
+      path: ["from"],
+    })
+    .refine(
+      (query) =>
+        !query.from ||
+        !query.to ||
+        (Date.parse(query.to) - Date.parse(query.from)) / DAY_MS <
+          MAX_JOB_STATS_RANGE_DAYS,
+      {
+        message: `Date range cannot exceed ${MAX_JOB_STATS_RANGE_DAYS} days`,
+        path: ["from"],
+      },
+    ),
+  params: getOrganizationSchema.shape["params"],
+});
+
+export type JobActivityMetrics = z.infer<typeof jobActivityMetricsSchema>;
+export type JobStatsDailyBucket = z.infer<typeof jobStatsDailyBucketSchema>;
+export type JobStatsPosting = z.infer<typeof jobStatsPostingSchema>;
+export type OrganizationJobStats = z.infer<typeof organizationJobStatsSchema>;
+export type GetOrganizationJobStatsSchema = z.infer<
+  typeof getOrganizationJobStatsSchema
+>;
+export type JobStatsQuery = GetOrganizationJobStatsSchema["query"];
+
+/** A job activity counter recorded per day. */
+export type JobActivityMetric = "saves" | "applyStarts" | "applications";
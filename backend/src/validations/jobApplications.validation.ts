@@ -4,11 +4,14 @@ import { jobApplications } from "@/db/schema";
 import { Job } from "@/validations/job.validation";
 import { Organization } from "@/validations/organization.validation";
 import { PaginationMeta } from "@shared/types";
+import { applicationStatusSchema } from "@/validations/hiringPipeline.validation";
+import { screeningAnswersInputSchema } from "@/validations/screeningQuestion.validation";
 
 const jobApplicationPayload = z
   .object({
     customAnswers: z.string().optional(),
     notes: z.string().max(5000).optional(),
+    screeningAnswers: screeningAnswersInputSchema.optional(),
   })
   .strict();
 
@@ -28,11 +31,15 @@ export const applyForJobSchema = z.object({
   query: z.object({}).strict(),
 });
 
+// The status must be a stage of the job organization's hiring pipeline; the
+// service checks it together with the allowed transitions
 export const updateApplicationStatusSchema = z.object({
-  body: z.object({
-    customAnswers: z.string().optional(),
-    notes: z.string().max(5000).optional(),
-  }),
+  body: z
+    .object({
+      status: applicationStatusSchema,
+      reason: z.string().trim().max(1000).optional(),
+    })
+    .strict(),
   params: applicationIdParamSchema,
   query: z.object({}).strict(),
 });
@@ -43,6 +50,50 @@ export const getJobApplicationSchema = z.object({
   query: z.object({}).strict(),
 });
 
+export const withdrawApplicationSchema = z.object({
+  body: z
+    .object({
+      reason: z.string().trim().max(1000).optional(),
+    })
+    .strict(),
+  params: applicationIdParamSchema,
+  query: z.object({}).strict(),
+});
+
+/**
+ * Status history entry as seen by the employer, including who made the
+ * change and why.
+ */
+export const applicationTimelineEntrySchema = z.object({
+  id: z.number(),
+  fromStatus: z.string().nullable(),
+  fromStatusLabel: z.string().nullable(),
+  toStatus: z.string(),
+  toStatusLabel: z.string(),
+  reason: z.string().nullable(),
+  actor: z
+    .object({
+      id: z.number(),
+      fullName: z.string(),
+    })
+    .nullable(),
+  createdAt: z.date(),
+});
+
+/**
+ * Seeker-safe status history entry. Employer identities and internal
+ * reasons are never exposed; only the applicant's own reasons are returned.
+ */
+export const applicantTimelineEntrySchema = z.object({
+  fromStatus: z.string().nullable(),
+  fromStatusLabel: z.string().nullable(),
+  toStatus: z.string(),
+  toStatusLabel: z.string(),
+  changedBy: z.enum(["applicant", "employer"]),
+  reason: z.string().nullable(),
+  createdAt: z.date(),
+});
+
 const jobApplicationsSchema = createSelectSchema(jobApplications);
 export const selectJobApplicationSchema = jobApplicationsSchema
   .omit({
@@ -60,22 +111,35 @@ export const selectJobApplicationSchema = jobApplicationsSchema
 export const applicationQueryParams = z.object({
   page: z.coerce.number().min(1).optional(),
   limit: z.coerce.number().min(1).max(100).optional(),
-  status: z
-    .enum([
-      "pending",
-      "reviewed",
-      "shortlisted",
-      "interviewing",
-      "rejected",
-      "hired",
-      "withdrawn",
-    ])
-    .optional(),
+  status: applicationStatusSchema.optional(),
 });
 
 export type ApplicationQueryParams = z.infer<typeof applicationQueryParams>;
 export type GetJobApplicationSchema = z.infer<typeof getJobApplicationSchema>;
+export type WithdrawApplicationSchema = z.infer<
+  typeof withdrawApplicationSchema
+>;
+export type ApplicationTimelineEntry = z.infer<
+  typeof applicationTimelineEntrySchema
+>;
+export type ApplicantTimelineEntry = z.infer<
+  typeof applicantTimelineEntrySchema
+>;
+export type ApplicationStatusHistoryRecord = {
+  id: number;
+  fromStatus: string | null;
+  toStatus: string;
+  reason: string | null;
+  createdAt: Date;
+  changedBy: number | null;
+  actorName: string | null;
+};
 export type ApplyForJobSchema = z.infer<typeof applyForJobSchema>;
+export type UpdateApplicationStatusSchema = z.infer<
+  typeof updateApplicationStatusSchema
+>;
+export type UpdateApplicationStatusInput =
+  UpdateApplicationStatusSchema["body"];
 export type Application = z.infer<typeof jobApplicationsSchema>;
 export type JobApplicationWithNotes = z.infer<
   typeof selectJobApplicationSchema
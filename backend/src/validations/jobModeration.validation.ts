@@ -0,0 +1,170 @@
+import { z } from "@/swagger/registry";
+import { JOB_STATUSES } from "@shared/constants/job-status";
+import {
+  JOB_HOLD_RULES,
+  JOB_REPORT_REASONS,
+} from "@shared/constants/job-moderation";
+
+const idParam = (name: string) =>
+  z.string().regex(/^\d+$/, `${name} must be a number`);
+
+const holdReasonSchema = z.object({
+  rule: z.enum(JOB_HOLD_RULES),
+  detail: z.string(),
+});
+
+// ─── Reports ────────────────────────────────────────────────────────
+
+export const reportJobSchema = z.object({
+  body: z
+    .object({
+      reason: z.enum(JOB_REPORT_REASONS),
+      details: z.string().trim().max(1000).optional(),
+    })
+    .strict()
+    .openapi("ReportJobInput"),
+  query: z.object({}).strict(),
+  params: z.object({ jobId: idParam("jobId") }).strict(),
+});
+
+export const jobReportSchema = z
+  .object({
+    id: z.number(),
+    jobId: z.number(),
+    reporterId: z.number(),
+    reason: z.enum(JOB_REPORT_REASONS),
+    details: z.string().nullable(),
+    status: z.enum(["open", "resolved"]),
+    createdAt: z.date(),
+  })
+  .openapi("JobReport");
+
+// ─── Moderation queue ───────────────────────────────────────────────
+
+export const moderationReviewSchema = z
+  .object({
+    id: z.number(),
+    jobId: z.number(),
+    jobTitle: z.string(),
+    jobStatus: z.enum(JOB_STATUSES),
+    employerId: z.number(),
+    employerName: z.string(),
+    trigger: z.enum(["auto_hold", "report"]),
+    holdReasons: z.array(holdReasonSchema),
+    status: z.enum(["pending", "approved", "removed"]),
+    warningCount: z.number(),
+    openReportCount: z.number(),
+    decidedBy: z.number().nullable(),
+    decisionNote: z.string().nullable(),
+    decidedAt: z.date().nullable(),
+    createdAt: z.date(),
+  })
+  .openapi("ModerationReview");
+
+export const moderationReviewDetailSchema = moderationReviewSchema
+  .extend({
+    jobDescription: z.string(),
+    reports: z.array(
+      jobReportSchema.omit({ jobId: true }).extend({
+        reporterName: z.string(),
+      }),
+    ),
+  })
+  .openapi("ModerationReviewDetail");
+
+export const moderationQueueQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    status: z.enum(["pending", "approved", "removed"]).default("pending"),
+    trigger: z.enum(["auto_hold", "report"]).optional(),
+  })
+  .strict()
+  .openapi("ModerationQueueQuery");
+
+const reviewParams = z.object({ reviewId: idParam("reviewId") }).strict();
+
+export const listModerationQueueSchema = z.object({
+  body: z.object({}).strict(),
+  query: moderationQueueQuerySchema,
+  params: z.object({}).strict(),
+});
+
+export const getModerationReviewSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: reviewParams,
+});
+
+export const decideModerationReviewSchema = z.object({
+  body: z
+    .object({
+      note: z.string().trim().max(1000).optional(),
+    })
+    .strict()
+    .openapi("ModerationDecisionInput"),
+  query: z.object({}).strict(),
+  params: reviewParams,
+});
+
+export const warnOrganizationSchema = z.object({
+  body: z
+    .object({
+      message: z.string().trim().min(1).max(1000),
+    })
+    .strict()
+    .openapi("ModerationWarningInput"),
+  query: z.object({}).strict(),
+  params: reviewParams,
+});
+
+// ─── Auto-hold rules ────────────────────────────────────────────────
+
+const holdTerms = z
+  .array(z.string().trim().toLowerCase().min(2).max(100))
+  .max(200);
+
+export const jobHoldRuleSchema = z
+  .discriminatedUnion("rule", [
+    z.object({
+      rule: z.literal("new_organization"),
+      enabled: z.boolean(),
+      settings: z.object({
+        maxAgeDays: z.number().int().min(1).max(365),
+      }),
+    }),
+    z.object({
+      rule: z.literal("keywords"),
+      enabled: z.boolean(),
+      settings: z.object({ terms: holdTerms }),
+    }),
+    z.object({
+      rule: z.literal("external_payment"),
+      enabled: z.boolean(),
+      settings: z.object({ terms: holdTerms }),
+    }),
+  ])
+  .openapi("JobHoldRule");
+
+export const updateJobHoldRuleSchema = z.object({
+  body: jobHoldRuleSchema,
+  query: z.object({}).strict(),
+  params: z.object({}).strict(),
+});
+
+export type ReportJobSchema = z.infer<typeof reportJobSchema>;
+export type ReportJobInput = ReportJobSchema["body"];
+export type JobReport = z.infer<typeof jobReportSchema>;
+export type ModerationReview = z.infer<typeof moderationReviewSchema>;
+export type ModerationReviewDetail = z.infer<
+  typeof moderationReviewDetailSchema
+>;
+export type ModerationQueueQuery = z.infer<typeof moderationQueueQuerySchema>;
+export type GetModerationReviewSchema = z.infer<
+  typeof getModerationReviewSchema
+>;
+export type DecideModerationReviewSchema = z.infer<
+  typeof decideModerationReviewSchema
+>;
+export type WarnOrganizationSchema = z.infer<typeof warnOrganizationSchema>;
+export type JobHoldRuleInput = z.infer<typeof jobHoldRuleSchema>;
@@ -13,6 +13,13 @@ import {
   getJobApplicationSchema,
 } from "@/validations/jobApplications.validation";
 import { searchParams } from "@/validations/base.validation";
+import { applicationStatusSchema } from "@/validations/hiringPipeline.validation";
+import {
+  applicationScreeningAnswerSchema,
+  screeningStatusSchema,
+  type ApplicationScreeningAnswer,
+  type ScreeningStatus,
+} from "@/validations/screeningQuestion.validation";
 import { PaginationMeta } from "@shared/types";
 import { User } from "@/validations/userProfile.validation";
 import { isPossiblePhoneNumber } from "libphonenumber-js";
@@ -143,15 +150,8 @@ const organizationIdParamSchema = z.object({
 });
 
 const updateJobStatusInput = z.object({
-  status: z.enum([
-    "pending",
-    "reviewed",
-    "shortlisted",
-    "interviewing",
-    "rejected",
-    "hired",
-    "withdrawn",
-  ]),
+  status: applicationStatusSchema,
+  reason: z.string().trim().max(1000).optional(),
 });
 
 export const getOrganizationJobApplicationsSchema = z.object({
@@ -159,15 +159,7 @@ export const getOrganizationJobApplicationsSchema = z.object({
   jobId: z.number(),
   applicantName: z.string(),
   applicantEmail: z.string(),
-  status: z.enum([
-    "pending",
-    "reviewed",
-    "shortlisted",
-    "interviewing",
-    "rejected",
-    "hired",
-    "withdrawn",
-  ]),
+  status: z.string(),
   coverLetter: z.string().nullable(),
   resumeUrl: z.string().nullable(),
   appliedAt: z.date(),
@@ -283,6 +275,28 @@ export const jobApplicationsManagementSchema = z.object({
   query: z.object({}).strict(),
 });
 
+/**
+ * Lists a job's applications. Reviewers can narrow the list to a screening
+ * outcome or to one answer of a screening question, and sort it by the
+ * answers to a question.
+ */
+export const getJobApplicationsForOrganizationSchema =
+  jobApplicationsManagementSchema.extend({
+    query: z
+      .object({
+        screeningStatus: screeningStatusSchema.optional(),
+        questionId: z.coerce.number().int().positive().optional(),
+        answer: z.string().trim().min(1).max(2000).optional(),
+        sortByQuestionId: z.coerce.number().int().positive().optional(),
+        order: z.enum(["asc", "desc"]).default("desc"),
+      })
+      .strict()
+      .refine((query) => !query.questionId === !query.answer, {
+        message: "questionId and answer must be provided together",
+        path: ["answer"],
+      }),
+  });
+
 export const jobApplicationManagementSchema = z.object({
   body: z.object({}).strict(),
   params: z
@@ -299,19 +313,15 @@ export const jobApplicationManagementSchema = z.object({
 
 export const jobApplicationsResponseSchema = z
   .object({
+    id: z.number(),
     resumeUrl: z.string().nullable(),
     coverLetter: z.string().nullable(),
-    status: z.enum([
-      "pending",
-      "reviewed",
-      "shortlisted",
-      "interviewing",
-      "rejected",
-      "hired",
-      "withdrawn",
-    ]),
+    status: z.string(),
     appliedAt: z.date(),
     reviewedAt: z.date().nullable(),
+    screeningStatus: screeningStatusSchema.nullable(),
+    screeningAnswers: applicationScreeningAnswerSchema.array(),
+    tags: z.string().array(),
     applicant: z.object({
       fullName: z.string(),
       email: z.email(),
@@ -324,15 +334,7 @@ export const organizationJobApplicationsResponseSchema = z.object({
   jobId: z.number(),
   resumeUrl: z.string().nullable(),
   coverLetter: z.string().nullable(),
-  status: z.enum([
-    "pending",
-    "reviewed",
-    "shortlisted",
-    "interviewing",
-    "rejected",
-    "hired",
-    "withdrawn",
-  ]),
+  status: z.string(),
   appliedAt: z.date(),
   jobTitle: z.string(),
   description: z.string(),
@@ -354,6 +356,9 @@ export const organizationJobApplicationsResponseSchema = z.object({
   experience: z.string().nullable(),
   organizationId: z.number(),
   organizationName: z.string(),
+  screeningStatus: screeningStatusSchema.nullable(),
+  screeningAnswers: applicationScreeningAnswerSchema.array(),
+  tags: z.string().array(),
 });
 
 export const deleteOrganizationSchema = z.object({
@@ -382,6 +387,11 @@ export type JobApplicationManagementSchema = z.infer<
 export type JobApplicationsManagementSchema = z.infer<
   typeof jobApplicationsManagementSchema
 >;
+export type GetJobApplicationsForOrganizationSchema = z.infer<
+  typeof getJobApplicationsForOrganizationSchema
+>;
+export type JobApplicationsForOrganizationQuery =
+  GetJobApplicationsForOrganizationSchema["query"];
 export type OrganizationJobApplicationsResponse = z.infer<
   typeof organizationJobApplicationsResponseSchema
 >;
@@ -516,8 +526,13 @@ export type OrganizationWithMembers = {
 
 export type JobApplicationsForOrganizationInterface = Pick<
   Application,
-  "status" | "coverLetter" | "resumeUrl" | "appliedAt" | "reviewedAt"
-> & { applicant: { id: number; fullName: string; email: string } };
+  "id" | "status" | "coverLetter" | "resumeUrl" | "appliedAt" | "reviewedAt"
+> & {
+  screeningStatus: ScreeningStatus | null;
+  screeningAnswers: ApplicationScreeningAnswer[];
+  tags: string[];
+  applicant: { id: number; fullName: string; email: string };
+};
 
 export type ApplicationsForOrganizationInterface = {
   items: {
@@ -525,14 +540,7 @@ export type ApplicationsForOrganizationInterface = {
     jobId: number;
     applicantName: string;
     applicantEmail: string;
-    status:
-      | "pending"
-      | "reviewed"
-      | "shortlisted"
-      | "interviewing"
-      | "rejected"
-      | "hired"
-      | "withdrawn";
+    status: string;
     coverLetter: string | null;
     resumeUrl: string | null;
     appliedAt: Date;
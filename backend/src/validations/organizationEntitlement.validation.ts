@@ -0,0 +1,37 @@
+import { z } from "@/swagger/registry";
+import { SUBSCRIPTION_TIERS } from "@shared/constants/subscription-plans";
+import { getOrganizationSchema } from "@/validations/organization.validation";
+
+export const subscriptionTierSchema = z.enum(SUBSCRIPTION_TIERS);
+
+const usageLimitSchema = z.object({
+  used: z.number().int(),
+  /** Null when the plan has no limit. */
+  limit: z.number().int().nullable(),
+});
+
+export const organizationUsageSchema = z
+  .object({
+    tier: subscriptionTierSchema,
+    status: z.enum(["active", "cancelled", "expired", "trial"]),
+    /** Tier whose entitlements apply right now (trial or lapsed plans differ from `tier`). */
+    effectiveTier: subscriptionTierSchema,
+    isSubscriptionActive: z.boolean(),
+    /** When the trial or current billing period ends, if known. */
+    subscriptionEndsAt: z.date().nullable(),
+    activeJobs: usageLimitSchema,
+    featuredJobs: usageLimitSchema,
+    features: z.object({ candidateSearch: z.boolean() }),
+  })
+  .openapi("OrganizationUsage");
+
+export const getOrganizationUsageSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: getOrganizationSchema.shape["params"],
+});
+
+export type OrganizationUsage = z.infer<typeof organizationUsageSchema>;
+export type GetOrganizationUsageSchema = z.infer<
+  typeof getOrganizationUsageSchema
+>;
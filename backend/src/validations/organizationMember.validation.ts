@@ -0,0 +1,107 @@
+import { z } from "@/swagger/registry";
+import { getOrganizationSchema } from "@/validations/organization.validation";
+
+export const organizationRoleSchema = z.enum([
+  "owner",
+  "admin",
+  "recruiter",
+  "member",
+]);
+
+/** Roles that can be given through a role change. Ownership is transferred instead. */
+export const assignableOrganizationRoleSchema = z.enum([
+  "admin",
+  "recruiter",
+  "member",
+]);
+
+export const organizationMemberDetailsSchema = z
+  .object({
+    id: z.number(),
+    organizationId: z.number(),
+    userId: z.number(),
+    role: organizationRoleSchema,
+    isActive: z.boolean(),
+    createdAt: z.date(),
+    updatedAt: z.date(),
+    memberName: z.string(),
+    memberEmail: z.string(),
+    memberEmailVerified: z.boolean(),
+    memberStatus: z.string(),
+  })
+  .openapi("OrganizationMemberDetails");
+
+const organizationParams = getOrganizationSchema.shape["params"];
+
+const organizationMemberParams = organizationParams
+  .extend({
+    memberId: z.string().regex(/^\d+$/, "memberId must be a number"),
+  })
+  .strict();
+
+export const listOrganizationMembersSchema = z.object({
+  body: z.object({}).strict(),
+  query: z
+    .object({
+      role: organizationRoleSchema.optional(),
+      status: z.enum(["active", "inactive"]).optional(),
+    })
+    .strict(),
+  params: organizationParams,
+});
+
+export const updateOrganizationMemberRoleSchema = z.object({
+  body: z.object({ role: assignableOrganizationRoleSchema }).strict(),
+  query: z.object({}).strict(),
+  params: organizationMemberParams,
+});
+
+export const updateOrganizationMemberStatusSchema = z.object({
+  body: z.object({ isActive: z.boolean() }).strict(),
+  query: z.object({}).strict(),
+  params: organizationMemberParams,
+});
+
+export const removeOrganizationMemberSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: organizationMemberParams,
+});
+
+export const transferOrganizationOwnershipSchema = z.object({
+  body: z.object({ memberId: z.number().int().positive() }).strict(),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+export const ownershipTransferResponseSchema = z.object({
+  previousOwner: organizationMemberDetailsSchema,
+  newOwner: organizationMemberDetailsSchema,
+});
+
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+export type AssignableOrganizationRole = z.infer<
+  typeof assignableOrganizationRoleSchema
+>;
+export type OrganizationMemberDetails = z.infer<
+  typeof organizationMemberDetailsSchema
+>;
+export type ListOrganizationMembersSchema = z.infer<
+  typeof listOrganizationMembersSchema
+>;
+export type OrganizationMembersFilters = ListOrganizationMembersSchema["query"];
+export type UpdateOrganizationMemberRoleSchema = z.infer<
+  typeof updateOrganizationMemberRoleSchema
+>;
+export type UpdateOrganizationMemberStatusSchema = z.infer<
+  typeof updateOrganizationMemberStatusSchema
+>;
+export type RemoveOrganizationMemberSchema = z.infer<
+  typeof removeOrganizationMemberSchema
+>;
+export type TransferOrganizationOwnershipSchema = z.infer<
+  typeof transferOrganizationOwnershipSchema
+>;
+export type OwnershipTransferResult = z.infer<
+  typeof ownershipTransferResponseSchema
+>;
@@ -0,0 +1,74 @@
+import { z } from "@/swagger/registry";
+import {
+  CUSTOMIZABLE_ORGANIZATION_ROLES,
+  ORGANIZATION_PERMISSIONS,
+} from "@shared/constants/organization-permissions";
+import { getOrganizationSchema } from "@/validations/organization.validation";
+
+export const organizationPermissionSchema = z.enum(ORGANIZATION_PERMISSIONS);
+
+export const customizableOrganizationRoleSchema = z.enum(
+  CUSTOMIZABLE_ORGANIZATION_ROLES,
+);
+
+const rolePermissionsInput = organizationPermissionSchema
+  .array()
+  .max(ORGANIZATION_PERMISSIONS.length)
+  .refine((permissions) => new Set(permissions).size === permissions.length, {
+    message: "Permissions must be unique",
+  });
+
+export const organizationPermissionMatrixSchema = z
+  .object({
+    /** Every permission that can be granted, in display order. */
+    permissions: organizationPermissionSchema.array(),
+    roles: z.object({
+      owner: organizationPermissionSchema.array(),
+      admin: organizationPermissionSchema.array(),
+      recruiter: organizationPermissionSchema.array(),
+      member: organizationPermissionSchema.array(),
+    }),
+    /** Roles using a customized set instead of the defaults. */
+    customizedRoles: customizableOrganizationRoleSchema.array(),
+  })
+  .openapi("OrganizationPermissionMatrix");
+
+export const getOrganizationPermissionsSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: getOrganizationSchema.shape["params"],
+});
+
+export const updateOrganizationPermissionsSchema = z.object({
+  body: z
+    .object({
+      roles: z
+        .object({
+          admin: rolePermissionsInput.optional(),
+          recruiter: rolePermissionsInput.optional(),
+          member: rolePermissionsInput.optional(),
+        })
+        .strict()
+        .refine((roles) => Object.keys(roles).length > 0, {
+          message: "At least one role is required",
+        }),
+    })
+    .strict(),
+  query: z.object({}).strict(),
+  params: getOrganizationSchema.shape["params"],
+});
+
+export const resetOrganizationPermissionsSchema =
+  getOrganizationPermissionsSchema;
+
+export type OrganizationPermissionMatrix = z.infer<
+  typeof organizationPermissionMatrixSchema
+>;
+export type GetOrganizationPermissionsSchema = z.infer<
+  typeof getOrganizationPermissionsSchema
+>;
+export type UpdateOrganizationPermissionsSchema = z.infer<
+  typeof updateOrganizationPermissionsSchema
+>;
+export type UpdateOrganizationPermissionsInput =
+  UpdateOrganizationPermissionsSchema["body"];
@@ -0,0 +1,71 @@
+import { z } from "@/swagger/registry";
+
+const organizationParams = z
+  .object({
+    organizationId: z
+      .string()
+      .regex(/^\d+$/, "organizationId must be a number"),
+  })
+  .strict();
+
+export const organizationProfileJobSchema = z
+  .object({
+    id: z.number(),
+    title: z.string(),
+    city: z.string(),
+    state: z.string().nullable(),
+    country: z.string(),
+    isRemote: z.boolean(),
+    jobType: z.string(),
+    compensationType: z.string(),
+    createdAt: z.date(),
+  })
+  .openapi("OrganizationProfileJob");
+
+export const organizationProfileSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    mission: z.string(),
+    logoUrl: z.string().nullable(),
+    url: z.string(),
+    city: z.string(),
+    state: z.string(),
+    country: z.string(),
+    isVerified: z.boolean(),
+    followerCount: z.number(),
+    // Always false for anonymous visitors
+    isFollowing: z.boolean(),
+    openJobs: z.array(organizationProfileJobSchema),
+  })
+  .openapi("OrganizationProfile");
+
+export const organizationFollowSchema = z
+  .object({
+    organizationId: z.number(),
+    isFollowing: z.boolean(),
+    followerCount: z.number(),
+  })
+  .openapi("OrganizationFollow");
+
+export const getOrganizationProfileSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+export const followOrganizationSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+export type OrganizationProfileJob = z.infer<
+  typeof organizationProfileJobSchema
+>;
+export type OrganizationProfile = z.infer<typeof organizationProfileSchema>;
+export type OrganizationFollow = z.infer<typeof organizationFollowSchema>;
+export type GetOrganizationProfileSchema = z.infer<
+  typeof getOrganizationProfileSchema
+>;
+export type FollowOrganizationSchema = z.infer<typeof followOrganizationSchema>;
@@ -0,0 +1,140 @@
+import { z } from "@/swagger/registry";
+
+const idParam = (name: string) =>
+  z.string().regex(/^\d+$/, `${name} must be a number`);
+
+const verificationRequestStatus = z.enum(["pending", "approved", "rejected"]);
+
+// ─── Owner submissions ──────────────────────────────────────────────
+
+export const organizationVerificationRequestSchema = z
+  .object({
+    id: z.number(),
+    organizationId: z.number(),
+    status: verificationRequestStatus,
+    note: z.string().nullable(),
+    // Filled by the upload worker shortly after the request is submitted
+    nonprofitRegistrationUrl: z.string().nullable(),
+    einLetterUrl: z.string().nullable(),
+    decisionNote: z.string().nullable(),
+    decidedAt: z.date().nullable(),
+    createdAt: z.date(),
+  })
+  .openapi("OrganizationVerificationRequest");
+
+export const organizationVerificationSchema = z
+  .object({
+    isVerified: z.boolean(),
+    verifiedAt: z.date().nullable(),
+    latestRequest: organizationVerificationRequestSchema.nullable(),
+  })
+  .openapi("OrganizationVerification");
+
+const organizationParams = z
+  .object({ organizationId: idParam("organizationId") })
+  .strict();
+
+export const getOrganizationVerificationSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+// Documents arrive as the `nonprofitRegistration` and `einLetter` multipart
+// fields and are checked by the service; the body holds the text fields only
+export const submitOrganizationVerificationSchema = z.object({
+  body: z
+    .object({
+      note: z.string().trim().max(1000).optional(),
+    })
+    .strict()
+    .openapi("SubmitOrganizationVerificationInput"),
+  query: z.object({}).strict(),
+  params: organizationParams,
+});
+
+// ─── Staff review queue ─────────────────────────────────────────────
+
+export const verificationReviewSchema = organizationVerificationRequestSchema
+  .extend({
+    organizationName: z.string(),
+    organizationUrl: z.string(),
+    submittedBy: z.number().nullable(),
+    submitterName: z.string().nullable(),
+    decidedBy: z.number().nullable(),
+  })
+  .openapi("OrganizationVerificationReview");
+
+export const verificationQueueQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    status: verificationRequestStatus.default("pending"),
+  })
+  .strict()
+  .openapi("OrganizationVerificationQueueQuery");
+
+const requestParams = z.object({ requestId: idParam("requestId") }).strict();
+
+export const listVerificationQueueSchema = z.object({
+  body: z.object({}).strict(),
+  query: verificationQueueQuerySchema,
+  params: z.object({}).strict(),
+});
+
+export const getVerificationReviewSchema = z.object({
+  body: z.object({}).strict(),
+  query: z.object({}).strict(),
+  params: requestParams,
+});
+
+export const approveVerificationRequestSchema = z.object({
+  body: z
+    .object({
+      note: z.string().trim().max(1000).optional(),
+    })
+    .strict()
+    .openapi("ApproveOrganizationVerificationInput"),
+  query: z.object({}).strict(),
+  params: requestParams,
+});
+
+export const rejectVerificationRequestSchema = z.object({
+  body: z
+    .object({
+      // Shown to the organization's members so owners can resubmit
+      reason: z.string().trim().min(1).max(1000),
+    })
+    .strict()
+    .openapi("RejectOrganizationVerificationInput"),
+  query: z.object({}).strict(),
+  params: requestParams,
+});
+
+export type OrganizationVerificationRequest = z.infer<
+  typeof organizationVerificationRequestSchema
+>;
+export type OrganizationVerification = z.infer<
+  typeof organizationVerificationSchema
+>;
+export type GetOrganizationVerificationSchema = z.infer<
+  typeof getOrganizationVerificationSchema
+>;
+export type SubmitOrganizationVerificationSchema = z.infer<
+  typeof submitOrganizationVerificationSchema
+>;
+export type SubmitOrganizationVerificationInput =
+  SubmitOrganizationVerificationSchema["body"];
+export type VerificationReview = z.infer<typeof verificationReviewSchema>;
+export type VerificationQueueQuery = z.infer<
+  typeof verificationQueueQuerySchema
+>;
+export type GetVerificationReviewSchema = z.infer<
+  typeof getVerificationReviewSchema
+>;
+export type ApproveVerificationRequestSchema = z.infer<
+  typeof approveVerificationRequestSchema
+>;
+export type RejectVerificationRequestSchema = z.infer<
+  typeof rejectVerificationRequestSchema
+>;
@@ -0,0 +1,182 @@
+import { z } from "@/swagger/registry";
+import {
+  jobApplicationManagementSchema,
+  jobApplicationsManagementSchema,
+  organizationJobApplicationsResponseSchema,
+} from "@/validations/organization.validation";
+
+export const scorecardRecommendationSchema = z.enum([
+  "strong_no",
+  "no",
+  "yes",
+  "strong_yes",
+]);
+
+const scorecardCompetencyInput = z.object({
+  name: z.string().trim().min(1, "Competency name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+});
+
+const scorecardTemplateInput = z
+  .object({
+    // Competency order in the array defines the display order on the scorecard
+    competencies: scorecardCompetencyInput.array().min(1).max(20),
+    ratingScaleMax: z.number().int().min(2).max(10).default(5),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const names = data.competencies.map((c) => c.name.toLowerCase());
+    if (new Set(names).size !== names.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Competency names must be unique",
+        path: ["competencies"],
+      });
+    }
+  });
+
+const submitScorecardInput = z
+  .object({
+    ratings: z
+      .object({
+        competencyId: z.number().int().positive(),
+        rating: z.number().int().min(1),
+      })
+      .array()
+      .min(1),
+    recommendation: scorecardRecommendationSchema,
+    comments: z.string().trim().max(5000).optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const ids = data.ratings.map((r) => r.competencyId);
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Each competency can only be rated once",
+        path: ["ratings"],
+      });
+    }
+  });
+
+export const getScorecardTemplateSchema = jobApplicationsManagementSchema;
+
+export const updateScorecardTemplateSchema = z.object({
+  body: scorecardTemplateInput,
+  params: jobApplicationsManagementSchema.shape["params"],
+  query: z.object({}).strict(),
+});
+
+export const assignScorecardReviewersSchema = z.object({
+  body: z
+    .object({
+      memberIds: z
+        .array(z.number().int().positive())
+        .min(1, "At least one reviewer is required")
+        .max(20),
+    })
+    .strict(),
+  params: jobApplicationManagementSchema.shape["params"],
+  query: z.object({}).strict(),
+});
+
+export const getApplicationScorecardsSchema = jobApplicationManagementSchema;
+
+export const submitScorecardSchema = z.object({
+  body: submitScorecardInput,
+  params: jobApplicationManagementSchema.shape["params"],
+  query: z.object({}).strict(),
+});
+
+export const scorecardTemplateResponseSchema = z.object({
+  id: z.number(),
+  jobId: z.number(),
+  ratingScaleMax: z.number(),
+  competencies: z
+    .object({
+      id: z.number(),
+      name: z.string(),
+      description: z.string().nullable(),
+      position: z.number(),
+    })
+    .array(),
+});
+
+/**
+ * A reviewer's scorecard. Ratings, recommendation and comments are null while
+ * pending and are also withheld from reviewers who have not submitted yet.
+ */
+export const applicationScorecardResponseSchema = z.object({
+  id: z.number(),
+  reviewer: z.object({
+    memberId: z.number(),
+    userId: z.number(),
+    fullName: z.string(),
+  }),
+  status: z.enum(["pending", "submitted"]),
+  recommendation: scorecardRecommendationSchema.nullable(),
+  comments: z.string().nullable(),
+  ratings: z
+    .object({ competencyId: z.number(), rating: z.number() })
+    .array()
+    .nullable(),
+  submittedAt: z.date().nullable(),
+});
+
+/**
+ * Aggregated scorecard results for an application. Averages and the
+ * recommendation breakdown are null for reviewers who have not submitted
+ * their own scorecard yet.
+ */
+export const scorecardSummarySchema = z.object({
+  ratingScaleMax: z.number().nullable(),
+  reviewersAssigned: z.number(),
+  scorecardsSubmitted: z.number(),
+  resultsVisible: z.boolean(),
+  averageRating: z.number().nullable(),
+  competencies: z
+    .object({
+      competencyId: z.number(),
+      name: z.string(),
+      averageRating: z.number().nullable(),
+      ratingsCount: z.number(),
+    })
+    .array()
+    .nullable(),
+  recommendations: z
+    .record(scorecardRecommendationSchema, z.number())
+    .nullable(),
+});
+
+/**
+ * A job application as seen by the organization, with its scorecard results.
+ */
+export const organizationJobApplicationDetailResponseSchema =
+  organizationJobApplicationsResponseSchema.extend({
+    scorecardSummary: scorecardSummarySchema,
+  });
+
+export type ScorecardRecommendation = z.infer<
+  typeof scorecardRecommendationSchema
+>;
+export type GetScorecardTemplateSchema = z.infer<
+  typeof getScorecardTemplateSchema
+>;
+export type UpdateScorecardTemplateSchema = z.infer<
+  typeof updateScorecardTemplateSchema
+>;
+export type UpdateScorecardTemplateInput =
+  UpdateScorecardTemplateSchema["body"];
+export type AssignScorecardReviewersSchema = z.infer<
+  typeof assignScorecardReviewersSchema
+>;
+export type SubmitScorecardSchema = z.infer<typeof submitScorecardSchema>;
+export type SubmitScorecardInput = SubmitScorecardSchema["body"];
+export type ScorecardTemplate = z.infer<typeof scorecardTemplateResponseSchema>;
+export type ApplicationScorecard = z.infer<
+  typeof applicationScorecardResponseSchema
+>;
+export type ScorecardSummary = z.infer<typeof scorecardSummarySchema>;
+export type OrganizationJobApplicationDetail = z.infer<
+  typeof organizationJobApplicationDetailResponseSchema
+>;
@@ -0,0 +1,199 @@
+import { z } from "@/swagger/registry";
+
+export const screeningQuestionTypeSchema = z.enum([
+  "yes_no",
+  "multiple_choice",
+  "numeric",
+  "text",
+]);
+
+export const screeningStatusSchema = z.enum(["passed", "flagged", "rejected"]);
+
+export const screeningKnockoutRuleSchema = z
+  .object({
+    action: z.enum(["reject", "flag"]),
+    expectedAnswer: z.boolean().optional(),
+    acceptedOptions: z.string().trim().min(1).max(200).array().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .strict();
+
+const screeningQuestionInput = z
+  .object({
+    question: z.string().trim().min(1, "Question is required").max(500),
+    type: screeningQuestionTypeSchema,
+    options: z.string().trim().min(1).max(200).array().max(20).optional(),
+    isRequired: z.boolean().default(false),
+    knockout: screeningKnockoutRuleSchema.optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const options = data.options ?? [];
+
+    if (data.type === "multiple_choice") {
+      if (options.length < 2) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Multiple choice questions need at least two options",
+          path: ["options"],
+        });
+      }
+      if (new Set(options).size !== options.length) {
+        ctx.addIssue({
+          code: "custom",
+          message: "Options must be unique",
+          path: ["options"],
+        });
+      }
+    } else if (data.options) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Options are only allowed on multiple choice questions",
+        path: ["options"],
+      });
+    }
+
+    const knockout = data.knockout;
+    if (!knockout) return;
+
+    // An unanswered question cannot be evaluated against its rule
+    if (!data.isRequired) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Knockout questions must be required",
+        path: ["isRequired"],
+      });
+    }
+
+    switch (data.type) {
+      case "yes_no":
+        if (knockout.expectedAnswer === undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: "Yes/no knockout rules need an expectedAnswer",
+            path: ["knockout", "expectedAnswer"],
+          });
+        }
+        break;
+      case "multiple_choice":
+        if (
+          !knockout.acceptedOptions?.length ||
+          knockout.acceptedOptions.some((option) => !options.includes(option))
+        ) {
+          ctx.addIssue({
+            code: "custom",
+            message:
+              "Multiple choice knockout rules need acceptedOptions taken from the question's options",
+            path: ["knockout", "acceptedOptions"],
+          });
+        }
+        break;
+      case "numeric":
+        if (knockout.min === undefined && knockout.max === undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: "Numeric knockout rules need a min or max",
+            path: ["knockout"],
+          });
+        } else if (
+          knockout.min !== undefined &&
+          knockout.max !== undefined &&
+          knockout.min > knockout.max
+        ) {
+          ctx.addIssue({
+            code: "custom",
+            message: "min must not be greater than max",
+            path: ["knockout", "min"],
+          });
+        }
+        break;
+      case "text":
+        ctx.addIssue({
+          code: "custom",
+          message: "Free text questions cannot have knockout rules",
+          path: ["knockout"],
+        });
+        break;
+    }
+  });
+
+// Question order in the array defines the order candidates see them in
+export const screeningQuestionsInputSchema = screeningQuestionInput
+  .array()
+  .max(20, "A job can have at most 20 screening questions");
+
+/**
+ * Screening question as seen by the employer, including its knockout rule.
+ */
+export const screeningQuestionResponseSchema = z.object({
+  id: z.number(),
+  question: z.string(),
+  type: screeningQuestionTypeSchema,
+  options: z.string().array().nullable(),
+  isRequired: z.boolean(),
+  knockout: screeningKnockoutRuleSchema.nullable(),
+  position: z.number(),
+});
+
+/**
+ * Screening question as seen by candidates. Knockout rules are never exposed.
+ */
+export const publicScreeningQuestionSchema =
+  screeningQuestionResponseSchema.omit({ knockout: true });
+
+export const screeningAnswerValueSchema = z.union([
+  z.boolean(),
+  z.number(),
+  z.string().trim().max(2000),
+]);
+
+// Multipart applications send the answers as a JSON encoded form field
+export const screeningAnswersInputSchema = z.preprocess(
+  (value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  },
+  z
+    .object({
+      questionId: z.number().int().positive(),
+      answer: screeningAnswerValueSchema,
+    })
+    .strict()
+    .array()
+    .max(20)
+    .refine(
+      (answers) =>
+        new Set(answers.map((a) => a.questionId)).size === answers.length,
+      { message: "Each question can only be answered once" },
+    ),
+);
+
+/**
+ * A candidate's answer as shown to reviewers.
+ */
+export const applicationScreeningAnswerSchema = z.object({
+  questionId: z.number(),
+  question: z.string(),
+  type: screeningQuestionTypeSchema,
+  answer: screeningAnswerValueSchema,
+  knockoutTriggered: z.enum(["reject", "flag"]).nullable(),
+});
+
+export type ScreeningQuestionType = z.infer<typeof screeningQuestionTypeSchema>;
+export type ScreeningStatus = z.infer<typeof screeningStatusSchema>;
+export type ScreeningQuestionInput = z.infer<typeof screeningQuestionInput>;
+export type ScreeningQuestion = z.infer<typeof screeningQuestionResponseSchema>;
+export type PublicScreeningQuestion = z.infer<
+  typeof publicScreeningQuestionSchema
+>;
+export type ScreeningAnswerInput = z.infer<
+  typeof screeningAnswersInputSchema
+>[number];
+export type ApplicationScreeningAnswer = z.infer<
+  typeof applicationScreeningAnswerSchema
+>;
@@ -9,6 +9,7 @@ import {
   updateUserProfileSchema,
 } from "@/validations/userProfile.validation";
 import { userEmailPreferences } from "@/db/schema";
+import { JOB_STATUSES } from "@shared/constants/job-status";
 
 const userParamsSchema = z.object({
   id: z.string().regex(/^\d+$/, "Invalid user ID format"),
@@ -56,6 +57,7 @@ export const savedJobsSchema = z.object({
     state: z.string().nullable(),
     country: z.string(),
     isActive: z.boolean(),
+    status: z.enum(JOB_STATUSES),
     compensationType: z.enum(["paid", "missionary", "volunteer", "stipend"]),
     isRemote: z.boolean(),
     applicationDeadline: z.date().nullable(),
@@ -11,7 +11,10 @@ const MODULES = [
   "applications",
   "organizations",
   "invitations",
+  "interviews",
+  "messaging",
   "notifications",
+  "back-office",
 ] as const;
 
 // Shared subdirectories that must NOT import from modules.
@@ -0,0 +1,222 @@
+import { eq, inArray } from "drizzle-orm";
+import { db } from "@shared/db/connection";
+import {
+  applicationStatusHistory,
+  organizationRolePermissions,
+} from "@/db/schema";
+import { DEFAULT_ROLE_PERMISSIONS } from "@shared/constants/organization-permissions";
+import { request, TestHelpers } from "@tests/utils/testHelpers";
+import {
+  seedJobApplicationsScenario,
+  type JobApplicationsScenario,
+} from "@tests/utils/seedScenarios";
+import { createJobApplication, createUser } from "@tests/utils/seedBuilders";
+import { expect, describe, it, beforeEach, vi } from "vitest";
+
+const { mockEmit } = vi.hoisted(() => ({ mockEmit: vi.fn() }));
+
+vi.mock("@shared/audit", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@shared/audit")>();
+  return {
+    ...original,
+    auditService: { emit: mockEmit },
+  };
+});
+
+describe("Application Bulk Actions Controller Integration Tests", () => {
+  describe("POST /organizations/:organizationId/jobs/:jobId/applications/bulk", () => {
+    let scenario: JobApplicationsScenario;
+    let cookie: string;
+
+    const bulkUrl = () =>
+      `/api/organizations/${scenario.orgs[0]!.id}/jobs/${scenario.jobs[0]!.id}/applications/bulk`;
+
+    beforeEach(async () => {
+      scenario = await seedJobApplicationsScenario();
+
+      // The recruiter keeps applications.manage but loses applications.reject
+      await db.insert(organizationRolePermissions).values({
+        organizationId: scenario.orgs[0]!.id,
+        role: "recruiter",
+        permissions: DEFAULT_ROLE_PERMISSIONS.recruiter.filter(
+          (permission) => permission !== "applications.reject",
+        ),
+      });
+
+      const response = await request.post("/api/auth/sign-in/email").send({
+        email: "org.member@example.com",
+        password: "Password@123",
+      });
+      cookie = response.headers["set-cookie"]?.[0] ?? "";
+    });
+
+    it("should return 403 when moving applications to the rejected stage without the reject permission", async () => {
+      const response = await request
+        .post(bulkUrl())
+        .set("Cookie", cookie)
+        .send({
+          applicationIds: [scenario.applications[0]!.id],
+          actions: [{ type: "move_to_stage", status: "rejected" }],
+        });
+
+      TestHelpers.validateApiResponse(response, 403);
+    });
+
+    it("should return 403 for a reject action without the reject permission", async () => {
+      const response = await request
+        .post(bulkUrl())
+        .set("Cookie", cookie)
+        .send({
+          applicationIds: [scenario.applications[0]!.id],
+          actions: [{ type: "reject", templateKey: "position_filled" }],
+        });
+
+      TestHelpers.validateApiResponse(response, 403);
+    });
+
+    it("should allow moving applications to other stages with applications.manage", async () => {
+      const response = await request
+        .post(bulkUrl())
+        .set("Cookie", cookie)
+        .send({
+          applicationIds: [scenario.applications[0]!.id],
+          actions: [{ type: "move_to_stage", status: "reviewed" }],
+        });
+
+      TestHelpers.validateApiResponse(response, 200);
+      expect(response.body.data.succeeded).toBe(1);
+    });
+
+    describe("with several applications", () => {
+      let applicationIds: number[];
+
+      beforeEach(async () => {
+        const otherApplicant = await createUser({
+          email: "second.applicant@example.com",
+        });
+        const otherApplication = await createJobApplication(
+          scenario.jobs[0]!.id,
+          otherApplicant.id,
+        );
+        applicationIds = [scenario.applications[0]!.id, otherApplication.id];
+        mockEmit.mockClear();
+      });
+
+      it("should record a status history row for every moved application", async () => {
+        const response = await request
+          .post(bulkUrl())
+          .set("Cookie", cookie)
+          .send({
+            applicationIds,
+            actions: [
+              {
+                type: "move_to_stage",
+                status: "reviewed",
+                reason: "Meets the ministry requirements",
+              },
+            ],
+          });
+
+        TestHelpers.validateApiResponse(response, 200);
+        expect(response.body.data.succeeded).toBe(2);
+
+        const history = await db
+          .select()
+          .from(applicationStatusHistory)
+          .where(
+            inArray(applicationStatusHistory.applicationId, applicationIds),
+          );
+
+        expect(history).toHaveLength(2);
+        for (const applicationId of applicationIds) {
+          expect(history).toContainEqual(
+            expect.objectContaining({
+              applicationId,
+              fromStatus: "pending",
+              toStatus: "reviewed",
+              changedBy: scenario.member.id,
+              reason: "Meets the ministry requirements",
+            }),
+          );
+        }
+      });
+
+      it("should emit one audit record per application", async () => {
+        const response = await request
+          .post(bulkUrl())
+          .set("Cookie", cookie)
+          .send({
+            applicationIds: [...applicationIds, 999999],
+            actions: [{ type: "move_to_stage", status: "reviewed" }],
+          });
+
+        TestHelpers.validateApiResponse(response, 200);
+
+        const events = mockEmit.mock.calls
+          .map(([event]) => event)
+          .filter((event) => event.name === "application.bulk_updated");
+
+        expect(events).toHaveLength(3);
+        expect(events.map((event) => event.resource)).toEqual([
+          {
+            type: "application",
+            id: applicationIds[0],
+            organizationId: scenario.orgs[0]!.id,
+          },
+          {
+            type: "application",
+            id: applicationIds[1],
+            organizationId: scenario.orgs[0]!.id,
+          },
+          {
+            type: "application",
+            id: 999999,
+            organizationId: scenario.orgs[0]!.id,
+          },
+        ]);
+        expect(events.map((event) => event.outcome)).toEqual([
+          "success",
+          "success",
+          "failure",
+        ]);
+        expect(events[2]).toMatchObject({
+          failureReason: "Application not found",
+        });
+      });
+
+      it("should record the rejection reason on each rejected application's history", async () => {
+        await db
+          .delete(organizationRolePermissions)
+          .where(
+            eq(
+              organizationRolePermissions.organizationId,
+              scenario.orgs[0]!.id,
+            ),
+          );
+
+        const response = await request
+          .post(bulkUrl())
+          .set("Cookie", cookie)
+          .send({
+            applicationIds,
+            actions: [{ type: "reject", templateKey: "position_filled" }],
+          });
+
+        TestHelpers.validateApiResponse(response, 200);
+
+        const history = await db
+          .select()
+          .from(applicationStatusHistory)
+          .where(
+            inArray(applicationStatusHistory.applicationId, applicationIds),
+          );
+
+        expect(history).toHaveLength(2);
+        expect(history.every((row) => row.toStatus === "rejected")).toBe(true);
+        expect(history.every((row) => row.reason === "Position filled")).toBe(
+          true,
+        );
+      });
+    });
+  });
+});
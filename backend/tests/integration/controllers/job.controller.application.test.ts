@@ -1,10 +1,26 @@
 import { request, TestHelpers } from "@tests/utils/testHelpers";
-import { seedJobsScenario } from "@tests/utils/seedScenarios";
-import { createUser, createUserProfile } from "@tests/utils/seedBuilders";
+import {
+  seedJobApplicationsScenario,
+  seedJobsScenario,
+} from "@tests/utils/seedScenarios";
+import {
+  createOrganization,
+  createOrganizationMember,
+  createUser,
+  createUserProfile,
+} from "@tests/utils/seedBuilders";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { JobBoardRepository } from "@/modules/job-board";
 import { ApplicationsRepository } from "@/modules/applications";
 import { queueService } from "@shared/infrastructure/queue.service";
+import { db } from "@shared/db/connection";
+import {
+  applicationScreeningAnswers,
+  jobScreeningQuestions,
+  jobsDetails,
+  organizations,
+} from "@/db/schema";
+import { eq } from "drizzle-orm";
 
 describe("Job Application API - POST /api/jobs/:jobId/apply", () => {
   let userCookie: string;
@@ -127,6 +143,68 @@ describe("Job Application API - POST /api/jobs/:jobId/apply", () => {
     });
   });
 
+  describe("Screening Questions (multipart)", () => {
+    let questionId: number;
+
+    beforeEach(async () => {
+      const [inserted] = await db
+        .insert(jobScreeningQuestions)
+        .values({
+          jobId,
+          question: "Are you authorized to work in the United States?",
+          type: "yes_no",
+          isRequired: true,
+          position: 0,
+        })
+        .$returningId();
+      questionId = inserted!.id;
+    });
+
+    it("should store answers sent as a JSON encoded form field", async () => {
+      const response = await request
+        .post(`/api/jobs/${jobId}/apply`)
+        .set("Cookie", userCookie)
+        .field("notes", "Available to start immediately.")
+        .field(
+          "screeningAnswers",
+          JSON.stringify([{ questionId, answer: true }]),
+        );
+
+      TestHelpers.validateApiResponse(response, 201);
+
+      const answers = await db
+        .select()
+        .from(applicationScreeningAnswers)
+        .where(
+          eq(
+            applicationScreeningAnswers.applicationId,
+            response.body.data.applicationId,
+          ),
+        );
+      expect(answers).toHaveLength(1);
+      expect(answers[0]).toMatchObject({ questionId, answer: "yes" });
+    });
+
+    it("should reject a multipart application missing a required answer", async () => {
+      const response = await request
+        .post(`/api/jobs/${jobId}/apply`)
+        .set("Cookie", userCookie)
+        .field("screeningAnswers", JSON.stringify([]));
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty("success", false);
+    });
+
+    it("should reject malformed answers JSON", async () => {
+      const response = await request
+        .post(`/api/jobs/${jobId}/apply`)
+        .set("Cookie", userCookie)
+        .field("screeningAnswers", "not-json");
+
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe("Business Logic Errors", () => {
     it("should reject duplicate application (409 Conflict)", async () => {
       // First application
@@ -192,6 +270,27 @@ describe("Job Application API - POST /api/jobs/:jobId/apply", () => {
       getJobByIdSpy.mockRestore();
     });
 
+    it("should hide a suspended organization's job from seekers (404)", async () => {
+      const [job] = await db
+        .select({ employerId: jobsDetails.employerId })
+        .from(jobsDetails)
+        .where(eq(jobsDetails.id, jobId));
+      await db
+        .update(organizations)
+        .set({ status: "suspended" })
+        .where(eq(organizations.id, job!.employerId));
+
+      const detailResponse = await request.get(`/api/jobs/${jobId}`);
+      const applyResponse = await request
+        .post(`/api/jobs/${jobId}/apply`)
+        .set("Cookie", userCookie)
+        .send({});
+
+      expect(detailResponse.status).toBe(404);
+      expect(applyResponse.status).toBe(404);
+      expect(applyResponse.body).toHaveProperty("success", false);
+    });
+
     it("should reject application for non-existent job (404)", async () => {
       const nonExistentJobId = 99999;
 
@@ -435,3 +534,56 @@ describe("Withdraw Job Application Integration Tests", () => {
     });
   });
 });
+
+describe("Employer application routes resolve the job's organization", () => {
+  let cookie: string;
+  let jobId: number;
+  let applicationId: number;
+
+  beforeEach(async () => {
+    const { orgs, jobs, applications } = await seedJobApplicationsScenario();
+
+    // Owner of another organization, but only a plain member of the one
+    // that posted the job
+    const user = await createUser({ email: "other.owner@example.com" });
+    const ownOrganization = await createOrganization();
+    await createOrganizationMember(user.id, ownOrganization.id, "owner");
+    await createOrganizationMember(user.id, orgs[0]!.id, "member");
+
+    const loginResponse = await request
+      .post("/api/auth/sign-in/email")
+      .send({ email: "other.owner@example.com", password: "Password@123" });
+
+    cookie = loginResponse.headers["set-cookie"]![0]!;
+    jobId = jobs[0]!.id;
+    applicationId = applications[0]!.id;
+  });
+
+  it("should not list a job's applications using another organization's role (403)", async () => {
+    const response = await request
+      .get(`/api/jobs/${jobId}/applications`)
+      .set("Cookie", cookie);
+
+    expect(response.status).toBe(403);
+    expect(response.body).toHaveProperty("success", false);
+  });
+
+  it("should not update an application's status using another organization's role (403)", async () => {
+    const response = await request
+      .patch(`/api/jobs/applications/${applicationId}/status`)
+      .set("Cookie", cookie)
+      .send({ status: "reviewed" });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toHaveProperty("success", false);
+  });
+
+  it("should return 404 for an application that does not exist", async () => {
+    const response = await request
+      .patch("/api/jobs/applications/99999/status")
+      .set("Cookie", cookie)
+      .send({ status: "reviewed" });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -3,6 +3,7 @@ import { sql } from "drizzle-orm";
 import { db } from "@shared/db/connection";
 import { jobsDetails, jobSkills, skills } from "@/db/schema";
 import { TypesenseJobService } from "@shared/infrastructure/typesense.service/typesense.service";
+import { LocalGeocoderService } from "@shared/infrastructure/geocoder/local-geocoder.service";
 import { request } from "@tests/utils/testHelpers";
 import { seedAdminScenario } from "@tests/utils/seedScenarios";
 import { jobPostingFixture } from "@tests/utils/fixtures";
@@ -12,6 +13,7 @@ import {
   queueService,
 } from "@shared/infrastructure/queue.service";
 import { createTypesenseJobIndexerWorker } from "@/modules/job-board/workers/typesense-job-indexer.worker";
+import { OrganizationsRepository } from "@/modules/organizations";
 
 // Override the global queue mock — this test needs real Redis queue + Typesense
 vi.mock("@shared/infrastructure/queue.service", async (importOriginal) => {
@@ -28,6 +30,8 @@ describe("Job Search Integration Tests", () => {
     await queueService.initialize();
     const typesenseWorker = createTypesenseJobIndexerWorker({
       typesenseService,
+      geocoder: new LocalGeocoderService(),
+      orgMembershipForJob: new OrganizationsRepository(),
     });
     typesenseWorker.initialize();
 
@@ -488,41 +492,45 @@ describe("Job Search Integration Tests", () => {
     });
   });
 
-  // describe("GET /api/jobs/search - Facets (if implemented)", () => {
-  //   it("should return facet counts for skills", async () => {
-  //     const response = await request
-  //       .get("/api/jobs/search")
-  //       .query({ facet_by: "skills" })
-  //       .expect(200);
-  //
-  //     if (response.body.facets) {
-  //       expect(response.body.facets).toHaveProperty("skills");
-  //       expect(Array.isArray(response.body.facets.skills)).toBe(true);
-  //     }
-  //   });
-  //
-  //   it("should return facet counts for jobType", async () => {
-  //     const response = await request
-  //       .get("/api/jobs/search")
-  //       .query({ facet_by: "jobType" })
-  //       .expect(200);
-  //
-  //     if (response.body.facets) {
-  //       expect(response.body.facets).toHaveProperty("jobType");
-  //     }
-  //   });
-  //
-  //   it("should return multiple facets", async () => {
-  //     const response = await request
-  //       .get("/api/jobs/search")
-  //       .query({ facet_by: "skills,jobType,isRemote" })
-  //       .expect(200);
-  //
-  //     if (response.body.facets) {
-  //       expect(Object.keys(response.body.facets).length).toBeGreaterThan(0);
-  //     }
-  //   });
-  // });
+  describe("GET /api/jobs/search - Facets", () => {
+    it("should return facet counts for every filter field", async () => {
+      const response = await request.get("/api/jobs/search").expect(200);
+
+      expect(response.body).toHaveProperty("facets");
+      for (const field of [
+        "jobType",
+        "compensationType",
+        "experience",
+        "isRemote",
+        "state",
+        "city",
+        "skills",
+        "workAreas",
+      ]) {
+        expect(Array.isArray(response.body.facets[field])).toBe(true);
+      }
+    });
+
+    it("should count jobType values across all matching jobs", async () => {
+      const response = await request.get("/api/jobs/search").expect(200);
+
+      const total = response.body.facets.jobType.reduce(
+        (sum: number, facet: { count: number }) => sum + facet.count,
+        0,
+      );
+      expect(total).toBe(response.body.pagination.total);
+    });
+
+    it("should compute facets under the active filters", async () => {
+      const response = await request
+        .get("/api/jobs/search")
+        .query({ q: "nonexistentskill12345" })
+        .expect(200);
+
+      expect(response.body.facets.jobType).toEqual([]);
+      expect(response.body.facets.skills).toEqual([]);
+    });
+  });
 
   describe("GET /api/jobs/search - Concurrent Requests", () => {
     it("should handle multiple concurrent requests", async () => {
@@ -1,6 +1,6 @@
 import { eq } from "drizzle-orm";
 import { db } from "@shared/db/connection";
-import { user, jobsDetails } from "@/db/schema";
+import { user, jobsDetails, applicationStatusHistory } from "@/db/schema";
 import { ApplicationsRepository } from "@/modules/applications";
 import { request, TestHelpers } from "@tests/utils/testHelpers";
 import {
@@ -19,6 +19,7 @@ import {
 import { auth } from "@/utils/auth";
 import { seedUserWithRoleScenario } from "@tests/utils/seedScenarios";
 import { createJobApplication } from "@tests/utils/seedBuilders";
+import { ConflictError } from "@shared/errors";
 
 describe("Application Status Change Notification Integration Tests", () => {
   let cookie: string;
@@ -554,4 +555,118 @@ describe("Application Status Change Notification Integration Tests", () => {
       }
     });
   });
+
+  describe("Legacy status route - PATCH /api/jobs/applications/:applicationId/status", () => {
+    it("should record the change on the application's status history", async () => {
+      const response = await request
+        .patch(`/api/jobs/applications/${applicationId}/status`)
+        .set("Cookie", cookie)
+        .send({ status: "reviewed", reason: "Strong ministry background" });
+
+      TestHelpers.validateApiResponse(response, 200);
+
+      const history = await db
+        .select()
+        .from(applicationStatusHistory)
+        .where(eq(applicationStatusHistory.applicationId, applicationId));
+
+      expect(history).toContainEqual(
+        expect.objectContaining({
+          fromStatus: "pending",
+          toStatus: "reviewed",
+          reason: "Strong ministry background",
+        }),
+      );
+    });
+
+    it("should reject statuses outside the organization's pipeline", async () => {
+      const response = await request
+        .patch(`/api/jobs/applications/${applicationId}/status`)
+        .set("Cookie", cookie)
+        .send({ status: "made_up_stage" });
+
+      expect(response.status).toBe(400);
+      expect(queueService.addJob).not.toHaveBeenCalled();
+    });
+
+    it("should reject fields other than status and reason", async () => {
+      const response = await request
+        .patch(`/api/jobs/applications/${applicationId}/status`)
+        .set("Cookie", cookie)
+        .send({ status: "reviewed", notes: "Not allowed here" });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Concurrent status changes", () => {
+    let reviewerId: number;
+
+    beforeEach(async () => {
+      const [owner] = await db
+        .select({ id: user.id })
+        .from(user)
+        .where(eq(user.email, "org.owner@example.com"));
+      reviewerId = owner!.id;
+    });
+
+    it("should refuse to move an application whose status changed since it was checked", async () => {
+      // Another reviewer moved the application after this one read it
+      await applicationsRepository.updateOrgJobApplicationStatus(
+        organizationId,
+        jobId,
+        applicationId,
+        "pending",
+        "reviewed",
+        reviewerId,
+      );
+
+      await expect(
+        applicationsRepository.updateOrgJobApplicationStatus(
+          organizationId,
+          jobId,
+          applicationId,
+          "pending",
+          "rejected",
+          reviewerId,
+        ),
+      ).rejects.toBeInstanceOf(ConflictError);
+
+      const application =
+        await applicationsRepository.findApplicationById(applicationId);
+      expect(application?.application.status).toBe("reviewed");
+
+      const history = await db
+        .select()
+        .from(applicationStatusHistory)
+        .where(eq(applicationStatusHistory.applicationId, applicationId));
+      expect(
+        history.filter((entry) => entry.toStatus === "rejected"),
+      ).toHaveLength(0);
+    });
+
+    it("should refuse to withdraw an application whose status changed since it was checked", async () => {
+      await applicationsRepository.updateOrgJobApplicationStatus(
+        organizationId,
+        jobId,
+        applicationId,
+        "pending",
+        "hired",
+        reviewerId,
+      );
+
+      await expect(
+        applicationsRepository.withdrawApplication(
+          applicationId,
+          "pending",
+          "withdrawn",
+          reviewerId,
+        ),
+      ).rejects.toBeInstanceOf(ConflictError);
+
+      const application =
+        await applicationsRepository.findApplicationById(applicationId);
+      expect(application?.application.status).toBe("hired");
+    });
+  });
 });
@@ -332,13 +332,14 @@ describe("Organization Controller Application Management Integration Tests", ()
         .set("Cookie", cookie)
         .send({ status: "invalid_status" });
 
+      // Statuses are pipeline stage keys, so unknown keys fail the pipeline guard
       expect(response.status).toBe(400);
       expect(response.body).toHaveProperty("success", false);
       expect(response.body).toHaveProperty("error");
       expect(response.body.error).toHaveProperty("code", "VALIDATION_ERROR");
       expect(response.body.error).toHaveProperty(
         "message",
-        "Request validation failed",
+        "Unknown status invalid_status for pipeline Default pipeline",
       );
     });
   });
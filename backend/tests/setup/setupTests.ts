@@ -16,6 +16,7 @@ vi.mock("@shared/infrastructure/queue.service", async (importOriginal) => {
     ...original,
     queueService: {
       addJob: vi.fn().mockResolvedValue(undefined),
+      addBulkJobs: vi.fn().mockResolvedValue([]),
       initialize: vi.fn().mockResolvedValue(undefined),
       shutdown: vi.fn().mockResolvedValue(undefined),
       obliterateQueue: vi.fn().mockResolvedValue(undefined),
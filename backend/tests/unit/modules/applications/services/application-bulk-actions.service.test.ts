@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ApplicationBulkActionsService } from "@/modules/applications/services/application-bulk-actions.service";
+import { DatabaseError, ValidationError } from "@shared/errors";
+import { ok } from "@shared/result";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
+import { REJECTION_MESSAGE_TEMPLATES } from "@shared/constants/rejection-templates";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+
+describe("ApplicationBulkActionsService", () => {
+  let service: ApplicationBulkActionsService;
+  let mockApplicationsRepository: any;
+  let mockScorecardRepository: any;
+  let mockHiringPipelineService: any;
+
+  const application = (id: number, status = "pending") => ({
+    id,
+    status,
+    jobTitle: "Youth Pastor",
+    applicant: {
+      id: id + 100,
+      email: `applicant${id}@example.com`,
+      fullName: `Applicant ${id}`,
+    },
+  });
+
+  const addBulkJobsMock = queueService.addBulkJobs as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockApplicationsRepository = {
+      findJobApplicationsForBulkAction: vi
+        .fn()
+        .mockResolvedValue([application(1), application(2, "hired")]),
+      updateOrgJobApplicationStatus: vi.fn().mockResolvedValue({}),
+      addApplicationTag: vi.fn().mockResolvedValue(undefined),
+    };
+
+    mockScorecardRepository = {
+      findActiveMemberIds: vi.fn().mockResolvedValue([7]),
+      assignReviewers: vi.fn().mockResolvedValue([]),
+    };
+
+    mockHiringPipelineService = {
+      getPipeline: vi
+        .fn()
+        .mockResolvedValue(
+          ok({ id: null, organizationId: 10, ...DEFAULT_HIRING_PIPELINE }),
+        ),
+      updatePipeline: vi.fn(),
+    };
+
+    service = new ApplicationBulkActionsService(
+      mockApplicationsRepository,
+      mockScorecardRepository,
+      mockHiringPipelineService,
+    );
+  });
+
+  it("returns a result for every application, including missing ones", async () => {
+    const result = await service.runBulkActions(10, 20, 5, {
+      applicationIds: [1, 2, 3],
+      actions: [{ type: "move_to_stage", status: "reviewed" }],
+    });
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+
+    expect(result.value).toMatchObject({ total: 3, succeeded: 1, failed: 2 });
+    expect(result.value.results).toEqual([
+      {
+        applicationId: 1,
+        success: true,
+        status: "reviewed",
+        failedAction: null,
+        error: null,
+      },
+      {
+        applicationId: 2,
+        success: false,
+        status: "hired",
+        failedAction: "move_to_stage",
+        error: "Invalid status transition from hired to reviewed",
+      },
+      {
+        applicationId: 3,
+        success: false,
+        status: null,
+        failedAction: null,
+        error: "Application not found",
+      },
+    ]);
+    expect(
+      mockApplicationsRepository.updateOrgJobApplicationStatus,
+    ).toHaveBeenCalledTimes(1);
+  });
+
+  it("records a status change with the actor and reason for every moved application", async () => {
+    mockApplicationsRepository.findJobApplicationsForBulkAction.mockResolvedValue(
+      [application(1), application(2)],
+    );
+
+    const result = await service.runBulkActions(10, 20, 5, {
+      applicationIds: [1, 2],
+      actions: [
+        { type: "move_to_stage", status: "reviewed", reason: "Top pick" },
+      ],
+    });
+
+    expect(result.isSuccess).toBe(true);
+    expect(
+      mockApplicationsRepository.updateOrgJobApplicationStatus.mock.calls,
+    ).toEqual([
+      [10, 20, 1, "pending", "reviewed", 5, "Top pick"],
+      [10, 20, 2, "pending", "reviewed", 5, "Top pick"],
+    ]);
+  });
+
+  it("rejects with the chosen template and batches the emails", async () => {
+    mockApplicationsRepository.findJobApplicationsForBulkAction.mockResolvedValue(
+      [application(1, "reviewed"), application(2, "interviewing")],
+    );
+
+    const result = await service.runBulkActions(10, 20, 5, {
+      applicationIds: [1, 2],
+      actions: [{ type: "reject", templateKey: "position_filled" }],
+    });
+
+    expect(result.isSuccess).toBe(true);
+    expect(
+      mockApplicationsRepository.updateOrgJobApplicationStatus,
+    ).toHaveBeenCalledWith(
+      10,
+      20,
+      1,
+      "reviewed",
+      "rejected",
+      5,
+      "Position filled",
+    );
+
+    expect(addBulkJobsMock).toHaveBeenCalledTimes(1);
+    const [queueName, jobs] = addBulkJobsMock.mock.calls[0]!;
+    expect(queueName).toBe(QUEUE_NAMES.EMAIL_QUEUE);
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0]).toEqual({
+      name: "sendApplicationStatusUpdate",
+      data: expect.objectContaining({
+        email: "applicant1@example.com",
+        oldStatus: "reviewed",
+        newStatus: "rejected",
+        newStatusLabel: "Not Selected",
+        message: REJECTION_MESSAGE_TEMPLATES.position_filled.message,
+        applicationId: 1,
+      }),
+    });
+  });
+
+  it("runs every action in order on each application", async () => {
+    mockApplicationsRepository.findJobApplicationsForBulkAction.mockResolvedValue(
+      [application(1)],
+    );
+
+    const result = await service.runBulkActions(10, 20, 5, {
+      applicationIds: [1],
+      actions: [
+        { type: "add_tag", tag: "bilingual" },
+        { type: "assign_reviewer", memberId: 7 },
+      ],
+    });
+
+    expect(result.isSuccess).toBe(true);
+    expect(mockApplicationsRepository.addApplicationTag).toHaveBeenCalledWith(
+      1,
+      "bilingual",
+      5,
+    );
+    expect(mockScorecardRepository.assignReviewers).toHaveBeenCalledWith(
+      1,
+      [7],
+      5,
+    );
+    expect(addBulkJobsMock).not.toHaveBeenCalled();
+  });
+
+  it("stops the remaining actions of an application after a failure", async () => {
+    mockApplicationsRepository.findJobApplicationsForBulkAction.mockResolvedValue(
+      [application(1)],
+    );
+    mockApplicationsRepository.addApplicationTag.mockRejectedValue(
+      new DatabaseError("Failed to add tag"),
+    );
+
+    const result = await service.runBulkActions(10, 20, 5, {
+      applicationIds: [1],
+      actions: [
+        { type: "move_to_stage", status: "reviewed" },
+        { type: "add_tag", tag: "bilingual" },
+        { type: "assign_reviewer", memberId: 7 },
+      ],
+    });
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value.results[0]).toMatchObject({
+        success: false,
+        status: "reviewed",
+        failedAction: "add_tag",
+      });
+    }
+    expect(mockScorecardRepository.assignReviewers).not.toHaveBeenCalled();
+    // The status change that did happen is still notified
+    expect(addBulkJobsMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns ValidationError when the reviewer is not an active member", async () => {
+    mockScorecardRepository.findActiveMemberIds.mockResolvedValue([]);
+
+    const result = await service.runBulkActions(10, 20, 5, {
+      applicationIds: [1],
+      actions: [{ type: "assign_reviewer", memberId: 99 }],
+    });
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ValidationError);
+    expect(
+      mockApplicationsRepository.findJobApplicationsForBulkAction,
+    ).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ApplicationsService } from "@/modules/applications/services/applications.service";
+import { NotFoundError, ValidationError } from "@shared/errors";
+import { ok } from "@shared/result";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
+import type { ScreeningQuestion } from "@/validations/screeningQuestion.validation";
+
+describe("ApplicationsService screening questions", () => {
+  let service: ApplicationsService;
+  let mockRepository: any;
+  let mockJobDetailsQuery: any;
+  let mockOrgMembershipQuery: any;
+  let mockHiringPipelineService: any;
+
+  const questions: ScreeningQuestion[] = [
+    {
+      id: 1,
+      question: "Are you authorized to work in the US?",
+      type: "yes_no",
+      options: null,
+      isRequired: true,
+      knockout: { action: "reject", expectedAnswer: true },
+      position: 0,
+    },
+    {
+      id: 2,
+      question: "Years of ministry experience",
+      type: "numeric",
+      options: null,
+      isRequired: true,
+      knockout: { action: "flag", min: 3 },
+      position: 1,
+    },
+    {
+      id: 3,
+      question: "Preferred schedule",
+      type: "multiple_choice",
+      options: ["Full-time", "Part-time"],
+      isRequired: false,
+      knockout: null,
+      position: 2,
+    },
+    {
+      id: 4,
+      question: "Anything else we should know?",
+      type: "text",
+      options: null,
+      isRequired: false,
+      knockout: null,
+      position: 3,
+    },
+  ];
+
+  const application = { jobId: 1, applicantId: 5, status: "pending" };
+
+  const apply = (screeningAnswers: { questionId: number; answer: any }[]) =>
+    service.applyForJob({ ...application, screeningAnswers }, "corr-1");
+
+  const pipelineWithout = (key: string) =>
+    ok({
+      id: 3,
+      organizationId: 10,
+      stages: DEFAULT_HIRING_PIPELINE.stages.filter((s) => s.key !== key),
+      transitions: DEFAULT_HIRING_PIPELINE.transitions,
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      hasUserAppliedToJob: vi.fn().mockResolvedValue(false),
+      createApplication: vi.fn().mockResolvedValue(100),
+      getJobApplicationsForOrganization: vi.fn().mockResolvedValue([]),
+    };
+
+    mockJobDetailsQuery = {
+      getJobForApplication: vi.fn().mockResolvedValue({
+        id: 1,
+        title: "Youth Pastor",
+        isActive: true,
+        applicationDeadline: null,
+        employerId: 10,
+      }),
+      getScreeningQuestions: vi.fn().mockResolvedValue(questions),
+    };
+
+    mockHiringPipelineService = {
+      getPipeline: vi
+        .fn()
+        .mockResolvedValue(
+          ok({ id: null, organizationId: 10, ...DEFAULT_HIRING_PIPELINE }),
+        ),
+      updatePipeline: vi.fn(),
+    };
+
+    mockOrgMembershipQuery = {
+      isOrganizationSuspended: vi.fn().mockResolvedValue(false),
+    };
+
+    service = new ApplicationsService(
+      mockRepository,
+      mockJobDetailsQuery,
+      mockOrgMembershipQuery,
+      { findById: vi.fn().mockResolvedValue(null) } as any,
+      { publish: vi.fn() } as any,
+      mockHiringPipelineService,
+    );
+  });
+
+  describe("applyForJob", () => {
+    it("hides the jobs of a suspended organization", async () => {
+      mockOrgMembershipQuery.isOrganizationSuspended.mockResolvedValue(true);
+
+      const result = await apply([{ questionId: 1, answer: true }]);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+      expect(
+        mockOrgMembershipQuery.isOrganizationSuspended,
+      ).toHaveBeenCalledWith(10);
+      expect(mockRepository.createApplication).not.toHaveBeenCalled();
+    });
+
+    it("stores normalised answers and marks the application as passed", async () => {
+      const result = await apply([
+        { questionId: 1, answer: true },
+        { questionId: 2, answer: 5 },
+        { questionId: 3, answer: "Part-time" },
+      ]);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.createApplication).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "pending",
+          screeningStatus: "passed",
+        }),
+        {
+          answers: [
+            { questionId: 1, answer: "yes", knockoutTriggered: null },
+            { questionId: 2, answer: "5", knockoutTriggered: null },
+            { questionId: 3, answer: "Part-time", knockoutTriggered: null },
+          ],
+          statusReason: undefined,
+        },
+      );
+    });
+
+    it("flags applications that trigger a flag knockout", async () => {
+      const result = await apply([
+        { questionId: 1, answer: true },
+        { questionId: 2, answer: 1 },
+      ]);
+
+      expect(result.isSuccess).toBe(true);
+      const [data, screening] = mockRepository.createApplication.mock.calls[0];
+      expect(data).toMatchObject({
+        status: "pending",
+        screeningStatus: "flagged",
+      });
+      expect(screening.answers[1].knockoutTriggered).toBe("flag");
+    });
+
+    it("auto-rejects applications that trigger a reject knockout", async () => {
+      const result = await apply([
+        { questionId: 1, answer: false },
+        { questionId: 2, answer: 10 },
+      ]);
+
+      expect(result.isSuccess).toBe(true);
+      const [data, screening] = mockRepository.createApplication.mock.calls[0];
+      expect(data).toMatchObject({
+        status: "rejected",
+        screeningStatus: "rejected",
+      });
+      expect(screening.statusReason).toBe(
+        "Automatically rejected by a screening question",
+      );
+    });
+
+    it("flags instead of rejecting when the pipeline has no rejected stage", async () => {
+      mockHiringPipelineService.getPipeline.mockResolvedValue(
+        pipelineWithout("rejected"),
+      );
+
+      const result = await apply([
+        { questionId: 1, answer: false },
+        { questionId: 2, answer: 10 },
+      ]);
+
+      expect(result.isSuccess).toBe(true);
+      const [data] = mockRepository.createApplication.mock.calls[0];
+      expect(data).toMatchObject({
+        status: "pending",
+        screeningStatus: "flagged",
+      });
+    });
+
+    it("requires answers to required questions", async () => {
+      const result = await apply([{ questionId: 1, answer: true }]);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+        expect((result.error as ValidationError).details).toEqual({
+          answers: [{ questionId: 2, message: "Answer is required" }],
+        });
+      }
+      expect(mockRepository.createApplication).not.toHaveBeenCalled();
+    });
+
+    it("rejects answers of the wrong type or to unknown questions", async () => {
+      const result = await apply([
+        { questionId: 1, answer: "yes" },
+        { questionId: 2, answer: 4 },
+        { questionId: 3, answer: "Weekends" },
+        { questionId: 99, answer: true },
+      ]);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect((result.error as ValidationError).details).toEqual({
+          answers: [
+            { questionId: 99, message: "Question does not belong to this job" },
+            { questionId: 1, message: "Answer must be true or false" },
+            {
+              questionId: 3,
+              message: "Answer must be one of the question's options",
+            },
+          ],
+        });
+      }
+    });
+
+    it("leaves screeningStatus empty for jobs without screening questions", async () => {
+      mockJobDetailsQuery.getScreeningQuestions.mockResolvedValue([]);
+
+      const result = await apply([]);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.createApplication).toHaveBeenCalledWith(
+        expect.objectContaining({ screeningStatus: null }),
+        { answers: [], statusReason: undefined },
+      );
+    });
+  });
+
+  describe("getJobApplicationsForOrganization", () => {
+    it("filters by answer and sorts numerically by a numeric question", async () => {
+      const result = await service.getJobApplicationsForOrganization(10, 1, {
+        screeningStatus: "flagged",
+        questionId: 1,
+        answer: "yes",
+        sortByQuestionId: 2,
+        order: "asc",
+      });
+
+      expect(result.isSuccess).toBe(true);
+      expect(
+        mockRepository.getJobApplicationsForOrganization,
+      ).toHaveBeenCalledWith(10, 1, {
+        screeningStatus: "flagged",
+        order: "asc",
+        answer: { questionId: 1, value: "yes" },
+        sortByAnswer: { questionId: 2, numeric: true },
+      });
+    });
+
+    it("returns ValidationError for questions of another job", async () => {
+      const result = await service.getJobApplicationsForOrganization(10, 1, {
+        sortByQuestionId: 42,
+      });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure)
+        expect(result.error).toBeInstanceOf(ValidationError);
+      expect(
+        mockRepository.getJobApplicationsForOrganization,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
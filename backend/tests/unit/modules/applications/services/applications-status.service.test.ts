@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ApplicationsService } from "@/modules/applications/services/applications.service";
+import { ConflictError, ForbiddenError, ValidationError } from "@shared/errors";
+import { ok } from "@shared/result";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
+
+describe("ApplicationsService updateApplicationStatus", () => {
+  let service: ApplicationsService;
+  let mockRepository: any;
+  let mockJobDetailsQuery: any;
+  let mockOrgMembershipQuery: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findApplicationById: vi.fn().mockResolvedValue({
+        application: { id: 100, jobId: 1, applicantId: 5, status: "pending" },
+        job: { id: 1, title: "Youth Pastor", employerId: 10 },
+        applicant: { id: 5, email: "jane@test.com", fullName: "Jane" },
+      }),
+      getJobApplicationForOrganization: vi
+        .fn()
+        .mockResolvedValue({ applicationId: 100, status: "pending" }),
+      updateOrgJobApplicationStatus: vi.fn().mockResolvedValue({
+        applicationId: 100,
+        status: "reviewed",
+        jobTitle: "Youth Pastor",
+      }),
+    };
+
+    mockJobDetailsQuery = {
+      getJobWithEmployerId: vi
+        .fn()
+        .mockResolvedValue({ employerId: 10, employerOrgId: 10 }),
+    };
+
+    mockOrgMembershipQuery = {
+      findByContact: vi.fn().mockResolvedValue({ id: 10 }),
+    };
+
+    service = new ApplicationsService(
+      mockRepository,
+      mockJobDetailsQuery,
+      mockOrgMembershipQuery,
+      {} as any,
+      { publish: vi.fn() } as any,
+      {
+        getPipeline: vi
+          .fn()
+          .mockResolvedValue(
+            ok({ id: null, organizationId: 10, ...DEFAULT_HIRING_PIPELINE }),
+          ),
+        updatePipeline: vi.fn(),
+      } as any,
+    );
+  });
+
+  it("updates through the organization-scoped path so history is recorded", async () => {
+    const result = await service.updateApplicationStatus(
+      100,
+      { status: "reviewed", reason: "Strong ministry background" },
+      9,
+    );
+
+    expect(result.isSuccess).toBe(true);
+    expect(mockRepository.updateOrgJobApplicationStatus).toHaveBeenCalledWith(
+      10,
+      1,
+      100,
+      "pending",
+      "reviewed",
+      9,
+      "Strong ministry background",
+    );
+  });
+
+  it("reports a conflict when the status changed after it was checked", async () => {
+    mockRepository.updateOrgJobApplicationStatus.mockRejectedValue(
+      new ConflictError(
+        "The application's status changed while it was being updated",
+      ),
+    );
+
+    const result = await service.updateApplicationStatus(
+      100,
+      { status: "reviewed" },
+      9,
+    );
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ConflictError);
+  });
+
+  it("rejects statuses that are not stages of the organization's pipeline", async () => {
+    const result = await service.updateApplicationStatus(
+      100,
+      { status: "made_up_stage" },
+      9,
+    );
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ValidationError);
+    expect(mockRepository.updateOrgJobApplicationStatus).not.toHaveBeenCalled();
+  });
+
+  it("rejects transitions the pipeline does not allow", async () => {
+    mockRepository.getJobApplicationForOrganization.mockResolvedValue({
+      applicationId: 100,
+      status: "hired",
+    });
+
+    const result = await service.updateApplicationStatus(
+      100,
+      { status: "pending" },
+      9,
+    );
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ValidationError);
+    expect(mockRepository.updateOrgJobApplicationStatus).not.toHaveBeenCalled();
+  });
+
+  it("forbids members of other organizations", async () => {
+    mockJobDetailsQuery.getJobWithEmployerId.mockResolvedValue({
+      employerId: 10,
+      employerOrgId: 11,
+    });
+
+    const result = await service.updateApplicationStatus(
+      100,
+      { status: "reviewed" },
+      9,
+    );
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ForbiddenError);
+    expect(mockRepository.updateOrgJobApplicationStatus).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ApplicationsService } from "@/modules/applications/services/applications.service";
+import { NotFoundError } from "@shared/errors";
+import { ok } from "@shared/result";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
+
+describe("ApplicationsService status timeline", () => {
+  let service: ApplicationsService;
+  let mockRepository: any;
+  let mockHiringPipelineService: any;
+
+  const submittedAt = new Date("2026-01-05T10:00:00Z");
+  const reviewedAt = new Date("2026-01-06T09:30:00Z");
+  const withdrawnAt = new Date("2026-01-07T16:45:00Z");
+
+  const history = [
+    {
+      id: 1,
+      fromStatus: null,
+      toStatus: "pending",
+      reason: null,
+      createdAt: submittedAt,
+      changedBy: 5,
+      actorName: "Jane Applicant",
+    },
+    {
+      id: 2,
+      fromStatus: "pending",
+      toStatus: "reviewed",
+      reason: "Strong ministry background",
+      createdAt: reviewedAt,
+      changedBy: 9,
+      actorName: "Sam Recruiter",
+    },
+    {
+      id: 3,
+      fromStatus: "reviewed",
+      toStatus: "withdrawn",
+      reason: "Accepted another position",
+      createdAt: withdrawnAt,
+      changedBy: 5,
+      actorName: "Jane Applicant",
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findApplicationById: vi.fn(),
+      getJobApplicationForOrganization: vi.fn(),
+      findStatusHistory: vi.fn().mockResolvedValue(history),
+    };
+
+    mockHiringPipelineService = {
+      getPipeline: vi
+        .fn()
+        .mockResolvedValue(
+          ok({ id: null, organizationId: 10, ...DEFAULT_HIRING_PIPELINE }),
+        ),
+      updatePipeline: vi.fn(),
+    };
+
+    service = new ApplicationsService(
+      mockRepository,
+      {} as any,
+      {} as any,
+      {} as any,
+      { publish: vi.fn() } as any,
+      mockHiringPipelineService,
+    );
+  });
+
+  describe("getApplicationTimelineForOrganization", () => {
+    it("returns every transition with its actor, reason and labels", async () => {
+      mockRepository.getJobApplicationForOrganization.mockResolvedValue({
+        applicationId: 100,
+        status: "withdrawn",
+      });
+
+      const result = await service.getApplicationTimelineForOrganization(
+        10,
+        1,
+        100,
+      );
+
+      expect(result.isSuccess).toBe(true);
+      if (!result.isSuccess) return;
+
+      expect(result.value).toHaveLength(3);
+      expect(result.value[0]).toEqual({
+        id: 1,
+        fromStatus: null,
+        fromStatusLabel: null,
+        toStatus: "pending",
+        toStatusLabel: "Submitted",
+        reason: null,
+        actor: { id: 5, fullName: "Jane Applicant" },
+        createdAt: submittedAt,
+      });
+      expect(result.value[1]).toMatchObject({
+        fromStatusLabel: "Submitted",
+        toStatusLabel: "Under Review",
+        reason: "Strong ministry background",
+        actor: { id: 9, fullName: "Sam Recruiter" },
+      });
+    });
+
+    it("returns NotFoundError when the application is not in the organization", async () => {
+      mockRepository.getJobApplicationForOrganization.mockResolvedValue(null);
+
+      const result = await service.getApplicationTimelineForOrganization(
+        10,
+        1,
+        100,
+      );
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(mockRepository.findStatusHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getApplicationTimelineForApplicant", () => {
+    beforeEach(() => {
+      mockRepository.findApplicationById.mockResolvedValue({
+        application: { id: 100, jobId: 1, applicantId: 5, status: "withdrawn" },
+        job: { id: 1, title: "Youth Pastor", employerId: 10 },
+        applicant: { id: 5, email: "jane@test.com", fullName: "Jane" },
+      });
+    });
+
+    it("hides employer identities and reasons from the applicant", async () => {
+      const result = await service.getApplicationTimelineForApplicant(100, 5);
+
+      expect(result.isSuccess).toBe(true);
+      if (!result.isSuccess) return;
+
+      expect(result.value.map((entry) => entry.changedBy)).toEqual([
+        "applicant",
+        "employer",
+        "applicant",
+      ]);
+      expect(result.value[1]).toEqual({
+        fromStatus: "pending",
+        fromStatusLabel: "Submitted",
+        toStatus: "reviewed",
+        toStatusLabel: "Under Review",
+        changedBy: "employer",
+        reason: null,
+        createdAt: reviewedAt,
+      });
+      expect(result.value[2]!.reason).toBe("Accepted another position");
+      expect(mockHiringPipelineService.getPipeline).toHaveBeenCalledWith(10);
+    });
+
+    it("returns NotFoundError for another user's application", async () => {
+      const result = await service.getApplicationTimelineForApplicant(100, 6);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(mockRepository.findStatusHistory).not.toHaveBeenCalled();
+    });
+  });
+});
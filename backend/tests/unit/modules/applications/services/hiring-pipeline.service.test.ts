@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { HiringPipelineService } from "@/modules/applications/services/hiring-pipeline.service";
+import { ConflictError, DatabaseError } from "@shared/errors";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
+import type { UpdateHiringPipelineInput } from "@/validations/hiringPipeline.validation";
+
+describe("HiringPipelineService", () => {
+  let service: HiringPipelineService;
+  let mockRepository: any;
+
+  const input: UpdateHiringPipelineInput = {
+    name: "Ministry pipeline",
+    stages: [
+      {
+        key: "pending",
+        label: "Submitted",
+        isTerminal: false,
+        allowsInterviews: false,
+      },
+      {
+        key: "reference_check",
+        label: "Reference Check",
+        isTerminal: false,
+        allowsInterviews: false,
+      },
+      {
+        key: "approved",
+        label: "Approved",
+        isTerminal: true,
+        allowsInterviews: false,
+      },
+      {
+        key: "withdrawn",
+        label: "Withdrawn",
+        isTerminal: true,
+        allowsInterviews: false,
+      },
+    ],
+    transitions: [
+      { from: "pending", to: "reference_check" },
+      { from: "reference_check", to: "approved" },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findByOrganizationId: vi.fn(),
+      upsertForOrganization: vi.fn(),
+      findStatusesInUse: vi.fn(),
+    };
+
+    service = new HiringPipelineService(mockRepository);
+  });
+
+  describe("getPipeline", () => {
+    it("returns the stored pipeline of the organization", async () => {
+      const stored = {
+        id: 3,
+        organizationId: 7,
+        name: input.name,
+        stages: input.stages.map((stage, position) => ({
+          ...stage,
+          position,
+        })),
+        transitions: input.transitions,
+      };
+      mockRepository.findByOrganizationId.mockResolvedValue(stored);
+
+      const result = await service.getPipeline(7);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) expect(result.value).toEqual(stored);
+    });
+
+    it("falls back to the default pipeline when none is stored", async () => {
+      mockRepository.findByOrganizationId.mockResolvedValue(null);
+
+      const result = await service.getPipeline(7);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.id).toBeNull();
+        expect(result.value.organizationId).toBe(7);
+        expect(result.value.stages).toEqual(DEFAULT_HIRING_PIPELINE.stages);
+      }
+    });
+
+    it("returns a DatabaseError when the lookup fails unexpectedly", async () => {
+      mockRepository.findByOrganizationId.mockRejectedValue(new Error("boom"));
+
+      const result = await service.getPipeline(7);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(DatabaseError);
+    });
+  });
+
+  describe("updatePipeline", () => {
+    it("saves the pipeline when no removed stage is in use", async () => {
+      mockRepository.findStatusesInUse.mockResolvedValue([
+        "pending",
+        "withdrawn",
+      ]);
+      mockRepository.upsertForOrganization.mockResolvedValue({ id: 3 });
+
+      const result = await service.updatePipeline(7, input);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.upsertForOrganization).toHaveBeenCalledWith(
+        7,
+        input,
+      );
+    });
+
+    it("rejects removing stages that still hold applications", async () => {
+      mockRepository.findStatusesInUse.mockResolvedValue([
+        "pending",
+        "shortlisted",
+      ]);
+
+      const result = await service.updatePipeline(7, input);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+        expect(result.error.details).toEqual({ stages: ["shortlisted"] });
+      }
+      expect(mockRepository.upsertForOrganization).not.toHaveBeenCalled();
+    });
+  });
+});
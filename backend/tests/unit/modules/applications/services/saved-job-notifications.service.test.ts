@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { SavedJobService } from "@/modules/applications/services/saved-job.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import type {
+  JobSaver,
+  SavedJobRepositoryPort,
+} from "@/modules/applications/ports/saved-job-repository.port";
+
+const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+const DAY_MS = 86_400_000;
+
+function makeSaver(overrides: Partial<JobSaver> = {}): JobSaver {
+  return {
+    savedJobId: 30,
+    userId: 5,
+    email: "seeker@example.com",
+    fullName: "Sam Seeker",
+    jobId: 7,
+    jobTitle: "Youth Pastor",
+    applicationDeadline: null,
+    ...overrides,
+  };
+}
+
+describe("SavedJobService saved job notifications", () => {
+  let service: SavedJobService;
+  let repository: SavedJobRepositoryPort;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    repository = {
+      getSavedJobsForUser: vi.fn(),
+      saveJobForUser: vi.fn(),
+      isJobSavedByUser: vi.fn(),
+      countSavedJobs: vi.fn(),
+      getSavedJobIdsForJobs: vi.fn(),
+      unsaveJobForUser: vi.fn(),
+      findSaversOfJob: vi.fn().mockResolvedValue([]),
+      findSaversDueDeadlineReminder: vi.fn().mockResolvedValue([]),
+      markDeadlineRemindersSent: vi.fn().mockResolvedValue(undefined),
+      clearDeadlineReminders: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new SavedJobService(repository, { publish: vi.fn() });
+  });
+
+  const emailCalls = () =>
+    addJobMock.mock.calls.filter(
+      ([queue]) => queue === QUEUE_NAMES.EMAIL_QUEUE,
+    );
+
+  describe("notifySaversOfJobUpdate", () => {
+    it("emails every saver the changed fields", async () => {
+      vi.mocked(repository.findSaversOfJob).mockResolvedValue([
+        makeSaver(),
+        makeSaver({ savedJobId: 31, userId: 6, email: "other@example.com" }),
+      ]);
+
+      const result = await service.notifySaversOfJobUpdate(7, ["title"]);
+
+      expect(result.isSuccess && result.value).toBe(2);
+      expect(emailCalls()).toHaveLength(2);
+      expect(emailCalls()[0]).toEqual([
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendSavedJobUpdate",
+        {
+          userId: 5,
+          email: "seeker@example.com",
+          fullName: "Sam Seeker",
+          jobId: 7,
+          jobTitle: "Youth Pastor",
+          update: "changed",
+          changedFields: ["title"],
+        },
+      ]);
+      expect(repository.clearDeadlineReminders).not.toHaveBeenCalled();
+    });
+
+    it("lets savers be reminded again when the deadline moves", async () => {
+      await service.notifySaversOfJobUpdate(7, ["applicationDeadline"]);
+
+      expect(repository.clearDeadlineReminders).toHaveBeenCalledWith(7);
+    });
+  });
+
+  describe("notifySaversOfJobClosure", () => {
+    it("emails every saver that the job closed", async () => {
+      vi.mocked(repository.findSaversOfJob).mockResolvedValue([makeSaver()]);
+
+      await service.notifySaversOfJobClosure(7);
+
+      expect(emailCalls()).toHaveLength(1);
+      expect(emailCalls()[0]![2]).toMatchObject({ update: "closed" });
+    });
+  });
+
+  describe("sendDeadlineReminders", () => {
+    it("reminds savers within three days of the deadline, once", async () => {
+      const now = new Date("2026-10-19T14:00:00.000Z");
+      const deadline = new Date(now.getTime() + 2 * DAY_MS);
+      vi.mocked(repository.findSaversDueDeadlineReminder).mockResolvedValue([
+        makeSaver({ applicationDeadline: deadline }),
+      ]);
+
+      const result = await service.sendDeadlineReminders(now);
+
+      expect(result.isSuccess && result.value).toBe(1);
+      expect(repository.findSaversDueDeadlineReminder).toHaveBeenCalledWith(
+        now,
+        new Date(now.getTime() + 3 * DAY_MS),
+      );
+      expect(emailCalls()[0]![2]).toMatchObject({
+        update: "deadline",
+        applicationDeadline: deadline.toISOString(),
+      });
+      expect(repository.markDeadlineRemindersSent).toHaveBeenCalledWith([30]);
+    });
+  });
+});
@@ -0,0 +1,375 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ScorecardService } from "@/modules/applications/services/scorecard.service";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "@shared/errors";
+import type { ScorecardRecord } from "@/modules/applications/ports/scorecard-repository.port";
+import type { SubmitScorecardInput } from "@/validations/scorecard.validation";
+
+describe("ScorecardService", () => {
+  let service: ScorecardService;
+  let mockRepository: any;
+  let mockApplicationsRepository: any;
+
+  const template = {
+    id: 1,
+    jobId: 20,
+    ratingScaleMax: 5,
+    competencies: [
+      { id: 11, name: "Communication", description: null, position: 0 },
+      { id: 12, name: "Teamwork", description: null, position: 1 },
+    ],
+  };
+
+  const scorecard = (
+    memberId: number,
+    overrides: Partial<ScorecardRecord> = {},
+  ): ScorecardRecord => ({
+    id: memberId * 10,
+    reviewer: {
+      memberId,
+      userId: memberId + 100,
+      fullName: `Member ${memberId}`,
+    },
+    recommendation: null,
+    comments: null,
+    ratings: [],
+    submittedAt: null,
+    ...overrides,
+  });
+
+  const submittedScorecard = (
+    memberId: number,
+    ratings: [number, number],
+    recommendation: ScorecardRecord["recommendation"],
+  ) =>
+    scorecard(memberId, {
+      recommendation,
+      comments: "Solid candidate",
+      ratings: [
+        { competencyId: 11, rating: ratings[0] },
+        { competencyId: 12, rating: ratings[1] },
+      ],
+      submittedAt: new Date("2026-03-01T10:00:00Z"),
+    });
+
+  const submission: SubmitScorecardInput = {
+    ratings: [
+      { competencyId: 11, rating: 4 },
+      { competencyId: 12, rating: 5 },
+    ],
+    recommendation: "yes",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      jobBelongsToOrganization: vi.fn().mockResolvedValue(true),
+      findTemplateByJobId: vi.fn().mockResolvedValue(template),
+      upsertTemplate: vi.fn(),
+      hasSubmittedScorecards: vi.fn().mockResolvedValue(false),
+      findScorecardsByApplicationId: vi.fn().mockResolvedValue([]),
+      findActiveMemberIds: vi.fn(),
+      findMemberIdForUser: vi.fn().mockResolvedValue(null),
+      assignReviewers: vi.fn(),
+      submitScorecard: vi.fn(),
+    };
+
+    mockApplicationsRepository = {
+      getJobApplicationForOrganization: vi.fn().mockResolvedValue({ id: 30 }),
+    };
+
+    service = new ScorecardService(mockRepository, mockApplicationsRepository);
+  });
+
+  describe("updateTemplate", () => {
+    const input = {
+      competencies: [{ name: "Communication" }],
+      ratingScaleMax: 5,
+    };
+
+    it("saves the template of the organization's job", async () => {
+      mockRepository.upsertTemplate.mockResolvedValue(template);
+
+      const result = await service.updateTemplate(7, 20, input);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.upsertTemplate).toHaveBeenCalledWith(20, input);
+    });
+
+    it("returns NotFoundError when the job belongs to another organization", async () => {
+      mockRepository.jobBelongsToOrganization.mockResolvedValue(false);
+
+      const result = await service.updateTemplate(7, 20, input);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(mockRepository.upsertTemplate).not.toHaveBeenCalled();
+    });
+
+    it("returns ConflictError once scorecards have been submitted", async () => {
+      mockRepository.hasSubmittedScorecards.mockResolvedValue(true);
+
+      const result = await service.updateTemplate(7, 20, input);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(ConflictError);
+      expect(mockRepository.upsertTemplate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("assignReviewers", () => {
+    it("rejects members who are not active in the organization", async () => {
+      mockRepository.findActiveMemberIds.mockResolvedValue([1]);
+
+      const result = await service.assignReviewers(7, 20, 30, 5, [1, 2, 2]);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+        expect(result.error.details).toEqual({ invalidMemberIds: [2] });
+      }
+      expect(mockRepository.assignReviewers).not.toHaveBeenCalled();
+    });
+
+    it("assigns each member once", async () => {
+      mockRepository.findActiveMemberIds.mockResolvedValue([1, 2]);
+      mockRepository.assignReviewers.mockResolvedValue([
+        scorecard(1),
+        scorecard(2),
+      ]);
+
+      const result = await service.assignReviewers(7, 20, 30, 5, [1, 2, 2]);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.assignReviewers).toHaveBeenCalledWith(
+        30,
+        [1, 2],
+        5,
+      );
+    });
+  });
+
+  describe("getScorecards", () => {
+    it("hides other reviewers' scores until the viewer submits", async () => {
+      mockRepository.findScorecardsByApplicationId.mockResolvedValue([
+        scorecard(1),
+        submittedScorecard(2, [4, 5], "yes"),
+      ]);
+      mockRepository.findMemberIdForUser.mockResolvedValue(1);
+
+      const result = await service.getScorecards(7, 20, 30, 101);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        const other = result.value.find((s) => s.reviewer.memberId === 2)!;
+        expect(other.status).toBe("submitted");
+        expect(other.ratings).toBeNull();
+        expect(other.recommendation).toBeNull();
+        expect(other.comments).toBeNull();
+      }
+    });
+
+    it("shows all submitted scores once the viewer has submitted", async () => {
+      mockRepository.findScorecardsByApplicationId.mockResolvedValue([
+        submittedScorecard(1, [3, 3], "no"),
+        submittedScorecard(2, [4, 5], "yes"),
+      ]);
+      mockRepository.findMemberIdForUser.mockResolvedValue(1);
+
+      const result = await service.getScorecards(7, 20, 30, 101);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        const other = result.value.find((s) => s.reviewer.memberId === 2)!;
+        expect(other.recommendation).toBe("yes");
+        expect(other.ratings).toHaveLength(2);
+      }
+    });
+
+    it("shows submitted scores to members who are not reviewing", async () => {
+      mockRepository.findScorecardsByApplicationId.mockResolvedValue([
+        submittedScorecard(2, [4, 5], "yes"),
+      ]);
+      mockRepository.findMemberIdForUser.mockResolvedValue(9);
+
+      const result = await service.getScorecards(7, 20, 30, 109);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) expect(result.value[0]!.ratings).toHaveLength(2);
+    });
+
+    it("propagates NotFoundError for applications outside the organization", async () => {
+      mockApplicationsRepository.getJobApplicationForOrganization.mockRejectedValue(
+        new NotFoundError("Application", 30),
+      );
+
+      const result = await service.getScorecards(7, 20, 30, 101);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe("submitScorecard", () => {
+    beforeEach(() => {
+      mockRepository.findScorecardsByApplicationId.mockResolvedValue([
+        scorecard(1),
+      ]);
+      mockRepository.findMemberIdForUser.mockResolvedValue(1);
+    });
+
+    it("stores the viewer's scorecard", async () => {
+      mockRepository.submitScorecard.mockResolvedValue(
+        submittedScorecard(1, [4, 5], "yes"),
+      );
+
+      const result = await service.submitScorecard(7, 20, 30, 101, submission);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.status).toBe("submitted");
+        expect(result.value.recommendation).toBe("yes");
+      }
+      expect(mockRepository.submitScorecard).toHaveBeenCalledWith(
+        10,
+        submission,
+      );
+    });
+
+    it("returns ValidationError when the job has no template", async () => {
+      mockRepository.findTemplateByJobId.mockResolvedValue(null);
+
+      const result = await service.submitScorecard(7, 20, 30, 101, submission);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure)
+        expect(result.error).toBeInstanceOf(ValidationError);
+    });
+
+    it("returns ForbiddenError when the viewer is not assigned", async () => {
+      mockRepository.findMemberIdForUser.mockResolvedValue(9);
+
+      const result = await service.submitScorecard(7, 20, 30, 109, submission);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(ForbiddenError);
+      expect(mockRepository.submitScorecard).not.toHaveBeenCalled();
+    });
+
+    it("returns ConflictError when the scorecard was already submitted", async () => {
+      mockRepository.findScorecardsByApplicationId.mockResolvedValue([
+        submittedScorecard(1, [3, 3], "no"),
+      ]);
+
+      const result = await service.submitScorecard(7, 20, 30, 101, submission);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(ConflictError);
+      expect(mockRepository.submitScorecard).not.toHaveBeenCalled();
+    });
+
+    it("returns ConflictError when a concurrent submission got there first", async () => {
+      mockRepository.submitScorecard.mockResolvedValue(null);
+
+      const result = await service.submitScorecard(7, 20, 30, 101, submission);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(ConflictError);
+    });
+
+    it("requires every competency to be rated", async () => {
+      const result = await service.submitScorecard(7, 20, 30, 101, {
+        ...submission,
+        ratings: [{ competencyId: 11, rating: 4 }],
+      });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+        expect(result.error.details).toEqual({
+          unknownCompetencyIds: [],
+          missingCompetencyIds: [12],
+        });
+      }
+    });
+
+    it("rejects ratings above the template's scale", async () => {
+      const result = await service.submitScorecard(7, 20, 30, 101, {
+        ...submission,
+        ratings: [
+          { competencyId: 11, rating: 6 },
+          { competencyId: 12, rating: 5 },
+        ],
+      });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+        expect(result.error.details).toEqual({ competencyIds: [11] });
+      }
+    });
+  });
+
+  describe("getSummary", () => {
+    it("aggregates ratings and recommendations of submitted scorecards", async () => {
+      mockRepository.findScorecardsByApplicationId.mockResolvedValue([
+        submittedScorecard(1, [3, 4], "no"),
+        submittedScorecard(2, [4, 5], "strong_yes"),
+        scorecard(3),
+      ]);
+      mockRepository.findMemberIdForUser.mockResolvedValue(1);
+
+      const result = await service.getSummary(7, 20, 30, 101);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toEqual({
+          ratingScaleMax: 5,
+          reviewersAssigned: 3,
+          scorecardsSubmitted: 2,
+          resultsVisible: true,
+          averageRating: 4,
+          competencies: [
+            {
+              competencyId: 11,
+              name: "Communication",
+              averageRating: 3.5,
+              ratingsCount: 2,
+            },
+            {
+              competencyId: 12,
+              name: "Teamwork",
+              averageRating: 4.5,
+              ratingsCount: 2,
+            },
+          ],
+          recommendations: { strong_no: 0, no: 1, yes: 0, strong_yes: 1 },
+        });
+      }
+    });
+
+    it("withholds results from reviewers who have not submitted", async () => {
+      mockRepository.findScorecardsByApplicationId.mockResolvedValue([
+        submittedScorecard(1, [3, 4], "no"),
+        scorecard(3),
+      ]);
+      mockRepository.findMemberIdForUser.mockResolvedValue(3);
+
+      const result = await service.getSummary(7, 20, 30, 103);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.resultsVisible).toBe(false);
+        expect(result.value.scorecardsSubmitted).toBe(1);
+        expect(result.value.averageRating).toBeNull();
+        expect(result.value.competencies).toBeNull();
+        expect(result.value.recommendations).toBeNull();
+      }
+    });
+  });
+});
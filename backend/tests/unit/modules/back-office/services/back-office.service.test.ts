@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { BackOfficeService } from "@/modules/back-office/services/back-office.service";
+import { DatabaseError, NotFoundError, ValidationError } from "@shared/errors";
+
+const organization = (overrides: Record<string, unknown> = {}) => ({
+  id: 3,
+  name: "Grace Church",
+  city: "Austin",
+  state: "TX",
+  status: "active",
+  subscriptionTier: "free",
+  subscriptionStatus: "active",
+  createdAt: new Date(),
+  url: "https://grace.example.com",
+  subscriptionEndDate: null,
+  memberCount: 1,
+  members: [],
+  jobCounts: { published: 2 },
+  ...overrides,
+});
+
+const emptyPage = {
+  items: [],
+  pagination: {
+    total: 0,
+    page: 2,
+    limit: 10,
+    totalPages: 0,
+    hasNext: false,
+    hasPrevious: true,
+    nextPage: null,
+    previousPage: 1,
+  },
+};
+
+describe("BackOfficeService", () => {
+  let service: BackOfficeService;
+  let mockRepository: any;
+  let mockJobsIndex: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      searchUsers: vi.fn().mockResolvedValue(emptyPage),
+      findUserDetail: vi.fn().mockResolvedValue(null),
+      searchOrganizations: vi.fn().mockResolvedValue(emptyPage),
+      findOrganizationDetail: vi.fn().mockResolvedValue(organization()),
+      updateOrganizationStatus: vi.fn().mockResolvedValue(undefined),
+      searchJobs: vi.fn().mockResolvedValue(emptyPage),
+      findJob: vi.fn().mockResolvedValue(null),
+      searchApplications: vi.fn().mockResolvedValue(emptyPage),
+      findApplication: vi.fn().mockResolvedValue(null),
+    };
+
+    mockJobsIndex = {
+      reindexOrganizationJobs: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new BackOfficeService(mockRepository, mockJobsIndex);
+  });
+
+  describe("search", () => {
+    it("passes filters and pagination to the repository separately", async () => {
+      const result = await service.searchUsers({
+        page: 2,
+        limit: 10,
+        q: "casey",
+        platformRole: "staff",
+      });
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.searchUsers).toHaveBeenCalledWith(
+        { q: "casey", platformRole: "staff" },
+        { page: 2, limit: 10 },
+      );
+    });
+
+    it("reports repository failures as database errors", async () => {
+      mockRepository.searchJobs.mockRejectedValue(new Error("boom"));
+
+      const result = await service.searchJobs({ page: 1, limit: 25 });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(DatabaseError);
+      }
+    });
+  });
+
+  describe("inspection", () => {
+    it.each([
+      ["getUser", (s: BackOfficeService) => s.getUser(21)],
+      ["getJob", (s: BackOfficeService) => s.getJob(7)],
+      ["getApplication", (s: BackOfficeService) => s.getApplication(9)],
+    ])("%s reports missing records as not found", async (_, inspect) => {
+      const result = await inspect(service);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("suspendOrganization", () => {
+    it("suspends an active organization", async () => {
+      const result = await service.suspendOrganization(3);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.status).toBe("suspended");
+      }
+      expect(mockRepository.updateOrganizationStatus).toHaveBeenCalledWith(
+        3,
+        "suspended",
+      );
+      expect(mockJobsIndex.reindexOrganizationJobs).toHaveBeenCalledWith(3);
+    });
+
+    it("keeps the suspension when reindexing its jobs fails", async () => {
+      mockJobsIndex.reindexOrganizationJobs.mockRejectedValue(
+        new DatabaseError("Failed to reindex organization jobs"),
+      );
+
+      const result = await service.suspendOrganization(3);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.updateOrganizationStatus).toHaveBeenCalledWith(
+        3,
+        "suspended",
+      );
+    });
+
+    it("rejects an organization that is already suspended", async () => {
+      mockRepository.findOrganizationDetail.mockResolvedValue(
+        organization({ status: "suspended" }),
+      );
+
+      const result = await service.suspendOrganization(3);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+      expect(mockRepository.updateOrganizationStatus).not.toHaveBeenCalled();
+      expect(mockJobsIndex.reindexOrganizationJobs).not.toHaveBeenCalled();
+    });
+
+    it("does not resurrect a deleted organization", async () => {
+      mockRepository.findOrganizationDetail.mockResolvedValue(
+        organization({ status: "deleted" }),
+      );
+
+      const result = await service.reinstateOrganization(3);
+
+      expect(result.isFailure).toBe(true);
+      expect(mockRepository.updateOrganizationStatus).not.toHaveBeenCalled();
+    });
+
+    it("reports a missing organization as not found", async () => {
+      mockRepository.findOrganizationDetail.mockResolvedValue(null);
+
+      const result = await service.suspendOrganization(3);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("reinstateOrganization", () => {
+    it("reinstates a suspended organization", async () => {
+      mockRepository.findOrganizationDetail.mockResolvedValue(
+        organization({ status: "suspended" }),
+      );
+
+      const result = await service.reinstateOrganization(3);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.status).toBe("active");
+      }
+      expect(mockRepository.updateOrganizationStatus).toHaveBeenCalledWith(
+        3,
+        "active",
+      );
+      expect(mockJobsIndex.reindexOrganizationJobs).toHaveBeenCalledWith(3);
+    });
+  });
+});
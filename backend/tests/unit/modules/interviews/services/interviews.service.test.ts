@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import {
+  INTERVIEW_REMINDER_LEAD_TIME_MS,
+  InterviewsService,
+} from "@/modules/interviews/services/interviews.service";
+import { DomainEventType } from "@shared/events";
+import { NotFoundError, ValidationError } from "@shared/errors";
+
+describe("InterviewsService", () => {
+  let service: InterviewsService;
+  let mockRepository: any;
+  let mockEventBus: any;
+  let mockStageQuery: any;
+
+  const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+  const startsAt = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+  const endsAt = new Date(startsAt.getTime() + 60 * 60 * 1000);
+
+  const context = {
+    applicationId: 100,
+    jobId: 1,
+    status: "interviewing",
+    applicantId: 5,
+    applicantName: "Jane Applicant",
+    applicantEmail: "jane@test.com",
+    jobTitle: "Youth Pastor",
+    organizationId: 10,
+    organizationName: "Grace Church",
+  };
+
+  const interviewer = {
+    memberId: 3,
+    userId: 9,
+    fullName: "Sam Recruiter",
+    email: "sam@test.com",
+  };
+
+  const proposed = {
+    id: 40,
+    applicationId: 100,
+    organizationId: 10,
+    status: "proposed" as const,
+    locationType: "video" as const,
+    location: null,
+    meetingUrl: "https://meet.example.com/abc",
+    notes: "Bring a sermon outline",
+    scheduledStart: null,
+    scheduledEnd: null,
+    sequence: 0,
+    cancellationReason: null,
+    slots: [{ id: 1, startsAt, endsAt, isSelected: false }],
+    interviewers: [interviewer],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const scheduled = {
+    ...proposed,
+    status: "scheduled" as const,
+    scheduledStart: startsAt,
+    scheduledEnd: endsAt,
+    sequence: 1,
+    slots: [{ id: 1, startsAt, endsAt, isSelected: true }],
+  };
+
+  const proposal = {
+    slots: [{ startsAt, endsAt }],
+    interviewerIds: [3],
+    locationType: "video" as const,
+    meetingUrl: "https://meet.example.com/abc",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findApplicationContext: vi.fn().mockResolvedValue(context),
+      findActiveMembers: vi.fn().mockResolvedValue([interviewer]),
+      createInterview: vi.fn().mockResolvedValue(proposed),
+      findById: vi.fn().mockResolvedValue(proposed),
+      findByApplicationId: vi.fn().mockResolvedValue([proposed]),
+      selectSlot: vi.fn().mockResolvedValue(scheduled),
+      replaceSlots: vi.fn().mockResolvedValue(proposed),
+      cancelInterview: vi.fn(),
+    };
+    mockEventBus = { publish: vi.fn() };
+    mockStageQuery = {
+      stageAllowsInterviews: vi.fn().mockResolvedValue(true),
+    };
+
+    service = new InterviewsService(
+      mockRepository,
+      mockEventBus,
+      mockStageQuery,
+    );
+  });
+
+  describe("proposeInterview", () => {
+    it("creates the interview and emails the candidate the proposed slots", async () => {
+      const result = await service.proposeInterview(10, 1, 100, 9, proposal);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.createInterview).toHaveBeenCalledWith(
+        expect.objectContaining({
+          applicationId: 100,
+          organizationId: 10,
+          createdBy: 9,
+          interviewerIds: [3],
+          location: null,
+        }),
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendInterviewProposal",
+        expect.objectContaining({ email: "jane@test.com", rescheduled: false }),
+      );
+    });
+
+    it("rejects applications in a stage that does not allow interviews", async () => {
+      mockRepository.findApplicationContext.mockResolvedValue({
+        ...context,
+        status: "reviewed",
+      });
+      mockStageQuery.stageAllowsInterviews.mockResolvedValue(false);
+
+      const result = await service.proposeInterview(10, 1, 100, 9, proposal);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure)
+        expect(result.error).toBeInstanceOf(ValidationError);
+      expect(mockStageQuery.stageAllowsInterviews).toHaveBeenCalledWith(
+        10,
+        "reviewed",
+      );
+      expect(mockRepository.createInterview).not.toHaveBeenCalled();
+    });
+
+    it("allows interviews in a custom stage of the organization's pipeline", async () => {
+      mockRepository.findApplicationContext.mockResolvedValue({
+        ...context,
+        status: "panel_interview",
+      });
+
+      const result = await service.proposeInterview(10, 1, 100, 9, proposal);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockStageQuery.stageAllowsInterviews).toHaveBeenCalledWith(
+        10,
+        "panel_interview",
+      );
+      expect(mockRepository.createInterview).toHaveBeenCalled();
+    });
+
+    it("rejects interviewers who are not active members", async () => {
+      mockRepository.findActiveMembers.mockResolvedValue([]);
+
+      const result = await service.proposeInterview(10, 1, 100, 9, proposal);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure)
+        expect(result.error).toBeInstanceOf(ValidationError);
+      expect(mockRepository.createInterview).not.toHaveBeenCalled();
+    });
+
+    it("returns NotFoundError for an application of another organization", async () => {
+      const result = await service.proposeInterview(11, 1, 100, 9, proposal);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe("selectSlot", () => {
+    it("books the slot, notifies every attendee and schedules the reminder", async () => {
+      const result = await service.selectSlot(100, 40, 5, 1);
+
+      expect(result.isSuccess).toBe(true);
+      if (!result.isSuccess) return;
+      expect(result.value).not.toHaveProperty("sequence");
+      expect(result.value.interviewers).toEqual([
+        { fullName: "Sam Recruiter" },
+      ]);
+
+      const scheduledEmails = addJobMock.mock.calls.filter(
+        ([, jobName]) => jobName === "sendInterviewScheduled",
+      );
+      expect(scheduledEmails.map(([, , payload]) => payload.email)).toEqual([
+        "jane@test.com",
+        "sam@test.com",
+      ]);
+
+      const reminder = addJobMock.mock.calls.find(
+        ([queueName]) => queueName === QUEUE_NAMES.INTERVIEW_REMINDER_QUEUE,
+      );
+      expect(reminder).toBeDefined();
+      expect(reminder![2]).toEqual({
+        interviewId: 40,
+        scheduledStart: startsAt.toISOString(),
+      });
+      const delay = reminder![3].delay;
+      const expected =
+        startsAt.getTime() - Date.now() - INTERVIEW_REMINDER_LEAD_TIME_MS;
+      expect(Math.abs(delay - expected)).toBeLessThan(5000);
+    });
+
+    it("skips the reminder for interviews less than a day away", async () => {
+      const soon = new Date(Date.now() + 2 * 60 * 60 * 1000);
+      mockRepository.findById.mockResolvedValue({
+        ...proposed,
+        slots: [{ id: 1, startsAt: soon, endsAt, isSelected: false }],
+      });
+      mockRepository.selectSlot.mockResolvedValue({
+        ...scheduled,
+        scheduledStart: soon,
+      });
+
+      await service.selectSlot(100, 40, 5, 1);
+
+      expect(addJobMock).not.toHaveBeenCalledWith(
+        QUEUE_NAMES.INTERVIEW_REMINDER_QUEUE,
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it("returns NotFoundError for another user's application", async () => {
+      const result = await service.selectSlot(100, 40, 6, 1);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(mockRepository.selectSlot).not.toHaveBeenCalled();
+    });
+
+    it("rejects slots that have already started", async () => {
+      const past = new Date(Date.now() - 60 * 1000);
+      mockRepository.findById.mockResolvedValue({
+        ...proposed,
+        slots: [{ id: 1, startsAt: past, endsAt, isSelected: false }],
+      });
+
+      const result = await service.selectSlot(100, 40, 5, 1);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure)
+        expect(result.error).toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe("rescheduleInterview", () => {
+    it("replaces the slots and publishes InterviewRescheduled", async () => {
+      mockRepository.findById.mockResolvedValue(scheduled);
+
+      const result = await service.rescheduleInterview(
+        10,
+        1,
+        100,
+        40,
+        9,
+        [{ startsAt, endsAt }],
+        "Panel unavailable",
+      );
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: DomainEventType.INTERVIEW_RESCHEDULED,
+          payload: expect.objectContaining({
+            interviewId: 40,
+            rescheduledBy: 9,
+            previousStart: startsAt.toISOString(),
+            reason: "Panel unavailable",
+          }),
+        }),
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendInterviewProposal",
+        expect.objectContaining({ rescheduled: true }),
+      );
+    });
+
+    it("rejects cancelled interviews", async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...proposed,
+        status: "cancelled",
+      });
+
+      const result = await service.rescheduleInterview(10, 1, 100, 40, 9, [
+        { startsAt, endsAt },
+      ]);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure)
+        expect(result.error).toBeInstanceOf(ValidationError);
+      expect(mockRepository.replaceSlots).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cancelInterview", () => {
+    it("cancels the interview and publishes InterviewCancelled", async () => {
+      mockRepository.findById.mockResolvedValue(scheduled);
+      mockRepository.cancelInterview.mockResolvedValue({
+        ...scheduled,
+        status: "cancelled",
+        sequence: 2,
+      });
+
+      const result = await service.cancelInterview(10, 1, 100, 40, 9);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.cancelInterview).toHaveBeenCalledWith(40, null);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: DomainEventType.INTERVIEW_CANCELLED,
+          payload: expect.objectContaining({
+            cancelledBy: 9,
+            scheduledStart: startsAt.toISOString(),
+          }),
+        }),
+      );
+    });
+
+    it("returns NotFoundError for an interview of another application", async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...proposed,
+        applicationId: 101,
+      });
+
+      const result = await service.cancelInterview(10, 1, 100, 40, 9);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(mockRepository.cancelInterview).not.toHaveBeenCalled();
+    });
+  });
+});
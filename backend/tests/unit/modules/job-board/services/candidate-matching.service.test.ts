@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { CandidateMatchingService } from "@/modules/job-board/services/candidate-matching.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { NotFoundError } from "@shared/errors";
+
+const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+function makeJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7,
+    title: "Worship Leader",
+    employerId: 3,
+    status: "published",
+    isRemote: false,
+    city: "Austin",
+    state: "TX",
+    country: "United States",
+    zipcode: 78701,
+    skills: ["Guitar", "Vocals"],
+    workAreas: ["Worship"],
+    ...overrides,
+  };
+}
+
+function makeProfile(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "21",
+    userId: 21,
+    name: "Casey Candidate",
+    headline: "Worship Pastor",
+    skills: ["Guitar"],
+    location: "Austin, Texas, United States",
+    yearsOfExperience: 4,
+    openToWork: true,
+    isProfilePublic: true,
+    intent: "seeker",
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("CandidateMatchingService", () => {
+  let service: CandidateMatchingService;
+  let mockJobBoardRepository: any;
+  let mockTypesenseProfileService: any;
+  let mockOrgMembershipForJob: any;
+  let mockGeocoder: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockJobBoardRepository = {
+      findJobByIdWithSkills: vi.fn().mockResolvedValue(makeJob()),
+      hasCandidateMatches: vi.fn().mockResolvedValue(false),
+      saveCandidateMatches: vi.fn().mockResolvedValue(undefined),
+    };
+    mockTypesenseProfileService = {
+      searchProfilesCollection: vi
+        .fn()
+        .mockResolvedValue({ hits: [], found: 0, page: 1 }),
+    };
+    mockOrgMembershipForJob = {
+      findJobPostingTeam: vi
+        .fn()
+        .mockResolvedValue([
+          { userId: 11, email: "recruiter@church.org", fullName: "Recruiter" },
+        ]),
+    };
+    mockGeocoder = {
+      geocode: vi.fn().mockResolvedValue({ lat: 30.27, lng: -97.74 }),
+    };
+
+    service = new CandidateMatchingService(
+      mockJobBoardRepository,
+      mockTypesenseProfileService,
+      mockOrgMembershipForJob,
+      mockGeocoder,
+    );
+  });
+
+  const givenCandidates = (...profiles: Record<string, unknown>[]) => {
+    mockTypesenseProfileService.searchProfilesCollection.mockResolvedValue({
+      hits: profiles.map(makeProfile),
+      found: profiles.length,
+      page: 1,
+    });
+  };
+
+  it("searches open-to-work public seekers near the job by its skills and work areas", async () => {
+    await service.matchCandidatesForJob(7);
+
+    const [params] =
+      mockTypesenseProfileService.searchProfilesCollection.mock.calls[0];
+    expect(params.q).toBe("Guitar Vocals Worship");
+    expect(params.queryBy).toBe("skills,headline");
+    expect(params.filterBy).toContain("isProfilePublic:true");
+    expect(params.filterBy).toContain("intent:seeker");
+    expect(params.filterBy).toContain("openToWork:true");
+    expect(params.filterBy).toContain("geopoint:(30.27, -97.74, 50 mi)");
+  });
+
+  it("does not limit remote jobs by distance", async () => {
+    mockJobBoardRepository.findJobByIdWithSkills.mockResolvedValue(
+      makeJob({ isRemote: true }),
+    );
+
+    await service.matchCandidatesForJob(7);
+
+    expect(mockGeocoder.geocode).not.toHaveBeenCalled();
+    const [params] =
+      mockTypesenseProfileService.searchProfilesCollection.mock.calls[0];
+    expect(params.filterBy).not.toContain("geopoint");
+  });
+
+  it("stores the best matches first and emails the shortlist to the posting team", async () => {
+    givenCandidates(
+      { userId: 21, skills: ["Guitar"], headline: "Teacher" },
+      { userId: 22, skills: ["Guitar", "Vocals"], headline: "Worship Pastor" },
+      { userId: 23, skills: ["Accounting"], headline: "Bookkeeper" },
+    );
+
+    const result = await service.matchCandidatesForJob(7);
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value).toEqual([
+        { userId: 22, matchScore: 1 },
+        { userId: 21, matchScore: 0.3333 },
+      ]);
+    }
+    expect(mockJobBoardRepository.saveCandidateMatches).toHaveBeenCalledWith(
+      7,
+      [
+        { userId: 22, matchScore: 1 },
+        { userId: 21, matchScore: 0.3333 },
+      ],
+    );
+    expect(mockOrgMembershipForJob.findJobPostingTeam).toHaveBeenCalledWith(3);
+    expect(addJobMock).toHaveBeenCalledWith(
+      QUEUE_NAMES.EMAIL_QUEUE,
+      "sendMatchedCandidates",
+      expect.objectContaining({
+        userId: 11,
+        jobId: 7,
+        jobTitle: "Worship Leader",
+        searchSkills: ["Guitar", "Vocals"],
+        candidates: [
+          expect.objectContaining({
+            matchedTerms: ["Guitar", "Vocals", "Worship"],
+          }),
+          expect.objectContaining({ matchedTerms: ["Guitar"] }),
+        ],
+      }),
+    );
+  });
+
+  it("skips jobs that were already matched", async () => {
+    mockJobBoardRepository.hasCandidateMatches.mockResolvedValue(true);
+
+    const result = await service.matchCandidatesForJob(7);
+
+    expect(result.isSuccess).toBe(true);
+    expect(
+      mockTypesenseProfileService.searchProfilesCollection,
+    ).not.toHaveBeenCalled();
+    expect(addJobMock).not.toHaveBeenCalled();
+  });
+
+  it("skips jobs that are no longer published", async () => {
+    mockJobBoardRepository.findJobByIdWithSkills.mockResolvedValue(
+      makeJob({ status: "paused" }),
+    );
+
+    await service.matchCandidatesForJob(7);
+
+    expect(
+      mockTypesenseProfileService.searchProfilesCollection,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("sends nothing when no candidate matches", async () => {
+    givenCandidates({ skills: ["Accounting"], headline: "Bookkeeper" });
+
+    const result = await service.matchCandidatesForJob(7);
+
+    expect(result.isSuccess).toBe(true);
+    expect(mockJobBoardRepository.saveCandidateMatches).not.toHaveBeenCalled();
+    expect(addJobMock).not.toHaveBeenCalled();
+  });
+
+  it("surfaces a missing job", async () => {
+    mockJobBoardRepository.findJobByIdWithSkills.mockRejectedValue(
+      new NotFoundError("Job with Id: 7 not found"),
+    );
+
+    const result = await service.matchCandidatesForJob(7);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) {
+      expect(result.error).toBeInstanceOf(NotFoundError);
+    }
+  });
+});
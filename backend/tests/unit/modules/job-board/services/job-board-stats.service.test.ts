@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { JobBoardService } from "@/modules/job-board/services/job-board.service";
+import { NotFoundError } from "@shared/errors";
+
+describe("JobBoardService job analytics", () => {
+  let service: JobBoardService;
+  let mockJobBoardRepository: any;
+  let mockJobInsightsRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockJobBoardRepository = {
+      findById: vi.fn().mockResolvedValue({ id: 7, employerId: 3 }),
+    };
+    mockJobInsightsRepository = {
+      incrementJobViews: vi.fn().mockResolvedValue(undefined),
+      recordJobView: vi.fn().mockResolvedValue(undefined),
+      recordJobActivity: vi.fn().mockResolvedValue(undefined),
+      getJobInsightByOrganizationId: vi.fn().mockResolvedValue({
+        total: 2,
+        active: 1,
+        inactive: 1,
+        totalViews: 40,
+        totalApplications: 3,
+      }),
+      getJobInsights: vi.fn().mockResolvedValue({
+        daily: [
+          {
+            date: "2026-03-02",
+            views: 6,
+            uniqueViewers: 4,
+            saves: 1,
+            applyStarts: 2,
+            applications: 1,
+          },
+        ],
+        jobs: [
+          {
+            jobId: 8,
+            title: "Designer",
+            isActive: false,
+            views: 2,
+            uniqueViewers: 0,
+            saves: 0,
+            applyStarts: 0,
+            applications: 0,
+          },
+          {
+            jobId: 7,
+            title: "Engineer",
+            isActive: true,
+            views: 4,
+            uniqueViewers: 4,
+            saves: 1,
+            applyStarts: 2,
+            applications: 1,
+          },
+        ],
+      }),
+    };
+
+    service = new JobBoardService(
+      mockJobBoardRepository,
+      mockJobInsightsRepository,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  describe("getEmployerJobStats", () => {
+    it("zero-fills one bucket per day of the range", async () => {
+      const result = await service.getEmployerJobStats(3, {
+        from: "2026-03-01",
+        to: "2026-03-03",
+      });
+
+      expect(result.isSuccess).toBe(true);
+      if (!result.isSuccess) return;
+
+      expect(result.value.range).toEqual({
+        from: "2026-03-01",
+        to: "2026-03-03",
+      });
+      expect(result.value.daily.map((bucket) => bucket.date)).toEqual([
+        "2026-03-01",
+        "2026-03-02",
+        "2026-03-03",
+      ]);
+      expect(result.value.daily[0]).toMatchObject({ views: 0, saves: 0 });
+      expect(result.value.daily[1]).toMatchObject({ views: 6, saves: 1 });
+      expect(mockJobInsightsRepository.getJobInsights).toHaveBeenCalledWith(3, {
+        from: "2026-03-01",
+        to: "2026-03-03",
+        jobId: undefined,
+      });
+    });
+
+    it("computes totals, the funnel and per-job conversion", async () => {
+      const result = await service.getEmployerJobStats(3, {
+        from: "2026-03-01",
+        to: "2026-03-03",
+        jobId: "7",
+      });
+
+      expect(result.isSuccess).toBe(true);
+      if (!result.isSuccess) return;
+
+      expect(result.value).toMatchObject({
+        total: 2,
+        totalViews: 40,
+        totals: { views: 6, uniqueViewers: 4, applyStarts: 2 },
+        funnel: {
+          viewers: 4,
+          applyStarts: 2,
+          applications: 1,
+          applyStartRate: 0.5,
+          completionRate: 0.5,
+          conversionRate: 0.25,
+        },
+      });
+      expect(result.value.jobs.map((job) => job.jobId)).toEqual([7, 8]);
+      expect(result.value.jobs[1]!.conversionRate).toBeNull();
+      expect(
+        mockJobInsightsRepository.getJobInsights.mock.calls[0][1].jobId,
+      ).toBe(7);
+    });
+
+    it("defaults to the 30 days ending today", async () => {
+      const result = await service.getEmployerJobStats(3);
+
+      expect(result.isSuccess).toBe(true);
+      if (!result.isSuccess) return;
+
+      expect(result.value.daily).toHaveLength(30);
+      expect(result.value.range.to).toBe(new Date().toISOString().slice(0, 10));
+    });
+  });
+
+  describe("incrementJobViews", () => {
+    it("records the view against the posting's organization and day", async () => {
+      const result = await service.incrementJobViews(7, "user:5");
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockJobInsightsRepository.incrementJobViews).toHaveBeenCalledWith(
+        7,
+      );
+      expect(mockJobInsightsRepository.recordJobView).toHaveBeenCalledWith(
+        7,
+        3,
+        "user:5",
+        new Date().toISOString().slice(0, 10),
+      );
+    });
+  });
+
+  describe("recordApplyStart", () => {
+    it("returns NotFoundError for an unknown job", async () => {
+      mockJobInsightsRepository.recordJobActivity.mockRejectedValue(
+        new NotFoundError("Job", 99),
+      );
+
+      const result = await service.recordApplyStart(99);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+    });
+  });
+});
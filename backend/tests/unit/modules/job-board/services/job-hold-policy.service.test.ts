@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { JobHoldPolicyService } from "@/modules/job-board/services/job-hold-policy.service";
+
+const DAY_MS = 86_400_000;
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  employerId: 3,
+  title: "Youth Pastor",
+  description: "Lead our youth ministry on Sunday evenings.",
+  ...overrides,
+});
+
+describe("JobHoldPolicyService", () => {
+  let service: JobHoldPolicyService;
+  let mockModerationRepository: any;
+  let mockOrgMembershipForJob: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockModerationRepository = {
+      findHoldRules: vi.fn().mockResolvedValue([]),
+      findPendingReviewId: vi.fn().mockResolvedValue(null),
+      createReview: vi.fn().mockResolvedValue(4),
+    };
+    mockOrgMembershipForJob = {
+      findOrganizationCreatedAt: vi
+        .fn()
+        .mockResolvedValue(new Date(Date.now() - 90 * DAY_MS)),
+    };
+
+    service = new JobHoldPolicyService(
+      mockModerationRepository,
+      mockOrgMembershipForJob,
+    );
+  });
+
+  describe("evaluate", () => {
+    it("lets an ordinary job from an established organization through", async () => {
+      expect(await service.evaluate(job())).toEqual([]);
+    });
+
+    it("holds jobs from organizations created recently", async () => {
+      mockOrgMembershipForJob.findOrganizationCreatedAt.mockResolvedValue(
+        new Date(Date.now() - 2 * DAY_MS),
+      );
+
+      expect(await service.evaluate(job())).toEqual([
+        { rule: "new_organization", detail: "Organization created 2 days ago" },
+      ]);
+    });
+
+    it("holds jobs asking candidates to pay", async () => {
+      const reasons = await service.evaluate(
+        job({
+          description: "Pay the Training Fee by gift card before your start.",
+        }),
+      );
+
+      expect(reasons).toEqual([
+        {
+          rule: "external_payment",
+          detail: 'Mentions "gift card", "training fee"',
+        },
+      ]);
+    });
+
+    it("matches whole words only", async () => {
+      const reasons = await service.evaluate(
+        job({ description: "Our zellers program welcomes volunteers." }),
+      );
+
+      expect(reasons).toEqual([]);
+    });
+
+    it("uses the keywords and settings staff configured", async () => {
+      mockModerationRepository.findHoldRules.mockResolvedValue([
+        {
+          rule: "keywords",
+          enabled: true,
+          settings: { terms: ["work from home"] },
+        },
+        {
+          rule: "new_organization",
+          enabled: true,
+          settings: { maxAgeDays: 120 },
+        },
+        { rule: "external_payment", enabled: false, settings: { terms: [] } },
+      ]);
+
+      const reasons = await service.evaluate(
+        job({ title: "Work From Home assistant", description: "Bitcoin only" }),
+      );
+
+      expect(reasons.map((reason) => reason.rule)).toEqual([
+        "new_organization",
+        "keywords",
+      ]);
+    });
+  });
+
+  describe("hold", () => {
+    it("queues the job for review with the rules it tripped", async () => {
+      const reasons = [
+        { rule: "keywords" as const, detail: 'Mentions "bitcoin"' },
+      ];
+
+      await service.hold(7, reasons);
+
+      expect(mockModerationRepository.createReview).toHaveBeenCalledWith({
+        jobId: 7,
+        trigger: "auto_hold",
+        holdReasons: reasons,
+      });
+    });
+
+    it("keeps a job already waiting for review in its place", async () => {
+      mockModerationRepository.findPendingReviewId.mockResolvedValue(4);
+
+      await service.hold(7, []);
+
+      expect(mockModerationRepository.createReview).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { JobBoardService } from "@/modules/job-board/services/job-board.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { ConflictError, ForbiddenError, ValidationError } from "@shared/errors";
+import { fail, ok } from "@shared/result";
+import { DomainEventType } from "@shared/events";
+
+const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+const DAY_MS = 86_400_000;
+
+function makeJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 7,
+    title: "Youth Pastor",
+    employerId: 3,
+    status: "draft",
+    isFeatured: false,
+    publishAt: null,
+    applicationDeadline: new Date(Date.now() + 30 * DAY_MS),
+    ...overrides,
+  };
+}
+
+const holdReasons = [
+  { rule: "external_payment", detail: 'Mentions "gift card"' },
+];
+
+describe("JobBoardService job lifecycle", () => {
+  let service: JobBoardService;
+  let mockJobBoardRepository: any;
+  let mockOrgMembershipForJob: any;
+  let mockEntitlements: any;
+  let mockEventBus: any;
+  let mockHoldPolicy: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockJobBoardRepository = {
+      findJobById: vi.fn(),
+      updateJobStatus: vi.fn().mockResolvedValue(undefined),
+      findJobByIdWithSkills: vi
+        .fn()
+        .mockImplementation(async (id: number) => ({ id, status: "updated" })),
+      findScheduledJobsDue: vi.fn().mockResolvedValue([]),
+      findJobsPastDeadline: vi.fn().mockResolvedValue([]),
+      duplicateJob: vi.fn(),
+      findPublishedJobIdsByEmployer: vi.fn().mockResolvedValue([]),
+    };
+    mockOrgMembershipForJob = {
+      findJobPostingTeam: vi.fn().mockResolvedValue([]),
+      isOrganizationSuspended: vi.fn().mockResolvedValue(false),
+    };
+    mockEntitlements = {
+      checkJobPosting: vi.fn().mockResolvedValue(ok(null)),
+    };
+    mockEventBus = { publish: vi.fn().mockResolvedValue(undefined) };
+    mockHoldPolicy = {
+      evaluate: vi.fn().mockResolvedValue([]),
+      hold: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new JobBoardService(
+      mockJobBoardRepository,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      mockOrgMembershipForJob,
+      {} as any,
+      mockEntitlements,
+      {} as any,
+      mockEventBus,
+      mockHoldPolicy,
+    );
+  });
+
+  const givenJob = (overrides: Record<string, unknown> = {}) => {
+    mockJobBoardRepository.findJobById.mockResolvedValue({
+      job: makeJob(overrides),
+      employer: { id: 3, name: "Grace Church" },
+    });
+  };
+
+  describe("changeJobStatus", () => {
+    it("publishes a draft, checking the plan and reindexing the job", async () => {
+      givenJob({ status: "draft", isFeatured: true });
+
+      const result = await service.changeJobStatus(7, { status: "published" });
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.previousStatus).toBe("draft");
+      }
+      expect(mockEntitlements.checkJobPosting).toHaveBeenCalledWith(3, {
+        activating: true,
+        featuring: true,
+      });
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        7,
+        "published",
+        null,
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+        "updateJobIndex",
+        { id: 7, status: "updated" },
+      );
+    });
+
+    it("queues candidate matching once the job is live", async () => {
+      givenJob({ status: "draft" });
+
+      await service.changeJobStatus(7, { status: "published" });
+
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.CANDIDATE_MATCH_QUEUE,
+        "matchCandidates",
+        { jobId: 7 },
+        { jobId: "candidate-match-7" },
+      );
+    });
+
+    it("queues notifying the organization's followers once the job is live", async () => {
+      givenJob({ status: "draft" });
+
+      await service.changeJobStatus(7, { status: "published" });
+
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.FOLLOWER_NOTIFICATION_QUEUE,
+        "notifyOrganizationFollowers",
+        { jobId: 7 },
+        { jobId: "follower-notification-7" },
+      );
+    });
+
+    it("holds a job that trips an auto-hold rule instead of publishing it", async () => {
+      givenJob({ status: "draft" });
+      mockHoldPolicy.evaluate.mockResolvedValue(holdReasons);
+
+      const result = await service.changeJobStatus(7, { status: "published" });
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        7,
+        "pending_review",
+        null,
+      );
+      expect(mockHoldPolicy.hold).toHaveBeenCalledWith(7, holdReasons);
+      expect(addJobMock).not.toHaveBeenCalledWith(
+        QUEUE_NAMES.CANDIDATE_MATCH_QUEUE,
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(addJobMock).not.toHaveBeenCalledWith(
+        QUEUE_NAMES.FOLLOWER_NOTIFICATION_QUEUE,
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it("does not check auto-hold rules when pausing", async () => {
+      givenJob({ status: "published" });
+
+      await service.changeJobStatus(7, { status: "paused" });
+
+      expect(mockHoldPolicy.evaluate).not.toHaveBeenCalled();
+    });
+
+    it("stores the publish time when scheduling", async () => {
+      givenJob({ status: "draft" });
+      const publishAt = new Date(Date.now() + DAY_MS).toISOString();
+
+      const result = await service.changeJobStatus(7, {
+        status: "scheduled",
+        publishAt,
+      });
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        7,
+        "scheduled",
+        new Date(publishAt),
+      );
+    });
+
+    it("does not take another plan slot when rescheduling", async () => {
+      givenJob({ status: "scheduled" });
+
+      await service.changeJobStatus(7, {
+        status: "scheduled",
+        publishAt: new Date(Date.now() + 2 * DAY_MS).toISOString(),
+      });
+
+      expect(mockEntitlements.checkJobPosting).not.toHaveBeenCalled();
+    });
+
+    it("pauses a published job without a plan check", async () => {
+      givenJob({ status: "published" });
+
+      const result = await service.changeJobStatus(7, { status: "paused" });
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockEntitlements.checkJobPosting).not.toHaveBeenCalled();
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        7,
+        "paused",
+        null,
+      );
+    });
+
+    it("tells savers when a job is closed", async () => {
+      givenJob({ status: "published" });
+
+      await service.changeJobStatus(7, { status: "closed" });
+
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: DomainEventType.JOB_CLOSED,
+          payload: { jobId: 7, status: "closed" },
+        }),
+      );
+    });
+
+    it.each([
+      ["closed", "published"],
+      ["expired", "published"],
+      ["published", "draft"],
+      ["draft", "paused"],
+      ["pending_review", "published"],
+      ["removed", "draft"],
+    ])("rejects moving a %s job to %s", async (from, to) => {
+      givenJob({ status: from });
+
+      const result = await service.changeJobStatus(7, {
+        status: to as "published",
+      });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+      }
+      expect(mockJobBoardRepository.updateJobStatus).not.toHaveBeenCalled();
+    });
+
+    it("refuses to publish a job whose deadline has passed", async () => {
+      givenJob({
+        status: "paused",
+        applicationDeadline: new Date(Date.now() - DAY_MS),
+      });
+
+      const result = await service.changeJobStatus(7, { status: "published" });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it("refuses to schedule a job past its deadline", async () => {
+      givenJob({
+        status: "draft",
+        applicationDeadline: new Date(Date.now() + DAY_MS),
+      });
+
+      const result = await service.changeJobStatus(7, {
+        status: "scheduled",
+        publishAt: new Date(Date.now() + 2 * DAY_MS).toISOString(),
+      });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it("surfaces the plan limit when publishing", async () => {
+      givenJob({ status: "draft" });
+      mockEntitlements.checkJobPosting.mockResolvedValue(
+        fail(new ForbiddenError("Upgrade your plan")),
+      );
+
+      const result = await service.changeJobStatus(7, { status: "published" });
+
+      expect(result.isFailure).toBe(true);
+      expect(mockJobBoardRepository.updateJobStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("publishScheduledJobs", () => {
+    it("publishes due jobs and drafts those over the plan's limits", async () => {
+      mockJobBoardRepository.findScheduledJobsDue.mockResolvedValue([
+        makeJob({ id: 1, status: "scheduled", employerId: 3 }),
+        makeJob({ id: 2, status: "scheduled", employerId: 4 }),
+      ]);
+      mockEntitlements.checkJobPosting.mockImplementation(
+        async (organizationId: number) =>
+          organizationId === 4
+            ? fail(new ForbiddenError("Upgrade your plan"))
+            : ok(null),
+      );
+
+      const result = await service.publishScheduledJobs();
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.map((job) => job.id)).toEqual([1]);
+      }
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledTimes(2);
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        1,
+        "published",
+      );
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        2,
+        "draft",
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.CANDIDATE_MATCH_QUEUE,
+        "matchCandidates",
+        { jobId: 1 },
+        { jobId: "candidate-match-1" },
+      );
+      expect(addJobMock).not.toHaveBeenCalledWith(
+        QUEUE_NAMES.CANDIDATE_MATCH_QUEUE,
+        "matchCandidates",
+        { jobId: 2 },
+        expect.anything(),
+      );
+    });
+
+    it("emails the posting team when a due job exceeds the plan's limits", async () => {
+      mockJobBoardRepository.findScheduledJobsDue.mockResolvedValue([
+        makeJob({ id: 2, status: "scheduled", employerId: 4 }),
+      ]);
+      mockEntitlements.checkJobPosting.mockResolvedValue(
+        fail(new ForbiddenError("Upgrade your plan")),
+      );
+      mockOrgMembershipForJob.findJobPostingTeam.mockResolvedValue([
+        { userId: 11, email: "recruiter@example.com", fullName: "Riley" },
+      ]);
+
+      await service.publishScheduledJobs();
+
+      expect(mockOrgMembershipForJob.findJobPostingTeam).toHaveBeenCalledWith(
+        4,
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendScheduledJobBlockedEmail",
+        {
+          userId: 11,
+          email: "recruiter@example.com",
+          fullName: "Riley",
+          jobTitle: "Youth Pastor",
+          jobId: 2,
+          reason: "Upgrade your plan",
+        },
+      );
+    });
+
+    it("leaves due jobs of suspended organizations scheduled", async () => {
+      mockJobBoardRepository.findScheduledJobsDue.mockResolvedValue([
+        makeJob({ id: 1, status: "scheduled", employerId: 3 }),
+      ]);
+      mockOrgMembershipForJob.isOrganizationSuspended.mockResolvedValue(true);
+
+      const result = await service.publishScheduledJobs();
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toEqual([]);
+      }
+      expect(mockEntitlements.checkJobPosting).not.toHaveBeenCalled();
+      expect(mockJobBoardRepository.updateJobStatus).not.toHaveBeenCalled();
+    });
+
+    it("holds due jobs that trip an auto-hold rule", async () => {
+      mockJobBoardRepository.findScheduledJobsDue.mockResolvedValue([
+        makeJob({ id: 1, status: "scheduled" }),
+      ]);
+      mockHoldPolicy.evaluate.mockResolvedValue(holdReasons);
+
+      const result = await service.publishScheduledJobs();
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toEqual([]);
+      }
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        1,
+        "pending_review",
+      );
+      expect(mockHoldPolicy.hold).toHaveBeenCalledWith(1, holdReasons);
+    });
+  });
+
+  describe("reindexOrganizationJobs", () => {
+    it("requeues every published job of the organization", async () => {
+      mockJobBoardRepository.findPublishedJobIdsByEmployer.mockResolvedValue([
+        1, 2,
+      ]);
+
+      const result = await service.reindexOrganizationJobs(3);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toBe(2);
+      }
+      expect(
+        mockJobBoardRepository.findPublishedJobIdsByEmployer,
+      ).toHaveBeenCalledWith(3);
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+        "updateJobIndex",
+        { id: 1, status: "updated" },
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+        "updateJobIndex",
+        { id: 2, status: "updated" },
+      );
+    });
+  });
+
+  describe("expireOverdueJobs", () => {
+    it("expires overdue jobs and emails the posting team", async () => {
+      mockJobBoardRepository.findJobsPastDeadline.mockResolvedValue([
+        makeJob({ id: 1, status: "published" }),
+      ]);
+      mockOrgMembershipForJob.findJobPostingTeam.mockResolvedValue([
+        { userId: 11, email: "owner@church.org", fullName: "Owner" },
+        { userId: 12, email: "recruiter@church.org", fullName: "Recruiter" },
+      ]);
+
+      const result = await service.expireOverdueJobs();
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        1,
+        "expired",
+      );
+      expect(mockOrgMembershipForJob.findJobPostingTeam).toHaveBeenCalledWith(
+        3,
+      );
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: DomainEventType.JOB_CLOSED,
+          payload: { jobId: 1, status: "expired" },
+        }),
+      );
+      const emails = addJobMock.mock.calls.filter(
+        ([queue]) => queue === QUEUE_NAMES.EMAIL_QUEUE,
+      );
+      expect(emails).toHaveLength(2);
+      expect(emails[0]).toEqual([
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendJobExpiredEmail",
+        {
+          userId: 11,
+          email: "owner@church.org",
+          fullName: "Owner",
+          jobTitle: "Youth Pastor",
+          jobId: 1,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { JobModerationService } from "@/modules/job-board/services/job-moderation.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { ConflictError, ForbiddenError, NotFoundError } from "@shared/errors";
+import { fail, ok } from "@shared/result";
+import { DomainEventType } from "@shared/events";
+
+const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+const review = (overrides: Record<string, unknown> = {}) => ({
+  id: 4,
+  jobId: 7,
+  jobTitle: "Youth Pastor",
+  jobStatus: "pending_review",
+  employerId: 3,
+  employerName: "Grace Church",
+  trigger: "auto_hold",
+  holdReasons: [],
+  status: "pending",
+  warningCount: 0,
+  openReportCount: 0,
+  decidedBy: null,
+  decisionNote: null,
+  decidedAt: null,
+  createdAt: new Date(),
+  jobDescription: "Lead our youth ministry",
+  reports: [],
+  ...overrides,
+});
+
+describe("JobModerationService", () => {
+  let service: JobModerationService;
+  let mockModerationRepository: any;
+  let mockJobBoardRepository: any;
+  let mockOrgMembershipForJob: any;
+  let mockEventBus: any;
+  let mockEntitlements: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockModerationRepository = {
+      hasReported: vi.fn().mockResolvedValue(false),
+      createReport: vi.fn().mockImplementation(async (data) => ({
+        id: 1,
+        ...data,
+        details: data.details ?? null,
+        status: "open",
+        createdAt: new Date(),
+      })),
+      findPendingReviewId: vi.fn().mockResolvedValue(null),
+      createReview: vi.fn().mockResolvedValue(4),
+      findReviewById: vi.fn().mockResolvedValue(review()),
+      decideReview: vi.fn().mockResolvedValue(undefined),
+      incrementWarningCount: vi.fn().mockResolvedValue(undefined),
+      findHoldRules: vi.fn().mockResolvedValue([]),
+      saveHoldRule: vi.fn().mockResolvedValue(undefined),
+    };
+    mockJobBoardRepository = {
+      findById: vi.fn().mockResolvedValue({ id: 7, status: "published" }),
+      updateJobStatus: vi.fn().mockResolvedValue(undefined),
+      findJobByIdWithSkills: vi
+        .fn()
+        .mockImplementation(async (id: number) => ({ id, status: "updated" })),
+    };
+    mockOrgMembershipForJob = {
+      findJobPostingTeam: vi
+        .fn()
+        .mockResolvedValue([
+          { userId: 11, email: "recruiter@example.com", fullName: "Riley" },
+        ]),
+    };
+    mockEventBus = { publish: vi.fn().mockResolvedValue(undefined) };
+    mockEntitlements = {
+      checkJobPosting: vi.fn().mockResolvedValue(ok(null)),
+    };
+
+    service = new JobModerationService(
+      mockModerationRepository,
+      mockJobBoardRepository,
+      mockOrgMembershipForJob,
+      mockEventBus,
+      mockEntitlements,
+    );
+  });
+
+  describe("reportJob", () => {
+    it("files the report and opens a review for the job", async () => {
+      const result = await service.reportJob(7, 21, { reason: "scam" });
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockModerationRepository.createReport).toHaveBeenCalledWith({
+        jobId: 7,
+        reporterId: 21,
+        reason: "scam",
+      });
+      expect(mockModerationRepository.createReview).toHaveBeenCalledWith({
+        jobId: 7,
+        trigger: "report",
+        holdReasons: [],
+      });
+    });
+
+    it("adds further reports to the open review", async () => {
+      mockModerationRepository.findPendingReviewId.mockResolvedValue(4);
+
+      await service.reportJob(7, 21, { reason: "misleading" });
+
+      expect(mockModerationRepository.createReport).toHaveBeenCalled();
+      expect(mockModerationRepository.createReview).not.toHaveBeenCalled();
+    });
+
+    it("does not accept a second report from the same user", async () => {
+      mockModerationRepository.hasReported.mockResolvedValue(true);
+
+      const result = await service.reportJob(7, 21, { reason: "scam" });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+      }
+      expect(mockModerationRepository.createReport).not.toHaveBeenCalled();
+    });
+
+    it("treats jobs that are not live as not found", async () => {
+      mockJobBoardRepository.findById.mockResolvedValue({
+        id: 7,
+        status: "draft",
+      });
+
+      const result = await service.reportJob(7, 21, { reason: "scam" });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("approve", () => {
+    it("publishes a held job, reindexes it and queues candidate matching", async () => {
+      mockJobBoardRepository.findById.mockResolvedValue({
+        id: 7,
+        status: "pending_review",
+        isFeatured: true,
+      });
+
+      const result = await service.approve(4, 99, "Looks fine");
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.previousStatus).toBe("pending_review");
+      }
+      expect(mockEntitlements.checkJobPosting).toHaveBeenCalledWith(3, {
+        activating: true,
+        featuring: true,
+      });
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        7,
+        "published",
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.TYPESENSE_JOB_QUEUE,
+        "updateJobIndex",
+        { id: 7, status: "updated" },
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.CANDIDATE_MATCH_QUEUE,
+        "matchCandidates",
+        { jobId: 7 },
+        { jobId: "candidate-match-7" },
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.FOLLOWER_NOTIFICATION_QUEUE,
+        "notifyOrganizationFollowers",
+        { jobId: 7 },
+        { jobId: "follower-notification-7" },
+      );
+      expect(mockModerationRepository.decideReview).toHaveBeenCalledWith(4, {
+        status: "approved",
+        decidedBy: 99,
+        decisionNote: "Looks fine",
+      });
+    });
+
+    it("keeps a held job pending when it exceeds the plan's limits", async () => {
+      mockEntitlements.checkJobPosting.mockResolvedValue(
+        fail(new ForbiddenError("Upgrade your plan")),
+      );
+
+      const result = await service.approve(4, 99);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ForbiddenError);
+      }
+      expect(mockJobBoardRepository.updateJobStatus).not.toHaveBeenCalled();
+      expect(addJobMock).not.toHaveBeenCalled();
+      expect(mockModerationRepository.decideReview).not.toHaveBeenCalled();
+    });
+
+    it("leaves a reported job as the employer set it", async () => {
+      mockModerationRepository.findReviewById.mockResolvedValue(
+        review({ trigger: "report", jobStatus: "published" }),
+      );
+
+      await service.approve(4, 99);
+
+      expect(mockEntitlements.checkJobPosting).not.toHaveBeenCalled();
+      expect(mockJobBoardRepository.updateJobStatus).not.toHaveBeenCalled();
+      expect(mockModerationRepository.decideReview).toHaveBeenCalledWith(4, {
+        status: "approved",
+        decidedBy: 99,
+        decisionNote: null,
+      });
+    });
+
+    it("refuses a review that was already decided", async () => {
+      mockModerationRepository.findReviewById.mockResolvedValue(
+        review({ status: "removed" }),
+      );
+
+      const result = await service.approve(4, 99);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+      }
+      expect(mockModerationRepository.decideReview).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("remove", () => {
+    it("takes a live job down, tells savers and emails the posting team", async () => {
+      mockModerationRepository.findReviewById.mockResolvedValue(
+        review({ trigger: "report", jobStatus: "published" }),
+      );
+
+      const result = await service.remove(4, 99, "Asks for a deposit");
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        7,
+        "removed",
+      );
+      expect(mockEventBus.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: DomainEventType.JOB_CLOSED,
+          payload: { jobId: 7, status: "removed" },
+        }),
+      );
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendModerationNotice",
+        {
+          userId: 11,
+          email: "recruiter@example.com",
+          fullName: "Riley",
+          kind: "removal",
+          jobId: 7,
+          jobTitle: "Youth Pastor",
+          organizationName: "Grace Church",
+          note: "Asks for a deposit",
+        },
+      );
+    });
+
+    it("does not notify savers of a job that never went live", async () => {
+      await service.remove(4, 99);
+
+      expect(mockJobBoardRepository.updateJobStatus).toHaveBeenCalledWith(
+        7,
+        "removed",
+      );
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("warnOrganization", () => {
+    it("emails the posting team and counts the warning", async () => {
+      const result = await service.warnOrganization(4, "Drop the fee");
+
+      expect(result.isSuccess).toBe(true);
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendModerationNotice",
+        expect.objectContaining({ kind: "warning", note: "Drop the fee" }),
+      );
+      expect(
+        mockModerationRepository.incrementWarningCount,
+      ).toHaveBeenCalledWith(4);
+      expect(mockModerationRepository.decideReview).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getHoldRules", () => {
+    it("returns every rule with staff settings over the defaults", async () => {
+      mockModerationRepository.findHoldRules.mockResolvedValue([
+        {
+          rule: "keywords",
+          enabled: true,
+          settings: { terms: ["wire transfer"] },
+        },
+      ]);
+
+      const result = await service.getHoldRules();
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.map((rule) => rule.rule)).toEqual([
+          "new_organization",
+          "keywords",
+          "external_payment",
+        ]);
+        expect(result.value[1]).toEqual({
+          rule: "keywords",
+          enabled: true,
+          settings: { terms: ["wire transfer"] },
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { JobBoardService } from "@/modules/job-board/services/job-board.service";
+
+describe("JobBoardService search facets", () => {
+  let service: JobBoardService;
+  let mockTypesenseService: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTypesenseService = {
+      searchJobsCollection: vi
+        .fn()
+        .mockResolvedValue({ found: 0, hits: [], facet_counts: [] }),
+    };
+
+    service = new JobBoardService(
+      {} as any,
+      {} as any,
+      mockTypesenseService,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  const searchOptions = () =>
+    mockTypesenseService.searchJobsCollection.mock.calls[0][2];
+
+  it("should count a multi-select facet without its own selection", async () => {
+    const result = await service.searchJobs({
+      jobType: ["full-time", "contract"],
+      experience: "senior",
+    } as any);
+
+    expect(result.isSuccess).toBe(true);
+    const [, filters] = mockTypesenseService.searchJobsCollection.mock.calls[0];
+    expect(filters).toContain("jobType:[full-time, contract]");
+    expect(filters).toContain("experience:senior");
+
+    const { facetFilters } = searchOptions();
+    expect(Object.keys(facetFilters).sort()).toEqual(["experience", "jobType"]);
+    expect(facetFilters.jobType).not.toContain("jobType");
+    expect(facetFilters.jobType).toContain("experience:senior");
+    expect(facetFilters.experience).not.toContain("experience");
+    expect(facetFilters.experience).toContain("jobType:[full-time, contract]");
+  });
+
+  it("should leave out location selections from the city and state counts", async () => {
+    await service.searchJobs({ city: "Dallas", state: "TX" } as any);
+
+    const { facetFilters } = searchOptions();
+    expect(facetFilters.city).toBe("state:TX");
+    expect(facetFilters.state).toBe("city:Dallas");
+  });
+
+  it("should count skills under every selected skill", async () => {
+    await service.searchJobs({ skills: ["Music", "Teaching"] } as any);
+
+    expect(searchOptions().facetFilters).toEqual({});
+  });
+
+  it("should not request separate facet counts without a selection", async () => {
+    await service.searchJobs({} as any);
+
+    expect(searchOptions().facetFilters).toEqual({});
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  QUEUE_NAMES,
+  queueService,
+} from "@shared/infrastructure/queue.service";
+import {
+  MESSAGE_PREVIEW_LENGTH,
+  MessagingService,
+} from "@/modules/messaging/services/messaging.service";
+import { StorageFolder } from "@shared/constants/storage-folders";
+import { ForbiddenError, NotFoundError } from "@shared/errors";
+
+describe("MessagingService", () => {
+  let service: MessagingService;
+  let mockRepository: any;
+  let mockHiringTeamQuery: any;
+
+  const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+  const context = {
+    applicationId: 100,
+    jobId: 1,
+    applicantId: 5,
+    applicantName: "Jane Applicant",
+    applicantEmail: "jane@test.com",
+    jobTitle: "Youth Pastor",
+    organizationId: 10,
+    organizationName: "Grace Church",
+  };
+
+  const message = (overrides: Record<string, unknown> = {}) => ({
+    id: 40,
+    applicationId: 100,
+    senderRole: "organization" as const,
+    senderName: "Sam Recruiter",
+    body: "Are you free for a call on Thursday?",
+    attachments: [],
+    readAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const attachment = {
+    fieldname: "attachments",
+    originalname: "references.pdf",
+    path: "/tmp/uploads/references.pdf",
+    size: 2048,
+    mimetype: "application/pdf",
+  } as Express.Multer.File;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findApplicationContext: vi.fn().mockResolvedValue(context),
+      findMessages: vi.fn().mockResolvedValue([message()]),
+      createMessage: vi.fn().mockResolvedValue(message()),
+      markRead: vi.fn().mockResolvedValue(undefined),
+      findBlocks: vi.fn().mockResolvedValue([]),
+      block: vi.fn().mockResolvedValue(undefined),
+      unblock: vi.fn().mockResolvedValue(undefined),
+      findInbox: vi.fn().mockResolvedValue([]),
+    };
+
+    mockHiringTeamQuery = {
+      findHiringTeam: vi.fn().mockResolvedValue([
+        { userId: 9, email: "sam@test.com", fullName: "Sam Recruiter" },
+        { userId: 11, email: "lee@test.com", fullName: "Lee Lead" },
+      ]),
+    };
+
+    service = new MessagingService(mockRepository, mockHiringTeamQuery);
+  });
+
+  describe("getThreadForOrganization", () => {
+    it("marks the applicant's messages read before loading the thread", async () => {
+      const result = await service.getThreadForOrganization(10, 1, 100);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toMatchObject({
+          applicationId: 100,
+          applicantName: "Jane Applicant",
+          blockedBy: [],
+        });
+        expect(result.value.messages).toHaveLength(1);
+      }
+      expect(mockRepository.markRead).toHaveBeenCalledWith(100, "organization");
+      expect(mockRepository.markRead.mock.invocationCallOrder[0]).toBeLessThan(
+        mockRepository.findMessages.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("hides applications of other organizations", async () => {
+      const result = await service.getThreadForOrganization(99, 1, 100);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+      expect(mockRepository.markRead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sendOrganizationMessage", () => {
+    it("posts the message and emails the applicant a link to the thread", async () => {
+      const result = await service.sendOrganizationMessage(
+        10,
+        1,
+        100,
+        9,
+        "Are you free for a call on Thursday?",
+        [],
+        "corr-1",
+      );
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.createMessage).toHaveBeenCalledWith({
+        applicationId: 100,
+        senderId: 9,
+        senderRole: "organization",
+        body: "Are you free for a call on Thursday?",
+      });
+      expect(addJobMock).toHaveBeenCalledTimes(1);
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendApplicationMessage",
+        {
+          userId: 5,
+          email: "jane@test.com",
+          fullName: "Jane Applicant",
+          recipient: "applicant",
+          applicationId: 100,
+          jobId: 1,
+          jobTitle: "Youth Pastor",
+          organizationId: 10,
+          organizationName: "Grace Church",
+          senderName: "Sam Recruiter",
+          preview: "Are you free for a call on Thursday?",
+        },
+      );
+    });
+
+    it("queues attachments for upload against the new message", async () => {
+      await service.sendOrganizationMessage(
+        10,
+        1,
+        100,
+        9,
+        "Our benefits summary is attached.",
+        [attachment],
+        "corr-1",
+      );
+
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.FILE_UPLOAD_QUEUE,
+        "uploadFile",
+        {
+          entityType: "application_message",
+          entityId: "40",
+          mergeWithExisting: false,
+          tempFiles: [
+            {
+              originalname: "references.pdf",
+              tempPath: "/tmp/uploads/references.pdf",
+              size: 2048,
+              mimetype: "application/pdf",
+              fieldName: "attachments",
+            },
+          ],
+          userId: "9",
+          folder: StorageFolder.MESSAGE_ATTACHMENTS,
+          correlationId: "corr-1",
+        },
+      );
+    });
+
+    it("refuses to send while the applicant has blocked the organization", async () => {
+      mockRepository.findBlocks.mockResolvedValue(["applicant"]);
+
+      const result = await service.sendOrganizationMessage(
+        10,
+        1,
+        100,
+        9,
+        "Hello again",
+        [],
+        "corr-1",
+      );
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ForbiddenError);
+      }
+      expect(mockRepository.createMessage).not.toHaveBeenCalled();
+      expect(addJobMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("blockApplicant", () => {
+    it("blocks the applicant on behalf of the organization", async () => {
+      mockRepository.findBlocks.mockResolvedValue(["organization"]);
+
+      const result = await service.blockApplicant(10, 1, 100, 9);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toEqual({
+          applicationId: 100,
+          blockedBy: ["organization"],
+        });
+      }
+      expect(mockRepository.block).toHaveBeenCalledWith({
+        organizationId: 10,
+        applicantId: 5,
+        blockedBy: "organization",
+        createdBy: 9,
+      });
+    });
+  });
+
+  describe("getThreadForApplicant", () => {
+    it("marks the organization's messages read", async () => {
+      const result = await service.getThreadForApplicant(100, 5);
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.markRead).toHaveBeenCalledWith(100, "applicant");
+    });
+
+    it("hides other users' applications", async () => {
+      const result = await service.getThreadForApplicant(100, 6);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("sendApplicantMessage", () => {
+    it("emails every member of the hiring team", async () => {
+      mockRepository.createMessage.mockResolvedValue(
+        message({
+          senderRole: "applicant",
+          senderName: "Jane Applicant",
+          body: "x".repeat(MESSAGE_PREVIEW_LENGTH + 50),
+        }),
+      );
+
+      const result = await service.sendApplicantMessage(
+        100,
+        5,
+        "x".repeat(MESSAGE_PREVIEW_LENGTH + 50),
+        [],
+        "corr-1",
+      );
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockHiringTeamQuery.findHiringTeam).toHaveBeenCalledWith(10);
+      expect(addJobMock).toHaveBeenCalledTimes(2);
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendApplicationMessage",
+        expect.objectContaining({
+          userId: 11,
+          recipient: "organization",
+          senderName: "Jane Applicant",
+          preview: `${"x".repeat(MESSAGE_PREVIEW_LENGTH)}…`,
+        }),
+      );
+    });
+
+    it("refuses to send while the organization has blocked the applicant", async () => {
+      mockRepository.findBlocks.mockResolvedValue(["organization"]);
+
+      const result = await service.sendApplicantMessage(
+        100,
+        5,
+        "Any update?",
+        [],
+        "corr-1",
+      );
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ForbiddenError);
+      }
+      expect(mockRepository.createMessage).not.toHaveBeenCalled();
+    });
+
+    it("still sends when the hiring team cannot be loaded", async () => {
+      mockHiringTeamQuery.findHiringTeam.mockRejectedValue(new Error("down"));
+
+      const result = await service.sendApplicantMessage(
+        100,
+        5,
+        "Any update?",
+        [],
+        "corr-1",
+      );
+
+      expect(result.isSuccess).toBe(true);
+      expect(addJobMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("unblockOrganization", () => {
+    it("removes only the applicant's block", async () => {
+      mockRepository.findBlocks.mockResolvedValue(["organization"]);
+
+      const result = await service.unblockOrganization(100, 5);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.blockedBy).toEqual(["organization"]);
+      }
+      expect(mockRepository.unblock).toHaveBeenCalledWith(10, 5, "applicant");
+    });
+  });
+});
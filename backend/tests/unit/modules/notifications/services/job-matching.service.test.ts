@@ -34,6 +34,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -78,6 +82,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -122,6 +130,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -163,6 +175,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: ["JavaScript", "React"],
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -191,6 +207,98 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         .mock.calls[0][1];
       expect(filterCall).toContain("skills:");
     });
+
+    it("should build a quoted filter for work areas", async () => {
+      const alert = {
+        id: 1,
+        userId: 1,
+        name: "Test Alert",
+        description: "Test",
+        city: null,
+        state: null,
+        searchQuery: null,
+        jobType: null,
+        skills: null,
+        experienceLevel: null,
+        workAreas: ["Media/design/arts", "Education"],
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
+        isActive: true,
+        isPaused: false,
+        includeRemote: true,
+        frequency: "weekly" as const,
+        lastSentAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      vi.spyOn(mockTypesenseJobService, "searchJobsForAlert").mockResolvedValue(
+        {
+          found: 0,
+          hits: [],
+          out_of: 0,
+          page: 1,
+          request_params: { per_page: 50 },
+          search_time_ms: 10,
+        },
+      );
+
+      await jobMatchingService.findMatchingJobsForAlert(alert, 50);
+
+      const filterCall = (mockTypesenseJobService.searchJobsForAlert as any)
+        .mock.calls[0][1];
+      expect(filterCall).toContain(
+        "workAreas:[`Media/design/arts`, `Education`]",
+      );
+    });
+
+    it("should filter by radius and sort nearest first for a radius alert", async () => {
+      const alert = {
+        id: 1,
+        userId: 1,
+        name: "Test Alert",
+        description: "Test",
+        city: "Seattle",
+        state: null,
+        searchQuery: null,
+        jobType: null,
+        skills: null,
+        experienceLevel: null,
+        workAreas: null,
+        latitude: 47.6062,
+        longitude: -122.3321,
+        radiusMiles: 25,
+        isActive: true,
+        isPaused: false,
+        includeRemote: false,
+        frequency: "weekly" as const,
+        lastSentAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      vi.spyOn(mockTypesenseJobService, "searchJobsForAlert").mockResolvedValue(
+        {
+          found: 0,
+          hits: [],
+          out_of: 0,
+          page: 1,
+          request_params: { per_page: 50 },
+          search_time_ms: 10,
+        },
+      );
+
+      await jobMatchingService.findMatchingJobsForAlert(alert, 50);
+
+      expect(mockTypesenseJobService.searchJobsForAlert).toHaveBeenCalledWith(
+        null,
+        "geopoint:(47.6062, -122.3321, 25 mi)",
+        null,
+        50,
+        "geopoint(47.6062, -122.3321):asc",
+      );
+    });
   });
 
   describe("findMatchingJobsForAlert - Multiple Criteria", () => {
@@ -206,6 +314,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: ["full_time", "contract"] as any,
         skills: ["JavaScript", "React"],
         experienceLevel: ["mid"],
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -254,6 +366,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: ["full_time", "part_time"] as any,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -301,6 +417,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -374,6 +494,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -495,6 +619,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
@@ -542,6 +670,10 @@ describe("JobMatchingService - Alert Matching Logic", () => {
         jobType: null,
         skills: null,
         experienceLevel: null,
+        workAreas: null,
+        latitude: null,
+        longitude: null,
+        radiusMiles: null,
         isActive: true,
         isPaused: false,
         includeRemote: true,
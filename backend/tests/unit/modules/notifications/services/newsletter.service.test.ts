@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { NewsletterService } from "@/modules/notifications/services/newsletter.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { ConflictError, NotFoundError } from "@shared/errors";
+import type { NotificationsRepositoryPort } from "@/modules/notifications/ports/notifications-repository.port";
+
+const addBulkJobsMock = queueService.addBulkJobs as ReturnType<typeof vi.fn>;
+
+function makeNewsletter(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 3,
+    subject: "October news",
+    body: "<p>Hello</p>",
+    segment: "employers",
+    status: "draft",
+    recipientCount: 0,
+    sentAt: null,
+    ...overrides,
+  };
+}
+
+describe("NewsletterService", () => {
+  let service: NewsletterService;
+  let repository: {
+    findNewsletterById: ReturnType<typeof vi.fn>;
+    findEmailRecipients: ReturnType<typeof vi.fn>;
+    updateNewsletter: ReturnType<typeof vi.fn>;
+  };
+  let unsubscribeLinks: { generateUnsubscribeLink: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    repository = {
+      findNewsletterById: vi.fn().mockResolvedValue(makeNewsletter()),
+      findEmailRecipients: vi.fn().mockResolvedValue([]),
+      updateNewsletter: vi.fn().mockResolvedValue(undefined),
+    };
+    unsubscribeLinks = {
+      generateUnsubscribeLink: vi
+        .fn()
+        .mockImplementation(
+          async (userId: number) => `https://api.test/unsubscribe/${userId}`,
+        ),
+    };
+    service = new NewsletterService(
+      repository as unknown as NotificationsRepositoryPort,
+      unsubscribeLinks,
+    );
+  });
+
+  it("queues one email per recipient in the segment with their unsubscribe link", async () => {
+    repository.findEmailRecipients.mockResolvedValueOnce([
+      { userId: 11, email: "owner@church.org", fullName: "Owner" },
+      { userId: 12, email: "recruiter@church.org", fullName: "Recruiter" },
+    ]);
+
+    const result = await service.sendNewsletter(3);
+
+    expect(result.isSuccess && result.value).toBe(2);
+    expect(repository.findEmailRecipients).toHaveBeenCalledWith(
+      "monthlyNewsletter",
+      "employers",
+      0,
+      500,
+    );
+    const [queue, jobs] = addBulkJobsMock.mock.calls[0]!;
+    expect(queue).toBe(QUEUE_NAMES.EMAIL_QUEUE);
+    expect(jobs[1]).toEqual({
+      name: "sendNewsletter",
+      data: {
+        userId: 12,
+        email: "recruiter@church.org",
+        fullName: "Recruiter",
+        newsletterId: 3,
+        subject: "October news",
+        body: "<p>Hello</p>",
+        unsubscribeUrl: "https://api.test/unsubscribe/12",
+      },
+      options: { jobId: "newsletter-3-12" },
+    });
+    expect(repository.updateNewsletter).toHaveBeenCalledWith(3, {
+      status: "sending",
+    });
+    expect(repository.updateNewsletter).toHaveBeenLastCalledWith(3, {
+      status: "sent",
+      recipientCount: 2,
+      sentAt: expect.any(Date),
+    });
+  });
+
+  it("does not send a newsletter twice", async () => {
+    repository.findNewsletterById.mockResolvedValue(
+      makeNewsletter({ status: "sent" }),
+    );
+
+    const result = await service.sendNewsletter(3);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) {
+      expect(result.error).toBeInstanceOf(ConflictError);
+    }
+    expect(addBulkJobsMock).not.toHaveBeenCalled();
+    expect(repository.updateNewsletter).not.toHaveBeenCalled();
+  });
+
+  it("fails for an unknown newsletter", async () => {
+    repository.findNewsletterById.mockResolvedValue(undefined);
+
+    const result = await service.sendNewsletter(99);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) {
+      expect(result.error).toBeInstanceOf(NotFoundError);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { WeeklyDigestService } from "@/modules/notifications/services/weekly-digest.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { DatabaseError } from "@shared/errors";
+import type { NotificationsRepositoryPort } from "@/modules/notifications/ports/notifications-repository.port";
+import type { DigestJob } from "@shared/ports/email-service.port";
+
+const addBulkJobsMock = queueService.addBulkJobs as ReturnType<typeof vi.fn>;
+
+const DAY_MS = 86_400_000;
+
+function makeJob(id: number): DigestJob {
+  return { id, title: `Job ${id}`, company: "Grace Church" };
+}
+
+function makeRecipient(userId: number) {
+  return {
+    userId,
+    email: `user${userId}@example.com`,
+    fullName: `User ${userId}`,
+  };
+}
+
+describe("WeeklyDigestService", () => {
+  let service: WeeklyDigestService;
+  let repository: {
+    findEmailRecipients: ReturnType<typeof vi.fn>;
+    findRecentAlertMatchJobs: ReturnType<typeof vi.fn>;
+  };
+  let recommendations: { getRecommendedJobs: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    repository = {
+      findEmailRecipients: vi.fn().mockResolvedValue([]),
+      findRecentAlertMatchJobs: vi.fn().mockResolvedValue([]),
+    };
+    recommendations = { getRecommendedJobs: vi.fn().mockResolvedValue([]) };
+    service = new WeeklyDigestService(
+      repository as unknown as NotificationsRepositoryPort,
+      recommendations,
+    );
+  });
+
+  const queuedDigests = () =>
+    addBulkJobsMock.mock.calls
+      .filter(([queue]) => queue === QUEUE_NAMES.EMAIL_QUEUE)
+      .flatMap(([, jobs]) => jobs);
+
+  it("queues a digest of recommendations and the past week's alert matches", async () => {
+    const now = new Date("2026-10-19T09:00:00Z");
+    repository.findEmailRecipients.mockResolvedValueOnce([makeRecipient(5)]);
+    repository.findRecentAlertMatchJobs.mockResolvedValue([makeJob(2)]);
+    recommendations.getRecommendedJobs.mockResolvedValue([
+      makeJob(1),
+      makeJob(2),
+      makeJob(3),
+    ]);
+
+    const result = await service.sendWeeklyDigests(now);
+
+    expect(result.isSuccess && result.value).toBe(1);
+    expect(repository.findEmailRecipients).toHaveBeenCalledWith(
+      "weeklyJobDigest",
+      "seekers",
+      0,
+      500,
+    );
+    expect(repository.findRecentAlertMatchJobs).toHaveBeenCalledWith(
+      5,
+      new Date(now.getTime() - 7 * DAY_MS),
+      5,
+    );
+    expect(queuedDigests()).toEqual([
+      {
+        name: "sendWeeklyJobDigest",
+        data: {
+          ...makeRecipient(5),
+          // Job 2 is listed once, under the alert matches
+          recommendedJobs: [makeJob(1), makeJob(3)],
+          alertMatches: [makeJob(2)],
+        },
+      },
+    ]);
+  });
+
+  it("skips seekers with nothing to list", async () => {
+    repository.findEmailRecipients.mockResolvedValueOnce([makeRecipient(5)]);
+
+    const result = await service.sendWeeklyDigests();
+
+    expect(result.isSuccess && result.value).toBe(0);
+    expect(queuedDigests()).toEqual([]);
+  });
+
+  it("pages through recipients after a full batch", async () => {
+    const firstBatch = Array.from({ length: 500 }, (_, i) =>
+      makeRecipient(i + 1),
+    );
+    repository.findEmailRecipients
+      .mockResolvedValueOnce(firstBatch)
+      .mockResolvedValueOnce([makeRecipient(501)]);
+    recommendations.getRecommendedJobs.mockResolvedValue([makeJob(1)]);
+
+    const result = await service.sendWeeklyDigests();
+
+    expect(result.isSuccess && result.value).toBe(501);
+    expect(repository.findEmailRecipients).toHaveBeenCalledTimes(2);
+    expect(repository.findEmailRecipients).toHaveBeenLastCalledWith(
+      "weeklyJobDigest",
+      "seekers",
+      500,
+      500,
+    );
+  });
+
+  it("fails when recipients cannot be loaded", async () => {
+    repository.findEmailRecipients.mockRejectedValue(
+      new DatabaseError("connection lost"),
+    );
+
+    const result = await service.sendWeeklyDigests();
+
+    expect(result.isFailure).toBe(true);
+    expect(addBulkJobsMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { AuditEventsService } from "@/modules/organizations/services/audit-events.service";
+import { DatabaseError } from "@shared/errors";
+import { organizationAuditEventsQuerySchema } from "@/validations/auditEvent.validation";
+
+describe("AuditEventsService", () => {
+  let service: AuditEventsService;
+  let mockRepository: any;
+
+  const pagination = {
+    total: 0,
+    page: 2,
+    limit: 10,
+    totalPages: 0,
+    hasNext: false,
+    hasPrevious: true,
+    nextPage: null,
+    previousPage: 1,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findOrganizationAuditEvents: vi
+        .fn()
+        .mockResolvedValue({ items: [], pagination }),
+    };
+
+    service = new AuditEventsService(mockRepository);
+  });
+
+  it("passes filters and a date range to the repository", async () => {
+    const query = organizationAuditEventsQuerySchema.parse({
+      page: "2",
+      limit: "10",
+      name: "read.application.by_employer",
+      resourceType: "application",
+      resourceId: "55",
+      from: "2026-01-01T00:00:00Z",
+      to: "2026-02-01T00:00:00Z",
+    });
+
+    const result = await service.getOrganizationAuditEvents(10, query);
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) expect(result.value.pagination).toEqual(pagination);
+    expect(mockRepository.findOrganizationAuditEvents).toHaveBeenCalledWith(
+      10,
+      {
+        name: "read.application.by_employer",
+        resourceType: "application",
+        resourceId: "55",
+        from: new Date("2026-01-01T00:00:00Z"),
+        to: new Date("2026-02-01T00:00:00Z"),
+      },
+      { page: 2, limit: 10 },
+    );
+  });
+
+  it("applies the default page size when none is given", async () => {
+    await service.getOrganizationAuditEvents(
+      10,
+      organizationAuditEventsQuerySchema.parse({}),
+    );
+
+    expect(mockRepository.findOrganizationAuditEvents).toHaveBeenCalledWith(
+      10,
+      { from: undefined, to: undefined },
+      { page: 1, limit: 25 },
+    );
+  });
+
+  it("rejects a range that ends before it starts", () => {
+    const parsed = organizationAuditEventsQuerySchema.safeParse({
+      from: "2026-02-01T00:00:00Z",
+      to: "2026-01-01T00:00:00Z",
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it("returns DatabaseError when the repository fails", async () => {
+    mockRepository.findOrganizationAuditEvents.mockRejectedValue(
+      new Error("connection lost"),
+    );
+
+    const result = await service.getOrganizationAuditEvents(
+      10,
+      organizationAuditEventsQuerySchema.parse({}),
+    );
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(DatabaseError);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { CandidateProfileService } from "@/modules/organizations/services/candidate-profile.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { ConflictError, NotFoundError, ValidationError } from "@shared/errors";
+
+const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+const candidate = {
+  email: "casey@example.com",
+  profile: {
+    userId: 21,
+    name: "Casey Candidate",
+    photoUrl: null,
+    bio: "Worship pastor",
+    location: "Austin, TX, US",
+    skills: ["Guitar"],
+    openToWork: true,
+    resumeUrl: null,
+    linkedinUrl: null,
+    portfolioUrl: null,
+    workExperiences: [],
+    education: [],
+    certifications: [],
+  },
+};
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  title: "Worship Leader",
+  employerId: 3,
+  employerName: "Grace Church",
+  status: "published",
+  ...overrides,
+});
+
+describe("CandidateProfileService", () => {
+  let service: CandidateProfileService;
+  let mockCandidateProfileQuery: any;
+  let mockOutreachJobQuery: any;
+  let mockOutreachRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockCandidateProfileQuery = {
+      findPublicCandidate: vi.fn().mockResolvedValue(candidate),
+    };
+    mockOutreachJobQuery = {
+      findJobForOutreach: vi.fn().mockResolvedValue(job()),
+    };
+    mockOutreachRepository = {
+      hasInvited: vi.fn().mockResolvedValue(false),
+      findInvitedJobIds: vi.fn().mockResolvedValue([7]),
+      createOutreach: vi.fn().mockImplementation(async (data) => ({
+        id: 1,
+        ...data,
+        createdAt: new Date(),
+      })),
+    };
+
+    service = new CandidateProfileService(
+      mockCandidateProfileQuery,
+      mockOutreachJobQuery,
+      mockOutreachRepository,
+    );
+  });
+
+  describe("getCandidateDetail", () => {
+    it("returns the profile with the organization's earlier invitations", async () => {
+      const result = await service.getCandidateDetail(3, 21);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.name).toBe("Casey Candidate");
+        expect(result.value.invitedJobIds).toEqual([7]);
+        expect(result.value).not.toHaveProperty("email");
+      }
+      expect(mockOutreachRepository.findInvitedJobIds).toHaveBeenCalledWith(
+        3,
+        21,
+      );
+    });
+
+    it("reports private profiles as not found", async () => {
+      mockCandidateProfileQuery.findPublicCandidate.mockResolvedValue(null);
+
+      const result = await service.getCandidateDetail(3, 21);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("inviteToApply", () => {
+    it("records the outreach and emails the candidate", async () => {
+      const result = await service.inviteToApply(3, 21, 11, {
+        jobId: 7,
+        message: "We'd love to hear from you",
+      });
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockOutreachRepository.createOutreach).toHaveBeenCalledWith({
+        organizationId: 3,
+        candidateId: 21,
+        jobId: 7,
+        sentBy: 11,
+        message: "We'd love to hear from you",
+      });
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendJobInvitation",
+        {
+          userId: 21,
+          email: "casey@example.com",
+          fullName: "Casey Candidate",
+          jobId: 7,
+          jobTitle: "Worship Leader",
+          organizationName: "Grace Church",
+          message: "We'd love to hear from you",
+        },
+      );
+    });
+
+    it("stores an empty note as no note", async () => {
+      await service.inviteToApply(3, 21, 11, { jobId: 7, message: "" });
+
+      expect(mockOutreachRepository.createOutreach).toHaveBeenCalledWith(
+        expect.objectContaining({ message: null }),
+      );
+    });
+
+    it("rejects jobs of another organization as not found", async () => {
+      mockOutreachJobQuery.findJobForOutreach.mockResolvedValue(
+        job({ employerId: 99 }),
+      );
+
+      const result = await service.inviteToApply(3, 21, 11, { jobId: 7 });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+      expect(mockOutreachRepository.createOutreach).not.toHaveBeenCalled();
+    });
+
+    it("rejects jobs that are not published", async () => {
+      mockOutreachJobQuery.findJobForOutreach.mockResolvedValue(
+        job({ status: "draft" }),
+      );
+
+      const result = await service.inviteToApply(3, 21, 11, { jobId: 7 });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ValidationError);
+      }
+    });
+
+    it("does not invite a candidate to the same job twice", async () => {
+      mockOutreachRepository.hasInvited.mockResolvedValue(true);
+
+      const result = await service.inviteToApply(3, 21, 11, { jobId: 7 });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+      }
+      expect(addJobMock).not.toHaveBeenCalled();
+    });
+
+    it("does not reach candidates who hid their profile", async () => {
+      mockCandidateProfileQuery.findPublicCandidate.mockResolvedValue(null);
+
+      const result = await service.inviteToApply(3, 21, 11, { jobId: 7 });
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+      expect(mockOutreachJobQuery.findJobForOutreach).not.toHaveBeenCalled();
+    });
+  });
+});
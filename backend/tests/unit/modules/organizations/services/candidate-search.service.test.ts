@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
 import { CandidateSearchService } from "@/modules/organizations/services/candidate-search.service";
+import { LocalGeocoderService } from "@shared/infrastructure/geocoder/local-geocoder.service";
 import type {
   ProfileDocument,
   SearchProfilesResult,
@@ -66,7 +67,10 @@ describe("CandidateSearchService", () => {
 
   beforeEach(() => {
     typesenseProfileService = createMockTypesenseProfileService();
-    service = new CandidateSearchService(typesenseProfileService);
+    service = new CandidateSearchService(
+      typesenseProfileService,
+      new LocalGeocoderService(),
+    );
 
     // Default stub so every test has a valid response unless overridden.
     vi.mocked(
@@ -396,6 +400,58 @@ describe("CandidateSearchService", () => {
     });
   });
 
+  // ── Radius search ────────────────────────────────────────────────────
+
+  describe("radius search", () => {
+    it("filters by distance from an explicit point instead of location/zipcode", async () => {
+      await service.searchCandidates(
+        makeFilters({
+          lat: 30.2672,
+          lng: -97.7431,
+          radius: 25,
+          location: "Austin, TX, USA",
+        }),
+      );
+
+      const call = vi.mocked(typesenseProfileService.searchProfilesCollection)
+        .mock.calls[0]![0];
+      expect(call.filterBy).toContain("geopoint:(30.2672, -97.7431, 25 mi)");
+      expect(call.filterBy).not.toContain("location:");
+    });
+
+    it("centres on the geocoded zipcode when no point is given", async () => {
+      await service.searchCandidates(
+        makeFilters({ zipcode: "78701", radius: 10 }),
+      );
+
+      const call = vi.mocked(typesenseProfileService.searchProfilesCollection)
+        .mock.calls[0]![0];
+      expect(call.filterBy).toContain("geopoint:(30.2672, -97.7431, 10 mi)");
+      expect(call.filterBy).not.toContain("zipCode:");
+    });
+
+    it("sorts nearest first when sortBy=distance", async () => {
+      await service.searchCandidates(
+        makeFilters({ lat: 30.2672, lng: -97.7431, sortBy: "distance" }),
+      );
+
+      const call = vi.mocked(typesenseProfileService.searchProfilesCollection)
+        .mock.calls[0]![0];
+      expect(call.sortBy).toBe("geopoint(30.2672, -97.7431):asc");
+    });
+
+    it("fails validation when the zipcode cannot be located", async () => {
+      const result = await service.searchCandidates(
+        makeFilters({ zipcode: "00000", radius: 10 }),
+      );
+
+      expect(result.isFailure).toBe(true);
+      expect(
+        typesenseProfileService.searchProfilesCollection,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
   // ── Error path ───────────────────────────────────────────────────────
 
   describe("error handling", () => {
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { OrganizationEntitlementsService } from "@/modules/organizations/services/organization-entitlements.service";
+import {
+  NotFoundError,
+  PaymentRequiredError,
+  PlanUpgradeRequiredError,
+} from "@shared/errors";
+
+const DAY_MS = 86_400_000;
+
+describe("OrganizationEntitlementsService", () => {
+  let service: OrganizationEntitlementsService;
+  let mockOrganizationsRepository: any;
+  let mockJobPostingUsage: any;
+
+  const organization = (overrides: Record<string, unknown> = {}) => ({
+    id: 10,
+    subscriptionTier: "basic",
+    subscriptionStatus: "active",
+    subscriptionEndDate: null,
+    jobPostingLimit: 1,
+    createdAt: new Date(Date.now() - 90 * DAY_MS),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockOrganizationsRepository = {
+      findById: vi.fn().mockResolvedValue(organization()),
+    };
+    mockJobPostingUsage = {
+      getJobPostingUsage: vi
+        .fn()
+        .mockResolvedValue({ activeJobs: 3, featuredJobs: 0 }),
+    };
+
+    service = new OrganizationEntitlementsService(
+      mockOrganizationsRepository,
+      mockJobPostingUsage,
+    );
+  });
+
+  it("reports usage against the plan's limits", async () => {
+    const result = await service.getUsage(10);
+
+    expect(result.isSuccess).toBe(true);
+    if (!result.isSuccess) return;
+
+    expect(result.value).toMatchObject({
+      tier: "basic",
+      effectiveTier: "basic",
+      isSubscriptionActive: true,
+      activeJobs: { used: 3, limit: 5 },
+      featuredJobs: { used: 0, limit: 0 },
+      features: { candidateSearch: false },
+    });
+  });
+
+  it("allows posting while under the active job limit", async () => {
+    const result = await service.checkJobPosting(10, {
+      activating: true,
+      featuring: false,
+    });
+
+    expect(result.isSuccess).toBe(true);
+  });
+
+  it("asks for an upgrade once the active job limit is reached", async () => {
+    mockJobPostingUsage.getJobPostingUsage.mockResolvedValue({
+      activeJobs: 5,
+      featuredJobs: 0,
+    });
+
+    const result = await service.checkJobPosting(10, {
+      activating: true,
+      featuring: false,
+    });
+
+    expect(result.isFailure).toBe(true);
+    if (!result.isFailure) return;
+
+    expect(result.error).toBeInstanceOf(PlanUpgradeRequiredError);
+    expect(result.error.message).toBe(
+      "Your plan allows 5 active job postings. Upgrade to the Professional plan to post more jobs.",
+    );
+    expect((result.error as PlanUpgradeRequiredError).details).toMatchObject({
+      currentTier: "basic",
+      requiredTier: "professional",
+      used: 5,
+      limit: 5,
+    });
+  });
+
+  it("lets jobPostingLimit raise the plan's limit", async () => {
+    mockOrganizationsRepository.findById.mockResolvedValue(
+      organization({ jobPostingLimit: 10 }),
+    );
+    mockJobPostingUsage.getJobPostingUsage.mockResolvedValue({
+      activeJobs: 7,
+      featuredJobs: 0,
+    });
+
+    const result = await service.checkJobPosting(10, {
+      activating: true,
+      featuring: false,
+    });
+
+    expect(result.isSuccess).toBe(true);
+  });
+
+  it("gates featured listings by tier", async () => {
+    const result = await service.checkJobPosting(10, {
+      activating: false,
+      featuring: true,
+    });
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) {
+      expect(result.error).toBeInstanceOf(PlanUpgradeRequiredError);
+      expect(result.error.message).toContain(
+        "Featured listings are not included in your plan.",
+      );
+    }
+  });
+
+  it("grants the trial tier until the trial ends", async () => {
+    mockOrganizationsRepository.findById.mockResolvedValue(
+      organization({
+        subscriptionTier: "free",
+        subscriptionStatus: "trial",
+        createdAt: new Date(),
+      }),
+    );
+
+    const result = await service.checkFeature(10, "candidateSearch");
+
+    expect(result.isSuccess).toBe(true);
+  });
+
+  it("asks for payment when only the lapsed subscription covers the request", async () => {
+    mockOrganizationsRepository.findById.mockResolvedValue(
+      organization({
+        subscriptionTier: "professional",
+        subscriptionStatus: "cancelled",
+        subscriptionEndDate: new Date(Date.now() - DAY_MS),
+      }),
+    );
+
+    const result = await service.checkFeature(10, "candidateSearch");
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) {
+      expect(result.error).toBeInstanceOf(PaymentRequiredError);
+      expect((result.error as PaymentRequiredError).statusCode).toBe(402);
+    }
+  });
+
+  it("returns NotFoundError for an unknown organization", async () => {
+    mockOrganizationsRepository.findById.mockRejectedValue(
+      new NotFoundError("Organization", 99),
+    );
+
+    const result = await service.getUsage(99);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+  });
+});
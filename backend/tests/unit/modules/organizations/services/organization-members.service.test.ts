@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { OrganizationMembersService } from "@/modules/organizations/services/organization-members.service";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "@shared/errors";
+
+describe("OrganizationMembersService", () => {
+  let service: OrganizationMembersService;
+  let mockRepository: any;
+
+  const member = (id: number, role: string, isActive = true) => ({
+    id,
+    organizationId: 10,
+    userId: id + 100,
+    role,
+    isActive,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    memberName: `Member ${id}`,
+    memberEmail: `member${id}@example.com`,
+    memberEmailVerified: true,
+    memberStatus: "active",
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findMembers: vi.fn().mockResolvedValue([]),
+      findMemberById: vi.fn(),
+      findByContact: vi.fn().mockResolvedValue(member(1, "owner")),
+      updateMember: vi.fn(),
+      deleteMember: vi.fn().mockResolvedValue(true),
+      transferOwnership: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new OrganizationMembersService(mockRepository);
+  });
+
+  it("changes a role and reports the previous one", async () => {
+    mockRepository.findMemberById.mockResolvedValue(member(2, "recruiter"));
+    mockRepository.updateMember.mockResolvedValue(member(2, "admin"));
+
+    const result = await service.changeMemberRole(10, 2, "admin");
+
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value.previousRole).toBe("recruiter");
+      expect(result.value.member.role).toBe("admin");
+    }
+    expect(mockRepository.updateMember).toHaveBeenCalledWith(10, 2, {
+      role: "admin",
+    });
+  });
+
+  it("returns NotFoundError for a member outside the organization", async () => {
+    mockRepository.findMemberById.mockResolvedValue(null);
+
+    const result = await service.updateMemberStatus(10, 99, false);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(NotFoundError);
+    expect(mockRepository.updateMember).not.toHaveBeenCalled();
+  });
+
+  it("refuses to remove the owner", async () => {
+    mockRepository.findMemberById.mockResolvedValue(member(1, "owner"));
+
+    const result = await service.removeMember(10, 1);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ConflictError);
+    expect(mockRepository.deleteMember).not.toHaveBeenCalled();
+  });
+
+  it("transfers ownership and demotes the previous owner", async () => {
+    mockRepository.findMemberById
+      .mockResolvedValueOnce(member(2, "admin"))
+      .mockResolvedValueOnce(member(1, "admin"))
+      .mockResolvedValueOnce(member(2, "owner"));
+
+    const result = await service.transferOwnership(10, 101, 2);
+
+    expect(result.isSuccess).toBe(true);
+    expect(mockRepository.transferOwnership).toHaveBeenCalledWith(10, 1, 2);
+    if (result.isSuccess) {
+      expect(result.value.previousOwner.role).toBe("admin");
+      expect(result.value.newOwner.role).toBe("owner");
+    }
+  });
+
+  it("only transfers ownership to an active member", async () => {
+    mockRepository.findMemberById.mockResolvedValue(
+      member(3, "recruiter", false),
+    );
+
+    const result = await service.transferOwnership(10, 101, 3);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ValidationError);
+    expect(mockRepository.transferOwnership).not.toHaveBeenCalled();
+  });
+
+  it("returns ForbiddenError when the requester is not the owner", async () => {
+    mockRepository.findByContact.mockResolvedValue(member(4, "admin"));
+
+    const result = await service.transferOwnership(10, 104, 2);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(ForbiddenError);
+  });
+});
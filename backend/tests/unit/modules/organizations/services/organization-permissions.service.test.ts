@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { OrganizationPermissionsService } from "@/modules/organizations/services/organization-permissions.service";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  ORGANIZATION_PERMISSIONS,
+} from "@shared/constants/organization-permissions";
+import { DatabaseError } from "@shared/errors";
+
+describe("OrganizationPermissionsService", () => {
+  let service: OrganizationPermissionsService;
+  let mockRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findByOrganizationId: vi.fn().mockResolvedValue([]),
+      findByOrganizationIdAndRole: vi.fn().mockResolvedValue(null),
+      upsertForOrganization: vi.fn().mockResolvedValue(undefined),
+      deleteForOrganization: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new OrganizationPermissionsService(mockRepository);
+  });
+
+  it("uses the default permissions when a role is not customized", async () => {
+    const permissions = await service.getRolePermissions(10, "recruiter");
+
+    expect(permissions).toEqual(DEFAULT_ROLE_PERMISSIONS.recruiter);
+    expect(mockRepository.findByOrganizationIdAndRole).toHaveBeenCalledWith(
+      10,
+      "recruiter",
+    );
+  });
+
+  it("uses the customized permissions of a role", async () => {
+    mockRepository.findByOrganizationIdAndRole.mockResolvedValue([
+      "applications.view",
+    ]);
+
+    const permissions = await service.getRolePermissions(10, "recruiter");
+
+    expect(permissions).toEqual(["applications.view"]);
+  });
+
+  it("always grants owners every permission", async () => {
+    const permissions = await service.getRolePermissions(10, "owner");
+
+    expect(permissions).toEqual([...ORGANIZATION_PERMISSIONS]);
+    expect(mockRepository.findByOrganizationIdAndRole).not.toHaveBeenCalled();
+  });
+
+  it("stores only the given roles, in catalogue order", async () => {
+    mockRepository.findByOrganizationId.mockResolvedValue([
+      { role: "member", permissions: ["jobs.view", "applications.view"] },
+    ]);
+
+    const result = await service.updatePermissionMatrix(10, {
+      roles: { member: ["applications.view", "jobs.view"] },
+    });
+
+    expect(mockRepository.upsertForOrganization).toHaveBeenCalledWith(10, [
+      { role: "member", permissions: ["jobs.view", "applications.view"] },
+    ]);
+    expect(result.isSuccess).toBe(true);
+    if (result.isSuccess) {
+      expect(result.value.customizedRoles).toEqual(["member"]);
+      expect(result.value.roles.member).toEqual([
+        "jobs.view",
+        "applications.view",
+      ]);
+      expect(result.value.roles.admin).toEqual(DEFAULT_ROLE_PERMISSIONS.admin);
+    }
+  });
+
+  it("returns DatabaseError when the matrix cannot be loaded", async () => {
+    mockRepository.findByOrganizationId.mockRejectedValue(new Error("boom"));
+
+    const result = await service.getPermissionMatrix(10);
+
+    expect(result.isFailure).toBe(true);
+    if (result.isFailure) expect(result.error).toBeInstanceOf(DatabaseError);
+  });
+});
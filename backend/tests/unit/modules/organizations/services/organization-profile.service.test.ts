@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { OrganizationProfileService } from "@/modules/organizations/services/organization-profile.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { NotFoundError } from "@shared/errors";
+
+const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+const organization = {
+  id: 3,
+  name: "Grace Church",
+  mission: "Serving the city",
+  logoUrl: null,
+  url: "https://grace.example.com",
+  city: "Dallas",
+  state: "TX",
+  country: "United States",
+  isVerified: true,
+};
+
+const followedJob = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  title: "Youth Pastor",
+  status: "published",
+  organizationId: 3,
+  organizationName: "Grace Church",
+  city: "Dallas",
+  state: "TX",
+  isRemote: false,
+  followersNotifiedAt: null,
+  ...overrides,
+});
+
+describe("OrganizationProfileService", () => {
+  let service: OrganizationProfileService;
+  let mockRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findPublicOrganization: vi.fn().mockResolvedValue(organization),
+      findOpenJobs: vi.fn().mockResolvedValue([]),
+      countFollowers: vi.fn().mockResolvedValue(4),
+      isFollowing: vi.fn().mockResolvedValue(true),
+      follow: vi.fn().mockResolvedValue(undefined),
+      unfollow: vi.fn().mockResolvedValue(undefined),
+      findFollowedJob: vi.fn().mockResolvedValue(followedJob()),
+      findFollowerContacts: vi.fn().mockResolvedValue([
+        { userId: 5, email: "sam@example.com", fullName: "Sam Seeker" },
+        { userId: 6, email: "fay@example.com", fullName: "Fay Follower" },
+      ]),
+      markFollowersNotified: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new OrganizationProfileService(mockRepository);
+  });
+
+  describe("getProfile", () => {
+    it("reports whether the signed-in visitor follows the organization", async () => {
+      const result = await service.getProfile(3, 5);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toMatchObject({
+          name: "Grace Church",
+          followerCount: 4,
+          isFollowing: true,
+          openJobs: [],
+        });
+      }
+      expect(mockRepository.isFollowing).toHaveBeenCalledWith(3, 5);
+    });
+
+    it("does not look up follows for anonymous visitors", async () => {
+      const result = await service.getProfile(3);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.isFollowing).toBe(false);
+      }
+      expect(mockRepository.isFollowing).not.toHaveBeenCalled();
+    });
+
+    it("reports an inactive organization as not found", async () => {
+      mockRepository.findPublicOrganization.mockResolvedValue(null);
+
+      const result = await service.getProfile(3);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("follow", () => {
+    it("follows the organization and returns the follow state", async () => {
+      const result = await service.follow(3, 5);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toEqual({
+          organizationId: 3,
+          isFollowing: true,
+          followerCount: 4,
+        });
+      }
+      expect(mockRepository.follow).toHaveBeenCalledWith(3, 5);
+    });
+
+    it("refuses to follow an inactive organization", async () => {
+      mockRepository.findPublicOrganization.mockResolvedValue(null);
+
+      const result = await service.follow(3, 5);
+
+      expect(result.isFailure).toBe(true);
+      expect(mockRepository.follow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("unfollow", () => {
+    it("unfollows the organization", async () => {
+      const result = await service.unfollow(3, 5);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.isFollowing).toBe(false);
+      }
+      expect(mockRepository.unfollow).toHaveBeenCalledWith(3, 5);
+    });
+  });
+
+  describe("notifyFollowersOfJob", () => {
+    it("queues an email to each follower and marks the job announced", async () => {
+      const result = await service.notifyFollowersOfJob(7);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toBe(2);
+      }
+      expect(addJobMock).toHaveBeenCalledTimes(2);
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendFollowedOrganizationJob",
+        {
+          userId: 5,
+          email: "sam@example.com",
+          fullName: "Sam Seeker",
+          jobId: 7,
+          jobTitle: "Youth Pastor",
+          organizationId: 3,
+          organizationName: "Grace Church",
+          location: "Dallas, TX",
+        },
+      );
+      expect(mockRepository.markFollowersNotified).toHaveBeenCalledWith(7);
+    });
+
+    it("describes remote jobs as remote", async () => {
+      mockRepository.findFollowedJob.mockResolvedValue(
+        followedJob({ isRemote: true }),
+      );
+
+      await service.notifyFollowersOfJob(7);
+
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.EMAIL_QUEUE,
+        "sendFollowedOrganizationJob",
+        expect.objectContaining({ location: "Remote" }),
+      );
+    });
+
+    it("skips a job whose followers were already told", async () => {
+      mockRepository.findFollowedJob.mockResolvedValue(
+        followedJob({ followersNotifiedAt: new Date() }),
+      );
+
+      const result = await service.notifyFollowersOfJob(7);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value).toBe(0);
+      }
+      expect(addJobMock).not.toHaveBeenCalled();
+      expect(mockRepository.markFollowersNotified).not.toHaveBeenCalled();
+    });
+
+    it("skips a job that is no longer published", async () => {
+      mockRepository.findFollowedJob.mockResolvedValue(
+        followedJob({ status: "paused" }),
+      );
+
+      const result = await service.notifyFollowersOfJob(7);
+
+      expect(result.isSuccess).toBe(true);
+      expect(addJobMock).not.toHaveBeenCalled();
+    });
+
+    it("reports a deleted job as not found", async () => {
+      mockRepository.findFollowedJob.mockResolvedValue(null);
+
+      const result = await service.notifyFollowersOfJob(7);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+});
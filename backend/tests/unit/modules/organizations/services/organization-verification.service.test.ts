@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { OrganizationVerificationService } from "@/modules/organizations/services/organization-verification.service";
+import {
+  queueService,
+  QUEUE_NAMES,
+} from "@shared/infrastructure/queue.service";
+import { BadRequestError, ConflictError, NotFoundError } from "@shared/errors";
+
+const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+
+const request = (overrides: Record<string, unknown> = {}) => ({
+  id: 9,
+  organizationId: 3,
+  status: "pending",
+  note: null,
+  nonprofitRegistrationUrl: null,
+  einLetterUrl: null,
+  decisionNote: null,
+  decidedAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const review = (overrides: Record<string, unknown> = {}) => ({
+  ...request(),
+  organizationName: "Grace Church",
+  organizationUrl: "https://grace.example.com",
+  submittedBy: 11,
+  submitterName: "Olive Owner",
+  decidedBy: null,
+  ...overrides,
+});
+
+const file = (originalname: string) =>
+  ({
+    originalname,
+    path: `/tmp/${originalname}`,
+    size: 2048,
+    mimetype: "application/pdf",
+  }) as any;
+
+describe("OrganizationVerificationService", () => {
+  let service: OrganizationVerificationService;
+  let mockRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockRepository = {
+      findOrganizationVerification: vi.fn().mockResolvedValue({
+        name: "Grace Church",
+        isVerified: false,
+        verifiedAt: null,
+      }),
+      findLatestRequest: vi.fn().mockResolvedValue(null),
+      createRequest: vi.fn().mockResolvedValue(request()),
+      findRequests: vi.fn(),
+      findRequestById: vi.fn().mockResolvedValue(review()),
+      decideRequest: vi.fn().mockResolvedValue(undefined),
+    };
+
+    service = new OrganizationVerificationService(mockRepository);
+  });
+
+  describe("getVerification", () => {
+    it("returns the verified state with the latest request", async () => {
+      mockRepository.findLatestRequest.mockResolvedValue(
+        request({ status: "rejected", decisionNote: "Letter is unreadable" }),
+      );
+
+      const result = await service.getVerification(3);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.isVerified).toBe(false);
+        expect(result.value.latestRequest?.status).toBe("rejected");
+      }
+    });
+
+    it("reports a missing organization as not found", async () => {
+      mockRepository.findOrganizationVerification.mockResolvedValue(null);
+
+      const result = await service.getVerification(3);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("submitVerification", () => {
+    it("opens a request and queues its documents for upload", async () => {
+      const result = await service.submitVerification(
+        3,
+        11,
+        { note: "Registered in Texas" },
+        {
+          nonprofitRegistration: file("registration.pdf"),
+          einLetter: file("ein.pdf"),
+        },
+        "corr-1",
+      );
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.createRequest).toHaveBeenCalledWith({
+        organizationId: 3,
+        submittedBy: 11,
+        note: "Registered in Texas",
+      });
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.FILE_UPLOAD_QUEUE,
+        "uploadFile",
+        expect.objectContaining({
+          entityType: "organization_verification",
+          entityId: "9",
+          tempFiles: [
+            expect.objectContaining({
+              tempPath: "/tmp/registration.pdf",
+              fieldName: "nonprofitRegistration",
+            }),
+            expect.objectContaining({
+              tempPath: "/tmp/ein.pdf",
+              fieldName: "einLetter",
+            }),
+          ],
+        }),
+      );
+    });
+
+    it("requires at least one document", async () => {
+      const result = await service.submitVerification(3, 11, {}, {}, "corr-1");
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(BadRequestError);
+      }
+      expect(mockRepository.createRequest).not.toHaveBeenCalled();
+    });
+
+    it("does not accept a second request while one is under review", async () => {
+      mockRepository.findLatestRequest.mockResolvedValue(request());
+
+      const result = await service.submitVerification(
+        3,
+        11,
+        {},
+        { einLetter: file("ein.pdf") },
+        "corr-1",
+      );
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+      }
+      expect(addJobMock).not.toHaveBeenCalled();
+    });
+
+    it("lets owners resubmit after a rejection", async () => {
+      mockRepository.findLatestRequest.mockResolvedValue(
+        request({ status: "rejected" }),
+      );
+
+      const result = await service.submitVerification(
+        3,
+        11,
+        {},
+        { einLetter: file("ein.pdf") },
+        "corr-1",
+      );
+
+      expect(result.isSuccess).toBe(true);
+    });
+
+    it("rejects organizations that are already verified", async () => {
+      mockRepository.findOrganizationVerification.mockResolvedValue({
+        name: "Grace Church",
+        isVerified: true,
+        verifiedAt: new Date(),
+      });
+
+      const result = await service.submitVerification(
+        3,
+        11,
+        {},
+        { einLetter: file("ein.pdf") },
+        "corr-1",
+      );
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+      }
+    });
+  });
+
+  describe("approve", () => {
+    it("verifies the organization and reindexes its employer document", async () => {
+      const result = await service.approve(9, 42, "Documents check out");
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.decideRequest).toHaveBeenCalledWith(9, {
+        status: "approved",
+        decidedBy: 42,
+        decisionNote: "Documents check out",
+      });
+      expect(addJobMock).toHaveBeenCalledWith(
+        QUEUE_NAMES.TYPESENSE_EMPLOYER_QUEUE,
+        "updateEmployerIndex",
+        expect.objectContaining({
+          id: "3",
+          name: "Grace Church",
+          isVerified: true,
+        }),
+      );
+    });
+
+    it("does not decide a request twice", async () => {
+      mockRepository.findRequestById.mockResolvedValue(
+        review({ status: "rejected" }),
+      );
+
+      const result = await service.approve(9, 42);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(ConflictError);
+      }
+      expect(mockRepository.decideRequest).not.toHaveBeenCalled();
+      expect(addJobMock).not.toHaveBeenCalled();
+    });
+
+    it("reports a missing request as not found", async () => {
+      mockRepository.findRequestById.mockResolvedValue(null);
+
+      const result = await service.approve(9, 42);
+
+      expect(result.isFailure).toBe(true);
+      if (result.isFailure) {
+        expect(result.error).toBeInstanceOf(NotFoundError);
+      }
+    });
+  });
+
+  describe("reject", () => {
+    it("records the reason without touching the search index", async () => {
+      const result = await service.reject(9, 42, "EIN letter is unreadable");
+
+      expect(result.isSuccess).toBe(true);
+      expect(mockRepository.decideRequest).toHaveBeenCalledWith(9, {
+        status: "rejected",
+        decidedBy: 42,
+        decisionNote: "EIN letter is unreadable",
+      });
+      expect(addJobMock).not.toHaveBeenCalled();
+    });
+  });
+});
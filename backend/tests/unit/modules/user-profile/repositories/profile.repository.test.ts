@@ -13,16 +13,22 @@ function createMockRepository(
     countSavedJobs: vi.fn().mockResolvedValue(0),
     getSavedJobIdsForJobs: vi.fn(),
     unsaveJobForUser: vi.fn(),
+    findSaversOfJob: vi.fn().mockResolvedValue([]),
+    findSaversDueDeadlineReminder: vi.fn().mockResolvedValue([]),
+    markDeadlineRemindersSent: vi.fn(),
+    clearDeadlineReminders: vi.fn(),
     ...overrides,
   };
 }
 
+const mockEventBus = { publish: vi.fn().mockResolvedValue(undefined) };
+
 describe("SavedJobService.saveJobForCurrentUser - saved jobs limit", () => {
   it("returns failure when saved jobs >= 50", async () => {
     const repo = createMockRepository({
       countSavedJobs: vi.fn().mockResolvedValue(50),
     });
-    const service = new SavedJobService(repo);
+    const service = new SavedJobService(repo, mockEventBus);
 
     const result = await service.saveJobForCurrentUser(1, 123);
 
@@ -39,7 +45,7 @@ describe("SavedJobService.saveJobForCurrentUser - saved jobs limit", () => {
     const repo = createMockRepository({
       countSavedJobs: vi.fn().mockResolvedValue(49),
     });
-    const service = new SavedJobService(repo);
+    const service = new SavedJobService(repo, mockEventBus);
 
     const result = await service.saveJobForCurrentUser(1, 123);
 
@@ -0,0 +1,89 @@
+import {
+  buildSearchFacets,
+  replaceFacetCounts,
+} from "@shared/infrastructure/typesense.service/build-search-facets";
+
+describe("buildSearchFacets", () => {
+  const fields = ["jobType", "isRemote", "skills"] as const;
+
+  it("should return an empty list for every requested field when Typesense returns no facets", () => {
+    expect(buildSearchFacets(undefined, fields)).toEqual({
+      jobType: [],
+      isRemote: [],
+      skills: [],
+    });
+  });
+
+  it("should map facet counts to value/count pairs", () => {
+    const facets = buildSearchFacets(
+      [
+        {
+          field_name: "jobType",
+          counts: [
+            { value: "full-time", count: 12 },
+            { value: "contract", count: 3 },
+          ],
+        },
+        { field_name: "isRemote", counts: [{ value: "true", count: 4 }] },
+      ],
+      fields,
+    );
+
+    expect(facets.jobType).toEqual([
+      { value: "full-time", count: 12 },
+      { value: "contract", count: 3 },
+    ]);
+    expect(facets.isRemote).toEqual([{ value: "true", count: 4 }]);
+    expect(facets.skills).toEqual([]);
+  });
+
+  it("should drop zero counts and fields that were not requested", () => {
+    const facets = buildSearchFacets(
+      [
+        {
+          field_name: "skills",
+          counts: [
+            { value: "TypeScript", count: 2 },
+            { value: "Go", count: 0 },
+          ],
+        },
+        { field_name: "country", counts: [{ value: "USA", count: 9 }] },
+      ],
+      fields,
+    );
+
+    expect(facets.skills).toEqual([{ value: "TypeScript", count: 2 }]);
+    expect(facets).not.toHaveProperty("country");
+  });
+});
+
+describe("replaceFacetCounts", () => {
+  const jobTypeCounts = {
+    field_name: "jobType",
+    counts: [{ value: "full-time", count: 2 }],
+  };
+  const skillsCounts = {
+    field_name: "skills",
+    counts: [{ value: "Music", count: 5 }],
+  };
+
+  it("should replace the counts of fields counted separately", () => {
+    const replacement = {
+      field_name: "jobType",
+      counts: [
+        { value: "full-time", count: 2 },
+        { value: "contract", count: 7 },
+      ],
+    };
+
+    expect(
+      replaceFacetCounts([jobTypeCounts, skillsCounts], [[replacement]]),
+    ).toEqual([skillsCounts, replacement]);
+  });
+
+  it("should keep the original counts when a separate search failed", () => {
+    expect(
+      replaceFacetCounts([jobTypeCounts, skillsCounts], [undefined]),
+    ).toEqual([jobTypeCounts, skillsCounts]);
+  });
+});
@@ -84,6 +84,9 @@ const FULL_PROFILE: RecommendationProfile = {
   location: { city: "Austin", state: "TX", country: "USA" },
   jobTypes: ["full-time", "part-time"],
   compensationTypes: ["paid"],
+  workAreas: [],
+  commuteTime: null,
+  geopoint: null,
 };
 
 const SKILLS_ONLY_PROFILE: RecommendationProfile = {
@@ -91,6 +94,9 @@ const SKILLS_ONLY_PROFILE: RecommendationProfile = {
   location: null,
   jobTypes: null,
   compensationTypes: null,
+  workAreas: [],
+  commuteTime: null,
+  geopoint: null,
 };
 
 const PREFERENCES_ONLY_PROFILE: RecommendationProfile = {
@@ -98,6 +104,9 @@ const PREFERENCES_ONLY_PROFILE: RecommendationProfile = {
   location: { city: "Denver", state: "CO", country: "USA" },
   jobTypes: ["contract"],
   compensationTypes: ["missionary"],
+  workAreas: [],
+  commuteTime: null,
+  geopoint: null,
 };
 
 const EMPTY_PROFILE: RecommendationProfile = {
@@ -105,6 +114,9 @@ const EMPTY_PROFILE: RecommendationProfile = {
   location: null,
   jobTypes: null,
   compensationTypes: null,
+  workAreas: [],
+  commuteTime: null,
+  geopoint: null,
 };
 
 // ─── Tests ──────────────────────────────────────────────────────────────
@@ -427,6 +439,63 @@ describe("JobRecommendationService", () => {
     });
   });
 
+  // ── Commute radius ───────────────────────────────────────────────────
+
+  describe("commute time", () => {
+    const AUSTIN = { lat: 30.2672, lng: -97.7431 };
+
+    beforeEach(() => {
+      vi.mocked(
+        typesenseService.searchJobsForRecommendations,
+      ).mockResolvedValue(makeSearchResponse([]));
+    });
+
+    it("should search within the commute radius, keeping remote jobs", async () => {
+      vi.mocked(profilePort.getRecommendationProfile).mockResolvedValue({
+        ...FULL_PROFILE,
+        commuteTime: "up_to_30_minutes",
+        geopoint: AUSTIN,
+      });
+
+      await service.getRecommendations(1, 1, 10);
+
+      const filters = vi.mocked(typesenseService.searchJobsForRecommendations)
+        .mock.calls[0]![1];
+      expect(filters).toContain(
+        "(geopoint:(30.2672, -97.7431, 20 mi) || isRemote:true)",
+      );
+      expect(filters).not.toContain("city:");
+    });
+
+    it("should fall back to the location match for a 90+ minute commute", async () => {
+      vi.mocked(profilePort.getRecommendationProfile).mockResolvedValue({
+        ...FULL_PROFILE,
+        commuteTime: "up_to_90_minutes_or_more",
+        geopoint: AUSTIN,
+      });
+
+      await service.getRecommendations(1, 1, 10);
+
+      const filters = vi.mocked(typesenseService.searchJobsForRecommendations)
+        .mock.calls[0]![1];
+      expect(filters).not.toContain("geopoint:");
+      expect(filters).toContain("isRemote:true");
+    });
+
+    it("should fall back to the location match when the profile was not geocoded", async () => {
+      vi.mocked(profilePort.getRecommendationProfile).mockResolvedValue({
+        ...FULL_PROFILE,
+        commuteTime: "up_to_30_minutes",
+      });
+
+      await service.getRecommendations(1, 1, 10);
+
+      const filters = vi.mocked(typesenseService.searchJobsForRecommendations)
+        .mock.calls[0]![1];
+      expect(filters).not.toContain("geopoint:");
+    });
+  });
+
   // ── Scoring calculation ──────────────────────────────────────────────
 
   describe("scoring calculation", () => {
@@ -579,6 +648,85 @@ describe("JobRecommendationService", () => {
     });
   });
 
+  // ── Work area preferences ────────────────────────────────────────────
+
+  describe("work area preferences", () => {
+    const WORK_AREA_PROFILE: RecommendationProfile = {
+      ...SKILLS_ONLY_PROFILE,
+      workAreas: ["Media/design/arts"],
+    };
+
+    it("should count work areas as personalization", async () => {
+      vi.mocked(profilePort.getRecommendationProfile).mockResolvedValue({
+        ...EMPTY_PROFILE,
+        workAreas: ["Media/design/arts"],
+      });
+      vi.mocked(
+        typesenseService.searchJobsForRecommendations,
+      ).mockResolvedValue(makeSearchResponse([]));
+
+      const result = await service.getRecommendations(1, 1, 10);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.hasPersonalization).toBe(true);
+      }
+    });
+
+    it("should boost matching work areas without filtering on them", async () => {
+      vi.mocked(profilePort.getRecommendationProfile).mockResolvedValue(
+        WORK_AREA_PROFILE,
+      );
+      vi.mocked(
+        typesenseService.searchJobsForRecommendations,
+      ).mockResolvedValue(makeSearchResponse([]));
+
+      await service.getRecommendations(1, 1, 10);
+
+      const [, filters, options] = vi.mocked(
+        typesenseService.searchJobsForRecommendations,
+      ).mock.calls[0]!;
+      expect(filters).toBe("isActive:true");
+      expect(options?.boostFilter).toBe("workAreas:[`Media/design/arts`]");
+    });
+
+    it("should not pass a boost filter when no work areas are selected", async () => {
+      vi.mocked(profilePort.getRecommendationProfile).mockResolvedValue(
+        SKILLS_ONLY_PROFILE,
+      );
+      vi.mocked(
+        typesenseService.searchJobsForRecommendations,
+      ).mockResolvedValue(makeSearchResponse([]));
+
+      await service.getRecommendations(1, 1, 10);
+
+      const options = vi.mocked(typesenseService.searchJobsForRecommendations)
+        .mock.calls[0]![2];
+      expect(options).not.toHaveProperty("boostFilter");
+    });
+
+    it("should rank jobs in a preferred work area ahead of higher scores", async () => {
+      vi.mocked(profilePort.getRecommendationProfile).mockResolvedValue(
+        WORK_AREA_PROFILE,
+      );
+      vi.mocked(
+        typesenseService.searchJobsForRecommendations,
+      ).mockResolvedValue(
+        makeSearchResponse([
+          makeJobDoc({ id: "1", workAreas: ["Education"] }),
+          makeJobDoc({ id: "2", workAreas: ["Media/design/arts"] }),
+        ]),
+      );
+
+      const result = await service.getRecommendations(1, 1, 10);
+
+      expect(result.isSuccess).toBe(true);
+      if (result.isSuccess) {
+        expect(result.value.jobs.map((job) => job.id)).toEqual(["2", "1"]);
+      }
+    });
+  });
+
   // ── Empty results ────────────────────────────────────────────────────
 
   describe("empty results", () => {
@@ -0,0 +1,56 @@
+import { LocalGeocoderService } from "@shared/infrastructure/geocoder/local-geocoder.service";
+
+describe("LocalGeocoderService", () => {
+  const geocoder = new LocalGeocoderService({
+    "99999": { lat: 1.5, lng: 2.5 },
+  });
+
+  it("should resolve a known zip code, including ZIP+4", async () => {
+    expect(await geocoder.geocode({ zipcode: "30303" })).toEqual({
+      lat: 33.749,
+      lng: -84.388,
+    });
+    expect(await geocoder.geocode({ zipcode: "30303-1234" })).toEqual({
+      lat: 33.749,
+      lng: -84.388,
+    });
+  });
+
+  it("should resolve a city by state code or full state name", async () => {
+    const byCode = await geocoder.geocode({ city: "Denver", state: "CO" });
+    const byName = await geocoder.geocode({
+      city: "denver",
+      state: "Colorado",
+    });
+
+    expect(byCode).toEqual({ lat: 39.7392, lng: -104.9903 });
+    expect(byName).toEqual(byCode);
+  });
+
+  it("should prefer the zip code over the city", async () => {
+    expect(
+      await geocoder.geocode({ city: "Denver", state: "CO", zipcode: "78701" }),
+    ).toEqual({ lat: 30.2672, lng: -97.7431 });
+  });
+
+  it("should fall back to the state centroid for an unknown city", async () => {
+    expect(await geocoder.geocode({ city: "Smallville", state: "KS" })).toEqual(
+      { lat: 38.5266, lng: -96.7265 },
+    );
+  });
+
+  it("should use extra zip codes passed to the constructor", async () => {
+    expect(await geocoder.geocode({ zipcode: "99999" })).toEqual({
+      lat: 1.5,
+      lng: 2.5,
+    });
+  });
+
+  it("should return null outside the US or when nothing matches", async () => {
+    expect(
+      await geocoder.geocode({ city: "Toronto", country: "Canada" }),
+    ).toBeNull();
+    expect(await geocoder.geocode({ city: "Nowhere" })).toBeNull();
+    expect(await geocoder.geocode({})).toBeNull();
+  });
+});
@@ -51,6 +51,57 @@ describe("TypesenseQueryBuilder", () => {
     });
   });
 
+  describe("Geo Radius Filters", () => {
+    it("should build a radius filter around the centre point", () => {
+      const query = builder
+        .addGeoRadiusFilter({ lat: 30.2672, lng: -97.7431 }, 25)
+        .build();
+
+      expect(query).toBe("geopoint:(30.2672, -97.7431, 25 mi)");
+    });
+
+    it("should keep the remote fallback inside parentheses", () => {
+      const query = builder
+        .addGeoRadiusFilter({ lat: 30.2672, lng: -97.7431 }, 25, true)
+        .addSingleFilter("isActive", true)
+        .build();
+
+      expect(query).toBe(
+        "(geopoint:(30.2672, -97.7431, 25 mi) || isRemote:true) && isActive:true",
+      );
+    });
+  });
+
+  describe("Compensation Range Filters", () => {
+    it("should match pay ranges overlapping both bounds", () => {
+      const query = builder.addCompensationRangeFilter(40000, 60000).build();
+
+      expect(query).toBe(
+        "(compensationMax:>=40000 || compensationMin:>=40000) && (compensationMin:<=60000 || compensationMax:<=60000)",
+      );
+    });
+
+    it("should add nothing without bounds", () => {
+      expect(builder.addCompensationRangeFilter().build()).toBe("");
+    });
+  });
+
+  describe("Verified Employer Filter", () => {
+    it("should join on verified employers", () => {
+      const query = builder
+        .addVerifiedEmployerFilter(true)
+        .addSingleFilter("isActive", true)
+        .build();
+
+      expect(query).toBe("$employers(isVerified:=true) && isActive:true");
+    });
+
+    it("should add nothing unless requested", () => {
+      expect(builder.addVerifiedEmployerFilter(false).build()).toBe("");
+      expect(builder.addVerifiedEmployerFilter().build()).toBe("");
+    });
+  });
+
   describe("Skills Filters", () => {
     it("should build AND query for multiple skills", () => {
       const query = builder
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ApplicationsToInterviewsAdapter } from "@shared/adapters/applications-to-interviews.adapter";
+
+describe("ApplicationsToInterviewsAdapter", () => {
+  let adapter: ApplicationsToInterviewsAdapter;
+  let mockHiringPipelineRepository: any;
+
+  const stage = (
+    key: string,
+    allowsInterviews = false,
+    isTerminal = false,
+  ) => ({
+    key,
+    label: key,
+    isTerminal,
+    allowsInterviews,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockHiringPipelineRepository = {
+      findByOrganizationId: vi.fn().mockResolvedValue(null),
+    };
+
+    adapter = new ApplicationsToInterviewsAdapter(mockHiringPipelineRepository);
+  });
+
+  describe("stageAllowsInterviews", () => {
+    it("should use the default pipeline when the organization has none", async () => {
+      await expect(
+        adapter.stageAllowsInterviews(10, "interviewing"),
+      ).resolves.toBe(true);
+      await expect(adapter.stageAllowsInterviews(10, "reviewed")).resolves.toBe(
+        false,
+      );
+      expect(
+        mockHiringPipelineRepository.findByOrganizationId,
+      ).toHaveBeenCalledWith(10);
+    });
+
+    it("should follow the stage flags of the organization's pipeline", async () => {
+      mockHiringPipelineRepository.findByOrganizationId.mockResolvedValue({
+        id: 1,
+        organizationId: 10,
+        stages: [
+          stage("pending"),
+          stage("phone_screen", true),
+          stage("interviewing"),
+          stage("hired", false, true),
+          stage("rejected", false, true),
+          stage("withdrawn", false, true),
+        ],
+        transitions: [],
+      });
+
+      await expect(
+        adapter.stageAllowsInterviews(10, "phone_screen"),
+      ).resolves.toBe(true);
+      await expect(
+        adapter.stageAllowsInterviews(10, "interviewing"),
+      ).resolves.toBe(false);
+    });
+
+    it("should not allow interviews for an unknown status", async () => {
+      await expect(adapter.stageAllowsInterviews(10, "archived")).resolves.toBe(
+        false,
+      );
+    });
+  });
+});
@@ -27,6 +27,7 @@ describe("JobBoardToApplicationsAdapter", () => {
 
     mockJobBoardRepository = {
       findJobById: vi.fn(),
+      findScreeningQuestionsByJobId: vi.fn(),
     };
 
     adapter = new JobBoardToApplicationsAdapter(mockJobBoardRepository);
@@ -131,4 +132,30 @@ describe("JobBoardToApplicationsAdapter", () => {
       expect(result).toBe(false);
     });
   });
+
+  describe("getScreeningQuestions", () => {
+    it("should return the job's screening questions", async () => {
+      const questions = [
+        {
+          id: 1,
+          question: "Are you authorized to work in the US?",
+          type: "yes_no",
+          options: null,
+          isRequired: true,
+          knockout: { action: "reject", expectedAnswer: true },
+          position: 0,
+        },
+      ];
+      mockJobBoardRepository.findScreeningQuestionsByJobId.mockResolvedValue(
+        questions,
+      );
+
+      const result = await adapter.getScreeningQuestions(10);
+
+      expect(result).toEqual(questions);
+      expect(
+        mockJobBoardRepository.findScreeningQuestionsByJobId,
+      ).toHaveBeenCalledWith(10);
+    });
+  });
 });
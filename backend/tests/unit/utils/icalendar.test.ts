@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { createCalendarEvent } from "@shared/utils/icalendar";
+
+describe("createCalendarEvent", () => {
+  const baseInput = {
+    uid: "interview-40@getinvolved.team",
+    sequence: 2,
+    method: "REQUEST" as const,
+    start: new Date("2026-03-10T15:00:00.000Z"),
+    end: new Date("2026-03-10T16:00:00.000Z"),
+    summary: "Interview: Youth Pastor",
+    organizer: { name: "Grace Church", email: "noreply@test.com" },
+    attendees: [{ name: "Jane Applicant", email: "jane@test.com" }],
+  };
+
+  it("builds a VEVENT with UTC times, UID and SEQUENCE", () => {
+    const ics = createCalendarEvent(baseInput);
+    const lines = ics.replace(/\r\n /g, "").split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("METHOD:REQUEST");
+    expect(lines).toContain("UID:interview-40@getinvolved.team");
+    expect(lines).toContain("SEQUENCE:2");
+    expect(lines).toContain("DTSTART:20260310T150000Z");
+    expect(lines).toContain("DTEND:20260310T160000Z");
+    expect(lines).toContain("STATUS:CONFIRMED");
+    expect(lines).toContain(
+      'ATTENDEE;CN="Jane Applicant";ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:jane@test.com',
+    );
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("marks cancellations as CANCELLED", () => {
+    const ics = createCalendarEvent({ ...baseInput, method: "CANCEL" });
+
+    expect(ics).toContain("METHOD:CANCEL\r\n");
+    expect(ics).toContain("STATUS:CANCELLED\r\n");
+  });
+
+  it("escapes text values", () => {
+    const ics = createCalendarEvent({
+      ...baseInput,
+      location: "Room 4; Main St, Springfield\nSecond floor",
+    });
+
+    expect(ics).toContain(
+      "LOCATION:Room 4\\; Main St\\, Springfield\\nSecond floor\r\n",
+    );
+  });
+
+  it("folds lines longer than 75 octets", () => {
+    const ics = createCalendarEvent({
+      ...baseInput,
+      description: "A".repeat(200),
+    });
+
+    for (const line of ics.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).toContain(`DESCRIPTION:${"A".repeat(200)}\r\n`);
+  });
+});
@@ -1,4 +1,62 @@
 import { statusRegressionGuard } from "@/utils/update-status-guard";
+import type { HiringPipelineDefinition } from "@shared/constants/hiring-pipeline";
+
+const ministryPipeline: HiringPipelineDefinition = {
+  name: "Ministry pipeline",
+  stages: [
+    {
+      key: "pending",
+      label: "Submitted",
+      position: 0,
+      isTerminal: false,
+      allowsInterviews: false,
+    },
+    {
+      key: "background_check",
+      label: "Background Check",
+      position: 1,
+      isTerminal: false,
+      allowsInterviews: false,
+    },
+    {
+      key: "board_approval",
+      label: "Board Approval",
+      position: 2,
+      isTerminal: false,
+      allowsInterviews: false,
+    },
+    {
+      key: "approved",
+      label: "Approved",
+      position: 3,
+      isTerminal: true,
+      allowsInterviews: false,
+    },
+    {
+      key: "declined",
+      label: "Declined",
+      position: 4,
+      isTerminal: true,
+      allowsInterviews: false,
+    },
+    {
+      key: "withdrawn",
+      label: "Withdrawn",
+      position: 5,
+      isTerminal: true,
+      allowsInterviews: false,
+    },
+  ],
+  transitions: [
+    { from: "pending", to: "background_check" },
+    { from: "background_check", to: "board_approval" },
+    { from: "background_check", to: "declined" },
+    { from: "board_approval", to: "approved" },
+    { from: "board_approval", to: "declined" },
+    // Ignored: terminal stages never move on
+    { from: "approved", to: "board_approval" },
+  ],
+};
 
 describe("statusRegressionGuard", () => {
   test("allows valid transitions and returns the attempted status", () => {
@@ -33,4 +91,37 @@ describe("statusRegressionGuard", () => {
     expect(() => statusRegressionGuard("hired", "withdrawn")).toThrow();
     expect(() => statusRegressionGuard("withdrawn", "reviewed")).toThrow();
   });
+
+  describe("with a custom pipeline", () => {
+    test("allows transitions defined by the pipeline", () => {
+      expect(
+        statusRegressionGuard("pending", "background_check", ministryPipeline),
+      ).toBe("background_check");
+      expect(
+        statusRegressionGuard(
+          "background_check",
+          "board_approval",
+          ministryPipeline,
+        ),
+      ).toBe("board_approval");
+    });
+
+    test("rejects transitions missing from the pipeline", () => {
+      expect(() =>
+        statusRegressionGuard("pending", "board_approval", ministryPipeline),
+      ).toThrow("Invalid status transition from pending to board_approval");
+    });
+
+    test("rejects stages that are not part of the pipeline", () => {
+      expect(() =>
+        statusRegressionGuard("pending", "reviewed", ministryPipeline),
+      ).toThrow("Unknown status reviewed for pipeline Ministry pipeline");
+    });
+
+    test("never moves applications out of terminal stages", () => {
+      expect(() =>
+        statusRegressionGuard("approved", "board_approval", ministryPipeline),
+      ).toThrow();
+    });
+  });
 });
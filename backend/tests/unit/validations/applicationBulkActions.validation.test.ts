@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { bulkActionsRejectApplications } from "@/validations/applicationBulkActions.validation";
+
+describe("bulkActionsRejectApplications", () => {
+  it("should match a reject action", () => {
+    expect(
+      bulkActionsRejectApplications({
+        actions: [{ type: "reject", templateKey: "position_filled" }],
+      }),
+    ).toBe(true);
+  });
+
+  it("should match a move to the rejected stage", () => {
+    expect(
+      bulkActionsRejectApplications({
+        actions: [
+          { type: "add_tag", tag: "later" },
+          { type: "move_to_stage", status: " rejected " },
+        ],
+      }),
+    ).toBe(true);
+  });
+
+  it("should not match moves to other stages", () => {
+    expect(
+      bulkActionsRejectApplications({
+        actions: [{ type: "move_to_stage", status: "reviewed" }],
+      }),
+    ).toBe(false);
+  });
+
+  it("should not match malformed bodies", () => {
+    expect(bulkActionsRejectApplications(undefined)).toBe(false);
+    expect(bulkActionsRejectApplications({ actions: "reject" })).toBe(false);
+    expect(bulkActionsRejectApplications({ actions: [null] })).toBe(false);
+  });
+});
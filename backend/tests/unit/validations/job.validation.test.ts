@@ -0,0 +1,206 @@
+import { describe, it, expect } from "vitest";
+import {
+  createJobSchema,
+  updateJobSchema,
+  updateJobStatusSchema,
+} from "@/validations/job.validation";
+
+describe("Job Validation - Compensation", () => {
+  const basePayload = {
+    title: "Youth Pastor",
+    description: "Lead the youth ministry",
+    city: "Denver",
+    state: "CO",
+    country: "United States",
+    zipcode: "80202",
+    jobType: "full-time",
+    compensationType: "paid",
+    applicationDeadline: "2030-01-01T00:00:00.000Z",
+    skills: ["Leadership"],
+  };
+
+  const parseCreate = (body: Record<string, unknown>) =>
+    createJobSchema.safeParse({
+      body: { ...basePayload, ...body },
+      params: {},
+      query: {},
+    });
+
+  const parseUpdate = (body: Record<string, unknown>) =>
+    updateJobSchema.safeParse({
+      body,
+      params: { jobId: "1" },
+      query: {},
+    });
+
+  describe("createJobSchema", () => {
+    it("should accept a job without a pay range", () => {
+      expect(parseCreate({}).success).toBe(true);
+    });
+
+    it("should accept a full pay range and normalize the currency", () => {
+      const result = parseCreate({
+        compensationMin: 45_000,
+        compensationMax: 55_000,
+        compensationCurrency: "usd",
+        payPeriod: "yearly",
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.body.compensationCurrency).toBe("USD");
+      }
+    });
+
+    it("should reject a minimum above the maximum", () => {
+      const result = parseCreate({
+        compensationMin: 60_000,
+        compensationMax: 50_000,
+        compensationCurrency: "USD",
+        payPeriod: "yearly",
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe(
+          "Minimum compensation cannot exceed the maximum",
+        );
+      }
+    });
+
+    it("should require a currency and pay period with a pay range", () => {
+      const result = parseCreate({ compensationMin: 20 });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe(
+          "A currency and pay period are required with a pay range",
+        );
+      }
+    });
+
+    it("should reject a currency that is not an ISO 4217 code", () => {
+      const result = parseCreate({
+        compensationMin: 20,
+        compensationCurrency: "dollars",
+        payPeriod: "hourly",
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept support-raising fields on missionary roles", () => {
+      const result = parseCreate({
+        compensationType: "missionary",
+        supportRaisedByCandidate: true,
+        monthlySupportTarget: 4_500,
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject support-raising fields on other roles", () => {
+      const result = parseCreate({
+        compensationType: "stipend",
+        supportRaisedByCandidate: true,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe(
+          "Support-raising fields only apply to missionary roles",
+        );
+      }
+    });
+  });
+
+  describe("updateJobSchema", () => {
+    it("should accept one end of the pay range on its own", () => {
+      expect(parseUpdate({ compensationMax: 70_000 }).success).toBe(true);
+    });
+
+    it("should reject a minimum above the maximum", () => {
+      expect(
+        parseUpdate({ compensationMin: 10, compensationMax: 5 }).success,
+      ).toBe(false);
+    });
+  });
+});
+
+describe("Job Validation - Lifecycle", () => {
+  const basePayload = {
+    title: "Youth Pastor",
+    description: "Lead the youth ministry",
+    city: "Denver",
+    state: "CO",
+    country: "United States",
+    zipcode: "80202",
+    jobType: "full-time",
+    compensationType: "paid",
+    applicationDeadline: "2030-01-01T00:00:00.000Z",
+    skills: ["Leadership"],
+  };
+  const tomorrow = () => new Date(Date.now() + 86_400_000).toISOString();
+
+  const parseCreate = (body: Record<string, unknown>) =>
+    createJobSchema.safeParse({
+      body: { ...basePayload, ...body },
+      params: {},
+      query: {},
+    });
+
+  const parseStatus = (body: Record<string, unknown>) =>
+    updateJobStatusSchema.safeParse({
+      body,
+      params: { jobId: "1" },
+      query: {},
+    });
+
+  it("should create a draft or a scheduled job", () => {
+    expect(parseCreate({ status: "draft" }).success).toBe(true);
+    expect(
+      parseCreate({ status: "scheduled", publishAt: tomorrow() }).success,
+    ).toBe(true);
+  });
+
+  it("should not create a job in a later lifecycle status", () => {
+    expect(parseCreate({ status: "paused" }).success).toBe(false);
+    expect(parseCreate({ status: "expired" }).success).toBe(false);
+  });
+
+  it("should require a future publishAt to schedule", () => {
+    expect(parseStatus({ status: "scheduled" }).success).toBe(false);
+    expect(
+      parseStatus({
+        status: "scheduled",
+        publishAt: "2020-01-01T00:00:00.000Z",
+      }).success,
+    ).toBe(false);
+    expect(
+      parseStatus({ status: "scheduled", publishAt: tomorrow() }).success,
+    ).toBe(true);
+  });
+
+  it("should reject publishAt for other statuses", () => {
+    expect(
+      parseStatus({ status: "published", publishAt: tomorrow() }).success,
+    ).toBe(false);
+  });
+
+  it("should not let employers expire a job", () => {
+    expect(parseStatus({ status: "expired" }).success).toBe(false);
+  });
+
+  it("should leave lifecycle fields out of job updates", () => {
+    const result = updateJobSchema.safeParse({
+      body: { title: "Senior Youth Pastor", status: "published" },
+      params: { jobId: "1" },
+      query: {},
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.body).not.toHaveProperty("status");
+    }
+  });
+});
@@ -72,6 +72,22 @@ describe("Job Alert Validation Logic", () => {
       expect(result.success).toBe(true);
     });
 
+    it("should accept alert with only workAreas", () => {
+      const validData = {
+        body: {
+          name: "Test Alert",
+          description: "Test description",
+          workAreas: ["Media/design/arts"],
+          frequency: "weekly",
+        },
+        params: {},
+        query: {},
+      };
+
+      const result = createJobAlertSchema.safeParse(validData);
+      expect(result.success).toBe(true);
+    });
+
     it("should accept alert with only jobType", () => {
       const validData = {
         body: {
@@ -119,7 +135,7 @@ describe("Job Alert Validation Logic", () => {
       expect(result.success).toBe(false);
       if (!result.success) {
         expect(result.error.issues[0]?.message).toContain(
-          "At least one of search query, location, skills, experience level or employment types must be provided.",
+          "At least one of search query, location, skills, work areas, experience level or employment types must be provided.",
         );
       }
     });
@@ -163,6 +179,52 @@ describe("Job Alert Validation Logic", () => {
     });
   });
 
+  describe("createJobAlertSchema - Radius Validation", () => {
+    const withBody = (body: Record<string, unknown>) => ({
+      body: {
+        name: "Nearby Alert",
+        description: "Jobs near me",
+        frequency: "weekly",
+        ...body,
+      },
+      params: {},
+      query: {},
+    });
+
+    it("should accept a centre point plus radius as the only criteria", () => {
+      const result = createJobAlertSchema.safeParse(
+        withBody({ latitude: 47.6062, longitude: -122.3321, radiusMiles: 25 }),
+      );
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a radius without a centre point", () => {
+      const result = createJobAlertSchema.safeParse(
+        withBody({ searchQuery: "nurse", radiusMiles: 25 }),
+      );
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]?.message).toBe(
+          "radiusMiles requires a latitude and longitude",
+        );
+      }
+    });
+
+    it("should reject a latitude without a longitude", () => {
+      const result = createJobAlertSchema.safeParse(
+        withBody({ searchQuery: "nurse", latitude: 47.6062 }),
+      );
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a radius beyond the maximum", () => {
+      const result = createJobAlertSchema.safeParse(
+        withBody({ latitude: 47.6062, longitude: -122.3321, radiusMiles: 501 }),
+      );
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("createJobAlertSchema - Name Validation", () => {
     it("should reject name shorter than 3 characters", () => {
       const invalidData = {
@@ -470,7 +532,7 @@ describe("Job Alert Validation Logic", () => {
       expect(result.success).toBe(false);
       if (!result.success) {
         expect(result.error.issues[0]?.message).toContain(
-          "At least one of search query, location, skills, experience level or employment types must be provided",
+          "At least one of search query, location, skills, work areas, experience level or employment types must be provided",
         );
       }
     });
@@ -3,7 +3,11 @@ import { DomainEventType } from "@shared/events";
 import type { DomainEvent } from "@shared/events";
 import type { ApplicationSubmittedPayload } from "@/modules/applications/events/application-submitted.event";
 import type { ApplicationWithdrawnPayload } from "@/modules/applications/events/application-withdrawn.event";
+import type { JobSavedPayload } from "@/modules/applications/events/job-saved.event";
 import type { UserDeactivatedPayload } from "@/modules/identity/events/user-deactivated.event";
+import type { JobUpdatedPayload } from "@/modules/job-board/events/job-updated.event";
+import type { JobClosedPayload } from "@/modules/job-board/events/job-closed.event";
+import { ok } from "@shared/result";
 
 const { mockRegisterWorker } = vi.hoisted(() => ({
   mockRegisterWorker: vi.fn(),
@@ -31,22 +35,33 @@ import { createDomainEventWorker } from "@shared/workers/domain-event.worker";
 
 describe("Domain Event Worker", () => {
   const mockSyncJobApplicationCount = vi.fn().mockResolvedValue(undefined);
+  const mockRecordJobActivity = vi.fn().mockResolvedValue(undefined);
   const mockPauseAlertsForUser = vi.fn().mockResolvedValue(0);
+  const mockNotifySaversOfJobUpdate = vi.fn().mockResolvedValue(ok(0));
+  const mockNotifySaversOfJobClosure = vi.fn().mockResolvedValue(ok(0));
   let processDomainEvent: (job: any) => Promise<void>;
 
   beforeEach(() => {
     vi.clearAllMocks();
     mockSyncJobApplicationCount.mockResolvedValue(undefined);
+    mockRecordJobActivity.mockResolvedValue(undefined);
     mockPauseAlertsForUser.mockResolvedValue(0);
+    mockNotifySaversOfJobUpdate.mockResolvedValue(ok(0));
+    mockNotifySaversOfJobClosure.mockResolvedValue(ok(0));
 
     // Create worker with mock ports and capture the registered handler
     const worker = createDomainEventWorker({
       applicationInsights: {
         syncJobApplicationCount: mockSyncJobApplicationCount,
+        recordJobActivity: mockRecordJobActivity,
       },
       notificationsRepository: {
         pauseAlertsForUser: mockPauseAlertsForUser,
       },
+      savedJobNotifications: {
+        notifySaversOfJobUpdate: mockNotifySaversOfJobUpdate,
+        notifySaversOfJobClosure: mockNotifySaversOfJobClosure,
+      },
     });
     worker.initialize();
 
@@ -79,6 +94,80 @@ describe("Domain Event Worker", () => {
 
       expect(mockSyncJobApplicationCount).toHaveBeenCalledWith(10);
       expect(mockSyncJobApplicationCount).toHaveBeenCalledOnce();
+      expect(mockRecordJobActivity).toHaveBeenCalledWith(
+        10,
+        "applications",
+        event.occurredAt,
+      );
+    });
+
+    it("should record a daily save for JOB_SAVED event", async () => {
+      const payload: JobSavedPayload = { jobId: 12, userId: 7 };
+
+      const event: DomainEvent<JobSavedPayload> = {
+        eventType: DomainEventType.JOB_SAVED,
+        payload,
+        occurredAt: "2026-03-04T10:00:00.000Z",
+        correlationId: "save-correlation-id",
+      };
+
+      const mockJob = {
+        id: "job-1c",
+        data: event,
+        name: DomainEventType.JOB_SAVED,
+      } as any;
+
+      await processDomainEvent(mockJob);
+
+      expect(mockRecordJobActivity).toHaveBeenCalledWith(
+        12,
+        "saves",
+        "2026-03-04T10:00:00.000Z",
+      );
+      expect(mockSyncJobApplicationCount).not.toHaveBeenCalled();
+    });
+
+    it("should notify savers for JOB_UPDATED event", async () => {
+      const payload: JobUpdatedPayload = {
+        jobId: 12,
+        changedFields: ["title", "applicationDeadline"],
+      };
+
+      const event: DomainEvent<JobUpdatedPayload> = {
+        eventType: DomainEventType.JOB_UPDATED,
+        payload,
+        occurredAt: new Date().toISOString(),
+      };
+
+      await processDomainEvent({
+        id: "job-1d",
+        data: event,
+        name: DomainEventType.JOB_UPDATED,
+      } as any);
+
+      expect(mockNotifySaversOfJobUpdate).toHaveBeenCalledWith(12, [
+        "title",
+        "applicationDeadline",
+      ]);
+      expect(mockNotifySaversOfJobClosure).not.toHaveBeenCalled();
+    });
+
+    it("should notify savers for JOB_CLOSED event", async () => {
+      const payload: JobClosedPayload = { jobId: 12, status: "expired" };
+
+      const event: DomainEvent<JobClosedPayload> = {
+        eventType: DomainEventType.JOB_CLOSED,
+        payload,
+        occurredAt: new Date().toISOString(),
+      };
+
+      await processDomainEvent({
+        id: "job-1e",
+        data: event,
+        name: DomainEventType.JOB_CLOSED,
+      } as any);
+
+      expect(mockNotifySaversOfJobClosure).toHaveBeenCalledWith(12);
     });
 
     it("should sync job application count for APPLICATION_WITHDRAWN event", async () => {
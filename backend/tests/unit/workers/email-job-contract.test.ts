@@ -10,24 +10,45 @@ vi.mock("@/utils/auth", () => ({
   auth: { api: { updateUser: vi.fn(), deleteUser: vi.fn() } },
 }));
 
+import { LocalGeocoderService } from "@shared/infrastructure/geocoder/local-geocoder.service";
 import { JobBoardService } from "@/modules/job-board/services/job-board.service";
+import { CandidateMatchingService } from "@/modules/job-board/services/candidate-matching.service";
+import { JobModerationService } from "@/modules/job-board/services/job-moderation.service";
 import { ApplicationsService } from "@/modules/applications/services/applications.service";
 import { IdentityService } from "@/modules/identity/services/identity.service";
+import { InterviewsService } from "@/modules/interviews/services/interviews.service";
+import { SavedJobService } from "@/modules/applications/services/saved-job.service";
+import { WeeklyDigestService } from "@/modules/notifications/services/weekly-digest.service";
+import { NewsletterService } from "@/modules/notifications/services/newsletter.service";
+import { CandidateProfileService } from "@/modules/organizations/services/candidate-profile.service";
+import { OrganizationProfileService } from "@/modules/organizations/services/organization-profile.service";
+import { MessagingService } from "@/modules/messaging/services/messaging.service";
 
 import type { JobBoardRepositoryPort } from "@/modules/job-board/ports/job-board-repository.port";
 import type { JobInsightsRepositoryPort } from "@/modules/job-board/ports/job-insights-repository.port";
 import type { TypesenseJobServicePort } from "@shared/ports/typesense-service.port";
+import type { TypesenseProfileServicePort } from "@shared/ports/typesense-profile-service.port";
 import type { ApplicationStatusQueryPort } from "@/modules/job-board/ports/application-status-query.port";
 import type { SavedJobsStatusQueryPort } from "@/modules/job-board/ports/saved-jobs-status-query.port";
 import type { OrgMembershipForJobPort } from "@/modules/job-board/ports/org-membership-for-job.port";
 import type { UserContactQueryPort } from "@/modules/job-board/ports/user-contact-query.port";
+import type { JobPostingEntitlementsPort } from "@/modules/job-board/ports/job-posting-entitlements.port";
+import type { JobHoldPolicyPort } from "@/modules/job-board/ports/job-hold-policy.port";
+import type { JobModerationRepositoryPort } from "@/modules/job-board/ports/job-moderation-repository.port";
 
 import type { ApplicationsRepositoryPort } from "@/modules/applications/ports/applications-repository.port";
 import type { JobDetailsQueryPort } from "@/modules/applications/ports/job-details-query.port";
 import type { OrgMembershipQueryPort } from "@/modules/applications/ports/org-membership-query.port";
 import type { ApplicantQueryPort } from "@/modules/applications/ports/applicant-query.port";
+import type { HiringPipelineServicePort } from "@/modules/applications/ports/hiring-pipeline-service.port";
+import type { SavedJobRepositoryPort } from "@/modules/applications/ports/saved-job-repository.port";
+import { fail, ok } from "@shared/result";
+import { ForbiddenError } from "@shared/errors";
+import { DEFAULT_HIRING_PIPELINE } from "@shared/constants/hiring-pipeline";
 
 import type { IdentityRepositoryPort } from "@/modules/identity/ports/identity-repository.port";
+import type { InterviewsRepositoryPort } from "@/modules/interviews/ports/interviews-repository.port";
+import type { NotificationsRepositoryPort } from "@/modules/notifications/ports/notifications-repository.port";
 import type { EmailServicePort } from "@shared/ports/email-service.port";
 import type { EventBusPort } from "@shared/events";
 
@@ -40,6 +61,7 @@ import type { EventBusPort } from "@shared/events";
  */
 
 const addJobMock = queueService.addJob as ReturnType<typeof vi.fn>;
+const addBulkJobsMock = queueService.addBulkJobs as ReturnType<typeof vi.fn>;
 
 /** Extract all EMAIL_QUEUE calls from the addJob mock */
 function getEmailJobCalls() {
@@ -48,6 +70,17 @@ function getEmailJobCalls() {
     .map(([, jobName, payload]) => ({ jobName, payload }));
 }
 
+/** Extract all EMAIL_QUEUE jobs from the addBulkJobs mock */
+function getBulkEmailJobCalls() {
+  return (
+    addBulkJobsMock.mock.calls as [string, { name: string; data: unknown }[]][]
+  )
+    .filter(([queueName]) => queueName === QUEUE_NAMES.EMAIL_QUEUE)
+    .flatMap(([, jobs]) =>
+      jobs.map((job) => ({ jobName: job.name, payload: job.data })),
+    );
+}
+
 /** Validate a single email job call against its Zod schema */
 function expectValidPayload(jobName: string, payload: unknown) {
   const schema = emailJobSchemas[jobName as keyof typeof emailJobSchemas];
@@ -85,6 +118,14 @@ function createMockJobBoardRepository(): JobBoardRepositoryPort {
     findActiveJobs: vi.fn(),
     findJobsByEmployer: vi.fn(),
     findJobByIdWithSkills: vi.fn(),
+    updateJobStatus: vi.fn(),
+    findScheduledJobsDue: vi.fn(),
+    findJobsPastDeadline: vi.fn(),
+    duplicateJob: vi.fn(),
+    hasCandidateMatches: vi.fn(),
+    saveCandidateMatches: vi.fn(),
+    findScreeningQuestionsByJobId: vi.fn(),
+    countActiveJobsByEmployer: vi.fn(),
     findById: vi.fn(),
     findAll: vi.fn(),
     create: vi.fn(),
@@ -132,6 +173,37 @@ function createMockOrgMembershipForJob(): OrgMembershipForJobPort {
   return {
     findByContact: vi.fn(),
     organizationExists: vi.fn(),
+    isOrganizationSuspended: vi.fn().mockResolvedValue(false),
+    findJobPostingTeam: vi.fn(),
+    findOrganizationCreatedAt: vi.fn(),
+  };
+}
+
+function createMockJobPostingEntitlements(): JobPostingEntitlementsPort {
+  return {
+    checkJobPosting: vi.fn().mockResolvedValue(ok(null)),
+  };
+}
+
+function createMockJobHoldPolicy(): JobHoldPolicyPort {
+  return {
+    evaluate: vi.fn().mockResolvedValue([]),
+    hold: vi.fn(),
+  };
+}
+
+function createMockJobModerationRepository(): JobModerationRepositoryPort {
+  return {
+    hasReported: vi.fn(),
+    createReport: vi.fn(),
+    findPendingReviewId: vi.fn(),
+    createReview: vi.fn(),
+    findReviews: vi.fn(),
+    findReviewById: vi.fn(),
+    decideReview: vi.fn(),
+    incrementWarningCount: vi.fn(),
+    findHoldRules: vi.fn(),
+    saveHoldRule: vi.fn(),
   };
 }
 
@@ -146,7 +218,8 @@ function createMockApplicationsRepository(): ApplicationsRepositoryPort {
     createApplication: vi.fn(),
     findApplicationsByJob: vi.fn(),
     findApplicationsByUser: vi.fn(),
-    updateApplicationStatus: vi.fn(),
+    withdrawApplication: vi.fn(),
+    findStatusHistory: vi.fn(),
     findApplicationById: vi.fn(),
     hasUserAppliedToJob: vi.fn(),
     deleteJobApplicationsByUserId: vi.fn(),
@@ -164,12 +237,14 @@ function createMockJobDetailsQuery(): JobDetailsQueryPort {
     getJobForApplication: vi.fn(),
     getJobWithEmployerId: vi.fn(),
     doesJobExist: vi.fn(),
+    getScreeningQuestions: vi.fn().mockResolvedValue([]),
   };
 }
 
 function createMockOrgMembershipQuery(): OrgMembershipQueryPort {
   return {
     findByContact: vi.fn(),
+    isOrganizationSuspended: vi.fn().mockResolvedValue(false),
   };
 }
 
@@ -179,6 +254,41 @@ function createMockApplicantQuery(): ApplicantQueryPort {
   };
 }
 
+function createMockHiringPipelineService(): HiringPipelineServicePort {
+  return {
+    getPipeline: vi
+      .fn()
+      .mockResolvedValue(
+        ok({ id: null, organizationId: 10, ...DEFAULT_HIRING_PIPELINE }),
+      ),
+    updatePipeline: vi.fn(),
+  };
+}
+
+function createMockSavedJobRepository(): SavedJobRepositoryPort {
+  const saver = {
+    savedJobId: 30,
+    userId: 5,
+    email: "user@test.com",
+    fullName: "Test User",
+    jobId: 1,
+    jobTitle: "Youth Pastor",
+    applicationDeadline: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+  };
+  return {
+    getSavedJobsForUser: vi.fn(),
+    saveJobForUser: vi.fn(),
+    isJobSavedByUser: vi.fn(),
+    countSavedJobs: vi.fn(),
+    getSavedJobIdsForJobs: vi.fn(),
+    unsaveJobForUser: vi.fn(),
+    findSaversOfJob: vi.fn().mockResolvedValue([saver]),
+    findSaversDueDeadlineReminder: vi.fn().mockResolvedValue([saver]),
+    markDeadlineRemindersSent: vi.fn(),
+    clearDeadlineReminders: vi.fn(),
+  };
+}
+
 function createMockIdentityRepository(): IdentityRepositoryPort {
   return {
     findByEmail: vi.fn(),
@@ -198,6 +308,19 @@ function createMockOrgOwnershipQuery() {
   };
 }
 
+function createMockInterviewsRepository(): InterviewsRepositoryPort {
+  return {
+    findApplicationContext: vi.fn(),
+    findActiveMembers: vi.fn(),
+    createInterview: vi.fn(),
+    findById: vi.fn(),
+    findByApplicationId: vi.fn(),
+    selectSlot: vi.fn(),
+    replaceSlots: vi.fn(),
+    cancelInterview: vi.fn(),
+  };
+}
+
 function createMockEmailService(): EmailServicePort {
   return {
     sendEmailVerification: vi.fn(),
@@ -205,6 +328,16 @@ function createMockEmailService(): EmailServicePort {
     sendJobApplicationConfirmation: vi.fn(),
     sendApplicationWithdrawalConfirmation: vi.fn(),
     sendJobDeletionEmail: vi.fn(),
+    sendJobExpiredEmail: vi.fn(),
+    sendScheduledJobBlockedEmail: vi.fn(),
+    sendSavedJobUpdate: vi.fn(),
+    sendMatchedCandidates: vi.fn(),
+    sendJobInvitation: vi.fn(),
+    sendFollowedOrganizationJob: vi.fn(),
+    sendApplicationMessage: vi.fn(),
+    sendModerationNotice: vi.fn(),
+    sendWeeklyJobDigest: vi.fn(),
+    sendNewsletter: vi.fn(),
     sendOrganizationInvitation: vi.fn(),
     sendOrganizationWelcome: vi.fn(),
     sendApplicationStatusUpdate: vi.fn(),
@@ -215,9 +348,41 @@ function createMockEmailService(): EmailServicePort {
     sendDeleteAccountEmailVerification: vi.fn(),
     sendPasswordResetEmail: vi.fn(),
     sendWelcomeEmail: vi.fn(),
+    sendInterviewProposal: vi.fn(),
+    sendInterviewScheduled: vi.fn(),
+    sendInterviewReminder: vi.fn(),
+    sendInterviewCancelled: vi.fn(),
   };
 }
 
+function createMockNotificationsRepository(): NotificationsRepositoryPort {
+  return {
+    findEmailRecipients: vi
+      .fn()
+      .mockResolvedValueOnce([
+        { userId: 5, email: "seeker@example.com", fullName: "Sam Seeker" },
+      ])
+      .mockResolvedValue([]),
+    findRecentAlertMatchJobs: vi.fn().mockResolvedValue([
+      {
+        id: 2,
+        title: "Worship Leader",
+        company: "Grace Church",
+        location: "Austin, TX",
+        jobType: "part-time",
+      },
+    ]),
+    findNewsletterById: vi.fn().mockResolvedValue({
+      id: 3,
+      subject: "October news",
+      body: "<p>Hello</p>",
+      segment: "all",
+      status: "draft",
+    }),
+    updateNewsletter: vi.fn(),
+  } as unknown as NotificationsRepositoryPort;
+}
+
 function createMockEventBus(): EventBusPort {
   return {
     publish: vi.fn(),
@@ -262,12 +427,182 @@ describe("Email Job Contract Tests", () => {
         createMockSavedJobsStatusQuery(),
         createMockOrgMembershipForJob(),
         userContactQuery,
+        createMockJobPostingEntitlements(),
+        new LocalGeocoderService(),
+        createMockEventBus(),
+        createMockJobHoldPolicy(),
       );
 
       await service.deleteJob(1, 5);
 
       expectEmailDispatched("sendJobDeletionEmail");
     });
+
+    it("expireOverdueJobs sends a valid sendJobExpiredEmail payload", async () => {
+      const jobBoardRepository = createMockJobBoardRepository();
+      const orgMembershipForJob = createMockOrgMembershipForJob();
+
+      (
+        jobBoardRepository.findJobsPastDeadline as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([{ id: 1, title: "Test Job", employerId: 10 }]);
+      (
+        jobBoardRepository.findJobByIdWithSkills as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({ id: 1, title: "Test Job", status: "expired" });
+      (
+        orgMembershipForJob.findJobPostingTeam as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([
+        { userId: 5, email: "recruiter@test.com", fullName: "Test Recruiter" },
+      ]);
+
+      const service = new JobBoardService(
+        jobBoardRepository,
+        createMockJobInsightsRepository(),
+        createMockTypesenseService(),
+        createMockApplicationStatusQuery(),
+        createMockSavedJobsStatusQuery(),
+        orgMembershipForJob,
+        createMockUserContactQuery(),
+        createMockJobPostingEntitlements(),
+        new LocalGeocoderService(),
+        createMockEventBus(),
+        createMockJobHoldPolicy(),
+      );
+
+      await service.expireOverdueJobs();
+
+      expectEmailDispatched("sendJobExpiredEmail");
+    });
+
+    it("publishScheduledJobs sends a valid sendScheduledJobBlockedEmail payload", async () => {
+      const jobBoardRepository = createMockJobBoardRepository();
+      const orgMembershipForJob = createMockOrgMembershipForJob();
+      const jobPostingEntitlements = createMockJobPostingEntitlements();
+
+      (
+        jobBoardRepository.findScheduledJobsDue as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([
+        { id: 1, title: "Test Job", employerId: 10, isFeatured: false },
+      ]);
+      (
+        jobPostingEntitlements.checkJobPosting as ReturnType<typeof vi.fn>
+      ).mockResolvedValue(
+        fail(new ForbiddenError("Your plan allows 1 active job posting.")),
+      );
+      (
+        orgMembershipForJob.findJobPostingTeam as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([
+        { userId: 5, email: "recruiter@test.com", fullName: "Test Recruiter" },
+      ]);
+
+      const service = new JobBoardService(
+        jobBoardRepository,
+        createMockJobInsightsRepository(),
+        createMockTypesenseService(),
+        createMockApplicationStatusQuery(),
+        createMockSavedJobsStatusQuery(),
+        orgMembershipForJob,
+        createMockUserContactQuery(),
+        jobPostingEntitlements,
+        new LocalGeocoderService(),
+        createMockEventBus(),
+        createMockJobHoldPolicy(),
+      );
+
+      await service.publishScheduledJobs();
+
+      expectEmailDispatched("sendScheduledJobBlockedEmail");
+    });
+
+    it("matchCandidatesForJob sends a valid sendMatchedCandidates payload", async () => {
+      const jobBoardRepository = createMockJobBoardRepository();
+      const orgMembershipForJob = createMockOrgMembershipForJob();
+      const typesenseProfileService = {
+        searchProfilesCollection: vi.fn().mockResolvedValue({
+          hits: [
+            {
+              id: "8",
+              userId: 8,
+              name: "Casey Candidate",
+              headline: "Worship Leader",
+              skills: ["Guitar"],
+              location: "Austin, Texas, United States",
+              yearsOfExperience: 4,
+              openToWork: true,
+              isProfilePublic: true,
+              intent: "seeker",
+              updatedAt: Date.now(),
+            },
+          ],
+          found: 1,
+          page: 1,
+        }),
+      } as unknown as TypesenseProfileServicePort;
+
+      (
+        jobBoardRepository.findJobByIdWithSkills as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        id: 1,
+        title: "Test Job",
+        employerId: 10,
+        status: "published",
+        isRemote: true,
+        skills: ["Guitar"],
+        workAreas: ["Worship"],
+      });
+      (
+        jobBoardRepository.hasCandidateMatches as ReturnType<typeof vi.fn>
+      ).mockResolvedValue(false);
+      (
+        orgMembershipForJob.findJobPostingTeam as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([
+        { userId: 5, email: "recruiter@test.com", fullName: "Test Recruiter" },
+      ]);
+
+      const service = new CandidateMatchingService(
+        jobBoardRepository,
+        typesenseProfileService,
+        orgMembershipForJob,
+        new LocalGeocoderService(),
+      );
+
+      await service.matchCandidatesForJob(1);
+
+      expectEmailDispatched("sendMatchedCandidates");
+    });
+  });
+
+  describe("JobModerationService email dispatches", () => {
+    it("warnOrganization sends a valid sendModerationNotice payload", async () => {
+      const orgMembershipForJob = createMockOrgMembershipForJob();
+      (
+        orgMembershipForJob.findJobPostingTeam as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([
+        { userId: 5, email: "recruiter@test.com", fullName: "Test Recruiter" },
+      ]);
+
+      const jobModerationRepository = createMockJobModerationRepository();
+      (
+        jobModerationRepository.findReviewById as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        id: 3,
+        jobId: 1,
+        jobTitle: "Test Job",
+        employerId: 10,
+        employerName: "Grace Church",
+      });
+
+      const service = new JobModerationService(
+        jobModerationRepository,
+        createMockJobBoardRepository(),
+        orgMembershipForJob,
+        createMockEventBus(),
+        createMockJobPostingEntitlements(),
+      );
+
+      await service.warnOrganization(3, "Please remove the payment request");
+
+      expectEmailDispatched("sendModerationNotice");
+    });
   });
 
   describe("ApplicationsService email dispatches", () => {
@@ -303,6 +638,7 @@ describe("Email Job Contract Tests", () => {
         createMockOrgMembershipQuery(),
         applicantQuery,
         eventBus,
+        createMockHiringPipelineService(),
       );
 
       await service.applyForJob(
@@ -324,9 +660,7 @@ describe("Email Job Contract Tests", () => {
         job: { id: 1, title: "Test Job" },
       });
       (
-        applicationsRepository.updateApplicationStatus as ReturnType<
-          typeof vi.fn
-        >
+        applicationsRepository.withdrawApplication as ReturnType<typeof vi.fn>
       ).mockResolvedValue(true);
       (applicantQuery.findById as ReturnType<typeof vi.fn>).mockResolvedValue({
         email: "user@test.com",
@@ -339,12 +673,401 @@ describe("Email Job Contract Tests", () => {
         createMockOrgMembershipQuery(),
         applicantQuery,
         createMockEventBus(),
+        createMockHiringPipelineService(),
       );
 
       await service.withdrawApplication(100, 5);
 
       expectEmailDispatched("sendApplicationWithdrawalConfirmation");
     });
+
+    it("updateOrgJobApplicationStatus sends a valid sendApplicationStatusUpdate payload", async () => {
+      const applicationsRepository = createMockApplicationsRepository();
+
+      (
+        applicationsRepository.getJobApplicationForOrganization as ReturnType<
+          typeof vi.fn
+        >
+      ).mockResolvedValue({ id: 100, jobId: 1, status: "pending" });
+      (
+        applicationsRepository.updateOrgJobApplicationStatus as ReturnType<
+          typeof vi.fn
+        >
+      ).mockResolvedValue({ id: 100, jobId: 1, jobTitle: "Test Job" });
+      (
+        applicationsRepository.findApplicationById as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        application: { id: 100, jobId: 1, applicantId: 5, status: "pending" },
+        job: { id: 1, title: "Test Job", employerId: 10 },
+        applicant: { id: 5, email: "user@test.com", fullName: "Test User" },
+      });
+
+      const service = new ApplicationsService(
+        applicationsRepository,
+        createMockJobDetailsQuery(),
+        createMockOrgMembershipQuery(),
+        createMockApplicantQuery(),
+        createMockEventBus(),
+        createMockHiringPipelineService(),
+      );
+
+      await service.updateOrgJobApplicationStatus(10, 1, 100, "reviewed", 7);
+
+      expectEmailDispatched("sendApplicationStatusUpdate");
+      const call = getEmailJobCalls().find(
+        (c) => c.jobName === "sendApplicationStatusUpdate",
+      );
+      expect(call!.payload).toMatchObject({
+        oldStatusLabel: "Submitted",
+        newStatusLabel: "Under Review",
+      });
+    });
+  });
+
+  describe("InterviewsService email dispatches", () => {
+    const startsAt = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+    const endsAt = new Date(startsAt.getTime() + 60 * 60 * 1000);
+
+    const context = {
+      applicationId: 100,
+      jobId: 1,
+      status: "interviewing",
+      applicantId: 5,
+      applicantName: "Test User",
+      applicantEmail: "user@test.com",
+      jobTitle: "Youth Pastor",
+      organizationId: 10,
+      organizationName: "Grace Church",
+    };
+
+    const interview = {
+      id: 40,
+      applicationId: 100,
+      organizationId: 10,
+      status: "proposed" as const,
+      locationType: "video" as const,
+      location: null,
+      meetingUrl: "https://meet.example.com/abc",
+      notes: null,
+      scheduledStart: null,
+      scheduledEnd: null,
+      sequence: 0,
+      cancellationReason: null,
+      slots: [{ id: 1, startsAt, endsAt, isSelected: false }],
+      interviewers: [
+        {
+          memberId: 3,
+          userId: 9,
+          fullName: "Sam Recruiter",
+          email: "sam@test.com",
+        },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it("proposeInterview sends a valid sendInterviewProposal payload", async () => {
+      const repository = createMockInterviewsRepository();
+      (
+        repository.findApplicationContext as ReturnType<typeof vi.fn>
+      ).mockResolvedValue(context);
+      (
+        repository.findActiveMembers as ReturnType<typeof vi.fn>
+      ).mockResolvedValue(interview.interviewers);
+      (
+        repository.createInterview as ReturnType<typeof vi.fn>
+      ).mockResolvedValue(interview);
+
+      const service = new InterviewsService(repository, createMockEventBus(), {
+        stageAllowsInterviews: vi.fn().mockResolvedValue(true),
+      });
+
+      await service.proposeInterview(10, 1, 100, 9, {
+        slots: [{ startsAt, endsAt }],
+        interviewerIds: [3],
+        locationType: "video",
+        meetingUrl: "https://meet.example.com/abc",
+      });
+
+      const calls = getEmailJobCalls();
+      expect(calls).toHaveLength(1);
+      expect(calls[0]!.jobName).toBe("sendInterviewProposal");
+      expectValidPayload(calls[0]!.jobName, calls[0]!.payload);
+    });
+
+    it("selectSlot sends valid sendInterviewScheduled payloads to every attendee", async () => {
+      const repository = createMockInterviewsRepository();
+      (
+        repository.findApplicationContext as ReturnType<typeof vi.fn>
+      ).mockResolvedValue(context);
+      (repository.findById as ReturnType<typeof vi.fn>).mockResolvedValue(
+        interview,
+      );
+      (repository.selectSlot as ReturnType<typeof vi.fn>).mockResolvedValue({
+        ...interview,
+        status: "scheduled",
+        scheduledStart: startsAt,
+        scheduledEnd: endsAt,
+        sequence: 1,
+      });
+
+      const service = new InterviewsService(repository, createMockEventBus(), {
+        stageAllowsInterviews: vi.fn().mockResolvedValue(true),
+      });
+
+      await service.selectSlot(100, 40, 5, 1);
+
+      const calls = getEmailJobCalls();
+      expect(calls.map((c) => c.jobName)).toEqual([
+        "sendInterviewScheduled",
+        "sendInterviewScheduled",
+      ]);
+      for (const call of calls) {
+        expectValidPayload(call.jobName, call.payload);
+      }
+    });
+
+    it("cancelInterview sends valid sendInterviewCancelled payloads", async () => {
+      const repository = createMockInterviewsRepository();
+      (
+        repository.findApplicationContext as ReturnType<typeof vi.fn>
+      ).mockResolvedValue(context);
+      (repository.findById as ReturnType<typeof vi.fn>).mockResolvedValue(
+        interview,
+      );
+      (
+        repository.cancelInterview as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        ...interview,
+        status: "cancelled",
+        cancellationReason: "Position filled",
+        sequence: 1,
+      });
+
+      const service = new InterviewsService(repository, createMockEventBus(), {
+        stageAllowsInterviews: vi.fn().mockResolvedValue(true),
+      });
+
+      await service.cancelInterview(10, 1, 100, 40, 9, "Position filled");
+
+      const calls = getEmailJobCalls();
+      expect(calls).toHaveLength(2);
+      for (const call of calls) {
+        expect(call.jobName).toBe("sendInterviewCancelled");
+        expectValidPayload(call.jobName, call.payload);
+      }
+    });
+  });
+
+  describe("SavedJobService email dispatches", () => {
+    it.each([
+      [
+        "notifySaversOfJobUpdate",
+        (service: SavedJobService) =>
+          service.notifySaversOfJobUpdate(1, ["title", "applicationDeadline"]),
+      ],
+      [
+        "notifySaversOfJobClosure",
+        (service: SavedJobService) => service.notifySaversOfJobClosure(1),
+      ],
+      [
+        "sendDeadlineReminders",
+        (service: SavedJobService) => service.sendDeadlineReminders(),
+      ],
+    ])("%s sends a valid sendSavedJobUpdate payload", async (_name, run) => {
+      const service = new SavedJobService(
+        createMockSavedJobRepository(),
+        createMockEventBus(),
+      );
+
+      await run(service);
+
+      expectEmailDispatched("sendSavedJobUpdate");
+    });
+  });
+
+  describe("CandidateProfileService email dispatches", () => {
+    it("inviteToApply sends a valid sendJobInvitation payload", async () => {
+      const service = new CandidateProfileService(
+        {
+          findPublicCandidate: vi.fn().mockResolvedValue({
+            email: "candidate@test.com",
+            profile: { userId: 8, name: "Casey Candidate" },
+          }),
+        },
+        {
+          findJobForOutreach: vi.fn().mockResolvedValue({
+            id: 1,
+            title: "Test Job",
+            employerId: 10,
+            employerName: "Grace Church",
+            status: "published",
+          }),
+        },
+        {
+          hasInvited: vi.fn().mockResolvedValue(false),
+          findInvitedJobIds: vi.fn(),
+          createOutreach: vi.fn().mockResolvedValue({ id: 1, jobId: 1 }),
+        },
+      );
+
+      await service.inviteToApply(10, 8, 5, { jobId: 1 });
+
+      expectEmailDispatched("sendJobInvitation");
+    });
+  });
+
+  describe("OrganizationProfileService email dispatches", () => {
+    it("notifyFollowersOfJob sends a valid sendFollowedOrganizationJob payload", async () => {
+      const service = new OrganizationProfileService({
+        findPublicOrganization: vi.fn(),
+        findOpenJobs: vi.fn(),
+        countFollowers: vi.fn(),
+        isFollowing: vi.fn(),
+        follow: vi.fn(),
+        unfollow: vi.fn(),
+        findFollowedJob: vi.fn().mockResolvedValue({
+          id: 1,
+          title: "Test Job",
+          status: "published",
+          organizationId: 10,
+          organizationName: "Grace Church",
+          city: "Dallas",
+          state: "TX",
+          isRemote: false,
+          followersNotifiedAt: null,
+        }),
+        findFollowerContacts: vi
+          .fn()
+          .mockResolvedValue([
+            { userId: 5, email: "seeker@test.com", fullName: "Sam Seeker" },
+          ]),
+        markFollowersNotified: vi.fn(),
+      });
+
+      await service.notifyFollowersOfJob(1);
+
+      expectEmailDispatched("sendFollowedOrganizationJob");
+    });
+  });
+
+  describe("MessagingService email dispatches", () => {
+    const context = {
+      applicationId: 1,
+      jobId: 2,
+      applicantId: 5,
+      applicantName: "Sam Seeker",
+      applicantEmail: "seeker@test.com",
+      jobTitle: "Test Job",
+      organizationId: 10,
+      organizationName: "Grace Church",
+    };
+    const message = {
+      id: 3,
+      applicationId: 1,
+      senderRole: "organization" as const,
+      senderName: "Rita Recruiter",
+      body: "Are you available next week?",
+      attachments: [],
+      readAt: null,
+      createdAt: new Date(),
+    };
+
+    function createService() {
+      return new MessagingService(
+        {
+          findApplicationContext: vi.fn().mockResolvedValue(context),
+          findMessages: vi.fn(),
+          createMessage: vi.fn().mockResolvedValue(message),
+          markRead: vi.fn(),
+          findBlocks: vi.fn().mockResolvedValue([]),
+          block: vi.fn(),
+          unblock: vi.fn(),
+          findInbox: vi.fn(),
+        },
+        {
+          findHiringTeam: vi.fn().mockResolvedValue([
+            {
+              userId: 8,
+              email: "recruiter@test.com",
+              fullName: "Rita Recruiter",
+            },
+          ]),
+        },
+      );
+    }
+
+    it("sendOrganizationMessage sends a valid sendApplicationMessage payload", async () => {
+      await createService().sendOrganizationMessage(
+        10,
+        2,
+        1,
+        8,
+        "Are you available next week?",
+        [],
+        "corr-1",
+      );
+
+      expectEmailDispatched("sendApplicationMessage");
+    });
+
+    it("sendApplicantMessage sends a valid sendApplicationMessage payload", async () => {
+      await createService().sendApplicantMessage(
+        1,
+        5,
+        "Yes, any afternoon works.",
+        [],
+        "corr-1",
+      );
+
+      expectEmailDispatched("sendApplicationMessage");
+    });
+  });
+
+  describe("Bulk email dispatches", () => {
+    beforeEach(() => {
+      addBulkJobsMock.mockClear();
+    });
+
+    it("WeeklyDigestService sends valid sendWeeklyJobDigest payloads", async () => {
+      const service = new WeeklyDigestService(
+        createMockNotificationsRepository(),
+        {
+          getRecommendedJobs: vi
+            .fn()
+            .mockResolvedValue([
+              { id: 1, title: "Youth Pastor", company: "Grace Church" },
+            ]),
+        },
+      );
+
+      await service.sendWeeklyDigests();
+
+      const calls = getBulkEmailJobCalls();
+      expect(calls).toHaveLength(1);
+      expect(calls[0]!.jobName).toBe("sendWeeklyJobDigest");
+      expectValidPayload(calls[0]!.jobName, calls[0]!.payload);
+    });
+
+    it("NewsletterService sends valid sendNewsletter payloads", async () => {
+      const service = new NewsletterService(
+        createMockNotificationsRepository(),
+        {
+          generateUnsubscribeLink: vi
+            .fn()
+            .mockResolvedValue(
+              "http://localhost:5500/api/users/me/email-preferences/unsubscribe/abc",
+            ),
+        },
+      );
+
+      await service.sendNewsletter(3);
+
+      const calls = getBulkEmailJobCalls();
+      expect(calls).toHaveLength(1);
+      expect(calls[0]!.jobName).toBe("sendNewsletter");
+      expectValidPayload(calls[0]!.jobName, calls[0]!.payload);
+    });
   });
 
   describe("sendPasswordResetEmail schema", () => {
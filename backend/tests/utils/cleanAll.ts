@@ -1,29 +1,62 @@
 import { createTestDatabase } from "./testDatabase";
 import { redisCacheService } from "@shared/infrastructure/redis-cache.service";
 
+// Children before parents so the order stays valid with foreign key checks on.
+// work_areas is reference data seeded by a migration and is kept.
 const tableNames = [
   "job_alert_matches",
   "job_alerts",
+  "application_messages",
+  "messaging_blocks",
+  "interview_interviewers",
+  "interview_slots",
+  "interviews",
+  "scorecard_ratings",
+  "application_scorecards",
+  "scorecard_competencies",
+  "scorecard_templates",
+  "application_screening_answers",
+  "job_screening_questions",
+  "application_status_history",
+  "application_tags",
   "application_notes",
   "job_applications",
+  "job_candidate_matches",
+  "candidate_outreach",
   "saved_jobs",
   "job_skills",
+  "job_work_areas",
+  "job_reports",
+  "job_moderation_reviews",
+  "job_hold_rules",
   "user_skills",
   "skills",
+  "job_daily_views",
+  "job_daily_activity",
   "job_insights",
   "job_details",
+  "hiring_pipeline_transitions",
+  "hiring_pipeline_stages",
+  "hiring_pipelines",
+  "organization_role_permissions",
+  "organization_followers",
+  "organization_verification_requests",
   "organization_invitations",
   "organization_members",
+  "subscriptions",
   "organizations",
   "user_certifications",
   "certifications",
   "educations",
   "work_experiences",
+  "job_preference_work_areas",
+  "job_preferences",
   "user_profile",
   "user_onboarding",
   "user_email_preferences",
   "email_preference_audit_log",
-  "subscriptions",
+  "newsletters",
+  "audit_events",
   "session",
   "account",
   "verification",
@@ -10,7 +10,13 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Building2, MoreVertical, XCircle } from "lucide-react";
+import {
+  Building2,
+  MessageSquare,
+  MoreVertical,
+  XCircle,
+} from "lucide-react";
+import Link from "next/link";
 import { formatToRelativeDate } from "@/lib/utils";
 import { withdrawJobApplication } from "@/lib/api";
 import { toast } from "sonner";
@@ -87,6 +93,15 @@ export const ApplicationCard = memo(function ApplicationCard({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <Link
+                  href={`/messages/${application.applicationId}`}
+                  className="cursor-pointer"
+                >
+                  <MessageSquare className="mr-1 size-4" />
+                  Message Employer
+                </Link>
+              </DropdownMenuItem>
               <DropdownMenuItem>
                 <Button
                   variant="ghost"
@@ -1,5 +1,9 @@
-import { Clock, MapPin } from "lucide-react";
+import { Clock, DollarSign, HandHeart, MapPin } from "lucide-react";
 import { Job, Organization } from "@/schemas/responses/jobs";
+import {
+  formatCompensation,
+  formatSupportRaising,
+} from "@/lib/format-compensation";
 
 interface JobContextSidebarProps {
   job: Job;
@@ -10,6 +14,9 @@ export const JobContextSidebar = ({
   job,
   employer,
 }: JobContextSidebarProps) => {
+  const payRange = formatCompensation(job);
+  const supportRaising = formatSupportRaising(job);
+
   return (
     <div className="hidden lg:col-span-4 lg:block">
       <div className="sticky top-8 space-y-6">
@@ -27,11 +34,18 @@ export const JobContextSidebar = ({
               <MapPin size={18} className="text-slate-400" />
               {job.city}, {job.state || job.country}
             </div>
-            {/* Salary is not in Job schema currently shown, so I'll omit or put placeholder if not available */}
-            {/* <div className="flex items-center gap-3 text-sm text-slate-600">
-              <DollarSign size={18} className="text-slate-400" />
-              $140k - $180k / year
-            </div> */}
+            {payRange && (
+              <div className="flex items-center gap-3 text-sm text-slate-600">
+                <DollarSign size={18} className="text-slate-400" />
+                {payRange}
+              </div>
+            )}
+            {supportRaising && (
+              <div className="flex items-center gap-3 text-sm text-slate-600">
+                <HandHeart size={18} className="text-slate-400" />
+                {supportRaising}
+              </div>
+            )}
             <div className="flex items-center gap-3 text-sm text-slate-600">
               <Clock size={18} className="text-slate-400" />
               {job.jobType.replace("-", " ")}
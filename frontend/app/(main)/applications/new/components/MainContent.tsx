@@ -9,6 +9,7 @@ import { UserWithProfile } from "@/lib/types";
 import { useApplicationStore } from "@/context/store";
 import { ApplicationFormData } from "@/context/slices/application-form-slice";
 import { applicationFormSchema } from "@/schemas/applications";
+import type { PublicScreeningQuestion } from "@/schemas/responses/jobs";
 
 const StepSkeleton = () => (
   <div className="flex flex-col gap-6">
@@ -65,9 +66,14 @@ const Step5Success = dynamic(
 interface MainContentProps {
   jobId: number;
   userProfile: UserWithProfile;
+  screeningQuestions: PublicScreeningQuestion[];
 }
 
-export const MainContent = ({ jobId, userProfile }: MainContentProps) => {
+export const MainContent = ({
+  jobId,
+  userProfile,
+  screeningQuestions,
+}: MainContentProps) => {
   const { step, initializeForm, resetForm } = useApplicationStore();
 
   // Initialize form with user profile location data on mount
@@ -114,6 +120,22 @@ export const MainContent = ({ jobId, userProfile }: MainContentProps) => {
     };
     formDataToSend.append("customAnswers", JSON.stringify(customAnswers));
 
+    // Multipart bodies carry the screening answers as a JSON encoded field
+    const screeningAnswers = screeningQuestions
+      .filter(
+        (question) => finalData.screeningAnswers[question.id] !== undefined,
+      )
+      .map((question) => ({
+        questionId: question.id,
+        answer: finalData.screeningAnswers[question.id],
+      }));
+    if (screeningAnswers.length > 0) {
+      formDataToSend.append(
+        "screeningAnswers",
+        JSON.stringify(screeningAnswers),
+      );
+    }
+
     const res = await applyForJob(jobId, formDataToSend);
     if (!res.success) {
       toast.error(res.message);
@@ -127,7 +149,12 @@ export const MainContent = ({ jobId, userProfile }: MainContentProps) => {
       {step === 1 && <Step1Upload />}
       {step === 2 && <Step2CoverLetter />}
       {step === 3 && <Step3UserInfo />}
-      {step === 4 && <Step4Questions onSubmit={handleSubmitApplication} />}
+      {step === 4 && (
+        <Step4Questions
+          screeningQuestions={screeningQuestions}
+          onSubmit={handleSubmitApplication}
+        />
+      )}
       {step === 5 && (
         <Step5Success
           userName={userProfile.fullName}
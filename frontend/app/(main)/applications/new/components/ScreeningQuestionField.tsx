@@ -0,0 +1,106 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ScreeningAnswerValue } from "@/context/slices/application-form-slice";
+import type { PublicScreeningQuestion } from "@/schemas/responses/jobs";
+
+interface ScreeningQuestionFieldProps {
+  question: PublicScreeningQuestion;
+  value: ScreeningAnswerValue | undefined;
+  onChange: (value: ScreeningAnswerValue | undefined) => void;
+}
+
+export const ScreeningQuestionField = ({
+  question,
+  value,
+  onChange,
+}: ScreeningQuestionFieldProps) => {
+  const label = (
+    <FieldLabel>
+      {question.question}
+      {question.isRequired && <span className="text-destructive">*</span>}
+    </FieldLabel>
+  );
+
+  switch (question.type) {
+    case "yes_no":
+      return (
+        <Field>
+          {label}
+          <RadioGroup
+            value={value === undefined ? "" : value ? "yes" : "no"}
+            onValueChange={(val) => onChange(val === "yes")}
+            className="flex gap-4"
+          >
+            <FieldLabel className="hover:bg-accent flex w-full cursor-pointer items-center gap-2 rounded-lg border p-3 font-normal">
+              <RadioGroupItem value="yes" />
+              <span className="text-sm">Yes</span>
+            </FieldLabel>
+            <FieldLabel className="hover:bg-accent flex w-full cursor-pointer items-center gap-2 rounded-lg border p-3 font-normal">
+              <RadioGroupItem value="no" />
+              <span className="text-sm">No</span>
+            </FieldLabel>
+          </RadioGroup>
+        </Field>
+      );
+    case "multiple_choice":
+      return (
+        <Field>
+          {label}
+          <Select
+            value={typeof value === "string" ? value : ""}
+            onValueChange={(val) => onChange(val)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select an answer" />
+            </SelectTrigger>
+            <SelectContent>
+              {(question.options ?? []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+      );
+    case "numeric":
+      return (
+        <Field>
+          {label}
+          <Input
+            type="number"
+            inputMode="decimal"
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) =>
+              onChange(
+                e.target.value === "" ? undefined : Number(e.target.value),
+              )
+            }
+          />
+        </Field>
+      );
+    case "text":
+      return (
+        <Field>
+          {label}
+          <Textarea
+            className="min-h-24 resize-y"
+            maxLength={2000}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </Field>
+      );
+  }
+};
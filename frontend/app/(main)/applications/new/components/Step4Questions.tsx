@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Field, FieldLabel } from "@/components/ui/field";
@@ -14,9 +15,14 @@ import {
 } from "@/components/ui/select";
 import { useForm } from "@tanstack/react-form";
 import { useApplicationStore } from "@/context/store";
-import { ApplicationFormData } from "@/context/slices/application-form-slice";
+import {
+  ApplicationFormData,
+  ScreeningAnswerValue,
+} from "@/context/slices/application-form-slice";
+import type { PublicScreeningQuestion } from "@/schemas/responses/jobs";
 import { toast } from "sonner";
 import { step4QuestionsSchema } from "@/schemas/applications";
+import { ScreeningQuestionField } from "./ScreeningQuestionField";
 
 const RACE_OPTIONS = [
   "Asian",
@@ -38,11 +44,37 @@ const VETERAN_OPTIONS = [
 const EXPERIENCE_OPTIONS = ["0-1", "2-4", "5-9", "10+"] as const;
 
 interface Step4QuestionsProps {
+  /** The employer's screening questions for this job, in display order */
+  screeningQuestions: PublicScreeningQuestion[];
   onSubmit: (finalData: ApplicationFormData) => Promise<boolean>;
 }
 
-export const Step4Questions = ({ onSubmit }: Step4QuestionsProps) => {
+const isUnanswered = (value: ScreeningAnswerValue | undefined) =>
+  value === undefined || (typeof value === "string" && !value.trim());
+
+export const Step4Questions = ({
+  screeningQuestions,
+  onSubmit,
+}: Step4QuestionsProps) => {
   const { setStep, formData, setFormData } = useApplicationStore();
+  const [screeningAnswers, setScreeningAnswers] = useState(
+    formData.screeningAnswers,
+  );
+
+  const handleScreeningAnswer = (
+    questionId: number,
+    value: ScreeningAnswerValue | undefined,
+  ) => {
+    setScreeningAnswers((prev) => {
+      const next = { ...prev };
+      if (value === undefined) {
+        delete next[questionId];
+      } else {
+        next[questionId] = value;
+      }
+      return next;
+    });
+  };
 
   const form = useForm({
     defaultValues: {
@@ -62,6 +94,15 @@ export const Step4Questions = ({ onSubmit }: Step4QuestionsProps) => {
         return;
       }
 
+      const unanswered = screeningQuestions.find(
+        (question) =>
+          question.isRequired && isUnanswered(screeningAnswers[question.id]),
+      );
+      if (unanswered) {
+        toast.error(`Please answer: ${unanswered.question}`);
+        return;
+      }
+
       // Build complete form data snapshot (avoids race condition)
       const currentFormData = useApplicationStore.getState().formData;
       const finalData: ApplicationFormData = {
@@ -74,10 +115,14 @@ export const Step4Questions = ({ onSubmit }: Step4QuestionsProps) => {
           yearsOfExperience: value.yearsOfExperience,
           authorized: value.authorized,
         },
+        screeningAnswers,
       };
 
       // Update store for UI consistency
-      setFormData({ customAnswers: finalData.customAnswers });
+      setFormData({
+        customAnswers: finalData.customAnswers,
+        screeningAnswers: finalData.screeningAnswers,
+      });
 
       const success = await onSubmit(finalData);
       if (success) {
@@ -94,6 +139,16 @@ export const Step4Questions = ({ onSubmit }: Step4QuestionsProps) => {
       </h2>
 
       <div className="flex flex-col gap-5">
+        {/* Employer screening questions */}
+        {screeningQuestions.map((question) => (
+          <ScreeningQuestionField
+            key={question.id}
+            question={question}
+            value={screeningAnswers[question.id]}
+            onChange={(value) => handleScreeningAnswer(question.id, value)}
+          />
+        ))}
+
         {/* Salvation Statement */}
         <form.Field
           name="salvationStatement"
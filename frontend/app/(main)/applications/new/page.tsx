@@ -1,5 +1,5 @@
 import { redirect } from "next/navigation";
-import { getJobById, getUserInformation } from "@/lib/api";
+import { getJobById, getUserInformation, recordApplyStart } from "@/lib/api";
 import {
   ApplicationFooter,
   ApplicationHeader,
@@ -70,6 +70,9 @@ export default async function ApplyForJob({ searchParams }: Props) {
     );
   }
 
+  // Feeds the employer's application funnel; failures don't block applying
+  await recordApplyStart(jobId).catch(() => null);
+
   return (
     <div className="min-h-screen bg-slate-50 p-4 font-sans md:p-8">
       <div className="mx-auto max-w-6xl">
@@ -90,6 +93,7 @@ export default async function ApplyForJob({ searchParams }: Props) {
                   key={jobId}
                   jobId={jobId}
                   userProfile={userProfileRes.data}
+                  screeningQuestions={jobRes.data.screeningQuestions ?? []}
                 />
                 <ApplicationFooter />
               </div>
@@ -1,6 +1,10 @@
 "use client";
 
 import type { DatePosted, JobType, ServiceRole } from "@/context/store";
+import type {
+  SearchFacetCount,
+  SearchFacets,
+} from "@/schemas/responses/jobs/search";
 import {
   Accordion,
   AccordionContent,
@@ -15,32 +19,233 @@ import { Switch } from "@/components/ui/switch";
 export interface FilterOptionsContentProps {
   jobTypes: JobType[];
   remoteOnly: boolean;
+  verifiedOnly: boolean;
   datePosted: DatePosted | null;
   serviceRoles: ServiceRole[];
   onJobTypesChange: (types: JobType[]) => void;
   onRemoteOnlyChange: (remote: boolean) => void;
+  onVerifiedOnlyChange: (verified: boolean) => void;
   onDatePostedChange: (datePosted: DatePosted | null) => void;
   onServiceRolesChange: (roles: ServiceRole[]) => void;
+  skills: string[];
+  experience: string | null;
+  selectedCity: string | null;
+  selectedState: string | null;
+  onSkillsChange: (skills: string[]) => void;
+  onExperienceChange: (experience: string | null) => void;
+  onSelectedCityChange: (city: string | null) => void;
+  onSelectedStateChange: (state: string | null) => void;
+  /** Facet counts for the current search; omitted when no search has run. */
+  facets?: SearchFacets;
 }
 
+/**
+ * Count for `value` in a facet list, or `undefined` when facets are unknown
+ * so the option renders without a count.
+ */
+const getFacetCount = (
+  counts: SearchFacetCount[] | undefined,
+  value: string,
+): number | undefined =>
+  counts
+    ? (counts.find((facet) => facet.value === value)?.count ?? 0)
+    : undefined;
+
+const FacetCount = ({ count }: { count: number | undefined }) =>
+  count === undefined ? null : (
+    <span className="text-muted-foreground ml-auto text-xs tabular-nums">
+      {count}
+    </span>
+  );
+
+/**
+ * Options of an open-ended facet. Selected values the counts no longer report
+ * are listed first so they can still be cleared.
+ */
+const getFacetOptions = (
+  counts: SearchFacetCount[] | undefined,
+  selected: string[],
+): SearchFacetCount[] => {
+  const reported = (counts ?? []).filter((facet) => facet.value !== "");
+  const unreported = selected
+    .filter((value) => !reported.some((facet) => facet.value === value))
+    .map((value) => ({ value, count: 0 }));
+  return [...unreported, ...reported];
+};
+
+interface FacetSectionProps {
+  id: string;
+  title: string;
+  counts: SearchFacetCount[] | undefined;
+}
+
+/** Single-choice facet, e.g. experience level or location. */
+const FacetChoiceSection = ({
+  id,
+  title,
+  counts,
+  value,
+  onChange,
+}: FacetSectionProps & {
+  value: string | null;
+  onChange: (value: string | null) => void;
+}) => {
+  const options = getFacetOptions(counts, value ? [value] : []);
+  if (options.length === 0) return null;
+
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      <AccordionItem value={id} className="border-secondary">
+        <AccordionTrigger className="py-3 text-sm font-semibold">
+          {title}
+        </AccordionTrigger>
+        <AccordionContent className="flex flex-col space-y-3 pb-3">
+          <RadioGroup
+            value={value ?? ""}
+            onValueChange={(next) => onChange(next === "" ? null : next)}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem
+                className="border-primary focus-visible:ring-primary"
+                circleClassName="fill-primary"
+                value=""
+                id={`${id}-any`}
+              />
+              <Label
+                htmlFor={`${id}-any`}
+                className="cursor-pointer font-normal"
+              >
+                Any
+              </Label>
+            </div>
+            {options.map((option, index) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem
+                  className="border-primary focus-visible:ring-primary"
+                  circleClassName="fill-primary"
+                  value={option.value}
+                  id={`${id}-${index}`}
+                />
+                <Label
+                  htmlFor={`${id}-${index}`}
+                  className="cursor-pointer font-normal"
+                >
+                  {option.value}
+                </Label>
+                <FacetCount count={option.count} />
+              </div>
+            ))}
+          </RadioGroup>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+/** Multi-choice facet whose selected values must all match, e.g. skills. */
+const FacetCheckboxSection = ({
+  id,
+  title,
+  counts,
+  values,
+  onChange,
+}: FacetSectionProps & {
+  values: string[];
+  onChange: (values: string[]) => void;
+}) => {
+  const options = getFacetOptions(counts, values);
+  if (options.length === 0) return null;
+
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      <AccordionItem value={id} className="border-secondary">
+        <AccordionTrigger className="py-3 text-sm font-semibold">
+          {title}
+        </AccordionTrigger>
+        <AccordionContent className="flex flex-col space-y-3 pb-3">
+          {options.map((option, index) => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${id}-${index}`}
+                className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
+                checked={values.includes(option.value)}
+                onCheckedChange={(checked) => {
+                  if (checked) {
+                    onChange([...values, option.value]);
+                  } else {
+                    onChange(values.filter((value) => value !== option.value));
+                  }
+                }}
+              />
+              <Label
+                htmlFor={`${id}-${index}`}
+                className="cursor-pointer font-normal"
+              >
+                {option.value}
+              </Label>
+              <FacetCount count={option.count} />
+            </div>
+          ))}
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
 export const FilterOptionsContent = ({
   jobTypes,
   remoteOnly,
+  verifiedOnly,
   datePosted,
   serviceRoles,
   onJobTypesChange,
   onRemoteOnlyChange,
+  onVerifiedOnlyChange,
   onDatePostedChange,
   onServiceRolesChange,
+  skills,
+  experience,
+  selectedCity,
+  selectedState,
+  onSkillsChange,
+  onExperienceChange,
+  onSelectedCityChange,
+  onSelectedStateChange,
+  facets,
 }: FilterOptionsContentProps) => {
+  const remoteCount = getFacetCount(facets?.isRemote, "true");
+  const jobTypeCount = (type: JobType) => getFacetCount(facets?.jobType, type);
+  const serviceRoleCount = (role: ServiceRole) =>
+    getFacetCount(facets?.compensationType, role);
+
+  // Counts leave out each facet's own selection, so a zero-count option can
+  // only lead to an empty result list. Options that are already selected
+  // stay enabled so they can still be cleared.
+  const isJobTypeDisabled = (type: JobType) =>
+    jobTypeCount(type) === 0 && !jobTypes.includes(type);
+  const isServiceRoleDisabled = (role: ServiceRole) =>
+    serviceRoleCount(role) === 0 && !serviceRoles.includes(role);
+
   return (
     <div className="w-full space-y-1">
       <div className="flex items-center justify-between space-x-2">
         <Label htmlFor="remote-only">Remote Only</Label>
+        <FacetCount count={remoteCount} />
         <Switch
           id="remote-only"
           onCheckedChange={onRemoteOnlyChange}
           checked={remoteOnly}
+          disabled={remoteCount === 0 && !remoteOnly}
+          className="data-[state=checked]:bg-primary"
+        />
+      </div>
+
+      <div className="flex items-center justify-between space-x-2 py-2">
+        <Label htmlFor="verified-only">Verified organizations only</Label>
+        <Switch
+          id="verified-only"
+          onCheckedChange={onVerifiedOnlyChange}
+          checked={verifiedOnly}
           className="data-[state=checked]:bg-primary"
         />
       </div>
@@ -129,6 +334,7 @@ export const FilterOptionsContent = ({
                 id="full-time"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={jobTypes.includes("full-time")}
+                disabled={isJobTypeDisabled("full-time")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onJobTypesChange([...jobTypes, "full-time"]);
@@ -142,12 +348,14 @@ export const FilterOptionsContent = ({
               <Label htmlFor="full-time" className="cursor-pointer font-normal">
                 Full-time
               </Label>
+              <FacetCount count={jobTypeCount("full-time")} />
             </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="part-time"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={jobTypes.includes("part-time")}
+                disabled={isJobTypeDisabled("part-time")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onJobTypesChange([...jobTypes, "part-time"]);
@@ -161,12 +369,14 @@ export const FilterOptionsContent = ({
               <Label htmlFor="part-time" className="cursor-pointer font-normal">
                 Part-time
               </Label>
+              <FacetCount count={jobTypeCount("part-time")} />
             </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="contract"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={jobTypes.includes("contract")}
+                disabled={isJobTypeDisabled("contract")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onJobTypesChange([...jobTypes, "contract"]);
@@ -180,12 +390,14 @@ export const FilterOptionsContent = ({
               <Label htmlFor="contract" className="cursor-pointer font-normal">
                 Contract
               </Label>
+              <FacetCount count={jobTypeCount("contract")} />
             </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="volunteer"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={jobTypes.includes("volunteer")}
+                disabled={isJobTypeDisabled("volunteer")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onJobTypesChange([...jobTypes, "volunteer"]);
@@ -199,12 +411,14 @@ export const FilterOptionsContent = ({
               <Label htmlFor="volunteer" className="cursor-pointer font-normal">
                 Volunteer
               </Label>
+              <FacetCount count={jobTypeCount("volunteer")} />
             </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="internship"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={jobTypes.includes("internship")}
+                disabled={isJobTypeDisabled("internship")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onJobTypesChange([...jobTypes, "internship"]);
@@ -221,6 +435,7 @@ export const FilterOptionsContent = ({
               >
                 Internship
               </Label>
+              <FacetCount count={jobTypeCount("internship")} />
             </div>
           </AccordionContent>
         </AccordionItem>
@@ -237,6 +452,7 @@ export const FilterOptionsContent = ({
                 id="paid"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={serviceRoles.includes("paid")}
+                disabled={isServiceRoleDisabled("paid")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onServiceRolesChange([...serviceRoles, "paid"]);
@@ -250,12 +466,14 @@ export const FilterOptionsContent = ({
               <Label htmlFor="paid" className="cursor-pointer font-normal">
                 Paid
               </Label>
+              <FacetCount count={serviceRoleCount("paid")} />
             </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="missionary"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={serviceRoles.includes("missionary")}
+                disabled={isServiceRoleDisabled("missionary")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onServiceRolesChange([...serviceRoles, "missionary"]);
@@ -272,12 +490,14 @@ export const FilterOptionsContent = ({
               >
                 Missionary
               </Label>
+              <FacetCount count={serviceRoleCount("missionary")} />
             </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="volunteer-role"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={serviceRoles.includes("volunteer")}
+                disabled={isServiceRoleDisabled("volunteer")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onServiceRolesChange([...serviceRoles, "volunteer"]);
@@ -294,12 +514,14 @@ export const FilterOptionsContent = ({
               >
                 Volunteer
               </Label>
+              <FacetCount count={serviceRoleCount("volunteer")} />
             </div>
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="stipend"
                 className="accent-primary focus:ring-primary border-primary data-[state=checked]:bg-primary data-[state=checked]:text-primary-foreground"
                 checked={serviceRoles.includes("stipend")}
+                disabled={isServiceRoleDisabled("stipend")}
                 onCheckedChange={(checked) => {
                   if (checked) {
                     onServiceRolesChange([...serviceRoles, "stipend"]);
@@ -313,10 +535,40 @@ export const FilterOptionsContent = ({
               <Label htmlFor="stipend" className="cursor-pointer font-normal">
                 Stipend
               </Label>
+              <FacetCount count={serviceRoleCount("stipend")} />
             </div>
           </AccordionContent>
         </AccordionItem>
       </Accordion>
+
+      <FacetChoiceSection
+        id="experience"
+        title="Experience"
+        counts={facets?.experience}
+        value={experience}
+        onChange={onExperienceChange}
+      />
+      <FacetChoiceSection
+        id="state"
+        title="State"
+        counts={facets?.state}
+        value={selectedState}
+        onChange={onSelectedStateChange}
+      />
+      <FacetChoiceSection
+        id="city"
+        title="City"
+        counts={facets?.city}
+        value={selectedCity}
+        onChange={onSelectedCityChange}
+      />
+      <FacetCheckboxSection
+        id="skills"
+        title="Skills"
+        counts={facets?.skills}
+        values={skills}
+        onChange={onSkillsChange}
+      />
     </div>
   );
 };
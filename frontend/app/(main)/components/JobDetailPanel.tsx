@@ -1,16 +1,24 @@
 "use client";
 
-import { useMemo, useTransition } from "react";
+import { useMemo, useState, useTransition } from "react";
 import { useQueryClient } from "@tanstack/react-query";
-import { Bookmark, Building2, Menu } from "lucide-react";
+import { Bookmark, Building2, Flag, Menu } from "lucide-react";
 import { toast } from "sonner";
 
 import { useFetchJobDetails } from "@/app/(main)/hooks/use-fetch-jobs";
 import { saveJobForUser, removeSavedJobForUser } from "@/lib/api";
 import { useAuthenticationStatus } from "@/hooks/use-authentication-status";
+import { ReportJobDialog } from "@/app/(main)/components/ReportJobDialog";
 
+import { VerifiedBadge } from "@/components/common";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Toggle } from "@/components/ui/toggle";
 import {
@@ -27,6 +35,7 @@ interface JobDetailPanelProps {
 export const JobDetailPanel = ({ jobId }: JobDetailPanelProps) => {
   const { isAuthenticated } = useAuthenticationStatus();
   const [isPending, startTransition] = useTransition();
+  const [isReportOpen, setIsReportOpen] = useState(false);
   const queryClient = useQueryClient();
 
   const {
@@ -62,6 +71,14 @@ export const JobDetailPanel = ({ jobId }: JobDetailPanelProps) => {
     });
   };
 
+  const handleReportJob = () => {
+    if (!isAuthenticated) {
+      toast.info("Sign in to report jobs");
+      return;
+    }
+    setIsReportOpen(true);
+  };
+
   if (fetchingJobDetails || !jobDetails) {
     return (
       <div className="overflow-y-auto">
@@ -88,14 +105,32 @@ export const JobDetailPanel = ({ jobId }: JobDetailPanelProps) => {
               <Building2 className="text-muted-foreground mr-2 size-5" />
             </div>
             <div>
-              <div className="font-semibold">{employer?.name}</div>
+              <div className="flex items-center gap-2">
+                <Link
+                  href={`/organizations/${job.employerId}`}
+                  className="font-semibold hover:underline"
+                >
+                  {employer?.name}
+                </Link>
+                {employer?.isVerified && <VerifiedBadge />}
+              </div>
               <div className="text-muted-foreground text-sm">2.9★</div>
             </div>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" size="icon">
-              <Menu className="h-5 w-5" />
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="icon" aria-label="More actions">
+                  <Menu className="h-5 w-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={handleReportJob}>
+                  <Flag className="mr-2 h-4 w-4" />
+                  Report this job
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Tooltip>
               <TooltipTrigger asChild>
                 <span>
@@ -147,6 +182,11 @@ export const JobDetailPanel = ({ jobId }: JobDetailPanelProps) => {
           <p className="text-card-foreground mb-4">{job.description || ""}</p>
         </div>
       </CardContent>
+      <ReportJobDialog
+        jobId={job.id}
+        open={isReportOpen}
+        onOpenChange={setIsReportOpen}
+      />
     </Card>
   );
 };
@@ -1,6 +1,7 @@
 "use client";
 
 import { ChevronLeft } from "lucide-react";
+import Link from "next/link";
 
 import { useFetchJobDetails } from "@/app/(main)/hooks/use-fetch-jobs";
 import { JobsWrapperSkeleton } from "@/app/(main)/components/JobsWrapper";
@@ -69,7 +70,12 @@ export const JobDetailPanelMobile = ({
           <div className="flex-1 overflow-y-auto px-4">
             <div className="flex flex-col space-y-2">
               <div>
-                <p className="text-base font-medium">{employer?.name}</p>
+                <Link
+                  href={`/organizations/${job.employerId}`}
+                  className="text-base font-medium hover:underline"
+                >
+                  {employer?.name}
+                </Link>
                 <p className="text-muted-foreground text-xs">2.9★</p>
               </div>
               <div>
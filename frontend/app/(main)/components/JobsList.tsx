@@ -2,6 +2,7 @@
 
 import { useMemo } from "react";
 import { formatPostedDate } from "@/lib/utils";
+import { formatCompensation } from "@/lib/format-compensation";
 import { JobCard } from "@/components/JobCard";
 
 import { JobTypeEnum } from "@/lib/types";
@@ -25,6 +26,7 @@ export const JobsList = ({
           jobId={job.id}
           jobType={job.jobType as JobTypeEnum}
           jobDescription={job.description}
+          payRange={formatCompensation(job)}
           companyName={employer!.name}
           experienceLevel={job.experience || "Not Specified"}
           location={`${job.city}, ${job.state || job.country}`}
@@ -32,6 +34,7 @@ export const JobsList = ({
           positionName={job.title}
           posted={formatPostedDate(job.createdAt)}
           logoUrl={employer?.logoUrl || null}
+          isVerified={employer?.isVerified}
           onJobSelected={() => onJobSelected(job.id)}
           hasSaved={hasSaved}
         />
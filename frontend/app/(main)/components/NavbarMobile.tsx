@@ -118,8 +118,9 @@ export function NavbarMobile({
                 <Button
                   variant="link"
                   className="text-secondary-foreground cursor-pointer rounded-2xl px-6 py-2 text-xs transition md:text-sm"
+                  asChild
                 >
-                  Messages
+                  <Link href="/messages">Messages</Link>
                 </Button>
               </SheetClose>
               <SheetClose asChild>
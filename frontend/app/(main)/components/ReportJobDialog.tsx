@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+import { reportJob } from "@/lib/api";
+import type { JobReportReason } from "@/lib/types";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+
+const REPORT_REASONS: { value: JobReportReason; label: string }[] = [
+  { value: "scam", label: "Scam or asks for money" },
+  { value: "inappropriate", label: "Offensive or inappropriate" },
+  { value: "discriminatory", label: "Discriminatory" },
+  { value: "misleading", label: "Misleading or inaccurate" },
+  { value: "duplicate", label: "Duplicate posting" },
+  { value: "other", label: "Something else" },
+];
+
+interface ReportJobDialogProps {
+  jobId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReportJobDialog({
+  jobId,
+  open,
+  onOpenChange,
+}: ReportJobDialogProps) {
+  const [reason, setReason] = useState<JobReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setReason(null);
+      setDetails("");
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = () => {
+    if (!reason) return;
+
+    startTransition(async () => {
+      const result = await reportJob(jobId, {
+        reason,
+        details: details.trim() || undefined,
+      });
+      if (!result.success) {
+        toast.error(result.message);
+        return;
+      }
+      toast.success(result.message);
+      handleOpenChange(false);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report this job</DialogTitle>
+          <DialogDescription>
+            Our moderation team reviews every report. The organization is not
+            told who reported the job.
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup
+          value={reason ?? undefined}
+          onValueChange={(value) => setReason(value as JobReportReason)}
+          className="flex flex-col gap-3"
+        >
+          {REPORT_REASONS.map(({ value, label }) => (
+            <div key={value} className="flex items-center gap-3">
+              <RadioGroupItem value={value} id={`report-reason-${value}`} />
+              <Label htmlFor={`report-reason-${value}`}>{label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="report-details">Details (optional)</Label>
+          <Textarea
+            id="report-details"
+            value={details}
+            onChange={(event) => setDetails(event.target.value)}
+            maxLength={1000}
+            placeholder="Tell us what looks wrong"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!reason || isPending}
+          >
+            {isPending ? "Sending..." : "Send report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,17 +12,30 @@ import {
 } from "@/components/ui/dialog";
 import { FilterOptionsContent } from "@/app/(main)/components/FilterOptionsContent";
 import { useFiltersStore } from "@/context/store";
+import { useSearchJobs } from "@/app/(main)/hooks/use-search-jobs";
 
 export function SearchFilterDialogButton() {
   const jobTypes = useFiltersStore((state) => state.jobTypes);
   const remoteOnly = useFiltersStore((state) => state.remoteOnly);
+  const verifiedOnly = useFiltersStore((state) => state.verifiedOnly);
   const datePosted = useFiltersStore((state) => state.datePosted);
   const serviceRoles = useFiltersStore((state) => state.serviceRoles);
+  const skills = useFiltersStore((state) => state.skills);
+  const experience = useFiltersStore((state) => state.experience);
+  const selectedCity = useFiltersStore((state) => state.selectedCity);
+  const selectedState = useFiltersStore((state) => state.selectedState);
 
   const setJobTypes = useFiltersStore((state) => state.setJobTypes);
   const setRemoteOnly = useFiltersStore((state) => state.setRemoteOnly);
+  const setVerifiedOnly = useFiltersStore((state) => state.setVerifiedOnly);
   const setDatePosted = useFiltersStore((state) => state.setDatePosted);
   const setServiceRoles = useFiltersStore((state) => state.setServiceRoles);
+  const setSkills = useFiltersStore((state) => state.setSkills);
+  const setExperience = useFiltersStore((state) => state.setExperience);
+  const setSelectedCity = useFiltersStore((state) => state.setSelectedCity);
+  const setSelectedState = useFiltersStore((state) => state.setSelectedState);
+
+  const { facets } = useSearchJobs();
 
   return (
     <Dialog>
@@ -46,12 +59,23 @@ export function SearchFilterDialogButton() {
           <FilterOptionsContent
             jobTypes={jobTypes}
             remoteOnly={remoteOnly}
+            verifiedOnly={verifiedOnly}
             datePosted={datePosted}
             serviceRoles={serviceRoles}
             onJobTypesChange={setJobTypes}
             onRemoteOnlyChange={setRemoteOnly}
+            onVerifiedOnlyChange={setVerifiedOnly}
             onDatePostedChange={setDatePosted}
             onServiceRolesChange={setServiceRoles}
+            skills={skills}
+            experience={experience}
+            selectedCity={selectedCity}
+            selectedState={selectedState}
+            onSkillsChange={setSkills}
+            onExperienceChange={setExperience}
+            onSelectedCityChange={setSelectedCity}
+            onSelectedStateChange={setSelectedState}
+            facets={facets}
           />
         </div>
       </DialogContent>
@@ -21,24 +21,60 @@ import {
   type ServiceRole,
   useFiltersStore,
 } from "@/context/store";
+import { useSearchJobs } from "@/app/(main)/hooks/use-search-jobs";
 
 interface PendingFilters {
   jobTypes: JobType[];
   remoteOnly: boolean;
+  verifiedOnly: boolean;
   datePosted: DatePosted | null;
   serviceRoles: ServiceRole[];
+  skills: string[];
+  experience: string | null;
+  selectedCity: string | null;
+  selectedState: string | null;
 }
 
 const DEFAULT_FILTERS: PendingFilters = {
   jobTypes: [],
   remoteOnly: false,
+  verifiedOnly: false,
   datePosted: null,
   serviceRoles: [],
+  skills: [],
+  experience: null,
+  selectedCity: null,
+  selectedState: null,
 };
 
+/** The drawer's filters, out of the full store state. */
+const pickPendingFilters = ({
+  jobTypes,
+  remoteOnly,
+  verifiedOnly,
+  datePosted,
+  serviceRoles,
+  skills,
+  experience,
+  selectedCity,
+  selectedState,
+}: PendingFilters): PendingFilters => ({
+  jobTypes,
+  remoteOnly,
+  verifiedOnly,
+  datePosted,
+  serviceRoles,
+  skills,
+  experience,
+  selectedCity,
+  selectedState,
+});
+
 export const SearchFiltersMobile = () => {
   const [open, setOpen] = useState(false);
   const [pending, setPending] = useState<PendingFilters>(DEFAULT_FILTERS);
+  // Counts reflect the applied filters, not the pending ones in the drawer.
+  const { facets } = useSearchJobs();
 
   // Track whether the user explicitly applied — when false, closing the
   // drawer discards pending changes instead of committing them.
@@ -49,15 +85,11 @@ export const SearchFiltersMobile = () => {
   const handleOpenChange = useCallback((nextOpen: boolean) => {
     if (nextOpen) {
       // Opening: snapshot current Zustand state
-      const { jobTypes, remoteOnly, datePosted, serviceRoles } =
-        useFiltersStore.getState();
-      setPending({ jobTypes, remoteOnly, datePosted, serviceRoles });
+      setPending(pickPendingFilters(useFiltersStore.getState()));
       appliedRef.current = false;
     } else if (!appliedRef.current) {
       // Closing without applying: reset pending to match Zustand
-      const { jobTypes, remoteOnly, datePosted, serviceRoles } =
-        useFiltersStore.getState();
-      setPending({ jobTypes, remoteOnly, datePosted, serviceRoles });
+      setPending(pickPendingFilters(useFiltersStore.getState()));
     }
     setOpen(nextOpen);
   }, []);
@@ -77,7 +109,12 @@ export const SearchFiltersMobile = () => {
       jobTypes: [],
       serviceRoles: [],
       remoteOnly: false,
+      verifiedOnly: false,
       datePosted: null,
+      skills: [],
+      experience: null,
+      selectedCity: null,
+      selectedState: null,
       sortBy: "recent",
     });
     appliedRef.current = true;
@@ -116,6 +153,7 @@ export const SearchFiltersMobile = () => {
           <FilterOptionsContent
             jobTypes={pending.jobTypes}
             remoteOnly={pending.remoteOnly}
+            verifiedOnly={pending.verifiedOnly}
             datePosted={pending.datePosted}
             serviceRoles={pending.serviceRoles}
             onJobTypesChange={(types) =>
@@ -124,12 +162,32 @@ export const SearchFiltersMobile = () => {
             onRemoteOnlyChange={(remote) =>
               setPending((prev) => ({ ...prev, remoteOnly: remote }))
             }
+            onVerifiedOnlyChange={(verified) =>
+              setPending((prev) => ({ ...prev, verifiedOnly: verified }))
+            }
             onDatePostedChange={(datePosted) =>
               setPending((prev) => ({ ...prev, datePosted }))
             }
             onServiceRolesChange={(roles) =>
               setPending((prev) => ({ ...prev, serviceRoles: roles }))
             }
+            skills={pending.skills}
+            experience={pending.experience}
+            selectedCity={pending.selectedCity}
+            selectedState={pending.selectedState}
+            onSkillsChange={(skills) =>
+              setPending((prev) => ({ ...prev, skills }))
+            }
+            onExperienceChange={(experience) =>
+              setPending((prev) => ({ ...prev, experience }))
+            }
+            onSelectedCityChange={(selectedCity) =>
+              setPending((prev) => ({ ...prev, selectedCity }))
+            }
+            onSelectedStateChange={(selectedState) =>
+              setPending((prev) => ({ ...prev, selectedState }))
+            }
+            facets={facets}
           />
         </div>
 
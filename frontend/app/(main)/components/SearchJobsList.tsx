@@ -3,6 +3,7 @@
 import { JobCard } from "@/components/JobCard";
 import { JobTypeEnum } from "@/lib/types";
 import { formatPostedDate } from "@/lib/utils";
+import { formatCompensation } from "@/lib/format-compensation";
 import type { SearchJobResult } from "@/schemas/responses/jobs/search";
 
 interface SearchJobsListProps {
@@ -36,6 +37,7 @@ export function SearchJobsList({
             jobId={jobId}
             jobType={result.jobType as JobTypeEnum}
             compensationType={result.compensationType}
+            payRange={formatCompensation(result)}
             jobDescription={result.description}
             companyName={result.company}
             experienceLevel={result.experience || "Not Specified"}
@@ -44,6 +46,7 @@ export function SearchJobsList({
             positionName={result.title}
             posted={formatPostedDate(new Date(result.createdAt))}
             logoUrl={result.logoUrl ?? null}
+            isVerified={result.isVerified}
             onJobSelected={() => onJobSelected(jobId)}
             hasSaved={false}
           />
@@ -60,7 +60,13 @@ export function SearchJobsWrapper({
   const location = useFiltersStore((state) => state.location);
   const jobTypes = useFiltersStore((state) => state.jobTypes);
   const serviceRoles = useFiltersStore((state) => state.serviceRoles);
+  const workAreas = useFiltersStore((state) => state.workAreas);
+  const skills = useFiltersStore((state) => state.skills);
+  const experience = useFiltersStore((state) => state.experience);
+  const selectedCity = useFiltersStore((state) => state.selectedCity);
+  const selectedState = useFiltersStore((state) => state.selectedState);
   const remoteOnly = useFiltersStore((state) => state.remoteOnly);
+  const verifiedOnly = useFiltersStore((state) => state.verifiedOnly);
   const storeSortBy = useFiltersStore((state) => state.sortBy);
   const setSortBy = useFiltersStore((state) => state.setSortBy);
   const datePosted = useFiltersStore((state) => state.datePosted);
@@ -74,7 +80,13 @@ export function SearchJobsWrapper({
         location,
         jobTypes,
         serviceRoles,
+        workAreas,
+        skills,
+        experience,
+        selectedCity,
+        selectedState,
         remoteOnly,
+        verifiedOnly,
         sortBy: storeSortBy,
         datePosted,
       }),
@@ -176,7 +188,13 @@ export function SearchJobsWrapper({
       location: "",
       jobTypes: [],
       serviceRoles: [],
+      workAreas: [],
+      skills: [],
+      experience: null,
+      selectedCity: null,
+      selectedState: null,
       remoteOnly: false,
+      verifiedOnly: false,
       sortBy: "recent",
       datePosted: null,
     });
@@ -11,6 +11,7 @@ import { DesktopSearchBar } from "@/app/(main)/components/DesktopSearchBar";
 import { FeatureErrorBoundary } from "@/components/common/FeatureErrorBoundary";
 import { JobTypeDropDownButton } from "@/app/(main)/components/JobTypeDropDownButton";
 import { ServiceRoleDropDownButton } from "@/app/(main)/components/ServiceRoleDropDownButton";
+import { WorkAreaDropDownButton } from "@/app/(main)/components/WorkAreaDropDownButton";
 import { DatePostedDropDownButton } from "@/app/(main)/components/DatePostedDropDownButton";
 import { SearchFilterDropDownButton } from "@/app/(main)/components/SearchFilterDropDownButton";
 import { SearchFilterDialogButton } from "@/app/(main)/components/SearchFilterDialogButton";
@@ -139,6 +140,7 @@ export function SearchPageContent({
                     <RemoteOnlyBadge />
                     <JobTypeDropDownButton />
                     <ServiceRoleDropDownButton />
+                    <WorkAreaDropDownButton />
                     <DatePostedDropDownButton />
                   </div>
                 </div>
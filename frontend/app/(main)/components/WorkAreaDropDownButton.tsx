@@ -0,0 +1,72 @@
+"use client";
+
+import { memo, useCallback } from "react";
+import { ChevronDown } from "lucide-react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuCheckboxItem,
+  DropdownMenuGroup,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { useFiltersStore } from "@/context/store";
+import { useJobWorkAreas } from "@/app/(main)/hooks/use-job-work-areas";
+
+export const WorkAreaDropDownButton = memo(function WorkAreaDropDownButton() {
+  const workAreas = useFiltersStore((state) => state.workAreas);
+  const setWorkAreas = useFiltersStore((state) => state.setWorkAreas);
+  const { workAreas: options } = useJobWorkAreas();
+
+  const handleWorkAreaChange = useCallback(
+    (name: string, checked: boolean) => {
+      if (checked) {
+        setWorkAreas([...workAreas, name]);
+      } else {
+        setWorkAreas(workAreas.filter((area) => area !== name));
+      }
+    },
+    [workAreas, setWorkAreas],
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className="hover:bg-input bg-secondary data-[state=open]:bg-input rounded-full border-none px-3 py-4 shadow-none focus:bg-transparent focus-visible:ring-0"
+        asChild
+      >
+        <Button
+          variant="outline"
+          className="hover:text-foreground cursor-pointer hover:bg-transparent"
+        >
+          Work Area
+          {workAreas.length > 0 && ` (${workAreas.length})`}
+          <ChevronDown className="ml-1" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        className="max-h-80 w-64 overflow-y-auto"
+        align="end"
+        side="bottom"
+      >
+        <DropdownMenuGroup className="flex flex-col space-y-2">
+          {options.map((area) => (
+            <DropdownMenuCheckboxItem
+              key={area.id}
+              checked={workAreas.includes(area.name)}
+              onCheckedChange={(checked) =>
+                handleWorkAreaChange(area.name, checked)
+              }
+              onSelect={(event) => event.preventDefault()}
+              className="hover:bg-secondary cursor-pointer rounded-lg py-2 pr-2 pl-8 font-medium"
+            >
+              {area.name}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
+WorkAreaDropDownButton.displayName = "WorkAreaDropDownButton";
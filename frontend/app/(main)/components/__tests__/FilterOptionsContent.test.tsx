@@ -4,16 +4,27 @@ import {
   FilterOptionsContent,
   type FilterOptionsContentProps,
 } from "../FilterOptionsContent";
+import { makeSearchFacets } from "@/test/mocks/handlers";
 
 const defaultProps: FilterOptionsContentProps = {
   jobTypes: [],
   remoteOnly: false,
+  verifiedOnly: false,
   datePosted: null,
   serviceRoles: [],
   onJobTypesChange: vi.fn(),
   onRemoteOnlyChange: vi.fn(),
+  onVerifiedOnlyChange: vi.fn(),
   onDatePostedChange: vi.fn(),
   onServiceRolesChange: vi.fn(),
+  skills: [],
+  experience: null,
+  selectedCity: null,
+  selectedState: null,
+  onSkillsChange: vi.fn(),
+  onExperienceChange: vi.fn(),
+  onSelectedCityChange: vi.fn(),
+  onSelectedStateChange: vi.fn(),
 };
 
 function renderContent(overrides: Partial<FilterOptionsContentProps> = {}) {
@@ -50,6 +61,18 @@ describe("FilterOptionsContent", () => {
     });
   });
 
+  describe("Verified organizations toggle", () => {
+    it("calls onVerifiedOnlyChange when toggled", async () => {
+      const onVerifiedOnlyChange = vi.fn();
+      renderContent({ onVerifiedOnlyChange });
+
+      await userEvent.click(
+        screen.getByRole("switch", { name: /verified organizations only/i }),
+      );
+      expect(onVerifiedOnlyChange).toHaveBeenCalledWith(true);
+    });
+  });
+
   describe("Job Type checkboxes", () => {
     it("renders all 5 job types including Volunteer", async () => {
       renderContent();
@@ -141,4 +164,144 @@ describe("FilterOptionsContent", () => {
       expect(onServiceRolesChange).toHaveBeenCalledWith(["paid"]);
     });
   });
+
+  describe("Facet counts", () => {
+    const facets = makeSearchFacets({
+      jobType: [
+        { value: "full-time", count: 7 },
+        { value: "contract", count: 2 },
+      ],
+      compensationType: [{ value: "paid", count: 9 }],
+      isRemote: [{ value: "true", count: 3 }],
+    });
+
+    it("renders no counts and disables nothing when facets are omitted", async () => {
+      renderContent();
+
+      await userEvent.click(screen.getByText("Job Type"));
+
+      expect(
+        screen.getByRole("checkbox", { name: /internship/i }),
+      ).toBeEnabled();
+      expect(screen.queryByText("0")).not.toBeInTheDocument();
+    });
+
+    it("renders counts next to job type options", async () => {
+      renderContent({ facets });
+
+      await userEvent.click(screen.getByText("Job Type"));
+
+      expect(screen.getByText("7")).toBeInTheDocument();
+      expect(screen.getByText("2")).toBeInTheDocument();
+    });
+
+    it("disables zero-count job types and service roles", async () => {
+      renderContent({ facets });
+
+      await userEvent.click(screen.getByText("Job Type"));
+      expect(
+        screen.getByRole("checkbox", { name: /full-time/i }),
+      ).toBeEnabled();
+      expect(
+        screen.getByRole("checkbox", { name: /internship/i }),
+      ).toBeDisabled();
+
+      await userEvent.click(screen.getByText("Service Role"));
+      expect(screen.getByRole("checkbox", { name: /paid/i })).toBeEnabled();
+      expect(screen.getByRole("checkbox", { name: /stipend/i })).toBeDisabled();
+    });
+
+    it("keeps a selected zero-count option enabled so it can be cleared", async () => {
+      renderContent({ facets, jobTypes: ["internship"] });
+
+      await userEvent.click(screen.getByText("Job Type"));
+
+      expect(
+        screen.getByRole("checkbox", { name: /internship/i }),
+      ).toBeEnabled();
+    });
+
+    it("disables Remote Only when no remote jobs match", () => {
+      renderContent({
+        facets: makeSearchFacets({ isRemote: [{ value: "false", count: 4 }] }),
+      });
+
+      expect(
+        screen.getByRole("switch", { name: /remote only/i }),
+      ).toBeDisabled();
+    });
+  });
+
+  describe("Open-ended facets", () => {
+    const facets = makeSearchFacets({
+      experience: [
+        { value: "entry", count: 4 },
+        { value: "senior", count: 1 },
+      ],
+      state: [{ value: "Texas", count: 5 }],
+      city: [{ value: "Dallas", count: 3 }],
+      skills: [
+        { value: "Music", count: 6 },
+        { value: "Teaching", count: 2 },
+      ],
+    });
+
+    it("hides the sections until facets or a selection exist", () => {
+      renderContent();
+
+      expect(screen.queryByText("Experience")).not.toBeInTheDocument();
+      expect(screen.queryByText("State")).not.toBeInTheDocument();
+      expect(screen.queryByText("City")).not.toBeInTheDocument();
+      expect(screen.queryByText("Skills")).not.toBeInTheDocument();
+    });
+
+    it("calls onExperienceChange with the picked level", async () => {
+      const onExperienceChange = vi.fn();
+      renderContent({ facets, onExperienceChange });
+
+      await userEvent.click(screen.getByText("Experience"));
+      await userEvent.click(screen.getByLabelText("senior"));
+
+      expect(onExperienceChange).toHaveBeenCalledWith("senior");
+    });
+
+    it("calls onSelectedStateChange and onSelectedCityChange", async () => {
+      const onSelectedStateChange = vi.fn();
+      const onSelectedCityChange = vi.fn();
+      renderContent({
+        facets,
+        selectedCity: "Dallas",
+        onSelectedStateChange,
+        onSelectedCityChange,
+      });
+
+      await userEvent.click(screen.getByText("State"));
+      await userEvent.click(screen.getByLabelText("Texas"));
+      expect(onSelectedStateChange).toHaveBeenCalledWith("Texas");
+
+      await userEvent.click(screen.getByText("City"));
+      await userEvent.click(screen.getAllByLabelText("Any")[1]!);
+      expect(onSelectedCityChange).toHaveBeenCalledWith(null);
+    });
+
+    it("calls onSkillsChange with the added skill", async () => {
+      const onSkillsChange = vi.fn();
+      renderContent({ facets, skills: ["Music"], onSkillsChange });
+
+      await userEvent.click(screen.getByText("Skills"));
+      await userEvent.click(
+        screen.getByRole("checkbox", { name: /teaching/i }),
+      );
+
+      expect(onSkillsChange).toHaveBeenCalledWith(["Music", "Teaching"]);
+    });
+
+    it("keeps a selected skill listed after it drops out of the counts", async () => {
+      renderContent({ facets: makeSearchFacets(), skills: ["Greek"] });
+
+      await userEvent.click(screen.getByText("Skills"));
+
+      expect(screen.getByRole("checkbox", { name: /greek/i })).toBeChecked();
+    });
+  });
 });
@@ -70,6 +70,11 @@ function resetStore() {
     location: "",
     jobTypes: [],
     serviceRoles: [],
+    workAreas: [],
+    skills: [],
+    experience: null,
+    selectedCity: null,
+    selectedState: null,
     remoteOnly: false,
     sortBy: "recent",
     datePosted: null,
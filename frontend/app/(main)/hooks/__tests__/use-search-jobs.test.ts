@@ -9,6 +9,7 @@ import { server } from "@/test/mocks/server";
 import {
   SEARCH_URL,
   makePaginatedResponse,
+  makeSearchFacets,
   makeSearchResult,
 } from "@/test/mocks/handlers";
 
@@ -30,6 +31,11 @@ function resetStore() {
     location: "",
     jobTypes: [],
     serviceRoles: [],
+    workAreas: [],
+    skills: [],
+    experience: null,
+    selectedCity: null,
+    selectedState: null,
     remoteOnly: false,
     sortBy: "recent",
     datePosted: null,
@@ -270,4 +276,29 @@ describe("useSearchJobs", () => {
     expect(allJobs.map((j) => j.title)).toEqual(["Page 1 Job", "Page 2 Job"]);
     expect(result.current.hasNextPage).toBe(false);
   });
+
+  it("exposes facet counts from the first page", async () => {
+    const facets = makeSearchFacets({
+      jobType: [{ value: "full-time", count: 4 }],
+    });
+    server.use(
+      http.get(SEARCH_URL, () =>
+        HttpResponse.json(
+          makePaginatedResponse([makeSearchResult({ id: "1" })], { facets }),
+        ),
+      ),
+    );
+
+    useFiltersStore.setState({ keyword: "react" });
+
+    const { result } = renderHook(() => useSearchJobs(), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.facets).toEqual(facets);
+  });
 });
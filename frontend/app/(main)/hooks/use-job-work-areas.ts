@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { getJobWorkAreas } from "@/lib/api";
+
+/**
+ * The work area catalog jobs are tagged with. Public and rarely changing, so
+ * it is cached for the session.
+ */
+export const useJobWorkAreas = () => {
+  const { data, isPending } = useQuery({
+    queryKey: ["job-work-areas"],
+    queryFn: async () => {
+      const result = await getJobWorkAreas();
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      return result.data;
+    },
+    staleTime: Infinity,
+  });
+
+  return { workAreas: data ?? [], isPending };
+};
@@ -13,13 +13,23 @@ import { buildApiParams } from "@/lib/search-params";
  * `buildApiParams`, and only fires a request when at least one searchable
  * field is set. Throws on `success: false` so TanStack Query surfaces errors
  * through its `isError` channel instead of each consumer having to re-check.
+ *
+ * `facets` comes from the first page: Typesense computes facet counts over the
+ * whole filtered result set, so later pages carry the same counts. It is
+ * `undefined` until a search has resolved.
  */
 export function useSearchJobs() {
   const keyword = useFiltersStore((state) => state.keyword);
   const location = useFiltersStore((state) => state.location);
   const jobTypes = useFiltersStore((state) => state.jobTypes);
   const serviceRoles = useFiltersStore((state) => state.serviceRoles);
+  const workAreas = useFiltersStore((state) => state.workAreas);
+  const skills = useFiltersStore((state) => state.skills);
+  const experience = useFiltersStore((state) => state.experience);
+  const selectedCity = useFiltersStore((state) => state.selectedCity);
+  const selectedState = useFiltersStore((state) => state.selectedState);
   const remoteOnly = useFiltersStore((state) => state.remoteOnly);
+  const verifiedOnly = useFiltersStore((state) => state.verifiedOnly);
   const sortBy = useFiltersStore((state) => state.sortBy);
   const datePosted = useFiltersStore((state) => state.datePosted);
 
@@ -28,14 +38,20 @@ export function useSearchJobs() {
     location,
     jobTypes,
     serviceRoles,
+    workAreas,
+    skills,
+    experience,
+    selectedCity,
+    selectedState,
     remoteOnly,
+    verifiedOnly,
     sortBy,
     datePosted,
   });
 
   const enabled = Object.keys(apiParams).length > 0;
 
-  return useInfiniteQuery({
+  const query = useInfiniteQuery({
     queryKey: ["search-jobs", apiParams] as const,
     queryFn: async ({ pageParam }) => {
       const result = await searchJobs({ ...apiParams, page: pageParam });
@@ -51,4 +67,8 @@ export function useSearchJobs() {
     },
     enabled,
   });
+
+  const facets = query.data?.pages[0]?.facets;
+
+  return { ...query, facets };
 }
@@ -0,0 +1,47 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { MessageThread } from "@/components/common";
+import { Button } from "@/components/ui/button";
+import { getApplicationMessageThread } from "@/lib/api";
+
+interface PageProps {
+  params: Promise<{ applicationId: string }>;
+}
+
+export default async function ApplicationMessagesPage({ params }: PageProps) {
+  const { applicationId } = await params;
+  const response = await getApplicationMessageThread(Number(applicationId));
+
+  if (!response.success || !response.data) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 text-center shadow-md">
+          <h1 className="mb-2 text-2xl font-bold text-gray-900">
+            Conversation Not Found
+          </h1>
+          <p className="text-gray-600">
+            This conversation doesn&apos;t exist or you no longer have access to
+            it.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <main className="mx-auto w-full max-w-3xl space-y-4 px-4 py-8">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/messages">
+          <ArrowLeft className="mr-2 size-4" />
+          All messages
+        </Link>
+      </Button>
+      <MessageThread
+        thread={response.data}
+        viewer="applicant"
+        threadPath={`/jobs/me/applications/${applicationId}/messages`}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,51 @@
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import type { MessageInboxThread } from "@/lib/types";
+
+interface MessageInboxProps {
+  threads: MessageInboxThread[];
+}
+
+export default function MessageInbox({ threads }: MessageInboxProps) {
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-4 px-4 py-8">
+      <h1 className="text-2xl font-bold">Messages</h1>
+      <ul className="space-y-3">
+        {threads.map((thread) => (
+          <li key={thread.applicationId}>
+            <Link href={`/messages/${thread.applicationId}`}>
+              <Card className="hover:bg-muted/50 transition-colors">
+                <CardContent className="flex items-start justify-between gap-4 p-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold">{thread.organizationName}</p>
+                    <p className="text-muted-foreground text-sm">
+                      {thread.jobTitle}
+                    </p>
+                    <p className="mt-1 truncate text-sm">
+                      {thread.lastMessage.senderRole === "applicant" && "You: "}
+                      {thread.lastMessage.body}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 flex-col items-end gap-2">
+                    <span className="text-muted-foreground text-xs">
+                      {formatDistanceToNow(
+                        new Date(thread.lastMessage.createdAt),
+                        { addSuffix: true },
+                      )}
+                    </span>
+                    {thread.unreadCount > 0 && (
+                      <Badge>{thread.unreadCount} new</Badge>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
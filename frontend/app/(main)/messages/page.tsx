@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { MessagesSquare } from "lucide-react";
+
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Button } from "@/components/ui/button";
+import MessageInbox from "@/app/(main)/messages/components/MessageInbox";
+import { getMessageInbox } from "@/lib/api";
+
+export default async function MessagesPage() {
+  const inbox = await getMessageInbox();
+
+  if (!inbox.success || inbox.data.length === 0) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <MessagesSquare />
+          </EmptyMedia>
+          <EmptyTitle>No messages</EmptyTitle>
+          <EmptyDescription>
+            When an organization you applied to messages you about your
+            application, the conversation will appear here.
+          </EmptyDescription>
+        </EmptyHeader>
+        <EmptyContent>
+          <Button asChild>
+            <Link href="/applications">View Applications</Link>
+          </Button>
+        </EmptyContent>
+      </Empty>
+    );
+  }
+
+  return <MessageInbox threads={inbox.data} />;
+}
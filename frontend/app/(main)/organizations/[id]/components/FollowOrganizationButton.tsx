@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { Bell, BellOff } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { useAuthenticationStatus } from "@/hooks/use-authentication-status";
+import { useFollowOrganization } from "../hooks/use-follow-organization";
+
+interface FollowOrganizationButtonProps {
+  organizationId: number;
+  isFollowing: boolean;
+  followerCount: number;
+}
+
+export const FollowOrganizationButton = ({
+  organizationId,
+  isFollowing: initialIsFollowing,
+  followerCount: initialFollowerCount,
+}: FollowOrganizationButtonProps) => {
+  const { isAuthenticated } = useAuthenticationStatus();
+  const followMutation = useFollowOrganization(organizationId);
+  const [follow, setFollow] = useState({
+    isFollowing: initialIsFollowing,
+    followerCount: initialFollowerCount,
+  });
+
+  const handleClick = () => {
+    if (!isAuthenticated) {
+      toast.info("Sign in to follow organizations");
+      return;
+    }
+
+    followMutation.mutate(!follow.isFollowing, {
+      onSuccess: (response) => {
+        if (response.success && response.data) {
+          setFollow(response.data);
+        }
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <Button
+        variant={follow.isFollowing ? "outline" : "default"}
+        className="cursor-pointer"
+        onClick={handleClick}
+        disabled={followMutation.isPending}
+      >
+        {follow.isFollowing ? (
+          <>
+            <BellOff className="mr-2 size-4" />
+            Unfollow
+          </>
+        ) : (
+          <>
+            <Bell className="mr-2 size-4" />
+            Follow
+          </>
+        )}
+      </Button>
+      <span className="text-muted-foreground text-sm">
+        {follow.followerCount}{" "}
+        {follow.followerCount === 1 ? "follower" : "followers"}
+      </span>
+    </div>
+  );
+};
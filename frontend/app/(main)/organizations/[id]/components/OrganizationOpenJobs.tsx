@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { MapPin } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { formatToReadableDate } from "@/lib/utils";
+import type { OrganizationProfileJob } from "@/lib/types";
+
+interface OrganizationOpenJobsProps {
+  jobs: OrganizationProfileJob[];
+}
+
+export const OrganizationOpenJobs = ({ jobs }: OrganizationOpenJobsProps) => {
+  if (jobs.length === 0) {
+    return (
+      <Empty className="border">
+        <EmptyHeader>
+          <EmptyTitle>No open roles right now</EmptyTitle>
+          <EmptyDescription>
+            Follow this organization to hear about its next job.
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return (
+    <ul className="divide-y rounded-lg border">
+      {jobs.map((job) => (
+        <li
+          key={job.id}
+          className="flex items-center justify-between gap-4 p-4"
+        >
+          <div className="flex flex-col gap-1">
+            <span className="font-semibold">{job.title}</span>
+            <span className="text-muted-foreground flex items-center gap-1 text-sm">
+              <MapPin className="size-3" />
+              {job.isRemote
+                ? "Remote"
+                : [job.city, job.state, job.country].filter(Boolean).join(", ")}
+            </span>
+            <span className="flex flex-wrap items-center gap-2 text-xs">
+              <Badge variant="secondary" className="capitalize">
+                {job.jobType}
+              </Badge>
+              <Badge variant="secondary" className="capitalize">
+                {job.compensationType}
+              </Badge>
+              <span className="text-muted-foreground">
+                Posted {formatToReadableDate(new Date(job.createdAt))}
+              </span>
+            </span>
+          </div>
+          <Button asChild variant="outline">
+            <Link href={`/applications/new?jobId=${job.id}`}>Apply</Link>
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,34 @@
+import { toast } from "sonner";
+import { useMutation } from "@tanstack/react-query";
+import { instance } from "@/lib/axios-instance";
+import type { ApiResponse, OrganizationFollow } from "@/lib/types";
+
+export const useFollowOrganization = (organizationId: number) => {
+  return useMutation({
+    mutationFn: async (follow: boolean) => {
+      const url = `/organizations/${organizationId}/follow`;
+      const response = follow
+        ? await instance.post<ApiResponse<OrganizationFollow>>(
+            url,
+            {},
+            { withCredentials: true },
+          )
+        : await instance.delete<ApiResponse<OrganizationFollow>>(url, {
+            withCredentials: true,
+          });
+      return response.data;
+    },
+    onSuccess: (response) => {
+      if (response.success && response.data) {
+        toast.success(
+          response.data.isFollowing
+            ? "You'll be emailed when this organization posts a new job"
+            : "Organization unfollowed",
+        );
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update follow");
+    },
+  });
+};
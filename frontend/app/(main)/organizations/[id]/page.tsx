@@ -0,0 +1,94 @@
+import { ExternalLink, MapPin } from "lucide-react";
+
+import { getOrganizationProfile } from "@/lib/api";
+import { VerifiedBadge } from "@/components/common";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { FollowOrganizationButton } from "./components/FollowOrganizationButton";
+import { OrganizationOpenJobs } from "./components/OrganizationOpenJobs";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function OrganizationProfilePage({ params }: PageProps) {
+  const { id } = await params;
+  const response = await getOrganizationProfile(Number(id));
+
+  if (!response.success || !response.data) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 text-center shadow-md">
+          <h1 className="mb-2 text-2xl font-bold text-gray-900">
+            Organization Not Found
+          </h1>
+          <p className="text-gray-600">
+            This organization doesn&apos;t exist or is no longer active.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const organization = response.data;
+  const initials = organization.name
+    .split(" ")
+    .map((w) => w[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+
+  return (
+    <main className="mx-auto max-w-4xl space-y-8 px-4 py-8">
+      <section className="flex flex-col gap-6 sm:flex-row sm:items-start sm:justify-between">
+        <div className="flex items-start gap-4">
+          <Avatar className="size-16">
+            {organization.logoUrl && (
+              <AvatarImage src={organization.logoUrl} alt={organization.name} />
+            )}
+            <AvatarFallback className="text-lg">{initials}</AvatarFallback>
+          </Avatar>
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold">{organization.name}</h1>
+              {organization.isVerified && <VerifiedBadge />}
+            </div>
+            <p className="text-muted-foreground flex items-center gap-1 text-sm">
+              <MapPin className="size-4" />
+              {[organization.city, organization.state, organization.country]
+                .filter(Boolean)
+                .join(", ")}
+            </p>
+            <a
+              href={organization.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary flex items-center gap-1 text-sm hover:underline"
+            >
+              {organization.url}
+              <ExternalLink className="size-3" />
+            </a>
+          </div>
+        </div>
+        <FollowOrganizationButton
+          organizationId={organization.id}
+          isFollowing={organization.isFollowing}
+          followerCount={organization.followerCount}
+        />
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-lg font-semibold">Our mission</h2>
+        <p className="text-muted-foreground whitespace-pre-line">
+          {organization.mission}
+        </p>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold">
+          Open roles ({organization.openJobs.length})
+        </h2>
+        <OrganizationOpenJobs jobs={organization.openJobs} />
+      </section>
+    </main>
+  );
+}
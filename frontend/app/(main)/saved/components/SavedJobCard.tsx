@@ -6,7 +6,7 @@ import { Card } from "@/components/ui/card";
 import { SavedJob } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Bookmark, Building2 } from "lucide-react";
-import { formatToRelativeDate } from "@/lib/utils";
+import { cn, formatToRelativeDate } from "@/lib/utils";
 import { removeSavedJobForUser } from "@/lib/api";
 import { toast } from "sonner";
 
@@ -30,9 +30,22 @@ export const SavedJobCard = memo(function SavedJobCard({
     });
   }, [savedJob.job.id, queryClient]);
 
+  const isUnavailable = savedJob.isExpired || savedJob.isClosed;
+  const unavailableLabel =
+    savedJob.job.status === "paused"
+      ? "Applications Paused"
+      : savedJob.isExpired
+        ? "Job Expired"
+        : "Job Closed";
+
   return (
-    <Card className="group overflow-hidden transition-shadow duration-300 hover:shadow-lg">
-      <div className="p-6">
+    <Card
+      className={cn(
+        "group overflow-hidden transition-shadow duration-300 hover:shadow-lg",
+        isUnavailable && "bg-muted/40 hover:shadow-none",
+      )}
+    >
+      <div className={cn("p-6", isUnavailable && "opacity-60")}>
         {/* Header */}
         <div className="mb-4 flex items-center justify-between">
           <div className="flex items-center justify-start">
@@ -77,12 +90,12 @@ export const SavedJobCard = memo(function SavedJobCard({
 
         {/* Action Button */}
         <div className="mt-6">
-          {savedJob.isExpired || savedJob.isClosed ? (
+          {isUnavailable ? (
             <Button
               className="bg-muted text-secondary-foreground hover:bg-muted w-full"
               disabled
             >
-              Job Closed
+              {unavailableLabel}
             </Button>
           ) : (
             <Button className="bg-primary/90 text-primary-foreground hover:bg-primary w-full cursor-pointer">
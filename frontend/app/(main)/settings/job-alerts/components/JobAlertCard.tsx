@@ -50,6 +50,13 @@ export const JobAlertCard = memo(function JobAlertCard({ alert, onEdit, onDelete
       }
     }
 
+    if (alert.workAreas && alert.workAreas.length > 0) {
+      badges.push(alert.workAreas[0]);
+      if (alert.workAreas.length > 1) {
+        badges.push(`+${alert.workAreas.length - 1} work areas`);
+      }
+    }
+
     if (alert.experienceLevel && alert.experienceLevel.length > 0) {
       const displayLevels = alert.experienceLevel.slice(0, 2).map((level) => {
         return level.charAt(0).toUpperCase() + level.slice(1);
@@ -15,6 +15,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { JobAlert, JobTypeEnum } from "@/lib/types";
+import { useJobWorkAreas } from "@/app/(main)/hooks/use-job-work-areas";
 import { toast } from "sonner";
 
 interface JobAlertFormProps {
@@ -39,6 +40,7 @@ export function JobAlertForm({
       searchQuery: initialData?.searchQuery || "",
       jobType: initialData?.jobType || [],
       skills: initialData?.skills || [],
+      workAreas: initialData?.workAreas || [],
       experienceLevel: initialData?.experienceLevel || [],
       includeRemote: initialData?.includeRemote ?? true,
       frequency: initialData?.frequency || "weekly",
@@ -57,6 +59,8 @@ export function JobAlertForm({
     },
   });
 
+  const { workAreas } = useJobWorkAreas();
+
   const jobTypeOptions: { value: JobType; label: JobTypeEnum }[] = [
     { value: "full_time", label: JobTypeEnum.FullTime },
     { value: "part_time", label: JobTypeEnum.PartTime },
@@ -255,6 +259,40 @@ export function JobAlertForm({
         )}
       </form.Field>
 
+      <form.Field name="workAreas">
+        {(field) => (
+          <div className="space-y-2">
+            <Label>Work Areas</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {workAreas.map((area) => (
+                <div key={area.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`workArea-${area.id}`}
+                    checked={field.state.value?.includes(area.name)}
+                    onCheckedChange={(checked) => {
+                      const current = field.state.value || [];
+                      if (checked) {
+                        field.handleChange([...current, area.name]);
+                      } else {
+                        field.handleChange(
+                          current.filter((v) => v !== area.name),
+                        );
+                      }
+                    }}
+                  />
+                  <Label
+                    htmlFor={`workArea-${area.id}`}
+                    className="cursor-pointer font-normal"
+                  >
+                    {area.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </form.Field>
+
       <form.Field name="skills">
         {(field) => (
           <div className="space-y-2">
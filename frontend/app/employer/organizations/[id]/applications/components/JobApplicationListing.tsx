@@ -1,6 +1,7 @@
 "use client";
 
 import { useMemo } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -14,46 +15,75 @@ import {
   Clock,
   Calendar,
   Construction,
+  MessageSquare,
 } from "lucide-react";
-import { OrganizationJobApplications, PaginatedApiResponse } from "@/lib/types";
+import {
+  HiringPipeline,
+  HiringPipelineStage,
+  OrganizationJobApplications,
+  PaginatedApiResponse,
+} from "@/lib/types";
 
 interface JobApplicationListingProps {
   applications: PaginatedApiResponse<OrganizationJobApplications>;
+  pipeline: HiringPipeline | null;
 }
 
-type StatusKey =
-  | "pending"
-  | "reviewed"
-  | "shortlisted"
-  | "interviewing"
-  | "rejected"
-  | "hired"
-  | "withdrawn";
+const INITIAL_STAGE_KEY = "pending";
+const WITHDRAWN_STAGE_KEY = "withdrawn";
 
 export const JobApplicationListing = ({
   applications,
+  pipeline,
 }: JobApplicationListingProps) => {
   const appData = applications.data;
 
+  // Fall back to the statuses present in the data if the pipeline is unavailable
+  const stages = useMemo<HiringPipelineStage[]>(() => {
+    if (pipeline) {
+      return [...pipeline.stages].sort((a, b) => a.position - b.position);
+    }
+    return Array.from(new Set(appData.map((a) => a.status))).map(
+      (key, position) => ({
+        key,
+        label: key,
+        position,
+        isTerminal: false,
+        allowsInterviews: false,
+      }),
+    );
+  }, [pipeline, appData]);
+
+  const terminalKeys = useMemo(
+    () => new Set(stages.filter((s) => s.isTerminal).map((s) => s.key)),
+    [stages],
+  );
+
   const stats = useMemo(() => {
     const uniqueJobIds = new Set(appData.map((a) => a.jobId));
     const total = applications.pagination.total;
-    const newCount = appData.filter((a) => a.status === "pending").length;
-    const activeCount = appData.filter((a) =>
-      ["reviewed", "shortlisted", "interviewing"].includes(a.status),
+    const newCount = appData.filter(
+      (a) => a.status === INITIAL_STAGE_KEY,
+    ).length;
+    const activeCount = appData.filter(
+      (a) => a.status !== INITIAL_STAGE_KEY && !terminalKeys.has(a.status),
+    ).length;
+    const closedCount = appData.filter(
+      (a) => a.status !== WITHDRAWN_STAGE_KEY && terminalKeys.has(a.status),
+    ).length;
+    const withdrawnCount = appData.filter(
+      (a) => a.status === WITHDRAWN_STAGE_KEY,
     ).length;
-    const rejectedCount = appData.filter((a) => a.status === "rejected").length;
-    const hiredCount = appData.filter((a) => a.status === "hired").length;
 
     return {
       totalJobOpenings: uniqueJobIds.size,
       totalApplied: total,
       new: newCount,
       active: activeCount,
-      rejected: rejectedCount,
-      hired: hiredCount,
+      closed: closedCount,
+      withdrawn: withdrawnCount,
     };
-  }, [appData, applications.pagination.total]);
+  }, [appData, applications.pagination.total, terminalKeys]);
 
   const jobGroups = useMemo(() => {
     const groups = new Map<
@@ -63,7 +93,7 @@ export const JobApplicationListing = ({
         jobTitle: string;
         organizationName: string;
         applications: OrganizationJobApplications[];
-        statusCounts: Record<StatusKey, number>;
+        statusCounts: Record<string, number>;
       }
     >();
 
@@ -74,21 +104,13 @@ export const JobApplicationListing = ({
           jobTitle: app.jobTitle,
           organizationName: app.organizationName,
           applications: [],
-          statusCounts: {
-            pending: 0,
-            reviewed: 0,
-            shortlisted: 0,
-            interviewing: 0,
-            rejected: 0,
-            hired: 0,
-            withdrawn: 0,
-          },
+          statusCounts: {},
         });
       }
       const group = groups.get(app.jobId)!;
       group.applications.push(app);
-      group.statusCounts[app.status as StatusKey] =
-        (group.statusCounts[app.status as StatusKey] || 0) + 1;
+      group.statusCounts[app.status] =
+        (group.statusCounts[app.status] || 0) + 1;
     }
 
     return Array.from(groups.values());
@@ -124,29 +146,23 @@ export const JobApplicationListing = ({
       textColor: "text-emerald-600",
     },
     {
-      label: "Rejected",
-      value: stats.rejected,
-      icon: UserX,
-      bgColor: "bg-red-100",
-      textColor: "text-red-600",
-    },
-    {
-      label: "Hired",
-      value: stats.hired,
+      label: "Closed",
+      value: stats.closed,
       icon: CheckCircle2,
       bgColor: "bg-green-100",
       textColor: "text-green-600",
     },
+    {
+      label: "Withdrawn",
+      value: stats.withdrawn,
+      icon: UserX,
+      bgColor: "bg-red-100",
+      textColor: "text-red-600",
+    },
   ];
 
-  const pipelineStages: { label: string; key: StatusKey }[] = [
-    { label: "New", key: "pending" },
-    { label: "Reviewed", key: "reviewed" },
-    { label: "Shortlisted", key: "shortlisted" },
-    { label: "Interview", key: "interviewing" },
-    { label: "Rejected", key: "rejected" },
-    { label: "Hired", key: "hired" },
-  ];
+  // Withdrawals are applicant-driven, so they are not a pipeline column
+  const pipelineStages = stages.filter((s) => s.key !== WITHDRAWN_STAGE_KEY);
 
   return (
     <div className="min-h-screen bg-gray-50/50">
@@ -191,8 +207,11 @@ export const JobApplicationListing = ({
                 ) : (
                   jobGroups.map((group, index) => {
                     const totalApps = group.applications.length;
-                    const hiredCount = group.statusCounts.hired;
-                    const isComplete = hiredCount > 0;
+                    const isComplete =
+                      totalApps > 0 &&
+                      group.applications.every((a) =>
+                        terminalKeys.has(a.status),
+                      );
 
                     return (
                       <div key={group.jobId}>
@@ -208,7 +227,7 @@ export const JobApplicationListing = ({
                           </div>
                           {isComplete ? (
                             <Badge className="bg-green-100 text-green-700">
-                              Hired
+                              Closed
                             </Badge>
                           ) : (
                             <Badge
@@ -220,7 +239,12 @@ export const JobApplicationListing = ({
                           )}
                         </div>
 
-                        <div className="grid grid-cols-6 gap-4 text-center text-sm">
+                        <div
+                          className="grid gap-4 text-center text-sm"
+                          style={{
+                            gridTemplateColumns: `repeat(${pipelineStages.length}, minmax(0, 1fr))`,
+                          }}
+                        >
                           {pipelineStages.map((stage) => {
                             const count = group.statusCounts[stage.key] || 0;
                             const isHighest =
@@ -236,9 +260,7 @@ export const JobApplicationListing = ({
                               <div
                                 key={stage.key}
                                 className={
-                                  isHighest
-                                    ? "font-medium text-purple-600"
-                                    : ""
+                                  isHighest ? "font-medium text-purple-600" : ""
                                 }
                               >
                                 <div className="mb-2 flex justify-center -space-x-2">
@@ -258,6 +280,32 @@ export const JobApplicationListing = ({
                             );
                           })}
                         </div>
+
+                        <ul className="mt-4 divide-y rounded-md border">
+                          {group.applications.map((app) => (
+                            <li
+                              key={app.applicationId}
+                              className="flex items-center justify-between px-3 py-2 text-sm"
+                            >
+                              <div>
+                                <p className="font-medium">
+                                  {app.applicantName}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {stages.find((s) => s.key === app.status)
+                                    ?.label ?? app.status}
+                                </p>
+                              </div>
+                              <Link
+                                href={`/employer/organizations/${app.organizationId}/jobs/${app.jobId}/applications/${app.applicationId}`}
+                                className="inline-flex items-center gap-1 text-xs font-medium text-purple-600 hover:underline"
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                                Messages
+                              </Link>
+                            </li>
+                          ))}
+                        </ul>
                       </div>
                     );
                   })
@@ -7,7 +7,10 @@ import {
   EmptyTitle,
 } from "@/components/ui/empty";
 import { CircleOff } from "lucide-react";
-import { getAllJobsApplicationsForOrganization } from "@/lib/api";
+import {
+  getAllJobsApplicationsForOrganization,
+  getOrganizationHiringPipeline,
+} from "@/lib/api";
 import { JobApplicationListing } from "@/app/employer/organizations/[id]/applications/components/JobApplicationListing";
 
 interface PageProps {
@@ -18,7 +21,10 @@ export default async function OrganizationJobApplicationsPage({
   params,
 }: PageProps) {
   const { id } = await params;
-  const receivedApplications = await getAllJobsApplicationsForOrganization(id);
+  const [receivedApplications, hiringPipeline] = await Promise.all([
+    getAllJobsApplicationsForOrganization(id),
+    getOrganizationHiringPipeline(id),
+  ]);
 
   if (!receivedApplications.success || receivedApplications.data.length === 0) {
     return (
@@ -43,7 +49,10 @@ export default async function OrganizationJobApplicationsPage({
 
   return (
     <div className="mx-auto w-full">
-      <JobApplicationListing applications={receivedApplications} />
+      <JobApplicationListing
+        applications={receivedApplications}
+        pipeline={hiringPipeline.success ? hiringPipeline.data : null}
+      />
     </div>
   );
 }
@@ -9,10 +9,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 import { Job } from "@/schemas/responses/jobs";
-import { PaginatedApiResponse } from "@/lib/types";
+import { JobStatus, PaginatedApiResponse } from "@/lib/types";
 import {
-  useUpdateJob,
-  useCreateJob,
+  useUpdateJobStatus,
+  useRepostJob,
 } from "@/app/employer/organizations/hooks/use-manage-jobs";
 import { useJobListingFilters } from "@/app/employer/organizations/[id]/hooks/use-job-listing-filters";
 import { JobListingTable } from "./JobListingTable";
@@ -28,29 +28,19 @@ export function JobListingsSection({
 }: JobListingInformationProps) {
   const { activeTab, setActiveTab, searchTerm, setSearchTerm, filteredJobs } =
     useJobListingFilters(jobsList.data);
-  const { mutateAsync: updateJobAsync } = useUpdateJob(organizationId);
-  const { mutateAsync: createJobAsync } = useCreateJob(organizationId);
+  const { mutateAsync: updateJobStatusAsync } =
+    useUpdateJobStatus(organizationId);
+  const { mutateAsync: repostJobAsync } = useRepostJob(organizationId);
 
-  const handleCloseJob = async (jobId: number) => {
-    await updateJobAsync({ jobId, data: { isActive: false } });
+  const handleChangeStatus = async (
+    jobId: number,
+    status: Exclude<JobStatus, "expired">,
+  ) => {
+    await updateJobStatusAsync({ jobId, status });
   };
 
-  const handleDuplicate = async (job: Job) => {
-    await createJobAsync({
-      title: `${job.title} (Copy)`,
-      description: job.description,
-      city: job.city,
-      state: job.state || "",
-      country: job.country,
-      zipcode: job.zipcode,
-      jobType: job.jobType,
-      compensationType: job.compensationType,
-      isRemote: job.isRemote,
-      applicationDeadline: job.applicationDeadline
-        ? new Date(job.applicationDeadline).toISOString().split("T")[0]
-        : null,
-      experience: job.experience || "",
-    });
+  const handleRepost = async (jobId: number) => {
+    await repostJobAsync(jobId);
   };
 
   return (
@@ -83,11 +73,12 @@ export function JobListingsSection({
               onValueChange={setActiveTab}
               className="mb-4"
             >
-              <TabsList className="bg-background grid w-full max-w-md grid-cols-4">
+              <TabsList className="bg-background grid w-full max-w-xl grid-cols-5">
                 <TabsTrigger value="all">All</TabsTrigger>
                 <TabsTrigger value="open">Open</TabsTrigger>
+                <TabsTrigger value="drafts">Drafts</TabsTrigger>
                 <TabsTrigger value="expiring">Expiring soon</TabsTrigger>
-                <TabsTrigger value="expired">Expired</TabsTrigger>
+                <TabsTrigger value="expired">Closed</TabsTrigger>
               </TabsList>
             </Tabs>
 
@@ -117,8 +108,8 @@ export function JobListingsSection({
             <JobListingTable
               jobs={filteredJobs}
               organizationId={organizationId}
-              onCloseJob={handleCloseJob}
-              onDuplicate={handleDuplicate}
+              onChangeStatus={handleChangeStatus}
+              onRepost={handleRepost}
             />
           </div>
         </Card>
@@ -141,8 +132,8 @@ export function JobListingsSectionSkeleton() {
 
         <Card className="w-full border-0 shadow-sm">
           <div className="border-b p-6">
-            <div className="mb-4 grid w-full max-w-md grid-cols-4 gap-2">
-              {Array.from({ length: 4 }).map((_, i) => (
+            <div className="mb-4 grid w-full max-w-xl grid-cols-5 gap-2">
+              {Array.from({ length: 5 }).map((_, i) => (
                 <Skeleton key={i} className="h-10 rounded-md" />
               ))}
             </div>
@@ -2,25 +2,29 @@
 
 import { useMemo } from "react";
 import { Job } from "@/schemas/responses/jobs";
+import type { JobStatus } from "@/lib/types";
 import { DataTable } from "@/components/common";
 import { getJobListingColumns } from "./job-listing-columns";
 
 interface JobListingTableProps {
   jobs: Job[];
   organizationId: number;
-  onCloseJob: (jobId: number) => Promise<void>;
-  onDuplicate: (job: Job) => Promise<void>;
+  onChangeStatus: (
+    jobId: number,
+    status: Exclude<JobStatus, "expired">,
+  ) => Promise<void>;
+  onRepost: (jobId: number) => Promise<void>;
 }
 
 export function JobListingTable({
   jobs,
   organizationId,
-  onCloseJob,
-  onDuplicate,
+  onChangeStatus,
+  onRepost,
 }: JobListingTableProps) {
   const columns = useMemo(
-    () => getJobListingColumns({ organizationId, onCloseJob, onDuplicate }),
-    [organizationId, onCloseJob, onDuplicate],
+    () => getJobListingColumns({ organizationId, onChangeStatus, onRepost }),
+    [organizationId, onChangeStatus, onRepost],
   );
 
   return <DataTable columns={columns} data={jobs} />;
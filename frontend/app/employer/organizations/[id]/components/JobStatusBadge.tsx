@@ -1,17 +1,68 @@
 import { Badge } from "@/components/ui/badge";
 import { Job } from "@/schemas/responses/jobs";
+import { formatToReadableDate } from "@/lib/utils";
 
 interface JobStatusBadgeProps {
   job: Job;
 }
 
 export function JobStatusBadge({ job }: JobStatusBadgeProps) {
-  if (!job.isActive) {
-    return (
-      <Badge className="border-destructive/20 bg-destructive/10 text-destructive hover:bg-destructive/20">
-        Expired
-      </Badge>
-    );
+  switch (job.status) {
+    case "draft":
+      return (
+        <Badge className="border-border bg-muted text-secondary-foreground hover:bg-muted">
+          Draft
+        </Badge>
+      );
+    case "scheduled":
+      return (
+        <Badge
+          className="border-primary/20 bg-primary/10 text-primary hover:bg-primary/20"
+          title={
+            job.publishAt
+              ? `Goes live ${formatToReadableDate(new Date(job.publishAt))}`
+              : undefined
+          }
+        >
+          Scheduled
+        </Badge>
+      );
+    case "paused":
+      return (
+        <Badge className="border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-100">
+          Paused
+        </Badge>
+      );
+    case "closed":
+      return (
+        <Badge className="border-destructive/20 bg-destructive/10 text-destructive hover:bg-destructive/20">
+          Closed
+        </Badge>
+      );
+    case "expired":
+      return (
+        <Badge className="border-destructive/20 bg-destructive/10 text-destructive hover:bg-destructive/20">
+          Expired
+        </Badge>
+      );
+    case "pending_review":
+      return (
+        <Badge
+          className="border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-100"
+          title="Our team is reviewing this job before it goes live"
+        >
+          In review
+        </Badge>
+      );
+    case "removed":
+      return (
+        <Badge
+          className="border-destructive/20 bg-destructive/10 text-destructive hover:bg-destructive/20"
+          title="Removed by our moderation team"
+        >
+          Removed
+        </Badge>
+      );
   }
 
   if (job.applicationDeadline) {
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { MoreVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { Member } from "@/lib/types";
+import { useOrganization } from "../context/organization-context";
+import {
+  useChangeMemberRole,
+  useRemoveMember,
+  useTransferOwnership,
+  useUpdateMemberStatus,
+} from "../hooks/use-manage-members";
+
+// Mirrors the backend role hierarchy: you can only manage roles below yours.
+const ROLE_LEVELS: Record<Member["role"], number> = {
+  owner: 4,
+  admin: 3,
+  recruiter: 2,
+  member: 1,
+};
+
+const ASSIGNABLE_ROLES = [
+  { value: "admin", label: "Admin" },
+  { value: "recruiter", label: "Recruiter" },
+  { value: "member", label: "Member" },
+] as const;
+
+type PendingAction = "remove" | "transfer" | null;
+
+interface MemberActionsMenuProps {
+  member: Member;
+}
+
+export function MemberActionsMenu({ member }: MemberActionsMenuProps) {
+  const { organization, currentUserRole, currentUserId } = useOrganization();
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+
+  const changeRole = useChangeMemberRole(organization.id);
+  const updateStatus = useUpdateMemberStatus(organization.id);
+  const removeMember = useRemoveMember(organization.id);
+  const transferOwnership = useTransferOwnership(organization.id);
+
+  const isSelf = member.userId === currentUserId;
+  const canManage =
+    (currentUserRole === "owner" || currentUserRole === "admin") &&
+    ROLE_LEVELS[member.role] < ROLE_LEVELS[currentUserRole];
+  const canTransfer = currentUserRole === "owner" && !isSelf && member.isActive;
+  const canLeave = isSelf && member.role !== "owner";
+  const assignableRoles = ASSIGNABLE_ROLES.filter(
+    (role) => ROLE_LEVELS[role.value] < ROLE_LEVELS[currentUserRole],
+  );
+
+  if (!canManage && !canTransfer && !canLeave) return null;
+
+  async function handleConfirm() {
+    if (pendingAction === "remove") {
+      await removeMember.mutateAsync({ memberId: member.id, isSelf });
+    } else if (pendingAction === "transfer") {
+      await transferOwnership.mutateAsync(member.id);
+    }
+    setPendingAction(null);
+  }
+
+  const isConfirming = removeMember.isPending || transferOwnership.isPending;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={`Actions for ${member.memberName}`}
+            className="hover:bg-primary hover:text-primary-foreground [&_svg]:size-4"
+          >
+            <MoreVertical />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {canManage && (
+            <>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Change Role</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuRadioGroup
+                    value={member.role}
+                    onValueChange={(role) =>
+                      changeRole.mutate({
+                        memberId: member.id,
+                        role: role as Exclude<Member["role"], "owner">,
+                      })
+                    }
+                  >
+                    {assignableRoles.map((role) => (
+                      <DropdownMenuRadioItem
+                        key={role.value}
+                        value={role.value}
+                        disabled={changeRole.isPending}
+                      >
+                        {role.label}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem
+                disabled={updateStatus.isPending}
+                onSelect={() =>
+                  updateStatus.mutate({
+                    memberId: member.id,
+                    isActive: !member.isActive,
+                  })
+                }
+              >
+                {member.isActive ? "Deactivate" : "Reactivate"}
+              </DropdownMenuItem>
+            </>
+          )}
+          {canTransfer && (
+            <DropdownMenuItem onSelect={() => setPendingAction("transfer")}>
+              Make Owner
+            </DropdownMenuItem>
+          )}
+          {(canManage || canLeave) && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => setPendingAction("remove")}
+              >
+                {isSelf ? "Leave Organization" : "Remove Member"}
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction === "transfer"
+                ? "Transfer Ownership"
+                : isSelf
+                  ? "Leave Organization"
+                  : "Remove Member"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === "transfer" ? (
+                <>
+                  <span className="font-medium">{member.memberName}</span> will
+                  become the owner of {organization.name} and you will become an
+                  admin.
+                </>
+              ) : isSelf ? (
+                <>
+                  You will lose access to {organization.name} until you are
+                  invited again.
+                </>
+              ) : (
+                <>
+                  <span className="font-medium">{member.memberName}</span> will
+                  lose access to {organization.name} until they are invited
+                  again.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              disabled={isConfirming}
+              className={
+                pendingAction === "transfer"
+                  ? undefined
+                  : "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              }
+            >
+              {isConfirming
+                ? "Saving..."
+                : pendingAction === "transfer"
+                  ? "Transfer"
+                  : isSelf
+                    ? "Leave"
+                    : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import type { LucideIcon } from "lucide-react";
 import {
   Briefcase,
@@ -24,12 +25,27 @@ import {
   EmptyTitle,
 } from "@/components/ui/empty";
 import { StatsCard, StatsCardSkeleton } from "./stats-card";
+import { PlanUsageCard } from "./plan-usage-card";
+import { JobAnalytics } from "./job-analytics";
 import { useOrganization } from "../context/organization-context";
 import { useFetchJobStats } from "../hooks/use-fetch-job-stats";
 
+const DAY_MS = 86_400_000;
+
+/** The `days` UTC days ending today, as the stats API expects them. */
+function rangeEndingToday(days: number) {
+  const now = Date.now();
+  return {
+    from: new Date(now - (days - 1) * DAY_MS).toISOString().slice(0, 10),
+    to: new Date(now).toISOString().slice(0, 10),
+  };
+}
+
 export function DashboardStats() {
   const { organization } = useOrganization();
-  const { stats, error, isLoading } = useFetchJobStats(organization.id);
+  const [rangeDays, setRangeDays] = useState(30);
+  const range = useMemo(() => rangeEndingToday(rangeDays), [rangeDays]);
+  const { stats, error, isLoading } = useFetchJobStats(organization.id, range);
 
   return (
     <section
@@ -40,7 +56,7 @@ export function DashboardStats() {
 
       {/* Primary Stats Grid */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        {isLoading ? (
+        {isLoading && !stats ? (
           Array.from({ length: 4 }).map((_, i) => <StatsCardSkeleton key={i} />)
         ) : error ? (
           <div className="col-span-full">
@@ -61,14 +77,14 @@ export function DashboardStats() {
           <>
             <StatsCard
               title="Total Jobs"
-              value={stats?.totalJobs ?? 0}
+              value={stats?.total ?? 0}
               icon={Briefcase}
               iconBgClass="bg-primary/10"
               iconColorClass="text-primary"
             />
             <StatsCard
               title="Active Jobs"
-              value={stats?.activeJobs ?? 0}
+              value={stats?.active ?? 0}
               icon={CheckCircle}
               iconBgClass="bg-emerald-100 dark:bg-emerald-900/30"
               iconColorClass="text-emerald-600"
@@ -91,6 +107,16 @@ export function DashboardStats() {
         )}
       </div>
 
+      <PlanUsageCard />
+
+      {stats && (
+        <JobAnalytics
+          stats={stats}
+          rangeDays={rangeDays}
+          onRangeDaysChange={setRangeDays}
+        />
+      )}
+
       {/* Applications by Status */}
       {stats?.applicationsByStatus && (
         <Card className="border-0 shadow-sm">
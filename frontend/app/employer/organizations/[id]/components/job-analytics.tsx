@@ -0,0 +1,314 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type {
+  JobActivityMetrics,
+  JobStatsDailyBucket,
+  OrganizationJobStats,
+} from "@/lib/types";
+
+export const JOB_STATS_RANGE_OPTIONS = [7, 30, 90] as const;
+
+type Series = {
+  key: keyof JobActivityMetrics;
+  label: string;
+  strokeClass: string;
+  dotClass: string;
+};
+
+const TRAFFIC_SERIES: Series[] = [
+  {
+    key: "views",
+    label: "Views",
+    strokeClass: "stroke-primary",
+    dotClass: "bg-primary",
+  },
+  {
+    key: "uniqueViewers",
+    label: "Unique viewers",
+    strokeClass: "stroke-sky-400",
+    dotClass: "bg-sky-400",
+  },
+];
+
+const ENGAGEMENT_SERIES: Series[] = [
+  {
+    key: "saves",
+    label: "Saves",
+    strokeClass: "stroke-orange-500",
+    dotClass: "bg-orange-500",
+  },
+  {
+    key: "applyStarts",
+    label: "Apply starts",
+    strokeClass: "stroke-purple-500",
+    dotClass: "bg-purple-500",
+  },
+  {
+    key: "applications",
+    label: "Applications",
+    strokeClass: "stroke-emerald-600",
+    dotClass: "bg-emerald-600",
+  },
+];
+
+const formatDay = (date: string) => format(parseISO(date), "MMM d");
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+
+interface JobAnalyticsProps {
+  stats: OrganizationJobStats;
+  rangeDays: number;
+  onRangeDaysChange: (days: number) => void;
+}
+
+export function JobAnalytics({
+  stats,
+  rangeDays,
+  onRangeDaysChange,
+}: JobAnalyticsProps) {
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Job Performance</h2>
+        <Select
+          value={String(rangeDays)}
+          onValueChange={(value) => onRangeDaysChange(Number(value))}
+        >
+          <SelectTrigger className="w-40" aria-label="Date range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {JOB_STATS_RANGE_OPTIONS.map((days) => (
+              <SelectItem key={days} value={String(days)}>
+                Last {days} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <TrendChart
+          title="Traffic"
+          daily={stats.daily}
+          series={TRAFFIC_SERIES}
+          totals={stats.totals}
+        />
+        <TrendChart
+          title="Engagement"
+          daily={stats.daily}
+          series={ENGAGEMENT_SERIES}
+          totals={stats.totals}
+        />
+      </div>
+
+      <ApplicationFunnel funnel={stats.funnel} />
+
+      <Card className="border-0 shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-lg">By Job Posting</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {stats.jobs.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No activity on your job postings in this period.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead className="text-right">Views</TableHead>
+                  <TableHead className="text-right">Unique viewers</TableHead>
+                  <TableHead className="text-right">Saves</TableHead>
+                  <TableHead className="text-right">Apply starts</TableHead>
+                  <TableHead className="text-right">Applications</TableHead>
+                  <TableHead className="text-right">Conversion</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stats.jobs.map((job) => (
+                  <TableRow key={job.jobId}>
+                    <TableCell className="font-medium">
+                      <span className="flex items-center gap-2">
+                        {job.title}
+                        {!job.isActive && (
+                          <Badge variant="outline">Inactive</Badge>
+                        )}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{job.views}</TableCell>
+                    <TableCell className="text-right">
+                      {job.uniqueViewers}
+                    </TableCell>
+                    <TableCell className="text-right">{job.saves}</TableCell>
+                    <TableCell className="text-right">
+                      {job.applyStarts}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {job.applications}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatRate(job.conversionRate)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function TrendChart({
+  title,
+  daily,
+  series,
+  totals,
+}: {
+  title: string;
+  daily: JobStatsDailyBucket[];
+  series: Series[];
+  totals: JobActivityMetrics;
+}) {
+  const max = Math.max(
+    1,
+    ...daily.flatMap((bucket) => series.map(({ key }) => bucket[key])),
+  );
+  // One x unit per day; y runs 0–100 with the peak at the top
+  const width = Math.max(1, daily.length - 1);
+  const points = (key: keyof JobActivityMetrics) =>
+    daily
+      .map((bucket, i) => `${i},${100 - (bucket[key] / max) * 100}`)
+      .join(" ");
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {series.map(({ key, label, dotClass }) => (
+            <span key={key} className="flex items-center gap-1.5">
+              <span className={cn("size-2.5 rounded-full", dotClass)} />
+              <span className="text-secondary-foreground">{label}</span>
+              <span className="font-medium">{totals[key]}</span>
+            </span>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2">
+          <div className="text-muted-foreground flex h-40 flex-col justify-between text-right text-xs">
+            <span>{max}</span>
+            <span>0</span>
+          </div>
+          <svg
+            role="img"
+            aria-label={`${title} per day`}
+            viewBox={`0 0 ${width} 100`}
+            preserveAspectRatio="none"
+            className="border-muted h-40 w-full border-b border-l"
+          >
+            {series.map(({ key, strokeClass }) => (
+              <polyline
+                key={key}
+                points={points(key)}
+                fill="none"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                className={strokeClass}
+              />
+            ))}
+          </svg>
+        </div>
+        {daily.length > 0 && (
+          <div className="text-muted-foreground mt-1 flex justify-between pl-6 text-xs">
+            <span>{formatDay(daily[0].date)}</span>
+            <span>{formatDay(daily[daily.length - 1].date)}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ApplicationFunnel({
+  funnel,
+}: {
+  funnel: OrganizationJobStats["funnel"];
+}) {
+  const steps = [
+    { label: "Unique viewers", count: funnel.viewers, rate: null },
+    {
+      label: "Started an application",
+      count: funnel.applyStarts,
+      rate: funnel.applyStartRate,
+    },
+    {
+      label: "Submitted an application",
+      count: funnel.applications,
+      rate: funnel.completionRate,
+    },
+  ];
+  const widest = Math.max(1, ...steps.map((step) => step.count));
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Application Funnel</CardTitle>
+        <span className="text-secondary-foreground text-sm">
+          Overall conversion{" "}
+          <span className="text-foreground font-medium">
+            {formatRate(funnel.conversionRate)}
+          </span>
+        </span>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {steps.map((step) => (
+          <div key={step.label} className="flex flex-col gap-1.5">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-secondary-foreground">{step.label}</span>
+              <span className="font-medium">
+                {step.count}
+                {step.rate !== null && (
+                  <span className="text-muted-foreground font-normal">
+                    {" "}
+                    · {formatRate(step.rate)} of previous step
+                  </span>
+                )}
+              </span>
+            </div>
+            <div className="bg-muted h-2 overflow-hidden rounded-full">
+              <div
+                className="bg-primary h-full rounded-full"
+                style={{ width: `${(step.count / widest) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,22 +13,30 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
 import { Job } from "@/schemas/responses/jobs";
+import type { JobStatus } from "@/lib/types";
 import { formatToReadableDate } from "@/lib/utils";
 import { JobStatusBadge } from "./JobStatusBadge";
 
 interface JobActionsContext {
   organizationId: number;
-  onCloseJob: (jobId: number) => Promise<void>;
-  onDuplicate: (job: Job) => Promise<void>;
+  onChangeStatus: (
+    jobId: number,
+    status: Exclude<JobStatus, "expired">,
+  ) => Promise<void>;
+  onRepost: (jobId: number) => Promise<void>;
 }
 
 function ActionsCell({
   job,
   organizationId,
-  onCloseJob,
-  onDuplicate,
+  onChangeStatus,
+  onRepost,
 }: { job: Job } & JobActionsContext) {
   const router = useRouter();
+  const isFinal =
+    job.status === "closed" ||
+    job.status === "expired" ||
+    job.status === "removed";
 
   return (
     <div className="text-right">
@@ -58,13 +66,34 @@ function ActionsCell({
           >
             Edit Job
           </DropdownMenuItem>
-          <DropdownMenuItem onClick={() => onDuplicate(job)}>
-            Duplicate
-          </DropdownMenuItem>
-          {job.isActive && (
+          {(job.status === "draft" || job.status === "scheduled") && (
+            <DropdownMenuItem
+              onClick={() => onChangeStatus(job.id, "published")}
+            >
+              Publish Now
+            </DropdownMenuItem>
+          )}
+          {job.status === "published" && (
+            <DropdownMenuItem onClick={() => onChangeStatus(job.id, "paused")}>
+              Pause Job
+            </DropdownMenuItem>
+          )}
+          {job.status === "paused" && (
+            <DropdownMenuItem
+              onClick={() => onChangeStatus(job.id, "published")}
+            >
+              Resume Job
+            </DropdownMenuItem>
+          )}
+          {job.status !== "removed" && (
+            <DropdownMenuItem onClick={() => onRepost(job.id)}>
+              Repost as Draft
+            </DropdownMenuItem>
+          )}
+          {!isFinal && (
             <DropdownMenuItem
               className="text-destructive"
-              onClick={() => onCloseJob(job.id)}
+              onClick={() => onChangeStatus(job.id, "closed")}
             >
               Close Job
             </DropdownMenuItem>
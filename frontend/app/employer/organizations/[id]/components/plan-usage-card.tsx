@@ -0,0 +1,112 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn, formatToReadableDate } from "@/lib/utils";
+import type { OrganizationUsage, UsageLimit } from "@/lib/types";
+import { useOrganization } from "../context/organization-context";
+import { useFetchOrganizationUsage } from "../hooks/use-fetch-organization-usage";
+
+const formatTier = (tier: OrganizationUsage["tier"]) =>
+  tier.charAt(0).toUpperCase() + tier.slice(1);
+
+export function PlanUsageCard() {
+  const { organization } = useOrganization();
+  const { usage, isLoading } = useFetchOrganizationUsage(organization.id);
+
+  if (isLoading) {
+    return (
+      <Card className="border-0 shadow-sm">
+        <CardContent className="flex flex-col gap-3 p-6">
+          <Skeleton className="h-5 w-32" />
+          <Skeleton className="h-2 w-full" />
+          <Skeleton className="h-2 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Usage is informational; the dashboard stays usable without it
+  if (!usage) return null;
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">Plan Usage</CardTitle>
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">
+            {formatTier(usage.effectiveTier)} plan
+          </Badge>
+          {usage.status === "trial" && usage.isSubscriptionActive && (
+            <Badge variant="outline">Trial</Badge>
+          )}
+          {!usage.isSubscriptionActive && (
+            <Badge variant="destructive">Inactive</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <UsageBar label="Active job postings" usage={usage.activeJobs} />
+        <UsageBar label="Featured listings" usage={usage.featuredJobs} />
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-secondary-foreground">Candidate search</span>
+          <span className="font-medium">
+            {usage.features.candidateSearch ? "Included" : "Not included"}
+          </span>
+        </div>
+        {!usage.isSubscriptionActive ? (
+          <p className="text-destructive text-sm">
+            Your {formatTier(usage.tier)} subscription is no longer active, so
+            the Free plan limits apply. Renew it to restore your plan.
+          </p>
+        ) : (
+          usage.subscriptionEndsAt && (
+            <p className="text-muted-foreground text-sm">
+              {usage.status === "trial" ? "Trial ends" : "Current period ends"}{" "}
+              {formatToReadableDate(new Date(usage.subscriptionEndsAt))}
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function UsageBar({ label, usage }: { label: string; usage: UsageLimit }) {
+  const { used, limit } = usage;
+  const percent = limit ? Math.min(100, (used / limit) * 100) : 0;
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-secondary-foreground">{label}</span>
+        <span className="font-medium">
+          {limit === null
+            ? `${used} used · Unlimited`
+            : limit === 0
+              ? "Not included"
+              : `${used} of ${limit} used`}
+        </span>
+      </div>
+      {limit !== null && limit > 0 && (
+        <div
+          role="progressbar"
+          aria-label={label}
+          aria-valuemin={0}
+          aria-valuemax={limit}
+          aria-valuenow={used}
+          className="bg-muted h-2 overflow-hidden rounded-full"
+        >
+          <div
+            className={cn(
+              "h-full rounded-full",
+              used >= limit ? "bg-destructive" : "bg-primary",
+            )}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
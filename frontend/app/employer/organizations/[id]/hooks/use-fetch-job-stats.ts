@@ -1,17 +1,27 @@
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { instance } from "@/lib/axios-instance";
-import type { ApiResponse, OrganizationJobStats } from "@/lib/types";
+import type {
+  ApiResponse,
+  JobStatsRange,
+  OrganizationJobStats,
+} from "@/lib/types";
 
-export const useFetchJobStats = (organizationId: number) => {
+export const useFetchJobStats = (
+  organizationId: number,
+  range: JobStatsRange = {},
+) => {
   const { data, error, isFetching } = useQuery({
-    queryKey: ["organization-job-stats", organizationId],
+    queryKey: ["organization-job-stats", organizationId, range.from, range.to],
     queryFn: async () => {
       const response = await instance.get<ApiResponse<OrganizationJobStats>>(
         `/jobs/employer/${organizationId}/jobs/stats`,
+        { params: range },
       );
       return response.data;
     },
     enabled: !!organizationId,
+    // Keep the current charts on screen while another range loads
+    placeholderData: keepPreviousData,
   });
 
   if (!data?.success) {
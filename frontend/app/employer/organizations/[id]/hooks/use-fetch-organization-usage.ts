@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { instance } from "@/lib/axios-instance";
+import type { ApiResponse, OrganizationUsage } from "@/lib/types";
+
+export const useFetchOrganizationUsage = (organizationId: number) => {
+  const { data, error, isFetching } = useQuery({
+    queryKey: ["organization-usage", organizationId],
+    queryFn: async () => {
+      const response = await instance.get<ApiResponse<OrganizationUsage>>(
+        `/organizations/${organizationId}/usage`,
+      );
+      return response.data;
+    },
+    enabled: !!organizationId,
+  });
+
+  if (!data?.success) {
+    return {
+      usage: null,
+      error: data?.message || error?.message || null,
+      isLoading: isFetching,
+    };
+  }
+
+  return { usage: data.data, error: null, isLoading: isFetching };
+};
@@ -11,11 +11,19 @@ export function useJobListingFilters(jobs: Job[]) {
     // Tab filtering
     switch (activeTab) {
       case "open":
-        filtered = filtered.filter((j) => j.isActive);
+        filtered = filtered.filter((j) => j.status === "published");
+        break;
+      case "drafts":
+        filtered = filtered.filter(
+          (j) =>
+            j.status === "draft" ||
+            j.status === "scheduled" ||
+            j.status === "pending_review",
+        );
         break;
       case "expiring":
         filtered = filtered.filter((j) => {
-          if (!j.applicationDeadline || !j.isActive) return false;
+          if (!j.applicationDeadline || j.status !== "published") return false;
           const deadline = new Date(j.applicationDeadline);
           const now = new Date();
           const daysUntil = Math.ceil(
@@ -25,7 +33,12 @@ export function useJobListingFilters(jobs: Job[]) {
         });
         break;
       case "expired":
-        filtered = filtered.filter((j) => !j.isActive);
+        filtered = filtered.filter(
+          (j) =>
+            j.status === "closed" ||
+            j.status === "expired" ||
+            j.status === "removed",
+        );
         break;
     }
 
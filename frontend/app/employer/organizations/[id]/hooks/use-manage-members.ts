@@ -0,0 +1,106 @@
+import { toast } from "sonner";
+import { useMutation } from "@tanstack/react-query";
+import { useRouter } from "next/navigation";
+import { instance } from "@/lib/axios-instance";
+import type { Member } from "@/lib/types";
+
+type AssignableRole = Exclude<Member["role"], "owner">;
+
+// Members come from the server layout, so every change refreshes the route
+// to re-fetch the organization.
+
+export const useChangeMemberRole = (organizationId: number) => {
+  const router = useRouter();
+  return useMutation({
+    mutationFn: async ({
+      memberId,
+      role,
+    }: {
+      memberId: number;
+      role: AssignableRole;
+    }) => {
+      const response = await instance.patch(
+        `/organizations/${organizationId}/members/${memberId}/role`,
+        { role },
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success("Member role updated");
+      router.refresh();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update member role");
+    },
+  });
+};
+
+export const useUpdateMemberStatus = (organizationId: number) => {
+  const router = useRouter();
+  return useMutation({
+    mutationFn: async ({
+      memberId,
+      isActive,
+    }: {
+      memberId: number;
+      isActive: boolean;
+    }) => {
+      const response = await instance.patch(
+        `/organizations/${organizationId}/members/${memberId}/status`,
+        { isActive },
+      );
+      return response.data;
+    },
+    onSuccess: (_data, { isActive }) => {
+      toast.success(isActive ? "Member reactivated" : "Member deactivated");
+      router.refresh();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update member status");
+    },
+  });
+};
+
+export const useRemoveMember = (organizationId: number) => {
+  const router = useRouter();
+  return useMutation({
+    mutationFn: async ({ memberId }: { memberId: number; isSelf: boolean }) => {
+      const response = await instance.delete(
+        `/organizations/${organizationId}/members/${memberId}`,
+      );
+      return response.data;
+    },
+    onSuccess: (_data, { isSelf }) => {
+      if (isSelf) {
+        toast.success("You left the organization");
+        router.replace("/employer/organizations");
+        return;
+      }
+      toast.success("Member removed");
+      router.refresh();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove member");
+    },
+  });
+};
+
+export const useTransferOwnership = (organizationId: number) => {
+  const router = useRouter();
+  return useMutation({
+    mutationFn: async (memberId: number) => {
+      const response = await instance.post(
+        `/organizations/${organizationId}/ownership-transfer`,
+        { memberId },
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success("Ownership transferred");
+      router.refresh();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to transfer ownership");
+    },
+  });
+};
@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { MessageThread } from "@/components/common";
+import { Button } from "@/components/ui/button";
+import { getOrganizationMessageThread } from "@/lib/api";
+
+interface PageProps {
+  params: Promise<{ id: string; jobId: string; applicationId: string }>;
+}
+
+export default async function ApplicationConversationPage({
+  params,
+}: PageProps) {
+  const { id, jobId, applicationId } = await params;
+  const response = await getOrganizationMessageThread(
+    Number(id),
+    Number(jobId),
+    Number(applicationId),
+  );
+
+  if (!response.success || !response.data) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center">
+        <div className="w-full max-w-md rounded-lg bg-white p-8 text-center shadow-md">
+          <h1 className="mb-2 text-2xl font-bold text-gray-900">
+            Application Not Found
+          </h1>
+          <p className="text-gray-600">
+            This application doesn&apos;t exist or belongs to another
+            organization.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-4 px-4 py-8">
+      <Button variant="ghost" size="sm" asChild>
+        <Link href={`/employer/organizations/${id}/applications`}>
+          <ArrowLeft className="mr-2 size-4" />
+          All applications
+        </Link>
+      </Button>
+      <MessageThread
+        thread={response.data}
+        viewer="organization"
+        threadPath={`/organizations/${id}/jobs/${jobId}/applications/${applicationId}/messages`}
+      />
+    </div>
+  );
+}
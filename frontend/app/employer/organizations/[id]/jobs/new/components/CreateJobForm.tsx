@@ -4,6 +4,7 @@ import { useCreateJobForm } from "../hooks/use-create-job-form";
 import { JobBasicInfoSection } from "./JobBasicInfoSection";
 import { JobLocationSection } from "./JobLocationSection";
 import { JobDetailsSection } from "./JobDetailsSection";
+import { JobCompensationSection } from "./JobCompensationSection";
 import { JobFormActions } from "./JobFormActions";
 
 interface CreateJobFormProps {
@@ -25,6 +26,7 @@ export function CreateJobForm({ organizationId }: CreateJobFormProps) {
       <JobBasicInfoSection form={form} />
       <JobLocationSection form={form} />
       <JobDetailsSection form={form} />
+      <JobCompensationSection form={form} />
       <JobFormActions
         form={form}
         isPending={isPending}
@@ -0,0 +1,185 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CreateJobFormApi } from "../hooks/use-create-job-form";
+
+interface JobCompensationSectionProps {
+  form: CreateJobFormApi;
+}
+
+/** Parses an amount input; empty or invalid input clears the amount. */
+const toAmount = (value: string) => {
+  const amount = Number.parseInt(value, 10);
+  return Number.isNaN(amount) ? null : amount;
+};
+
+export function JobCompensationSection({ form }: JobCompensationSectionProps) {
+  return (
+    <fieldset className="space-y-4">
+      <legend className="text-sm font-medium">Pay Range</legend>
+      <p className="text-muted-foreground text-sm">
+        Optional, but postings that show pay get more applicants.
+      </p>
+
+      <div className="grid gap-6 md:grid-cols-4">
+        <form.Field
+          name="compensationMin"
+          children={(field) => {
+            const isInvalid =
+              field.state.meta.isTouched && !field.state.meta.isValid;
+            return (
+              <Field className="space-y-2" data-invalid={isInvalid}>
+                <FieldLabel htmlFor={field.name}>Minimum</FieldLabel>
+                <Input
+                  id={field.name}
+                  type="number"
+                  min={0}
+                  placeholder="e.g. 45000"
+                  value={field.state.value ?? ""}
+                  onBlur={field.handleBlur}
+                  onChange={(e) => field.handleChange(toAmount(e.target.value))}
+                  aria-invalid={isInvalid}
+                />
+                {isInvalid && (
+                  <FieldError
+                    errors={field.state.meta.errors.map((e) =>
+                      typeof e === "string" ? { message: e } : e,
+                    )}
+                  />
+                )}
+              </Field>
+            );
+          }}
+        />
+
+        <form.Field
+          name="compensationMax"
+          children={(field) => (
+            <div className="space-y-2">
+              <Label htmlFor={field.name}>Maximum</Label>
+              <Input
+                id={field.name}
+                type="number"
+                min={0}
+                placeholder="e.g. 55000"
+                value={field.state.value ?? ""}
+                onBlur={field.handleBlur}
+                onChange={(e) => field.handleChange(toAmount(e.target.value))}
+              />
+            </div>
+          )}
+        />
+
+        <form.Field
+          name="compensationCurrency"
+          children={(field) => (
+            <div className="space-y-2">
+              <Label htmlFor={field.name}>Currency</Label>
+              <Input
+                id={field.name}
+                maxLength={3}
+                placeholder="USD"
+                value={field.state.value}
+                onBlur={field.handleBlur}
+                onChange={(e) =>
+                  field.handleChange(e.target.value.toUpperCase())
+                }
+              />
+            </div>
+          )}
+        />
+
+        <form.Field
+          name="payPeriod"
+          children={(field) => {
+            const isInvalid =
+              field.state.meta.isTouched && !field.state.meta.isValid;
+            return (
+              <Field className="space-y-2" data-invalid={isInvalid}>
+                <FieldLabel>Pay Period</FieldLabel>
+                <Select
+                  value={field.state.value ?? ""}
+                  onValueChange={(value) =>
+                    field.handleChange(value as typeof field.state.value)
+                  }
+                >
+                  <SelectTrigger aria-invalid={isInvalid}>
+                    <SelectValue placeholder="Select period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hourly">Per hour</SelectItem>
+                    <SelectItem value="monthly">Per month</SelectItem>
+                    <SelectItem value="yearly">Per year</SelectItem>
+                  </SelectContent>
+                </Select>
+                {isInvalid && (
+                  <FieldError
+                    errors={field.state.meta.errors.map((e) =>
+                      typeof e === "string" ? { message: e } : e,
+                    )}
+                  />
+                )}
+              </Field>
+            );
+          }}
+        />
+      </div>
+
+      {/* Support raising applies to missionary roles only */}
+      <form.Subscribe
+        selector={(state) => state.values.compensationType}
+        children={(compensationType) =>
+          compensationType === "missionary" && (
+            <div className="grid gap-6 md:grid-cols-2">
+              <form.Field
+                name="supportRaisedByCandidate"
+                children={(field) => (
+                  <div className="flex items-center space-x-3 pt-7">
+                    <Switch
+                      id={field.name}
+                      checked={field.state.value}
+                      onCheckedChange={(checked) => field.handleChange(checked)}
+                    />
+                    <Label htmlFor={field.name}>
+                      Candidate raises their own support
+                    </Label>
+                  </div>
+                )}
+              />
+
+              <form.Field
+                name="monthlySupportTarget"
+                children={(field) => (
+                  <div className="space-y-2">
+                    <Label htmlFor={field.name}>Monthly Support Target</Label>
+                    <Input
+                      id={field.name}
+                      type="number"
+                      min={0}
+                      placeholder="e.g. 4500"
+                      value={field.state.value ?? ""}
+                      onBlur={field.handleBlur}
+                      onChange={(e) =>
+                        field.handleChange(toAmount(e.target.value))
+                      }
+                    />
+                  </div>
+                )}
+              />
+            </div>
+          )
+        }
+      />
+    </fieldset>
+  );
+}
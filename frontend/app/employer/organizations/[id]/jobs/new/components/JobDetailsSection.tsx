@@ -1,5 +1,6 @@
 "use client";
 
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
@@ -10,13 +11,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useJobWorkAreas } from "@/app/(main)/hooks/use-job-work-areas";
 import type { CreateJobFormApi } from "../hooks/use-create-job-form";
 
+const MAX_WORK_AREAS = 5;
+
 interface JobDetailsSectionProps {
   form: CreateJobFormApi;
 }
 
 export function JobDetailsSection({ form }: JobDetailsSectionProps) {
+  const { workAreas } = useJobWorkAreas();
+
   return (
     <>
       {/* Job Type + Compensation Type */}
@@ -124,6 +130,50 @@ export function JobDetailsSection({ form }: JobDetailsSectionProps) {
           </div>
         )}
       />
+
+      {/* Work Areas */}
+      <form.Field
+        name="workAreaIds"
+        children={(field) => (
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Work Areas</legend>
+            <p className="text-muted-foreground text-sm">
+              Choose up to {MAX_WORK_AREAS} ministry areas so candidates
+              interested in them find this role first.
+            </p>
+            <div className="grid gap-3 pt-1 sm:grid-cols-2">
+              {workAreas.map((area) => {
+                const checked = field.state.value.includes(area.id);
+                return (
+                  <div key={area.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`work-area-${area.id}`}
+                      checked={checked}
+                      disabled={
+                        !checked &&
+                        field.state.value.length >= MAX_WORK_AREAS
+                      }
+                      onCheckedChange={(value) =>
+                        field.handleChange(
+                          value
+                            ? [...field.state.value, area.id]
+                            : field.state.value.filter((id) => id !== area.id),
+                        )
+                      }
+                    />
+                    <Label
+                      htmlFor={`work-area-${area.id}`}
+                      className="font-normal"
+                    >
+                      {area.name}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          </fieldset>
+        )}
+      />
     </>
   );
 }
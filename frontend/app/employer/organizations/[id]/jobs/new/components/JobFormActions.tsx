@@ -38,6 +38,14 @@ export function JobFormActions({
           >
             Cancel
           </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!canSubmit || isSubmitting || isPending}
+            onClick={() => form.handleSubmit({ status: "draft" })}
+          >
+            Save as draft
+          </Button>
           <Button
             type="submit"
             disabled={!canSubmit || isSubmitting || isPending}
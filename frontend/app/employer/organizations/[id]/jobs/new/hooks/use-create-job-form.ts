@@ -27,15 +27,36 @@ export function useCreateJobForm(organizationId: number) {
         | "missionary"
         | "volunteer"
         | "stipend",
+      compensationMin: null as number | null,
+      compensationMax: null as number | null,
+      compensationCurrency: "USD",
+      payPeriod: null as "hourly" | "monthly" | "yearly" | null,
+      supportRaisedByCandidate: false,
+      monthlySupportTarget: null as number | null,
       isRemote: false,
       applicationDeadline: null as string | null,
       experience: "",
+      workAreaIds: [] as number[],
     },
     validators: {
       onChange: createJobSchema,
     },
+    onSubmitMeta: { status: "published" } as {
+      status: "draft" | "published";
+    },
     onSubmit: async (values) => {
-      await mutateAsync(values.value);
+      const isMissionary = values.value.compensationType === "missionary";
+      // Support raising only applies to missionary roles; drop anything left
+      // over from switching the compensation type
+      await mutateAsync({
+        ...values.value,
+        supportRaisedByCandidate:
+          isMissionary && values.value.supportRaisedByCandidate,
+        monthlySupportTarget: isMissionary
+          ? values.value.monthlySupportTarget
+          : null,
+        status: values.meta.status,
+      });
       router.push(`/employer/organizations/${organizationId}/jobs`);
     },
   });
@@ -64,6 +64,24 @@ describe("Settings Page", () => {
     ).not.toBeInTheDocument();
   });
 
+  it("shows the 'Audit Log' link only to owners", () => {
+    const { unmount } = render(<SettingsPage />, {
+      wrapper: createWrapper(100),
+    });
+
+    expect(screen.getByRole("link", { name: /audit log/i })).toHaveAttribute(
+      "href",
+      "/employer/organizations/1/settings/audit-log",
+    );
+    unmount();
+
+    render(<SettingsPage />, { wrapper: createWrapper(300) });
+
+    expect(
+      screen.queryByRole("link", { name: /audit log/i }),
+    ).not.toBeInTheDocument();
+  });
+
   it("renders the Company Settings heading", () => {
     render(<SettingsPage />, { wrapper: createWrapper(100) });
 
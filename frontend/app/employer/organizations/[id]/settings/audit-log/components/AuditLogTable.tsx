@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import type { PaginationState } from "@tanstack/react-table";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DataTable,
+  SearchEmptyState,
+  SearchErrorState,
+  SearchLoadingState,
+} from "@/components/common";
+
+import {
+  useAuditEvents,
+  type AuditEventFilters,
+} from "../hooks/use-audit-events";
+import {
+  AUDIT_EVENT_LABELS,
+  AUDIT_RESOURCE_TYPES,
+  auditLogColumns,
+} from "./audit-log-columns";
+
+// Radix Select does not accept an empty string as an item value
+const ALL = "all";
+
+export function AuditLogTable({ organizationId }: { organizationId: number }) {
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: 25,
+  });
+
+  // Any filter change starts again from the first page
+  const updateFilters = (next: Partial<AuditEventFilters>) => {
+    setFilters((prev) => ({ ...prev, ...next }));
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  const {
+    data,
+    pagination: meta,
+    isLoading,
+    isError,
+    refetch,
+  } = useAuditEvents({
+    organizationId,
+    ...filters,
+    page: pagination.pageIndex + 1,
+    limit: pagination.pageSize,
+  });
+
+  const pageCount = meta ? meta.totalPages : -1;
+  const total = meta?.total ?? 0;
+  const currentPage = pagination.pageIndex + 1;
+  const pageSize = pagination.pageSize;
+  const showingFrom = total === 0 ? 0 : (currentPage - 1) * pageSize + 1;
+  const showingTo = Math.min(currentPage * pageSize, total);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="audit-event">Event</Label>
+          <Select
+            value={filters.name ?? ALL}
+            onValueChange={(value) =>
+              updateFilters({ name: value === ALL ? undefined : value })
+            }
+          >
+            <SelectTrigger id="audit-event">
+              <SelectValue placeholder="All events" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectItem value={ALL}>All events</SelectItem>
+                {Object.entries(AUDIT_EVENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="audit-resource">Resource</Label>
+          <Select
+            value={filters.resourceType ?? ALL}
+            onValueChange={(value) =>
+              updateFilters({ resourceType: value === ALL ? undefined : value })
+            }
+          >
+            <SelectTrigger id="audit-resource">
+              <SelectValue placeholder="All resources" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectItem value={ALL}>All resources</SelectItem>
+                {AUDIT_RESOURCE_TYPES.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="audit-from">From</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={filters.fromDate ?? ""}
+            max={filters.toDate}
+            onChange={(e) =>
+              updateFilters({ fromDate: e.target.value || undefined })
+            }
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="audit-to">To</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={filters.toDate ?? ""}
+            min={filters.fromDate}
+            onChange={(e) =>
+              updateFilters({ toDate: e.target.value || undefined })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="bg-card overflow-hidden rounded-lg border">
+        {isLoading && data.length === 0 ? (
+          <div className="p-4">
+            <SearchLoadingState count={6} />
+          </div>
+        ) : isError ? (
+          <SearchErrorState onRetry={refetch} />
+        ) : data.length === 0 ? (
+          <SearchEmptyState
+            onClearFilters={() =>
+              updateFilters({
+                name: undefined,
+                resourceType: undefined,
+                fromDate: undefined,
+                toDate: undefined,
+              })
+            }
+            title="No audit events"
+            description="No recorded activity matches these filters. Older events are removed after the retention period."
+          />
+        ) : (
+          <>
+            <DataTable
+              columns={auditLogColumns}
+              data={data}
+              manualPagination
+              pageIndex={pagination.pageIndex}
+              pageSize={pagination.pageSize}
+              pageCount={pageCount}
+              onPaginationChange={setPagination}
+            />
+            <div className="flex flex-col items-center justify-between gap-3 border-t p-3 md:flex-row">
+              <span className="text-muted-foreground text-xs">
+                {`Showing ${showingFrom}–${showingTo} of ${total}`}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!meta?.hasPrevious}
+                  onClick={() =>
+                    setPagination((prev) => ({
+                      ...prev,
+                      pageIndex: Math.max(0, prev.pageIndex - 1),
+                    }))
+                  }
+                >
+                  <ChevronLeft className="mr-1 h-4 w-4" />
+                  Previous
+                </Button>
+                <span className="text-muted-foreground text-xs tabular-nums">
+                  Page {currentPage}
+                  {pageCount > 0 ? ` of ${pageCount}` : ""}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!meta?.hasNext}
+                  onClick={() =>
+                    setPagination((prev) => ({
+                      ...prev,
+                      pageIndex: prev.pageIndex + 1,
+                    }))
+                  }
+                >
+                  Next
+                  <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { ColumnDef } from "@tanstack/react-table";
+
+import { Badge } from "@/components/ui/badge";
+import type { AuditEvent } from "@/lib/types";
+
+/**
+ * Labels for the events that can appear in an organization's audit log.
+ * Unknown names fall back to the raw event name.
+ */
+export const AUDIT_EVENT_LABELS: Record<string, string> = {
+  "org.created": "Organization created",
+  "org.member.added": "Member added",
+  "org.member.removed": "Member removed",
+  "org.member.role.changed": "Member role changed",
+  "org.member.deactivated": "Member deactivated",
+  "org.member.reactivated": "Member reactivated",
+  "org.ownership.transferred": "Ownership transferred",
+  "org.permissions.updated": "Permissions updated",
+  "org.invitation.sent": "Invitation sent",
+  "org.invitation.accepted": "Invitation accepted",
+  "org.invitation.revoked": "Invitation revoked",
+  "org.candidate.invited": "Candidate invited to apply",
+  "org.verification.submitted": "Verification requested",
+  "job.created": "Job created",
+  "job.updated": "Job updated",
+  "job.published": "Job published",
+  "job.unpublished": "Job unpublished",
+  "job.deleted": "Job deleted",
+  "application.bulk_updated": "Application updated in bulk",
+  "read.application.by_employer": "Application viewed",
+  "read.application.messages.by_employer": "Messages viewed",
+  "read.profile.cross_user": "Candidate profile viewed",
+  "read.invitation.by_token": "Invitation viewed",
+  "read.admin": "Platform staff action",
+};
+
+export const AUDIT_RESOURCE_TYPES = [
+  { value: "organization", label: "Organization" },
+  { value: "organization_member", label: "Member" },
+  { value: "invitation", label: "Invitation" },
+  { value: "job", label: "Job" },
+  { value: "application", label: "Application" },
+  { value: "candidate", label: "Candidate" },
+];
+
+const dateTimeFormatter = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export const auditLogColumns: ColumnDef<AuditEvent>[] = [
+  {
+    accessorKey: "createdAt",
+    header: "When",
+    cell: ({ row }) => (
+      <span className="text-muted-foreground whitespace-nowrap tabular-nums">
+        {dateTimeFormatter.format(new Date(row.original.createdAt))}
+      </span>
+    ),
+  },
+  {
+    accessorKey: "name",
+    header: "Event",
+    cell: ({ row }) => (
+      <div className="flex items-center gap-2">
+        <span className="font-medium">
+          {AUDIT_EVENT_LABELS[row.original.name] ?? row.original.name}
+        </span>
+        {row.original.outcome === "failure" && (
+          <Badge variant="destructive">Failed</Badge>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: "actor",
+    header: "Who",
+    cell: ({ row }) => {
+      const { actor } = row.original;
+      if (!actor.id) {
+        return <span className="text-muted-foreground">Anonymous</span>;
+      }
+      return (
+        <div className="flex flex-col">
+          <span>{actor.fullName ?? `User #${actor.id}`}</span>
+          {actor.email && (
+            <span className="text-muted-foreground text-xs">{actor.email}</span>
+          )}
+        </div>
+      );
+    },
+  },
+  {
+    id: "resource",
+    header: "Resource",
+    cell: ({ row }) => {
+      const { resource } = row.original;
+      return (
+        <span className="capitalize">
+          {resource.type}
+          {resource.id ? ` #${resource.id}` : ""}
+        </span>
+      );
+    },
+  },
+  {
+    accessorKey: "action",
+    header: "Details",
+    cell: ({ row }) => (
+      <span className="text-muted-foreground">
+        {row.original.failureReason ?? row.original.action}
+      </span>
+    ),
+  },
+];
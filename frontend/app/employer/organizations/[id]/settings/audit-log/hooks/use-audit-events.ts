@@ -0,0 +1,71 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+import { getOrganizationAuditEvents } from "@/lib/api";
+import type { AuditEvent, PaginationMeta } from "@/lib/types";
+
+export type AuditEventFilters = {
+  name?: string;
+  resourceType?: string;
+  /** yyyy-mm-dd, as produced by a date input */
+  fromDate?: string;
+  /** yyyy-mm-dd, as produced by a date input */
+  toDate?: string;
+};
+
+type UseAuditEventsParams = AuditEventFilters & {
+  organizationId: number;
+  page: number;
+  limit: number;
+};
+
+type UseAuditEventsResult = {
+  data: AuditEvent[];
+  pagination: PaginationMeta | null;
+  isLoading: boolean;
+  isError: boolean;
+  refetch: () => void;
+};
+
+export function useAuditEvents(
+  params: UseAuditEventsParams,
+): UseAuditEventsResult {
+  const { organizationId, page, limit, name, resourceType, fromDate, toDate } =
+    params;
+
+  const query = useQuery({
+    queryKey: [
+      "organization-audit-events",
+      organizationId,
+      { page, limit, name, resourceType, fromDate, toDate },
+    ],
+    queryFn: () =>
+      getOrganizationAuditEvents(organizationId, {
+        page,
+        limit,
+        name,
+        resourceType,
+        // Whole days in the user's timezone, sent to the API as UTC instants
+        from: fromDate
+          ? new Date(`${fromDate}T00:00:00`).toISOString()
+          : undefined,
+        to: toDate
+          ? new Date(`${toDate}T23:59:59.999`).toISOString()
+          : undefined,
+      }),
+    placeholderData: keepPreviousData,
+  });
+
+  const response = query.data;
+  const data = response && response.success ? response.data : [];
+  const pagination = response && response.success ? response.pagination : null;
+
+  return {
+    data,
+    pagination,
+    isLoading: query.isLoading || query.isFetching,
+    isError: query.isError || (response !== undefined && !response.success),
+    refetch: () => {
+      void query.refetch();
+    },
+  };
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { redirect } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  useOrganization,
+  useIsOwner,
+} from "../../context/organization-context";
+import { AuditLogTable } from "./components/AuditLogTable";
+
+export default function AuditLogPage() {
+  const { organization } = useOrganization();
+  const isOwner = useIsOwner();
+
+  if (!isOwner) {
+    redirect(`/employer/organizations/${organization.id}/settings`);
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href={`/employer/organizations/${organization.id}/settings`}>
+            <ArrowLeft />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground text-sm">
+            Who changed or viewed your organization&apos;s members, jobs and
+            applications.
+          </p>
+        </div>
+      </div>
+
+      <AuditLogTable organizationId={organization.id} />
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SearchErrorState, SearchLoadingState } from "@/components/common";
+import type { Member, OrganizationPermission } from "@/lib/types";
+import {
+  useOrganizationPermissions,
+  useResetOrganizationPermissions,
+  useUpdateOrganizationPermissions,
+} from "../hooks/use-organization-permissions";
+
+type CustomizableRole = Exclude<Member["role"], "owner">;
+
+const ROLES: { value: Member["role"]; label: string }[] = [
+  { value: "owner", label: "Owner" },
+  { value: "admin", label: "Admin" },
+  { value: "recruiter", label: "Recruiter" },
+  { value: "member", label: "Member" },
+];
+
+const PERMISSION_LABELS: Record<
+  OrganizationPermission,
+  { label: string; description: string }
+> = {
+  "jobs.view": {
+    label: "View jobs",
+    description: "See the organization's job listings and dashboards",
+  },
+  "jobs.create": { label: "Create jobs", description: "Post new jobs" },
+  "jobs.update": {
+    label: "Edit jobs",
+    description: "Edit job details and scorecard templates",
+  },
+  "jobs.publish": {
+    label: "Publish jobs",
+    description: "Publish and unpublish job listings",
+  },
+  "jobs.delete": { label: "Delete jobs", description: "Delete job listings" },
+  "applications.view": {
+    label: "View applications",
+    description: "See applicants, notes, timelines and interviews",
+  },
+  "applications.manage": {
+    label: "Manage applications",
+    description: "Move applications, add notes and schedule interviews",
+  },
+  "applications.reject": {
+    label: "Reject applications",
+    description: "Reject applicants, individually or in bulk",
+  },
+  "candidates.search": {
+    label: "Search candidates",
+    description: "Search job seeker profiles",
+  },
+  "members.invite": {
+    label: "Invite members",
+    description: "Send and cancel invitations",
+  },
+  "pipeline.manage": {
+    label: "Manage hiring pipeline",
+    description: "Change the stages applications move through",
+  },
+};
+
+interface PermissionsSectionProps {
+  organizationId: number;
+  canEdit: boolean;
+}
+
+export function PermissionsSection({
+  organizationId,
+  canEdit,
+}: PermissionsSectionProps) {
+  const {
+    data: matrix,
+    isLoading,
+    isError,
+    refetch,
+  } = useOrganizationPermissions(organizationId);
+  const updatePermissions = useUpdateOrganizationPermissions(organizationId);
+  const resetPermissions = useResetOrganizationPermissions(organizationId);
+  // Unsaved changes, per role; roles without an entry show the saved matrix
+  const [edits, setEdits] = useState<
+    Partial<Record<CustomizableRole, OrganizationPermission[]>>
+  >({});
+
+  if (isLoading) return <SearchLoadingState count={4} />;
+  if (isError || !matrix) return <SearchErrorState onRetry={refetch} />;
+
+  const permissionsOf = (role: Member["role"]) =>
+    role === "owner" ? matrix.roles.owner : (edits[role] ?? matrix.roles[role]);
+
+  const toggle = (
+    role: CustomizableRole,
+    permission: OrganizationPermission,
+    granted: boolean,
+  ) => {
+    const current = permissionsOf(role);
+    setEdits((prev) => ({
+      ...prev,
+      [role]: granted
+        ? [...current, permission]
+        : current.filter((p) => p !== permission),
+    }));
+  };
+
+  const hasEdits = Object.keys(edits).length > 0;
+  const isSaving = updatePermissions.isPending || resetPermissions.isPending;
+
+  return (
+    <Card className="border-0 p-6 shadow-sm">
+      <div className="mb-4 flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h2 className="text-foreground text-lg font-semibold">
+            Role Permissions
+          </h2>
+          <p className="text-muted-foreground text-sm">
+            {canEdit
+              ? "Choose what each role can do. Owners always have every permission."
+              : "What each role can do in this organization."}
+          </p>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={isSaving || matrix.customizedRoles.length === 0}
+              onClick={() =>
+                resetPermissions.mutate(undefined, {
+                  onSuccess: () => setEdits({}),
+                })
+              }
+            >
+              <RotateCcw data-icon="inline-start" />
+              Reset to Defaults
+            </Button>
+            <Button
+              disabled={isSaving || !hasEdits}
+              onClick={() =>
+                updatePermissions.mutate(edits, {
+                  onSuccess: () => setEdits({}),
+                })
+              }
+            >
+              {updatePermissions.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Permission</TableHead>
+            {ROLES.map((role) => (
+              <TableHead key={role.value} className="text-center">
+                <div className="flex flex-col items-center gap-1">
+                  {role.label}
+                  {role.value !== "owner" &&
+                    matrix.customizedRoles.includes(role.value) && (
+                      <Badge variant="secondary">Custom</Badge>
+                    )}
+                </div>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {matrix.permissions.map((permission) => (
+            <TableRow key={permission}>
+              <TableCell>
+                <p className="font-medium">
+                  {PERMISSION_LABELS[permission]?.label ?? permission}
+                </p>
+                <p className="text-muted-foreground text-xs">
+                  {PERMISSION_LABELS[permission]?.description}
+                </p>
+              </TableCell>
+              {ROLES.map((role) => (
+                <TableCell key={role.value} className="text-center">
+                  <Checkbox
+                    aria-label={`${role.label}: ${PERMISSION_LABELS[permission]?.label ?? permission}`}
+                    checked={permissionsOf(role.value).includes(permission)}
+                    disabled={!canEdit || role.value === "owner" || isSaving}
+                    onCheckedChange={(value) =>
+                      role.value !== "owner" &&
+                      toggle(role.value, permission, value === true)
+                    }
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+}
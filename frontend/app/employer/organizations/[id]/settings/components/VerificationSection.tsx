@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { BadgeCheck, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SearchErrorState, SearchLoadingState } from "@/components/common";
+import { formatToReadableDate } from "@/lib/utils";
+import {
+  useOrganizationVerification,
+  useSubmitOrganizationVerification,
+} from "../hooks/use-organization-verification";
+
+const DOCUMENT_TYPES = "application/pdf,image/png,image/jpeg";
+
+interface VerificationSectionProps {
+  organizationId: number;
+  canSubmit: boolean;
+}
+
+export function VerificationSection({
+  organizationId,
+  canSubmit,
+}: VerificationSectionProps) {
+  const {
+    data: verification,
+    isLoading,
+    isError,
+    refetch,
+  } = useOrganizationVerification(organizationId);
+  const submitVerification = useSubmitOrganizationVerification(organizationId);
+  const [nonprofitRegistration, setNonprofitRegistration] = useState<File>();
+  const [einLetter, setEinLetter] = useState<File>();
+  const [note, setNote] = useState("");
+
+  if (isLoading) return <SearchLoadingState count={2} />;
+  if (isError || !verification) return <SearchErrorState onRetry={refetch} />;
+
+  const latest = verification.latestRequest;
+
+  if (verification.isVerified) {
+    return (
+      <Card className="border-0 p-6 shadow-sm">
+        <div className="flex items-center gap-3">
+          <BadgeCheck className="text-primary size-6" />
+          <div>
+            <h2 className="text-foreground text-lg font-semibold">
+              Verified Organization
+            </h2>
+            <p className="text-muted-foreground text-sm">
+              {verification.verifiedAt
+                ? `Verified on ${formatToReadableDate(new Date(verification.verifiedAt))}. `
+                : ""}
+              Your jobs show a verified badge in search results.
+            </p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (latest?.status === "pending") {
+    return (
+      <Card className="border-0 p-6 shadow-sm">
+        <div className="flex items-center gap-3">
+          <Clock className="text-muted-foreground size-6" />
+          <div>
+            <h2 className="text-foreground text-lg font-semibold">
+              Verification Under Review
+            </h2>
+            <p className="text-muted-foreground text-sm">
+              Submitted on {formatToReadableDate(new Date(latest.createdAt))}.
+              We will update this page once our team has reviewed your
+              documents.
+            </p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  // On success the new pending request replaces this form
+  const handleSubmit = () => {
+    submitVerification.mutate({
+      nonprofitRegistration,
+      einLetter,
+      note: note.trim() || undefined,
+    });
+  };
+
+  return (
+    <Card className="border-0 p-6 shadow-sm">
+      <div className="mb-4">
+        <h2 className="text-foreground text-lg font-semibold">Get Verified</h2>
+        <p className="text-muted-foreground text-sm">
+          Verified organizations show a badge on their jobs and appear in
+          verified-only searches. Upload your nonprofit registration or your EIN
+          letter for review.
+        </p>
+      </div>
+
+      {latest?.status === "rejected" && (
+        <div className="bg-destructive/10 text-destructive mb-4 rounded-md p-3 text-sm">
+          Your last request was not approved
+          {latest.decisionNote ? `: ${latest.decisionNote}` : "."} You can
+          submit new documents below.
+        </div>
+      )}
+
+      {canSubmit ? (
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="nonprofit-registration">
+              Nonprofit registration
+            </Label>
+            <Input
+              id="nonprofit-registration"
+              type="file"
+              accept={DOCUMENT_TYPES}
+              onChange={(e) => setNonprofitRegistration(e.target.files?.[0])}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="ein-letter">EIN letter</Label>
+            <Input
+              id="ein-letter"
+              type="file"
+              accept={DOCUMENT_TYPES}
+              onChange={(e) => setEinLetter(e.target.files?.[0])}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="verification-note">Note for reviewers</Label>
+            <Textarea
+              id="verification-note"
+              maxLength={1000}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional context, e.g. the state you are registered in"
+            />
+          </div>
+          <div>
+            <Button
+              disabled={
+                submitVerification.isPending ||
+                (!nonprofitRegistration && !einLetter)
+              }
+              onClick={handleSubmit}
+            >
+              {submitVerification.isPending
+                ? "Submitting..."
+                : "Submit for Review"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-sm">
+          Only organization owners can request verification.
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { instance } from "@/lib/axios-instance";
+import { getOrganizationPermissions } from "@/lib/api";
+import type {
+  Member,
+  OrganizationPermission,
+  OrganizationPermissionMatrix,
+} from "@/lib/types";
+
+type CustomizableRole = Exclude<Member["role"], "owner">;
+
+const permissionsQueryKey = (organizationId: number) => [
+  "organization-permissions",
+  organizationId,
+];
+
+export const useOrganizationPermissions = (organizationId: number) => {
+  return useQuery({
+    queryKey: permissionsQueryKey(organizationId),
+    queryFn: async () => {
+      const response = await getOrganizationPermissions(organizationId);
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      return response.data;
+    },
+  });
+};
+
+export const useUpdateOrganizationPermissions = (organizationId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (
+      roles: Partial<Record<CustomizableRole, OrganizationPermission[]>>,
+    ) => {
+      const response = await instance.put(
+        `/organizations/${organizationId}/permissions`,
+        { roles },
+      );
+      return response.data.data as OrganizationPermissionMatrix;
+    },
+    onSuccess: (matrix) => {
+      queryClient.setQueryData(permissionsQueryKey(organizationId), matrix);
+      toast.success("Permissions updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update permissions");
+    },
+  });
+};
+
+export const useResetOrganizationPermissions = (organizationId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const response = await instance.delete(
+        `/organizations/${organizationId}/permissions`,
+      );
+      return response.data.data as OrganizationPermissionMatrix;
+    },
+    onSuccess: (matrix) => {
+      queryClient.setQueryData(permissionsQueryKey(organizationId), matrix);
+      toast.success("Permissions reset to defaults");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to reset permissions");
+    },
+  });
+};
@@ -0,0 +1,72 @@
+import { toast } from "sonner";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { instance } from "@/lib/axios-instance";
+import { getOrganizationVerification } from "@/lib/api";
+import type {
+  OrganizationVerification,
+  OrganizationVerificationRequest,
+} from "@/lib/types";
+
+const verificationQueryKey = (organizationId: number) => [
+  "organization-verification",
+  organizationId,
+];
+
+export type VerificationSubmission = {
+  nonprofitRegistration?: File;
+  einLetter?: File;
+  note?: string;
+};
+
+export const useOrganizationVerification = (organizationId: number) => {
+  return useQuery({
+    queryKey: verificationQueryKey(organizationId),
+    queryFn: async () => {
+      const response = await getOrganizationVerification(organizationId);
+      if (!response.success) {
+        throw new Error(response.message);
+      }
+      return response.data;
+    },
+  });
+};
+
+export const useSubmitOrganizationVerification = (organizationId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      nonprofitRegistration,
+      einLetter,
+      note,
+    }: VerificationSubmission) => {
+      const formData = new FormData();
+      if (nonprofitRegistration) {
+        formData.append("nonprofitRegistration", nonprofitRegistration);
+      }
+      if (einLetter) formData.append("einLetter", einLetter);
+      if (note) formData.append("note", note);
+
+      const response = await instance.post(
+        `/organizations/${organizationId}/verification`,
+        formData,
+        {
+          headers: { "Content-Type": "multipart/form-data" },
+          withCredentials: true,
+        },
+      );
+      return response.data.data as OrganizationVerificationRequest;
+    },
+    onSuccess: (request) => {
+      // Document URLs are filled in by the upload worker, so the new request
+      // is shown as-is instead of refetching
+      queryClient.setQueryData<OrganizationVerification>(
+        verificationQueryKey(organizationId),
+        (old) => old && { ...old, latestRequest: request },
+      );
+      toast.success("Verification request submitted for review");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to submit verification request");
+    },
+  });
+};
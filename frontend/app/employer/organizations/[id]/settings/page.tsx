@@ -2,11 +2,13 @@
 
 import dynamic from "next/dynamic";
 import Link from "next/link";
-import { Pencil } from "lucide-react";
+import { History, Pencil } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import CompanyInformation from "../components/CompanyInformation";
+import { PermissionsSection } from "./components/PermissionsSection";
+import { VerificationSection } from "./components/VerificationSection";
 import { useOrganization, useIsOwner } from "../context/organization-context";
 
 const EmployeeListSection = dynamic(
@@ -53,14 +55,24 @@ export default function SettingsPage() {
         <div className="mb-6 flex items-center justify-between">
           <h1 className="text-2xl font-bold">Company Settings</h1>
           {isOwner && (
-            <Button asChild>
-              <Link
-                href={`/employer/organizations/${organization.id}/settings/edit`}
-              >
-                <Pencil data-icon="inline-start" />
-                Edit Organization
-              </Link>
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link
+                  href={`/employer/organizations/${organization.id}/settings/audit-log`}
+                >
+                  <History data-icon="inline-start" />
+                  Audit Log
+                </Link>
+              </Button>
+              <Button asChild>
+                <Link
+                  href={`/employer/organizations/${organization.id}/settings/edit`}
+                >
+                  <Pencil data-icon="inline-start" />
+                  Edit Organization
+                </Link>
+              </Button>
+            </div>
           )}
         </div>
 
@@ -79,6 +91,18 @@ export default function SettingsPage() {
               >
                 Members
               </TabsTrigger>
+              <TabsTrigger
+                value="permissions"
+                className="data-[state=active]:border-primary data-[state=active]:text-foreground rounded-none bg-transparent px-6 data-[state=active]:border-b-4 data-[state=active]:bg-transparent data-[state=active]:shadow-none"
+              >
+                Permissions
+              </TabsTrigger>
+              <TabsTrigger
+                value="verification"
+                className="data-[state=active]:border-primary data-[state=active]:text-foreground rounded-none bg-transparent px-6 data-[state=active]:border-b-4 data-[state=active]:bg-transparent data-[state=active]:shadow-none"
+              >
+                Verification
+              </TabsTrigger>
             </TabsList>
             <TabsContent value="company">
               <CompanyInformation organization={organization} />
@@ -89,6 +113,18 @@ export default function SettingsPage() {
                 organizationId={organization.id}
               />
             </TabsContent>
+            <TabsContent value="permissions">
+              <PermissionsSection
+                organizationId={organization.id}
+                canEdit={isOwner}
+              />
+            </TabsContent>
+            <TabsContent value="verification">
+              <VerificationSection
+                organizationId={organization.id}
+                canSubmit={isOwner}
+              />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
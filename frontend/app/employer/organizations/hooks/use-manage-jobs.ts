@@ -1,7 +1,7 @@
 import { toast } from "sonner";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { instance } from "@/lib/axios-instance";
-import type { CreateJobInput, UpdateJobInput } from "@/lib/types";
+import type { CreateJobInput, JobStatus, UpdateJobInput } from "@/lib/types";
 
 export const useCreateJob = (organizationId: number) => {
   const queryClient = useQueryClient();
@@ -17,11 +17,13 @@ export const useCreateJob = (organizationId: number) => {
       );
       return response.data;
     },
-    onSuccess: () => {
+    onSuccess: (_data, { status }) => {
       queryClient.invalidateQueries({
         queryKey: ["organization-jobs", organizationId],
       });
-      toast.success("Job posted successfully");
+      toast.success(
+        status === "draft" ? "Job saved as a draft" : "Job posted successfully",
+      );
     },
     onError: (error: Error) => {
       toast.error(error.message || "Failed to create job");
@@ -76,3 +78,65 @@ export const useUpdateJob = (organizationId: number) => {
     },
   });
 };
+
+const STATUS_CHANGE_MESSAGES: Partial<Record<JobStatus, string>> = {
+  draft: "Job moved to drafts",
+  scheduled: "Job scheduled",
+  published: "Job published",
+  paused: "Job paused",
+  closed: "Job closed",
+};
+
+export const useUpdateJobStatus = (organizationId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      jobId,
+      status,
+      publishAt,
+    }: {
+      jobId: number;
+      status: Exclude<JobStatus, "expired">;
+      publishAt?: string;
+    }) => {
+      const response = await instance.patch(
+        `/jobs/${jobId}/status`,
+        { status, publishAt },
+        { withCredentials: true },
+      );
+      return response.data;
+    },
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization-jobs", organizationId],
+      });
+      toast.success(STATUS_CHANGE_MESSAGES[status] ?? "Job updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to change job status");
+    },
+  });
+};
+
+export const useRepostJob = (organizationId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await instance.post(
+        `/jobs/${jobId}/repost`,
+        {},
+        { withCredentials: true },
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization-jobs", organizationId],
+      });
+      toast.success("Job reposted as a draft");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to repost job");
+    },
+  });
+};
@@ -9,6 +9,7 @@ import { useAuthenticationStatus } from "@/hooks/use-authentication-status";
 import { toast } from "sonner";
 
 import { Badge } from "@/components/ui/badge";
+import { VerifiedBadge } from "@/components/common";
 import { Card, CardContent } from "@/components/ui/card";
 import { Toggle } from "./ui/toggle";
 import {
@@ -26,10 +27,14 @@ interface JobCardType {
   location: string;
   jobType: JobTypeEnum;
   compensationType?: string;
+  /** Formatted pay range, e.g. "$45,000 – $55,000 / year" */
+  payRange?: string | null;
   experienceLevel: string;
   posted: string;
   jobDescription: string;
   logoUrl: string | null;
+  /** Whether platform staff verified the employer */
+  isVerified?: boolean;
   onJobSelected: () => void;
   isSelected: boolean;
   hasSaved?: boolean;
@@ -41,8 +46,10 @@ export const JobCard = memo(
     positionName,
     posted,
     companyName,
+    isVerified = false,
     jobType,
     compensationType,
+    payRange,
     jobDescription,
     location,
     experienceLevel,
@@ -89,7 +96,10 @@ export const JobCard = memo(
                 <Building2 className="text-muted-foreground mr-2 size-5" />
               </div>
               <div>
-                <div className="text-sm font-semibold">{companyName}</div>
+                <div className="flex items-center gap-1.5">
+                  <span className="text-sm font-semibold">{companyName}</span>
+                  {isVerified && <VerifiedBadge />}
+                </div>
                 <div className="text-muted-foreground flex items-center gap-1.5 text-xs">
                   <span>{jobType}</span>
                   {compensationType && (
@@ -130,6 +140,11 @@ export const JobCard = memo(
           <div className="text-secondary-foreground mb-2 text-xs sm:text-sm">
             {location}
           </div>
+          {payRange && (
+            <div className="text-foreground mb-2 text-xs sm:text-sm">
+              {payRange}
+            </div>
+          )}
           <div className="text-foreground mb-2 text-xs font-semibold sm:text-sm">
             {experienceLevel}
           </div>
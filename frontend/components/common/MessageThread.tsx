@@ -0,0 +1,237 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Ban, Check, CheckCheck, Paperclip, Send } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useSendApplicationMessage,
+  useToggleMessagingBlock,
+} from "@/hooks/use-application-messages";
+import { cn } from "@/lib/utils";
+import type {
+  ApplicationMessage,
+  ApplicationMessageThread,
+  MessagingParty,
+} from "@/lib/types";
+
+const MAX_ATTACHMENTS = 5;
+
+interface MessageThreadProps {
+  thread: ApplicationMessageThread;
+  /** Which side of the conversation is reading the thread */
+  viewer: MessagingParty;
+  /** The thread's messages endpoint; sending and blocking hang off it */
+  threadPath: string;
+}
+
+/**
+ * Conversation between an organization's hiring team and an applicant about
+ * a single job application.
+ */
+export function MessageThread({
+  thread,
+  viewer,
+  threadPath,
+}: MessageThreadProps) {
+  const [messages, setMessages] = useState<ApplicationMessage[]>(
+    thread.messages,
+  );
+  const [blockedBy, setBlockedBy] = useState<MessagingParty[]>(
+    thread.blockedBy,
+  );
+  const [body, setBody] = useState("");
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sendMutation = useSendApplicationMessage(threadPath);
+  const blockMutation = useToggleMessagingBlock(threadPath);
+
+  const counterpart =
+    viewer === "applicant" ? thread.organizationName : thread.applicantName;
+  const hasBlocked = blockedBy.includes(viewer);
+  const isBlocked = blockedBy.length > 0;
+
+  const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > MAX_ATTACHMENTS) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} files`);
+      event.target.value = "";
+      return;
+    }
+    setAttachments(files);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = body.trim();
+    if (!trimmed) return;
+
+    sendMutation.mutate(
+      { body: trimmed, attachments },
+      {
+        onSuccess: (response) => {
+          if (response.success && response.data) {
+            setMessages((current) => [...current, response.data]);
+            setBody("");
+            setAttachments([]);
+            if (fileInputRef.current) fileInputRef.current.value = "";
+            if (attachments.length > 0) {
+              toast.info("Attachments will appear once they finish uploading");
+            }
+          }
+        },
+      },
+    );
+  };
+
+  const handleToggleBlock = () => {
+    blockMutation.mutate(!hasBlocked, {
+      onSuccess: (response) => {
+        if (response.success && response.data) {
+          setBlockedBy(response.data.blockedBy);
+          toast.success(
+            hasBlocked
+              ? "Conversation unblocked"
+              : `${counterpart} can no longer message you`,
+          );
+        }
+      },
+    });
+  };
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-lg">{counterpart}</CardTitle>
+          <p className="text-muted-foreground text-sm">{thread.jobTitle}</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="cursor-pointer"
+          onClick={handleToggleBlock}
+          disabled={blockMutation.isPending}
+        >
+          <Ban className="mr-2 size-4" />
+          {hasBlocked ? "Unblock" : "Block"}
+        </Button>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {messages.length === 0 ? (
+          <p className="text-muted-foreground py-8 text-center text-sm">
+            No messages yet. Start the conversation below.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {messages.map((message) => {
+              const isOwn = message.senderRole === viewer;
+              return (
+                <li
+                  key={message.id}
+                  className={cn(
+                    "flex",
+                    isOwn ? "justify-end" : "justify-start",
+                  )}
+                >
+                  <div
+                    className={cn(
+                      "max-w-[80%] rounded-lg px-4 py-2",
+                      isOwn ? "bg-primary text-primary-foreground" : "bg-muted",
+                    )}
+                  >
+                    {!isOwn && message.senderName && (
+                      <p className="mb-1 text-xs font-medium">
+                        {message.senderName}
+                      </p>
+                    )}
+                    <p className="text-sm whitespace-pre-wrap">
+                      {message.body}
+                    </p>
+                    {message.attachments.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {message.attachments.map((attachment) => (
+                          <li key={attachment.url}>
+                            <a
+                              href={attachment.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 text-xs underline"
+                            >
+                              <Paperclip className="size-3" />
+                              {attachment.filename}
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="mt-1 flex items-center justify-end gap-1 text-xs opacity-70">
+                      {format(new Date(message.createdAt), "MMM d, h:mm a")}
+                      {isOwn &&
+                        (message.readAt ? (
+                          <span
+                            className="inline-flex items-center gap-0.5"
+                            title={`Read ${format(new Date(message.readAt), "MMM d, h:mm a")}`}
+                          >
+                            <CheckCheck className="size-3" />
+                            Read
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center gap-0.5">
+                            <Check className="size-3" />
+                            Sent
+                          </span>
+                        ))}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {isBlocked ? (
+          <p className="text-muted-foreground rounded-md border px-4 py-3 text-center text-sm">
+            {hasBlocked
+              ? `You blocked ${counterpart}. Unblock the conversation to send messages.`
+              : "Messages can no longer be sent in this conversation."}
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <Textarea
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+              placeholder={`Message ${counterpart}`}
+              maxLength={5000}
+              rows={3}
+            />
+            <div className="flex items-center justify-between gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={handleFilesChange}
+                className="text-muted-foreground text-xs"
+                aria-label="Attach files"
+              />
+              <Button
+                type="submit"
+                className="cursor-pointer"
+                disabled={sendMutation.isPending || !body.trim()}
+              >
+                <Send className="mr-2 size-4" />
+                Send
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import { BadgeCheck } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+
+interface VerifiedBadgeProps {
+  className?: string;
+}
+
+/**
+ * Shown next to an organization's name once platform staff verified its
+ * nonprofit registration or EIN letter.
+ */
+export function VerifiedBadge({ className }: VerifiedBadgeProps) {
+  return (
+    <span
+      className={cn(
+        "text-primary inline-flex items-center gap-0.5 text-xs font-medium",
+        className,
+      )}
+      title="Verified organization"
+    >
+      <BadgeCheck className="size-3.5" aria-hidden="true" />
+      Verified
+    </span>
+  );
+}
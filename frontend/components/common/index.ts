@@ -4,3 +4,5 @@ export { FieldInfo } from "./FieldInfo";
 export { SearchLoadingState } from "./search-loading-state";
 export { SearchEmptyState, SearchErrorState } from "./search-empty-state";
 export { DataTable } from "./data-table";
+export { VerifiedBadge } from "./VerifiedBadge";
+export { MessageThread } from "./MessageThread";
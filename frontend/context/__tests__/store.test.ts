@@ -6,6 +6,11 @@ describe("useFiltersStore (composed)", () => {
       remoteOnly: false,
       jobTypes: [],
       serviceRoles: [],
+      workAreas: [],
+      skills: [],
+      experience: null,
+      selectedCity: null,
+      selectedState: null,
       datePosted: null,
       sortBy: "recent",
       keyword: "",
@@ -19,6 +24,7 @@ describe("useFiltersStore (composed)", () => {
     expect(state.remoteOnly).toBe(false);
     expect(state.jobTypes).toEqual([]);
     expect(state.serviceRoles).toEqual([]);
+    expect(state.workAreas).toEqual([]);
     expect(state.datePosted).toBeNull();
     expect(state.sortBy).toBe("recent");
   });
@@ -56,6 +62,11 @@ describe("store isolation", () => {
       remoteOnly: false,
       jobTypes: [],
       serviceRoles: [],
+      workAreas: [],
+      skills: [],
+      experience: null,
+      selectedCity: null,
+      selectedState: null,
       datePosted: null,
       sortBy: "recent",
     });
@@ -76,6 +87,7 @@ describe("store isolation", () => {
           yearsOfExperience: "",
           authorized: undefined,
         },
+        screeningAnswers: {},
       },
     });
   });
@@ -8,6 +8,11 @@ function resetStore() {
     remoteOnly: false,
     jobTypes: [],
     serviceRoles: [],
+    workAreas: [],
+    skills: [],
+    experience: null,
+    selectedCity: null,
+    selectedState: null,
     datePosted: null,
     sortBy: "recent",
     keyword: "",
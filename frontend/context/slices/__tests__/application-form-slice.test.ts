@@ -15,6 +15,7 @@ const initialFormData = {
     yearsOfExperience: "",
     authorized: undefined,
   },
+  screeningAnswers: {},
 };
 
 describe("applicationFormSlice", () => {
@@ -92,4 +93,14 @@ describe("applicationFormSlice", () => {
     expect(state.formData.country).toBe("");
     expect(state.formData.city).toBe("");
   });
+
+  it("clears screening answers on reset", () => {
+    useApplicationStore
+      .getState()
+      .setFormData({ screeningAnswers: { 1: true, 2: "Weekends" } });
+
+    useApplicationStore.getState().resetForm();
+
+    expect(useApplicationStore.getState().formData.screeningAnswers).toEqual({});
+  });
 });
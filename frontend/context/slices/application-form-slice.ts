@@ -15,8 +15,12 @@ export interface ApplicationFormData {
     yearsOfExperience: string;
     authorized: "yes" | "no" | undefined;
   };
+  /** Answers to the job's screening questions, keyed by question id */
+  screeningAnswers: Record<number, ScreeningAnswerValue>;
 }
 
+export type ScreeningAnswerValue = boolean | number | string;
+
 export interface ApplicationFormState {
   step: number;
   formData: ApplicationFormData;
@@ -50,6 +54,7 @@ const initialFormData: ApplicationFormData = {
     yearsOfExperience: "",
     authorized: undefined,
   },
+  screeningAnswers: {},
 };
 
 export const applicationFormSlice: StateCreator<ApplicationFormState> = (
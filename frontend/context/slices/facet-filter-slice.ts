@@ -0,0 +1,18 @@
+import { StateCreator } from "zustand";
+import { FacetFilterState, FiltersState } from "../store";
+
+export const facetFilterSlice: StateCreator<
+  FiltersState,
+  [],
+  [],
+  FacetFilterState
+> = (set) => ({
+  skills: [],
+  experience: null,
+  selectedCity: null,
+  selectedState: null,
+  setSkills: (skills) => set(() => ({ skills })),
+  setExperience: (experience) => set(() => ({ experience })),
+  setSelectedCity: (selectedCity) => set(() => ({ selectedCity })),
+  setSelectedState: (selectedState) => set(() => ({ selectedState })),
+});
@@ -1,12 +1,16 @@
 export { remoteOnlySlice } from "./remote-only-slice";
+export { verifiedOnlySlice } from "./verified-only-slice";
 export { jobTypeSlice } from "./job-type-slice";
 export { serviceRoleSlice } from "./service-role-slice";
+export { workAreaSlice } from "./work-area-slice";
+export { facetFilterSlice } from "./facet-filter-slice";
 export { datePostedSlice } from "./date-posted-slice";
 export { sortBySlice } from "./sort-by-slice";
 export {
   applicationFormSlice,
   type ApplicationFormState,
   type ApplicationFormData,
+  type ScreeningAnswerValue,
 } from "./application-form-slice";
 export {
   sessionSlice,
@@ -0,0 +1,12 @@
+import { StateCreator } from "zustand";
+import { FiltersState, VerifiedOnlyFilterState } from "../store";
+
+export const verifiedOnlySlice: StateCreator<
+  FiltersState,
+  [],
+  [],
+  VerifiedOnlyFilterState
+> = (set) => ({
+  verifiedOnly: false,
+  setVerifiedOnly: (verified) => set(() => ({ verifiedOnly: verified })),
+});
@@ -0,0 +1,12 @@
+import { StateCreator } from "zustand";
+import { FiltersState, WorkAreaFilterState } from "../store";
+
+export const workAreaSlice: StateCreator<
+  FiltersState,
+  [],
+  [],
+  WorkAreaFilterState
+> = (set) => ({
+  workAreas: [],
+  setWorkAreas: (workAreas) => set(() => ({ workAreas })),
+});
@@ -5,9 +5,12 @@ import {
   datePostedSlice,
   jobTypeSlice,
   remoteOnlySlice,
+  verifiedOnlySlice,
   searchSlice,
   serviceRoleSlice,
   sortBySlice,
+  workAreaSlice,
+  facetFilterSlice,
   applicationFormSlice,
   type ApplicationFormState,
 } from "./slices";
@@ -15,11 +18,7 @@ import {
 export type DatePosted = "last-24-hours" | "last-7-days" | "last-14-days";
 
 export type JobType =
-  | "full-time"
-  | "part-time"
-  | "contract"
-  | "volunteer"
-  | "internship";
+  "full-time" | "part-time" | "contract" | "volunteer" | "internship";
 
 // NOTE: "volunteer" appears in both JobType and ServiceRole intentionally.
 // JobType.volunteer = unpaid volunteer position type (employment classification).
@@ -36,6 +35,10 @@ export interface RemoteOnlyFilterState {
   remoteOnly: boolean;
   setRemoteOnly: (remote: boolean) => void;
 }
+export interface VerifiedOnlyFilterState {
+  verifiedOnly: boolean;
+  setVerifiedOnly: (verified: boolean) => void;
+}
 export interface JobTypeFilterState {
   jobTypes: JobType[];
   setJobTypes: (types: JobType[]) => void;
@@ -44,6 +47,24 @@ export interface ServiceFiltersState {
   serviceRoles: ServiceRole[];
   setServiceRoles: (roles: ServiceRole[]) => void;
 }
+export interface WorkAreaFilterState {
+  workAreas: string[];
+  setWorkAreas: (workAreas: string[]) => void;
+}
+/**
+ * Filters picked from the search facets. A selected city or state replaces
+ * the one parsed from the typed location.
+ */
+export interface FacetFilterState {
+  skills: string[];
+  experience: string | null;
+  selectedCity: string | null;
+  selectedState: string | null;
+  setSkills: (skills: string[]) => void;
+  setExperience: (experience: string | null) => void;
+  setSelectedCity: (city: string | null) => void;
+  setSelectedState: (state: string | null) => void;
+}
 export interface DatePostedFilterState {
   datePosted: DatePosted | null;
   setDatePosted: (datePosted: DatePosted | null) => void;
@@ -62,8 +83,11 @@ export interface SearchState {
 }
 
 export type FiltersState = RemoteOnlyFilterState &
+  VerifiedOnlyFilterState &
   JobTypeFilterState &
   ServiceFiltersState &
+  WorkAreaFilterState &
+  FacetFilterState &
   DatePostedFilterState &
   SortByFilterState &
   SearchState;
@@ -72,8 +96,11 @@ export const useFiltersStore = create<FiltersState>()(
   persist(
     (...args) => ({
       ...remoteOnlySlice(...args),
+      ...verifiedOnlySlice(...args),
       ...jobTypeSlice(...args),
       ...serviceRoleSlice(...args),
+      ...workAreaSlice(...args),
+      ...facetFilterSlice(...args),
       ...datePostedSlice(...args),
       ...sortBySlice(...args),
       ...searchSlice(...args),
@@ -0,0 +1,58 @@
+import { toast } from "sonner";
+import { useMutation } from "@tanstack/react-query";
+import { instance } from "@/lib/axios-instance";
+import type {
+  ApiResponse,
+  ApplicationMessage,
+  MessagingBlockState,
+} from "@/lib/types";
+
+/**
+ * `threadPath` is the thread's messages endpoint, e.g.
+ * `/jobs/me/applications/1/messages` for applicants or
+ * `/organizations/1/jobs/2/applications/3/messages` for the hiring team.
+ */
+export const useSendApplicationMessage = (threadPath: string) => {
+  return useMutation({
+    mutationFn: async (input: { body: string; attachments: File[] }) => {
+      const formData = new FormData();
+      formData.append("body", input.body);
+      for (const file of input.attachments) {
+        formData.append("attachments", file);
+      }
+      const response = await instance.post<ApiResponse<ApplicationMessage>>(
+        threadPath,
+        formData,
+        {
+          headers: { "Content-Type": "multipart/form-data" },
+          withCredentials: true,
+        },
+      );
+      return response.data;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to send message");
+    },
+  });
+};
+
+export const useToggleMessagingBlock = (threadPath: string) => {
+  return useMutation({
+    mutationFn: async (block: boolean) => {
+      const url = `${threadPath}/block`;
+      const response = block
+        ? await instance.post<ApiResponse<MessagingBlockState>>(
+            url,
+            {},
+            { withCredentials: true },
+          )
+        : await instance.delete<ApiResponse<MessagingBlockState>>(url, {
+            withCredentials: true,
+          });
+      return response.data;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update conversation");
+    },
+  });
+};
@@ -0,0 +1,77 @@
+import {
+  formatCompensation,
+  formatSupportRaising,
+} from "@/lib/format-compensation";
+
+describe("formatCompensation", () => {
+  it("returns null without a pay range", () => {
+    expect(formatCompensation({})).toBeNull();
+    expect(
+      formatCompensation({ compensationMin: null, compensationMax: null }),
+    ).toBeNull();
+  });
+
+  it("formats a full range with its pay period", () => {
+    expect(
+      formatCompensation({
+        compensationMin: 45000,
+        compensationMax: 55000,
+        compensationCurrency: "USD",
+        payPeriod: "yearly",
+      }),
+    ).toBe("$45,000 – $55,000 / year");
+  });
+
+  it("formats a single amount when min equals max", () => {
+    expect(
+      formatCompensation({
+        compensationMin: 20,
+        compensationMax: 20,
+        compensationCurrency: "USD",
+        payPeriod: "hourly",
+      }),
+    ).toBe("$20 / hour");
+  });
+
+  it("formats open-ended ranges", () => {
+    expect(
+      formatCompensation({ compensationMin: 3000, payPeriod: "monthly" }),
+    ).toBe("From $3,000 / month");
+    expect(
+      formatCompensation({ compensationMax: 3000, payPeriod: "monthly" }),
+    ).toBe("Up to $3,000 / month");
+  });
+
+  it("uses the posting's currency", () => {
+    expect(
+      formatCompensation({
+        compensationMin: 1500,
+        compensationCurrency: "EUR",
+        payPeriod: "monthly",
+      }),
+    ).toBe("From €1,500 / month");
+  });
+});
+
+describe("formatSupportRaising", () => {
+  it("returns null for roles without support raising", () => {
+    expect(
+      formatSupportRaising({ supportRaisedByCandidate: false }),
+    ).toBeNull();
+  });
+
+  it("includes the monthly support target when set", () => {
+    expect(
+      formatSupportRaising({
+        supportRaisedByCandidate: true,
+        monthlySupportTarget: 4500,
+      }),
+    ).toBe("Raises own support · $4,500 / month target");
+  });
+
+  it("omits the target when none is set", () => {
+    expect(formatSupportRaising({ supportRaisedByCandidate: true })).toBe(
+      "Raises own support",
+    );
+  });
+});
@@ -11,7 +11,13 @@ describe("buildSearchParams", () => {
     location: "",
     jobTypes: [] as ("full-time" | "part-time" | "contract" | "internship")[],
     serviceRoles: [] as ("paid" | "missionary" | "volunteer" | "stipend")[],
+    workAreas: [] as ("paid" | "missionary" | "volunteer" | "stipend")[],
+    skills: [],
+    experience: null,
+    selectedCity: null,
+    selectedState: null,
     remoteOnly: false,
+    verifiedOnly: false,
     sortBy: "recent" as const,
     datePosted: null,
   };
@@ -60,6 +66,15 @@ describe("buildSearchParams", () => {
     expect(params.has("includeRemote")).toBe(false);
   });
 
+  it("sets verifiedOnly only when enabled", () => {
+    expect(
+      buildSearchParams({ ...defaultState, verifiedOnly: true }).get(
+        "verifiedOnly",
+      ),
+    ).toBe("true");
+    expect(buildSearchParams(defaultState).has("verifiedOnly")).toBe(false);
+  });
+
   it("sets sortBy when not default", () => {
     const params = buildSearchParams({ ...defaultState, sortBy: "relevant" });
     expect(params.get("sortBy")).toBe("relevant");
@@ -91,13 +106,44 @@ describe("buildSearchParams", () => {
     expect(params.getAll("compensationType")).toEqual(["paid", "stipend"]);
   });
 
+  it("appends multiple workAreas params", () => {
+    const params = buildSearchParams({
+      ...defaultState,
+      workAreas: ["Media/design/arts", "Education"],
+    });
+    expect(params.getAll("workAreas")).toEqual([
+      "Media/design/arts",
+      "Education",
+    ]);
+  });
+
+  it("sets the facet filter params", () => {
+    const params = buildSearchParams({
+      ...defaultState,
+      skills: ["Music", "Teaching"],
+      experience: "senior",
+      selectedCity: "Dallas",
+      selectedState: "Texas",
+    });
+    expect(params.getAll("skills")).toEqual(["Music", "Teaching"]);
+    expect(params.get("experience")).toBe("senior");
+    expect(params.get("city")).toBe("Dallas");
+    expect(params.get("state")).toBe("Texas");
+  });
+
   it("builds full params with all fields set", () => {
     const params = buildSearchParams({
       keyword: "engineer",
       location: "TX",
       jobTypes: ["full-time"],
       serviceRoles: ["paid"],
+      workAreas: [],
+      skills: [],
+      experience: null,
+      selectedCity: null,
+      selectedState: null,
       remoteOnly: true,
+      verifiedOnly: false,
       sortBy: "relevant",
       datePosted: "last-24-hours",
     });
@@ -169,6 +215,25 @@ describe("parseSearchParams", () => {
     expect(result.serviceRoles).toBeUndefined();
   });
 
+  it("parses workAreas params, dropping blank values", () => {
+    const result = parseSearchParams(
+      new URLSearchParams("workAreas=Media%2Fdesign%2Farts&workAreas=+"),
+    );
+    expect(result.workAreas).toEqual(["Media/design/arts"]);
+  });
+
+  it("parses the facet filter params", () => {
+    const result = parseSearchParams(
+      new URLSearchParams(
+        "skills=Music&skills=+&experience=senior&city=Dallas&state=Texas",
+      ),
+    );
+    expect(result.skills).toEqual(["Music"]);
+    expect(result.experience).toBe("senior");
+    expect(result.selectedCity).toBe("Dallas");
+    expect(result.selectedState).toBe("Texas");
+  });
+
   it("parses includeRemote=true into remoteOnly", () => {
     const result = parseSearchParams(new URLSearchParams("includeRemote=true"));
     expect(result.remoteOnly).toBe(true);
@@ -181,6 +246,11 @@ describe("parseSearchParams", () => {
     expect(result.remoteOnly).toBeUndefined();
   });
 
+  it("parses verifiedOnly=true", () => {
+    const result = parseSearchParams(new URLSearchParams("verifiedOnly=true"));
+    expect(result.verifiedOnly).toBe(true);
+  });
+
   it("parses valid sortBy", () => {
     const result = parseSearchParams(new URLSearchParams("sortBy=relevant"));
     expect(result.sortBy).toBe("relevant");
@@ -279,7 +349,13 @@ describe("buildApiParams", () => {
     location: "",
     jobTypes: [] as ("full-time" | "part-time" | "contract" | "internship")[],
     serviceRoles: [] as ("paid" | "missionary" | "volunteer" | "stipend")[],
+    workAreas: [] as ("paid" | "missionary" | "volunteer" | "stipend")[],
+    skills: [],
+    experience: null,
+    selectedCity: null,
+    selectedState: null,
     remoteOnly: false,
+    verifiedOnly: false,
     sortBy: "recent" as const,
     datePosted: null,
   };
@@ -339,6 +415,34 @@ describe("buildApiParams", () => {
     expect(params.compensationType).toBeUndefined();
   });
 
+  it("maps workAreas to the workAreas array", () => {
+    const params = buildApiParams({
+      ...defaultState,
+      workAreas: ["Education"],
+    });
+    expect(params.workAreas).toEqual(["Education"]);
+  });
+
+  it("maps skills and experience", () => {
+    const params = buildApiParams({
+      ...defaultState,
+      skills: ["Music"],
+      experience: "senior",
+    });
+    expect(params.skills).toEqual(["Music"]);
+    expect(params.experience).toBe("senior");
+  });
+
+  it("prefers a selected city and state over the typed location", () => {
+    const params = buildApiParams({
+      ...defaultState,
+      location: "Boston, MA",
+      selectedState: "Texas",
+    });
+    expect(params.city).toBe("Boston");
+    expect(params.state).toBe("Texas");
+  });
+
   it("sets includeRemote when remoteOnly is true", () => {
     const params = buildApiParams({ ...defaultState, remoteOnly: true });
     expect(params.includeRemote).toBe(true);
@@ -349,6 +453,11 @@ describe("buildApiParams", () => {
     expect(params.includeRemote).toBeUndefined();
   });
 
+  it("sets verifiedOnly when enabled", () => {
+    const params = buildApiParams({ ...defaultState, verifiedOnly: true });
+    expect(params.verifiedOnly).toBe(true);
+  });
+
   it("maps non-default sortBy", () => {
     const params = buildApiParams({ ...defaultState, sortBy: "relevant" });
     expect(params.sortBy).toBe("relevant");
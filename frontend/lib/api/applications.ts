@@ -5,6 +5,7 @@ import { revalidatePath } from "next/cache";
 import { env } from "@/env";
 import {
   ApiResponse,
+  HiringPipeline,
   OrganizationJobApplications,
   ServerActionPaginatedResponse,
   UserJobApplications,
@@ -32,6 +33,27 @@ export const getAllJobsApplicationsForOrganization = async (
   );
 };
 
+export const getOrganizationHiringPipeline = async (
+  organizationId: string,
+): Promise<ApiResponse<HiringPipeline>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/organizations/${organizationId}/hiring-pipeline`,
+    {
+      credentials: "include",
+      headers: {
+        Cookie: cookieStore.toString(),
+      },
+      cache: "no-store",
+    },
+  );
+
+  return handleApiResponse(
+    res,
+    "Failed to fetch organization's hiring pipeline",
+  );
+};
+
 export const getAllApplicationsByUser = async (): Promise<
   ServerActionPaginatedResponse<UserJobApplications>
 > => {
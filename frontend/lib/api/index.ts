@@ -3,16 +3,25 @@ export {
   getJobById,
   getOrganizationJobsList,
   getOrganizationJobStats,
+  getJobWorkAreas,
+  recordApplyStart,
+  reportJob,
 } from "./jobs";
 
 export {
   getUserOrganizations,
   getOrganization,
   updateOrganization,
+  getOrganizationAuditEvents,
+  getOrganizationPermissions,
+  getOrganizationVerification,
+  getOrganizationProfile,
 } from "./organizations";
+export type { OrganizationAuditEventsParams } from "./organizations";
 
 export {
   getAllJobsApplicationsForOrganization,
+  getOrganizationHiringPipeline,
   getAllApplicationsByUser,
   applyForJob,
   withdrawJobApplication,
@@ -42,8 +51,14 @@ export {
 
 export { getInvitationDetails, acceptInvitation } from "./invitations";
 
+export {
+  getMessageInbox,
+  getApplicationMessageThread,
+  getOrganizationMessageThread,
+} from "./messages";
+
 export { searchJobs } from "./search-jobs";
-export type { SearchJobsParams } from "./search-jobs";
+export type { SearchJobsParams, SearchJobsResponse } from "./search-jobs";
 
 export { getRecommendations } from "./recommendations";
 export type { RecommendationsResponse } from "./recommendations";
@@ -3,9 +3,12 @@
 import { cookies } from "next/headers";
 import { env } from "@/env";
 import { JobResponse, Job, JobWithEmployer } from "@/schemas/responses/jobs";
+import type { WorkArea } from "@/schemas/job-preferences";
 import {
   ApiResponse,
+  JobStatsRange,
   OrganizationJobStats,
+  ReportJobInput,
   ServerActionPaginatedResponse,
 } from "@/lib/types";
 import { handleApiResponse, handlePaginatedApiResponse } from "./helpers";
@@ -61,18 +64,69 @@ export const getOrganizationJobsList = async (
 
 export const getOrganizationJobStats = async (
   organizationId: number,
+  range: JobStatsRange = {},
 ): Promise<ApiResponse<OrganizationJobStats>> => {
   const cookieStore = await cookies();
-  const res = await fetch(
+  const url = new URL(
     `${env.NEXT_PUBLIC_SERVER_URL}/jobs/employer/${organizationId}/jobs/stats`,
+  );
+  if (range.from) url.searchParams.set("from", range.from);
+  if (range.to) url.searchParams.set("to", range.to);
+
+  const res = await fetch(url.toString(), {
+    credentials: "include",
+    headers: {
+      Cookie: cookieStore.toString(),
+    },
+    cache: "no-store",
+  });
+
+  return handleApiResponse(res, "Failed to fetch job stats");
+};
+
+export const getJobWorkAreas = async (): Promise<ApiResponse<WorkArea[]>> => {
+  const res = await fetch(`${env.NEXT_PUBLIC_SERVER_URL}/jobs/work-areas`, {
+    // Static reference catalog shared by every visitor — cache it rather
+    // than refetching on every render.
+    next: { revalidate: 3600 },
+  });
+
+  return handleApiResponse(res, "Failed to fetch work areas");
+};
+
+export const recordApplyStart = async (
+  jobId: number,
+): Promise<ApiResponse<null>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/jobs/${jobId}/apply-start`,
     {
-      credentials: "include",
+      method: "POST",
       headers: {
         Cookie: cookieStore.toString(),
       },
-      cache: "no-store",
     },
   );
 
-  return handleApiResponse(res, "Failed to fetch job stats");
+  return handleApiResponse(res, "Failed to record application start");
+};
+
+export const reportJob = async (
+  jobId: number,
+  report: ReportJobInput,
+): Promise<ApiResponse<null>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/jobs/${jobId}/reports`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Cookie: cookieStore.toString(),
+      },
+      body: JSON.stringify(report),
+    },
+  );
+
+  return handleApiResponse(res, "Failed to report job");
 };
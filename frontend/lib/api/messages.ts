@@ -0,0 +1,65 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { env } from "@/env";
+import {
+  ApiResponse,
+  ApplicationMessageThread,
+  MessageInboxThread,
+} from "@/lib/types";
+import { handleApiResponse } from "./helpers";
+
+// Threads are never cached: opening one marks the other side's messages read
+
+export const getMessageInbox = async (): Promise<
+  ApiResponse<MessageInboxThread[]>
+> => {
+  const cookieStore = await cookies();
+  const res = await fetch(`${env.NEXT_PUBLIC_SERVER_URL}/jobs/me/messages`, {
+    credentials: "include",
+    headers: {
+      Cookie: cookieStore.toString(),
+    },
+    cache: "no-store",
+  });
+
+  return handleApiResponse(res, "Failed to fetch messages");
+};
+
+export const getApplicationMessageThread = async (
+  applicationId: number,
+): Promise<ApiResponse<ApplicationMessageThread>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/jobs/me/applications/${applicationId}/messages`,
+    {
+      credentials: "include",
+      headers: {
+        Cookie: cookieStore.toString(),
+      },
+      cache: "no-store",
+    },
+  );
+
+  return handleApiResponse(res, "Failed to fetch conversation");
+};
+
+export const getOrganizationMessageThread = async (
+  organizationId: number,
+  jobId: number,
+  applicationId: number,
+): Promise<ApiResponse<ApplicationMessageThread>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/organizations/${organizationId}/jobs/${jobId}/applications/${applicationId}/messages`,
+    {
+      credentials: "include",
+      headers: {
+        Cookie: cookieStore.toString(),
+      },
+      cache: "no-store",
+    },
+  );
+
+  return handleApiResponse(res, "Failed to fetch conversation");
+};
@@ -5,11 +5,27 @@ import { revalidatePath } from "next/cache";
 import { env } from "@/env";
 import {
   ApiResponse,
+  AuditEvent,
   Organization,
+  OrganizationPermissionMatrix,
+  OrganizationProfile,
+  OrganizationVerification,
   OrganizationWithMembers,
+  ServerActionPaginatedResponse,
   UserOrganizationMembership,
 } from "@/lib/types";
-import { handleApiResponse } from "./helpers";
+import { handleApiResponse, handlePaginatedApiResponse } from "./helpers";
+
+export type OrganizationAuditEventsParams = {
+  page?: number;
+  limit?: number;
+  name?: string;
+  resourceType?: string;
+  /** ISO datetime, inclusive */
+  from?: string;
+  /** ISO datetime, inclusive */
+  to?: string;
+};
 
 export const getUserOrganizations = async (): Promise<
   ApiResponse<UserOrganizationMembership[]>
@@ -75,3 +91,87 @@ export const updateOrganization = async (
 
   return data.data;
 };
+
+export const getOrganizationAuditEvents = async (
+  organizationId: number,
+  params: OrganizationAuditEventsParams,
+): Promise<ServerActionPaginatedResponse<AuditEvent>> => {
+  const cookieStore = await cookies();
+  const url = new URL(
+    `${env.NEXT_PUBLIC_SERVER_URL}/organizations/${organizationId}/audit-events`,
+  );
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") {
+      url.searchParams.set(key, String(value));
+    }
+  }
+
+  const res = await fetch(url.toString(), {
+    credentials: "include",
+    headers: {
+      Cookie: cookieStore.toString(),
+    },
+    cache: "no-store",
+  });
+
+  return handlePaginatedApiResponse<AuditEvent>(
+    res,
+    "Failed to fetch audit events",
+  );
+};
+
+export const getOrganizationPermissions = async (
+  organizationId: number,
+): Promise<ApiResponse<OrganizationPermissionMatrix>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/organizations/${organizationId}/permissions`,
+    {
+      credentials: "include",
+      headers: {
+        Cookie: cookieStore.toString(),
+      },
+      cache: "no-store",
+    },
+  );
+
+  return handleApiResponse(res, "Failed to fetch permissions");
+};
+
+export const getOrganizationVerification = async (
+  organizationId: number,
+): Promise<ApiResponse<OrganizationVerification>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/organizations/${organizationId}/verification`,
+    {
+      credentials: "include",
+      headers: {
+        Cookie: cookieStore.toString(),
+      },
+      cache: "no-store",
+    },
+  );
+
+  return handleApiResponse(res, "Failed to fetch verification status");
+};
+
+export const getOrganizationProfile = async (
+  organizationId: number,
+): Promise<ApiResponse<OrganizationProfile>> => {
+  const cookieStore = await cookies();
+  const res = await fetch(
+    `${env.NEXT_PUBLIC_SERVER_URL}/organizations/${organizationId}/profile`,
+    {
+      credentials: "include",
+      // Forward the session so the profile reports whether the visitor follows
+      headers: {
+        Cookie: cookieStore.toString(),
+      },
+      cache: "no-store",
+    },
+  );
+
+  return handleApiResponse(res, "Failed to fetch organization profile");
+};
@@ -2,9 +2,11 @@
 
 import { cookies } from "next/headers";
 import { env } from "@/env";
-import type { SearchJobResult } from "@/schemas/responses/jobs/search";
-import type { ServerActionPaginatedResponse } from "@/lib/types";
-import { handlePaginatedApiResponse } from "./helpers";
+import type {
+  SearchFacets,
+  SearchJobResult,
+} from "@/schemas/responses/jobs/search";
+import type { PaginatedApiResponse, ApiErrorResponse } from "@/lib/types";
 
 export type SearchJobsParams = {
   q?: string;
@@ -13,7 +15,10 @@ export type SearchJobsParams = {
   zipcode?: string;
   jobType?: string[];
   compensationType?: string[];
+  workAreas?: string[];
+  skills?: string[];
   includeRemote?: boolean;
+  verifiedOnly?: boolean;
   experience?: string;
   sortBy?: string;
   order?: string;
@@ -22,9 +27,13 @@ export type SearchJobsParams = {
   limit?: number;
 };
 
+export type SearchJobsResponse =
+  | (PaginatedApiResponse<SearchJobResult> & { facets: SearchFacets })
+  | ApiErrorResponse;
+
 export const searchJobs = async (
   params: SearchJobsParams,
-): Promise<ServerActionPaginatedResponse<SearchJobResult>> => {
+): Promise<SearchJobsResponse> => {
   const cookieStore = await cookies();
   const url = new URL(`${env.NEXT_PUBLIC_SERVER_URL}/jobs/search`);
 
@@ -48,5 +57,11 @@ export const searchJobs = async (
     cache: "no-store",
   });
 
-  return handlePaginatedApiResponse(res, "Failed to search jobs");
+  // Manual return (not handlePaginatedApiResponse) because the response includes
+  // `facets` which is outside the standard PaginatedApiResponse shape.
+  return res.json().catch(() => ({
+    success: false as const,
+    message: "Failed to search jobs",
+    errorCode: "PARSE_ERROR",
+  }));
 };
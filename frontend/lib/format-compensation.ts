@@ -0,0 +1,79 @@
+import type { PayPeriod } from "@/lib/types";
+
+export type CompensationDetails = {
+  compensationMin?: number | null;
+  compensationMax?: number | null;
+  compensationCurrency?: string | null;
+  payPeriod?: PayPeriod | string | null;
+};
+
+const PERIOD_SUFFIX: Record<string, string> = {
+  hourly: "hour",
+  monthly: "month",
+  yearly: "year",
+};
+
+function formatAmount(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes fall back to a plain number with the code
+    return `${amount.toLocaleString("en-US")} ${currency}`;
+  }
+}
+
+/**
+ * Human-readable pay range for a job, e.g. "$45,000 – $55,000 / year".
+ * Returns null when the posting has no pay range.
+ */
+export function formatCompensation({
+  compensationMin: min,
+  compensationMax: max,
+  compensationCurrency,
+  payPeriod,
+}: CompensationDetails): string | null {
+  const currency = compensationCurrency || "USD";
+  let range: string;
+  if (min != null && max != null) {
+    range =
+      min === max
+        ? formatAmount(min, currency)
+        : `${formatAmount(min, currency)} – ${formatAmount(max, currency)}`;
+  } else if (min != null) {
+    range = `From ${formatAmount(min, currency)}`;
+  } else if (max != null) {
+    range = `Up to ${formatAmount(max, currency)}`;
+  } else {
+    return null;
+  }
+
+  const period = payPeriod ? PERIOD_SUFFIX[payPeriod] : undefined;
+  return period ? `${range} / ${period}` : range;
+}
+
+/**
+ * Support-raising summary for missionary roles, e.g.
+ * "Raises own support · $4,500 / month target". Null when not applicable.
+ */
+export function formatSupportRaising({
+  supportRaisedByCandidate,
+  monthlySupportTarget,
+  compensationCurrency,
+}: {
+  supportRaisedByCandidate?: boolean | null;
+  monthlySupportTarget?: number | null;
+  compensationCurrency?: string | null;
+}): string | null {
+  if (!supportRaisedByCandidate && monthlySupportTarget == null) return null;
+
+  const target =
+    monthlySupportTarget != null
+      ? `${formatAmount(monthlySupportTarget, compensationCurrency || "USD")} / month target`
+      : null;
+  if (!supportRaisedByCandidate) return target && `Support ${target}`;
+  return target ? `Raises own support · ${target}` : "Raises own support";
+}
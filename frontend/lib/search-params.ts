@@ -16,7 +16,13 @@ const PARAM_KEYS = {
   location: "location",
   jobTypes: "jobType",
   serviceRoles: "compensationType",
+  workAreas: "workAreas",
+  skills: "skills",
+  experience: "experience",
+  selectedCity: "city",
+  selectedState: "state",
   remoteOnly: "includeRemote",
+  verifiedOnly: "verifiedOnly",
   sortBy: "sortBy",
   datePosted: "datePosted",
 } as const;
@@ -34,7 +40,13 @@ export function buildSearchParams(
     | "location"
     | "jobTypes"
     | "serviceRoles"
+    | "workAreas"
+    | "skills"
+    | "experience"
+    | "selectedCity"
+    | "selectedState"
     | "remoteOnly"
+    | "verifiedOnly"
     | "sortBy"
     | "datePosted"
   >,
@@ -57,10 +69,34 @@ export function buildSearchParams(
     params.append(PARAM_KEYS.serviceRoles, role);
   }
 
+  for (const area of state.workAreas) {
+    params.append(PARAM_KEYS.workAreas, area);
+  }
+
+  for (const skill of state.skills) {
+    params.append(PARAM_KEYS.skills, skill);
+  }
+
+  if (state.experience) {
+    params.set(PARAM_KEYS.experience, state.experience);
+  }
+
+  if (state.selectedCity) {
+    params.set(PARAM_KEYS.selectedCity, state.selectedCity);
+  }
+
+  if (state.selectedState) {
+    params.set(PARAM_KEYS.selectedState, state.selectedState);
+  }
+
   if (state.remoteOnly) {
     params.set(PARAM_KEYS.remoteOnly, "true");
   }
 
+  if (state.verifiedOnly) {
+    params.set(PARAM_KEYS.verifiedOnly, "true");
+  }
+
   if (state.sortBy !== SORT_BY_DEFAULT) {
     params.set(PARAM_KEYS.sortBy, state.sortBy);
   }
@@ -108,7 +144,13 @@ export function parseSearchParams(
     | "location"
     | "jobTypes"
     | "serviceRoles"
+    | "workAreas"
+    | "skills"
+    | "experience"
+    | "selectedCity"
+    | "selectedState"
     | "remoteOnly"
+    | "verifiedOnly"
     | "sortBy"
     | "datePosted"
   >
@@ -120,7 +162,13 @@ export function parseSearchParams(
       | "location"
       | "jobTypes"
       | "serviceRoles"
+      | "workAreas"
+      | "skills"
+      | "experience"
+      | "selectedCity"
+      | "selectedState"
       | "remoteOnly"
+      | "verifiedOnly"
       | "sortBy"
       | "datePosted"
     >
@@ -143,9 +191,35 @@ export function parseSearchParams(
   if (serviceRoles.length > 0)
     result.serviceRoles = serviceRoles as ServiceRole[];
 
+  // Work areas are an open catalog, so any non-empty value is kept
+  const workAreas = params
+    .getAll(PARAM_KEYS.workAreas)
+    .map((a: string) => a.trim())
+    .filter(Boolean);
+  if (workAreas.length > 0) result.workAreas = workAreas;
+
+  // Facet values come from indexed jobs, so they are kept as given too
+  const skills = params
+    .getAll(PARAM_KEYS.skills)
+    .map((s: string) => s.trim())
+    .filter(Boolean);
+  if (skills.length > 0) result.skills = skills;
+
+  const experience = params.get(PARAM_KEYS.experience)?.trim();
+  if (experience) result.experience = experience;
+
+  const selectedCity = params.get(PARAM_KEYS.selectedCity)?.trim();
+  if (selectedCity) result.selectedCity = selectedCity;
+
+  const selectedState = params.get(PARAM_KEYS.selectedState)?.trim();
+  if (selectedState) result.selectedState = selectedState;
+
   const includeRemote = params.get(PARAM_KEYS.remoteOnly);
   if (includeRemote === "true") result.remoteOnly = true;
 
+  const verifiedOnly = params.get(PARAM_KEYS.verifiedOnly);
+  if (verifiedOnly === "true") result.verifiedOnly = true;
+
   const sortBy = params.get(PARAM_KEYS.sortBy);
   if (sortBy && VALID_SORT_BY.has(sortBy)) result.sortBy = sortBy as SortBy;
 
@@ -165,7 +239,8 @@ export function hasSearchParams(params: URLSearchParams): boolean {
 
 /**
  * Convert Zustand filter state into API call params.
- * Splits the raw location string into city/state/zipcode via parseLocation.
+ * Splits the raw location string into city/state/zipcode via parseLocation;
+ * a city or state picked from the facets takes precedence.
  */
 export function buildApiParams(
   state: Pick<
@@ -174,7 +249,13 @@ export function buildApiParams(
     | "location"
     | "jobTypes"
     | "serviceRoles"
+    | "workAreas"
+    | "skills"
+    | "experience"
+    | "selectedCity"
+    | "selectedState"
     | "remoteOnly"
+    | "verifiedOnly"
     | "sortBy"
     | "datePosted"
   >,
@@ -192,6 +273,9 @@ export function buildApiParams(
     if (parsed.zipcode) params.zipcode = parsed.zipcode;
   }
 
+  if (state.selectedCity) params.city = state.selectedCity;
+  if (state.selectedState) params.state = state.selectedState;
+
   if (state.jobTypes.length > 0) {
     params.jobType = state.jobTypes;
   }
@@ -200,10 +284,26 @@ export function buildApiParams(
     params.compensationType = state.serviceRoles;
   }
 
+  if (state.workAreas.length > 0) {
+    params.workAreas = state.workAreas;
+  }
+
+  if (state.skills.length > 0) {
+    params.skills = state.skills;
+  }
+
+  if (state.experience) {
+    params.experience = state.experience;
+  }
+
   if (state.remoteOnly) {
     params.includeRemote = true;
   }
 
+  if (state.verifiedOnly) {
+    params.verifiedOnly = true;
+  }
+
   if (state.sortBy !== SORT_BY_DEFAULT) {
     params.sortBy = state.sortBy;
   }
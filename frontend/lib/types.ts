@@ -74,14 +74,8 @@ export type OrganizationJobApplications = {
   jobId: number;
   applicantName: string;
   applicantEmail: string;
-  status:
-    | "pending"
-    | "reviewed"
-    | "shortlisted"
-    | "interviewing"
-    | "rejected"
-    | "hired"
-    | "withdrawn";
+  /** Stage key from the organization's hiring pipeline */
+  status: string;
   coverLetter: string | null;
   resumeUrl: string | null;
   appliedAt: Date;
@@ -91,6 +85,166 @@ export type OrganizationJobApplications = {
   organizationName: string;
 };
 
+export type HiringPipelineStage = {
+  key: string;
+  label: string;
+  position: number;
+  isTerminal: boolean;
+  allowsInterviews: boolean;
+};
+
+export type HiringPipeline = {
+  id: number | null;
+  organizationId: number;
+  name: string;
+  stages: HiringPipelineStage[];
+  transitions: { from: string; to: string }[];
+};
+
+export type AuditEvent = {
+  id: number;
+  name: string;
+  actor: {
+    /** Null for anonymous events such as invitation token reads */
+    id: string | null;
+    fullName: string | null;
+    email: string | null;
+  };
+  resource: { type: string; id: string | null };
+  action: string;
+  outcome: "success" | "failure";
+  failureReason: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+export type OrganizationPermission =
+  | "jobs.view"
+  | "jobs.create"
+  | "jobs.update"
+  | "jobs.publish"
+  | "jobs.delete"
+  | "applications.view"
+  | "applications.manage"
+  | "applications.reject"
+  | "candidates.search"
+  | "members.invite"
+  | "pipeline.manage";
+
+export type OrganizationPermissionMatrix = {
+  /** Every permission that can be granted, in display order */
+  permissions: OrganizationPermission[];
+  roles: Record<Member["role"], OrganizationPermission[]>;
+  /** Roles using a customized set instead of the defaults */
+  customizedRoles: Exclude<Member["role"], "owner">[];
+};
+
+export type OrganizationVerificationRequest = {
+  id: number;
+  organizationId: number;
+  status: "pending" | "approved" | "rejected";
+  note: string | null;
+  nonprofitRegistrationUrl: string | null;
+  einLetterUrl: string | null;
+  /** Staff note; for rejections, the reason shown to the organization */
+  decisionNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+};
+
+export type OrganizationVerification = {
+  isVerified: boolean;
+  verifiedAt: string | null;
+  latestRequest: OrganizationVerificationRequest | null;
+};
+
+export type OrganizationProfileJob = {
+  id: number;
+  title: string;
+  city: string;
+  state: string | null;
+  country: string;
+  isRemote: boolean;
+  jobType: string;
+  compensationType: string;
+  createdAt: string;
+};
+
+export type OrganizationProfile = {
+  id: number;
+  name: string;
+  mission: string;
+  logoUrl: string | null;
+  url: string;
+  city: string;
+  state: string;
+  country: string;
+  isVerified: boolean;
+  followerCount: number;
+  isFollowing: boolean;
+  openJobs: OrganizationProfileJob[];
+};
+
+export type OrganizationFollow = {
+  organizationId: number;
+  isFollowing: boolean;
+  followerCount: number;
+};
+
+export type MessagingParty = "applicant" | "organization";
+
+export type MessageAttachment = {
+  url: string;
+  filename: string;
+  size: number;
+  mimetype: string;
+  uploadedAt: string;
+};
+
+export type ApplicationMessage = {
+  id: number;
+  applicationId: number;
+  senderRole: MessagingParty;
+  senderName: string | null;
+  body: string;
+  /** Empty until the upload worker has stored the files */
+  attachments: MessageAttachment[];
+  /** Set when the other side first opens the thread */
+  readAt: string | null;
+  createdAt: string;
+};
+
+export type ApplicationMessageThread = {
+  applicationId: number;
+  jobId: number;
+  jobTitle: string;
+  organizationId: number;
+  organizationName: string;
+  applicantName: string;
+  /** Sides that blocked the other; nobody can send while any block exists */
+  blockedBy: MessagingParty[];
+  messages: ApplicationMessage[];
+};
+
+export type MessagingBlockState = {
+  applicationId: number;
+  blockedBy: MessagingParty[];
+};
+
+export type MessageInboxThread = {
+  applicationId: number;
+  jobId: number;
+  jobTitle: string;
+  organizationId: number;
+  organizationName: string;
+  lastMessage: {
+    body: string;
+    senderRole: MessagingParty;
+    createdAt: string;
+  };
+  unreadCount: number;
+};
+
 export type UserJobApplications = {
   application: {
     id: number;
@@ -133,15 +287,12 @@ export type SavedJob = {
     state: string | null;
     country: string;
     isActive: boolean;
+    status: JobStatus;
     compensationType: "volunteer" | "paid" | "missionary" | "stipend";
     isRemote: boolean;
     applicationDeadline: Date | null;
     jobType:
-      | "full-time"
-      | "part-time"
-      | "contract"
-      | "volunteer"
-      | "internship";
+      "full-time" | "part-time" | "contract" | "volunteer" | "internship";
     employer: {
       id: number;
       name: string;
@@ -372,8 +523,7 @@ export type PaginatedApiResponse<T> = ApiSuccessResponse<T[]> & {
 };
 
 export type ServerActionPaginatedResponse<T> =
-  | PaginatedApiResponse<T>
-  | ApiErrorResponse;
+  PaginatedApiResponse<T> | ApiErrorResponse;
 
 export class ApiError extends Error {
   constructor(
@@ -398,6 +548,7 @@ export type JobAlert = {
     "full_time" | "part_time" | "contract" | "temporary" | "intern"
   >;
   skills?: string[];
+  workAreas?: string[];
   experienceLevel?: string[];
   includeRemote: boolean;
   frequency: "daily" | "weekly" | "monthly";
@@ -441,12 +592,52 @@ export type InvitationDetails = {
   };
 };
 
+export type JobActivityMetrics = {
+  views: number;
+  uniqueViewers: number;
+  saves: number;
+  applyStarts: number;
+  applications: number;
+};
+
+export type JobStatsDailyBucket = JobActivityMetrics & {
+  /** UTC day, YYYY-MM-DD. */
+  date: string;
+};
+
+export type JobStatsPosting = JobActivityMetrics & {
+  jobId: number;
+  title: string;
+  isActive: boolean;
+  conversionRate: number | null;
+};
+
+export type JobStatsRange = {
+  from?: string;
+  to?: string;
+};
+
 export type OrganizationJobStats = {
-  totalJobs: number;
-  activeJobs: number;
-  expiredJobs: number;
+  total: number;
+  active: number;
+  inactive: number;
+  totalViews: number;
   totalApplications: number;
-  applicationsByStatus: {
+  range: { from: string; to: string };
+  totals: JobActivityMetrics;
+  funnel: {
+    viewers: number;
+    applyStarts: number;
+    applications: number;
+    applyStartRate: number | null;
+    completionRate: number | null;
+    conversionRate: number | null;
+  };
+  /** One bucket per day of the range, oldest first. */
+  daily: JobStatsDailyBucket[];
+  /** Postings with activity in the range, most viewed first. */
+  jobs: JobStatsPosting[];
+  applicationsByStatus?: {
     pending: number;
     reviewed: number;
     shortlisted: number;
@@ -456,6 +647,50 @@ export type OrganizationJobStats = {
   };
 };
 
+export type SubscriptionTier = "free" | "basic" | "professional" | "enterprise";
+
+export type UsageLimit = {
+  used: number;
+  /** Null when the plan has no limit. */
+  limit: number | null;
+};
+
+export type OrganizationUsage = {
+  tier: SubscriptionTier;
+  status: "active" | "cancelled" | "expired" | "trial";
+  effectiveTier: SubscriptionTier;
+  isSubscriptionActive: boolean;
+  subscriptionEndsAt: string | null;
+  activeJobs: UsageLimit;
+  featuredJobs: UsageLimit;
+  features: { candidateSearch: boolean };
+};
+
+export type PayPeriod = "hourly" | "monthly" | "yearly";
+
+export type JobReportReason =
+  | "scam"
+  | "inappropriate"
+  | "discriminatory"
+  | "misleading"
+  | "duplicate"
+  | "other";
+
+export type ReportJobInput = {
+  reason: JobReportReason;
+  details?: string;
+};
+
+export type JobStatus =
+  | "draft"
+  | "scheduled"
+  | "published"
+  | "paused"
+  | "closed"
+  | "expired"
+  | "pending_review"
+  | "removed";
+
 export type CreateJobInput = {
   title: string;
   description: string;
@@ -465,12 +700,23 @@ export type CreateJobInput = {
   zipcode: number | null;
   jobType: "full-time" | "part-time" | "contract" | "volunteer" | "internship";
   compensationType: "paid" | "missionary" | "volunteer" | "stipend";
+  compensationMin?: number | null;
+  compensationMax?: number | null;
+  compensationCurrency?: string;
+  payPeriod?: PayPeriod | null;
+  supportRaisedByCandidate?: boolean;
+  monthlySupportTarget?: number | null;
   isRemote: boolean;
   applicationDeadline: string | null;
   experience: string;
+  workAreaIds?: number[];
+  status?: "draft" | "scheduled" | "published";
+  publishAt?: string;
 };
 
-export type UpdateJobInput = Partial<CreateJobInput> & { isActive?: boolean };
+export type UpdateJobInput = Partial<
+  Omit<CreateJobInput, "status" | "publishAt">
+>;
 
 export type SendInvitationInput = {
   email: string;
@@ -15,6 +15,7 @@ export function middleware(req: NextRequest) {
     "/forgot-password",
     "/reset-password",
     "/account-deleted",
+    "/organizations",
   ];
   const isPublicRoute =
     pathname === "/" ||
@@ -8,6 +8,7 @@ export const jobAlertSchema = z.object({
   searchQuery: z.string().optional(),
   jobType: z.array(z.enum(["full_time", "part_time", "contract", "temporary", "intern"])).optional(),
   skills: z.array(z.string()).optional(),
+  workAreas: z.array(z.string()).max(20).optional(),
   experienceLevel: z.array(z.string()).optional(),
   includeRemote: z.boolean().default(true),
   frequency: z.enum(["daily", "weekly", "monthly"]).default("weekly"),
@@ -15,7 +16,8 @@ export const jobAlertSchema = z.object({
   isPaused: z.boolean().default(false),
 }).refine(
   (data) => !!(data.searchQuery || data.jobType?.length || data.skills?.length ||
-               data.experienceLevel?.length || data.city || data.state),
+               data.workAreas?.length || data.experienceLevel?.length ||
+               data.city || data.state),
   { message: "At least one search criteria is required" }
 );
 
@@ -1,26 +1,56 @@
 import { z } from "zod";
 
-export const createJobSchema = z.object({
-  title: z
-    .string()
-    .min(5, "Title must be at least 5 characters")
-    .max(255, "Title cannot exceed 255 characters"),
-  description: z.string().min(1, "Description is required"),
-  city: z.string().min(1, "City is required"),
-  state: z.string(),
-  country: z.string().min(1, "Country is required"),
-  zipcode: z.union([z.number().int().positive(), z.null()]),
-  jobType: z.enum([
-    "full-time",
-    "part-time",
-    "contract",
-    "volunteer",
-    "internship",
-  ]),
-  compensationType: z.enum(["paid", "missionary", "volunteer", "stipend"]),
-  isRemote: z.boolean(),
-  applicationDeadline: z.string().nullable(),
-  experience: z.string(),
-});
+const amountSchema = z.number().int().nonnegative().nullable();
+
+export const createJobSchema = z
+  .object({
+    title: z
+      .string()
+      .min(5, "Title must be at least 5 characters")
+      .max(255, "Title cannot exceed 255 characters"),
+    description: z.string().min(1, "Description is required"),
+    city: z.string().min(1, "City is required"),
+    state: z.string(),
+    country: z.string().min(1, "Country is required"),
+    zipcode: z.union([z.number().int().positive(), z.null()]),
+    jobType: z.enum([
+      "full-time",
+      "part-time",
+      "contract",
+      "volunteer",
+      "internship",
+    ]),
+    compensationType: z.enum(["paid", "missionary", "volunteer", "stipend"]),
+    compensationMin: amountSchema,
+    compensationMax: amountSchema,
+    compensationCurrency: z
+      .string()
+      .regex(/^[A-Z]{3}$/, "Use a 3-letter currency code, e.g. USD"),
+    payPeriod: z.enum(["hourly", "monthly", "yearly"]).nullable(),
+    supportRaisedByCandidate: z.boolean(),
+    monthlySupportTarget: amountSchema,
+    isRemote: z.boolean(),
+    applicationDeadline: z.string().nullable(),
+    experience: z.string(),
+    workAreaIds: z
+      .array(z.number().int().positive())
+      .max(5, "Choose at most 5 work areas"),
+  })
+  .refine(
+    (data) =>
+      data.compensationMin === null ||
+      data.compensationMax === null ||
+      data.compensationMin <= data.compensationMax,
+    {
+      message: "Minimum pay cannot exceed the maximum",
+      path: ["compensationMin"],
+    },
+  )
+  .refine(
+    (data) =>
+      (data.compensationMin === null && data.compensationMax === null) ||
+      data.payPeriod !== null,
+    { message: "Choose a pay period for the pay range", path: ["payPeriod"] },
+  );
 
 export type CreateJobFormData = z.infer<typeof createJobSchema>;
@@ -22,8 +22,25 @@ export const JobSchema = z.object({
     "internship",
   ]),
   compensationType: z.enum(["volunteer", "paid", "missionary", "stipend"]),
+  compensationMin: z.number().nullish(),
+  compensationMax: z.number().nullish(),
+  compensationCurrency: z.string().nullish(),
+  payPeriod: z.enum(["hourly", "monthly", "yearly"]).nullish(),
+  supportRaisedByCandidate: z.boolean().optional(),
+  monthlySupportTarget: z.number().nullish(),
   isRemote: z.boolean(),
   isActive: z.boolean(),
+  status: z.enum([
+    "draft",
+    "scheduled",
+    "published",
+    "paused",
+    "closed",
+    "expired",
+    "pending_review",
+    "removed",
+  ]),
+  publishAt: z.string().nullish(),
   applicationDeadline: z.date().nullable(),
   experience: z.string().nullable(),
   employerId: z.number(),
@@ -37,6 +54,7 @@ export const organizationSchema = z.object({
   city: z.string(),
   state: z.string(),
   logoUrl: z.string().nullable(),
+  isVerified: z.boolean().optional(),
 });
 
 export const jobWithEmployerSchema = z.object({
@@ -46,13 +64,30 @@ export const jobWithEmployerSchema = z.object({
   employer: organizationSchema.nullable(),
 });
 
+// Questions the candidate answers when applying; knockout rules are never sent
+export const publicScreeningQuestionSchema = z.object({
+  id: z.number(),
+  question: z.string(),
+  type: z.enum(["yes_no", "multiple_choice", "numeric", "text"]),
+  options: z.array(z.string()).nullable(),
+  isRequired: z.boolean(),
+  position: z.number(),
+});
+
+export const jobDetailSchema = jobWithEmployerSchema.extend({
+  screeningQuestions: z.array(publicScreeningQuestionSchema).optional(),
+});
+
 export const jobsResponseSchema = apiResponseSchema(
   z.array(jobWithEmployerSchema),
 );
-export const jobResponseSchema = apiResponseSchema(jobWithEmployerSchema);
+export const jobResponseSchema = apiResponseSchema(jobDetailSchema);
 
 export type JobsResponse = z.infer<typeof jobsResponseSchema>;
 export type JobResponse = z.infer<typeof jobResponseSchema>;
 export type Job = z.infer<typeof JobSchema>;
 export type Organization = z.infer<typeof organizationSchema>;
 export type JobWithEmployer = z.infer<typeof jobWithEmployerSchema>;
+export type PublicScreeningQuestion = z.infer<
+  typeof publicScreeningQuestionSchema
+>;
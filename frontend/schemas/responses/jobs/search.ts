@@ -14,7 +14,33 @@ export const searchJobResultSchema = z.object({
   skills: z.string().array(),
   createdAt: z.number(),
   compensationType: z.string().optional(),
+  compensationMin: z.number().optional(),
+  compensationMax: z.number().optional(),
+  compensationCurrency: z.string().optional(),
+  payPeriod: z.string().optional(),
+  supportRaisedByCandidate: z.boolean().optional(),
+  monthlySupportTarget: z.number().optional(),
   logoUrl: z.string().optional(),
+  isVerified: z.boolean().optional(),
 });
 
 export type SearchJobResult = z.infer<typeof searchJobResultSchema>;
+
+export const searchFacetCountSchema = z.object({
+  value: z.string(),
+  count: z.number(),
+});
+
+export const searchFacetsSchema = z.object({
+  jobType: searchFacetCountSchema.array(),
+  compensationType: searchFacetCountSchema.array(),
+  experience: searchFacetCountSchema.array(),
+  isRemote: searchFacetCountSchema.array(),
+  state: searchFacetCountSchema.array(),
+  city: searchFacetCountSchema.array(),
+  skills: searchFacetCountSchema.array(),
+  workAreas: searchFacetCountSchema.array(),
+});
+
+export type SearchFacetCount = z.infer<typeof searchFacetCountSchema>;
+export type SearchFacets = z.infer<typeof searchFacetsSchema>;
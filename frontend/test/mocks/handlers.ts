@@ -1,5 +1,8 @@
 import { http, HttpResponse } from "msw";
-import type { SearchJobResult } from "@/schemas/responses/jobs/search";
+import type {
+  SearchFacets,
+  SearchJobResult,
+} from "@/schemas/responses/jobs/search";
 import type { JobWithEmployer } from "@/schemas/responses/jobs";
 import type { PaginatedApiResponse } from "@/lib/types";
 
@@ -31,6 +34,7 @@ export function makeJobWithEmployer(
       compensationType: "paid",
       isRemote: false,
       isActive: true,
+      status: "published",
       applicationDeadline: null,
       experience: "Senior",
       employerId: 1,
@@ -94,14 +98,36 @@ export function makeSearchResult(
   };
 }
 
+export function makeSearchFacets(
+  overrides: Partial<SearchFacets> = {},
+): SearchFacets {
+  return {
+    jobType: [],
+    compensationType: [],
+    experience: [],
+    isRemote: [],
+    state: [],
+    city: [],
+    skills: [],
+    workAreas: [],
+    ...overrides,
+  };
+}
+
 export function makePaginatedResponse(
   data: SearchJobResult[],
   {
     page = 1,
     totalPages = 1,
     total = data.length,
-  }: { page?: number; totalPages?: number; total?: number } = {},
-): PaginatedApiResponse<SearchJobResult> {
+    facets = makeSearchFacets(),
+  }: {
+    page?: number;
+    totalPages?: number;
+    total?: number;
+    facets?: SearchFacets;
+  } = {},
+): PaginatedApiResponse<SearchJobResult> & { facets: SearchFacets } {
   const hasNext = page < totalPages;
   const hasPrevious = page > 1;
   return {
@@ -117,6 +143,7 @@ export function makePaginatedResponse(
       nextPage: hasNext ? page + 1 : null,
       previousPage: hasPrevious ? page - 1 : null,
     },
+    facets,
   };
 }
 